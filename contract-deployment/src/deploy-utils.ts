@@ -8,7 +8,9 @@
  * already published before each attempt.
  */
 
+import { getSchnorrAccountContractAddress } from "@aztec/accounts/schnorr";
 import type { ContractArtifact } from "@aztec/aztec.js/abi";
+import type { AztecAddress } from "@aztec/aztec.js/addresses";
 import {
   BatchCall,
   type ContractBase,
@@ -17,11 +19,21 @@ import {
   type DeployOptions,
   getContractClassFromArtifact,
 } from "@aztec/aztec.js/contracts";
+import { Fr } from "@aztec/aztec.js/fields";
 import type { Wallet } from "@aztec/aztec.js/wallet";
+import { Schnorr } from "@aztec/foundation/crypto/schnorr";
+import { deriveKeys, deriveSigningKey } from "@aztec/stdlib/keys";
 import pino from "pino";
+import { FPCMultiAssetContract } from "../../codegen/FPCMultiAsset.js";
 
 const pinoLogger = pino();
 
+export type OperatorIdentity = {
+  address: string;
+  pubkeyX: string;
+  pubkeyY: string;
+};
+
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 3000;
 
@@ -94,3 +106,47 @@ function isTransientBlockError(error: unknown): boolean {
   const msg = error instanceof Error ? error.message : String(error);
   return msg.includes("not found when querying world state");
 }
+
+/** Derives the operator account address (salt 0) and Schnorr pubkey from its secret key. */
+export async function deriveOperatorIdentity(operatorSecretKey: string): Promise<OperatorIdentity> {
+  const secretKeyFr = Fr.fromHexString(operatorSecretKey);
+  const signingKey = deriveSigningKey(secretKeyFr);
+  const schnorr = new Schnorr();
+  const pubkey = await schnorr.computePublicKey(signingKey);
+  const address = await getSchnorrAccountContractAddress(secretKeyFr, Fr.ZERO);
+
+  return {
+    address: address.toString(),
+    pubkeyX: pubkey.x.toString(),
+    pubkeyY: pubkey.y.toString(),
+  };
+}
+
+/**
+ * Deploy an FPC bound to `operatorAddress` and the given operator pubkey.
+ * The FPC is deployed with zero public keys, so its address is determined by
+ * the constructor arguments and the deployer.
+ */
+export async function deployFpcContract(
+  wallet: Wallet,
+  operatorAddress: AztecAddress,
+  operatorIdentity: OperatorIdentity,
+  sendOptions: DeployOptions,
+): Promise<{ address: string; txHash: string }> {
+  const { publicKeys: fpcPublicKeys } = await deriveKeys(Fr.ZERO);
+  const fpcDeployMethod = FPCMultiAssetContract.deployWithPublicKeys(
+    fpcPublicKeys,
+    wallet,
+    operatorAddress,
+    Fr.fromHexString(operatorIdentity.pubkeyX),
+    Fr.fromHexString(operatorIdentity.pubkeyY),
+  );
+  const address = (await fpcDeployMethod.getInstance()).address.toString();
+  const txHash = await deployContract(
+    wallet,
+    FPCMultiAssetContract.artifact,
+    fpcDeployMethod,
+    sendOptions,
+  );
+  return { address, txHash };
+}
@@ -1,16 +1,14 @@
 import path from "node:path";
-import { getSchnorrAccountContractAddress } from "@aztec/accounts/schnorr";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import type { DeployOptions } from "@aztec/aztec.js/contracts";
 import { SponsoredFeePaymentMethod } from "@aztec/aztec.js/fee";
 import { Fr } from "@aztec/aztec.js/fields";
 import { createAztecNodeClient, waitForNode } from "@aztec/aztec.js/node";
-import { Schnorr } from "@aztec/foundation/crypto/schnorr";
-import { deriveKeys, deriveSigningKey } from "@aztec/stdlib/keys";
+import { deriveSigningKey } from "@aztec/stdlib/keys";
 import { EmbeddedWallet } from "@aztec/wallets/embedded";
 import pino from "pino";
 import { FPCMultiAssetContract } from "../../codegen/FPCMultiAsset.js";
-import { deployContract } from "./deploy-utils.js";
+import { deployFpcContract, deriveOperatorIdentity } from "./deploy-utils.js";
 import { type DeployManifest, writeDeployManifest } from "./manifest.js";
 import { verifyDeployment } from "./verify.js";
 
@@ -39,12 +37,6 @@ type CliParseResult =
       args: CliArgs;
     };
 
-type OperatorIdentity = {
-  address: string;
-  pubkeyX: string;
-  pubkeyY: string;
-};
-
 const AZTEC_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{64}$/;
 const ZERO_AZTEC_ADDRESS_PATTERN = /^0x0{64}$/i;
 const HEX_32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
@@ -304,20 +296,6 @@ function parseCliArgs(argv: string[]): CliParseResult {
   };
 }
 
-async function deriveOperatorIdentity(operatorSecretKey: string): Promise<OperatorIdentity> {
-  const secretKeyFr = Fr.fromHexString(operatorSecretKey);
-  const signingKey = deriveSigningKey(secretKeyFr);
-  const schnorr = new Schnorr();
-  const pubkey = await schnorr.computePublicKey(signingKey);
-  const address = await getSchnorrAccountContractAddress(secretKeyFr, Fr.ZERO);
-
-  return {
-    address: address.toString(),
-    pubkeyX: pubkey.x.toString(),
-    pubkeyY: pubkey.y.toString(),
-  };
-}
-
 async function main(): Promise<void> {
   const parseResult = parseCliArgs(process.argv.slice(2));
   if (parseResult.kind === "help") {
@@ -427,16 +405,12 @@ async function main(): Promise<void> {
   const fpcArtifact = FPCMultiAssetContract.artifact;
   pinoLogger.info(`[deploy-fpc-devnet] deploying ${fpcArtifact.name} contract`);
 
-  const { publicKeys: fpcPublicKeys } = await deriveKeys(Fr.ZERO);
-  const fpcDeployMethod = FPCMultiAssetContract.deployWithPublicKeys(
-    fpcPublicKeys,
+  const { address: fpcAddress, txHash: fpcDeployTxHash } = await deployFpcContract(
     wallet,
     operatorAddress,
-    Fr.fromHexString(operatorIdentity.pubkeyX),
-    Fr.fromHexString(operatorIdentity.pubkeyY),
+    operatorIdentity,
+    deployOpts,
   );
-  const fpcAddress = (await fpcDeployMethod.getInstance()).address.toString();
-  const fpcDeployTxHash = await deployContract(wallet, fpcArtifact, fpcDeployMethod, deployOpts);
   pinoLogger.info(`[deploy-fpc-devnet] fpc deployed. address=${fpcAddress}`);
 
   const feeAssetHandlerAddress = nodeInfo.l1ContractAddresses.feeAssetHandlerAddress;
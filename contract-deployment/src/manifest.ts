@@ -12,6 +12,25 @@ import {
 
 // ── Schema ──────────────────────────────────────────────────────────
 
+const operatorSchema = z.object({
+  address: aztecAddress,
+  pubkey_x: fieldValue,
+  pubkey_y: fieldValue,
+});
+
+/**
+ * Link to the FPC a rotation replaced. The previous FPC keeps honouring the
+ * quotes it already signed until `overlap_until`; services advertise the
+ * successor and stop funding the predecessor.
+ */
+const previousFpcSchema = z.object({
+  fpc: aztecAddress,
+  operator: operatorSchema,
+  fpc_deploy_tx_hash: txHash,
+  rotated_at: isoTimestamp,
+  overlap_until: isoTimestamp,
+});
+
 const deployManifestSchema = z.object({
   status: z.literal("deploy_ok"),
   generated_at: isoTimestamp,
@@ -28,19 +47,17 @@ const deployManifestSchema = z.object({
   contracts: z.object({
     fpc: aztecAddress,
   }),
-  operator: z.object({
-    address: aztecAddress,
-    pubkey_x: fieldValue,
-    pubkey_y: fieldValue,
-  }),
+  operator: operatorSchema,
   tx_hashes: z.object({
     fpc_deploy: txHash,
   }),
+  previous_fpc: previousFpcSchema.optional(),
 });
 
 // ── Derived type ────────────────────────────────────────────────────
 
 export type DeployManifest = z.infer<typeof deployManifestSchema>;
+export type PreviousFpcLink = z.infer<typeof previousFpcSchema>;
 
 // ── Public API ──────────────────────────────────────────────────────
 
@@ -0,0 +1,305 @@
+import { copyFileSync } from "node:fs";
+import path from "node:path";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import type { DeployOptions } from "@aztec/aztec.js/contracts";
+import { SponsoredFeePaymentMethod } from "@aztec/aztec.js/fee";
+import { Fr } from "@aztec/aztec.js/fields";
+import { createAztecNodeClient, waitForNode } from "@aztec/aztec.js/node";
+import { deriveSigningKey } from "@aztec/stdlib/keys";
+import { EmbeddedWallet } from "@aztec/wallets/embedded";
+import pino from "pino";
+import { deployFpcContract, deriveOperatorIdentity } from "./deploy-utils.js";
+import { readDeployManifest, writeDeployManifest } from "./manifest.js";
+import {
+  assertOperatorKeyRotated,
+  buildSuccessorManifest,
+  DEFAULT_ROTATION_OVERLAP_SECONDS,
+  RotationError,
+} from "./rotation.js";
+import { verifyDeployment } from "./verify.js";
+
+const pinoLogger = pino();
+const LABEL = "rotate-operator";
+
+const HEX_32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const DEVNET_DEFAULT_DATA_DIR = "./deployments";
+
+type CliArgs = {
+  manifestPath: string;
+  out: string;
+  nodeUrl: string | null;
+  deployerSecretKey: string;
+  newOperatorSecretKey: string;
+  overlapSeconds: number;
+  proverEnabled: boolean;
+  skipVerify: boolean;
+};
+
+class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+function usage(): string {
+  return [
+    "Usage:",
+    "  bun run contract-deployment/dist/rotate-operator.js [options]",
+    "",
+    "Deploys a successor FPC bound to a new operator key and rewrites the deploy manifest",
+    "with a previous_fpc link. The current manifest is kept next to it as <name>.previous.json.",
+    "",
+    "Credentials (prefer env vars to avoid leaking secrets in shell history):",
+    "  --deployer-secret-key <hex32>      Deployer secret key (required) [env: FPC_DEPLOYER_SECRET_KEY]",
+    "  --new-operator-secret-key <hex32>  Successor operator secret key (required) [env: FPC_NEW_OPERATOR_SECRET_KEY]",
+    "",
+    "Options:",
+    "  --manifest <path.json>             Current deploy manifest (default: $FPC_DATA_DIR/manifest.json) [env: FPC_DEPLOY_MANIFEST]",
+    "  --out <path.json>                  Successor manifest path (default: --manifest) [env: FPC_OUT]",
+    "  --node-url <url>                   Aztec node URL (default: manifest network.node_url) [env: AZTEC_NODE_URL]",
+    `  --overlap-seconds <n>              How long the previous FPC stays advertised (default: ${DEFAULT_ROTATION_OVERLAP_SECONDS}) [env: FPC_ROTATION_OVERLAP_SECONDS]`,
+    "  --pxe-prover-enabled <bool>        Enable PXE prover (default: true) [env: PXE_PROVER_ENABLED]",
+    "  --skip-verify                      Skip post-deploy verification [env: FPC_SKIP_VERIFY=1]",
+    "  --help, -h                         Show this help",
+    "",
+    "Notes:",
+    "  - The payment mode (sponsored FPC or fee juice) is taken from the current manifest.",
+    "  - --overlap-seconds must exceed the attestation quote_validity_seconds so every quote",
+    "    signed for the previous FPC expires before it is retired.",
+  ].join("\n");
+}
+
+function nextArg(argv: string[], index: number, flag: string): string {
+  const value = argv[index + 1];
+  if (!value || value.startsWith("--")) {
+    throw new CliError(`Missing value for ${flag}`);
+  }
+  return value;
+}
+
+function parseHex32(value: string | null, fieldName: string): string {
+  if (!value) {
+    throw new CliError(`Missing ${fieldName}`);
+  }
+  if (!HEX_32_PATTERN.test(value)) {
+    throw new CliError(`Invalid ${fieldName}: expected 32-byte 0x-prefixed hex value`);
+  }
+  return value;
+}
+
+function parseBooleanFlag(value: string, fieldName: string): boolean {
+  const lower = value.toLowerCase();
+  if (lower === "1" || lower === "true") return true;
+  if (lower === "0" || lower === "false") return false;
+  throw new CliError(`Invalid ${fieldName}: expected "true", "false", "1", or "0", got "${value}"`);
+}
+
+function parsePositiveInt(value: string, fieldName: string): number {
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed <= 0) {
+    throw new CliError(`Invalid ${fieldName}: expected positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseCliArgs(argv: string[]): CliArgs | null {
+  const dataDir = process.env.FPC_DATA_DIR ?? DEVNET_DEFAULT_DATA_DIR;
+  let manifestPath = process.env.FPC_DEPLOY_MANIFEST ?? path.join(dataDir, "manifest.json");
+  let out: string | null = process.env.FPC_OUT ?? null;
+  let nodeUrl: string | null = process.env.AZTEC_NODE_URL ?? null;
+  let deployerSecretKey: string | null = process.env.FPC_DEPLOYER_SECRET_KEY ?? null;
+  let newOperatorSecretKey: string | null = process.env.FPC_NEW_OPERATOR_SECRET_KEY ?? null;
+  let overlapSeconds = process.env.FPC_ROTATION_OVERLAP_SECONDS
+    ? parsePositiveInt(process.env.FPC_ROTATION_OVERLAP_SECONDS, "FPC_ROTATION_OVERLAP_SECONDS")
+    : DEFAULT_ROTATION_OVERLAP_SECONDS;
+  let proverEnabled = process.env.PXE_PROVER_ENABLED
+    ? parseBooleanFlag(process.env.PXE_PROVER_ENABLED, "PXE_PROVER_ENABLED")
+    : true;
+  let skipVerify = process.env.FPC_SKIP_VERIFY === "1";
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--manifest":
+        manifestPath = nextArg(argv, i, arg);
+        i += 1;
+        break;
+      case "--out":
+        out = nextArg(argv, i, arg);
+        i += 1;
+        break;
+      case "--node-url":
+        nodeUrl = nextArg(argv, i, arg);
+        i += 1;
+        break;
+      case "--deployer-secret-key":
+        deployerSecretKey = nextArg(argv, i, arg);
+        i += 1;
+        break;
+      case "--new-operator-secret-key":
+        newOperatorSecretKey = nextArg(argv, i, arg);
+        i += 1;
+        break;
+      case "--overlap-seconds":
+        overlapSeconds = parsePositiveInt(nextArg(argv, i, arg), arg);
+        i += 1;
+        break;
+      case "--pxe-prover-enabled":
+        proverEnabled = parseBooleanFlag(nextArg(argv, i, arg), arg);
+        i += 1;
+        break;
+      case "--skip-verify":
+        skipVerify = true;
+        break;
+      case "--help":
+      case "-h":
+        pinoLogger.info(usage());
+        return null;
+      default:
+        throw new CliError(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return {
+    manifestPath: path.resolve(manifestPath),
+    out: path.resolve(out ?? manifestPath),
+    nodeUrl,
+    deployerSecretKey: parseHex32(deployerSecretKey, "--deployer-secret-key"),
+    newOperatorSecretKey: parseHex32(newOperatorSecretKey, "--new-operator-secret-key"),
+    overlapSeconds,
+    proverEnabled,
+    skipVerify,
+  };
+}
+
+function archivePath(manifestPath: string): string {
+  const ext = path.extname(manifestPath);
+  return path.join(
+    path.dirname(manifestPath),
+    `${path.basename(manifestPath, ext)}.previous${ext || ".json"}`,
+  );
+}
+
+async function main(): Promise<void> {
+  const args = parseCliArgs(process.argv.slice(2));
+  if (!args) {
+    return;
+  }
+
+  const previous = readDeployManifest(args.manifestPath);
+  const nodeUrl = args.nodeUrl ?? previous.network.node_url;
+  pinoLogger.info(`[${LABEL}] current fpc=${previous.contracts.fpc} manifest=${args.manifestPath}`);
+
+  const operatorIdentity = await deriveOperatorIdentity(args.newOperatorSecretKey);
+  const operatorAddress = AztecAddress.fromString(operatorIdentity.address);
+  assertOperatorKeyRotated(previous, {
+    address: operatorAddress,
+    pubkey_x: Fr.fromHexString(operatorIdentity.pubkeyX),
+    pubkey_y: Fr.fromHexString(operatorIdentity.pubkeyY),
+  });
+  pinoLogger.info(
+    `[${LABEL}] successor operator address=${operatorIdentity.address} pubkey_x=${operatorIdentity.pubkeyX} pubkey_y=${operatorIdentity.pubkeyY}`,
+  );
+
+  const node = createAztecNodeClient(nodeUrl);
+  await waitForNode(node);
+  const nodeInfo = await node.getNodeInfo();
+  if (
+    nodeInfo.l1ChainId !== previous.network.l1_chain_id ||
+    nodeInfo.rollupVersion !== previous.network.rollup_version
+  ) {
+    throw new CliError(
+      `Node ${nodeUrl} is on l1_chain_id=${nodeInfo.l1ChainId} rollup_version=${nodeInfo.rollupVersion}, but the manifest was deployed on l1_chain_id=${previous.network.l1_chain_id} rollup_version=${previous.network.rollup_version}`,
+    );
+  }
+
+  const wallet = await EmbeddedWallet.create(node, {
+    pxeConfig: { proverEnabled: args.proverEnabled, syncChainTip: "checkpointed" },
+  });
+  const deployerSecretFr = Fr.fromHexString(args.deployerSecretKey);
+  const deployerAccount = await wallet.createSchnorrAccount(
+    deployerSecretFr,
+    Fr.ZERO,
+    deriveSigningKey(deployerSecretFr),
+  );
+  const deployerAddress = deployerAccount.address;
+  if (!operatorAddress.equals(deployerAddress)) {
+    const operatorSecretFr = Fr.fromHexString(args.newOperatorSecretKey);
+    await wallet.createSchnorrAccount(
+      operatorSecretFr,
+      Fr.ZERO,
+      deriveSigningKey(operatorSecretFr),
+    );
+  }
+
+  const sponsoredFpcAddress = previous.aztec_required_addresses.sponsored_fpc_address;
+  const deployOpts: DeployOptions = sponsoredFpcAddress
+    ? {
+        from: deployerAddress,
+        fee: { paymentMethod: new SponsoredFeePaymentMethod(sponsoredFpcAddress) },
+      }
+    : { from: deployerAddress };
+
+  pinoLogger.info(`[${LABEL}] deploying successor FPC`);
+  const deployed = await deployFpcContract(wallet, operatorAddress, operatorIdentity, deployOpts);
+  const rotatedAt = new Date();
+  const manifest = buildSuccessorManifest({
+    previous,
+    successor: {
+      status: "deploy_ok",
+      generated_at: rotatedAt.toISOString(),
+      network: {
+        node_url: nodeUrl,
+        node_version: nodeInfo.nodeVersion,
+        l1_chain_id: nodeInfo.l1ChainId,
+        rollup_version: nodeInfo.rollupVersion,
+      },
+      aztec_required_addresses: previous.aztec_required_addresses,
+      deployer_address: deployerAddress,
+      contracts: { fpc: AztecAddress.fromString(deployed.address) },
+      operator: {
+        address: operatorAddress,
+        pubkey_x: Fr.fromHexString(operatorIdentity.pubkeyX),
+        pubkey_y: Fr.fromHexString(operatorIdentity.pubkeyY),
+      },
+      tx_hashes: { fpc_deploy: deployed.txHash },
+    },
+    rotatedAt,
+    overlapSeconds: args.overlapSeconds,
+  });
+
+  const archived = archivePath(args.manifestPath);
+  copyFileSync(args.manifestPath, archived);
+  writeDeployManifest(args.out, manifest);
+  pinoLogger.info(
+    `[${LABEL}] successor fpc=${manifest.contracts.fpc} previous_fpc=${previous.contracts.fpc} overlap_until=${manifest.previous_fpc?.overlap_until}`,
+  );
+  pinoLogger.info(`[${LABEL}] wrote ${args.out} (previous manifest kept at ${archived})`);
+
+  if (args.skipVerify) {
+    pinoLogger.info(`[${LABEL}] skipping post-deploy verification (--skip-verify)`);
+  } else {
+    await verifyDeployment({ manifest, node });
+  }
+
+  pinoLogger.info(
+    `[${LABEL}] next: regenerate service configs (previous_fpc_* is read from the manifest) and restart attestation and topup`,
+  );
+  process.exit(0);
+}
+
+main().catch((error) => {
+  if (error instanceof CliError || error instanceof RotationError) {
+    pinoLogger.error(`[${LABEL}] ERROR: ${error.message}`);
+    if (error instanceof CliError) {
+      pinoLogger.error("");
+      pinoLogger.error(usage());
+    }
+  } else {
+    pinoLogger.error(
+      `[${LABEL}] Unexpected error: ${error instanceof Error ? (error.stack ?? error.message) : String(error)}`,
+    );
+  }
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import type { DeployManifest } from "./manifest.js";
+
+/**
+ * Default overlap during which the previous FPC is still advertised and its
+ * outstanding quotes are tracked. Must exceed the attestation service's
+ * `quote_validity_seconds` so every quote signed for the previous FPC expires
+ * before it is retired.
+ */
+export const DEFAULT_ROTATION_OVERLAP_SECONDS = 3600;
+
+export class RotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RotationError";
+  }
+}
+
+/**
+ * Rejects a rotation that would not change the signing key. Comparing pubkeys
+ * (not addresses) catches a reused key even behind a different account salt.
+ */
+export function assertOperatorKeyRotated(
+  previous: DeployManifest,
+  successorOperator: DeployManifest["operator"],
+): void {
+  if (
+    previous.operator.pubkey_x.equals(successorOperator.pubkey_x) &&
+    previous.operator.pubkey_y.equals(successorOperator.pubkey_y)
+  ) {
+    throw new RotationError(
+      "New operator key has the same pubkey as the current FPC operator; rotation requires a different key",
+    );
+  }
+}
+
+/**
+ * Builds the successor manifest: everything about the new deployment plus a
+ * `previous_fpc` link to the FPC being replaced. Only the immediate
+ * predecessor is linked; older links are dropped once their overlap has
+ * necessarily been superseded.
+ */
+export function buildSuccessorManifest(args: {
+  previous: DeployManifest;
+  successor: Omit<DeployManifest, "previous_fpc">;
+  rotatedAt: Date;
+  overlapSeconds: number;
+}): DeployManifest {
+  const { previous, successor, rotatedAt, overlapSeconds } = args;
+  if (!Number.isSafeInteger(overlapSeconds) || overlapSeconds <= 0) {
+    throw new RotationError(`Invalid overlap: expected positive seconds, got ${overlapSeconds}`);
+  }
+  if (previous.contracts.fpc.equals(successor.contracts.fpc)) {
+    throw new RotationError("Successor FPC address matches the previous FPC");
+  }
+  assertOperatorKeyRotated(previous, successor.operator);
+
+  return {
+    ...successor,
+    previous_fpc: {
+      fpc: previous.contracts.fpc,
+      operator: previous.operator,
+      fpc_deploy_tx_hash: previous.tx_hashes.fpc_deploy,
+      rotated_at: rotatedAt.toISOString(),
+      overlap_until: new Date(rotatedAt.getTime() + overlapSeconds * 1000).toISOString(),
+    },
+  };
+}
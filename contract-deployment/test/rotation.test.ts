@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { describe, it } from "#test";
+import { type DeployManifest, validateDeployManifest } from "../src/manifest.js";
+import { buildSuccessorManifest, RotationError } from "../src/rotation.js";
+
+const PREVIOUS_FPC = "0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac";
+const SUCCESSOR_FPC = "0x1b755492d6dd51deb08b7e51a33133186687ea13527f07921fd74640dc8dec24";
+const PREVIOUS_DEPLOY_TX = `0x${"aa".repeat(32)}`;
+
+function makeManifest(overrides: {
+  fpc: string;
+  pubkeyX: string;
+  pubkeyY: string;
+  txHash: string;
+}): DeployManifest {
+  return validateDeployManifest({
+    status: "deploy_ok",
+    generated_at: "2026-01-01T00:00:00.000Z",
+    network: {
+      node_url: "http://127.0.0.1:8080",
+      node_version: "4.2.0",
+      l1_chain_id: 31337,
+      rollup_version: 1,
+    },
+    aztec_required_addresses: {},
+    deployer_address: "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72",
+    contracts: { fpc: overrides.fpc },
+    operator: {
+      address: "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72",
+      pubkey_x: overrides.pubkeyX,
+      pubkey_y: overrides.pubkeyY,
+    },
+    tx_hashes: { fpc_deploy: overrides.txHash },
+  });
+}
+
+const previous = makeManifest({
+  fpc: PREVIOUS_FPC,
+  pubkeyX: "0x0896d0dbea3a3e52aff21c683f7053b1372bb4994d2f98a5616aba4fe82599ce",
+  pubkeyY: "0x11a52a7b2c2204b54279a2a2d2620b0270265874efeda28b747f92ecb4f74aff",
+  txHash: PREVIOUS_DEPLOY_TX,
+});
+
+const successor = makeManifest({
+  fpc: SUCCESSOR_FPC,
+  pubkeyX: "0x01",
+  pubkeyY: "0x02",
+  txHash: `0x${"bb".repeat(32)}`,
+});
+
+describe("operator key rotation", () => {
+  it("links the successor manifest to the previous FPC with an overlap window", () => {
+    const manifest = buildSuccessorManifest({
+      previous,
+      successor,
+      rotatedAt: new Date("2026-03-01T12:00:00.000Z"),
+      overlapSeconds: 3600,
+    });
+
+    assert.ok(manifest.contracts.fpc.equals(AztecAddress.fromString(SUCCESSOR_FPC)));
+    assert.ok(manifest.previous_fpc?.fpc.equals(AztecAddress.fromString(PREVIOUS_FPC)));
+    assert.ok(manifest.previous_fpc?.operator.pubkey_x.equals(previous.operator.pubkey_x));
+    assert.equal(manifest.previous_fpc?.fpc_deploy_tx_hash, PREVIOUS_DEPLOY_TX);
+    assert.equal(manifest.previous_fpc?.rotated_at, "2026-03-01T12:00:00.000Z");
+    assert.equal(manifest.previous_fpc?.overlap_until, "2026-03-01T13:00:00.000Z");
+
+    // The written manifest must round-trip through the schema.
+    const roundTripped = validateDeployManifest(JSON.parse(JSON.stringify(manifest)));
+    assert.equal(roundTripped.previous_fpc?.overlap_until, "2026-03-01T13:00:00.000Z");
+  });
+
+  it("refuses to rotate to the same operator pubkey", () => {
+    assert.throws(
+      () =>
+        buildSuccessorManifest({
+          previous,
+          successor: { ...successor, operator: previous.operator },
+          rotatedAt: new Date(),
+          overlapSeconds: 3600,
+        }),
+      (error: unknown) => error instanceof RotationError && /same pubkey/.test(error.message),
+    );
+  });
+
+  it("rejects a non-positive overlap or an unchanged FPC address", () => {
+    assert.throws(
+      () => buildSuccessorManifest({ previous, successor, rotatedAt: new Date(), overlapSeconds: 0 }),
+      /Invalid overlap/,
+    );
+    assert.throws(
+      () =>
+        buildSuccessorManifest({
+          previous,
+          successor: { ...successor, contracts: previous.contracts },
+          rotatedAt: new Date(),
+          overlapSeconds: 60,
+        }),
+      /matches the previous FPC/,
+    );
+  });
+
+});
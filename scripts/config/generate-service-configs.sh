@@ -59,14 +59,34 @@ for var in FPC_ADDRESS; do
   fi
 done
 
+# Set after an operator key rotation (contract-deployment rotate-operator).
+export PREVIOUS_FPC_ADDRESS=$(jq -r '.previous_fpc.fpc // empty' "$FPC_DEPLOY_MANIFEST")
+export PREVIOUS_FPC_RETIRES_AT=""
+if [ -n "$PREVIOUS_FPC_ADDRESS" ]; then
+  # overlap_until is an ISO timestamp with milliseconds, which fromdateiso8601 rejects.
+  PREVIOUS_FPC_RETIRES_AT=$(jq -r '.previous_fpc.overlap_until | sub("\\.[0-9]+Z$"; "Z") | fromdateiso8601' "$FPC_DEPLOY_MANIFEST")
+fi
+
+if [ -n "$PREVIOUS_FPC_ADDRESS" ]; then
+  ATTESTATION_PREVIOUS_FPC='
+    | .previous_fpc_address = strenv(PREVIOUS_FPC_ADDRESS) | .previous_fpc_address style="double"
+    | .previous_fpc_retires_at = (strenv(PREVIOUS_FPC_RETIRES_AT) | to_number)'
+  TOPUP_PREVIOUS_FPC='
+    | .previous_fpc_address = strenv(PREVIOUS_FPC_ADDRESS) | .previous_fpc_address style="double"'
+else
+  ATTESTATION_PREVIOUS_FPC='| del(.previous_fpc_address) | del(.previous_fpc_retires_at)'
+  TOPUP_PREVIOUS_FPC='| del(.previous_fpc_address)'
+fi
+
 # ── Generate attestation config ───────────────────────────────────────────────
 
 mkdir -p "$(dirname "$FPC_ATTESTATION_CONFIG")"
 
 yq '.attestation' "$FPC_MASTER_CONFIG" \
-  | yq '
-    .fpc_address = strenv(FPC_ADDRESS) | .fpc_address style="double"
-  ' \
+  | yq "
+    .fpc_address = strenv(FPC_ADDRESS) | .fpc_address style=\"double\"
+    $ATTESTATION_PREVIOUS_FPC
+  " \
   > "$FPC_ATTESTATION_CONFIG"
 
 # ── Generate topup config ─────────────────────────────────────────────────────
@@ -74,9 +94,10 @@ yq '.attestation' "$FPC_MASTER_CONFIG" \
 mkdir -p "$(dirname "$FPC_TOPUP_CONFIG")"
 
 yq '.topup' "$FPC_MASTER_CONFIG" \
-  | yq '
-    .fpc_address = strenv(FPC_ADDRESS) | .fpc_address style="double"
-  ' \
+  | yq "
+    .fpc_address = strenv(FPC_ADDRESS) | .fpc_address style=\"double\"
+    $TOPUP_PREVIOUS_FPC
+  " \
   > "$FPC_TOPUP_CONFIG"
 
 # ── Summary ────────────────────────────────────────────────────────────────────
@@ -86,3 +107,6 @@ echo "  attestation: $FPC_ATTESTATION_CONFIG"
 echo "  topup:       $FPC_TOPUP_CONFIG"
 echo ""
 echo "  fpc_address:     $FPC_ADDRESS"
+if [ -n "$PREVIOUS_FPC_ADDRESS" ]; then
+  echo "  previous_fpc:    $PREVIOUS_FPC_ADDRESS (retires at $PREVIOUS_FPC_RETIRES_AT)"
+fi
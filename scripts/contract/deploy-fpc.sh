@@ -19,6 +19,19 @@ case "${1:-}" in
     shift
     exec "$ENTRYPOINT" contract-deployment/dist/configure-token.js "$@"
     ;;
+  rotate-operator)
+    shift
+    "$ENTRYPOINT" contract-deployment/dist/rotate-operator.js "$@"
+    # Regenerate service configs so both services pick up the successor FPC
+    # and the previous_fpc overlap window.
+    if [[ "${FPC_SKIP_CONFIG_GEN:-0}" != "1" ]]; then
+      _DATA_DIR="${FPC_DATA_DIR:-./deployments}"
+      FPC_DATA_DIR="$_DATA_DIR" \
+        FPC_DEPLOY_MANIFEST="${FPC_OUT:-${FPC_DEPLOY_MANIFEST:-$_DATA_DIR/manifest.json}}" \
+        bash scripts/config/generate-service-configs.sh
+    fi
+    exit 0
+    ;;
 esac
 
 if [[ ! -f target/token_contract-Token.json || ! -f target/fpc-FPCMultiAsset.json ]]; then
@@ -1,10 +1,18 @@
 export { FpcClient } from "./payment-method";
 export type {
+  BatchQuoteEntry,
   ColdStartQuoteResponse,
   ColdStartResult,
   CreatePaymentMethodInput,
+  EstimateCostInput,
   ExecuteColdStartInput,
+  FetchQuotesInput,
   FpcClientConfig,
   FpcPaymentMethodResult,
+  PricePreviewResponse,
+  QuoteAuth,
+  QuoteErrorResponse,
   QuoteResponse,
+  SelectCheapestAssetInput,
+  SelectCheapestAssetResult,
 } from "./types";
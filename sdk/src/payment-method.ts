@@ -16,14 +16,22 @@ import {
 import { FPCMultiAssetContract } from "../../codegen/FPCMultiAsset.js";
 import { TokenContract } from "../../codegen/Token.js";
 import { TokenBridgeContract } from "../../codegen/TokenBridge.js";
+import { signQuoteServiceRequest } from "./request-signing";
 import type {
+  BatchQuoteEntry,
   ColdStartQuoteResponse,
   ColdStartResult,
   CreatePaymentMethodInput,
+  EstimateCostInput,
   ExecuteColdStartInput,
+  FetchQuotesInput,
   FpcClientConfig,
   FpcPaymentMethodResult,
+  PricePreviewResponse,
+  QuoteErrorResponse,
   QuoteResponse,
+  SelectCheapestAssetInput,
+  SelectCheapestAssetResult,
 } from "./types";
 
 const COLD_START_MAX_ATTEMPTS = 3;
@@ -55,7 +63,7 @@ export class FpcClient {
   }
 
   async createPaymentMethod(input: CreatePaymentMethodInput): Promise<FpcPaymentMethodResult> {
-    const { fpcAddress, operator, node, attestationBaseUrl } = this.config;
+    const { fpcAddress, operator, node } = this.config;
     const { wallet, user, tokenAddress, estimatedGas } = input;
 
     if (!estimatedGas) {
@@ -72,7 +80,7 @@ export class FpcClient {
     const gasFees = await node.getCurrentMinFees();
     const fjAmount = computeFjAmount(gasLimits, gasFees);
 
-    const quote = await fetchQuote(attestationBaseUrl, user, tokenAddress, fjAmount);
+    const quote = await fetchQuote(this.config, user, tokenAddress, fjAmount);
 
     const { aaPaymentAmount, validUntil, sigBytes } = parseQuoteFields(quote);
     const { nonce, transferAuthwit } = await createTransferAuthwit(
@@ -105,8 +113,75 @@ export class FpcClient {
     };
   }
 
+  /**
+   * Previews what `createPaymentMethod` would charge, via the unsigned
+   * `GET /price` endpoint. With `estimatedGas`, `fj_amount` is computed
+   * exactly as `createPaymentMethod` does, so the preview matches the quote.
+   */
+  async estimateCost(input: EstimateCostInput): Promise<PricePreviewResponse> {
+    const fjAmount = input.estimatedGas
+      ? computeFjAmount(
+          input.estimatedGas.gasLimits.add(GAS_BUFFER),
+          await this.config.node.getCurrentMinFees(),
+        )
+      : input.fjAmount;
+    return fetchPricePreview(this.config, input.tokenAddress, fjAmount, input.user);
+  }
+
+  /**
+   * Requests signed quotes for several `(tokenAddress, fjAmount)` pairs in one
+   * `POST /quotes` call. Entries the service could not quote come back as
+   * {@link QuoteErrorResponse} in their request position.
+   */
+  fetchQuotes(input: FetchQuotesInput): Promise<BatchQuoteEntry[]> {
+    return fetchBatchQuotes(this.config, input);
+  }
+
+  /**
+   * Quotes the same fee in every candidate token and returns the cheapest one.
+   * The wallet then passes the chosen `tokenAddress` to `createPaymentMethod`.
+   */
+  async selectCheapestAsset(input: SelectCheapestAssetInput): Promise<SelectCheapestAssetResult> {
+    const { user, tokenAddresses, estimatedGas } = input;
+    if (tokenAddresses.length === 0) {
+      throw new Error("tokenAddresses must not be empty");
+    }
+    const quoteCost = input.quoteCost ?? ((quote) => BigInt(quote.aa_payment_amount));
+
+    const gasFees = await this.config.node.getCurrentMinFees();
+    const fjAmount = computeFjAmount(estimatedGas.gasLimits.add(GAS_BUFFER), gasFees);
+    const quotes = await this.fetchQuotes({
+      user,
+      quotes: tokenAddresses.map((tokenAddress) => ({ tokenAddress, fjAmount })),
+    });
+
+    let cheapest: { index: number; quote: QuoteResponse; cost: bigint } | undefined;
+    for (const [index, entry] of quotes.entries()) {
+      if (isQuoteError(entry)) {
+        continue;
+      }
+      const cost = quoteCost(entry);
+      if (!cheapest || cost < cheapest.cost) {
+        cheapest = { index, quote: entry, cost };
+      }
+    }
+    if (!cheapest) {
+      const reasons = quotes
+        .filter(isQuoteError)
+        .map((entry) => `${entry.accepted_asset ?? "?"}: ${entry.error.message}`);
+      throw new Error(`No candidate asset could be quoted (${reasons.join("; ")})`);
+    }
+
+    return {
+      tokenAddress: tokenAddresses[cheapest.index],
+      quote: cheapest.quote,
+      fjAmount,
+      quotes,
+    };
+  }
+
   async executeColdStart(input: ExecuteColdStartInput): Promise<ColdStartResult> {
-    const { fpcAddress, operator, node, attestationBaseUrl } = this.config;
+    const { fpcAddress, operator, node } = this.config;
     const { wallet, userAddress, tokenAddress, bridgeAddress, bridgeClaim } = input;
     const timeoutMs = input.txWaitTimeoutMs ?? DEFAULT_TX_WAIT_TIMEOUT_MS;
 
@@ -120,7 +195,7 @@ export class FpcClient {
     const fjAmount = computeFjAmount(COLD_START_GAS_LIMITS, gasFees);
 
     const quote = await fetchColdStartQuote(
-      attestationBaseUrl,
+      this.config,
       userAddress,
       tokenAddress,
       fjAmount,
@@ -189,22 +264,44 @@ export class FpcClient {
   }
 }
 
+type QuoteService = Pick<FpcClientConfig, "attestationBaseUrl" | "quoteAuth">;
+
+function quoteServiceUrl(service: QuoteService, endpoint: string): URL {
+  const url = new URL(service.attestationBaseUrl);
+  const normalizedPath = url.pathname.replace(/\/+$/u, "");
+  url.pathname = normalizedPath.endsWith(endpoint)
+    ? normalizedPath
+    : `${normalizedPath}${endpoint}`;
+  return url;
+}
+
+async function fetchFromQuoteService(
+  service: QuoteService,
+  method: "GET" | "POST",
+  url: URL,
+  init: { body?: string } = {},
+): Promise<Response> {
+  const headers: Record<string, string> = service.quoteAuth
+    ? await signQuoteServiceRequest(service.quoteAuth, method, url)
+    : {};
+  if (init.body !== undefined) {
+    headers["content-type"] = "application/json";
+  }
+  return fetch(url.toString(), { method, headers, body: init.body });
+}
+
 async function fetchQuote(
-  attestationBaseUrl: string,
+  service: QuoteService,
   user: AztecAddress,
   acceptedAsset: AztecAddress,
   fjAmount: bigint,
 ): Promise<QuoteResponse> {
-  const quoteUrl = new URL(attestationBaseUrl);
-  const normalizedPath = quoteUrl.pathname.replace(/\/+$/u, "");
-  quoteUrl.pathname = normalizedPath.endsWith("/quote")
-    ? normalizedPath
-    : `${normalizedPath}/quote`;
+  const quoteUrl = quoteServiceUrl(service, "/quote");
   quoteUrl.searchParams.set("user", user.toString());
   quoteUrl.searchParams.set("accepted_asset", acceptedAsset.toString());
   quoteUrl.searchParams.set("fj_amount", fjAmount.toString());
 
-  const response = await fetch(quoteUrl.toString());
+  const response = await fetchFromQuoteService(service, "GET", quoteUrl);
   if (!response.ok) {
     const body = await response.text();
     throw new Error(`Quote request failed (${response.status}): ${body}`);
@@ -212,26 +309,70 @@ async function fetchQuote(
   return (await response.json()) as QuoteResponse;
 }
 
+async function fetchPricePreview(
+  service: QuoteService,
+  acceptedAsset: AztecAddress,
+  fjAmount: bigint,
+  user: AztecAddress | undefined,
+): Promise<PricePreviewResponse> {
+  const priceUrl = quoteServiceUrl(service, "/price");
+  priceUrl.searchParams.set("accepted_asset", acceptedAsset.toString());
+  priceUrl.searchParams.set("fj_amount", fjAmount.toString());
+  if (user) {
+    priceUrl.searchParams.set("user", user.toString());
+  }
+
+  const response = await fetchFromQuoteService(service, "GET", priceUrl);
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Price preview request failed (${response.status}): ${body}`);
+  }
+  return (await response.json()) as PricePreviewResponse;
+}
+
+async function fetchBatchQuotes(
+  service: QuoteService,
+  input: FetchQuotesInput,
+): Promise<BatchQuoteEntry[]> {
+  const quotesUrl = quoteServiceUrl(service, "/quotes");
+
+  const response = await fetchFromQuoteService(service, "POST", quotesUrl, {
+    body: JSON.stringify({
+      user: input.user.toString(),
+      quotes: input.quotes.map(({ tokenAddress, fjAmount }) => ({
+        accepted_asset: tokenAddress.toString(),
+        fj_amount: fjAmount.toString(),
+      })),
+    }),
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Batch quote request failed (${response.status}): ${body}`);
+  }
+  const body = (await response.json()) as { quotes: BatchQuoteEntry[] };
+  return body.quotes;
+}
+
+function isQuoteError(entry: BatchQuoteEntry): entry is QuoteErrorResponse {
+  return "error" in entry;
+}
+
 async function fetchColdStartQuote(
-  attestationBaseUrl: string,
+  service: QuoteService,
   user: AztecAddress,
   acceptedAsset: AztecAddress,
   fjAmount: bigint,
   claimAmount: bigint,
   claimSecretHash: Fr,
 ): Promise<ColdStartQuoteResponse> {
-  const quoteUrl = new URL(attestationBaseUrl);
-  const normalizedPath = quoteUrl.pathname.replace(/\/+$/u, "");
-  quoteUrl.pathname = normalizedPath.endsWith("/cold-start-quote")
-    ? normalizedPath
-    : `${normalizedPath}/cold-start-quote`;
+  const quoteUrl = quoteServiceUrl(service, "/cold-start-quote");
   quoteUrl.searchParams.set("user", user.toString());
   quoteUrl.searchParams.set("accepted_asset", acceptedAsset.toString());
   quoteUrl.searchParams.set("fj_amount", fjAmount.toString());
   quoteUrl.searchParams.set("claim_amount", claimAmount.toString());
   quoteUrl.searchParams.set("claim_secret_hash", claimSecretHash.toString());
 
-  const response = await fetch(quoteUrl.toString());
+  const response = await fetchFromQuoteService(service, "GET", quoteUrl);
   if (!response.ok) {
     const body = await response.text();
     throw new Error(`Cold-start quote request failed (${response.status}): ${body}`);
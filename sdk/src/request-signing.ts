@@ -0,0 +1,48 @@
+import type { QuoteAuth } from "./types";
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Must match the attestation service's canonical form: method, path, query
+ * parameters sorted by name, timestamp and nonce, newline-separated.
+ */
+function canonicalRequest(method: string, url: URL, timestamp: string, nonce: string): string {
+  const query = new URLSearchParams(url.search);
+  query.sort();
+  return [method.toUpperCase(), url.pathname, query.toString(), timestamp, nonce].join("\n");
+}
+
+/**
+ * Headers authenticating a request to the attestation service as a
+ * registered client (`quote_auth_mode: hmac`). Each call uses a fresh nonce,
+ * so a set of headers is good for exactly one request.
+ */
+export async function signQuoteServiceRequest(
+  auth: QuoteAuth,
+  method: string,
+  url: URL,
+): Promise<Record<string, string>> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(auth.secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(canonicalRequest(method, url, timestamp, nonce)),
+  );
+  return {
+    "x-fpc-client-id": auth.clientId,
+    "x-fpc-timestamp": timestamp,
+    "x-fpc-nonce": nonce,
+    "x-fpc-signature": toHex(new Uint8Array(signature)),
+  };
+}
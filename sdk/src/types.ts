@@ -6,11 +6,24 @@ import type { AztecNode } from "@aztec/aztec.js/node";
 import type { Wallet as AccountWallet } from "@aztec/aztec.js/wallet";
 import type { GasSettings } from "@aztec/stdlib/gas";
 
+/**
+ * Credentials for an attestation service running `quote_auth_mode: hmac`.
+ * `mtls` needs no SDK support: the client certificate is presented by the
+ * HTTP stack that `fetch` runs on.
+ */
+export type QuoteAuth = {
+  type: "hmac";
+  clientId: string;
+  secret: string;
+};
+
 export type FpcClientConfig = {
   fpcAddress: AztecAddress;
   operator: AztecAddress;
   node: AztecNode;
   attestationBaseUrl: string;
+  /** Signs quote, price and cold-start requests when set. */
+  quoteAuth?: QuoteAuth;
 };
 
 export type CreatePaymentMethodInput = {
@@ -28,6 +41,61 @@ export type QuoteResponse = {
   signature: string;
 };
 
+export type QuoteErrorResponse = {
+  accepted_asset?: string;
+  fj_amount?: string;
+  error: { code: string; message: string; details?: Record<string, unknown> };
+};
+
+export type BatchQuoteEntry = QuoteResponse | QuoteErrorResponse;
+
+export type FetchQuotesInput = {
+  user: AztecAddress;
+  quotes: Array<{ tokenAddress: AztecAddress; fjAmount: bigint }>;
+};
+
+export type SelectCheapestAssetInput = {
+  user: AztecAddress;
+  tokenAddresses: AztecAddress[];
+  estimatedGas: Pick<GasSettings, "gasLimits" | "teardownGasLimits">;
+  /**
+   * Cost of a quote in a unit comparable across assets (for example its
+   * value in USD cents). Defaults to the raw `aa_payment_amount`, which is
+   * only meaningful when every candidate token has the same value per unit.
+   */
+  quoteCost?: (quote: QuoteResponse) => bigint;
+};
+
+export type SelectCheapestAssetResult = {
+  tokenAddress: AztecAddress;
+  quote: QuoteResponse;
+  fjAmount: bigint;
+  /** Every batch entry in request order, including rejected assets. */
+  quotes: BatchQuoteEntry[];
+};
+
+export type EstimateCostInput = {
+  tokenAddress: AztecAddress;
+  /** When set, the preview applies this user's pricing tier. */
+  user?: AztecAddress;
+} & (
+  | { estimatedGas: Pick<GasSettings, "gasLimits" | "teardownGasLimits">; fjAmount?: never }
+  | { fjAmount: bigint; estimatedGas?: never }
+);
+
+/** Unsigned `GET /price` breakdown; it cannot be submitted on-chain. */
+export type PricePreviewResponse = {
+  accepted_asset: string;
+  fj_amount: string;
+  market_rate_num: number;
+  market_rate_den: number;
+  fee_bips: number;
+  rate_num: string;
+  rate_den: string;
+  aa_payment_amount: string;
+  user_tier?: string;
+};
+
 export type FpcPaymentMethodResult = {
   fee: InteractionFeeOptions;
   nonce: Fr;
@@ -1,3 +1,4 @@
+import { createHmac } from "node:crypto";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import type { AztecNode } from "@aztec/aztec.js/node";
 import { ProtocolContractAddress } from "@aztec/aztec.js/protocol";
@@ -201,6 +202,44 @@ describe("FpcClient", () => {
     expect(calledUrl.searchParams.get("fj_amount")).toBe(EXPECTED_FJ_AMOUNT.toString());
   });
 
+  it("signs quote requests when quoteAuth is configured", async () => {
+    const wallet = createMockWallet();
+    const mockFetch = mockFetchOk(QUOTE_RESPONSE);
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+    const secret = "wallet-client-secret-0123456789abcdef";
+    const client = new FpcClient({
+      fpcAddress: FPC_ADDRESS,
+      operator: OPERATOR,
+      node: createMockNode() as unknown as AztecNode,
+      attestationBaseUrl: "https://example.com/v2",
+      quoteAuth: { type: "hmac", clientId: "wallet", secret },
+    });
+    await client.createPaymentMethod({
+      wallet: wallet as unknown as AccountWallet,
+      user: USER,
+      tokenAddress: TOKEN_ADDRESS,
+      ...DEFAULT_GAS_INPUT,
+    });
+
+    const [calledUrl, init] = mockFetch.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const url = new URL(calledUrl);
+    url.searchParams.sort();
+    const canonical = [
+      "GET",
+      "/v2/quote",
+      url.searchParams.toString(),
+      headers["x-fpc-timestamp"],
+      headers["x-fpc-nonce"],
+    ].join("\n");
+    expect(headers["x-fpc-client-id"]).toBe("wallet");
+    expect(headers["x-fpc-nonce"]).toMatch(/^[0-9a-f]{32}$/);
+    expect(headers["x-fpc-signature"]).toBe(
+      createHmac("sha256", secret).update(canonical).digest("hex"),
+    );
+  });
+
   it("returns full quote response", async () => {
     const wallet = createMockWallet();
     globalThis.fetch = mockFetchOk(QUOTE_RESPONSE) as unknown as typeof fetch;
@@ -269,6 +308,132 @@ describe("FpcClient", () => {
     ).rejects.toThrow("Quote request failed (500)");
   });
 
+  it("previews cost from estimated gas without requesting a quote", async () => {
+    const preview = {
+      accepted_asset: TOKEN_ADDRESS.toString(),
+      fj_amount: EXPECTED_FJ_AMOUNT.toString(),
+      market_rate_num: 1,
+      market_rate_den: 1000,
+      fee_bips: 200,
+      rate_num: "10200",
+      rate_den: "10000000",
+      aa_payment_amount: "500",
+    };
+    const mockFetch = mockFetchOk(preview);
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+    const client = createClient();
+    const result = await client.estimateCost({
+      tokenAddress: TOKEN_ADDRESS,
+      user: USER,
+      estimatedGas: DEFAULT_GAS_INPUT.estimatedGas,
+    });
+
+    expect(result).toEqual(preview);
+    const calledUrl = new URL(mockFetch.mock.calls[0][0] as string);
+    expect(calledUrl.pathname).toBe("/v2/price");
+    expect(calledUrl.searchParams.get("accepted_asset")).toBe(TOKEN_ADDRESS.toString());
+    expect(calledUrl.searchParams.get("fj_amount")).toBe(EXPECTED_FJ_AMOUNT.toString());
+    expect(calledUrl.searchParams.get("user")).toBe(USER.toString());
+  });
+
+  it("selects the cheapest asset from a batch quote", async () => {
+    const secondToken = AztecAddress.fromString(
+      "0x0000000000000000000000000000000000000000000000000000000000000003",
+    );
+    const unsupportedToken = AztecAddress.fromString(
+      "0x0000000000000000000000000000000000000000000000000000000000000009",
+    );
+    const cheaperQuote = {
+      ...QUOTE_RESPONSE,
+      accepted_asset: secondToken.toString(),
+      aa_payment_amount: "400",
+    };
+    const mockFetch = mockFetchOk({
+      user: USER.toString(),
+      quotes: [
+        QUOTE_RESPONSE,
+        cheaperQuote,
+        {
+          accepted_asset: unsupportedToken.toString(),
+          fj_amount: EXPECTED_FJ_AMOUNT.toString(),
+          error: { code: "BAD_REQUEST", message: "Unsupported accepted_asset" },
+        },
+      ],
+    });
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+    const client = createClient();
+    const result = await client.selectCheapestAsset({
+      user: USER,
+      tokenAddresses: [TOKEN_ADDRESS, secondToken, unsupportedToken],
+      estimatedGas: DEFAULT_GAS_INPUT.estimatedGas,
+    });
+
+    expect(result.tokenAddress).toBe(secondToken);
+    expect(result.quote).toEqual(cheaperQuote);
+    expect(result.fjAmount).toBe(EXPECTED_FJ_AMOUNT);
+    expect(result.quotes).toHaveLength(3);
+
+    const [calledUrl, init] = mockFetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(new URL(calledUrl).pathname).toBe("/v2/quotes");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string)).toEqual({
+      user: USER.toString(),
+      quotes: [TOKEN_ADDRESS, secondToken, unsupportedToken].map((token) => ({
+        accepted_asset: token.toString(),
+        fj_amount: EXPECTED_FJ_AMOUNT.toString(),
+      })),
+    });
+  });
+
+  it("ranks batch quotes with a caller-supplied cost", async () => {
+    const secondToken = AztecAddress.fromString(
+      "0x0000000000000000000000000000000000000000000000000000000000000003",
+    );
+    globalThis.fetch = mockFetchOk({
+      user: USER.toString(),
+      quotes: [
+        QUOTE_RESPONSE,
+        { ...QUOTE_RESPONSE, accepted_asset: secondToken.toString(), aa_payment_amount: "400" },
+      ],
+    }) as unknown as typeof fetch;
+
+    const client = createClient();
+    const result = await client.selectCheapestAsset({
+      user: USER,
+      tokenAddresses: [TOKEN_ADDRESS, secondToken],
+      estimatedGas: DEFAULT_GAS_INPUT.estimatedGas,
+      // The second token is worth 10x the first per base unit.
+      quoteCost: (quote) =>
+        BigInt(quote.aa_payment_amount) *
+        (quote.accepted_asset === secondToken.toString() ? 10n : 1n),
+    });
+
+    expect(result.tokenAddress).toBe(TOKEN_ADDRESS);
+  });
+
+  it("throws when no candidate asset can be quoted", async () => {
+    globalThis.fetch = mockFetchOk({
+      user: USER.toString(),
+      quotes: [
+        {
+          accepted_asset: TOKEN_ADDRESS.toString(),
+          error: { code: "SERVICE_UNAVAILABLE", message: "Price feed is stale" },
+        },
+      ],
+    }) as unknown as typeof fetch;
+
+    const client = createClient();
+    await expect(
+      client.selectCheapestAsset({
+        user: USER,
+        tokenAddresses: [TOKEN_ADDRESS],
+        estimatedGas: DEFAULT_GAS_INPUT.estimatedGas,
+      }),
+    ).rejects.toThrow("No candidate asset could be quoted");
+  });
+
   it("throws when contract not found on node", async () => {
     const wallet = createMockWallet();
     globalThis.fetch = mockFetchOk(QUOTE_RESPONSE) as unknown as typeof fetch;
@@ -0,0 +1,381 @@
+import type { QuoteLedgerEntry } from "./quote-ledger.js";
+import type { TopupBridge } from "./topup-history.js";
+
+export const REVENUE_REPORT_PERIODS = ["day", "week", "month"] as const;
+export type RevenueReportPeriod = (typeof REVENUE_REPORT_PERIODS)[number];
+
+/** Default report range when `from` is omitted. */
+export const REVENUE_REPORT_DEFAULT_RANGE_SECONDS = 30 * 24 * 60 * 60;
+/** Caps the number of period buckets, e.g. a little over a year of days. */
+export const REVENUE_REPORT_MAX_PERIODS = 400;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * One accepted asset's P&L over a period. Fee Juice amounts are wei and token
+ * amounts base units, all as decimal strings.
+ */
+export interface RevenueReportAssetLine {
+  accepted_asset: string;
+  name: string;
+  quotes_issued: number;
+  quotes_settled: number;
+  quotes_expired: number;
+  /** Fee Juice charged to users by settled quotes (the max gas cost each quote covered). */
+  fj_quoted: string;
+  /** Fee Juice the FPC actually paid for the settled transactions. */
+  fj_spent: string;
+  /** Settled quotes with no recorded fee; `fj_spent` counts their `fj_quoted` instead. */
+  fee_unknown_quotes: number;
+  /** Accepted-asset tokens collected through `aa_payment_amount` of settled quotes. */
+  tokens_earned: string;
+  /** `tokens_earned` valued in Fee Juice at each quote's market rate. */
+  tokens_earned_fj_value: string;
+  /** `tokens_earned_fj_value - fj_spent`; negative when the FPC lost Fee Juice. */
+  profit_fj: string;
+  /** Quoted `fee_bips`, averaged over settled quotes weighted by `fj_quoted`. */
+  fee_bips: number | null;
+  /** `profit_fj` relative to `fj_spent`, in bips, to compare against `fee_bips`. */
+  effective_margin_bips: number | null;
+  /** Fee Juice users paid for that their transactions did not burn: `fj_quoted - fj_spent`. */
+  gas_overestimate_fj: string;
+}
+
+/** Fee Juice bridged to the FPC by the top-up service over a period. */
+export interface RevenueReportTopups {
+  bridges: number;
+  fj_bridged: string;
+}
+
+export interface RevenueReportBucket {
+  /** Unix seconds, inclusive. */
+  period_start: number;
+  /** Unix seconds, exclusive. */
+  period_end: number;
+  assets: RevenueReportAssetLine[];
+  /** Absent when no top-up state is configured. */
+  topups?: RevenueReportTopups;
+}
+
+export interface RevenueReport {
+  generated_at: number;
+  from: number;
+  to: number;
+  period: RevenueReportPeriod;
+  periods: RevenueReportBucket[];
+  totals: Omit<RevenueReportBucket, "period_start" | "period_end">;
+  /** Current operator private balances; absent without the operator treasury. */
+  operator_balances?: Array<{ accepted_asset: string; name: string; balance: string }>;
+}
+
+export interface RevenueReportInput {
+  from: number;
+  to: number;
+  period: RevenueReportPeriod;
+  /** From `periodStarts(period, from, to)`. */
+  periodStarts: number[];
+  generatedAt: number;
+  /** Ledger entries issued within `[from, to]`; each is attributed to its issue period. */
+  quotes: Iterable<QuoteLedgerEntry>;
+  assetName: (acceptedAsset: string) => string | undefined;
+  /** Bridges submitted within `[from, to]`, or undefined when top-up state is not available. */
+  bridges?: TopupBridge[];
+  balances?: Array<{ address: string; balance: string }>;
+}
+
+interface AssetTotals {
+  issued: number;
+  settled: number;
+  expired: number;
+  fjQuoted: bigint;
+  fjSpent: bigint;
+  feeUnknown: number;
+  tokensEarned: bigint;
+  tokensFjValue: bigint;
+  /** Σ fee_bips × fj_amount, for the weighted average. */
+  feeBipsWeight: bigint;
+}
+
+interface BucketTotals {
+  start: number;
+  end: number;
+  assets: Map<string, AssetTotals>;
+  bridges: number;
+  fjBridged: bigint;
+}
+
+/** Start of the UTC day, ISO week (Monday) or month containing `seconds`. */
+export function periodStart(period: RevenueReportPeriod, seconds: number): number {
+  const date = new Date(seconds * 1000);
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / 1000;
+  if (period === "day") {
+    return midnight;
+  }
+  if (period === "week") {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return midnight - daysSinceMonday * DAY_SECONDS;
+  }
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000;
+}
+
+function nextPeriodStart(period: RevenueReportPeriod, start: number): number {
+  if (period === "day") {
+    return start + DAY_SECONDS;
+  }
+  if (period === "week") {
+    return start + 7 * DAY_SECONDS;
+  }
+  const date = new Date(start * 1000);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / 1000;
+}
+
+/** Period buckets covering `[from, to]`, or undefined when there would be too many. */
+export function periodStarts(
+  period: RevenueReportPeriod,
+  from: number,
+  to: number,
+): number[] | undefined {
+  const starts: number[] = [];
+  for (let start = periodStart(period, from); start <= to; start = nextPeriodStart(period, start)) {
+    if (starts.length >= REVENUE_REPORT_MAX_PERIODS) {
+      return undefined;
+    }
+    starts.push(start);
+  }
+  return starts;
+}
+
+function emptyAssetTotals(): AssetTotals {
+  return {
+    issued: 0,
+    settled: 0,
+    expired: 0,
+    fjQuoted: 0n,
+    fjSpent: 0n,
+    feeUnknown: 0,
+    tokensEarned: 0n,
+    tokensFjValue: 0n,
+    feeBipsWeight: 0n,
+  };
+}
+
+function addQuote(totals: AssetTotals, entry: QuoteLedgerEntry): void {
+  totals.issued += 1;
+  if (entry.settlement_status === "expired") {
+    totals.expired += 1;
+  }
+  if (entry.settlement_status !== "settled") {
+    return;
+  }
+  const fjQuoted = BigInt(entry.fj_amount);
+  const tokens = BigInt(entry.aa_payment_amount);
+  totals.settled += 1;
+  totals.fjQuoted += fjQuoted;
+  if (entry.settled_fee === undefined) {
+    totals.feeUnknown += 1;
+    totals.fjSpent += fjQuoted;
+  } else {
+    totals.fjSpent += BigInt(entry.settled_fee);
+  }
+  totals.tokensEarned += tokens;
+  totals.tokensFjValue += (tokens * BigInt(entry.market_rate_den)) / BigInt(entry.market_rate_num);
+  totals.feeBipsWeight += BigInt(entry.fee_bips) * fjQuoted;
+}
+
+function mergeAssetTotals(into: AssetTotals, from: AssetTotals): void {
+  into.issued += from.issued;
+  into.settled += from.settled;
+  into.expired += from.expired;
+  into.fjQuoted += from.fjQuoted;
+  into.fjSpent += from.fjSpent;
+  into.feeUnknown += from.feeUnknown;
+  into.tokensEarned += from.tokensEarned;
+  into.tokensFjValue += from.tokensFjValue;
+  into.feeBipsWeight += from.feeBipsWeight;
+}
+
+function assetLine(
+  acceptedAsset: string,
+  totals: AssetTotals,
+  assetName: RevenueReportInput["assetName"],
+): RevenueReportAssetLine {
+  const profit = totals.tokensFjValue - totals.fjSpent;
+  return {
+    accepted_asset: acceptedAsset,
+    name: assetName(acceptedAsset) ?? acceptedAsset,
+    quotes_issued: totals.issued,
+    quotes_settled: totals.settled,
+    quotes_expired: totals.expired,
+    fj_quoted: totals.fjQuoted.toString(),
+    fj_spent: totals.fjSpent.toString(),
+    fee_unknown_quotes: totals.feeUnknown,
+    tokens_earned: totals.tokensEarned.toString(),
+    tokens_earned_fj_value: totals.tokensFjValue.toString(),
+    profit_fj: profit.toString(),
+    fee_bips: totals.fjQuoted > 0n ? Number(totals.feeBipsWeight / totals.fjQuoted) : null,
+    effective_margin_bips: totals.fjSpent > 0n ? Number((profit * 10_000n) / totals.fjSpent) : null,
+    gas_overestimate_fj: (totals.fjQuoted - totals.fjSpent).toString(),
+  };
+}
+
+function assetLines(
+  assets: Map<string, AssetTotals>,
+  assetName: RevenueReportInput["assetName"],
+): RevenueReportAssetLine[] {
+  return [...assets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([acceptedAsset, totals]) => assetLine(acceptedAsset, totals, assetName));
+}
+
+/** Index of the bucket containing `seconds`; buckets are sorted and contiguous. */
+function bucketIndex(buckets: BucketTotals[], seconds: number): number {
+  let low = 0;
+  let high = buckets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (buckets[mid].start <= seconds) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Builds per-period, per-asset P&L from quote ledger entries, the top-up
+ * service's bridge history and the current operator balances. Profit is
+ * counted in Fee Juice: tokens earned are valued at the market rate each
+ * quote was signed with, so the effective margin lines up with `fee_bips`
+ * plus whatever gas the quotes over-estimated.
+ */
+export function buildRevenueReport(input: RevenueReportInput): RevenueReport {
+  const buckets: BucketTotals[] = input.periodStarts.map((start) => ({
+    start,
+    end: nextPeriodStart(input.period, start),
+    assets: new Map(),
+    bridges: 0,
+    fjBridged: 0n,
+  }));
+
+  for (const entry of input.quotes) {
+    const bucket = buckets[bucketIndex(buckets, Number(entry.issued_at))];
+    let totals = bucket.assets.get(entry.accepted_asset);
+    if (!totals) {
+      totals = emptyAssetTotals();
+      bucket.assets.set(entry.accepted_asset, totals);
+    }
+    addQuote(totals, entry);
+  }
+  for (const bridge of input.bridges ?? []) {
+    const bucket = buckets[bucketIndex(buckets, Math.floor(bridge.submittedAtMs / 1000))];
+    bucket.bridges += 1;
+    bucket.fjBridged += BigInt(bridge.amount);
+  }
+
+  const overall = new Map<string, AssetTotals>();
+  for (const bucket of buckets) {
+    for (const [acceptedAsset, totals] of bucket.assets) {
+      const merged = overall.get(acceptedAsset) ?? emptyAssetTotals();
+      mergeAssetTotals(merged, totals);
+      overall.set(acceptedAsset, merged);
+    }
+  }
+  const withTopups = input.bridges !== undefined;
+
+  return {
+    generated_at: input.generatedAt,
+    from: input.from,
+    to: input.to,
+    period: input.period,
+    periods: buckets.map((bucket) => ({
+      period_start: bucket.start,
+      period_end: bucket.end,
+      assets: assetLines(bucket.assets, input.assetName),
+      ...(withTopups
+        ? { topups: { bridges: bucket.bridges, fj_bridged: bucket.fjBridged.toString() } }
+        : {}),
+    })),
+    totals: {
+      assets: assetLines(overall, input.assetName),
+      ...(withTopups
+        ? {
+            topups: {
+              bridges: buckets.reduce((sum, bucket) => sum + bucket.bridges, 0),
+              fj_bridged: buckets.reduce((sum, bucket) => sum + bucket.fjBridged, 0n).toString(),
+            },
+          }
+        : {}),
+    },
+    ...(input.balances
+      ? {
+          operator_balances: input.balances.map((balance) => ({
+            accepted_asset: balance.address,
+            name: input.assetName(balance.address) ?? balance.address,
+            balance: balance.balance,
+          })),
+        }
+      : {}),
+  };
+}
+
+const CSV_COLUMNS = [
+  "period_start",
+  "period_end",
+  "row_type",
+  "accepted_asset",
+  "name",
+  "quotes_issued",
+  "quotes_settled",
+  "quotes_expired",
+  "fj_quoted",
+  "fj_spent",
+  "fee_unknown_quotes",
+  "tokens_earned",
+  "tokens_earned_fj_value",
+  "profit_fj",
+  "fee_bips",
+  "effective_margin_bips",
+  "gas_overestimate_fj",
+  "bridges",
+  "fj_bridged",
+] as const;
+
+type CsvRow = Partial<Record<(typeof CSV_COLUMNS)[number], string | number | null>>;
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function bucketRows(bucket: Omit<RevenueReportBucket, "period_start" | "period_end">): CsvRow[] {
+  const rows: CsvRow[] = bucket.assets.map((line) => ({ row_type: "asset", ...line }));
+  if (bucket.topups) {
+    rows.push({ row_type: "topups", ...bucket.topups });
+  }
+  return rows;
+}
+
+/**
+ * The report as CSV: one `asset` row per period and asset, one `topups` row
+ * per period when top-up state is available, then the same rows for the
+ * whole range with empty period columns.
+ */
+export function revenueReportCsv(report: RevenueReport): string {
+  const rows: CsvRow[] = [
+    ...report.periods.flatMap((bucket) =>
+      bucketRows(bucket).map((row) => ({
+        period_start: bucket.period_start,
+        period_end: bucket.period_end,
+        ...row,
+      })),
+    ),
+    ...bucketRows(report.totals).map((row) => ({ ...row, row_type: `total_${row.row_type}` })),
+  ];
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => CSV_COLUMNS.map((column) => csvCell(row[column])).join(",")),
+  ]
+    .map((line) => `${line}\n`)
+    .join("");
+}
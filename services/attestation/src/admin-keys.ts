@@ -0,0 +1,210 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { parse } from "yaml";
+import { z } from "zod";
+import type { AdminAuthConfig } from "./config.js";
+
+const KEY_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const SHA256_HEX_PATTERN = /^[0-9a-f]{64}$/;
+
+export const ADMIN_ROLES = [
+  "policy:read",
+  "policy:write",
+  "treasury:read",
+  "treasury:sweep",
+  "quote_keys:read",
+  "quote_keys:write",
+] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+/** Key id under which the ADMIN_API_KEY env var key is logged and audited. */
+export const ENV_ADMIN_KEY_ID = "env";
+
+const KeyHashSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(SHA256_HEX_PATTERN, "must be a hex SHA-256 digest of the key");
+
+const AdminApiKeyEntrySchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .regex(KEY_ID_PATTERN, "key id must be 1-64 lowercase letters, digits, '-' or '_'"),
+  /** `*` grants every role. */
+  roles: z.array(z.enum([...ADMIN_ROLES, "*"])).min(1),
+  key_sha256: KeyHashSchema,
+  /** The key being rotated out, accepted alongside `key_sha256` until it is removed. */
+  previous_key_sha256: KeyHashSchema.optional(),
+});
+
+export const AdminApiKeysFileSchema = z
+  .object({ keys: z.array(AdminApiKeyEntrySchema) })
+  .superRefine(({ keys }, ctx) => {
+    const ids = keys.map((key) => key.id);
+    if (ids.includes(ENV_ADMIN_KEY_ID) || new Set(ids).size !== ids.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `key ids must be unique and must not be "${ENV_ADMIN_KEY_ID}"`,
+      });
+    }
+    const hashes = keys.flatMap((key) =>
+      key.previous_key_sha256 ? [key.key_sha256, key.previous_key_sha256] : [key.key_sha256],
+    );
+    if (new Set(hashes).size !== hashes.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "key hashes must be unique" });
+    }
+  });
+
+export type AdminApiKeyEntry = z.infer<typeof AdminApiKeyEntrySchema>;
+
+/** An authenticated admin credential. */
+export interface AdminKey {
+  id: string;
+  roles: ReadonlySet<AdminRole>;
+}
+
+interface AdminKeyringLogger {
+  info(obj: object, msg: string): void;
+  warn(obj: object, msg: string): void;
+}
+
+export function hashAdminApiKey(secret: string): string {
+  return createHash("sha256").update(secret, "utf8").digest("hex");
+}
+
+function parseKeysFile(contents: string, path: string): AdminApiKeyEntry[] {
+  const result = AdminApiKeysFileSchema.safeParse(parse(contents));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    throw new Error(`Invalid admin API keys file ${path}: ${where}${issue.message}`);
+  }
+  return result.data.keys;
+}
+
+function toAdminKey(entry: Pick<AdminApiKeyEntry, "id" | "roles">): AdminKey {
+  return {
+    id: entry.id,
+    roles: new Set(entry.roles.includes("*") ? ADMIN_ROLES : (entry.roles as AdminRole[])),
+  };
+}
+
+/**
+ * Admin credentials, held only as SHA-256 digests: the ADMIN_API_KEY env key
+ * (every role, id `env`) plus the named, role-scoped keys in
+ * `admin_api_keys_file`. The file is re-read on an interval so keys can be
+ * added, rotated or revoked without a restart; a file that fails to parse
+ * leaves the last good set in place.
+ */
+export class AdminKeyring {
+  private keys = new Map<string, AdminKey>();
+  private fileContents?: string;
+  private reloadHandle?: NodeJS.Timeout;
+
+  constructor(
+    private readonly config: AdminAuthConfig,
+    private readonly deps: { logger?: AdminKeyringLogger } = {},
+  ) {
+    if (config.keysFile) {
+      const contents = readFileSync(config.keysFile, "utf8");
+      this.apply(contents, parseKeysFile(contents, config.keysFile));
+    } else {
+      this.apply(undefined, []);
+    }
+  }
+
+  get enabled(): boolean {
+    return this.keys.size > 0;
+  }
+
+  get header(): string {
+    return this.config.apiKeyHeader;
+  }
+
+  /** Resolves the key presented in the admin header, if it is a known one. */
+  authenticate(presented: string | string[] | undefined): AdminKey | undefined {
+    if (typeof presented !== "string" || presented.length === 0) {
+      return undefined;
+    }
+    const digest = hashAdminApiKey(presented);
+    for (const [hash, key] of this.keys) {
+      if (timingSafeEqual(Buffer.from(hash, "hex"), Buffer.from(digest, "hex"))) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  /** Ids and roles of the loaded keys, for logs. */
+  describe(): { id: string; roles: AdminRole[] }[] {
+    const byId = new Map<string, AdminKey>();
+    for (const key of this.keys.values()) {
+      byId.set(key.id, key);
+    }
+    return Array.from(byId.values(), (key) => ({ id: key.id, roles: Array.from(key.roles) }));
+  }
+
+  start(): void {
+    if (!this.config.keysFile || this.reloadHandle) {
+      return;
+    }
+    this.reloadHandle = setInterval(() => {
+      void this.reload();
+    }, this.config.keysReloadSeconds * 1000);
+    this.reloadHandle.unref();
+  }
+
+  stop(): void {
+    if (this.reloadHandle) {
+      clearInterval(this.reloadHandle);
+      this.reloadHandle = undefined;
+    }
+  }
+
+  /** Re-reads the keys file; returns whether the key set changed. */
+  async reload(): Promise<boolean> {
+    const path = this.config.keysFile;
+    if (!path) {
+      return false;
+    }
+    try {
+      const contents = await readFile(path, "utf8");
+      if (contents === this.fileContents) {
+        return false;
+      }
+      this.apply(contents, parseKeysFile(contents, path));
+      this.deps.logger?.info(
+        { event: "admin_keys_reloaded", key_ids: this.describe().map((key) => key.id) },
+        "Reloaded admin API keys",
+      );
+      return true;
+    } catch (error) {
+      this.deps.logger?.warn(
+        {
+          event: "admin_keys_reload_failed",
+          err: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to reload admin API keys; keeping the previous set",
+      );
+      return false;
+    }
+  }
+
+  private apply(contents: string | undefined, entries: AdminApiKeyEntry[]): void {
+    const keys = new Map<string, AdminKey>();
+    if (this.config.apiKeySha256) {
+      keys.set(this.config.apiKeySha256, toAdminKey({ id: ENV_ADMIN_KEY_ID, roles: ["*"] }));
+    }
+    for (const entry of entries) {
+      const key = toAdminKey(entry);
+      keys.set(entry.key_sha256, key);
+      if (entry.previous_key_sha256) {
+        keys.set(entry.previous_key_sha256, key);
+      }
+    }
+    this.keys = keys;
+    this.fileContents = contents;
+  }
+}
@@ -1,6 +1,8 @@
-import { open, type RootDatabase } from "lmdb";
+import { randomUUID } from "node:crypto";
+import { type Database, open, type RootDatabase } from "lmdb";
 import type { Config, SupportedAssetPolicy } from "./config.js";
 import { normalizeAztecAddress } from "./config.js";
+import type { SharedStateBackend } from "./shared-state.js";
 
 function assertPositiveInteger(value: number, label: string): void {
   if (!Number.isInteger(value) || value <= 0) {
@@ -15,12 +17,13 @@ function assertFeeBips(value: number): void {
 }
 
 function normalizeSupportedAssetPolicy(policy: SupportedAssetPolicy): SupportedAssetPolicy {
-  const normalized = {
+  const normalized: SupportedAssetPolicy = {
     address: normalizeAztecAddress(policy.address),
     name: policy.name.trim(),
     market_rate_num: policy.market_rate_num,
     market_rate_den: policy.market_rate_den,
     fee_bips: policy.fee_bips,
+    ...(policy.price_feed ? { price_feed: policy.price_feed } : {}),
   };
 
   if (normalized.name.length === 0) {
@@ -45,71 +48,774 @@ function normalizeSupportedAssetPolicies(policies: SupportedAssetPolicy[]): Supp
   });
 }
 
+/** What produced a policy version. */
+export type AssetPolicyChangeAction = "seed" | "upsert" | "remove" | "rollback" | "scheduled";
+
+export interface AssetPolicyFieldChange {
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * One recorded change to an asset's policy. `policy` is the policy in effect
+ * after the change (absent when the change removed the asset) and `diff`
+ * lists only the fields that changed.
+ */
+export interface AssetPolicyVersion {
+  address: string;
+  version: number;
+  action: AssetPolicyChangeAction;
+  /** Admin key id, or `config`/`system` for changes the service made itself. */
+  actor: string;
+  /** Unix seconds. */
+  changed_at: number;
+  policy?: SupportedAssetPolicy;
+  diff: Record<string, AssetPolicyFieldChange>;
+  /** Version restored by a rollback. */
+  rollback_to?: number;
+  scheduled_change_id?: string;
+}
+
+/** A policy that replaces the asset's current one once `effective_at` (unix seconds) passes. */
+export interface ScheduledAssetPolicyChange {
+  id: string;
+  address: string;
+  policy: SupportedAssetPolicy;
+  effective_at: number;
+  actor: string;
+  created_at: number;
+}
+
+/** Who made a change, and when in unix seconds (defaults to the wall clock). */
+export interface AssetPolicyChangeContext {
+  actor: string;
+  at?: number;
+}
+
+const SYSTEM_CHANGE: AssetPolicyChangeContext = { actor: "system" };
+const DIFF_FIELDS = [
+  "name",
+  "market_rate_num",
+  "market_rate_den",
+  "fee_bips",
+  "price_feed",
+] as const satisfies ReadonlyArray<keyof SupportedAssetPolicy>;
+
+function unixNow(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export function diffAssetPolicies(
+  before: SupportedAssetPolicy | undefined,
+  after: SupportedAssetPolicy | undefined,
+): Record<string, AssetPolicyFieldChange> {
+  const diff: Record<string, AssetPolicyFieldChange> = {};
+  for (const field of DIFF_FIELDS) {
+    const from = before?.[field];
+    const to = after?.[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[field] = {
+        ...(from === undefined ? {} : { from }),
+        ...(to === undefined ? {} : { to }),
+      };
+    }
+  }
+  return diff;
+}
+
+type AssetPolicyVersionDraft = Omit<AssetPolicyVersion, "version">;
+type AssetPolicyVersionLinks = Pick<AssetPolicyVersion, "rollback_to" | "scheduled_change_id">;
+
+function draftVersion(
+  address: string,
+  previous: SupportedAssetPolicy | undefined,
+  next: SupportedAssetPolicy | undefined,
+  action: AssetPolicyChangeAction,
+  change: AssetPolicyChangeContext,
+  links: AssetPolicyVersionLinks = {},
+): AssetPolicyVersionDraft {
+  return {
+    address,
+    action,
+    actor: change.actor,
+    changed_at: change.at ?? unixNow(),
+    ...(next ? { policy: next } : {}),
+    diff: diffAssetPolicies(previous, next),
+    ...links,
+  };
+}
+
+function sortByName(policies: Iterable<SupportedAssetPolicy>): SupportedAssetPolicy[] {
+  const entries = Array.from(policies, (policy) => ({ ...policy }));
+  entries.sort((left, right) => left.name.localeCompare(right.name));
+  return entries;
+}
+
+function sortBySchedule(
+  changes: Iterable<ScheduledAssetPolicyChange>,
+): ScheduledAssetPolicyChange[] {
+  const entries = Array.from(changes, (change) => ({ ...change }));
+  entries.sort(
+    (left, right) => left.effective_at - right.effective_at || left.created_at - right.created_at,
+  );
+  return entries;
+}
+
+function assertRemovable(
+  policyCount: number,
+  existing: SupportedAssetPolicy | undefined,
+  address: string,
+): asserts existing is SupportedAssetPolicy {
+  if (policyCount <= 1) {
+    throw new Error("Cannot remove the last supported asset");
+  }
+  if (!existing) {
+    throw new Error(`Supported asset not found: ${address}`);
+  }
+}
+
+function versionNotFound(address: string, version: number): Error {
+  return new Error(`Policy version not found: ${address} v${version}`);
+}
+
+function scheduledChangeNotFound(id: string): Error {
+  return new Error(`Scheduled change not found: ${id}`);
+}
+
 export interface AssetPolicyStore {
   get(address: string): SupportedAssetPolicy | undefined;
   getAll(): SupportedAssetPolicy[];
-  upsert(policy: SupportedAssetPolicy): Promise<SupportedAssetPolicy>;
-  remove(address: string): Promise<SupportedAssetPolicy>;
+  upsert(
+    policy: SupportedAssetPolicy,
+    change?: AssetPolicyChangeContext,
+  ): Promise<SupportedAssetPolicy>;
+  remove(address: string, change?: AssetPolicyChangeContext): Promise<SupportedAssetPolicy>;
+  /** Every recorded version of the asset's policy, newest first. */
+  history(address: string): Promise<AssetPolicyVersion[]>;
+  /** Restores the policy recorded at `version`, removing the asset if that version did. */
+  rollback(
+    address: string,
+    version: number,
+    change: AssetPolicyChangeContext,
+  ): Promise<AssetPolicyVersion>;
+  schedule(
+    policy: SupportedAssetPolicy,
+    effectiveAt: number,
+    change: AssetPolicyChangeContext,
+  ): Promise<ScheduledAssetPolicyChange>;
+  /** Pending scheduled changes, soonest first. */
+  getScheduled(): ScheduledAssetPolicyChange[];
+  cancelScheduled(id: string): Promise<ScheduledAssetPolicyChange>;
+  /** Applies, in order, every scheduled change due at `nowSeconds`. */
+  applyDueChanges(nowSeconds: number): Promise<AssetPolicyVersion[]>;
   close(): Promise<void>;
 }
 
+type VersionKey = [string, number];
+
+/**
+ * Policies, their versions (keyed by `[address, version]`) and pending
+ * scheduled changes, each in a named LMDB database. Stores written before
+ * versioning kept policies directly in the root database; those are moved
+ * over on open and get a baseline `seed` version.
+ */
 export class LmdbAssetPolicyStore implements AssetPolicyStore {
-  private readonly db: RootDatabase<SupportedAssetPolicy, string>;
+  private readonly root: RootDatabase;
+  private readonly policies: Database<SupportedAssetPolicy, string>;
+  private readonly versions: Database<AssetPolicyVersion, VersionKey>;
+  private readonly scheduled: Database<ScheduledAssetPolicyChange, string>;
 
-  constructor(config: Config) {
-    this.db = open<SupportedAssetPolicy, string>({
-      path: config.asset_policy_state_path,
-    });
+  constructor(config: Pick<Config, "asset_policy_state_path" | "supported_assets">) {
+    this.root = open({ path: config.asset_policy_state_path });
+    this.policies = this.root.openDB<SupportedAssetPolicy, string>({ name: "policies" });
+    this.versions = this.root.openDB<AssetPolicyVersion, VersionKey>({ name: "versions" });
+    this.scheduled = this.root.openDB<ScheduledAssetPolicyChange, string>({ name: "scheduled" });
 
-    if (this.db.getKeysCount() === 0) {
-      const normalized = normalizeSupportedAssetPolicies(config.supported_assets);
-      for (const policy of normalized) {
-        this.db.putSync(policy.address, policy);
+    this.root.transactionSync(() => {
+      this.migrateRootPolicies();
+      if (this.policies.getKeysCount() === 0) {
+        for (const policy of normalizeSupportedAssetPolicies(config.supported_assets)) {
+          this.commit(policy.address, policy, "seed", { actor: "config" });
+        }
       }
-    }
+      for (const { key, value } of this.policies.getRange()) {
+        if (!this.latestVersion(key)) {
+          this.versions.putSync([key, 1], {
+            version: 1,
+            ...draftVersion(key, undefined, value, "seed", SYSTEM_CHANGE),
+          });
+        }
+      }
+    });
   }
 
   get(address: string): SupportedAssetPolicy | undefined {
     const normalizedAddress = normalizeAztecAddress(address);
-    const policy = this.db.get(normalizedAddress);
+    const policy = this.policies.get(normalizedAddress);
     return policy ? { ...policy } : undefined;
   }
 
   getAll(): SupportedAssetPolicy[] {
-    const entries: SupportedAssetPolicy[] = [];
-    for (const { value } of this.db.getRange()) {
-      entries.push({ ...value });
-    }
-    entries.sort((left, right) => left.name.localeCompare(right.name));
-    return entries;
+    return sortByName(Array.from(this.policies.getRange(), ({ value }) => value));
   }
 
-  async upsert(policy: SupportedAssetPolicy): Promise<SupportedAssetPolicy> {
+  async upsert(
+    policy: SupportedAssetPolicy,
+    change: AssetPolicyChangeContext = SYSTEM_CHANGE,
+  ): Promise<SupportedAssetPolicy> {
     const normalized = normalizeSupportedAssetPolicy(policy);
-    await this.db.put(normalized.address, normalized);
+    await this.root.transaction(() =>
+      this.commit(normalized.address, normalized, "upsert", change),
+    );
     return { ...normalized };
   }
 
-  async remove(address: string): Promise<SupportedAssetPolicy> {
-    if (this.db.getKeysCount() <= 1) {
-      throw new Error("Cannot remove the last supported asset");
-    }
+  async remove(
+    address: string,
+    change: AssetPolicyChangeContext = SYSTEM_CHANGE,
+  ): Promise<SupportedAssetPolicy> {
+    const normalizedAddress = normalizeAztecAddress(address);
+    return await this.root.transaction(() => {
+      const existing = this.policies.get(normalizedAddress);
+      assertRemovable(this.policies.getKeysCount(), existing, normalizedAddress);
+      this.commit(normalizedAddress, undefined, "remove", change);
+      return existing;
+    });
+  }
+
+  history(address: string): Promise<AssetPolicyVersion[]> {
+    const normalizedAddress = normalizeAztecAddress(address);
+    const range = this.versions.getRange({
+      start: [normalizedAddress, Number.MAX_SAFE_INTEGER],
+      end: [normalizedAddress],
+      reverse: true,
+    });
+    return Promise.resolve(Array.from(range, ({ value }) => ({ ...value })));
+  }
 
+  async rollback(
+    address: string,
+    version: number,
+    change: AssetPolicyChangeContext,
+  ): Promise<AssetPolicyVersion> {
     const normalizedAddress = normalizeAztecAddress(address);
-    const existing = this.db.get(normalizedAddress);
-    if (!existing) {
-      throw new Error(`Supported asset not found: ${normalizedAddress}`);
+    return await this.root.transaction(() => {
+      const target = this.versions.get([normalizedAddress, version]);
+      if (!target) {
+        throw versionNotFound(normalizedAddress, version);
+      }
+      if (!target.policy) {
+        assertRemovable(
+          this.policies.getKeysCount(),
+          this.policies.get(normalizedAddress),
+          normalizedAddress,
+        );
+      }
+      return this.commit(normalizedAddress, target.policy, "rollback", change, {
+        rollback_to: version,
+      });
+    });
+  }
+
+  async schedule(
+    policy: SupportedAssetPolicy,
+    effectiveAt: number,
+    change: AssetPolicyChangeContext,
+  ): Promise<ScheduledAssetPolicyChange> {
+    const normalized = normalizeSupportedAssetPolicy(policy);
+    const scheduled: ScheduledAssetPolicyChange = {
+      id: randomUUID(),
+      address: normalized.address,
+      policy: normalized,
+      effective_at: effectiveAt,
+      actor: change.actor,
+      created_at: change.at ?? unixNow(),
+    };
+    await this.scheduled.put(scheduled.id, scheduled);
+    return { ...scheduled };
+  }
+
+  getScheduled(): ScheduledAssetPolicyChange[] {
+    return sortBySchedule(Array.from(this.scheduled.getRange(), ({ value }) => value));
+  }
+
+  async cancelScheduled(id: string): Promise<ScheduledAssetPolicyChange> {
+    const existing = this.scheduled.get(id);
+    if (!existing || !(await this.scheduled.remove(id))) {
+      throw scheduledChangeNotFound(id);
+    }
+    return existing;
+  }
+
+  async applyDueChanges(nowSeconds: number): Promise<AssetPolicyVersion[]> {
+    const due = this.getScheduled().filter((change) => change.effective_at <= nowSeconds);
+    if (due.length === 0) {
+      return [];
     }
+    return await this.root.transaction(() =>
+      due.map((scheduled) => {
+        this.scheduled.removeSync(scheduled.id);
+        return this.commit(
+          scheduled.address,
+          scheduled.policy,
+          "scheduled",
+          { actor: scheduled.actor, at: nowSeconds },
+          { scheduled_change_id: scheduled.id },
+        );
+      }),
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.root.close();
+  }
+
+  /** Writes the new policy state and its version record; call inside a transaction. */
+  private commit(
+    address: string,
+    next: SupportedAssetPolicy | undefined,
+    action: AssetPolicyChangeAction,
+    change: AssetPolicyChangeContext,
+    links?: AssetPolicyVersionLinks,
+  ): AssetPolicyVersion {
+    const previous = this.policies.get(address);
+    const record: AssetPolicyVersion = {
+      version: (this.latestVersion(address)?.version ?? 0) + 1,
+      ...draftVersion(address, previous, next, action, change, links),
+    };
+    if (next) {
+      this.policies.putSync(address, next);
+    } else {
+      this.policies.removeSync(address);
+    }
+    this.versions.putSync([address, record.version], record);
+    return record;
+  }
+
+  private latestVersion(address: string): AssetPolicyVersion | undefined {
+    for (const { value } of this.versions.getRange({
+      start: [address, Number.MAX_SAFE_INTEGER],
+      end: [address],
+      reverse: true,
+      limit: 1,
+    })) {
+      return value;
+    }
+    return undefined;
+  }
 
-    const removed = await this.db.remove(normalizedAddress);
-    if (!removed) {
-      throw new Error(`Failed to remove supported asset: ${normalizedAddress}`);
+  private migrateRootPolicies(): void {
+    const legacyKeys = Array.from(this.root.getKeys()).filter(
+      (key): key is string => typeof key === "string" && key.startsWith("0x"),
+    );
+    for (const key of legacyKeys) {
+      this.policies.putSync(key, this.root.get(key) as SupportedAssetPolicy);
+      this.root.removeSync(key);
     }
+  }
+}
+
+interface AssetPolicyStoreLogger {
+  info(obj: object, msg: string): void;
+  warn(obj: object, msg: string): void;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function parseEntries<T>(entries: Record<string, string>): Map<string, T> {
+  return new Map(Object.entries(entries).map(([key, value]) => [key, JSON.parse(value) as T]));
+}
 
+/**
+ * Asset policies kept in a shared backend: one hash field per asset, a list
+ * of versions per asset and a hash of scheduled changes. Reads are served
+ * from a local copy, reloaded whenever any replica publishes a change and on
+ * a fixed interval as a backstop for notifications lost while disconnected.
+ */
+export class SharedAssetPolicyStore implements AssetPolicyStore {
+  private policies = new Map<string, SupportedAssetPolicy>();
+  private scheduled = new Map<string, ScheduledAssetPolicyChange>();
+  private unsubscribe?: () => Promise<void>;
+  private resyncHandle?: NodeJS.Timeout;
+  private inFlightRefresh?: Promise<void>;
+  private refreshQueued = false;
+  private readonly scheduledKey: string;
+  private readonly channel: string;
+
+  private constructor(
+    private readonly backend: SharedStateBackend,
+    private readonly policiesKey: string,
+    private readonly logger?: AssetPolicyStoreLogger,
+  ) {
+    this.scheduledKey = `${policiesKey}:scheduled`;
+    this.channel = `${policiesKey}:changed`;
+  }
+
+  /** Seeds the shared set from config when it is empty, then loads and subscribes. */
+  static async open(
+    config: Pick<
+      Config,
+      | "fpc_id"
+      | "supported_assets"
+      | "shared_state_key_prefix"
+      | "shared_state_resync_interval_seconds"
+    >,
+    backend: SharedStateBackend,
+    deps: { logger?: AssetPolicyStoreLogger } = {},
+  ): Promise<SharedAssetPolicyStore> {
+    const store = new SharedAssetPolicyStore(
+      backend,
+      `${config.shared_state_key_prefix}${config.fpc_id}:asset-policies`,
+      deps.logger,
+    );
+
+    let current = await store.readPolicies();
+    if (current.size === 0) {
+      for (const policy of normalizeSupportedAssetPolicies(config.supported_assets)) {
+        await store.commit(policy.address, undefined, policy, "seed", { actor: "config" });
+      }
+      current = await store.readPolicies();
+    }
+    for (const [address, policy] of current) {
+      if ((await backend.listRange(store.versionsKey(address))).length === 0) {
+        await backend.listPush(
+          store.versionsKey(address),
+          JSON.stringify(draftVersion(address, undefined, policy, "seed", SYSTEM_CHANGE)),
+        );
+      }
+    }
+    // Subscribe before the first load so no change can fall between the two.
+    store.unsubscribe = await backend.subscribe(store.channel, () => {
+      void store.refresh();
+    });
+    await store.load();
+
+    store.resyncHandle = setInterval(() => {
+      void store.refresh();
+    }, config.shared_state_resync_interval_seconds * 1000);
+    store.resyncHandle.unref();
+    return store;
+  }
+
+  get(address: string): SupportedAssetPolicy | undefined {
+    const policy = this.policies.get(normalizeAztecAddress(address));
+    return policy ? { ...policy } : undefined;
+  }
+
+  getAll(): SupportedAssetPolicy[] {
+    return sortByName(this.policies.values());
+  }
+
+  async upsert(
+    policy: SupportedAssetPolicy,
+    change: AssetPolicyChangeContext = SYSTEM_CHANGE,
+  ): Promise<SupportedAssetPolicy> {
+    const normalized = normalizeSupportedAssetPolicy(policy);
+    const current = await this.readPolicies();
+    await this.commit(
+      normalized.address,
+      current.get(normalized.address),
+      normalized,
+      "upsert",
+      change,
+    );
+    await this.notify();
+    return { ...normalized };
+  }
+
+  async remove(
+    address: string,
+    change: AssetPolicyChangeContext = SYSTEM_CHANGE,
+  ): Promise<SupportedAssetPolicy> {
+    const normalizedAddress = normalizeAztecAddress(address);
+    const current = await this.readPolicies();
+    const existing = current.get(normalizedAddress);
+    assertRemovable(current.size, existing, normalizedAddress);
+    await this.commit(normalizedAddress, existing, undefined, "remove", change);
+    await this.notify();
+    return existing;
+  }
+
+  async history(address: string): Promise<AssetPolicyVersion[]> {
+    const entries = await this.backend.listRange(this.versionsKey(normalizeAztecAddress(address)));
+    return entries
+      .map((entry, index) => ({
+        version: index + 1,
+        ...(JSON.parse(entry) as AssetPolicyVersionDraft),
+      }))
+      .reverse();
+  }
+
+  async rollback(
+    address: string,
+    version: number,
+    change: AssetPolicyChangeContext,
+  ): Promise<AssetPolicyVersion> {
+    const normalizedAddress = normalizeAztecAddress(address);
+    const entries = await this.backend.listRange(this.versionsKey(normalizedAddress));
+    const target = Number.isSafeInteger(version) ? entries[version - 1] : undefined;
+    if (target === undefined) {
+      throw versionNotFound(normalizedAddress, version);
+    }
+    const { policy } = JSON.parse(target) as AssetPolicyVersionDraft;
+    const current = await this.readPolicies();
+    if (!policy) {
+      assertRemovable(current.size, current.get(normalizedAddress), normalizedAddress);
+    }
+    const record = await this.commit(
+      normalizedAddress,
+      current.get(normalizedAddress),
+      policy,
+      "rollback",
+      change,
+      { rollback_to: version },
+    );
+    await this.notify();
+    return record;
+  }
+
+  async schedule(
+    policy: SupportedAssetPolicy,
+    effectiveAt: number,
+    change: AssetPolicyChangeContext,
+  ): Promise<ScheduledAssetPolicyChange> {
+    const normalized = normalizeSupportedAssetPolicy(policy);
+    const scheduled: ScheduledAssetPolicyChange = {
+      id: randomUUID(),
+      address: normalized.address,
+      policy: normalized,
+      effective_at: effectiveAt,
+      actor: change.actor,
+      created_at: change.at ?? unixNow(),
+    };
+    await this.backend.hashSet(this.scheduledKey, scheduled.id, JSON.stringify(scheduled));
+    this.scheduled.set(scheduled.id, scheduled);
+    await this.notify();
+    return { ...scheduled };
+  }
+
+  getScheduled(): ScheduledAssetPolicyChange[] {
+    return sortBySchedule(this.scheduled.values());
+  }
+
+  async cancelScheduled(id: string): Promise<ScheduledAssetPolicyChange> {
+    const existing = parseEntries<ScheduledAssetPolicyChange>(
+      await this.backend.hashGetAll(this.scheduledKey),
+    ).get(id);
+    if (!existing || !(await this.backend.hashDelete(this.scheduledKey, id))) {
+      throw scheduledChangeNotFound(id);
+    }
+    this.scheduled.delete(id);
+    await this.notify();
     return existing;
   }
 
+  /** Each due change is claimed by deleting it first, so only one replica applies it. */
+  async applyDueChanges(nowSeconds: number): Promise<AssetPolicyVersion[]> {
+    const pending = parseEntries<ScheduledAssetPolicyChange>(
+      await this.backend.hashGetAll(this.scheduledKey),
+    );
+    const applied: AssetPolicyVersion[] = [];
+    for (const scheduled of sortBySchedule(pending.values())) {
+      if (scheduled.effective_at > nowSeconds) {
+        break;
+      }
+      this.scheduled.delete(scheduled.id);
+      if (!(await this.backend.hashDelete(this.scheduledKey, scheduled.id))) {
+        continue;
+      }
+      const current = await this.readPolicies();
+      applied.push(
+        await this.commit(
+          scheduled.address,
+          current.get(scheduled.address),
+          scheduled.policy,
+          "scheduled",
+          { actor: scheduled.actor, at: nowSeconds },
+          { scheduled_change_id: scheduled.id },
+        ),
+      );
+    }
+    if (applied.length > 0) {
+      await this.notify();
+    }
+    return applied;
+  }
+
+  /**
+   * Reloads the local copy, logging instead of throwing so a backend outage
+   * keeps serving the last known policies. A change that arrives during a
+   * reload triggers one more.
+   */
+  refresh(): Promise<void> {
+    if (this.inFlightRefresh) {
+      this.refreshQueued = true;
+      return this.inFlightRefresh;
+    }
+    this.inFlightRefresh = this.load()
+      .catch((error: unknown) => {
+        this.logger?.warn(
+          { event: "asset_policy_refresh_failed", err: errorMessage(error) },
+          "Failed to reload shared asset policies",
+        );
+      })
+      .finally(() => {
+        this.inFlightRefresh = undefined;
+        if (this.refreshQueued) {
+          this.refreshQueued = false;
+          void this.refresh();
+        }
+      });
+    return this.inFlightRefresh;
+  }
+
   async close(): Promise<void> {
-    await this.db.close();
+    if (this.resyncHandle) {
+      clearInterval(this.resyncHandle);
+      this.resyncHandle = undefined;
+    }
+    await this.inFlightRefresh;
+    await this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  private versionsKey(address: string): string {
+    return `${this.policiesKey}:versions:${address}`;
+  }
+
+  private async readPolicies(): Promise<Map<string, SupportedAssetPolicy>> {
+    return parseEntries<SupportedAssetPolicy>(await this.backend.hashGetAll(this.policiesKey));
+  }
+
+  private async load(): Promise<void> {
+    const [policies, scheduled] = await Promise.all([
+      this.readPolicies(),
+      this.backend.hashGetAll(this.scheduledKey),
+    ]);
+    this.policies = policies;
+    this.scheduled = parseEntries<ScheduledAssetPolicyChange>(scheduled);
+  }
+
+  /** Appends the version record, then writes the policy state it describes. */
+  private async commit(
+    address: string,
+    previous: SupportedAssetPolicy | undefined,
+    next: SupportedAssetPolicy | undefined,
+    action: AssetPolicyChangeAction,
+    change: AssetPolicyChangeContext,
+    links?: AssetPolicyVersionLinks,
+  ): Promise<AssetPolicyVersion> {
+    const draft = draftVersion(address, previous, next, action, change, links);
+    const version = await this.backend.listPush(this.versionsKey(address), JSON.stringify(draft));
+    if (next) {
+      await this.backend.hashSet(this.policiesKey, address, JSON.stringify(next));
+      this.policies.set(address, next);
+    } else {
+      await this.backend.hashDelete(this.policiesKey, address);
+      this.policies.delete(address);
+    }
+    return { version, ...draft };
+  }
+
+  private async notify(): Promise<void> {
+    try {
+      await this.backend.publish(this.channel, "changed");
+    } catch (error) {
+      // The write itself landed; other replicas catch up on their next resync.
+      this.logger?.warn(
+        { event: "asset_policy_notify_failed", err: errorMessage(error) },
+        "Failed to publish asset policy change",
+      );
+    }
+  }
+}
+
+/** The store selected by `shared_state_backend`: shared when a backend is given, LMDB otherwise. */
+export function openAssetPolicyStore(
+  config: Config,
+  sharedState: SharedStateBackend | undefined,
+  deps: { logger?: AssetPolicyStoreLogger } = {},
+): Promise<AssetPolicyStore> {
+  if (!sharedState) {
+    return Promise.resolve(new LmdbAssetPolicyStore(config));
+  }
+  return SharedAssetPolicyStore.open(config, sharedState, deps);
+}
+
+export interface AssetPolicySchedulerDependencies {
+  nowUnixSeconds: () => Promise<bigint> | bigint;
+  /** Runs after each applied change, e.g. to refresh the asset's price feed. */
+  onApplied?: (version: AssetPolicyVersion) => Promise<void> | void;
+  logger?: AssetPolicyStoreLogger;
+}
+
+/**
+ * Applies scheduled policy changes once they fall due. Due-ness is judged on
+ * the quote clock, so a change takes effect for quotes at its `effective_at`.
+ */
+export class AssetPolicyScheduler {
+  private intervalHandle?: NodeJS.Timeout;
+  private inFlightRun?: Promise<AssetPolicyVersion[]>;
+
+  constructor(
+    private readonly store: AssetPolicyStore,
+    private readonly intervalSeconds: number,
+    private readonly deps: AssetPolicySchedulerDependencies,
+  ) {}
+
+  start(): void {
+    if (this.intervalHandle) {
+      return;
+    }
+    void this.runOnce();
+    this.intervalHandle = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalSeconds * 1000);
+    this.intervalHandle.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = undefined;
+    }
+    await this.inFlightRun;
+  }
+
+  /** Applies due changes, logging instead of throwing so the interval keeps going. */
+  runOnce(): Promise<AssetPolicyVersion[]> {
+    this.inFlightRun ??= this.run()
+      .catch((error: unknown) => {
+        this.deps.logger?.warn(
+          { event: "asset_policy_schedule_failed", err: errorMessage(error) },
+          "Failed to apply scheduled asset policy changes",
+        );
+        return [];
+      })
+      .finally(() => {
+        this.inFlightRun = undefined;
+      });
+    return this.inFlightRun;
+  }
+
+  private async run(): Promise<AssetPolicyVersion[]> {
+    const now = Number(await this.deps.nowUnixSeconds());
+    const applied = await this.store.applyDueChanges(now);
+    for (const version of applied) {
+      this.deps.logger?.info(
+        {
+          event: "asset_policy_schedule_applied",
+          accepted_asset: version.address,
+          version: version.version,
+          scheduled_change_id: version.scheduled_change_id,
+          actor: version.actor,
+        },
+        "Applied scheduled asset policy change",
+      );
+      await this.deps.onApplied?.(version);
+    }
+    return applied;
   }
 }
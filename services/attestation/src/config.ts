@@ -1,7 +1,12 @@
+import { createHash } from "node:crypto";
 import { readFileSync } from "node:fs";
+import nodePath from "node:path";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { parse } from "yaml";
 import { z } from "zod";
+import { L1AddressSchema, L1BridgesSchema } from "./l1-withdrawals.js";
+import { type PriceFeedSpec, PriceFeedSpecSchema } from "./price-feeds.js";
+import { ReservePricingSchema } from "./reserve-pricing.js";
 import {
   type RuntimeProfile,
   resolveSecret,
@@ -9,6 +14,9 @@ import {
   type SecretProvider,
   type SecretSource,
 } from "./secret-provider.js";
+import { SpendingLimitsSchema } from "./spending-limits.js";
+import { resolveSweepDestination, TreasurySweepSchedulesSchema } from "./treasury-sweeps.js";
+import { UserPoliciesSchema } from "./user-policies.js";
 
 export const MAX_QUOTE_VALIDITY_SECONDS = 3600;
 const PRIVATE_KEY_PATTERN = /^0x[0-9a-fA-F]{64}$/;
@@ -16,6 +24,19 @@ const HTTP_HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
 const QUOTE_RATE_LIMIT_MAX_WINDOW_SECONDS = 3600;
 const QUOTE_RATE_LIMIT_MAX_REQUESTS = 1_000_000;
 const QUOTE_RATE_LIMIT_MAX_TRACKED_KEYS = 1_000_000;
+const PRICE_FEED_MAX_REFRESH_INTERVAL_SECONDS = 3600;
+const PRICE_FEED_MAX_TIMEOUT_MS = 60_000;
+const SETTLEMENT_MAX_POLL_INTERVAL_SECONDS = 3600;
+const SETTLEMENT_MAX_BLOCKS_PER_POLL = 1000;
+const SHARED_STATE_MAX_RESYNC_INTERVAL_SECONDS = 3600;
+const ASSET_POLICY_MAX_SCHEDULE_POLL_SECONDS = 3600;
+const ADMIN_API_KEYS_MAX_RELOAD_SECONDS = 3600;
+const QUOTE_AUTH_HMAC_MAX_SKEW_SECONDS = 3600;
+const SHARED_STATE_MAX_COMMAND_TIMEOUT_MS = 60_000;
+const TREASURY_SWEEP_MAX_ATTEMPTS = 10;
+const TREASURY_SWEEP_MAX_RETRY_DELAY_SECONDS = 86_400;
+const TREASURY_BALANCE_MAX_POLL_INTERVAL_SECONDS = 86_400;
+const TREASURY_L1_WITHDRAWAL_MAX_POLL_INTERVAL_SECONDS = 3600;
 const FIELD_HEX_PATTERN = /^0x[0-9a-fA-F]{64}$/;
 const OperatorSecretKeySchema = z
   .string()
@@ -29,8 +50,22 @@ const QuoteAuthModeSchema = z.enum([
   "trusted_header",
   "api_key_or_trusted_header",
   "api_key_and_trusted_header",
+  "hmac",
+  "mtls",
 ]);
 const QuoteFormatSchema = z.enum(["amount_quote", "rate_quote"]);
+const QuoteSignerModeSchema = z.enum(["local", "remote"]);
+const SharedStateBackendSchema = z.enum(["local", "redis"]);
+const RedisUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .refine((value) => /^rediss?:\/\//i.test(value), "must use redis or rediss");
+const HttpUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .refine((value) => /^https?:\/\//i.test(value), "must use http or https");
 const AztecNodeUrlSchema = z.string().url();
 const AztecAddressSchema = z
   .string()
@@ -60,14 +95,65 @@ const SupportedAssetSchema = z.object({
   market_rate_num: z.number().int().positive(),
   market_rate_den: z.number().int().positive(),
   fee_bips: z.number().int().min(0).max(10000),
+  /** Optional live rate source; when set it replaces market_rate_num/den at quote time. */
+  price_feed: PriceFeedSpecSchema.optional(),
 });
 const AdminApiKeySchema = z.string().trim().min(1);
+const FpcIdSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^[a-z0-9][a-z0-9-]{0,62}$/,
+    "must be lowercase letters, digits or dashes (used in the /fpcs/<id> path)",
+  );
+
+/**
+ * An extra FPC served by the same instance under `/fpcs/<id>`. Each one has
+ * its own operator signer, asset policies and LMDB state; everything else
+ * (limits and tier seeds, auth, rate limits, settlement tuning) is inherited
+ * from the top-level config.
+ */
+const AdditionalFpcSchema = z.object({
+  id: FpcIdSchema,
+  fpc_address: AztecAddressSchema,
+  network_id: z.string().trim().min(1).optional(),
+  contract_variant: z.string().trim().min(1).optional(),
+  supported_assets: z.array(SupportedAssetSchema).min(1),
+  operator_address: AztecAddressSchema.optional(),
+  operator_account_salt: FrHexSchema.optional(),
+  operator_secret_provider: SecretProviderSchema.default("auto"),
+  operator_secret_ref: z.string().optional(),
+  quote_signer: QuoteSignerModeSchema.default("local"),
+  remote_signer_url: HttpUrlSchema.optional(),
+  remote_signer_key_id: z.string().trim().min(1).max(128).optional(),
+  treasury_destination_address: AztecAddressSchema.optional(),
+  treasury_l1_destination_address: L1AddressSchema.optional(),
+  treasury_sweeps: TreasurySweepSchedulesSchema,
+  /** `data_dir` of the top-up service funding this FPC, for the revenue report. */
+  topup_data_dir: z.string().min(1).optional(),
+  /** Reserve-aware pricing curve for this FPC; defaults to the top-level curve. */
+  reserve_pricing: ReservePricingSchema.optional(),
+  /** Directory holding this FPC's LMDB stores (default `.attestation-fpcs/<id>`). */
+  state_dir: z.string().min(1).optional(),
+});
 
 const ConfigSchema = z.object({
   runtime_profile: RuntimeProfileSchema.default("development"),
   /** Aztec network identifier exposed in wallet discovery metadata. */
   network_id: z.string().trim().min(1).default("aztec-alpha-local"),
   fpc_address: AztecAddressSchema,
+  /** Identifier of the top-level FPC, used in `/fpcs/<id>` and `?fpc=<id>` routing. */
+  fpc_id: FpcIdSchema.default("default"),
+  /** Further FPCs served from this instance, each under its own `/fpcs/<id>` prefix. */
+  additional_fpcs: z.array(AdditionalFpcSchema).default([]),
+  /**
+   * FPC replaced by the last operator key rotation. Quotes are only signed for
+   * `fpc_address`; the previous FPC stays advertised in discovery and its
+   * outstanding quotes keep being tracked until `previous_fpc_retires_at`.
+   */
+  previous_fpc_address: AztecAddressSchema.optional(),
+  /** Unix seconds after which the previous FPC is no longer advertised. */
+  previous_fpc_retires_at: z.number().int().positive().optional(),
   /** Contract flavor identifier exposed in wallet discovery metadata. */
   contract_variant: z.string().trim().min(1).default("fpc-v1"),
   /** Optional externally reachable base URL override for discovery clients. */
@@ -75,6 +161,8 @@ const ConfigSchema = z.object({
   aztec_node_url: AztecNodeUrlSchema.optional(),
   quote_validity_seconds: z.number().int().positive().max(MAX_QUOTE_VALIDITY_SECONDS).default(300),
   port: z.number().int().positive().default(3000),
+  /** Maximum number of `(accepted_asset, fj_amount)` entries accepted by `POST /quotes`. */
+  quote_batch_max_entries: z.number().int().positive().max(100).default(10),
   /** Supported asset list. Each entry defines an accepted token with pricing. */
   supported_assets: z.array(SupportedAssetSchema).optional(),
   /** Quote preimage format used for signature generation. */
@@ -83,6 +171,22 @@ const ConfigSchema = z.object({
   operator_secret_provider: SecretProviderSchema.default("auto"),
   /** Reference used by external secret providers (kms/hsm). */
   operator_secret_ref: z.string().optional(),
+  /**
+   * Where quote signatures are produced: `local` derives the operator signing
+   * key in-process, `remote` sends quote hashes to an external signing daemon
+   * so the service never holds the raw key.
+   */
+  quote_signer: QuoteSignerModeSchema.default("local"),
+  /** Base URL of the signing daemon. Required when `quote_signer` is `remote`. */
+  remote_signer_url: HttpUrlSchema.optional(),
+  /** Key identifier sent with every signing request, for daemons holding several keys. */
+  remote_signer_key_id: z.string().trim().min(1).max(128).optional(),
+  /** Per-attempt timeout for signing daemon requests. */
+  remote_signer_timeout_ms: z.number().int().positive().max(60_000).default(2000),
+  /** Extra attempts after a timeout, network error, 429 or 5xx from the daemon. */
+  remote_signer_max_retries: z.number().int().min(0).max(10).default(2),
+  /** Backoff before the first retry; doubles on each further retry. */
+  remote_signer_retry_backoff_ms: z.number().int().min(0).max(10_000).default(100),
   /** Optional explicit operator account address (needed if account salt is non-zero). */
   operator_address: AztecAddressSchema.optional(),
   /** Operator account salt required when reconstructing the deployed operator wallet. */
@@ -90,10 +194,89 @@ const ConfigSchema = z.object({
   /** Shared API key for authenticated admin asset/sweep endpoints — set via ADMIN_API_KEY env var. */
   /** Header name carrying the admin API key. */
   admin_api_key_header: z.string().default("x-admin-api-key"),
+  /**
+   * YAML/JSON file of named, role-scoped admin keys stored as SHA-256 digests.
+   * Re-read every `admin_api_keys_reload_seconds`, so keys rotate without a restart.
+   */
+  admin_api_keys_file: z.string().min(1).optional(),
+  admin_api_keys_reload_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(ADMIN_API_KEYS_MAX_RELOAD_SECONDS)
+    .default(10),
   /** Durable LMDB directory storing the effective supported asset policy set. */
   asset_policy_state_path: z.string().min(1).default(".attestation-asset-policies"),
-  /** Default recipient for manual treasury sweeps. */
+  /** How often scheduled asset policy changes are checked and applied once due, in seconds. */
+  asset_policy_schedule_poll_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(ASSET_POLICY_MAX_SCHEDULE_POLL_SECONDS)
+    .default(5),
+  /** Durable LMDB directory recording every signed quote for audit and reconciliation. */
+  quote_ledger_state_path: z.string().min(1).default(".attestation-quote-ledger"),
+  /** Fee Juice sponsorship caps enforced at quote time (seed for the spending limit store). */
+  spending_limits: SpendingLimitsSchema.default({}),
+  /** Durable LMDB directory storing the effective spending limits. */
+  spending_limits_state_path: z.string().min(1).default(".attestation-spending-limits"),
+  /** User access mode, allow/deny lists and pricing tiers (seed for the user policy store). */
+  user_policies: UserPoliciesSchema.default({}),
+  /** Durable LMDB directory storing user access lists and tiers. */
+  user_policy_state_path: z.string().min(1).default(".attestation-user-policies"),
+  /** Durable LMDB directory storing admin-managed quote API keys (api_key auth modes). */
+  quote_api_key_state_path: z.string().min(1).default(".attestation-quote-api-keys"),
+  /** Default recipient for manual and scheduled treasury sweeps. */
   treasury_destination_address: AztecAddressSchema.optional(),
+  /** Per-asset automatic sweeps of operator revenue (needs the operator treasury wallet). */
+  treasury_sweeps: TreasurySweepSchedulesSchema,
+  /** Attempts per scheduled sweep run before waiting for the next run. */
+  treasury_sweep_max_attempts: z
+    .number()
+    .int()
+    .positive()
+    .max(TREASURY_SWEEP_MAX_ATTEMPTS)
+    .default(3),
+  /** Delay before retrying a failed scheduled sweep, in seconds. */
+  treasury_sweep_retry_delay_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(TREASURY_SWEEP_MAX_RETRY_DELAY_SECONDS)
+    .default(60),
+  /** How often operator balances are read for the balance gauges, in seconds; 0 disables. */
+  treasury_balance_poll_interval_seconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(TREASURY_BALANCE_MAX_POLL_INTERVAL_SECONDS)
+    .default(300),
+  /** Durable LMDB directory recording manual and scheduled sweeps. */
+  treasury_sweep_state_path: z.string().min(1).default(".attestation-treasury-sweeps"),
+  /** L1 execution RPC used to claim L1 withdrawals. Required when `treasury_l1_bridges` is set. */
+  l1_rpc_url: HttpUrlSchema.optional(),
+  /** Token bridges that `l1` mode sweeps exit through, one per accepted asset. */
+  treasury_l1_bridges: L1BridgesSchema,
+  /** Default Ethereum recipient for `l1` mode sweeps. */
+  treasury_l1_destination_address: L1AddressSchema.optional(),
+  /** Secret provider strategy for the L1 key that pays for withdrawal claims. */
+  treasury_l1_secret_provider: SecretProviderSchema.default("auto"),
+  /** Reference used by external secret providers (kms/hsm) for the L1 claim key. */
+  treasury_l1_secret_ref: z.string().optional(),
+  /** Durable LMDB directory tracking L1 withdrawals until they are claimed. */
+  treasury_l1_withdrawal_state_path: z.string().min(1).default(".attestation-l1-withdrawals"),
+  /** How often unclaimed L1 withdrawals are checked for proofs and claims, in seconds. */
+  treasury_l1_withdrawal_poll_interval_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(TREASURY_L1_WITHDRAWAL_MAX_POLL_INTERVAL_SECONDS)
+    .default(60),
+  /**
+   * `data_dir` of the top-up service funding this FPC. Its bridge history is
+   * read (never written) for the Fee Juice top-ups in the revenue report.
+   */
+  topup_data_dir: z.string().min(1).optional(),
   /** Quote endpoint access control mode. */
   quote_auth_mode: QuoteAuthModeSchema.default("disabled"),
   /** Shared API key value for /quote — set via QUOTE_AUTH_API_KEY env var. */
@@ -102,6 +285,20 @@ const ConfigSchema = z.object({
   /** Trusted upstream marker header name when mode includes trusted_header. */
   quote_auth_trusted_header_name: z.string().optional(),
   /** Expected trusted upstream marker header value — set via QUOTE_AUTH_TRUSTED_HEADER_VALUE env var. */
+  /** YAML/JSON file of quote clients with their HMAC secrets and/or certificate fingerprints (hmac and mtls modes). */
+  quote_auth_clients_file: z.string().min(1).optional(),
+  /** Max distance between an HMAC-signed request's timestamp and server time, in seconds. */
+  quote_auth_hmac_max_skew_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(QUOTE_AUTH_HMAC_MAX_SKEW_SECONDS)
+    .default(300),
+  /** PEM certificate and key to serve HTTPS with; both or neither. */
+  tls_cert_file: z.string().min(1).optional(),
+  tls_key_file: z.string().min(1).optional(),
+  /** PEM CA bundle client certificates are verified against (mtls mode). */
+  tls_client_ca_file: z.string().min(1).optional(),
   /** Optional directory for local PXE persistent state (LMDB).
    *  When set, the service spins up a local PXE so it can call
    *  registerSender() and discover private fee-payment notes. */
@@ -129,10 +326,90 @@ const ConfigSchema = z.object({
     .positive()
     .max(QUOTE_RATE_LIMIT_MAX_TRACKED_KEYS)
     .default(10_000),
+  /** Enable/disable rate limiting of unsigned `/price` previews (separate bucket from /quote). */
+  price_rate_limit_enabled: z.boolean().default(true),
+  /** Max /price requests allowed per identity per fixed window. */
+  price_rate_limit_max_requests: z
+    .number()
+    .int()
+    .positive()
+    .max(QUOTE_RATE_LIMIT_MAX_REQUESTS)
+    .default(300),
+  /** Fixed window size in seconds for /price. */
+  price_rate_limit_window_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(QUOTE_RATE_LIMIT_MAX_WINDOW_SECONDS)
+    .default(60),
+  /**
+   * Adjusts `fee_bips` along a curve over the FPC's Fee Juice balance, read
+   * from the node. Disabled when omitted.
+   */
+  reserve_pricing: ReservePricingSchema.optional(),
+  /** How often asset price feeds are polled, in seconds. */
+  price_feed_refresh_interval_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(PRICE_FEED_MAX_REFRESH_INTERVAL_SECONDS)
+    .default(30),
+  /** Quotes are refused for a feed-priced asset once its last accepted sample is older than this. */
+  price_feed_max_staleness_seconds: z.number().int().positive().default(300),
+  /** Circuit breaker: max move between consecutive accepted samples, in basis points. */
+  price_feed_max_deviation_bips: z.number().int().positive().default(1000),
+  /** Per-request timeout for HTTP price feeds, in milliseconds. */
+  price_feed_timeout_ms: z.number().int().positive().max(PRICE_FEED_MAX_TIMEOUT_MS).default(5000),
+  /** Follow L2 blocks and mark ledger quotes as settled or expired. */
+  settlement_watcher_enabled: z.boolean().default(true),
+  /** How often the settlement watcher polls the Aztec node for new blocks, in seconds. */
+  settlement_poll_interval_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(SETTLEMENT_MAX_POLL_INTERVAL_SECONDS)
+    .default(12),
+  /** Upper bound on blocks scanned per poll while catching up. */
+  settlement_max_blocks_per_poll: z
+    .number()
+    .int()
+    .positive()
+    .max(SETTLEMENT_MAX_BLOCKS_PER_POLL)
+    .default(50),
+  /**
+   * Time after valid_until before an unused quote is marked expired. A tx
+   * anchored before valid_until can still be mined afterwards.
+   */
+  settlement_expiry_grace_seconds: z.number().int().min(0).default(3600),
+  /**
+   * Where rate-limit counters and asset policies live: `local` keeps them
+   * in-process/LMDB; `redis` shares them between replicas.
+   */
+  shared_state_backend: SharedStateBackendSchema.default("local"),
+  /** `redis://` or `rediss://` URL; prefer the SHARED_STATE_URL env var when it embeds a password. */
+  shared_state_url: z.string().optional(),
+  /** Prefix for every key and channel this service uses in the shared store. */
+  shared_state_key_prefix: z.string().min(1).default("fpc-attestation:"),
+  /** Timeout for each shared-store command, in milliseconds. */
+  shared_state_command_timeout_ms: z
+    .number()
+    .int()
+    .positive()
+    .max(SHARED_STATE_MAX_COMMAND_TIMEOUT_MS)
+    .default(1000),
+  /** Full asset policy reload interval, catching change notifications missed during a disconnect. */
+  shared_state_resync_interval_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(SHARED_STATE_MAX_RESYNC_INTERVAL_SECONDS)
+    .default(10),
 });
 
 type ParsedConfig = z.infer<typeof ConfigSchema>;
+type AdditionalFpcEntry = z.infer<typeof AdditionalFpcSchema>;
 export type QuoteAuthMode = z.infer<typeof QuoteAuthModeSchema>;
+export type SharedStateBackendKind = z.infer<typeof SharedStateBackendSchema>;
 
 export interface SupportedAssetPolicy {
   address: string;
@@ -140,6 +417,7 @@ export interface SupportedAssetPolicy {
   market_rate_num: number;
   market_rate_den: number;
   fee_bips: number;
+  price_feed?: PriceFeedSpec;
 }
 
 export interface QuoteAuthConfig {
@@ -148,6 +426,9 @@ export interface QuoteAuthConfig {
   apiKeyHeader: string;
   trustedHeaderName?: string;
   trustedHeaderValue?: string;
+  /** Client registry for the hmac and mtls modes. */
+  clientsFile?: string;
+  hmacMaxSkewSeconds: number;
 }
 
 export interface QuoteRateLimitConfig {
@@ -159,8 +440,11 @@ export interface QuoteRateLimitConfig {
 
 export interface AdminAuthConfig {
   enabled: boolean;
-  apiKey?: string;
+  /** SHA-256 hex digest of the ADMIN_API_KEY env key, which holds every admin role. */
+  apiKeySha256?: string;
   apiKeyHeader: string;
+  keysFile?: string;
+  keysReloadSeconds: number;
 }
 
 export interface RatePolicy {
@@ -174,24 +458,36 @@ export type Config = Omit<
   | "aztec_node_url"
   | "supported_assets"
   | "admin_api_key_header"
+  | "admin_api_keys_file"
+  | "admin_api_keys_reload_seconds"
   | "quote_auth_mode"
   | "quote_auth_api_key_header"
   | "quote_auth_trusted_header_name"
+  | "quote_auth_clients_file"
+  | "quote_auth_hmac_max_skew_seconds"
   | "quote_rate_limit_enabled"
   | "quote_rate_limit_max_requests"
   | "quote_rate_limit_window_seconds"
   | "quote_rate_limit_max_tracked_keys"
+  | "additional_fpcs"
 > & {
   runtime_profile: RuntimeProfile;
   aztec_node_url: string;
-  operator_secret_key: string;
-  operator_secret_key_source: SecretSource;
-  operator_secret_key_provider: SecretProvider;
+  /** Unset when `quote_signer` is `remote`: the key then stays in the signing daemon. */
+  operator_secret_key?: string;
+  operator_secret_key_source?: SecretSource;
+  operator_secret_key_provider?: SecretProvider;
   operator_secret_key_dual_source: boolean;
+  remote_signer_auth_token?: string;
+  /** Pays for L1 withdrawal claims; resolved only when `treasury_l1_bridges` is set. */
+  treasury_l1_private_key?: string;
+  treasury_l1_private_key_source?: SecretSource;
   admin_auth: AdminAuthConfig;
   supported_assets: SupportedAssetPolicy[];
   quote_auth: QuoteAuthConfig;
   quote_rate_limit: QuoteRateLimitConfig;
+  /** Fully resolved configs of the extra FPCs; always empty on those configs themselves. */
+  additional_fpcs: Config[];
 };
 
 export interface LoadConfigOptions {
@@ -304,6 +600,7 @@ interface QuoteAuthInputs {
   apiKeyHeader: string;
   trustedHeaderName?: string;
   trustedHeaderValue?: string;
+  clientsFile?: string;
 }
 
 function resolveQuoteAuthInputs(config: ParsedConfig): QuoteAuthInputs {
@@ -320,6 +617,8 @@ function resolveQuoteAuthInputs(config: ParsedConfig): QuoteAuthInputs {
   const trustedHeaderName = trustedHeaderNameRaw
     ? normalizeHeaderName(trustedHeaderNameRaw, "quote auth trusted upstream")
     : undefined;
+  const clientsFile =
+    normalizeOptional(process.env.QUOTE_AUTH_CLIENTS_FILE) ?? config.quote_auth_clients_file;
 
   return {
     mode,
@@ -327,6 +626,7 @@ function resolveQuoteAuthInputs(config: ParsedConfig): QuoteAuthInputs {
     apiKeyHeader,
     trustedHeaderName,
     trustedHeaderValue,
+    clientsFile,
   };
 }
 
@@ -339,16 +639,14 @@ function validateQuoteAuthMode(mode: QuoteAuthMode, runtimeProfile: RuntimeProfi
   );
 }
 
+/**
+ * The shared key is optional in the api_key modes: integrators can instead
+ * use keys issued through the admin API.
+ */
 function validateQuoteAuthApiKey(mode: QuoteAuthMode, apiKey: string | undefined): void {
-  const requiresApiKey = modeNeedsApiKey(mode);
-  if (requiresApiKey === Boolean(apiKey)) {
+  if (!apiKey || modeNeedsApiKey(mode)) {
     return;
   }
-  if (requiresApiKey) {
-    throw new Error(
-      `Missing quote auth API key: set quote_auth_api_key (or QUOTE_AUTH_API_KEY) when quote_auth_mode=${mode}`,
-    );
-  }
   throw new Error(
     `Unexpected quote auth API key: quote_auth_mode=${mode} does not use API key auth`,
   );
@@ -382,16 +680,40 @@ function validateQuoteAuthTrustedHeader(
   }
 }
 
+function validateQuoteAuthClients(config: ParsedConfig, inputs: QuoteAuthInputs): void {
+  const { mode, clientsFile } = inputs;
+  const usesClients = mode === "hmac" || mode === "mtls";
+  if (usesClients && !clientsFile) {
+    throw new Error(
+      `Missing quote auth clients: set quote_auth_clients_file (or QUOTE_AUTH_CLIENTS_FILE) when quote_auth_mode=${mode}`,
+    );
+  }
+  if (!usesClients && clientsFile) {
+    throw new Error(
+      `Unexpected quote auth clients file: quote_auth_mode=${mode} does not use client credentials`,
+    );
+  }
+  if (Boolean(config.tls_cert_file) !== Boolean(config.tls_key_file)) {
+    throw new Error("Invalid TLS config: set both tls_cert_file and tls_key_file, or neither");
+  }
+  if (mode === "mtls" && (!config.tls_cert_file || !config.tls_client_ca_file)) {
+    throw new Error(
+      "Missing TLS config: set tls_cert_file, tls_key_file and tls_client_ca_file when quote_auth_mode=mtls",
+    );
+  }
+}
+
 function resolveQuoteAuthConfig(
   config: ParsedConfig,
   runtimeProfile: RuntimeProfile,
 ): QuoteAuthConfig {
-  const { mode, apiKey, apiKeyHeader, trustedHeaderName, trustedHeaderValue } =
-    resolveQuoteAuthInputs(config);
+  const inputs = resolveQuoteAuthInputs(config);
+  const { mode, apiKey, apiKeyHeader, trustedHeaderName, trustedHeaderValue, clientsFile } = inputs;
 
   validateQuoteAuthMode(mode, runtimeProfile);
   validateQuoteAuthApiKey(mode, apiKey);
   validateQuoteAuthTrustedHeader(mode, trustedHeaderName, trustedHeaderValue, apiKeyHeader);
+  validateQuoteAuthClients(config, inputs);
 
   return {
     mode,
@@ -399,6 +721,8 @@ function resolveQuoteAuthConfig(
     apiKeyHeader,
     trustedHeaderName,
     trustedHeaderValue,
+    clientsFile,
+    hmacMaxSkewSeconds: config.quote_auth_hmac_max_skew_seconds,
   };
 }
 
@@ -453,23 +777,62 @@ function resolveAdminAuthConfig(config: ParsedConfig): AdminAuthConfig {
     "admin api key",
   );
 
+  const keysFile = normalizeOptional(process.env.ADMIN_API_KEYS_FILE) ?? config.admin_api_keys_file;
+  const keysReloadSeconds = config.admin_api_keys_reload_seconds;
+
   if (!apiKey) {
     return {
-      enabled: false,
-      apiKey: undefined,
+      enabled: keysFile !== undefined,
+      apiKeySha256: undefined,
       apiKeyHeader,
+      keysFile,
+      keysReloadSeconds,
     };
   }
 
   AdminApiKeySchema.parse(apiKey);
   return {
     enabled: true,
-    apiKey,
+    apiKeySha256: createHash("sha256").update(apiKey, "utf8").digest("hex"),
     apiKeyHeader,
+    keysFile,
+    keysReloadSeconds,
   };
 }
 
-function resolveSupportedAssets(config: ParsedConfig): SupportedAssetPolicy[] {
+function validatePreviousFpc(config: ParsedConfig): void {
+  if (!config.previous_fpc_address) {
+    if (config.previous_fpc_retires_at !== undefined) {
+      throw new Error("previous_fpc_retires_at requires previous_fpc_address");
+    }
+    return;
+  }
+  if (config.previous_fpc_retires_at === undefined) {
+    throw new Error("previous_fpc_address requires previous_fpc_retires_at");
+  }
+  if (normalizeAddress(config.previous_fpc_address) === normalizeAddress(config.fpc_address)) {
+    throw new Error("previous_fpc_address must differ from fpc_address");
+  }
+}
+
+function resolveSharedStateUrl(config: ParsedConfig): string | undefined {
+  const url = normalizeOptional(process.env.SHARED_STATE_URL) ?? config.shared_state_url;
+  if (config.shared_state_backend === "local") {
+    return undefined;
+  }
+  if (!url) {
+    throw new Error("shared_state_backend=redis requires shared_state_url (or SHARED_STATE_URL)");
+  }
+  const parsed = RedisUrlSchema.safeParse(url);
+  if (!parsed.success) {
+    throw new Error(`Invalid shared_state_url: ${parsed.error.issues[0]?.message}`);
+  }
+  return parsed.data;
+}
+
+function resolveSupportedAssets(
+  config: Pick<ParsedConfig, "supported_assets">,
+): SupportedAssetPolicy[] {
   if (!config.supported_assets) {
     return [];
   }
@@ -490,74 +853,313 @@ function resolveSupportedAssets(config: ParsedConfig): SupportedAssetPolicy[] {
       market_rate_num: asset.market_rate_num,
       market_rate_den: asset.market_rate_den,
       fee_bips: asset.fee_bips,
+      ...(asset.price_feed ? { price_feed: asset.price_feed } : {}),
     });
   }
 
   return resolvedAssets;
 }
 
-export function loadConfig(path: string, options: LoadConfigOptions = {}): Config {
-  const raw = readFileSync(path, "utf8");
-  const parsed = parse(raw);
-  const config = ConfigSchema.parse(parsed);
+type OperatorKeyConfig = Pick<
+  Config,
+  | "quote_signer"
+  | "remote_signer_url"
+  | "remote_signer_auth_token"
+  | "operator_secret_key"
+  | "operator_secret_key_source"
+  | "operator_secret_key_provider"
+  | "operator_secret_key_dual_source"
+>;
 
-  const runtimeProfile = parseRuntimeProfile(
-    config.runtime_profile,
-    process.env.FPC_RUNTIME_PROFILE,
+/**
+ * Resolves how quotes get signed. Local signing needs the operator secret key;
+ * remote signing deliberately skips secret resolution and instead needs the
+ * daemon URL plus an explicit `operator_address`, since the account address
+ * cannot be derived without the key.
+ */
+type OperatorKeySource = Pick<
+  ParsedConfig,
+  | "quote_signer"
+  | "remote_signer_url"
+  | "operator_address"
+  | "operator_secret_provider"
+  | "operator_secret_ref"
+>;
+
+/**
+ * Env var names are suffixed per FPC (`OPERATOR_SECRET_KEY_PARTNER_A` for
+ * `id: partner-a`) so every served FPC can have its own key; the top-level
+ * FPC uses the unsuffixed names.
+ */
+function fpcEnvSuffix(fpcId: string | undefined): string {
+  return fpcId ? `_${fpcId.toUpperCase().replaceAll("-", "_")}` : "";
+}
+
+function resolveOperatorKeyConfig(
+  config: OperatorKeySource,
+  runtimeProfile: RuntimeProfile,
+  options: LoadConfigOptions,
+  envSuffix = "",
+): OperatorKeyConfig {
+  const env = (name: string) => process.env[`${name}${envSuffix}`];
+  const quoteSigner = QuoteSignerModeSchema.parse(
+    env("QUOTE_SIGNER")?.trim() || config.quote_signer,
   );
+  if (quoteSigner === "remote") {
+    const remoteSignerUrl = HttpUrlSchema.optional().parse(
+      env("REMOTE_SIGNER_URL")?.trim() || config.remote_signer_url,
+    );
+    if (!remoteSignerUrl) {
+      throw new Error(
+        `quote_signer=remote requires remote_signer_url (or REMOTE_SIGNER_URL${envSuffix})`,
+      );
+    }
+    if (!config.operator_address) {
+      throw new Error("quote_signer=remote requires operator_address");
+    }
+    return {
+      quote_signer: quoteSigner,
+      remote_signer_url: remoteSignerUrl,
+      remote_signer_auth_token: env("REMOTE_SIGNER_AUTH_TOKEN")?.trim() || undefined,
+      operator_secret_key_dual_source: false,
+    };
+  }
+
   const secretProvider = parseSecretProvider(
     config.operator_secret_provider,
-    process.env.OPERATOR_SECRET_PROVIDER,
+    env("OPERATOR_SECRET_PROVIDER"),
   );
   const resolvedSecret = resolveSecret({
-    secretLabel: "operator secret key",
+    secretLabel: `operator secret key${envSuffix ? ` (${envSuffix.slice(1)})` : ""}`,
     provider: secretProvider,
     runtimeProfile,
-    envVarName: "OPERATOR_SECRET_KEY",
-    envValue: process.env.OPERATOR_SECRET_KEY,
+    envVarName: `OPERATOR_SECRET_KEY${envSuffix}`,
+    envValue: env("OPERATOR_SECRET_KEY"),
     configValue: undefined,
-    secretRef: process.env.OPERATOR_SECRET_REF ?? config.operator_secret_ref,
+    secretRef: env("OPERATOR_SECRET_REF") ?? config.operator_secret_ref,
     adapters: options.secretAdapters,
   });
-
   OperatorSecretKeySchema.parse(resolvedSecret.value);
+
+  return {
+    quote_signer: quoteSigner,
+    remote_signer_url: config.remote_signer_url,
+    operator_secret_key: resolvedSecret.value,
+    operator_secret_key_source: resolvedSecret.source,
+    operator_secret_key_provider: resolvedSecret.provider,
+    operator_secret_key_dual_source: resolvedSecret.dualSource,
+  };
+}
+
+function assertDistinctFpcs(primary: Config, entries: AdditionalFpcEntry[]): void {
+  const ids = new Set([primary.fpc_id]);
+  const addresses = new Set([normalizeAddress(primary.fpc_address)]);
+  for (const entry of entries) {
+    if (ids.has(entry.id)) {
+      throw new Error(`Duplicate FPC id in config: ${entry.id}`);
+    }
+    ids.add(entry.id);
+    const address = normalizeAddress(entry.fpc_address);
+    if (addresses.has(address)) {
+      throw new Error(`Duplicate FPC address in config: ${address}`);
+    }
+    addresses.add(address);
+  }
+}
+
+/**
+ * Expands an `additional_fpcs` entry into a full config: the top-level
+ * settings, overridden by the entry's identity, signer and assets, with all
+ * LMDB state moved under the entry's own `state_dir`.
+ */
+function resolveAdditionalFpcConfig(
+  primary: Config,
+  entry: AdditionalFpcEntry,
+  options: LoadConfigOptions,
+): Config {
+  const stateDir = entry.state_dir ?? nodePath.join(".attestation-fpcs", entry.id);
+  return {
+    ...primary,
+    fpc_id: entry.id,
+    fpc_address: entry.fpc_address,
+    network_id: entry.network_id ?? primary.network_id,
+    contract_variant: entry.contract_variant ?? primary.contract_variant,
+    previous_fpc_address: undefined,
+    previous_fpc_retires_at: undefined,
+    supported_assets: resolveSupportedAssets(entry),
+    operator_address: entry.operator_address,
+    operator_account_salt: entry.operator_account_salt,
+    operator_secret_provider: entry.operator_secret_provider,
+    operator_secret_ref: entry.operator_secret_ref,
+    remote_signer_key_id: entry.remote_signer_key_id,
+    remote_signer_auth_token: undefined,
+    operator_secret_key: undefined,
+    operator_secret_key_source: undefined,
+    operator_secret_key_provider: undefined,
+    ...resolveOperatorKeyConfig(entry, primary.runtime_profile, options, fpcEnvSuffix(entry.id)),
+    treasury_destination_address: entry.treasury_destination_address,
+    treasury_l1_destination_address: entry.treasury_l1_destination_address,
+    treasury_sweeps: entry.treasury_sweeps,
+    treasury_sweep_state_path: nodePath.join(stateDir, "treasury-sweeps"),
+    treasury_l1_withdrawal_state_path: nodePath.join(stateDir, "l1-withdrawals"),
+    topup_data_dir: entry.topup_data_dir,
+    reserve_pricing: entry.reserve_pricing ?? primary.reserve_pricing,
+    asset_policy_state_path: nodePath.join(stateDir, "asset-policies"),
+    quote_ledger_state_path: nodePath.join(stateDir, "quote-ledger"),
+    spending_limits_state_path: nodePath.join(stateDir, "spending-limits"),
+    user_policy_state_path: nodePath.join(stateDir, "user-policies"),
+    additional_fpcs: [],
+  };
+}
+
+export function loadConfig(path: string, options: LoadConfigOptions = {}): Config {
+  const raw = readFileSync(path, "utf8");
+  const parsed = parse(raw);
+  const config = ConfigSchema.parse(parsed);
+
+  const runtimeProfile = parseRuntimeProfile(
+    config.runtime_profile,
+    process.env.FPC_RUNTIME_PROFILE,
+  );
+  const operatorKey = resolveOperatorKeyConfig(config, runtimeProfile, options);
   const aztecNodeUrl = AztecNodeUrlSchema.parse(
     process.env.AZTEC_NODE_URL ?? config.aztec_node_url,
   );
+  validatePreviousFpc(config);
+  const sharedStateUrl = resolveSharedStateUrl(config);
   const supportedAssets = resolveSupportedAssets(config);
   const adminAuth = resolveAdminAuthConfig(config);
   const quoteAuth = resolveQuoteAuthConfig(config, runtimeProfile);
   const quoteRateLimit = resolveQuoteRateLimitConfig(config);
+  const l1Treasury = resolveL1TreasuryConfig(config, runtimeProfile, options);
   const {
     admin_api_key_header: _adminApiKeyHeader,
+    admin_api_keys_file: _adminApiKeysFile,
+    admin_api_keys_reload_seconds: _adminApiKeysReloadSeconds,
     quote_auth_mode: _quoteAuthMode,
     quote_auth_api_key_header: _quoteAuthApiKeyHeader,
     quote_auth_trusted_header_name: _quoteAuthTrustedHeaderName,
+    quote_auth_clients_file: _quoteAuthClientsFile,
+    quote_auth_hmac_max_skew_seconds: _quoteAuthHmacMaxSkewSeconds,
     quote_rate_limit_enabled: _quoteRateLimitEnabled,
     quote_rate_limit_max_requests: _quoteRateLimitMaxRequests,
     quote_rate_limit_window_seconds: _quoteRateLimitWindowSeconds,
     quote_rate_limit_max_tracked_keys: _quoteRateLimitMaxTrackedKeys,
+    additional_fpcs: additionalFpcs,
     ...restConfig
   } = config;
 
-  return {
+  const primary: Config = {
     ...restConfig,
     runtime_profile: runtimeProfile,
     aztec_node_url: aztecNodeUrl,
     supported_assets: supportedAssets,
-    operator_secret_key: resolvedSecret.value,
-    operator_secret_key_source: resolvedSecret.source,
-    operator_secret_key_provider: resolvedSecret.provider,
-    operator_secret_key_dual_source: resolvedSecret.dualSource,
+    ...operatorKey,
     operator_account_salt:
       process.env.OPERATOR_ACCOUNT_SALT?.trim() || config.operator_account_salt || undefined,
     asset_policy_state_path:
       process.env.ATTESTATION_ASSET_POLICY_STATE_PATH ?? config.asset_policy_state_path,
+    quote_ledger_state_path:
+      process.env.ATTESTATION_QUOTE_LEDGER_STATE_PATH ?? config.quote_ledger_state_path,
+    spending_limits_state_path:
+      process.env.ATTESTATION_SPENDING_LIMITS_STATE_PATH ?? config.spending_limits_state_path,
+    user_policy_state_path:
+      process.env.ATTESTATION_USER_POLICY_STATE_PATH ?? config.user_policy_state_path,
+    quote_api_key_state_path:
+      process.env.ATTESTATION_QUOTE_API_KEY_STATE_PATH ?? config.quote_api_key_state_path,
     treasury_destination_address:
       process.env.TREASURY_DESTINATION_ADDRESS ?? config.treasury_destination_address,
+    treasury_sweep_state_path:
+      process.env.ATTESTATION_TREASURY_SWEEP_STATE_PATH ?? config.treasury_sweep_state_path,
+    ...l1Treasury,
+    treasury_l1_withdrawal_state_path:
+      process.env.ATTESTATION_L1_WITHDRAWAL_STATE_PATH ?? config.treasury_l1_withdrawal_state_path,
+    topup_data_dir: normalizeOptional(process.env.TOPUP_DATA_DIR) ?? config.topup_data_dir,
+    shared_state_url: sharedStateUrl,
     admin_auth: adminAuth,
     quote_auth: quoteAuth,
     quote_rate_limit: quoteRateLimit,
+    additional_fpcs: [],
+  };
+  assertDistinctFpcs(primary, additionalFpcs);
+  const resolvedAdditionalFpcs = additionalFpcs.map((entry) =>
+    resolveAdditionalFpcConfig(primary, entry, options),
+  );
+  for (const fpc of [primary, ...resolvedAdditionalFpcs]) {
+    validateTreasurySweeps(fpc);
+  }
+
+  return {
+    ...primary,
+    additional_fpcs: resolvedAdditionalFpcs,
+  };
+}
+
+function validateTreasurySweeps(config: Config): void {
+  for (const schedule of config.treasury_sweeps) {
+    resolveSweepDestination(schedule, config);
+    if (
+      schedule.mode === "l1" &&
+      !config.treasury_l1_bridges.some(
+        (bridge) => bridge.accepted_asset === schedule.accepted_asset,
+      )
+    ) {
+      throw new Error(
+        `treasury_sweeps entry for ${schedule.accepted_asset} uses mode l1 but treasury_l1_bridges has no bridge for it`,
+      );
+    }
+  }
+}
+
+type L1TreasuryConfig = Pick<
+  Config,
+  | "l1_rpc_url"
+  | "treasury_l1_destination_address"
+  | "treasury_l1_private_key"
+  | "treasury_l1_private_key_source"
+>;
+
+/**
+ * L1 withdrawals need an RPC and a funded key for the claim transactions, so
+ * both are required as soon as a bridge is configured.
+ */
+function resolveL1TreasuryConfig(
+  config: ParsedConfig,
+  runtimeProfile: RuntimeProfile,
+  options: LoadConfigOptions,
+): L1TreasuryConfig {
+  const l1RpcUrl = HttpUrlSchema.optional().parse(
+    normalizeOptional(process.env.L1_RPC_URL) ?? config.l1_rpc_url,
+  );
+  const destination = L1AddressSchema.optional().parse(
+    normalizeOptional(process.env.TREASURY_L1_DESTINATION_ADDRESS) ??
+      config.treasury_l1_destination_address,
+  );
+  if (config.treasury_l1_bridges.length === 0) {
+    return { l1_rpc_url: l1RpcUrl, treasury_l1_destination_address: destination };
+  }
+  if (!l1RpcUrl) {
+    throw new Error("treasury_l1_bridges requires l1_rpc_url (or L1_RPC_URL)");
+  }
+  const resolvedSecret = resolveSecret({
+    secretLabel: "treasury L1 private key",
+    provider: parseSecretProvider(
+      config.treasury_l1_secret_provider,
+      process.env.TREASURY_L1_SECRET_PROVIDER,
+    ),
+    runtimeProfile,
+    envVarName: "TREASURY_L1_PRIVATE_KEY",
+    envValue: process.env.TREASURY_L1_PRIVATE_KEY,
+    configValue: undefined,
+    secretRef: process.env.TREASURY_L1_SECRET_REF ?? config.treasury_l1_secret_ref,
+    adapters: options.secretAdapters,
+  });
+  OperatorSecretKeySchema.parse(resolvedSecret.value);
+  return {
+    l1_rpc_url: l1RpcUrl,
+    treasury_l1_destination_address: destination,
+    treasury_l1_private_key: resolvedSecret.value,
+    treasury_l1_private_key_source: resolvedSecret.source,
   };
 }
 
@@ -567,13 +1169,20 @@ export function loadConfig(path: string, options: LoadConfigOptions = {}): Confi
  *
  * Kept as a fraction (num, den) to avoid floating point. The contract
  * ceiling-divides, so the operator is guaranteed to collect at least
- * fee_bips of margin.
+ * fee_bips of margin. `surchargeBips` (from reserve pricing) is added to
+ * fee_bips, with the result clamped to 0..10000; the returned `fee_bips` is
+ * the margin actually applied.
  */
-export function computeFinalRate(config: RatePolicy): {
+export function computeFinalRate(
+  config: RatePolicy,
+  surchargeBips = 0,
+): {
   rate_num: bigint;
   rate_den: bigint;
+  fee_bips: number;
 } {
-  const rate_num = BigInt(config.market_rate_num) * BigInt(10000 + config.fee_bips);
+  const fee_bips = Math.min(10000, Math.max(0, config.fee_bips + surchargeBips));
+  const rate_num = BigInt(config.market_rate_num) * BigInt(10000 + fee_bips);
   const rate_den = BigInt(config.market_rate_den) * BigInt(10000);
-  return { rate_num, rate_den };
+  return { rate_num, rate_den, fee_bips };
 }
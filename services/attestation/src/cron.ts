@@ -0,0 +1,139 @@
+const MINUTE_MS = 60_000;
+/** `next()` gives up after this many days without a match (e.g. `0 0 31 2 *`). */
+const MAX_SEARCH_DAYS = 5 * 366;
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is accepted as Sunday and folded onto 0.
+  { name: "day of week", min: 0, max: 7 },
+];
+
+function parseNumber(value: string, field: FieldSpec): number {
+  if (!/^[0-9]+$/.test(value)) {
+    throw new Error(`invalid ${field.name} value "${value}"`);
+  }
+  const parsed = Number(value);
+  if (parsed < field.min || parsed > field.max) {
+    throw new Error(`${field.name} must be between ${field.min} and ${field.max}`);
+  }
+  return parsed;
+}
+
+function parseRange(range: string, field: FieldSpec): [number, number] {
+  if (range === "*") {
+    return [field.min, field.max];
+  }
+  const [start, end] = range.split("-");
+  const from = parseNumber(start, field);
+  const to = end === undefined ? from : parseNumber(end, field);
+  if (to < from) {
+    throw new Error(`invalid ${field.name} range "${range}"`);
+  }
+  return [from, to];
+}
+
+function parseField(value: string, field: FieldSpec): Set<number> {
+  const allowed = new Set<number>();
+  for (const part of value.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...field, min: 1 });
+    const [from, to] = parseRange(range, field);
+    // `5/15` means "from 5 to the end, every 15".
+    const last = stepText !== undefined && !range.includes("-") ? field.max : to;
+    for (let current = from; current <= last; current += step) {
+      allowed.add(current);
+    }
+  }
+  return allowed;
+}
+
+/**
+ * A five-field cron expression (minute, hour, day of month, month, day of
+ * week), evaluated in UTC. Fields take `*`, numbers, ranges, lists and
+ * `/step`; `@hourly`, `@daily`, `@weekly` and `@monthly` are accepted too. As
+ * in classic cron, when both day fields are restricted a day matching either
+ * one runs.
+ */
+export class CronSchedule {
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly daysOfMonth: Set<number>;
+  private readonly months: Set<number>;
+  private readonly daysOfWeek: Set<number>;
+  private readonly dayOfMonthRestricted: boolean;
+  private readonly dayOfWeekRestricted: boolean;
+
+  constructor(readonly expression: string) {
+    const fields = (MACROS[expression.trim()] ?? expression).trim().split(/\s+/);
+    if (fields.length !== FIELDS.length) {
+      throw new Error(`cron expression must have ${FIELDS.length} fields: "${expression}"`);
+    }
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((value, index) =>
+      parseField(value, FIELDS[index]),
+    );
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = new Set([...daysOfWeek].map((day) => day % 7));
+    this.dayOfMonthRestricted = !fields[2].startsWith("*");
+    this.dayOfWeekRestricted = !fields[4].startsWith("*");
+  }
+
+  /** The first matching minute strictly after `afterMs`, in epoch milliseconds. */
+  next(afterMs: number): number {
+    const candidate = new Date(Math.floor(afterMs / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+    const deadline = afterMs + MAX_SEARCH_DAYS * 86_400_000;
+    while (candidate.getTime() <= deadline) {
+      if (!this.months.has(candidate.getUTCMonth() + 1)) {
+        candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+        candidate.setUTCHours(0, 0);
+      } else if (!this.matchesDay(candidate)) {
+        candidate.setUTCDate(candidate.getUTCDate() + 1);
+        candidate.setUTCHours(0, 0);
+      } else if (!this.hours.has(candidate.getUTCHours())) {
+        candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+      } else if (!this.minutes.has(candidate.getUTCMinutes())) {
+        candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+      } else {
+        return candidate.getTime();
+      }
+    }
+    throw new Error(`cron expression never matches: "${this.expression}"`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getUTCDay());
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+}
+
+/** Validates a cron expression, returning why it is unusable, if it is. */
+export function cronExpressionError(expression: string): string | undefined {
+  try {
+    new CronSchedule(expression).next(0);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -5,8 +5,10 @@ const pinoLogger = pino();
 /**
  * Attestation Service — entry point
  *
- * Starts an HTTP server that signs confidential exchange-rate quotes for the FPC.
- * The operator private key is loaded from config (or env var override).
+ * Starts an HTTP server that signs confidential exchange-rate quotes for one or
+ * more FPCs (see `additional_fpcs`).
+ * Quotes are signed in-process with the operator key (env or KMS/HSM
+ * provider), or by an external signing daemon when `quote_signer: remote`.
  *
  * Usage:
  *   cp config.example.yaml config.yaml
@@ -17,69 +19,141 @@ const pinoLogger = pino();
 import { getSchnorrAccountContractAddress } from "@aztec/accounts/schnorr";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { Fr } from "@aztec/aztec.js/fields";
-import { createAztecNodeClient, waitForNode } from "@aztec/aztec.js/node";
-import { Schnorr } from "@aztec/foundation/crypto/schnorr";
-import { deriveSigningKey } from "@aztec/stdlib/keys";
+import { type AztecNode, createAztecNodeClient, waitForNode } from "@aztec/aztec.js/node";
+import { getFeeJuiceBalance } from "@aztec/aztec.js/utils";
 import {
   FpcImmutableVerificationError,
   verifyFpcImmutablesOnStartup,
 } from "@nethermindeth/aztec-fpc-contract-deployment/src/fpc-immutables.ts";
-import { LmdbAssetPolicyStore } from "./asset-policy-store.js";
-import { loadConfig } from "./config.js";
+import { openAssetPolicyStore } from "./asset-policy-store.js";
+import { type Config, loadConfig } from "./config.js";
+import { createL1WithdrawalChain } from "./l1-portal.js";
 import { OperatorTreasury } from "./operator-treasury.js";
-import { buildServer } from "./server.js";
-import type { QuoteSchnorrSigner } from "./signer.js";
+import { RemoteQuoteSigner, type RemoteSignerHealth } from "./remote-signer.js";
+import { buildServer, type ServedFpc } from "./server.js";
+import { createAztecNodeSettlementSource } from "./settlement-source.js";
+import { createSharedStateBackend, type SharedStateBackend } from "./shared-state.js";
+import {
+  createLocalQuoteSigner,
+  type QuoteSchnorrSigner,
+  type QuoteSignerPublicKey,
+} from "./signer.js";
 
 const configPath = process.argv.find((_, i, a) => a[i - 1] === "--config") ?? "config.yaml";
 
-async function main() {
-  const config = loadConfig(configPath);
-  pinoLogger.info(`Runtime profile: ${config.runtime_profile}`);
+interface OperatorSigner {
+  quoteSigner: QuoteSchnorrSigner;
+  publicKey: QuoteSignerPublicKey;
+  /** Account address derived from the local key with salt 0; unknown for remote signers. */
+  derivedAddress?: AztecAddress;
+  healthCheck?: () => Promise<RemoteSignerHealth>;
+}
+
+async function createOperatorSigner(config: Config): Promise<OperatorSigner> {
+  if (config.quote_signer === "remote") {
+    if (!config.remote_signer_url) {
+      throw new Error("quote_signer=remote requires remote_signer_url");
+    }
+    const remoteSigner = new RemoteQuoteSigner({
+      url: config.remote_signer_url,
+      keyId: config.remote_signer_key_id,
+      authToken: config.remote_signer_auth_token,
+      timeoutMs: config.remote_signer_timeout_ms,
+      maxRetries: config.remote_signer_max_retries,
+      retryBackoffMs: config.remote_signer_retry_backoff_ms,
+    });
+    const health = await remoteSigner.healthCheck();
+    if (!health.ok) {
+      throw new Error(`Remote signer health check failed: ${health.error}`);
+    }
+    const publicKey = await remoteSigner.getPublicKey();
+    pinoLogger.info(`Remote signer:     ${config.remote_signer_url} (${health.latency_ms}ms)`);
+    return {
+      quoteSigner: remoteSigner,
+      publicKey: { x: Fr.fromHexString(publicKey.x), y: Fr.fromHexString(publicKey.y) },
+      healthCheck: () => remoteSigner.healthCheck(),
+    };
+  }
+
+  // Secret resolution happens in config loading. Production mode rejects
+  // plaintext config secrets and supports env/external providers.
+  if (!config.operator_secret_key) {
+    throw new Error("quote_signer=local requires the operator secret key");
+  }
+  const secretKey = Fr.fromHexString(config.operator_secret_key);
+  const localSigner = await createLocalQuoteSigner(secretKey);
+  return {
+    quoteSigner: localSigner,
+    publicKey: localSigner.publicKey,
+    derivedAddress: await getSchnorrAccountContractAddress(secretKey, Fr.ZERO),
+  };
+}
 
+function logOperatorKeySource(config: Config): void {
   if (config.operator_secret_key_dual_source) {
     pinoLogger.warn(
       "Both OPERATOR_SECRET_KEY and config.operator_secret_key are set; using OPERATOR_SECRET_KEY",
     );
   }
 
-  pinoLogger.info(
-    `Operator secret key provider: ${config.operator_secret_key_provider} (resolved source: ${config.operator_secret_key_source})`,
-  );
+  if (config.quote_signer === "local") {
+    pinoLogger.info(
+      `Operator secret key provider: ${config.operator_secret_key_provider} (resolved source: ${config.operator_secret_key_source})`,
+    );
+  }
+  if (config.runtime_profile === "production" && config.quote_signer === "local") {
+    pinoLogger.warn(
+      "Operator signing key is held in process memory; set quote_signer=remote to keep it in an external signing daemon",
+    );
+  }
   if (config.operator_secret_key_source === "config") {
     pinoLogger.warn(
       "Operator secret key source: config file (operator_secret_key); this should only be used in non-production profiles",
     );
   }
+}
 
-  const node = createAztecNodeClient(config.aztec_node_url);
-  await waitForNode(node);
-  const assetPolicyStore = new LmdbAssetPolicyStore(config);
-  const treasury = new OperatorTreasury(config);
+/**
+ * Builds one FPC's signer and treasury and checks them against the FPC's
+ * on-chain immutables, so a misconfigured FPC fails startup rather than
+ * serving quotes the contract would reject.
+ */
+async function prepareFpc(
+  node: AztecNode,
+  config: Config,
+  sharedState: SharedStateBackend | undefined,
+): Promise<ServedFpc> {
+  pinoLogger.info(`[fpc ${config.fpc_id}] Preparing FPC ${config.fpc_address}`);
+  logOperatorKeySource(config);
+
+  const assetPolicyStore = await openAssetPolicyStore(config, sharedState, {
+    logger: pinoLogger,
+  });
+  // The treasury rebuilds the operator wallet from the secret key, which a
+  // remote signer deliberately keeps out of this process.
+  const treasury = config.quote_signer === "local" ? new OperatorTreasury(config) : undefined;
+  const operatorSigner = await createOperatorSigner(config);
+  const { derivedAddress: derivedOperatorAddress, publicKey: operatorPubKey } = operatorSigner;
 
-  // Secret resolution happens in config loading. Production mode rejects
-  // plaintext config secrets and supports env/external providers.
-  const secretKey = Fr.fromHexString(config.operator_secret_key);
-  const signingKey = deriveSigningKey(secretKey);
-  const derivedOperatorAddress = await getSchnorrAccountContractAddress(secretKey, Fr.ZERO);
   const operatorAddress = config.operator_address
     ? AztecAddress.fromString(config.operator_address)
     : derivedOperatorAddress;
+  if (!operatorAddress) {
+    throw new Error("operator_address is required when the operator key is not held locally");
+  }
   const fpcAddress = AztecAddress.fromString(config.fpc_address);
-  if (config.operator_address && !operatorAddress.equals(derivedOperatorAddress)) {
+  if (derivedOperatorAddress && !operatorAddress.equals(derivedOperatorAddress)) {
     pinoLogger.warn(
       `[startup] operator_address override is set to ${operatorAddress.toString()} (signer-derived with salt=0 is ${derivedOperatorAddress.toString()})`,
     );
   }
 
-  const schnorrSigner = new Schnorr();
-  const operatorPubKey = await schnorrSigner.computePublicKey(signingKey);
-
   try {
     await verifyFpcImmutablesOnStartup(node, {
       fpcAddress,
       operatorAddress,
-      operatorPubkeyX: Fr.fromString(operatorPubKey.x.toString()),
-      operatorPubkeyY: Fr.fromString(operatorPubKey.y.toString()),
+      operatorPubkeyX: operatorPubKey.x,
+      operatorPubkeyY: operatorPubKey.y,
     });
     pinoLogger.info(`[startup] On-chain FPC immutables verified for ${fpcAddress.toString()}`);
   } catch (error) {
@@ -89,15 +163,9 @@ async function main() {
     throw error;
   }
 
-  const quoteSigner: QuoteSchnorrSigner = {
-    async signQuoteHash(quoteHash: Fr): Promise<string> {
-      const sig = await schnorrSigner.constructSignature(quoteHash.toBuffer(), signingKey);
-      return `0x${Buffer.from(sig.toBuffer()).toString("hex")}`;
-    },
-  };
-
+  pinoLogger.info(`Quote signer:      ${config.quote_signer}`);
   pinoLogger.info(`Operator address:  ${operatorAddress.toString()}`);
-  if (!operatorAddress.equals(derivedOperatorAddress)) {
+  if (derivedOperatorAddress && !operatorAddress.equals(derivedOperatorAddress)) {
     pinoLogger.info(
       `Signer-derived operator address (salt=0): ${derivedOperatorAddress.toString()}`,
     );
@@ -106,16 +174,69 @@ async function main() {
   pinoLogger.info(`Operator pubkey y: ${operatorPubKey.y.toString()}`);
   pinoLogger.info(`FPC address:       ${fpcAddress.toString()}`);
   pinoLogger.info(`Supported assets:  ${assetPolicyStore.getAll().length}`);
+  if (!treasury) {
+    pinoLogger.warn("Operator treasury disabled: balance reads and sweeps need quote_signer=local");
+  }
+  const l1WithdrawalChain =
+    treasury && config.treasury_l1_bridges.length > 0
+      ? await createL1WithdrawalChain(node, config)
+      : undefined;
+  if (l1WithdrawalChain) {
+    pinoLogger.info(
+      `L1 withdrawals:    ${config.treasury_l1_bridges.length} bridge(s), key from ${config.treasury_l1_private_key_source}`,
+    );
+  }
+
+  if (config.reserve_pricing) {
+    pinoLogger.info(
+      `Reserve pricing:   ${config.reserve_pricing.curve.length} curve point(s), refreshed every ${config.reserve_pricing.refresh_interval_seconds}s`,
+    );
+  }
+
+  return {
+    config,
+    quoteSigner: operatorSigner.quoteSigner,
+    deps: {
+      assetPolicyStore,
+      feeJuiceBalance: () => getFeeJuiceBalance(fpcAddress, node),
+      l1WithdrawalChain,
+      signerHealthCheck: operatorSigner.healthCheck,
+      treasury,
+    },
+  };
+}
+
+async function main() {
+  const config = loadConfig(configPath);
+  pinoLogger.info(`Runtime profile: ${config.runtime_profile}`);
+
+  const sharedState = createSharedStateBackend(config, { logger: pinoLogger });
+  if (sharedState) {
+    pinoLogger.info(`Shared state:      redis at ${sharedState.describe()}`);
+  }
+
+  const node = createAztecNodeClient(config.aztec_node_url);
+  await waitForNode(node);
+  const primary = await prepareFpc(node, config, sharedState);
+  const additionalFpcs: ServedFpc[] = [];
+  for (const fpcConfig of config.additional_fpcs) {
+    additionalFpcs.push(await prepareFpc(node, fpcConfig, sharedState));
+  }
+
   if (config.admin_auth.enabled) {
     pinoLogger.info("Admin API enabled (authentication header configured)");
   } else {
     pinoLogger.warn(
-      "Admin API disabled: configure admin_api_key to enable asset management and sweeps",
+      "Admin API disabled: set ADMIN_API_KEY or admin_api_keys_file to enable asset management and sweeps",
     );
   }
 
-  const app = await buildServer(config, quoteSigner, {
-    assetPolicyStore,
+  const app = await buildServer(config, primary.quoteSigner, {
+    ...primary.deps,
+    currentGasFees: async () => {
+      const fees = await node.getCurrentMinFees();
+      return { feePerDaGas: fees.feePerDaGas, feePerL2Gas: fees.feePerL2Gas };
+    },
     nowUnixSeconds: async () => {
       const latest = await node.getBlock("latest");
       if (latest) {
@@ -123,11 +244,18 @@ async function main() {
       }
       return BigInt(Math.floor(Date.now() / 1000));
     },
-    treasury,
+    settlementSource: createAztecNodeSettlementSource(node),
+    sharedState,
+    additionalFpcs,
   });
+  if (sharedState) {
+    app.addHook("onClose", () => sharedState.close());
+  }
 
   await app.listen({ port: config.port, host: "0.0.0.0" });
-  pinoLogger.info(`Attestation service listening on port ${config.port}`);
+  pinoLogger.info(
+    `Attestation service listening on port ${config.port} (${additionalFpcs.length + 1} FPC(s))`,
+  );
 }
 
 main().catch((err) => {
@@ -0,0 +1,169 @@
+import { Fr } from "@aztec/aztec.js/fields";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import { computeL2ToL1MembershipWitness } from "@aztec/stdlib/messaging";
+import {
+  type Chain,
+  createPublicClient,
+  createWalletClient,
+  extractChain,
+  type Hex,
+  http,
+  parseAbi,
+  TransactionReceiptNotFoundError,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import * as viemChains from "viem/chains";
+import type { Config } from "./config.js";
+import type {
+  L1ClaimStatus,
+  L1WithdrawalChain,
+  L1WithdrawalRecord,
+  L2ToL1MessageWitness,
+} from "./l1-withdrawals.js";
+
+const TOKEN_PORTAL_ABI = parseAbi([
+  "function withdraw(address _recipient, uint256 _amount, bool _withCaller, uint256 _epoch, uint256 _leafIndex, bytes32[] _path)",
+]);
+const ROLLUP_ABI = parseAbi(["function getEpochAtSlot(uint256 _slot) view returns (uint256)"]);
+const OUTBOX_ABI = parseAbi([
+  "function hasMessageBeenConsumedAtEpoch(uint256 _epoch, uint256 _leafId) view returns (bool)",
+]);
+
+type L1PortalNode = Pick<
+  AztecNode,
+  "getBlock" | "getL2ToL1Messages" | "getNodeInfo" | "getProvenBlockNumber"
+>;
+
+function requireWitness(withdrawal: L1WithdrawalRecord): L2ToL1MessageWitness {
+  if (
+    withdrawal.epoch === undefined ||
+    withdrawal.leaf_index === undefined ||
+    !withdrawal.sibling_path
+  ) {
+    throw new Error(`L1 withdrawal ${withdrawal.id} has no outbox witness yet`);
+  }
+  return {
+    epoch: BigInt(withdrawal.epoch),
+    leafIndex: BigInt(withdrawal.leaf_index),
+    siblingPath: withdrawal.sibling_path,
+  };
+}
+
+/**
+ * Talks to the rollup's L1 contracts for L1 withdrawals: reads epoch proofs
+ * through the Aztec node, claims through each asset's `TokenPortal` and checks
+ * consumption in the outbox. `treasury_l1_private_key` only pays for claim
+ * gas; the tokens always go to the recipient fixed by the L2 exit.
+ */
+export async function createL1WithdrawalChain(
+  node: L1PortalNode,
+  config: Pick<Config, "l1_rpc_url" | "treasury_l1_private_key">,
+): Promise<L1WithdrawalChain> {
+  if (!config.l1_rpc_url || !config.treasury_l1_private_key) {
+    throw new Error("L1 withdrawals require l1_rpc_url and TREASURY_L1_PRIVATE_KEY");
+  }
+  const { l1ChainId, l1ContractAddresses } = await node.getNodeInfo();
+  const chain = extractChain({
+    chains: Object.values(viemChains) as readonly Chain[],
+    id: l1ChainId,
+  });
+  const transport = http(config.l1_rpc_url);
+  const publicClient = createPublicClient({ chain, transport });
+  const rpcChainId = await publicClient.getChainId();
+  if (rpcChainId !== l1ChainId) {
+    throw new Error(
+      `L1 chain mismatch: aztec node expects chain_id=${l1ChainId}, but RPC ${config.l1_rpc_url} reports chain_id=${rpcChainId}`,
+    );
+  }
+  const walletClient = createWalletClient({
+    account: privateKeyToAccount(config.treasury_l1_private_key as Hex),
+    chain,
+    transport,
+  });
+  const rollupAddress = l1ContractAddresses.rollupAddress.toString() as Hex;
+  const outboxAddress = l1ContractAddresses.outboxAddress.toString() as Hex;
+
+  return {
+    async getMessageWitness(withdrawal) {
+      if ((await node.getProvenBlockNumber()) < withdrawal.l2_block_number) {
+        return undefined;
+      }
+      const block = await node.getBlock(withdrawal.l2_block_number);
+      if (!block) {
+        throw new Error(`L2 block ${withdrawal.l2_block_number} not found`);
+      }
+      const epoch = await publicClient.readContract({
+        address: rollupAddress,
+        abi: ROLLUP_ABI,
+        functionName: "getEpochAtSlot",
+        args: [BigInt(block.header.globalVariables.slotNumber.toString())],
+      });
+      const witness = await computeL2ToL1MembershipWitness(
+        node,
+        epoch,
+        Fr.fromHexString(withdrawal.message_hash),
+      );
+      if (!witness) {
+        return undefined;
+      }
+      return {
+        epoch,
+        leafIndex: BigInt(witness.leafIndex),
+        siblingPath: witness.siblingPath
+          .toBufferArray()
+          .map((sibling) => `0x${sibling.toString("hex")}`),
+      };
+    },
+
+    async getOperatorNonces() {
+      const address = walletClient.account.address;
+      const [mined, pending] = await Promise.all([
+        publicClient.getTransactionCount({ address, blockTag: "latest" }),
+        publicClient.getTransactionCount({ address, blockTag: "pending" }),
+      ]);
+      return { mined, pending };
+    },
+
+    submitClaim(withdrawal, nonce) {
+      const witness = requireWitness(withdrawal);
+      return walletClient.writeContract({
+        address: withdrawal.portal as Hex,
+        nonce,
+        abi: TOKEN_PORTAL_ABI,
+        functionName: "withdraw",
+        args: [
+          withdrawal.recipient as Hex,
+          BigInt(withdrawal.amount),
+          false,
+          witness.epoch,
+          witness.leafIndex,
+          witness.siblingPath as Hex[],
+        ],
+      });
+    },
+
+    async getClaimStatus(l1TxHash): Promise<L1ClaimStatus> {
+      try {
+        const receipt = await publicClient.getTransactionReceipt({ hash: l1TxHash as Hex });
+        return receipt.status === "success" ? "succeeded" : "reverted";
+      } catch (error) {
+        if (error instanceof TransactionReceiptNotFoundError) {
+          return "pending";
+        }
+        throw error;
+      }
+    },
+
+    isClaimed(withdrawal) {
+      const witness = requireWitness(withdrawal);
+      // The outbox numbers leaves across tree heights: 2^height + index.
+      const leafId = (1n << BigInt(witness.siblingPath.length)) + witness.leafIndex;
+      return publicClient.readContract({
+        address: outboxAddress,
+        abi: OUTBOX_ABI,
+        functionName: "hasMessageBeenConsumedAtEpoch",
+        args: [witness.epoch, leafId],
+      });
+    },
+  };
+}
@@ -0,0 +1,554 @@
+import { randomUUID } from "node:crypto";
+import { type Database, open, type RootDatabase } from "lmdb";
+import { z } from "zod";
+import type { Config } from "./config.js";
+import type { L1ExitResult, OperatorTreasuryPort } from "./operator-treasury.js";
+
+const L2_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const L1_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const UINT_DECIMAL_PATTERN = /^(0|[1-9][0-9]*)$/;
+const BYTES32_HEX_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+export const L1_WITHDRAWAL_DEFAULT_LIMIT = 100;
+export const L1_WITHDRAWAL_MAX_LIMIT = 1000;
+
+export const L1AddressSchema = z
+  .string()
+  .trim()
+  .regex(L1_ADDRESS_PATTERN, "must be a 20-byte 0x-prefixed Ethereum address")
+  .refine((value) => BigInt(value) !== 0n, "must be a non-zero Ethereum address")
+  .transform((value) => value.toLowerCase());
+
+/** Where an accepted asset leaves L2: its `TokenBridge` and the L1 `TokenPortal` paired with it. */
+export const L1BridgeSchema = z.object({
+  accepted_asset: z
+    .string()
+    .trim()
+    .regex(L2_ADDRESS_PATTERN, "must be a valid Aztec address")
+    .transform((value) => value.toLowerCase()),
+  bridge: z
+    .string()
+    .trim()
+    .regex(L2_ADDRESS_PATTERN, "must be a valid Aztec address")
+    .transform((value) => value.toLowerCase()),
+  portal: L1AddressSchema,
+});
+
+export const L1BridgesSchema = z
+  .array(L1BridgeSchema)
+  .default([])
+  .refine(
+    (bridges) => new Set(bridges.map((bridge) => bridge.accepted_asset)).size === bridges.length,
+    "treasury_l1_bridges must not repeat accepted_asset",
+  );
+
+export type L1Bridge = z.infer<typeof L1BridgeSchema>;
+
+/**
+ * Where a withdrawal is in the L2→L1 message lifecycle:
+ * - `awaiting_proof`: the L2 exit burned the tokens; its message waits for the epoch proof on L1.
+ * - `claimable`: the epoch is proven and the message's outbox witness is stored.
+ * - `claim_submitting`: a nonce is set aside for the portal `withdraw` transaction, which may
+ *   or may not have been broadcast.
+ * - `claim_submitted`: the portal `withdraw` transaction was sent and is not mined yet.
+ * - `claimed`: the tokens were released to the L1 recipient.
+ */
+export type L1WithdrawalStatus =
+  | "awaiting_proof"
+  | "claimable"
+  | "claim_submitting"
+  | "claim_submitted"
+  | "claimed";
+
+export const L1_WITHDRAWAL_STATUSES = [
+  "awaiting_proof",
+  "claimable",
+  "claim_submitting",
+  "claim_submitted",
+  "claimed",
+] as const satisfies readonly L1WithdrawalStatus[];
+
+const UintStringSchema = z
+  .string()
+  .regex(UINT_DECIMAL_PATTERN, "must be an unsigned integer string");
+const Bytes32HexSchema = z.string().regex(BYTES32_HEX_PATTERN, "must be a 32-byte hex string");
+const UnixSecondsSchema = z.number().int().nonnegative();
+
+/** Shape check applied to every persisted withdrawal read back from LMDB. */
+const PersistedL1WithdrawalSchema = z.object({
+  id: z.string().min(1),
+  status: z.enum(L1_WITHDRAWAL_STATUSES),
+  trigger: z.enum(["scheduled", "manual"]),
+  accepted_asset: z.string().regex(L2_ADDRESS_PATTERN),
+  bridge: z.string().regex(L2_ADDRESS_PATTERN),
+  portal: z.string().regex(L1_ADDRESS_PATTERN),
+  recipient: z.string().regex(L1_ADDRESS_PATTERN),
+  amount: UintStringSchema,
+  l2_tx_hash: Bytes32HexSchema,
+  l2_block_number: z.number().int().nonnegative(),
+  message_hash: Bytes32HexSchema,
+  epoch: UintStringSchema.optional(),
+  leaf_index: UintStringSchema.optional(),
+  sibling_path: z.array(Bytes32HexSchema).optional(),
+  /** Operator nonce of the latest claim, written before it is broadcast. */
+  claim_nonce: z.number().int().nonnegative().optional(),
+  l1_tx_hash: Bytes32HexSchema.optional(),
+  claim_attempts: z.number().int().nonnegative(),
+  last_error: z.string().optional(),
+  admin_key_id: z.string().optional(),
+  created_at: UnixSecondsSchema,
+  updated_at: UnixSecondsSchema,
+  claimed_at: UnixSecondsSchema.optional(),
+});
+
+/** Durable record of one L1 withdrawal. Amounts are decimal strings, times unix seconds. */
+export type L1WithdrawalRecord = z.infer<typeof PersistedL1WithdrawalSchema>;
+
+export interface L1WithdrawalQuery {
+  status?: L1WithdrawalStatus;
+  acceptedAsset?: string;
+  limit?: number;
+}
+
+export interface L1WithdrawalStore {
+  storageLabel: string;
+  get(id: string): L1WithdrawalRecord | undefined;
+  /** Returns matching withdrawals, newest first. */
+  query(query: L1WithdrawalQuery): L1WithdrawalRecord[];
+  /** Withdrawals not yet claimed on L1, oldest first. */
+  listOpen(): L1WithdrawalRecord[];
+  write(record: L1WithdrawalRecord): Promise<void>;
+  close(): Promise<void>;
+}
+
+type TimeIndexKey = [number, string];
+
+/**
+ * LMDB-backed withdrawal state, keyed by id with a `[created_at, id]` index for
+ * newest-first scans and an `open` index of withdrawals still to be claimed.
+ * Each withdrawal is written as soon as its L2 exit is mined, before anything
+ * waits on L1, so a restart resumes every unfinished claim. Records are
+ * validated when read back.
+ */
+export class LmdbL1WithdrawalStore implements L1WithdrawalStore {
+  readonly storageLabel: string;
+  private readonly root: RootDatabase;
+  private readonly entries: Database<unknown, string>;
+  private readonly byTime: Database<string, TimeIndexKey>;
+  private readonly openIds: Database<true, string>;
+
+  constructor(config: Pick<Config, "treasury_l1_withdrawal_state_path">) {
+    this.storageLabel = `lmdb://${config.treasury_l1_withdrawal_state_path}`;
+    this.root = open({ path: config.treasury_l1_withdrawal_state_path });
+    this.entries = this.root.openDB<unknown, string>({ name: "entries" });
+    this.byTime = this.root.openDB<string, TimeIndexKey>({ name: "by_time" });
+    this.openIds = this.root.openDB<true, string>({ name: "open" });
+  }
+
+  get(id: string): L1WithdrawalRecord | undefined {
+    const raw = this.entries.get(id);
+    return raw === undefined ? undefined : this.parse(id, raw);
+  }
+
+  query(query: L1WithdrawalQuery): L1WithdrawalRecord[] {
+    const limit = Math.min(query.limit ?? L1_WITHDRAWAL_DEFAULT_LIMIT, L1_WITHDRAWAL_MAX_LIMIT);
+    const results: L1WithdrawalRecord[] = [];
+    for (const { value: id } of this.byTime.getRange({ reverse: true })) {
+      const record = this.get(id);
+      if (
+        !record ||
+        (query.status && record.status !== query.status) ||
+        (query.acceptedAsset && record.accepted_asset !== query.acceptedAsset)
+      ) {
+        continue;
+      }
+      results.push(record);
+      if (results.length >= limit) {
+        break;
+      }
+    }
+    return results;
+  }
+
+  listOpen(): L1WithdrawalRecord[] {
+    const records: L1WithdrawalRecord[] = [];
+    for (const id of this.openIds.getKeys()) {
+      const record = this.get(id);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records.sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async write(record: L1WithdrawalRecord): Promise<void> {
+    await this.root.transaction(() => {
+      this.entries.put(record.id, record);
+      this.byTime.put([record.created_at, record.id], record.id);
+      if (record.status === "claimed") {
+        this.openIds.remove(record.id);
+      } else {
+        this.openIds.put(record.id, true);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.root.close();
+  }
+
+  private parse(id: string, raw: unknown): L1WithdrawalRecord {
+    const result = PersistedL1WithdrawalSchema.safeParse(raw);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(
+        `L1 withdrawal state is malformed (${this.storageLabel}, ${id}): ${issue.path.join(".") || "record"} ${issue.message}`,
+      );
+    }
+    return result.data;
+  }
+}
+
+/** Outbox membership witness of an L2→L1 message, available once its epoch is proven. */
+export interface L2ToL1MessageWitness {
+  epoch: bigint;
+  leafIndex: bigint;
+  siblingPath: string[];
+}
+
+export type L1ClaimStatus = "pending" | "succeeded" | "reverted";
+
+/** Transaction counts of the account paying for claims. */
+export interface L1OperatorNonces {
+  /** Transactions mined so far, i.e. the lowest nonce not yet used on chain. */
+  mined: number;
+  /** `mined` plus the account's transactions waiting in the mempool. */
+  pending: number;
+}
+
+/** L1 side of a withdrawal: proof availability, the portal claim and its outcome. */
+export interface L1WithdrawalChain {
+  /** The message's outbox witness, or undefined while its epoch is not proven on L1. */
+  getMessageWitness(
+    withdrawal: Pick<L1WithdrawalRecord, "l2_block_number" | "message_hash">,
+  ): Promise<L2ToL1MessageWitness | undefined>;
+  getOperatorNonces(): Promise<L1OperatorNonces>;
+  /** Sends the portal `withdraw` call at `nonce` and returns its transaction hash without waiting. */
+  submitClaim(withdrawal: L1WithdrawalRecord, nonce: number): Promise<string>;
+  getClaimStatus(l1TxHash: string): Promise<L1ClaimStatus>;
+  /** Whether the outbox already consumed the message, e.g. by an earlier claim. */
+  isClaimed(withdrawal: L1WithdrawalRecord): Promise<boolean>;
+}
+
+export interface L1SweepResult extends L1ExitResult {
+  withdrawalId: string;
+}
+
+export type L1WithdrawalTrackerConfig = Pick<
+  Config,
+  "treasury_l1_bridges" | "treasury_l1_withdrawal_poll_interval_seconds"
+>;
+
+interface L1WithdrawalLogger {
+  info(obj: object, msg: string): void;
+  warn(obj: object, msg: string): void;
+  error(obj: object, msg: string): void;
+}
+
+export interface L1WithdrawalTrackerDependencies {
+  logger?: L1WithdrawalLogger;
+  nowMs?: () => number;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Sweeps operator balances to L1 and sees each withdrawal through: the L2
+ * exit burns the tokens through the asset's `TokenBridge`, then a poll loop
+ * waits for the exit's epoch to be proven, stores the outbox witness, sends
+ * the portal claim and confirms it. Every step is persisted before the next
+ * one starts. Claims that fail or revert are retried on the next poll; a claim
+ * is never sent twice while an earlier one may still land. Each claim's nonce
+ * is recorded before it is broadcast, so after a crash between the two the
+ * operator's nonces show whether the claim went out.
+ */
+export class L1WithdrawalTracker {
+  private pollHandle?: NodeJS.Timeout;
+  private inFlightPoll?: Promise<void>;
+
+  constructor(
+    private readonly config: L1WithdrawalTrackerConfig,
+    private readonly treasury: OperatorTreasuryPort,
+    private readonly chain: L1WithdrawalChain,
+    private readonly store: L1WithdrawalStore,
+    private readonly deps: L1WithdrawalTrackerDependencies = {},
+  ) {}
+
+  start(): void {
+    if (this.pollHandle) {
+      return;
+    }
+    void this.poll();
+    this.pollHandle = setInterval(() => {
+      void this.poll();
+    }, this.config.treasury_l1_withdrawal_poll_interval_seconds * 1000);
+    this.pollHandle.unref();
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.pollHandle);
+    this.pollHandle = undefined;
+    await this.inFlightPoll;
+  }
+
+  bridgeFor(acceptedAsset: string): L1Bridge | undefined {
+    const normalized = acceptedAsset.toLowerCase();
+    return this.config.treasury_l1_bridges.find((bridge) => bridge.accepted_asset === normalized);
+  }
+
+  /** Exits `amount` (default: the whole balance) to `recipient` on L1 and starts tracking it. */
+  async withdraw(args: {
+    acceptedAsset: string;
+    amount?: bigint;
+    recipient: string;
+    trigger: L1WithdrawalRecord["trigger"];
+    adminKeyId?: string;
+  }): Promise<L1SweepResult> {
+    const bridge = this.bridgeFor(args.acceptedAsset);
+    if (!bridge) {
+      throw new Error("No L1 bridge configured for accepted_asset");
+    }
+    const result = await this.treasury.exitToL1({
+      acceptedAsset: bridge.accepted_asset,
+      amount: args.amount,
+      bridge: bridge.bridge,
+      recipient: args.recipient,
+    });
+    const now = this.nowSeconds();
+    const record: L1WithdrawalRecord = {
+      id: randomUUID(),
+      status: "awaiting_proof",
+      trigger: args.trigger,
+      accepted_asset: bridge.accepted_asset,
+      bridge: bridge.bridge,
+      portal: bridge.portal,
+      recipient: result.destination.toLowerCase(),
+      amount: result.sweptAmount,
+      l2_tx_hash: result.txHash,
+      l2_block_number: result.l2BlockNumber,
+      message_hash: result.messageHash,
+      claim_attempts: 0,
+      ...(args.adminKeyId ? { admin_key_id: args.adminKeyId } : {}),
+      created_at: now,
+      updated_at: now,
+    };
+    try {
+      await this.store.write(record);
+    } catch (error) {
+      // The tokens are already burned on L2: log everything needed to claim by hand.
+      this.deps.logger?.error(
+        { event: "l1_withdrawal_record_failed", withdrawal: record, err: errorMessage(error) },
+        "Failed to persist L1 withdrawal; claim it manually",
+      );
+      throw error;
+    }
+    this.deps.logger?.info(
+      {
+        event: "l1_withdrawal_started",
+        withdrawal_id: record.id,
+        accepted_asset: record.accepted_asset,
+        recipient: record.recipient,
+        amount: record.amount,
+        l2_tx_hash: record.l2_tx_hash,
+      },
+      "Started L1 withdrawal",
+    );
+    return { ...result, withdrawalId: record.id };
+  }
+
+  query(query: L1WithdrawalQuery): L1WithdrawalRecord[] {
+    return this.store.query(query);
+  }
+
+  /** Moves every unclaimed withdrawal as far along as it can go; overlapping calls share one run. */
+  poll(): Promise<void> {
+    this.inFlightPoll ??= this.advanceAll().finally(() => {
+      this.inFlightPoll = undefined;
+    });
+    return this.inFlightPoll;
+  }
+
+  private async advanceAll(): Promise<void> {
+    let open: L1WithdrawalRecord[];
+    try {
+      open = this.store.listOpen();
+    } catch (error) {
+      this.deps.logger?.error(
+        { event: "l1_withdrawal_state_unreadable", err: errorMessage(error) },
+        "Failed to read L1 withdrawal state",
+      );
+      return;
+    }
+    for (const withdrawal of open) {
+      try {
+        await this.advance(withdrawal);
+      } catch (error) {
+        await this.recordError(withdrawal.id, error);
+      }
+    }
+  }
+
+  private async advance(withdrawal: L1WithdrawalRecord): Promise<void> {
+    let current = withdrawal;
+    if (current.status === "awaiting_proof") {
+      const witness = await this.chain.getMessageWitness(current);
+      if (!witness) {
+        return;
+      }
+      current = await this.update(current, {
+        status: "claimable",
+        epoch: witness.epoch.toString(),
+        leaf_index: witness.leafIndex.toString(),
+        sibling_path: witness.siblingPath,
+      });
+      this.log(current, "l1_withdrawal_claimable", "L1 withdrawal proven and claimable");
+    }
+    if (current.status === "claim_submitting") {
+      const next = await this.resumeSubmission(current);
+      if (!next) {
+        return;
+      }
+      current = next;
+    }
+    if (current.status === "claim_submitted" && current.l1_tx_hash) {
+      const status = await this.chain.getClaimStatus(current.l1_tx_hash);
+      if (status === "pending") {
+        return;
+      }
+      if (status === "succeeded") {
+        await this.markClaimed(current);
+        return;
+      }
+      current = await this.update(current, {
+        status: "claimable",
+        last_error: `L1 claim transaction ${current.l1_tx_hash} reverted`,
+      });
+    }
+    if (current.status === "claimable") {
+      await this.claim(current);
+    }
+  }
+
+  private async claim(withdrawal: L1WithdrawalRecord): Promise<void> {
+    if (await this.chain.isClaimed(withdrawal)) {
+      await this.markClaimed(withdrawal);
+      return;
+    }
+    const { pending } = await this.chain.getOperatorNonces();
+    const submitting = await this.update(withdrawal, {
+      status: "claim_submitting",
+      claim_nonce: pending,
+      claim_attempts: withdrawal.claim_attempts + 1,
+    });
+    await this.submit(submitting, pending);
+  }
+
+  private async submit(withdrawal: L1WithdrawalRecord, nonce: number): Promise<void> {
+    const l1TxHash = await this.chain.submitClaim(withdrawal, nonce);
+    const submitted = await this.update(withdrawal, {
+      status: "claim_submitted",
+      l1_tx_hash: l1TxHash,
+    });
+    this.log(submitted, "l1_withdrawal_claim_submitted", "Submitted L1 withdrawal claim");
+  }
+
+  /**
+   * Settles a claim whose broadcast was never confirmed, by its nonce: once
+   * the nonce is mined the outbox tells whether the claim landed; while a
+   * transaction holds it in the mempool it is left alone; otherwise it never
+   * went out and is sent again at the same nonce. Resolves with the record to
+   * carry on from, or undefined to wait for the next poll.
+   */
+  private async resumeSubmission(
+    withdrawal: L1WithdrawalRecord,
+  ): Promise<L1WithdrawalRecord | undefined> {
+    const nonce = withdrawal.claim_nonce;
+    if (nonce === undefined) {
+      throw new Error(`L1 withdrawal ${withdrawal.id} is submitting a claim without a nonce`);
+    }
+    const { mined, pending } = await this.chain.getOperatorNonces();
+    if (mined > nonce) {
+      if (await this.chain.isClaimed(withdrawal)) {
+        await this.markClaimed(withdrawal);
+        return undefined;
+      }
+      return this.update(withdrawal, {
+        status: "claimable",
+        last_error: `L1 claim at nonce ${nonce} did not consume the message`,
+      });
+    }
+    if (pending <= nonce) {
+      await this.submit(withdrawal, nonce);
+    }
+    return undefined;
+  }
+
+  private async markClaimed(withdrawal: L1WithdrawalRecord): Promise<void> {
+    const claimed = await this.update(withdrawal, {
+      status: "claimed",
+      claimed_at: this.nowSeconds(),
+      last_error: undefined,
+    });
+    this.log(claimed, "l1_withdrawal_claimed", "L1 withdrawal claimed");
+  }
+
+  private async recordError(id: string, error: unknown): Promise<void> {
+    this.deps.logger?.warn(
+      { event: "l1_withdrawal_step_failed", withdrawal_id: id, err: errorMessage(error) },
+      "L1 withdrawal step failed; retrying on the next poll",
+    );
+    try {
+      const current = this.store.get(id);
+      if (current) {
+        await this.update(current, { last_error: errorMessage(error) });
+      }
+    } catch (writeError) {
+      this.deps.logger?.warn(
+        { event: "l1_withdrawal_record_failed", withdrawal_id: id, err: errorMessage(writeError) },
+        "Failed to record L1 withdrawal error",
+      );
+    }
+  }
+
+  private async update(
+    withdrawal: L1WithdrawalRecord,
+    changes: Partial<L1WithdrawalRecord>,
+  ): Promise<L1WithdrawalRecord> {
+    const next: L1WithdrawalRecord = { ...withdrawal, ...changes, updated_at: this.nowSeconds() };
+    if (next.last_error === undefined) {
+      delete next.last_error;
+    }
+    await this.store.write(next);
+    return next;
+  }
+
+  private log(withdrawal: L1WithdrawalRecord, event: string, message: string): void {
+    this.deps.logger?.info(
+      {
+        event,
+        withdrawal_id: withdrawal.id,
+        accepted_asset: withdrawal.accepted_asset,
+        recipient: withdrawal.recipient,
+        amount: withdrawal.amount,
+        ...(withdrawal.l1_tx_hash ? { l1_tx_hash: withdrawal.l1_tx_hash } : {}),
+      },
+      message,
+    );
+  }
+
+  private nowSeconds(): number {
+    return Math.floor((this.deps.nowMs ?? Date.now)() / 1000);
+  }
+}
@@ -3,6 +3,9 @@ export type QuoteOutcome =
   | "bad_request"
   | "unauthorized"
   | "rate_limited"
+  | "limit_exceeded"
+  | "user_denied"
+  | "price_unavailable"
   | "internal_error";
 
 const QUOTE_OUTCOMES: QuoteOutcome[] = [
@@ -10,6 +13,9 @@ const QUOTE_OUTCOMES: QuoteOutcome[] = [
   "bad_request",
   "unauthorized",
   "rate_limited",
+  "limit_exceeded",
+  "user_denied",
+  "price_unavailable",
   "internal_error",
 ];
 
@@ -17,9 +23,21 @@ const ERROR_OUTCOMES: Exclude<QuoteOutcome, "success">[] = [
   "bad_request",
   "unauthorized",
   "rate_limited",
+  "limit_exceeded",
+  "user_denied",
+  "price_unavailable",
   "internal_error",
 ];
 
+type SettlementOutcome = "settled" | "expired";
+type TreasurySweepStatus = "succeeded" | "failed";
+
+interface AssetConversionState {
+  issued: number;
+  settled: number;
+  expired: number;
+}
+
 const LATENCY_BUCKETS_SECONDS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2, 5];
 
 interface QuoteLatencyHistogramState {
@@ -40,6 +58,14 @@ export class AttestationMetrics {
   private readonly quoteRequestsTotal = new Map<QuoteOutcome, number>();
   private readonly quoteErrorsTotal = new Map<Exclude<QuoteOutcome, "success">, number>();
   private readonly quoteLatency = new Map<QuoteOutcome, QuoteLatencyHistogramState>();
+  private readonly conversionByAsset = new Map<string, AssetConversionState>();
+  private settlementBlock?: number;
+  private readonly operatorBalances = new Map<string, string>();
+  private readonly treasurySweeps = new Map<string, number>();
+  private readonly feeJuiceReserves = new Map<
+    string,
+    { balance?: string; surchargeBips: number }
+  >();
 
   constructor() {
     for (const outcome of QUOTE_OUTCOMES) {
@@ -74,6 +100,133 @@ export class AttestationMetrics {
     }
   }
 
+  observeQuoteIssued(acceptedAsset: string): void {
+    this.conversionFor(acceptedAsset).issued += 1;
+  }
+
+  observeQuoteSettlement(acceptedAsset: string, outcome: SettlementOutcome): void {
+    this.conversionFor(acceptedAsset)[outcome] += 1;
+  }
+
+  setSettlementBlock(blockNumber: number): void {
+    this.settlementBlock = blockNumber;
+  }
+
+  setOperatorBalance(acceptedAsset: string, balance: string): void {
+    this.operatorBalances.set(acceptedAsset, balance);
+  }
+
+  setFeeJuiceReserve(fpcAddress: string, balance: string | undefined, surchargeBips: number): void {
+    this.feeJuiceReserves.set(fpcAddress, { balance, surchargeBips });
+  }
+
+  observeTreasurySweep(acceptedAsset: string, status: TreasurySweepStatus): void {
+    const key = `${acceptedAsset}|${status}`;
+    this.treasurySweeps.set(key, (this.treasurySweeps.get(key) ?? 0) + 1);
+  }
+
+  private conversionFor(acceptedAsset: string): AssetConversionState {
+    let state = this.conversionByAsset.get(acceptedAsset);
+    if (!state) {
+      state = { issued: 0, settled: 0, expired: 0 };
+      this.conversionByAsset.set(acceptedAsset, state);
+    }
+    return state;
+  }
+
+  private renderConversion(lines: string[]): void {
+    const assets = [...this.conversionByAsset.entries()].sort(([left], [right]) =>
+      left.localeCompare(right),
+    );
+    const counters: Array<[keyof AssetConversionState, string, string]> = [
+      ["issued", "attestation_quotes_issued_total", "Count of signed quotes by accepted asset."],
+      [
+        "settled",
+        "attestation_quotes_settled_total",
+        "Count of quotes whose hash was nullified on-chain, by accepted asset.",
+      ],
+      [
+        "expired",
+        "attestation_quotes_expired_total",
+        "Count of quotes that expired unused, by accepted asset.",
+      ],
+    ];
+    for (const [field, name, help] of counters) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+      for (const [asset, state] of assets) {
+        lines.push(`${name}{accepted_asset="${asset}"} ${state[field]}`);
+      }
+    }
+
+    lines.push(
+      "# HELP attestation_quote_conversion_ratio Settled quotes divided by issued quotes, by accepted asset.",
+      "# TYPE attestation_quote_conversion_ratio gauge",
+    );
+    for (const [asset, state] of assets) {
+      const ratio = state.issued === 0 ? 0 : state.settled / state.issued;
+      lines.push(`attestation_quote_conversion_ratio{accepted_asset="${asset}"} ${ratio}`);
+    }
+
+    if (this.settlementBlock !== undefined) {
+      lines.push(
+        "# HELP attestation_settlement_last_block Last L2 block scanned for quote settlements.",
+        "# TYPE attestation_settlement_last_block gauge",
+        `attestation_settlement_last_block ${this.settlementBlock}`,
+      );
+    }
+  }
+
+  private renderTreasury(lines: string[]): void {
+    if (this.operatorBalances.size > 0) {
+      lines.push(
+        "# HELP attestation_operator_private_balance Operator private token balance, by accepted asset.",
+        "# TYPE attestation_operator_private_balance gauge",
+      );
+      for (const [asset, balance] of [...this.operatorBalances.entries()].sort()) {
+        lines.push(`attestation_operator_private_balance{accepted_asset="${asset}"} ${balance}`);
+      }
+    }
+    if (this.treasurySweeps.size > 0) {
+      lines.push(
+        "# HELP attestation_treasury_sweeps_total Count of treasury sweep attempts, by accepted asset and status.",
+        "# TYPE attestation_treasury_sweeps_total counter",
+      );
+      for (const [key, count] of [...this.treasurySweeps.entries()].sort()) {
+        const [asset, status] = key.split("|");
+        lines.push(
+          `attestation_treasury_sweeps_total{accepted_asset="${asset}",status="${status}"} ${count}`,
+        );
+      }
+    }
+  }
+
+  private renderReserves(lines: string[]): void {
+    if (this.feeJuiceReserves.size === 0) {
+      return;
+    }
+    const reserves = [...this.feeJuiceReserves.entries()].sort(([left], [right]) =>
+      left.localeCompare(right),
+    );
+    lines.push(
+      "# HELP attestation_fpc_fee_juice_balance Last read Fee Juice balance of the FPC, by FPC.",
+      "# TYPE attestation_fpc_fee_juice_balance gauge",
+    );
+    for (const [fpc, reserve] of reserves) {
+      if (reserve.balance !== undefined) {
+        lines.push(`attestation_fpc_fee_juice_balance{fpc_address="${fpc}"} ${reserve.balance}`);
+      }
+    }
+    lines.push(
+      "# HELP attestation_reserve_surcharge_bips fee_bips adjustment applied from the Fee Juice reserve curve, by FPC.",
+      "# TYPE attestation_reserve_surcharge_bips gauge",
+    );
+    for (const [fpc, reserve] of reserves) {
+      lines.push(
+        `attestation_reserve_surcharge_bips{fpc_address="${fpc}"} ${reserve.surchargeBips}`,
+      );
+    }
+  }
+
   renderPrometheus(): string {
     const lines: string[] = [];
 
@@ -117,6 +270,10 @@ export class AttestationMetrics {
       );
     }
 
+    this.renderConversion(lines);
+    this.renderTreasury(lines);
+    this.renderReserves(lines);
+
     return `${lines.join("\n")}\n`;
   }
 }
@@ -1,9 +1,11 @@
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { Fr } from "@aztec/aztec.js/fields";
 import { type AztecNode, createAztecNodeClient, waitForNode } from "@aztec/aztec.js/node";
+import { EthAddress } from "@aztec/foundation/eth-address";
 import { deriveSigningKey } from "@aztec/stdlib/keys";
 import { EmbeddedWallet } from "@aztec/wallets/embedded";
 import { TokenContract } from "../../../codegen/Token.js";
+import { TokenBridgeContract } from "../../../codegen/TokenBridge.js";
 import type { Config } from "./config.js";
 import { normalizeAztecAddress } from "./config.js";
 
@@ -22,6 +24,14 @@ export interface SweepResult {
   txHash: string;
 }
 
+/** A sweep that left L2 through a `TokenBridge`; `destination` is the L1 recipient. */
+export interface L1ExitResult extends SweepResult {
+  bridge: string;
+  l2BlockNumber: number;
+  /** The exit's L2→L1 message, as stored in the outbox tree. */
+  messageHash: string;
+}
+
 export interface OperatorTreasuryPort {
   registerSender(address: AztecAddress): Promise<void>;
   getPrivateBalances(
@@ -32,9 +42,30 @@ export interface OperatorTreasuryPort {
     amount?: bigint;
     destination: string;
   }): Promise<SweepResult>;
+  /** Burns operator private balance through `bridge`, sending an L2→L1 message to `recipient`. */
+  exitToL1(args: {
+    acceptedAsset: string;
+    amount?: bigint;
+    bridge: string;
+    recipient: string;
+  }): Promise<L1ExitResult>;
   stop(): Promise<void>;
 }
 
+/** Defaults to the whole balance; rejects amounts the balance cannot cover. */
+function resolveSweepAmount(requested: bigint | undefined, balance: bigint): bigint {
+  const amount = requested ?? balance;
+  if (amount <= 0n) {
+    throw new Error("sweep amount must be greater than zero");
+  }
+  if (amount > balance) {
+    throw new Error(
+      `sweep amount ${amount.toString()} exceeds operator private balance ${balance.toString()}`,
+    );
+  }
+  return amount;
+}
+
 export class OperatorTreasury implements OperatorTreasuryPort {
   private readonly senderAliases = new Set<string>();
   private initPromise?: Promise<TreasuryContext>;
@@ -71,12 +102,7 @@ export class OperatorTreasury implements OperatorTreasuryPort {
     const balances = await Promise.all(
       uniqueAddresses.map(async (address) => {
         const token = await this.attachTokenContract(context, address);
-        const { result: balanceRaw } = await token.methods
-          .balance_of_private(context.operatorAddress)
-          .simulate({
-            from: context.operatorAddress,
-          });
-        const balance = BigInt(balanceRaw.toString());
+        const balance = await this.readPrivateBalance(context, token);
         return {
           address,
           balance: balance.toString(),
@@ -100,21 +126,8 @@ export class OperatorTreasury implements OperatorTreasuryPort {
     }
 
     const token = await this.attachTokenContract(context, acceptedAsset);
-    const { result: balanceBeforeRaw } = await token.methods
-      .balance_of_private(context.operatorAddress)
-      .simulate({
-        from: context.operatorAddress,
-      });
-    const balanceBefore = BigInt(balanceBeforeRaw.toString());
-    const amount = args.amount ?? balanceBefore;
-    if (amount <= 0n) {
-      throw new Error("sweep amount must be greater than zero");
-    }
-    if (amount > balanceBefore) {
-      throw new Error(
-        `sweep amount ${amount.toString()} exceeds operator private balance ${balanceBefore.toString()}`,
-      );
-    }
+    const balanceBefore = await this.readPrivateBalance(context, token);
+    const amount = resolveSweepAmount(args.amount, balanceBefore);
 
     const { receipt } = await token.methods
       .transfer_private_to_private(context.operatorAddress, destination, amount, Fr.random())
@@ -123,20 +136,73 @@ export class OperatorTreasury implements OperatorTreasuryPort {
         wait: { timeout: 180 },
       });
 
-    const { result: balanceAfterRaw } = await token.methods
-      .balance_of_private(context.operatorAddress)
-      .simulate({
+    const balanceAfter = await this.readPrivateBalance(context, token);
+
+    return {
+      acceptedAsset,
+      destination: destination.toString(),
+      sweptAmount: amount.toString(),
+      balanceBefore: balanceBefore.toString(),
+      balanceAfter: balanceAfter.toString(),
+      txHash: receipt.txHash.toString(),
+    };
+  }
+
+  async exitToL1(args: {
+    acceptedAsset: string;
+    amount?: bigint;
+    bridge: string;
+    recipient: string;
+  }): Promise<L1ExitResult> {
+    const context = await this.getContext();
+    const acceptedAsset = normalizeAztecAddress(args.acceptedAsset);
+    const recipient = EthAddress.fromString(args.recipient);
+    if (recipient.isZero()) {
+      throw new Error("destination must be a non-zero Ethereum address");
+    }
+
+    const token = await this.attachTokenContract(context, acceptedAsset);
+    const bridge = await this.attachBridgeContract(context, args.bridge);
+    const balanceBefore = await this.readPrivateBalance(context, token);
+    const amount = resolveSweepAmount(args.amount, balanceBefore);
+
+    // The bridge burns the tokens on the operator's behalf, authorized by an authwit.
+    const nonce = Fr.random();
+    const burnCall = await token.methods
+      .burn_private(context.operatorAddress, amount, nonce)
+      .getFunctionCall();
+    const burnAuthwit = await context.wallet.createAuthWit(context.operatorAddress, {
+      caller: bridge.address,
+      call: burnCall,
+    });
+    // caller_on_l1 is zero so any L1 account may submit the claim; the tokens still go to recipient.
+    const { receipt } = await bridge.methods
+      .exit_to_l1_private(token.address, recipient, amount, EthAddress.ZERO, nonce)
+      .send({
         from: context.operatorAddress,
+        authWitnesses: [burnAuthwit],
+        wait: { timeout: 180 },
       });
-    const balanceAfter = BigInt(balanceAfterRaw.toString());
+
+    const txEffect = await context.node.getTxEffect(receipt.txHash);
+    const [message] = txEffect?.data.l2ToL1Msgs ?? [];
+    if (!txEffect || !message) {
+      throw new Error(
+        `L1 exit transaction ${receipt.txHash.toString()} has no L2 to L1 message; check the bridge's portal configuration`,
+      );
+    }
+    const balanceAfter = await this.readPrivateBalance(context, token);
 
     return {
       acceptedAsset,
-      destination: destination.toString(),
+      destination: recipient.toString(),
       sweptAmount: amount.toString(),
       balanceBefore: balanceBefore.toString(),
       balanceAfter: balanceAfter.toString(),
       txHash: receipt.txHash.toString(),
+      bridge: bridge.address.toString(),
+      l2BlockNumber: Number(txEffect.l2BlockNumber),
+      messageHash: message.toString(),
     };
   }
 
@@ -169,6 +235,9 @@ export class OperatorTreasury implements OperatorTreasuryPort {
       },
     });
 
+    if (!this.config.operator_secret_key) {
+      throw new Error("Operator treasury requires the operator secret key (quote_signer=local)");
+    }
     const secret = Fr.fromHexString(this.config.operator_secret_key);
     const signingKey = deriveSigningKey(secret);
     const account = await wallet.createSchnorrAccount(
@@ -195,6 +264,16 @@ export class OperatorTreasury implements OperatorTreasuryPort {
     };
   }
 
+  private async readPrivateBalance(
+    context: TreasuryContext,
+    token: TokenContract,
+  ): Promise<bigint> {
+    const { result } = await token.methods.balance_of_private(context.operatorAddress).simulate({
+      from: context.operatorAddress,
+    });
+    return BigInt(result.toString());
+  }
+
   private async attachTokenContract(
     context: TreasuryContext,
     address: string,
@@ -207,4 +286,17 @@ export class OperatorTreasury implements OperatorTreasuryPort {
     await context.wallet.registerContract(instance, TokenContract.artifact);
     return TokenContract.at(tokenAddress, context.wallet);
   }
+
+  private async attachBridgeContract(
+    context: TreasuryContext,
+    address: string,
+  ): Promise<TokenBridgeContract> {
+    const bridgeAddress = AztecAddress.fromString(address);
+    const instance = await context.node.getContract(bridgeAddress);
+    if (!instance) {
+      throw new Error(`Token bridge contract not found at ${bridgeAddress.toString()}`);
+    }
+    await context.wallet.registerContract(instance, TokenBridgeContract.artifact);
+    return TokenBridgeContract.at(bridgeAddress, context.wallet);
+  }
 }
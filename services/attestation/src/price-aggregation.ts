@@ -0,0 +1,215 @@
+import type { PriceFeedRate } from "./price-feeds.js";
+
+const MAX_RATE_SCALE_DIGITS = 15;
+/** Fixed-point scale used while combining rates from several sources. */
+const AGGREGATION_SCALE = 10n ** 18n;
+
+export type PriceAggregationMethod = "median" | "twap" | "weighted_mean";
+
+export interface PriceSourceSample {
+  name: string;
+  weight: number;
+  rate?: PriceFeedRate;
+  error?: string;
+}
+
+export interface PriceSourceReport {
+  name: string;
+  weight: number;
+  status: "used" | "outlier" | "error";
+  rate_num?: number;
+  rate_den?: number;
+  deviation_bips?: number;
+  error?: string;
+}
+
+/** Audit record describing how an aggregated rate was derived. */
+export interface PriceAggregation {
+  method: PriceAggregationMethod;
+  rate_num?: number;
+  rate_den?: number;
+  consensus_rate_num?: number;
+  consensus_rate_den?: number;
+  sources: PriceSourceReport[];
+}
+
+export interface PriceAggregationOptions {
+  method: PriceAggregationMethod;
+  maxOutlierBips: number;
+  minSources: number;
+}
+
+/** Raised when too few sources survive; carries the partial audit record. */
+export class PriceAggregationError extends Error {
+  constructor(
+    message: string,
+    readonly aggregation: PriceAggregation,
+  ) {
+    super(message);
+    this.name = "PriceAggregationError";
+  }
+}
+
+function gcd(left: bigint, right: bigint): bigint {
+  let a = left;
+  let b = right;
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Reduces a positive fraction and clamps its denominator to 15 decimal digits
+ * so both terms fit the safe-integer range used by asset policies.
+ */
+export function reduceRate(numerator: bigint, denominator: bigint): PriceFeedRate {
+  let num = numerator;
+  let den = denominator;
+  const maxDen = 10n ** BigInt(MAX_RATE_SCALE_DIGITS);
+  if (den > maxDen) {
+    num = (num * maxDen) / den;
+    den = maxDen;
+  }
+  if (num <= 0n) {
+    throw new Error("price feed value must be a positive decimal number");
+  }
+
+  const divisor = gcd(num, den);
+  num /= divisor;
+  den /= divisor;
+  if (num > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error("price feed value exceeds the supported rate range");
+  }
+  return { rate_num: Number(num), rate_den: Number(den) };
+}
+
+/** Absolute deviation of `next` from `previous`, in basis points of `previous`. */
+export function rateDeviationBips(previous: PriceFeedRate, next: PriceFeedRate): number {
+  const previousCross = BigInt(previous.rate_num) * BigInt(next.rate_den);
+  const nextCross = BigInt(next.rate_num) * BigInt(previous.rate_den);
+  const delta = nextCross > previousCross ? nextCross - previousCross : previousCross - nextCross;
+  return Number((delta * 10000n) / previousCross);
+}
+
+function toScaled(rate: PriceFeedRate): bigint {
+  return (BigInt(rate.rate_num) * AGGREGATION_SCALE) / BigInt(rate.rate_den);
+}
+
+function fromScaled(value: bigint): PriceFeedRate {
+  return reduceRate(value, AGGREGATION_SCALE);
+}
+
+function medianScaled(values: bigint[]): bigint {
+  const sorted = [...values].sort((left, right) => (left < right ? -1 : left > right ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  if (sorted.length % 2 === 1) {
+    return sorted[middle];
+  }
+  return (sorted[middle - 1] + sorted[middle]) / 2n;
+}
+
+function weightedMeanScaled(entries: Array<{ scaled: bigint; weight: number }>): bigint {
+  let weightedSum = 0n;
+  let totalWeight = 0n;
+  for (const { scaled, weight } of entries) {
+    weightedSum += scaled * BigInt(weight);
+    totalWeight += BigInt(weight);
+  }
+  return weightedSum / totalWeight;
+}
+
+function withRate(report: PriceSourceReport, rate: PriceFeedRate): PriceSourceReport {
+  return { ...report, rate_num: rate.rate_num, rate_den: rate.rate_den };
+}
+
+/**
+ * Combines source samples into one rate.
+ *
+ * The consensus is the median of every source that answered. Sources further
+ * than `maxOutlierBips` from it are rejected, and the survivors are combined
+ * with the configured method (`twap` combines by median here; the caller
+ * smooths the result over time).
+ */
+export function aggregatePriceSources(
+  samples: PriceSourceSample[],
+  options: PriceAggregationOptions,
+): { rate: PriceFeedRate; aggregation: PriceAggregation } {
+  const answered = samples.filter(
+    (sample): sample is PriceSourceSample & { rate: PriceFeedRate } => sample.rate !== undefined,
+  );
+  const reports: PriceSourceReport[] = samples
+    .filter((sample) => sample.rate === undefined)
+    .map(({ name, weight, error }) => ({ name, weight, status: "error", error }));
+  const aggregation: PriceAggregation = { method: options.method, sources: reports };
+
+  if (answered.length === 0) {
+    throw new PriceAggregationError("no price sources returned a rate", aggregation);
+  }
+
+  const consensus = fromScaled(medianScaled(answered.map((sample) => toScaled(sample.rate))));
+  aggregation.consensus_rate_num = consensus.rate_num;
+  aggregation.consensus_rate_den = consensus.rate_den;
+
+  const kept: Array<{ scaled: bigint; weight: number }> = [];
+  for (const { name, weight, rate } of answered) {
+    const deviationBips = rateDeviationBips(consensus, rate);
+    const status = deviationBips > options.maxOutlierBips ? "outlier" : "used";
+    reports.push(withRate({ name, weight, status, deviation_bips: deviationBips }, rate));
+    if (status === "used") {
+      kept.push({ scaled: toScaled(rate), weight });
+    }
+  }
+
+  if (kept.length < options.minSources) {
+    throw new PriceAggregationError(
+      `only ${kept.length} of ${samples.length} price sources agree (min_sources=${options.minSources})`,
+      aggregation,
+    );
+  }
+
+  const rate = fromScaled(
+    options.method === "weighted_mean"
+      ? weightedMeanScaled(kept)
+      : medianScaled(kept.map(({ scaled }) => scaled)),
+  );
+  aggregation.rate_num = rate.rate_num;
+  aggregation.rate_den = rate.rate_den;
+  return { rate, aggregation };
+}
+
+/** Time-weighted average over a sliding window of aggregated samples. */
+export class TwapWindow {
+  private readonly samples: Array<{ atMs: number; scaled: bigint }> = [];
+
+  constructor(private readonly windowMs: number) {}
+
+  record(rate: PriceFeedRate, atMs: number): PriceFeedRate {
+    this.samples.push({ atMs, scaled: toScaled(rate) });
+    const cutoff = atMs - this.windowMs;
+    // Keep the newest sample at or before the cutoff: it priced the start of the window.
+    while (this.samples.length > 1 && this.samples[1].atMs <= cutoff) {
+      this.samples.shift();
+    }
+    return this.average(atMs);
+  }
+
+  private average(nowMs: number): PriceFeedRate {
+    const windowStart = nowMs - this.windowMs;
+    let weightedSum = 0n;
+    let totalMs = 0n;
+    for (const [index, sample] of this.samples.entries()) {
+      const startMs = Math.max(sample.atMs, windowStart);
+      const endMs = this.samples[index + 1]?.atMs ?? nowMs;
+      if (endMs <= startMs) {
+        continue;
+      }
+      const durationMs = BigInt(endMs - startMs);
+      weightedSum += sample.scaled * durationMs;
+      totalMs += durationMs;
+    }
+
+    const latest = this.samples[this.samples.length - 1];
+    return fromScaled(totalMs === 0n ? latest.scaled : weightedSum / totalMs);
+  }
+}
@@ -0,0 +1,502 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import type { Config, SupportedAssetPolicy } from "./config.js";
+import {
+  aggregatePriceSources,
+  type PriceAggregation,
+  PriceAggregationError,
+  type PriceSourceSample,
+  rateDeviationBips,
+  reduceRate,
+  TwapWindow,
+} from "./price-aggregation.js";
+
+const DECIMAL_PATTERN = /^([0-9]+)(?:\.([0-9]+))?(?:[eE]([+-]?[0-9]+))?$/;
+
+const positiveIntegerField = (label: string) =>
+  z
+    .number({
+      required_error: `${label} must be a positive integer`,
+      invalid_type_error: `${label} must be a positive integer`,
+    })
+    .int(`${label} must be a positive integer`)
+    .positive(`${label} must be a positive integer`);
+
+const PriceFeedGuardSchema = z.object({
+  /** Per-feed override of price_feed_max_staleness_seconds. */
+  max_staleness_seconds: positiveIntegerField("max_staleness_seconds").optional(),
+  /** Per-feed override of price_feed_max_deviation_bips. */
+  max_deviation_bips: positiveIntegerField("max_deviation_bips").optional(),
+});
+
+const JsonPathSchema = z
+  .string({ required_error: "price_feed.json_path is required" })
+  .trim()
+  .min(1, "price_feed.json_path is required");
+
+const FixedPriceSourceSchema = z.object({
+  type: z.literal("fixed"),
+  rate_num: positiveIntegerField("price_feed.rate_num"),
+  rate_den: positiveIntegerField("price_feed.rate_den"),
+});
+
+const HttpPriceSourceSchema = z.object({
+  type: z.literal("http"),
+  url: z.string().url("price_feed.url must be a valid URL"),
+  json_path: JsonPathSchema,
+});
+
+const FilePriceSourceSchema = z.object({
+  type: z.literal("file"),
+  path: z.string().trim().min(1, "price_feed.path is required"),
+  json_path: JsonPathSchema,
+});
+
+const AggregateSourceFieldsSchema = z.object({
+  /** Label used in aggregation audit records. */
+  name: z.string().trim().min(1, "price_feed.sources[].name is required"),
+  /** Relative weight for the weighted_mean method. */
+  weight: positiveIntegerField("price_feed.sources[].weight").default(1),
+});
+
+const PriceSourceSpecSchema = z.discriminatedUnion("type", [
+  FixedPriceSourceSchema.merge(AggregateSourceFieldsSchema),
+  HttpPriceSourceSchema.merge(AggregateSourceFieldsSchema),
+  FilePriceSourceSchema.merge(AggregateSourceFieldsSchema),
+]);
+
+const AggregatePriceFeedSchema = z.object({
+  type: z.literal("aggregate"),
+  method: z.enum(["median", "twap", "weighted_mean"]).default("median"),
+  /** Sources further than this from the median of all answers are rejected. */
+  max_outlier_bips: positiveIntegerField("price_feed.max_outlier_bips").default(500),
+  /** Minimum number of sources that must survive outlier rejection. */
+  min_sources: positiveIntegerField("price_feed.min_sources").default(1),
+  /** Averaging window for the twap method. */
+  twap_window_seconds: positiveIntegerField("price_feed.twap_window_seconds").default(300),
+  sources: z
+    .array(PriceSourceSpecSchema)
+    .min(1, "price_feed.sources must list at least one source")
+    .refine(
+      (sources) => new Set(sources.map((source) => source.name)).size === sources.length,
+      "price_feed.sources names must be unique",
+    ),
+});
+
+export const PriceFeedSpecSchema = z.discriminatedUnion("type", [
+  FixedPriceSourceSchema.merge(PriceFeedGuardSchema),
+  HttpPriceSourceSchema.merge(PriceFeedGuardSchema),
+  FilePriceSourceSchema.merge(PriceFeedGuardSchema),
+  AggregatePriceFeedSchema.merge(PriceFeedGuardSchema),
+]);
+
+export type PriceFeedSpec = z.infer<typeof PriceFeedSpecSchema>;
+export type PriceSourceSpec = z.infer<typeof PriceSourceSpecSchema>;
+type AggregatePriceFeedSpec = Extract<PriceFeedSpec, { type: "aggregate" }>;
+
+/** Market rate expressed as accepted_asset units per 1 FeeJuice unit. */
+export interface PriceFeedRate {
+  rate_num: number;
+  rate_den: number;
+}
+
+/** A feed reading; aggregate feeds attach the audit record of how it was derived. */
+export interface PriceFeedSample extends PriceFeedRate {
+  aggregation?: PriceAggregation;
+}
+
+export interface PriceFeedAdapter {
+  fetchRate(): Promise<PriceFeedSample>;
+}
+
+export interface PriceFeedAdapterOptions {
+  timeoutMs: number;
+  nowMs: () => number;
+}
+
+export type PriceFeedStatus = "ok" | "pending" | "error" | "stale" | "tripped";
+
+export interface PriceFeedSnapshot {
+  accepted_asset: string;
+  feed_type: PriceFeedSpec["type"];
+  status: PriceFeedStatus;
+  rate_num?: number;
+  rate_den?: number;
+  updated_at?: string;
+  last_error?: string;
+  rejected_rate_num?: number;
+  rejected_rate_den?: number;
+  deviation_bips?: number;
+  aggregation?: PriceAggregation;
+}
+
+export type LiveRateResult =
+  | { ok: true; value: SupportedAssetPolicy }
+  | { ok: false; message: string };
+
+interface PriceFeedLogger {
+  info(obj: object, msg: string): void;
+  warn(obj: object, msg: string): void;
+}
+
+interface TrippedSample {
+  rate: PriceFeedRate;
+  deviationBips: number;
+}
+
+interface PriceFeedState {
+  specKey: string;
+  spec: PriceFeedSpec;
+  adapter: PriceFeedAdapter;
+  rate?: PriceFeedRate;
+  updatedAtMs?: number;
+  lastError?: string;
+  tripped?: TrippedSample;
+  aggregation?: PriceAggregation;
+}
+
+export type PriceFeedMonitorConfig = Pick<
+  Config,
+  | "price_feed_refresh_interval_seconds"
+  | "price_feed_max_staleness_seconds"
+  | "price_feed_max_deviation_bips"
+  | "price_feed_timeout_ms"
+>;
+
+export interface PriceFeedMonitorDependencies {
+  nowMs?: () => number;
+  logger?: PriceFeedLogger;
+  createAdapter?: (spec: PriceFeedSpec, options: PriceFeedAdapterOptions) => PriceFeedAdapter;
+}
+
+/**
+ * Converts a decimal price (JSON number or decimal string) into an exact
+ * integer fraction. Precision beyond 15 fractional digits is truncated so both
+ * terms stay within the safe-integer range used by asset policies.
+ */
+export function parseDecimalRate(raw: unknown): PriceFeedRate {
+  const text = typeof raw === "number" && Number.isFinite(raw) ? String(raw) : raw;
+  const match = typeof text === "string" ? DECIMAL_PATTERN.exec(text.trim()) : null;
+  if (!match) {
+    throw new Error("price feed value must be a positive decimal number");
+  }
+
+  const [, integerPart, fractionPart = "", exponentPart = "0"] = match;
+  const scale = fractionPart.length - Number(exponentPart);
+  const digits = BigInt(`${integerPart}${fractionPart}`);
+  if (scale > 0) {
+    return reduceRate(digits, 10n ** BigInt(scale));
+  }
+  return reduceRate(digits * 10n ** BigInt(-scale), 1n);
+}
+
+/** Resolves a dotted path (`data.prices.0.value`) inside a parsed JSON document. */
+export function readJsonPath(document: unknown, jsonPath: string): unknown {
+  let current = document;
+  for (const segment of jsonPath.split(".")) {
+    if (current === null || typeof current !== "object") {
+      throw new Error(`price feed json_path ${jsonPath} not found`);
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  if (current === undefined) {
+    throw new Error(`price feed json_path ${jsonPath} not found`);
+  }
+  return current;
+}
+
+async function fetchJson(url: string, timeoutMs: number): Promise<unknown> {
+  const response = await fetch(url, {
+    headers: { accept: "application/json" },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`price feed HTTP request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export function createPriceFeedAdapter(
+  spec: PriceFeedSpec | PriceSourceSpec,
+  options: PriceFeedAdapterOptions,
+): PriceFeedAdapter {
+  switch (spec.type) {
+    case "fixed":
+      return {
+        fetchRate: () => Promise.resolve({ rate_num: spec.rate_num, rate_den: spec.rate_den }),
+      };
+    case "http":
+      return {
+        fetchRate: async () =>
+          parseDecimalRate(
+            readJsonPath(await fetchJson(spec.url, options.timeoutMs), spec.json_path),
+          ),
+      };
+    case "file":
+      return {
+        fetchRate: async () => {
+          const document: unknown = JSON.parse(await readFile(spec.path, "utf8"));
+          return parseDecimalRate(readJsonPath(document, spec.json_path));
+        },
+      };
+    case "aggregate":
+      return createAggregateAdapter(spec, options);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function createAggregateAdapter(
+  spec: AggregatePriceFeedSpec,
+  options: PriceFeedAdapterOptions,
+): PriceFeedAdapter {
+  const sources = spec.sources.map((source) => ({
+    source,
+    adapter: createPriceFeedAdapter(source, options),
+  }));
+  const twap = new TwapWindow(spec.twap_window_seconds * 1000);
+
+  return {
+    fetchRate: async () => {
+      const samples = await Promise.all(
+        sources.map(async ({ source, adapter }): Promise<PriceSourceSample> => {
+          try {
+            const { rate_num, rate_den } = await adapter.fetchRate();
+            return { name: source.name, weight: source.weight, rate: { rate_num, rate_den } };
+          } catch (error) {
+            return { name: source.name, weight: source.weight, error: errorMessage(error) };
+          }
+        }),
+      );
+
+      const { rate, aggregation } = aggregatePriceSources(samples, {
+        method: spec.method,
+        maxOutlierBips: spec.max_outlier_bips,
+        minSources: spec.min_sources,
+      });
+      if (spec.method !== "twap") {
+        return { ...rate, aggregation };
+      }
+
+      const averaged = twap.record(rate, options.nowMs());
+      return {
+        ...averaged,
+        aggregation: { ...aggregation, rate_num: averaged.rate_num, rate_den: averaged.rate_den },
+      };
+    },
+  };
+}
+
+/**
+ * Keeps a live market rate for every asset policy that names a `price_feed`.
+ *
+ * Feeds are polled on a fixed interval. A sample that moves more than the
+ * allowed deviation from the last accepted rate trips a per-asset circuit
+ * breaker; quotes for that asset are refused until a sample lands back inside
+ * the band or an admin resets the feed. Quotes are also refused once the last
+ * accepted sample is older than the staleness limit.
+ */
+export class PriceFeedMonitor {
+  private readonly states = new Map<string, PriceFeedState>();
+  private readonly nowMs: () => number;
+  private readonly createAdapter: (
+    spec: PriceFeedSpec,
+    options: PriceFeedAdapterOptions,
+  ) => PriceFeedAdapter;
+  private intervalHandle?: NodeJS.Timeout;
+  private inFlightRefresh?: Promise<void>;
+
+  constructor(
+    private readonly config: PriceFeedMonitorConfig,
+    private readonly listPolicies: () => SupportedAssetPolicy[],
+    private readonly deps: PriceFeedMonitorDependencies = {},
+  ) {
+    this.nowMs = deps.nowMs ?? Date.now;
+    this.createAdapter = deps.createAdapter ?? createPriceFeedAdapter;
+  }
+
+  async start(): Promise<void> {
+    if (this.intervalHandle) {
+      return;
+    }
+    await this.refreshAll();
+    this.intervalHandle = setInterval(() => {
+      void this.refreshAll();
+    }, this.config.price_feed_refresh_interval_seconds * 1000);
+    this.intervalHandle.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = undefined;
+    }
+    await this.inFlightRefresh;
+  }
+
+  refreshAll(): Promise<void> {
+    if (!this.inFlightRefresh) {
+      this.inFlightRefresh = this.refreshPolicies().finally(() => {
+        this.inFlightRefresh = undefined;
+      });
+    }
+    return this.inFlightRefresh;
+  }
+
+  async refresh(address: string): Promise<void> {
+    const policy = this.listPolicies().find((entry) => entry.address === address);
+    if (!policy?.price_feed) {
+      this.states.delete(address);
+      return;
+    }
+    await this.refreshPolicy(policy.address, policy.price_feed);
+  }
+
+  /** Clears the circuit breaker and accepts the next sample regardless of deviation. */
+  async reset(address: string): Promise<PriceFeedSnapshot | undefined> {
+    const state = this.states.get(address);
+    if (state) {
+      state.rate = undefined;
+      state.updatedAtMs = undefined;
+      state.tripped = undefined;
+    }
+    await this.refresh(address);
+    return this.describe(address);
+  }
+
+  /** Returns the policy with its market rate replaced by the live feed rate. */
+  applyLiveRate(policy: SupportedAssetPolicy): LiveRateResult {
+    if (!policy.price_feed) {
+      return { ok: true, value: policy };
+    }
+
+    const state = this.states.get(policy.address);
+    const status = state ? this.statusOf(state) : "pending";
+    if (!state?.rate || status !== "ok") {
+      return { ok: false, message: `Price feed ${status} for accepted_asset` };
+    }
+    return {
+      ok: true,
+      value: {
+        ...policy,
+        market_rate_num: state.rate.rate_num,
+        market_rate_den: state.rate.rate_den,
+      },
+    };
+  }
+
+  snapshot(): PriceFeedSnapshot[] {
+    return Array.from(this.states.entries()).map(([address, state]) => ({
+      accepted_asset: address,
+      feed_type: state.spec.type,
+      status: this.statusOf(state),
+      rate_num: state.rate?.rate_num,
+      rate_den: state.rate?.rate_den,
+      updated_at:
+        state.updatedAtMs === undefined ? undefined : new Date(state.updatedAtMs).toISOString(),
+      last_error: state.lastError,
+      rejected_rate_num: state.tripped?.rate.rate_num,
+      rejected_rate_den: state.tripped?.rate.rate_den,
+      deviation_bips: state.tripped?.deviationBips,
+      aggregation: state.aggregation,
+    }));
+  }
+
+  describe(address: string): PriceFeedSnapshot | undefined {
+    return this.snapshot().find((entry) => entry.accepted_asset === address);
+  }
+
+  private statusOf(state: PriceFeedState): PriceFeedStatus {
+    if (state.tripped) {
+      return "tripped";
+    }
+    if (state.updatedAtMs === undefined) {
+      return state.lastError ? "error" : "pending";
+    }
+    const maxStalenessSeconds =
+      state.spec.max_staleness_seconds ?? this.config.price_feed_max_staleness_seconds;
+    if (this.nowMs() - state.updatedAtMs > maxStalenessSeconds * 1000) {
+      return "stale";
+    }
+    return "ok";
+  }
+
+  private async refreshPolicies(): Promise<void> {
+    const feeds = this.listPolicies().filter((policy) => policy.price_feed);
+    const active = new Set(feeds.map((policy) => policy.address));
+    for (const address of this.states.keys()) {
+      if (!active.has(address)) {
+        this.states.delete(address);
+      }
+    }
+    await Promise.all(
+      feeds.map((policy) =>
+        policy.price_feed ? this.refreshPolicy(policy.address, policy.price_feed) : undefined,
+      ),
+    );
+  }
+
+  private stateFor(address: string, spec: PriceFeedSpec): PriceFeedState {
+    const specKey = JSON.stringify(spec);
+    const existing = this.states.get(address);
+    if (existing?.specKey === specKey) {
+      return existing;
+    }
+    const state: PriceFeedState = {
+      specKey,
+      spec,
+      adapter: this.createAdapter(spec, {
+        timeoutMs: this.config.price_feed_timeout_ms,
+        nowMs: this.nowMs,
+      }),
+    };
+    this.states.set(address, state);
+    return state;
+  }
+
+  private async refreshPolicy(address: string, spec: PriceFeedSpec): Promise<void> {
+    const state = this.stateFor(address, spec);
+    let sample: PriceFeedSample;
+    try {
+      sample = await state.adapter.fetchRate();
+    } catch (error) {
+      state.lastError = errorMessage(error);
+      state.aggregation = error instanceof PriceAggregationError ? error.aggregation : undefined;
+      this.deps.logger?.warn(
+        { event: "price_feed_refresh_failed", accepted_asset: address, err: state.lastError },
+        "Failed to refresh price feed",
+      );
+      return;
+    }
+
+    state.lastError = undefined;
+    state.aggregation = sample.aggregation;
+    const maxDeviationBips = spec.max_deviation_bips ?? this.config.price_feed_max_deviation_bips;
+    const deviationBips = state.rate ? rateDeviationBips(state.rate, sample) : 0;
+    if (deviationBips > maxDeviationBips) {
+      state.tripped = { rate: sample, deviationBips };
+      this.deps.logger?.warn(
+        {
+          event: "price_feed_circuit_breaker_tripped",
+          accepted_asset: address,
+          deviation_bips: deviationBips,
+          max_deviation_bips: maxDeviationBips,
+        },
+        "Price feed deviation exceeded circuit breaker limit",
+      );
+      return;
+    }
+
+    if (state.tripped) {
+      this.deps.logger?.info(
+        { event: "price_feed_circuit_breaker_cleared", accepted_asset: address },
+        "Price feed returned inside deviation band",
+      );
+    }
+    state.tripped = undefined;
+    state.rate = { rate_num: sample.rate_num, rate_den: sample.rate_den };
+    state.updatedAtMs = this.nowMs();
+  }
+}
@@ -0,0 +1,590 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { type Database, open, type RootDatabase } from "lmdb";
+import { z } from "zod";
+import type { Config } from "./config.js";
+import type { SharedStateBackend } from "./shared-state.js";
+import { FjLimitSchema, type SpendingLimitViolation } from "./spending-limits.js";
+
+const MAX_QUOTA_WINDOW_SECONDS = 30 * 86_400;
+const MAX_QUOTA_REQUESTS = 1_000_000_000;
+const KEY_PREFIX = "fpcq_";
+
+const QuotaWindowSecondsSchema = z.number().int().positive().max(MAX_QUOTA_WINDOW_SECONDS);
+
+/** Admin-editable settings of a quote API key. */
+export const QuoteApiKeySettingsSchema = z.object({
+  label: z.string().trim().min(1).max(128),
+  /** Unix seconds after which the key stops authenticating. */
+  expires_at: z.number().int().positive().optional(),
+  /** Max quote-issuing requests per fixed window. */
+  request_quota: z
+    .object({
+      max_requests: z.number().int().positive().max(MAX_QUOTA_REQUESTS),
+      window_seconds: QuotaWindowSecondsSchema,
+    })
+    .optional(),
+  /** Max Fee Juice quoted per fixed window, summed over every quote the key obtains. */
+  fj_budget: z
+    .object({
+      max_fj_amount: FjLimitSchema,
+      window_seconds: QuotaWindowSecondsSchema,
+    })
+    .optional(),
+});
+
+export type QuoteApiKeySettings = z.infer<typeof QuoteApiKeySettingsSchema>;
+
+export interface QuoteApiKeyRecord extends QuoteApiKeySettings {
+  id: string;
+  /** SHA-256 hex digest of the key; the key itself is only shown on creation. */
+  key_sha256: string;
+  created_at: number;
+  created_by: string;
+  revoked_at?: number;
+  revoked_by?: string;
+}
+
+/** A key as returned by the admin API: no digest, plus its usage across every replica. */
+export type QuoteApiKeyView = Omit<QuoteApiKeyRecord, "key_sha256"> & {
+  status: "active" | "expired" | "revoked";
+  usage: QuoteApiKeyUsageView;
+};
+
+export interface QuoteApiKeyUsageView {
+  requests_total: number;
+  quota_rejections_total: number;
+  quotes_total: number;
+  fj_amount_total: string;
+  budget_rejections_total: number;
+  /** Usage in the current quota/budget windows, when configured. */
+  window_requests?: number;
+  window_fj_amount?: string;
+}
+
+export interface QuoteApiKeyQuotaViolation {
+  code: "API_KEY_QUOTA_EXCEEDED";
+  message: string;
+  max_requests: number;
+  window_seconds: number;
+  retry_after_seconds: number;
+}
+
+export type QuoteApiKeyBudgetReservation =
+  | { ok: true; release: () => void }
+  | { ok: false; violation: SpendingLimitViolation };
+
+interface QuoteApiKeyStoreLogger {
+  warn(obj: object, msg: string): void;
+}
+
+export function hashQuoteApiKey(key: string): string {
+  return createHash("sha256").update(key, "utf8").digest("hex");
+}
+
+export function quoteApiKeyNotFound(id: string): Error {
+  return new Error(`Quote API key not found: ${id}`);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Persistence for quote API key records; usage counters are not stored. */
+export interface QuoteApiKeyStore {
+  list(): QuoteApiKeyRecord[];
+  get(id: string): QuoteApiKeyRecord | undefined;
+  findByHash(keySha256: string): QuoteApiKeyRecord | undefined;
+  put(record: QuoteApiKeyRecord): Promise<QuoteApiKeyRecord>;
+  close(): Promise<void>;
+}
+
+function indexByHash(records: Iterable<QuoteApiKeyRecord>): Map<string, QuoteApiKeyRecord> {
+  return new Map(Array.from(records, (record) => [record.key_sha256, record]));
+}
+
+export class LmdbQuoteApiKeyStore implements QuoteApiKeyStore {
+  private readonly root: RootDatabase;
+  private readonly keys: Database<QuoteApiKeyRecord, string>;
+  private byHash: Map<string, QuoteApiKeyRecord>;
+
+  constructor(config: Pick<Config, "quote_api_key_state_path">) {
+    this.root = open({ path: config.quote_api_key_state_path });
+    this.keys = this.root.openDB<QuoteApiKeyRecord, string>({ name: "keys" });
+    this.byHash = indexByHash(Array.from(this.keys.getRange(), ({ value }) => value));
+  }
+
+  list(): QuoteApiKeyRecord[] {
+    return Array.from(this.keys.getRange(), ({ value }) => structuredClone(value));
+  }
+
+  get(id: string): QuoteApiKeyRecord | undefined {
+    const record = this.keys.get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  findByHash(keySha256: string): QuoteApiKeyRecord | undefined {
+    const record = this.byHash.get(keySha256);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  async put(record: QuoteApiKeyRecord): Promise<QuoteApiKeyRecord> {
+    await this.keys.put(record.id, record);
+    this.byHash.set(record.key_sha256, record);
+    return structuredClone(record);
+  }
+
+  async close(): Promise<void> {
+    await this.root.close();
+  }
+}
+
+/**
+ * Key records in a shared backend hash, so a key created or revoked on one
+ * replica is honoured by all of them. Lookups use a local copy, reloaded on
+ * every published change and on the resync interval.
+ */
+export class SharedQuoteApiKeyStore implements QuoteApiKeyStore {
+  private records = new Map<string, QuoteApiKeyRecord>();
+  private byHash = new Map<string, QuoteApiKeyRecord>();
+  private unsubscribe?: () => Promise<void>;
+  private resyncHandle?: NodeJS.Timeout;
+  private inFlightRefresh?: Promise<void>;
+  private readonly channel: string;
+
+  private constructor(
+    private readonly backend: SharedStateBackend,
+    private readonly hashKey: string,
+    private readonly logger?: QuoteApiKeyStoreLogger,
+  ) {
+    this.channel = `${hashKey}:changed`;
+  }
+
+  static async open(
+    config: Pick<Config, "shared_state_key_prefix" | "shared_state_resync_interval_seconds">,
+    backend: SharedStateBackend,
+    deps: { logger?: QuoteApiKeyStoreLogger } = {},
+  ): Promise<SharedQuoteApiKeyStore> {
+    const store = new SharedQuoteApiKeyStore(
+      backend,
+      `${config.shared_state_key_prefix}quote-api-keys`,
+      deps.logger,
+    );
+    store.unsubscribe = await backend.subscribe(store.channel, () => {
+      void store.refresh();
+    });
+    await store.load();
+    store.resyncHandle = setInterval(() => {
+      void store.refresh();
+    }, config.shared_state_resync_interval_seconds * 1000);
+    store.resyncHandle.unref();
+    return store;
+  }
+
+  list(): QuoteApiKeyRecord[] {
+    return Array.from(this.records.values(), (record) => structuredClone(record));
+  }
+
+  get(id: string): QuoteApiKeyRecord | undefined {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  findByHash(keySha256: string): QuoteApiKeyRecord | undefined {
+    const record = this.byHash.get(keySha256);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  async put(record: QuoteApiKeyRecord): Promise<QuoteApiKeyRecord> {
+    await this.backend.hashSet(this.hashKey, record.id, JSON.stringify(record));
+    this.records.set(record.id, record);
+    this.byHash.set(record.key_sha256, record);
+    try {
+      await this.backend.publish(this.channel, record.id);
+    } catch (error) {
+      this.logger?.warn(
+        { event: "quote_api_key_notify_failed", err: errorMessage(error) },
+        "Failed to publish quote API key change",
+      );
+    }
+    return structuredClone(record);
+  }
+
+  refresh(): Promise<void> {
+    this.inFlightRefresh ??= this.load()
+      .catch((error: unknown) => {
+        this.logger?.warn(
+          { event: "quote_api_key_refresh_failed", err: errorMessage(error) },
+          "Failed to reload shared quote API keys",
+        );
+      })
+      .finally(() => {
+        this.inFlightRefresh = undefined;
+      });
+    return this.inFlightRefresh;
+  }
+
+  async close(): Promise<void> {
+    if (this.resyncHandle) {
+      clearInterval(this.resyncHandle);
+      this.resyncHandle = undefined;
+    }
+    await this.inFlightRefresh;
+    await this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  private async load(): Promise<void> {
+    const entries = await this.backend.hashGetAll(this.hashKey);
+    this.records = new Map(
+      Object.entries(entries).map(([id, value]) => [id, JSON.parse(value) as QuoteApiKeyRecord]),
+    );
+    this.byHash = indexByHash(this.records.values());
+  }
+}
+
+/** The store selected by `shared_state_backend`: shared when a backend is given, LMDB otherwise. */
+export function openQuoteApiKeyStore(
+  config: Config,
+  sharedState: SharedStateBackend | undefined,
+  deps: { logger?: QuoteApiKeyStoreLogger } = {},
+): Promise<QuoteApiKeyStore> {
+  if (!sharedState) {
+    return Promise.resolve(new LmdbQuoteApiKeyStore(config));
+  }
+  return SharedQuoteApiKeyStore.open(config, sharedState, deps);
+}
+
+/** Lifetime counters kept per key, in the order `readCounters` returns them. */
+const USAGE_COUNTERS = [
+  "requests_total",
+  "quota_rejections_total",
+  "quotes_total",
+  "fj_amount_total",
+  "budget_rejections_total",
+] as const;
+
+type UsageCounter = (typeof USAGE_COUNTERS)[number];
+
+interface FixedWindow {
+  key: string;
+  ttlMs: number;
+  retryAfterSeconds: number;
+}
+
+function keyStatus(record: QuoteApiKeyRecord, nowSeconds: bigint): QuoteApiKeyView["status"] {
+  if (record.revoked_at !== undefined) {
+    return "revoked";
+  }
+  if (record.expires_at !== undefined && BigInt(record.expires_at) <= nowSeconds) {
+    return "expired";
+  }
+  return "active";
+}
+
+/**
+ * Per-integrator quote API keys, managed through the admin API. Keys are held
+ * as SHA-256 digests; revoking one or letting it expire stops it at the next
+ * request. Request quotas and Fee Juice budgets are fixed windows aligned to
+ * the unix epoch, counted in the shared state backend so every replica
+ * enforces the same ones; without a shared server the backend is in-process.
+ */
+export class QuoteApiKeyRegistry {
+  constructor(
+    private readonly store: QuoteApiKeyStore,
+    private readonly usage: SharedStateBackend,
+    private readonly deps: { keyPrefix: string; logger?: QuoteApiKeyStoreLogger },
+  ) {}
+
+  /** The key a presented secret belongs to, whatever its status. */
+  lookup(presented: string | undefined): QuoteApiKeyRecord | undefined {
+    if (!presented) {
+      return undefined;
+    }
+    return this.store.findByHash(hashQuoteApiKey(presented));
+  }
+
+  /** The key a presented secret belongs to, if it is neither revoked nor expired. */
+  authenticate(presented: string | undefined, nowSeconds: bigint): QuoteApiKeyRecord | undefined {
+    const record = this.lookup(presented);
+    return record && keyStatus(record, nowSeconds) === "active" ? record : undefined;
+  }
+
+  list(nowSeconds: bigint): Promise<QuoteApiKeyView[]> {
+    return Promise.all(
+      this.store
+        .list()
+        .sort((left, right) => left.created_at - right.created_at)
+        .map((record) => this.view(record, nowSeconds)),
+    );
+  }
+
+  async get(id: string, nowSeconds: bigint): Promise<QuoteApiKeyView> {
+    const record = this.store.get(id);
+    if (!record) {
+      throw quoteApiKeyNotFound(id);
+    }
+    return await this.view(record, nowSeconds);
+  }
+
+  /** Creates a key; the returned `key` is not stored and cannot be shown again. */
+  async create(
+    settings: QuoteApiKeySettings,
+    actor: string,
+    nowSeconds: bigint,
+  ): Promise<{ key: string; record: QuoteApiKeyView }> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+    const record = await this.store.put({
+      id: randomUUID(),
+      ...QuoteApiKeySettingsSchema.parse(settings),
+      key_sha256: hashQuoteApiKey(key),
+      created_at: Number(nowSeconds),
+      created_by: actor,
+    });
+    return { key, record: await this.view(record, nowSeconds) };
+  }
+
+  /** Replaces a key's settings; fields left out are cleared. */
+  async update(
+    id: string,
+    settings: QuoteApiKeySettings,
+    nowSeconds: bigint,
+  ): Promise<QuoteApiKeyView> {
+    const existing = this.store.get(id);
+    if (!existing) {
+      throw quoteApiKeyNotFound(id);
+    }
+    const { id: _, key_sha256, created_at, created_by, revoked_at, revoked_by } = existing;
+    const record = await this.store.put({
+      id,
+      ...QuoteApiKeySettingsSchema.parse(settings),
+      key_sha256,
+      created_at,
+      created_by,
+      ...(revoked_at === undefined ? {} : { revoked_at, revoked_by }),
+    });
+    return this.view(record, nowSeconds);
+  }
+
+  async revoke(id: string, actor: string, nowSeconds: bigint): Promise<QuoteApiKeyView> {
+    const existing = this.store.get(id);
+    if (!existing) {
+      throw quoteApiKeyNotFound(id);
+    }
+    if (existing.revoked_at !== undefined) {
+      throw new Error(`Quote API key already revoked: ${id}`);
+    }
+    const record = await this.store.put({
+      ...existing,
+      revoked_at: Number(nowSeconds),
+      revoked_by: actor,
+    });
+    return this.view(record, nowSeconds);
+  }
+
+  /** Counts one quote-issuing request against the key's quota. */
+  async consumeRequest(
+    record: QuoteApiKeyRecord,
+    nowSeconds: bigint,
+  ): Promise<QuoteApiKeyQuotaViolation | undefined> {
+    const quota = record.request_quota;
+    if (quota) {
+      const window = this.window(record.id, "requests", quota.window_seconds, nowSeconds);
+      // Counted before checking, so replicas racing for the last request
+      // cannot both get it; a rejected request takes its count back.
+      const used = await this.usage.addToCounter(window.key, 1n, window.ttlMs);
+      if (used > BigInt(quota.max_requests)) {
+        await Promise.all([
+          this.usage.addToCounter(window.key, -1n, window.ttlMs),
+          this.count(record.id, "quota_rejections_total", 1n),
+        ]);
+        return {
+          code: "API_KEY_QUOTA_EXCEEDED",
+          message: `API key quota of ${quota.max_requests} requests per ${quota.window_seconds}s exceeded`,
+          max_requests: quota.max_requests,
+          window_seconds: quota.window_seconds,
+          retry_after_seconds: window.retryAfterSeconds,
+        };
+      }
+    }
+    await this.count(record.id, "requests_total", 1n);
+    return undefined;
+  }
+
+  /**
+   * Counts a quote's Fee Juice against the key's budget, in the same
+   * reserve/release style as the spending limiter. Lifetime totals are
+   * counted separately, by `countIssuedQuote` once the quote is signed.
+   */
+  async reserveBudget(
+    record: QuoteApiKeyRecord,
+    fjAmount: bigint,
+    nowSeconds: bigint,
+  ): Promise<QuoteApiKeyBudgetReservation> {
+    const budget = record.fj_budget;
+    let window: FixedWindow | undefined;
+    if (budget) {
+      window = this.window(record.id, "fj_amount", budget.window_seconds, nowSeconds);
+      const used = await this.usage.addToCounter(window.key, fjAmount, window.ttlMs);
+      if (used > BigInt(budget.max_fj_amount)) {
+        await Promise.all([
+          this.usage.addToCounter(window.key, -fjAmount, window.ttlMs),
+          this.count(record.id, "budget_rejections_total", 1n),
+        ]);
+        return {
+          ok: false,
+          violation: {
+            code: "API_KEY_BUDGET_EXCEEDED",
+            message: `API key Fee Juice budget of ${budget.max_fj_amount} per ${budget.window_seconds}s would be exceeded`,
+            limit_fj_amount: budget.max_fj_amount,
+            requested_fj_amount: fjAmount.toString(),
+            used_fj_amount: (used - fjAmount).toString(),
+            window_seconds: budget.window_seconds,
+            retry_after_seconds: window.retryAfterSeconds,
+          },
+        };
+      }
+    }
+    return {
+      ok: true,
+      release: () => {
+        if (!window) {
+          return;
+        }
+        this.usage.addToCounter(window.key, -fjAmount, window.ttlMs).catch((error: unknown) => {
+          this.deps.logger?.warn(
+            { event: "quote_api_key_budget_release_failed", err: errorMessage(error) },
+            "Failed to release quote API key budget",
+          );
+        });
+      },
+    };
+  }
+
+  /** Counts a signed quote in the key's lifetime totals. Failures are only logged: the quote stands. */
+  async countIssuedQuote(record: QuoteApiKeyRecord, fjAmount: bigint): Promise<void> {
+    try {
+      await Promise.all([
+        this.count(record.id, "quotes_total", 1n),
+        this.count(record.id, "fj_amount_total", fjAmount),
+      ]);
+    } catch (error) {
+      this.deps.logger?.warn(
+        { event: "quote_api_key_usage_count_failed", err: errorMessage(error) },
+        "Failed to count quote API key usage",
+      );
+    }
+  }
+
+  /** Usage of every key, summed over all replicas sharing the backend. */
+  async renderPrometheus(): Promise<string> {
+    const records = this.store.list().sort((left, right) => left.id.localeCompare(right.id));
+    if (records.length === 0) {
+      return "";
+    }
+    const values = await this.usage.readCounters(
+      records.flatMap((record) =>
+        USAGE_COUNTERS.map((counter) => this.counterKey(record.id, counter)),
+      ),
+    );
+    const counters: Array<[UsageCounter, string, string]> = [
+      [
+        "requests_total",
+        "attestation_quote_api_key_requests_total",
+        "Quote-issuing requests admitted per quote API key.",
+      ],
+      [
+        "quota_rejections_total",
+        "attestation_quote_api_key_quota_rejections_total",
+        "Requests rejected by the key's request quota.",
+      ],
+      [
+        "quotes_total",
+        "attestation_quote_api_key_quotes_total",
+        "Quotes signed for requests made with the key.",
+      ],
+      [
+        "fj_amount_total",
+        "attestation_quote_api_key_fj_amount_total",
+        "Fee Juice in quotes signed for requests made with the key.",
+      ],
+      [
+        "budget_rejections_total",
+        "attestation_quote_api_key_budget_rejections_total",
+        "Quotes rejected by the key's Fee Juice budget.",
+      ],
+    ];
+    const lines: string[] = [];
+    for (const [counter, name, help] of counters) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+      const offset = USAGE_COUNTERS.indexOf(counter);
+      records.forEach((record, i) => {
+        const value = values[i * USAGE_COUNTERS.length + offset] ?? 0n;
+        lines.push(`${name}{key_id="${record.id}"} ${value}`);
+      });
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  close(): Promise<void> {
+    return this.store.close();
+  }
+
+  private counterKey(id: string, counter: UsageCounter): string {
+    return `${this.deps.keyPrefix}quote-api-key-usage:${id}:${counter}`;
+  }
+
+  private count(id: string, counter: UsageCounter, amount: bigint): Promise<bigint> {
+    return this.usage.addToCounter(this.counterKey(id, counter), amount);
+  }
+
+  /**
+   * The fixed window `nowSeconds` falls in. Its key names the window, so a
+   * new one starts from zero; the TTL only clears it away once it has passed.
+   */
+  private window(
+    id: string,
+    kind: "requests" | "fj_amount",
+    windowSeconds: number,
+    nowSeconds: bigint,
+  ): FixedWindow {
+    const length = BigInt(windowSeconds);
+    const index = nowSeconds / length;
+    const retryAfterSeconds = Number((index + 1n) * length - nowSeconds);
+    return {
+      key: `${this.deps.keyPrefix}quote-api-key-usage:${id}:window:${kind}:${windowSeconds}:${index}`,
+      ttlMs: retryAfterSeconds * 1000,
+      retryAfterSeconds,
+    };
+  }
+
+  private async view(record: QuoteApiKeyRecord, nowSeconds: bigint): Promise<QuoteApiKeyView> {
+    const { key_sha256: _, ...rest } = record;
+    const { request_quota: quota, fj_budget: budget } = record;
+    const windowKeys = [
+      ...(quota ? [this.window(record.id, "requests", quota.window_seconds, nowSeconds).key] : []),
+      ...(budget
+        ? [this.window(record.id, "fj_amount", budget.window_seconds, nowSeconds).key]
+        : []),
+    ];
+    const values = await this.usage.readCounters([
+      ...USAGE_COUNTERS.map((counter) => this.counterKey(record.id, counter)),
+      ...windowKeys,
+    ]);
+    const [requests, quotaRejections, quotes, fjAmount, budgetRejections, ...windows] = values;
+    const requestWindow = (quota && windows.shift()) || 0n;
+    const budgetWindow = (budget && windows.shift()) || 0n;
+    return {
+      ...rest,
+      status: keyStatus(record, nowSeconds),
+      usage: {
+        requests_total: Number(requests ?? 0n),
+        quota_rejections_total: Number(quotaRejections ?? 0n),
+        quotes_total: Number(quotes ?? 0n),
+        fj_amount_total: (fjAmount ?? 0n).toString(),
+        budget_rejections_total: Number(budgetRejections ?? 0n),
+        ...(quota ? { window_requests: Number(requestWindow) } : {}),
+        ...(budget ? { window_fj_amount: budgetWindow.toString() } : {}),
+      },
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { TLSSocket } from "node:tls";
+import { parse } from "yaml";
+import { z } from "zod";
+import type { QuoteAuthConfig } from "./config.js";
+import type { SharedStateBackend } from "./shared-state.js";
+
+const CLIENT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const CERT_FINGERPRINT_PATTERN = /^[0-9a-f]{64}$/;
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const SIGNATURE_PATTERN = /^[0-9a-f]{64}$/;
+const TIMESTAMP_PATTERN = /^[0-9]{1,12}$/;
+const MIN_HMAC_SECRET_LENGTH = 32;
+
+/** Headers carrying an `hmac` mode signature. */
+export const QUOTE_SIGNATURE_HEADERS = {
+  clientId: "x-fpc-client-id",
+  timestamp: "x-fpc-timestamp",
+  nonce: "x-fpc-nonce",
+  signature: "x-fpc-signature",
+} as const;
+
+/** Lowercase hex SHA-256 certificate fingerprint; accepts the colon-separated form. */
+export function normalizeCertFingerprint(value: string): string {
+  return value.replaceAll(":", "").trim().toLowerCase();
+}
+
+const QuoteClientEntrySchema = z
+  .object({
+    id: z
+      .string()
+      .trim()
+      .regex(CLIENT_ID_PATTERN, "client id must be 1-64 lowercase letters, digits, '-' or '_'"),
+    /** Shared secret for `hmac` mode signatures. */
+    hmac_secret: z
+      .string()
+      .min(MIN_HMAC_SECRET_LENGTH, `hmac_secret must be at least ${MIN_HMAC_SECRET_LENGTH} chars`)
+      .optional(),
+    /** SHA-256 fingerprint of the client certificate for `mtls` mode. */
+    cert_sha256: z
+      .string()
+      .transform(normalizeCertFingerprint)
+      .refine(
+        (value) => CERT_FINGERPRINT_PATTERN.test(value),
+        "cert_sha256 must be a SHA-256 hex fingerprint",
+      )
+      .optional(),
+  })
+  .refine(
+    (entry) => entry.hmac_secret !== undefined || entry.cert_sha256 !== undefined,
+    "set hmac_secret or cert_sha256",
+  );
+
+export const QuoteClientsFileSchema = z
+  .object({ clients: z.array(QuoteClientEntrySchema).min(1) })
+  .superRefine(({ clients }, ctx) => {
+    const ids = clients.map((client) => client.id);
+    if (new Set(ids).size !== ids.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "client ids must be unique" });
+    }
+    const fingerprints = clients.flatMap((client) => client.cert_sha256 ?? []);
+    if (new Set(fingerprints).size !== fingerprints.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "cert_sha256 must be unique" });
+    }
+  });
+
+export type QuoteClient = z.infer<typeof QuoteClientEntrySchema>;
+
+export function loadQuoteClients(path: string): QuoteClient[] {
+  const result = QuoteClientsFileSchema.safeParse(parse(readFileSync(path, "utf8")));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    throw new Error(`Invalid quote auth clients file ${path}: ${where}${issue.message}`);
+  }
+  return result.data.clients;
+}
+
+/**
+ * The string an `hmac` client signs: method, path, query parameters sorted
+ * by name, timestamp and nonce, newline-separated. `url` is the path and
+ * query exactly as sent, before any server-side rewriting.
+ */
+export function canonicalQuoteRequest(
+  method: string,
+  url: string,
+  timestamp: string,
+  nonce: string,
+): string {
+  const queryStart = url.indexOf("?");
+  const path = queryStart === -1 ? url : url.slice(0, queryStart);
+  const query = new URLSearchParams(queryStart === -1 ? "" : url.slice(queryStart + 1));
+  query.sort();
+  return [method.toUpperCase(), path, query.toString(), timestamp, nonce].join("\n");
+}
+
+export function signQuoteRequest(secret: string, canonicalRequest: string): string {
+  return createHmac("sha256", secret).update(canonicalRequest, "utf8").digest("hex");
+}
+
+/** The parts of an incoming request that quote authentication looks at. */
+export interface QuoteAuthRequest {
+  method: string;
+  /** Path and query as sent by the client. */
+  originalUrl: string;
+  headers: Record<string, string | string[] | undefined>;
+  raw: { socket: object };
+}
+
+export type QuoteAuthResult =
+  | { ok: true; client: QuoteClient }
+  | { ok: false; reason: string; clientId?: string };
+
+function headerValue(
+  headers: QuoteAuthRequest["headers"],
+  name: string,
+  pattern: RegExp,
+): string | undefined {
+  const value = headers[name];
+  return typeof value === "string" && pattern.test(value) ? value : undefined;
+}
+
+function peerCertificateFingerprint(socket: object): string | undefined {
+  if (!("getPeerCertificate" in socket)) {
+    return undefined;
+  }
+  const tlsSocket = socket as TLSSocket;
+  if (!tlsSocket.authorized) {
+    return undefined;
+  }
+  const fingerprint = tlsSocket.getPeerCertificate().fingerprint256;
+  return fingerprint ? normalizeCertFingerprint(fingerprint) : undefined;
+}
+
+/**
+ * Authenticates quote requests in the `hmac` and `mtls` modes. `hmac`
+ * requests carry a client id, timestamp, nonce and an HMAC-SHA256 of
+ * {@link canonicalQuoteRequest}; each nonce is accepted once per client
+ * within the allowed clock skew, tracked in the shared state backend so
+ * replicas reject each other's replays. `mtls` requests are matched by the
+ * SHA-256 fingerprint of a client certificate the TLS layer verified.
+ */
+export class QuoteRequestAuthenticator {
+  private readonly byId: Map<string, QuoteClient>;
+  private readonly byFingerprint: Map<string, QuoteClient>;
+
+  constructor(
+    private readonly config: Pick<QuoteAuthConfig, "mode" | "hmacMaxSkewSeconds">,
+    clients: QuoteClient[],
+    private readonly nonces: SharedStateBackend,
+    private readonly deps: { keyPrefix: string; nowMs?: () => number },
+  ) {
+    this.byId = new Map(clients.map((client) => [client.id, client]));
+    this.byFingerprint = new Map(
+      clients.flatMap((client) =>
+        client.cert_sha256 ? [[client.cert_sha256, client] as const] : [],
+      ),
+    );
+  }
+
+  /**
+   * The client a request authenticates as, without consuming its nonce. Used
+   * to pick the rate-limit bucket before the handler runs the full check.
+   */
+  identify(req: QuoteAuthRequest): QuoteClient | undefined {
+    const result =
+      this.config.mode === "mtls" ? this.checkCertificate(req) : this.checkSignature(req);
+    return result.ok ? result.client : undefined;
+  }
+
+  async authenticate(req: QuoteAuthRequest): Promise<QuoteAuthResult> {
+    if (this.config.mode === "mtls") {
+      return this.checkCertificate(req);
+    }
+    const result = this.checkSignature(req);
+    if (!result.ok) {
+      return result;
+    }
+    const nonce = req.headers[QUOTE_SIGNATURE_HEADERS.nonce] as string;
+    const seen = await this.nonces.incrementWindow(
+      `${this.deps.keyPrefix}quote-nonce:${result.client.id}:${nonce}`,
+      this.config.hmacMaxSkewSeconds * 2 * 1000,
+    );
+    if (seen.count > 1) {
+      return { ok: false, reason: "replayed_nonce", clientId: result.client.id };
+    }
+    return result;
+  }
+
+  private checkCertificate(req: QuoteAuthRequest): QuoteAuthResult {
+    const fingerprint = peerCertificateFingerprint(req.raw.socket);
+    if (!fingerprint) {
+      return { ok: false, reason: "missing_client_certificate" };
+    }
+    const client = this.byFingerprint.get(fingerprint);
+    return client ? { ok: true, client } : { ok: false, reason: "unknown_client_certificate" };
+  }
+
+  private checkSignature(req: QuoteAuthRequest): QuoteAuthResult {
+    const { headers } = req;
+    const clientId = headerValue(headers, QUOTE_SIGNATURE_HEADERS.clientId, CLIENT_ID_PATTERN);
+    const timestamp = headerValue(headers, QUOTE_SIGNATURE_HEADERS.timestamp, TIMESTAMP_PATTERN);
+    const nonce = headerValue(headers, QUOTE_SIGNATURE_HEADERS.nonce, NONCE_PATTERN);
+    const signature = headerValue(headers, QUOTE_SIGNATURE_HEADERS.signature, SIGNATURE_PATTERN);
+    if (!clientId || !timestamp || !nonce || !signature) {
+      return { ok: false, reason: "missing_signature_headers" };
+    }
+    const client = this.byId.get(clientId);
+    if (!client?.hmac_secret) {
+      return { ok: false, reason: "unknown_client", clientId };
+    }
+    const nowSeconds = Math.floor((this.deps.nowMs ?? Date.now)() / 1000);
+    if (Math.abs(nowSeconds - Number(timestamp)) > this.config.hmacMaxSkewSeconds) {
+      return { ok: false, reason: "stale_timestamp", clientId };
+    }
+    const expected = signQuoteRequest(
+      client.hmac_secret,
+      canonicalQuoteRequest(req.method, req.originalUrl, timestamp, nonce),
+    );
+    if (!timingSafeEqual(Buffer.from(expected, "hex"), Buffer.from(signature, "hex"))) {
+      return { ok: false, reason: "bad_signature", clientId };
+    }
+    return { ok: true, client };
+  }
+}
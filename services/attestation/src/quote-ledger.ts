@@ -0,0 +1,212 @@
+import { type Database, open, type RootDatabase } from "lmdb";
+import type { Config } from "./config.js";
+
+export const QUOTE_LEDGER_DEFAULT_LIMIT = 100;
+export const QUOTE_LEDGER_MAX_LIMIT = 1000;
+
+/**
+ * `unused` quotes may still be submitted; `settled` quotes had their hash
+ * nullified on-chain; `expired` quotes lapsed without ever being used.
+ */
+export const QUOTE_SETTLEMENT_STATUSES = ["unused", "settled", "expired"] as const;
+export type QuoteSettlementStatus = (typeof QUOTE_SETTLEMENT_STATUSES)[number];
+
+export type QuoteSettlement =
+  | {
+      status: "settled";
+      block_number: number;
+      tx_hash: string;
+      settled_at: string;
+      fee_paid?: string;
+    }
+  | { status: "expired" };
+
+/** Durable record of one signed quote. Amounts are decimal strings, times unix seconds. */
+export interface QuoteLedgerEntry {
+  quote_hash: string;
+  kind: "quote" | "cold_start_quote";
+  /** FPC the quote was signed for. Absent on entries recorded before key rotation support. */
+  fpc_address?: string;
+  quote_format: Config["quote_format"];
+  user: string;
+  accepted_asset: string;
+  fj_amount: string;
+  aa_payment_amount: string;
+  market_rate_num: number;
+  market_rate_den: number;
+  fee_bips: number;
+  rate_num: string;
+  rate_den: string;
+  issued_at: string;
+  valid_until: string;
+  signature: string;
+  claim_amount?: string;
+  claim_secret_hash?: string;
+  /** Request id shared by the quotes of one `POST /quotes` batch. */
+  batch_id?: string;
+  /** Pricing tier applied to the quote, if the user had one. */
+  user_tier?: string;
+  /** `fee_bips` change from reserve pricing; `fee_bips` already includes it. */
+  reserve_surcharge_bips?: number;
+  settlement_status: QuoteSettlementStatus;
+  settled_block?: number;
+  settled_tx_hash?: string;
+  settled_at?: string;
+  /** Fee Juice the FPC actually paid for the settling tx. Absent on entries settled before it was tracked. */
+  settled_fee?: string;
+}
+
+export interface QuoteLedgerQuery {
+  user?: string;
+  acceptedAsset?: string;
+  status?: QuoteSettlementStatus;
+  /** Inclusive lower bound on issued_at (unix seconds). */
+  fromSeconds?: bigint;
+  /** Inclusive upper bound on issued_at (unix seconds). */
+  toSeconds?: bigint;
+  limit?: number;
+}
+
+export interface QuoteLedger {
+  record(entry: QuoteLedgerEntry): Promise<void>;
+  get(quoteHash: string): QuoteLedgerEntry | undefined;
+  /** Returns matching entries, newest first. */
+  query(query: QuoteLedgerQuery): QuoteLedgerEntry[];
+  /** Walks every matching entry, newest first, ignoring `limit`; for reports over long ranges. */
+  scan(query: Omit<QuoteLedgerQuery, "limit">): Iterable<QuoteLedgerEntry>;
+  /** Quotes still `unused`, i.e. the ones the settlement watcher must track. */
+  listUnsettled(): QuoteLedgerEntry[];
+  updateSettlement(quoteHash: string, settlement: QuoteSettlement): Promise<void>;
+  /** Last L2 block the settlement watcher fully processed. */
+  getSettlementCursor(): number | undefined;
+  setSettlementCursor(blockNumber: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+type TimeIndexKey = [number, string];
+
+function matchesQuery(entry: QuoteLedgerEntry, query: QuoteLedgerQuery): boolean {
+  if (query.user && entry.user !== query.user) {
+    return false;
+  }
+  if (query.acceptedAsset && entry.accepted_asset !== query.acceptedAsset) {
+    return false;
+  }
+  if (query.status && entry.settlement_status !== query.status) {
+    return false;
+  }
+  const issuedAt = BigInt(entry.issued_at);
+  if (query.fromSeconds !== undefined && issuedAt < query.fromSeconds) {
+    return false;
+  }
+  return query.toSeconds === undefined || issuedAt <= query.toSeconds;
+}
+
+/**
+ * LMDB-backed quote ledger.
+ *
+ * Entries are keyed by quote hash; a secondary `[issued_at, quote_hash]` index
+ * keeps time-range scans ordered. User and asset filters are applied while
+ * walking the time index, which is adequate for admin/reconciliation queries.
+ * An `unsettled` index holds the hashes of quotes that are still `unused`.
+ */
+export class LmdbQuoteLedger implements QuoteLedger {
+  private readonly root: RootDatabase;
+  private readonly entries: Database<QuoteLedgerEntry, string>;
+  private readonly byTime: Database<string, TimeIndexKey>;
+  private readonly unsettled: Database<true, string>;
+  private readonly meta: Database<number, string>;
+
+  constructor(config: Pick<Config, "quote_ledger_state_path">) {
+    this.root = open({ path: config.quote_ledger_state_path });
+    this.entries = this.root.openDB<QuoteLedgerEntry, string>({ name: "entries" });
+    this.byTime = this.root.openDB<string, TimeIndexKey>({ name: "by_time" });
+    this.unsettled = this.root.openDB<true, string>({ name: "unsettled" });
+    this.meta = this.root.openDB<number, string>({ name: "meta" });
+  }
+
+  async record(entry: QuoteLedgerEntry): Promise<void> {
+    await this.root.transaction(() => {
+      this.entries.put(entry.quote_hash, entry);
+      this.byTime.put([Number(entry.issued_at), entry.quote_hash], entry.quote_hash);
+      if (entry.settlement_status === "unused") {
+        this.unsettled.put(entry.quote_hash, true);
+      }
+    });
+  }
+
+  get(quoteHash: string): QuoteLedgerEntry | undefined {
+    const entry = this.entries.get(quoteHash);
+    return entry ? { ...entry } : undefined;
+  }
+
+  query(query: QuoteLedgerQuery): QuoteLedgerEntry[] {
+    const limit = Math.min(query.limit ?? QUOTE_LEDGER_DEFAULT_LIMIT, QUOTE_LEDGER_MAX_LIMIT);
+    const results: QuoteLedgerEntry[] = [];
+    for (const entry of this.scan(query)) {
+      results.push(entry);
+      if (results.length >= limit) {
+        break;
+      }
+    }
+    return results;
+  }
+
+  *scan(query: Omit<QuoteLedgerQuery, "limit">): Generator<QuoteLedgerEntry> {
+    const range = this.byTime.getRange({
+      reverse: true,
+      ...(query.toSeconds === undefined ? {} : { start: [Number(query.toSeconds) + 1] }),
+      ...(query.fromSeconds === undefined ? {} : { end: [Number(query.fromSeconds)] }),
+    });
+
+    for (const { value: quoteHash } of range) {
+      const entry = this.entries.get(quoteHash);
+      if (entry && matchesQuery(entry, query)) {
+        yield { ...entry };
+      }
+    }
+  }
+
+  listUnsettled(): QuoteLedgerEntry[] {
+    const results: QuoteLedgerEntry[] = [];
+    for (const quoteHash of this.unsettled.getKeys()) {
+      const entry = this.entries.get(quoteHash);
+      if (entry) {
+        results.push({ ...entry });
+      }
+    }
+    return results;
+  }
+
+  async updateSettlement(quoteHash: string, settlement: QuoteSettlement): Promise<void> {
+    await this.root.transaction(() => {
+      const entry = this.entries.get(quoteHash);
+      if (!entry) {
+        return;
+      }
+      const updated: QuoteLedgerEntry = { ...entry, settlement_status: settlement.status };
+      if (settlement.status === "settled") {
+        updated.settled_block = settlement.block_number;
+        updated.settled_tx_hash = settlement.tx_hash;
+        updated.settled_at = settlement.settled_at;
+        if (settlement.fee_paid !== undefined) {
+          updated.settled_fee = settlement.fee_paid;
+        }
+      }
+      this.entries.put(quoteHash, updated);
+      this.unsettled.remove(quoteHash);
+    });
+  }
+
+  getSettlementCursor(): number | undefined {
+    return this.meta.get("settlement_cursor");
+  }
+
+  async setSettlementCursor(blockNumber: number): Promise<void> {
+    await this.meta.put("settlement_cursor", blockNumber);
+  }
+
+  async close(): Promise<void> {
+    await this.root.close();
+  }
+}
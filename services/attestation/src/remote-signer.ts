@@ -0,0 +1,195 @@
+import type { Fr } from "@aztec/aztec.js/fields";
+import type { QuoteSchnorrSigner } from "./signer.js";
+
+const SIGNATURE_PATTERN = /^0x[0-9a-fA-F]{128}$/;
+const FIELD_HEX_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Wire protocol shared with the signing daemon (see `signing-daemon.ts`):
+ *
+ *   POST {url}/sign        { key_id?, message_hash } -> { signature }
+ *   GET  {url}/public-key?key_id=...                  -> { key_id, x, y }
+ *   GET  {url}/health                                 -> { status: "ok" }
+ *
+ * `message_hash` is the 32-byte quote hash as 0x-hex; `signature` is the raw
+ * 64-byte Schnorr signature as 0x-hex. When an auth token is configured it is
+ * sent as `Authorization: Bearer <token>`.
+ */
+export interface RemoteQuoteSignerOptions {
+  url: string;
+  keyId?: string;
+  authToken?: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBackoffMs: number;
+  fetch?: typeof fetch;
+}
+
+export interface RemoteSignerPublicKey {
+  x: string;
+  y: string;
+}
+
+export interface RemoteSignerHealth {
+  ok: boolean;
+  latency_ms: number;
+  error?: string;
+}
+
+/**
+ * Failure talking to the signing daemon. `retryable` marks timeouts, network
+ * errors, 429 and 5xx responses; anything else (bad auth, unknown key,
+ * malformed response) fails immediately.
+ */
+export class RemoteSignerError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "RemoteSignerError";
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+async function readJson(response: Response): Promise<Record<string, unknown>> {
+  try {
+    const body: unknown = await response.json();
+    return body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function describeFailure(path: string, status: number, body: Record<string, unknown>): string {
+  const error = body.error as { message?: unknown } | undefined;
+  const detail = typeof error?.message === "string" ? `: ${error.message}` : "";
+  return `Remote signer ${path} returned HTTP ${status}${detail}`;
+}
+
+/**
+ * {@link QuoteSchnorrSigner} backed by an external signing daemon (KMS/HSM
+ * front end, Web3Signer-style service, or the reference daemon). The operator
+ * key never enters this process.
+ */
+export class RemoteQuoteSigner implements QuoteSchnorrSigner {
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: RemoteQuoteSignerOptions) {
+    this.baseUrl = options.url.replace(/\/+$/, "");
+    this.fetchImpl = options.fetch ?? globalThis.fetch;
+  }
+
+  async signQuoteHash(quoteHash: Fr): Promise<string> {
+    const body = await this.request("/sign", {
+      method: "POST",
+      body: {
+        ...(this.options.keyId ? { key_id: this.options.keyId } : {}),
+        message_hash: quoteHash.toString(),
+      },
+    });
+    const signature = body.signature;
+    if (typeof signature !== "string" || !SIGNATURE_PATTERN.test(signature)) {
+      throw new RemoteSignerError("Remote signer returned a malformed signature", false);
+    }
+    return signature.toLowerCase();
+  }
+
+  /** Public key the daemon signs with; used to check the FPC immutables at startup. */
+  async getPublicKey(): Promise<RemoteSignerPublicKey> {
+    const query = this.options.keyId ? `?key_id=${encodeURIComponent(this.options.keyId)}` : "";
+    const body = await this.request(`/public-key${query}`, { method: "GET" });
+    const { x, y } = body;
+    if (
+      typeof x !== "string" ||
+      typeof y !== "string" ||
+      !FIELD_HEX_PATTERN.test(x) ||
+      !FIELD_HEX_PATTERN.test(y)
+    ) {
+      throw new RemoteSignerError("Remote signer returned a malformed public key", false);
+    }
+    return { x, y };
+  }
+
+  /** Single attempt against `/health`; never throws. */
+  async healthCheck(): Promise<RemoteSignerHealth> {
+    const startedAt = Date.now();
+    try {
+      await this.attempt("/health", { method: "GET" });
+      return { ok: true, latency_ms: Date.now() - startedAt };
+    } catch (error) {
+      return { ok: false, latency_ms: Date.now() - startedAt, error: errorMessage(error) };
+    }
+  }
+
+  private async request(
+    path: string,
+    init: { method: "GET" | "POST"; body?: object },
+  ): Promise<Record<string, unknown>> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(path, init);
+      } catch (error) {
+        const retryable = error instanceof RemoteSignerError && error.retryable;
+        if (!retryable || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        await sleep(this.options.retryBackoffMs * 2 ** attempt);
+      }
+    }
+  }
+
+  private async attempt(
+    path: string,
+    init: { method: "GET" | "POST"; body?: object },
+  ): Promise<Record<string, unknown>> {
+    const headers: Record<string, string> = { accept: "application/json" };
+    if (init.body) {
+      headers["content-type"] = "application/json";
+    }
+    if (this.options.authToken) {
+      headers.authorization = `Bearer ${this.options.authToken}`;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        method: init.method,
+        headers,
+        ...(init.body ? { body: JSON.stringify(init.body) } : {}),
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === "TimeoutError";
+      throw new RemoteSignerError(
+        timedOut
+          ? `Remote signer ${path} timed out after ${this.options.timeoutMs}ms`
+          : `Remote signer ${path} request failed: ${errorMessage(error)}`,
+        true,
+      );
+    }
+
+    const body = await readJson(response);
+    if (!response.ok) {
+      throw new RemoteSignerError(
+        describeFailure(path, response.status, body),
+        isRetryableStatus(response.status),
+        response.status,
+      );
+    }
+    return body;
+  }
+}
@@ -1,6 +1,20 @@
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { Fr } from "@aztec/aztec.js/fields";
 import { z } from "zod";
+import { REVENUE_REPORT_PERIODS } from "./accounting.js";
+import { L1_WITHDRAWAL_MAX_LIMIT, L1_WITHDRAWAL_STATUSES } from "./l1-withdrawals.js";
+import { PriceFeedSpecSchema } from "./price-feeds.js";
+import { QuoteApiKeySettingsSchema } from "./quote-api-keys.js";
+import { QUOTE_LEDGER_MAX_LIMIT, QUOTE_SETTLEMENT_STATUSES } from "./quote-ledger.js";
+import { SpendingLimitsSchema } from "./spending-limits.js";
+import { TREASURY_SWEEP_HISTORY_MAX_LIMIT, TREASURY_SWEEP_MODES } from "./treasury-sweeps.js";
+import {
+  USER_ACCESS_MODES,
+  USER_LISTS,
+  UserEntryBodySchema,
+  UserTierBodySchema,
+  UserTierNameSchema,
+} from "./user-policies.js";
 
 const U128_MAX = (1n << 128n) - 1n;
 
@@ -111,6 +125,63 @@ export const QuoteRequestQuerySchema = z.object({
   fj_amount: positiveU128DecimalField("Missing or invalid query param: fj_amount"),
 });
 
+export const BatchQuoteRequestBodySchema = z.object({
+  user: nonZeroAztecAddressField("Missing required field: user", "Invalid user address"),
+  quotes: z
+    .array(z.unknown(), {
+      required_error: "Missing required field: quotes",
+      invalid_type_error: "quotes must be an array",
+    })
+    .min(1, "quotes must not be empty"),
+});
+
+/** One `(accepted_asset, fj_amount)` pair of a batch; validated per entry so one bad entry does not sink the batch. */
+export const BatchQuoteEntrySchema = z.object(
+  {
+    accepted_asset: nonZeroAztecAddressField(
+      "Missing required field: accepted_asset",
+      "Invalid accepted_asset address",
+    ),
+    fj_amount: positiveU128DecimalField("Missing or invalid field: fj_amount"),
+  },
+  { invalid_type_error: "Quote entry must be an object" },
+);
+
+/** Gas limits are u32 in the protocol. */
+function optionalGasLimitField(errorMessage: string) {
+  return z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (value === undefined) return undefined;
+      const trimmed = value.trim();
+      if (!/^[0-9]{1,10}$/.test(trimmed) || Number(trimmed) > 0xffff_ffff) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: errorMessage });
+        return z.NEVER;
+      }
+      return BigInt(trimmed);
+    });
+}
+
+export const PricePreviewQuerySchema = z
+  .object({
+    accepted_asset: nonZeroAztecAddressField(
+      "Missing required query param: accepted_asset",
+      "Invalid accepted_asset address",
+    ),
+    user: optionalAztecAddressField("Invalid user address"),
+    fj_amount: optionalPositiveU128DecimalField("Invalid query param: fj_amount"),
+    da_gas_limit: optionalGasLimitField("Invalid query param: da_gas_limit"),
+    l2_gas_limit: optionalGasLimitField("Invalid query param: l2_gas_limit"),
+  })
+  .refine(
+    ({ fj_amount, da_gas_limit, l2_gas_limit }) =>
+      fj_amount !== undefined
+        ? da_gas_limit === undefined && l2_gas_limit === undefined
+        : da_gas_limit !== undefined && l2_gas_limit !== undefined,
+    { message: "Provide either fj_amount or both da_gas_limit and l2_gas_limit" },
+  );
+
 export const ColdStartQuoteRequestQuerySchema = QuoteRequestQuerySchema.extend({
   claim_amount: positiveU128DecimalField("Missing or invalid query param: claim_amount"),
   claim_secret_hash: requiredHexField("claim_secret_hash"),
@@ -134,6 +205,45 @@ export const AdminAssetPolicyBodySchema = z.object({
     .int("fee_bips must be an integer in range [0, 10000]")
     .min(0, "fee_bips must be an integer in range [0, 10000]")
     .max(10000, "fee_bips must be an integer in range [0, 10000]"),
+  price_feed: PriceFeedSpecSchema.optional(),
+});
+
+export const AdminAssetPolicyRollbackBodySchema = z.object({
+  version: positiveIntegerField("version must be a positive integer"),
+});
+
+/** A policy body plus the unix-seconds time it takes effect. */
+export const AdminAssetPolicyScheduleBodySchema = AdminAssetPolicyBodySchema.extend({
+  effective_at: positiveIntegerField("effective_at must be a unix timestamp in seconds"),
+});
+
+export const AdminSpendingLimitsBodySchema = SpendingLimitsSchema;
+
+export const AdminQuoteApiKeyBodySchema = QuoteApiKeySettingsSchema;
+
+export const AdminUserAccessBodySchema = z.object({
+  access_mode: z.enum(USER_ACCESS_MODES, {
+    errorMap: () => ({
+      message: `Invalid access_mode (expected one of ${USER_ACCESS_MODES.join(", ")})`,
+    }),
+  }),
+});
+
+export const AdminUserTierBodySchema = UserTierBodySchema;
+
+export const AdminUserEntryBodySchema = UserEntryBodySchema;
+
+export const AdminUserTierNameSchema = UserTierNameSchema;
+
+export const AdminUserListQuerySchema = z.object({
+  list: z
+    .enum(USER_LISTS, {
+      errorMap: () => ({
+        message: `Invalid query param: list (expected one of ${USER_LISTS.join(", ")})`,
+      }),
+    })
+    .optional(),
+  tier: UserTierNameSchema.optional(),
 });
 
 export const AdminSweepRequestBodySchema = z.object({
@@ -146,9 +256,128 @@ export const AdminSweepRequestBodySchema = z.object({
     .min(1, "Missing required field: accepted_asset"),
   destination: z.string().trim().optional(),
   amount: optionalPositiveU128DecimalField("Missing or invalid field: amount"),
+  mode: z
+    .enum(TREASURY_SWEEP_MODES, {
+      errorMap: () => ({
+        message: `Invalid field: mode (expected one of ${TREASURY_SWEEP_MODES.join(", ")})`,
+      }),
+    })
+    .default("l2"),
 });
 
+/** Optional unix-seconds timestamp query param, transforming to bigint. */
+function optionalUnixSecondsField(errorMessage: string) {
+  return z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (value === undefined) return undefined;
+      const trimmed = value.trim();
+      if (!/^[0-9]{1,12}$/.test(trimmed)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: errorMessage });
+        return z.NEVER;
+      }
+      return BigInt(trimmed);
+    });
+}
+
+function optionalAztecAddressField(invalidMessage: string) {
+  return z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (value === undefined) return undefined;
+      try {
+        return AztecAddress.fromString(value.trim()).toString();
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: invalidMessage });
+        return z.NEVER;
+      }
+    });
+}
+
+function optionalLimitField(max: number) {
+  return z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (value === undefined) return undefined;
+      const parsed = Number(value.trim());
+      if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Invalid query param: limit (expected integer in range [1, ${max}])`,
+        });
+        return z.NEVER;
+      }
+      return parsed;
+    });
+}
+
+export const AdminQuoteLedgerQuerySchema = z
+  .object({
+    user: optionalAztecAddressField("Invalid user address"),
+    accepted_asset: optionalAztecAddressField("Invalid accepted_asset address"),
+    from: optionalUnixSecondsField("Invalid query param: from (expected unix seconds)"),
+    to: optionalUnixSecondsField("Invalid query param: to (expected unix seconds)"),
+    status: z
+      .enum(QUOTE_SETTLEMENT_STATUSES, {
+        errorMap: () => ({
+          message: `Invalid query param: status (expected one of ${QUOTE_SETTLEMENT_STATUSES.join(", ")})`,
+        }),
+      })
+      .optional(),
+    limit: optionalLimitField(QUOTE_LEDGER_MAX_LIMIT),
+  })
+  .refine(({ from, to }) => from === undefined || to === undefined || from <= to, {
+    message: "Invalid time range: from must be <= to",
+  });
+
+export const AdminSweepHistoryQuerySchema = z.object({
+  accepted_asset: optionalAztecAddressField("Invalid accepted_asset address"),
+  limit: optionalLimitField(TREASURY_SWEEP_HISTORY_MAX_LIMIT),
+});
+
+export const AdminL1WithdrawalQuerySchema = z.object({
+  accepted_asset: optionalAztecAddressField("Invalid accepted_asset address"),
+  status: z
+    .enum(L1_WITHDRAWAL_STATUSES, {
+      errorMap: () => ({
+        message: `Invalid query param: status (expected one of ${L1_WITHDRAWAL_STATUSES.join(", ")})`,
+      }),
+    })
+    .optional(),
+  limit: optionalLimitField(L1_WITHDRAWAL_MAX_LIMIT),
+});
+
+export const AdminRevenueReportQuerySchema = z
+  .object({
+    accepted_asset: optionalAztecAddressField("Invalid accepted_asset address"),
+    from: optionalUnixSecondsField("Invalid query param: from (expected unix seconds)"),
+    to: optionalUnixSecondsField("Invalid query param: to (expected unix seconds)"),
+    period: z
+      .enum(REVENUE_REPORT_PERIODS, {
+        errorMap: () => ({
+          message: `Invalid query param: period (expected one of ${REVENUE_REPORT_PERIODS.join(", ")})`,
+        }),
+      })
+      .default("day"),
+    format: z
+      .enum(["json", "csv"], {
+        errorMap: () => ({ message: "Invalid query param: format (expected one of json, csv)" }),
+      })
+      .default("json"),
+  })
+  .refine(({ from, to }) => from === undefined || to === undefined || from <= to, {
+    message: "Invalid time range: from must be <= to",
+  });
+
 export const AdminAssetAddressSchema = nonZeroAztecAddressField(
   "Missing asset address",
   "Invalid asset address",
 );
+
+export const AdminUserAddressSchema = nonZeroAztecAddressField(
+  "Missing user address",
+  "Invalid user address",
+);
@@ -0,0 +1,184 @@
+import { z } from "zod";
+import type { Config } from "./config.js";
+import type { AttestationMetrics } from "./metrics.js";
+
+const U128_MAX = (1n << 128n) - 1n;
+
+const FeeJuiceAmountSchema = z
+  .string()
+  .trim()
+  .regex(/^(0|[1-9][0-9]*)$/, "must be a non-negative integer decimal string")
+  .refine((value) => BigInt(value) <= U128_MAX, "must fit in u128");
+
+/** One point of the pricing curve: at `balance` Fee Juice, `fee_bips` moves by `surcharge_bips`. */
+export const ReservePricingPointSchema = z.object({
+  balance: FeeJuiceAmountSchema,
+  /** Negative values are discounts. */
+  surcharge_bips: z.number().int().min(-10000).max(10000),
+});
+
+export type ReservePricingPoint = z.infer<typeof ReservePricingPointSchema>;
+
+export const ReservePricingSchema = z.object({
+  /** Points in increasing `balance` order; the surcharge is interpolated between them. */
+  curve: z
+    .array(ReservePricingPointSchema)
+    .min(1)
+    .refine(
+      (points) =>
+        points.every(
+          (point, index) =>
+            index === 0 || BigInt(point.balance) > BigInt(points[index - 1].balance),
+        ),
+      "curve balances must be strictly increasing",
+    ),
+  refresh_interval_seconds: z.number().int().positive().default(30),
+  /** A balance older than this counts as unknown, which prices as an empty reserve. */
+  max_staleness_seconds: z.number().int().positive().default(120),
+});
+
+export type ReservePricingConfig = z.infer<typeof ReservePricingSchema>;
+
+/**
+ * Surcharge for a reserve balance: linear between the two surrounding curve
+ * points, and flat at the first or last point outside the curve. Rounds
+ * toward the higher surcharge so a partial step never undercharges.
+ */
+export function reserveSurchargeBips(curve: ReservePricingPoint[], balance: bigint): number {
+  const upper = curve.findIndex((point) => balance <= BigInt(point.balance));
+  if (upper === 0) {
+    return curve[0].surcharge_bips;
+  }
+  if (upper === -1) {
+    return curve[curve.length - 1].surcharge_bips;
+  }
+  const low = curve[upper - 1];
+  const high = curve[upper];
+  const span = BigInt(high.balance) - BigInt(low.balance);
+  const delta = BigInt(high.surcharge_bips - low.surcharge_bips) * (balance - BigInt(low.balance));
+  const step = delta >= 0n ? (delta + span - 1n) / span : delta / span;
+  return low.surcharge_bips + Number(step);
+}
+
+export type FeeJuiceReserveStatus = "ok" | "pending" | "error" | "stale";
+
+export interface FeeJuiceReserveSnapshot {
+  status: FeeJuiceReserveStatus;
+  /** Last Fee Juice balance read for the FPC, in wei. */
+  balance?: string;
+  updated_at?: string;
+  last_error?: string;
+  /** Surcharge quotes currently get; the empty-reserve surcharge unless `status` is `ok`. */
+  surcharge_bips: number;
+}
+
+interface ReserveLogger {
+  warn(obj: object, msg: string): void;
+}
+
+export interface FeeJuiceReserveMonitorDependencies {
+  nowMs?: () => number;
+  logger?: ReserveLogger;
+  metrics?: AttestationMetrics;
+}
+
+/**
+ * Polls the FPC's Fee Juice balance and prices quotes along the configured
+ * reserve curve: a draining reserve raises `fee_bips` to slow demand, a
+ * healthy one can discount it. Until a balance has been read, or once the
+ * last read is stale, the reserve is priced as empty.
+ */
+export class FeeJuiceReserveMonitor {
+  private readonly nowMs: () => number;
+  private intervalHandle?: NodeJS.Timeout;
+  private inFlightRefresh?: Promise<void>;
+  private balance?: bigint;
+  private updatedAtMs?: number;
+  private lastError?: string;
+
+  constructor(
+    private readonly config: Pick<Config, "fpc_address"> & {
+      reserve_pricing: ReservePricingConfig;
+    },
+    private readonly getBalance: () => Promise<bigint>,
+    private readonly deps: FeeJuiceReserveMonitorDependencies = {},
+  ) {
+    this.nowMs = deps.nowMs ?? Date.now;
+  }
+
+  async start(): Promise<void> {
+    if (this.intervalHandle) {
+      return;
+    }
+    await this.refresh();
+    this.intervalHandle = setInterval(() => {
+      void this.refresh();
+    }, this.config.reserve_pricing.refresh_interval_seconds * 1000);
+    this.intervalHandle.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = undefined;
+    }
+    await this.inFlightRefresh;
+  }
+
+  refresh(): Promise<void> {
+    if (!this.inFlightRefresh) {
+      this.inFlightRefresh = this.readBalance().finally(() => {
+        this.inFlightRefresh = undefined;
+      });
+    }
+    return this.inFlightRefresh;
+  }
+
+  /** Surcharge to add to `fee_bips` for a quote priced now. */
+  surchargeBips(): number {
+    const balance = this.statusOf() === "ok" ? (this.balance ?? 0n) : 0n;
+    return reserveSurchargeBips(this.config.reserve_pricing.curve, balance);
+  }
+
+  snapshot(): FeeJuiceReserveSnapshot {
+    return {
+      status: this.statusOf(),
+      balance: this.balance?.toString(),
+      updated_at:
+        this.updatedAtMs === undefined ? undefined : new Date(this.updatedAtMs).toISOString(),
+      last_error: this.lastError,
+      surcharge_bips: this.surchargeBips(),
+    };
+  }
+
+  private statusOf(): FeeJuiceReserveStatus {
+    if (this.updatedAtMs === undefined) {
+      return this.lastError ? "error" : "pending";
+    }
+    const maxAgeMs = this.config.reserve_pricing.max_staleness_seconds * 1000;
+    return this.nowMs() - this.updatedAtMs > maxAgeMs ? "stale" : "ok";
+  }
+
+  private async readBalance(): Promise<void> {
+    try {
+      this.balance = await this.getBalance();
+      this.updatedAtMs = this.nowMs();
+      this.lastError = undefined;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.deps.logger?.warn(
+        {
+          event: "fee_juice_reserve_read_failed",
+          fpc_address: this.config.fpc_address,
+          err: error,
+        },
+        "Failed to read the FPC Fee Juice balance",
+      );
+    }
+    this.deps.metrics?.setFeeJuiceReserve(
+      this.config.fpc_address,
+      this.balance?.toString(),
+      this.surchargeBips(),
+    );
+  }
+}
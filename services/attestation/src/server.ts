@@ -1,26 +1,102 @@
-import { createHash, timingSafeEqual } from "node:crypto";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import type { Fr } from "@aztec/aztec.js/fields";
-import Fastify, { type FastifyInstance, type FastifyRequest } from "fastify";
+import Fastify, { type FastifyInstance, type FastifyReply, type FastifyRequest } from "fastify";
 import rateLimit from "fastify-rate-limit";
-import { type AssetPolicyStore, LmdbAssetPolicyStore } from "./asset-policy-store.js";
+import {
+  buildRevenueReport,
+  periodStarts,
+  REVENUE_REPORT_DEFAULT_RANGE_SECONDS,
+  REVENUE_REPORT_MAX_PERIODS,
+  revenueReportCsv,
+} from "./accounting.js";
+import { AdminKeyring, type AdminRole } from "./admin-keys.js";
+import {
+  type AssetPolicyChangeContext,
+  AssetPolicyScheduler,
+  type AssetPolicyStore,
+  openAssetPolicyStore,
+} from "./asset-policy-store.js";
 import {
   type Config,
   computeFinalRate,
   modeNeedsApiKey,
   type SupportedAssetPolicy,
 } from "./config.js";
+import {
+  L1AddressSchema,
+  type L1SweepResult,
+  type L1WithdrawalChain,
+  type L1WithdrawalStore,
+  L1WithdrawalTracker,
+  LmdbL1WithdrawalStore,
+} from "./l1-withdrawals.js";
 import { AttestationMetrics, type QuoteOutcome } from "./metrics.js";
-import type { OperatorTreasuryPort } from "./operator-treasury.js";
+import type { OperatorTreasuryPort, SweepResult } from "./operator-treasury.js";
+import { PriceFeedMonitor, type PriceFeedSpec } from "./price-feeds.js";
+import {
+  openQuoteApiKeyStore,
+  type QuoteApiKeyBudgetReservation,
+  type QuoteApiKeyQuotaViolation,
+  type QuoteApiKeyRecord,
+  QuoteApiKeyRegistry,
+  type QuoteApiKeyStore,
+} from "./quote-api-keys.js";
+import { loadQuoteClients, type QuoteClient, QuoteRequestAuthenticator } from "./quote-clients.js";
+import { LmdbQuoteLedger, type QuoteLedger, type QuoteLedgerEntry } from "./quote-ledger.js";
+import type { RemoteSignerHealth } from "./remote-signer.js";
 import {
   AdminAssetAddressSchema,
   AdminAssetPolicyBodySchema,
+  AdminAssetPolicyRollbackBodySchema,
+  AdminAssetPolicyScheduleBodySchema,
+  AdminL1WithdrawalQuerySchema,
+  AdminQuoteApiKeyBodySchema,
+  AdminQuoteLedgerQuerySchema,
+  AdminRevenueReportQuerySchema,
+  AdminSpendingLimitsBodySchema,
+  AdminSweepHistoryQuerySchema,
   AdminSweepRequestBodySchema,
+  AdminUserAccessBodySchema,
+  AdminUserAddressSchema,
+  AdminUserEntryBodySchema,
+  AdminUserListQuerySchema,
+  AdminUserTierBodySchema,
+  AdminUserTierNameSchema,
+  BatchQuoteEntrySchema,
+  BatchQuoteRequestBodySchema,
   ColdStartQuoteRequestQuerySchema,
+  PricePreviewQuerySchema,
   QuoteRequestQuerySchema,
 } from "./request-schemas.js";
+import { FeeJuiceReserveMonitor } from "./reserve-pricing.js";
+import { type SettlementChainSource, SettlementWatcher } from "./settlement-watcher.js";
+import {
+  createSharedRateLimitStore,
+  InMemorySharedState,
+  type SharedStateBackend,
+} from "./shared-state.js";
 import type { ColdStartQuoteParams, QuoteSchnorrSigner } from "./signer.js";
-import { signColdStartQuote, signQuote, signRateQuote } from "./signer.js";
+import { computeColdStartQuoteHash, computeQuoteHash, computeRateQuoteHash } from "./signer.js";
+import { LmdbSpendingLimitStore, type SpendingLimitStore } from "./spending-limit-store.js";
+import {
+  SpendingLimiter,
+  type SpendingLimitViolation,
+  type SpendingRequest,
+  type SpendingReservation,
+} from "./spending-limits.js";
+import { LmdbTopupHistory, type TopupBridge, type TopupHistory } from "./topup-history.js";
+import {
+  LmdbTreasurySweepHistory,
+  sweepSucceeded,
+  type TreasurySweepHistory,
+  type TreasurySweepMode,
+  type TreasurySweepRecord,
+  TreasurySweepScheduler,
+} from "./treasury-sweeps.js";
+import { applyUserTier, type UserClassification, type UserTier } from "./user-policies.js";
+import { LmdbUserPolicyStore, type UserPolicyStore } from "./user-policy-store.js";
 
 function badRequest(message: string) {
   return { error: { code: "BAD_REQUEST", message } };
@@ -34,12 +110,30 @@ function conflict(message: string) {
   return { error: { code: "CONFLICT", message } };
 }
 
+function forbidden(message: string) {
+  return { error: { code: "FORBIDDEN", message } };
+}
+
 function serviceUnavailable(message: string) {
   return {
     error: { code: "SERVICE_UNAVAILABLE", message },
   };
 }
 
+function spendingLimitExceeded(violation: SpendingLimitViolation) {
+  const { code, message, ...details } = violation;
+  return { error: { code, message, details } };
+}
+
+function apiKeyQuotaExceeded(violation: QuoteApiKeyQuotaViolation) {
+  const { code, message, ...details } = violation;
+  return { error: { code, message, details } };
+}
+
+function userDenied() {
+  return { error: { code: "USER_DENIED", message: "User is not allowed to request quotes" } };
+}
+
 function rateLimited() {
   return {
     error: { code: "RATE_LIMITED", message: "Too many quote requests" },
@@ -74,16 +168,16 @@ function headerMatchesSecret(
 function isQuoteAuthorized(
   config: Config,
   headers: Record<string, string | string[] | undefined>,
+  apiKey: QuoteApiKeyRecord | undefined,
 ): boolean {
   const mode = config.quote_auth.mode;
   if (mode === "disabled") {
     return true;
   }
 
-  const apiKeyAuthorized = headerMatchesSecret(
-    headers[config.quote_auth.apiKeyHeader],
-    config.quote_auth.apiKey,
-  );
+  const apiKeyAuthorized =
+    apiKey !== undefined ||
+    headerMatchesSecret(headers[config.quote_auth.apiKeyHeader], config.quote_auth.apiKey);
   const trustedHeaderAuthorized = headerMatchesSecret(
     config.quote_auth.trustedHeaderName ? headers[config.quote_auth.trustedHeaderName] : undefined,
     config.quote_auth.trustedHeaderValue,
@@ -103,14 +197,96 @@ function isQuoteAuthorized(
   }
 }
 
-function isAdminAuthorized(
-  config: Config,
-  headers: Record<string, string | string[] | undefined>,
-): boolean {
-  if (!config.admin_auth.enabled) {
-    return false;
+interface QuoteAuthorization {
+  /** The admin-issued key the request presented, if any. */
+  apiKey?: QuoteApiKeyRecord;
+}
+
+/** The presented admin-issued quote API key, if it is active. */
+function authenticateQuoteApiKey(
+  context: Pick<ServerContext, "config" | "quoteApiKeys">,
+  req: FastifyRequest,
+  nowSeconds: bigint,
+): QuoteApiKeyRecord | undefined {
+  const { config, quoteApiKeys } = context;
+  if (!quoteApiKeys) {
+    return undefined;
+  }
+  return quoteApiKeys.authenticate(
+    firstHeaderValue(req.headers[config.quote_auth.apiKeyHeader]),
+    nowSeconds,
+  );
+}
+
+/**
+ * Quote endpoint auth for every mode; `undefined` when the request is not
+ * authorized. Requests authenticated as a registered client (`hmac`/`mtls`)
+ * or with an admin-issued API key carry its id on their log lines from here on.
+ */
+async function authorizeQuoteRequest(
+  context: Pick<ServerContext, "config" | "quoteApiKeys" | "quoteAuthenticator">,
+  req: FastifyRequest,
+  nowSeconds: bigint,
+): Promise<QuoteAuthorization | undefined> {
+  const { config, quoteAuthenticator } = context;
+  if (!quoteAuthenticator) {
+    const apiKey = authenticateQuoteApiKey(context, req, nowSeconds);
+    if (!isQuoteAuthorized(config, req.headers, apiKey)) {
+      return undefined;
+    }
+    if (apiKey) {
+      req.log = req.log.child({ quote_api_key_id: apiKey.id });
+    }
+    return { apiKey };
+  }
+  const result = await quoteAuthenticator.authenticate(req);
+  if (!result.ok) {
+    req.log.info(
+      {
+        event: "quote_client_auth_failed",
+        reason: result.reason,
+        quote_client_id: result.clientId,
+      },
+      "Quote client authentication failed",
+    );
+    return undefined;
+  }
+  req.log = req.log.child({ quote_client_id: result.client.id });
+  return {};
+}
+
+/**
+ * Counts the request against its API key's quota, or replies 429. Returns
+ * whether the request may proceed.
+ */
+async function consumeApiKeyQuota(
+  context: ServerContext,
+  req: FastifyRequest,
+  reply: FastifyReply,
+  authorization: QuoteAuthorization,
+  nowSeconds: bigint,
+): Promise<boolean> {
+  const { apiKey } = authorization;
+  if (!apiKey || !context.quoteApiKeys) {
+    return true;
+  }
+  const violation = await context.quoteApiKeys.consumeRequest(apiKey, nowSeconds);
+  if (!violation) {
+    return true;
   }
-  return headerMatchesSecret(headers[config.admin_auth.apiKeyHeader], config.admin_auth.apiKey);
+  req.log.warn(
+    {
+      event: "quote_api_key_quota_exceeded",
+      max_requests: violation.max_requests,
+      window_seconds: violation.window_seconds,
+    },
+    "Rejected quote request over API key quota",
+  );
+  void reply
+    .code(429)
+    .header("retry-after", String(violation.retry_after_seconds))
+    .send(apiKeyQuotaExceeded(violation));
+  return false;
 }
 
 function firstHeaderValue(value: string | string[] | undefined): string | undefined {
@@ -158,14 +334,22 @@ function resolveQuoteBaseUrl(
 
 interface QuoteRateLimitIdentity {
   cacheKey: string;
-  kind: "ip" | "api_key";
+  kind: "ip" | "api_key" | "client";
 }
 
 function resolveQuoteRateLimitIdentity(
   config: Config,
   headers: Record<string, string | string[] | undefined>,
   remoteIp: string,
+  client?: QuoteClient,
+  apiKey?: QuoteApiKeyRecord,
 ): QuoteRateLimitIdentity {
+  if (client) {
+    return { cacheKey: `client:${client.id}`, kind: "client" };
+  }
+  if (apiKey) {
+    return { cacheKey: `api_key:${apiKey.id}`, kind: "api_key" };
+  }
   if (modeNeedsApiKey(config.quote_auth.mode)) {
     const apiKeyCandidate = firstHeaderValue(headers[config.quote_auth.apiKeyHeader]);
     if (apiKeyCandidate && headerMatchesSecret(apiKeyCandidate, config.quote_auth.apiKey)) {
@@ -192,14 +376,104 @@ interface AdminAssetPolicyBody {
   market_rate_num?: number;
   market_rate_den?: number;
   fee_bips?: number;
+  price_feed?: PriceFeedSpec;
+}
+
+interface AdminAssetPolicyRollbackBody {
+  version?: number;
+}
+
+interface AdminAssetPolicyScheduleBody extends AdminAssetPolicyBody {
+  effective_at?: number;
+}
+
+interface AdminScheduledChangeParams extends AdminAssetPolicyParams {
+  changeId: string;
+}
+
+interface AdminQuoteLedgerQuery {
+  user?: string;
+  accepted_asset?: string;
+  from?: string;
+  to?: string;
+  status?: string;
+  limit?: string;
+}
+
+interface AdminRevenueReportQuery {
+  accepted_asset?: string;
+  from?: string;
+  to?: string;
+  period?: string;
+  format?: string;
+}
+
+interface AdminQuoteApiKeyParams {
+  keyId: string;
+}
+
+interface AdminUserTierParams {
+  name: string;
+}
+
+interface AdminUserParams {
+  address: string;
+}
+
+interface AdminUserListQuery {
+  list?: string;
+  tier?: string;
+}
+
+interface AdminSweepHistoryQuery {
+  accepted_asset?: string;
+  limit?: string;
 }
 
 interface AdminSweepRequestBody {
   accepted_asset?: string;
   destination?: string;
   amount?: string;
+  mode?: string;
+}
+
+interface AdminL1WithdrawalQuery {
+  accepted_asset?: string;
+  status?: string;
+  limit?: string;
+}
+
+interface PricePreviewQuery {
+  accepted_asset?: string;
+  user?: string;
+  fj_amount?: string;
+  da_gas_limit?: string;
+  l2_gas_limit?: string;
+}
+
+interface BatchQuoteRequestBody {
+  user?: string;
+  quotes?: unknown[];
+}
+
+interface BatchQuoteContext {
+  /** Recorded on every ledger entry of the batch, so `restore` can charge it once. */
+  batchId: string;
+  apiKey?: QuoteApiKeyRecord;
+  userAddress: AztecAddress;
+  userTier?: UserTier;
+  nowSeconds: bigint;
+  validUntil: (nowSeconds: bigint) => bigint;
+}
+
+interface BatchQuoteEntryError {
+  accepted_asset?: string;
+  fj_amount?: string;
+  error: { code: string; message: string; details?: object };
 }
 
+type BatchQuoteEntryResult = ReturnType<typeof buildQuoteResponse> | BatchQuoteEntryError;
+
 interface ColdStartQuoteRequestQuery extends QuoteRequestQuery {
   claim_amount?: string;
   claim_secret_hash?: string;
@@ -210,17 +484,28 @@ interface ParsedQuoteRequest {
   acceptedAsset: AztecAddress;
   selectedAssetPolicy: SupportedAssetPolicy;
   fjFeeAmount: bigint;
+  userTier?: UserTier;
+}
+
+type UserDenialReason = Extract<UserClassification, { allowed: false }>["reason"];
+
+interface QuoteRequestRejection {
+  ok: false;
+  message: string;
+  denial?: { user: string; reason: UserDenialReason };
 }
 
-type QuoteRequestParseResult =
-  | { ok: true; value: ParsedQuoteRequest }
-  | { ok: false; message: string };
+type QuoteRequestParseResult = { ok: true; value: ParsedQuoteRequest } | QuoteRequestRejection;
 
 interface QuotePricing {
   rateNum: bigint;
   rateDen: bigint;
   validUntil: bigint;
   aaPaymentAmount: bigint;
+  /** Margin the rate was computed with, after any reserve surcharge. */
+  feeBips: number;
+  /** Change to `fee_bips` from reserve pricing; absent when reserve pricing is off. */
+  reserveSurchargeBips?: number;
 }
 
 type QuotePricingResult = { ok: true; value: QuotePricing } | { ok: false; message: string };
@@ -239,8 +524,43 @@ function createQuoteObserver(metrics: AttestationMetrics): (outcome: QuoteOutcom
   };
 }
 
+function classifyQuoteUser(
+  userPolicies: UserPolicyStore,
+  userAddress: AztecAddress | string,
+): { ok: true; tier?: UserTier } | QuoteRequestRejection {
+  const user = userAddress.toString();
+  const classification = userPolicies.classify(user);
+  if (!classification.allowed) {
+    return {
+      ok: false,
+      message: userDenied().error.message,
+      denial: { user, reason: classification.reason },
+    };
+  }
+  return { ok: true, tier: classification.tier };
+}
+
+function rejectQuoteRequest(
+  req: FastifyRequest,
+  reply: FastifyReply,
+  observe: (outcome: QuoteOutcome) => void,
+  rejection: QuoteRequestRejection,
+) {
+  if (rejection.denial) {
+    req.log.warn(
+      { event: "quote_user_denied", user: rejection.denial.user, reason: rejection.denial.reason },
+      "Rejected quote request for denied user",
+    );
+    observe("user_denied");
+    return reply.code(403).send(userDenied());
+  }
+  observe("bad_request");
+  return reply.code(400).send(badRequest(rejection.message));
+}
+
 function parseQuoteRequest(
   assetPolicyStore: AssetPolicyStore,
+  userPolicies: UserPolicyStore,
   query: QuoteRequestQuery,
 ): QuoteRequestParseResult {
   const result = QuoteRequestQuerySchema.safeParse(query);
@@ -253,6 +573,10 @@ function parseQuoteRequest(
   if (!selectedAssetPolicy) {
     return { ok: false, message: "Unsupported accepted_asset" };
   }
+  const classification = classifyQuoteUser(userPolicies, user);
+  if (!classification.ok) {
+    return classification;
+  }
 
   return {
     ok: true,
@@ -261,6 +585,7 @@ function parseQuoteRequest(
       acceptedAsset: accepted_asset,
       selectedAssetPolicy,
       fjFeeAmount: fj_amount,
+      userTier: classification.tier,
     },
   };
 }
@@ -272,10 +597,11 @@ interface ParsedColdStartQuoteRequest extends ParsedQuoteRequest {
 
 type ColdStartQuoteRequestParseResult =
   | { ok: true; value: ParsedColdStartQuoteRequest }
-  | { ok: false; message: string };
+  | QuoteRequestRejection;
 
 function parseColdStartQuoteRequest(
   assetPolicyStore: AssetPolicyStore,
+  userPolicies: UserPolicyStore,
   query: ColdStartQuoteRequestQuery,
 ): ColdStartQuoteRequestParseResult {
   const result = ColdStartQuoteRequestQuerySchema.safeParse(query);
@@ -288,6 +614,10 @@ function parseColdStartQuoteRequest(
   if (!selectedAssetPolicy) {
     return { ok: false, message: "Unsupported accepted_asset" };
   }
+  const classification = classifyQuoteUser(userPolicies, user);
+  if (!classification.ok) {
+    return classification;
+  }
 
   return {
     ok: true,
@@ -296,6 +626,7 @@ function parseColdStartQuoteRequest(
       acceptedAsset: accepted_asset,
       selectedAssetPolicy,
       fjFeeAmount: fj_amount,
+      userTier: classification.tier,
       claimAmount: claim_amount,
       claimSecretHash: claim_secret_hash,
     },
@@ -307,8 +638,12 @@ function computeQuotePricing(
   fjFeeAmount: bigint,
   nowSeconds: bigint,
   validUntil: (nowSeconds: bigint) => bigint,
+  reserveSurchargeBips: number | undefined,
 ): QuotePricingResult {
-  const { rate_num, rate_den } = computeFinalRate(selectedAssetPolicy);
+  const { rate_num, rate_den, fee_bips } = computeFinalRate(
+    selectedAssetPolicy,
+    reserveSurchargeBips,
+  );
   const quoteValidUntil = validUntil(nowSeconds);
   const aaPaymentAmount = ceilDiv(fjFeeAmount * rate_num, rate_den);
   if (!isU128(aaPaymentAmount) || aaPaymentAmount <= 0n) {
@@ -322,11 +657,20 @@ function computeQuotePricing(
       rateDen: rate_den,
       validUntil: quoteValidUntil,
       aaPaymentAmount,
+      feeBips: fee_bips,
+      ...(reserveSurchargeBips === undefined
+        ? {}
+        : { reserveSurchargeBips: fee_bips - selectedAssetPolicy.fee_bips }),
     },
   };
 }
 
-function signQuoteForRequest(
+interface SignedQuote {
+  quoteHash: Fr;
+  signature: string;
+}
+
+async function signQuoteForRequest(
   config: Config,
   quoteSigner: QuoteSchnorrSigner,
   params: {
@@ -339,26 +683,79 @@ function signQuoteForRequest(
     rateNum: bigint;
     rateDen: bigint;
   },
-): Promise<string> {
-  if (config.quote_format === "rate_quote") {
-    return signRateQuote(quoteSigner, {
-      fpcAddress: params.fpcAddress,
-      acceptedAsset: params.acceptedAsset,
-      rateNum: params.rateNum,
-      rateDen: params.rateDen,
-      validUntil: params.validUntil,
-      userAddress: params.userAddress,
-    });
-  }
+): Promise<SignedQuote> {
+  const quoteHash =
+    config.quote_format === "rate_quote"
+      ? await computeRateQuoteHash({
+          fpcAddress: params.fpcAddress,
+          acceptedAsset: params.acceptedAsset,
+          rateNum: params.rateNum,
+          rateDen: params.rateDen,
+          validUntil: params.validUntil,
+          userAddress: params.userAddress,
+        })
+      : await computeQuoteHash({
+          fpcAddress: params.fpcAddress,
+          acceptedAsset: params.acceptedAsset,
+          fjFeeAmount: params.fjFeeAmount,
+          aaPaymentAmount: params.aaPaymentAmount,
+          validUntil: params.validUntil,
+          userAddress: params.userAddress,
+        });
+
+  return { quoteHash, signature: await quoteSigner.signQuoteHash(quoteHash) };
+}
 
-  return signQuote(quoteSigner, {
-    fpcAddress: params.fpcAddress,
-    acceptedAsset: params.acceptedAsset,
-    fjFeeAmount: params.fjFeeAmount,
-    aaPaymentAmount: params.aaPaymentAmount,
-    validUntil: params.validUntil,
-    userAddress: params.userAddress,
-  });
+function buildLedgerEntry(
+  config: Config,
+  pricedPolicy: SupportedAssetPolicy,
+  issuedAt: bigint,
+  quote: {
+    kind: QuoteLedgerEntry["kind"];
+    batchId?: string;
+    userAddress: AztecAddress;
+    userTier?: UserTier;
+    fjFeeAmount: bigint;
+    pricing: QuotePricing;
+    signed: SignedQuote;
+  },
+): QuoteLedgerEntry {
+  return {
+    quote_hash: quote.signed.quoteHash.toString(),
+    kind: quote.kind,
+    fpc_address: config.fpc_address,
+    quote_format: quote.kind === "cold_start_quote" ? "amount_quote" : config.quote_format,
+    user: quote.userAddress.toString(),
+    accepted_asset: pricedPolicy.address,
+    fj_amount: quote.fjFeeAmount.toString(),
+    aa_payment_amount: quote.pricing.aaPaymentAmount.toString(),
+    market_rate_num: pricedPolicy.market_rate_num,
+    market_rate_den: pricedPolicy.market_rate_den,
+    fee_bips: quote.pricing.feeBips,
+    rate_num: quote.pricing.rateNum.toString(),
+    rate_den: quote.pricing.rateDen.toString(),
+    issued_at: issuedAt.toString(),
+    valid_until: quote.pricing.validUntil.toString(),
+    signature: quote.signed.signature,
+    settlement_status: "unused",
+    ...(quote.batchId ? { batch_id: quote.batchId } : {}),
+    ...(quote.userTier ? { user_tier: quote.userTier.name } : {}),
+    ...(quote.pricing.reserveSurchargeBips === undefined
+      ? {}
+      : { reserve_surcharge_bips: quote.pricing.reserveSurchargeBips }),
+  };
+}
+
+async function recordIssuedQuote(
+  context: ServerContext,
+  entry: QuoteLedgerEntry,
+  apiKey: QuoteApiKeyRecord | undefined,
+): Promise<void> {
+  await context.quoteLedger.record(entry);
+  context.metrics.observeQuoteIssued(entry.accepted_asset);
+  if (apiKey) {
+    await context.quoteApiKeys?.countIssuedQuote(apiKey, BigInt(entry.fj_amount));
+  }
 }
 
 function buildQuoteResponse(
@@ -370,6 +767,7 @@ function buildQuoteResponse(
   signature: string,
   rateNum: bigint,
   rateDen: bigint,
+  reserveSurchargeBips: number | undefined,
 ) {
   const baseResponse = {
     accepted_asset: selectedAssetPolicy.address,
@@ -377,6 +775,7 @@ function buildQuoteResponse(
     aa_payment_amount: aaPaymentAmount.toString(),
     valid_until: validUntil.toString(),
     signature,
+    ...(reserveSurchargeBips === undefined ? {} : { reserve_surcharge_bips: reserveSurchargeBips }),
   };
   if (config.quote_format === "rate_quote") {
     return {
@@ -392,40 +791,133 @@ export interface QuoteClock {
   nowUnixSeconds?: () => Promise<bigint> | bigint;
 }
 
+/** Current L2 minimum fees per unit of gas, used to turn gas limits into `fj_amount`. */
+export interface CurrentGasFees {
+  feePerDaGas: bigint;
+  feePerL2Gas: bigint;
+}
+
 export interface BuildServerDependencies extends QuoteClock {
+  /** Admin credentials; built from `config.admin_auth` when omitted. */
+  adminKeys?: AdminKeyring;
   assetPolicyStore?: AssetPolicyStore;
+  /** Fee source for `/price` gas-limit previews; those previews return 503 without it. */
+  currentGasFees?: () => Promise<CurrentGasFees>;
+  priceFeeds?: PriceFeedMonitor;
+  /** Reads the FPC's Fee Juice balance; `reserve_pricing` is ignored without it. */
+  feeJuiceBalance?: () => Promise<bigint>;
+  quoteLedger?: QuoteLedger;
+  /** Chain access for the settlement watcher; the watcher is off without it. */
+  settlementSource?: SettlementChainSource;
+  /** Remote signer probe; when set, `/health` reports 503 while the signer is unreachable. */
+  signerHealthCheck?: () => Promise<RemoteSignerHealth>;
+  spendingLimitStore?: SpendingLimitStore;
   treasury?: OperatorTreasuryPort;
+  treasurySweepHistory?: TreasurySweepHistory;
+  /** L1 side of `l1` mode sweeps; those sweeps return 503 without it (or without a treasury). */
+  l1WithdrawalChain?: L1WithdrawalChain;
+  l1WithdrawalStore?: L1WithdrawalStore;
+  /** Top-up bridge history for the revenue report; read from `topup_data_dir` when omitted. */
+  topupHistory?: TopupHistory;
+  userPolicies?: UserPolicyStore;
+  /** Admin-issued quote API keys; opened from config in the api_key auth modes when omitted. */
+  quoteApiKeyStore?: QuoteApiKeyStore;
+  /**
+   * Backend shared with other replicas, holding rate-limit counters and (unless
+   * `assetPolicyStore` is given) asset policies. The caller owns and closes it.
+   */
+  sharedState?: SharedStateBackend;
+  /** Extra FPCs served under `/fpcs/<id>` next to the top-level one. */
+  additionalFpcs?: ServedFpc[];
+}
+
+/**
+ * Per-FPC dependencies. The clock, gas fee source, settlement chain source and
+ * shared state backend fall back to the top-level FPC's, since they only
+ * depend on the node and the deployment.
+ */
+export type FpcDependencies = Omit<BuildServerDependencies, "additionalFpcs">;
+
+/** An extra FPC served by the same instance, with its own signer and stores. */
+export interface ServedFpc {
+  config: Config;
+  quoteSigner: QuoteSchnorrSigner;
+  deps?: FpcDependencies;
+}
+
+interface ServedFpcSummary {
+  id: string;
+  fpc_address: string;
+  network_id: string;
+  contract_variant: string;
 }
 
 type ServerApp = FastifyInstance;
-type HeaderMap = Record<string, string | string[] | undefined>;
 type AdminAccessResult =
-  | { ok: true }
+  | { ok: true; keyId: string }
   | { ok: false; statusCode: number; body: ReturnType<typeof unauthorized> }
+  | { ok: false; statusCode: number; body: ReturnType<typeof forbidden> }
   | { ok: false; statusCode: number; body: ReturnType<typeof serviceUnavailable> };
 
 interface ServerContext {
+  adminKeys: AdminKeyring;
   app: ServerApp;
   assetPolicyStore: AssetPolicyStore;
   config: Config;
+  currentGasFees?: () => Promise<CurrentGasFees>;
   fpcAddress: AztecAddress;
+  /** Set when the treasury and the L1 withdrawal chain are both available. */
+  l1Withdrawals?: L1WithdrawalTracker;
   metrics: AttestationMetrics;
   nowUnixSeconds: () => Promise<bigint> | bigint;
+  priceFeeds: PriceFeedMonitor;
+  /** Admin-issued quote API keys; set in the api_key quote auth modes. */
+  quoteApiKeys?: QuoteApiKeyRegistry;
+  /** Set in the `hmac` and `mtls` quote auth modes. */
+  quoteAuthenticator?: QuoteRequestAuthenticator;
+  quoteLedger: QuoteLedger;
   quoteSigner: QuoteSchnorrSigner;
+  /** `""` for the top-level FPC, `/fpcs/<id>` for every FPC's prefixed routes. */
+  routePrefix: string;
+  /** Every FPC served by this instance, top-level first. */
+  servedFpcs: ServedFpcSummary[];
+  signerHealthCheck?: () => Promise<RemoteSignerHealth>;
+  spendingLimiter: SpendingLimiter;
+  spendingLimitStore: SpendingLimitStore;
+  sweepHistory: TreasurySweepHistory;
+  /** Set when the operator treasury wallet is available. */
+  sweepScheduler?: TreasurySweepScheduler;
+  /** Set when `topup_data_dir` points at the top-up service's state. */
+  topupHistory?: TopupHistory;
+  /** Set when `reserve_pricing` is configured and the FPC balance can be read. */
+  reservePricing?: FeeJuiceReserveMonitor;
   treasury?: OperatorTreasuryPort;
+  userPolicies: UserPolicyStore;
 }
 
 interface ParsedAdminSweepRequest {
+  mode: TreasurySweepMode;
   acceptedAsset: string;
   amount?: bigint;
+  /** An Ethereum address in `l1` mode. */
   destination: string;
 }
 
+/** Lists accepted assets, announcing any scheduled fee changes ahead of time. */
 function buildSupportedAssetsForDiscovery(assetPolicyStore: AssetPolicyStore) {
-  return assetPolicyStore.getAll().map(({ address, name }) => ({
-    address,
-    name,
-  }));
+  const scheduled = assetPolicyStore.getScheduled();
+  return assetPolicyStore.getAll().map(({ address, name }) => {
+    const upcoming = scheduled
+      .filter((change) => change.address === address)
+      .map((change) => ({ effective_at: change.effective_at, fee_bips: change.policy.fee_bips }));
+    return upcoming.length > 0 ? { address, name, scheduled_changes: upcoming } : { address, name };
+  });
+}
+
+/** Attaches the live feed status (including any aggregation audit record) to a policy. */
+function describeAssetPolicy(policy: SupportedAssetPolicy, priceFeeds: PriceFeedMonitor) {
+  const livePrice = policy.price_feed ? priceFeeds.describe(policy.address) : undefined;
+  return livePrice ? { ...policy, live_price: livePrice } : policy;
 }
 
 function parseAdminAssetPolicy(
@@ -452,6 +944,7 @@ function parseAdminAssetPolicy(
     market_rate_num: bodyResult.data.market_rate_num,
     market_rate_den: bodyResult.data.market_rate_den,
     fee_bips: bodyResult.data.fee_bips,
+    ...(bodyResult.data.price_feed ? { price_feed: bodyResult.data.price_feed } : {}),
   };
 }
 
@@ -486,22 +979,142 @@ function internalErrorBody() {
   };
 }
 
-function requireAdminAccess(config: Config, headers: HeaderMap): AdminAccessResult {
-  if (!config.admin_auth.enabled) {
+/**
+ * Authenticates the admin key and checks it holds `role`. On success the
+ * request logger is bound to the key id, so every log line of the request
+ * records which credential made it.
+ */
+function requireAdminAccess(
+  adminKeys: AdminKeyring,
+  req: FastifyRequest,
+  role: AdminRole,
+): AdminAccessResult {
+  if (!adminKeys.enabled) {
     return {
       ok: false,
       statusCode: 503,
       body: serviceUnavailable("Admin API is disabled"),
     };
   }
-  if (!isAdminAuthorized(config, headers)) {
+  const key = adminKeys.authenticate(req.headers[adminKeys.header]);
+  if (!key) {
     return {
       ok: false,
       statusCode: 401,
       body: unauthorized(),
     };
   }
-  return { ok: true };
+  req.log = req.log.child({ admin_key_id: key.id });
+  if (!key.roles.has(role)) {
+    req.log.warn({ event: "admin_access_denied", role }, "Admin key lacks the required role");
+    return {
+      ok: false,
+      statusCode: 403,
+      body: forbidden(`Admin key lacks role ${role}`),
+    };
+  }
+  return { ok: true, keyId: key.id };
+}
+
+function logPriceUnavailable(
+  requestLog: ServerApp["log"],
+  acceptedAsset: string,
+  reason: string,
+): void {
+  requestLog.warn(
+    {
+      event: "quote_price_unavailable",
+      accepted_asset: acceptedAsset,
+      reason,
+    },
+    "Rejected quote request without a usable price feed rate",
+  );
+}
+
+/** Logs a quote rejected by a spending limit or API key budget. */
+function logSpendingLimitExceeded(
+  requestLog: ServerApp["log"],
+  request: SpendingRequest,
+  violation: SpendingLimitViolation,
+): void {
+  requestLog.warn(
+    {
+      event: "quote_spending_limit_exceeded",
+      code: violation.code,
+      user: request.user,
+      accepted_asset: request.acceptedAsset,
+      fj_amount: violation.requested_fj_amount,
+      limit_fj_amount: violation.limit_fj_amount,
+      used_fj_amount: violation.used_fj_amount,
+      window_seconds: violation.window_seconds,
+    },
+    "Rejected quote over spending limit",
+  );
+}
+
+/** Reserves the quote against the FPC's spending limits and the API key's Fee Juice budget. */
+function reserveQuoteSpending(
+  context: ServerContext,
+  request: SpendingRequest,
+  apiKey: QuoteApiKeyRecord | undefined,
+): Promise<SpendingReservation> {
+  return withApiKeyBudget(context, context.spendingLimiter.reserve(request), apiKey, request);
+}
+
+/** Adds the API key's Fee Juice budget to a spending-limit reservation. */
+async function withApiKeyBudget(
+  context: ServerContext,
+  reservation: SpendingReservation,
+  apiKey: QuoteApiKeyRecord | undefined,
+  request: Pick<SpendingRequest, "fjAmount" | "nowSeconds">,
+): Promise<SpendingReservation> {
+  if (!reservation.ok || !apiKey || !context.quoteApiKeys) {
+    return reservation;
+  }
+  let budget: QuoteApiKeyBudgetReservation;
+  try {
+    budget = await context.quoteApiKeys.reserveBudget(apiKey, request.fjAmount, request.nowSeconds);
+  } catch (error) {
+    reservation.release();
+    throw error;
+  }
+  if (!budget.ok) {
+    reservation.release();
+    return budget;
+  }
+  return {
+    ok: true,
+    release: () => {
+      budget.release();
+      reservation.release();
+    },
+  };
+}
+
+/**
+ * Counts the quote against the spending limits, or replies with the structured
+ * rejection. Returns the release handle when the quote may proceed.
+ */
+async function reserveSpending(
+  context: ServerContext,
+  req: FastifyRequest,
+  reply: FastifyReply,
+  request: SpendingRequest,
+  apiKey: QuoteApiKeyRecord | undefined,
+): Promise<(() => void) | undefined> {
+  const reservation = await reserveQuoteSpending(context, request, apiKey);
+  if (reservation.ok) {
+    return reservation.release;
+  }
+
+  const { violation } = reservation;
+  logSpendingLimitExceeded(req.log, request, violation);
+  if (violation.retry_after_seconds !== undefined) {
+    reply.header("retry-after", String(violation.retry_after_seconds));
+  }
+  const statusCode = violation.code === "QUOTE_AMOUNT_LIMIT_EXCEEDED" ? 400 : 429;
+  void reply.code(statusCode).send(spendingLimitExceeded(violation));
+  return undefined;
 }
 
 function validUntilFactory(config: Config) {
@@ -518,17 +1131,22 @@ function parseAdminSweepRequest(
     throw new Error(result.error.issues[0].message);
   }
 
-  const { accepted_asset, destination: bodyDestination, amount } = result.data;
+  const { accepted_asset, destination: bodyDestination, amount, mode } = result.data;
   if (!assetPolicyStore.get(accepted_asset)) {
     throw new Error("Unsupported accepted_asset");
   }
 
-  const destination = bodyDestination || config.treasury_destination_address || undefined;
+  const defaultDestination =
+    mode === "l1" ? config.treasury_l1_destination_address : config.treasury_destination_address;
+  const destination = bodyDestination || defaultDestination || undefined;
   if (!destination) {
     throw new Error("Missing required field: destination");
   }
+  if (mode === "l1" && !L1AddressSchema.safeParse(destination).success) {
+    throw new Error("destination must be a non-zero Ethereum address");
+  }
 
-  return { acceptedAsset: accepted_asset, amount, destination };
+  return { mode, acceptedAsset: accepted_asset, amount, destination };
 }
 
 function isBadSweepRequestError(message: string): boolean {
@@ -537,24 +1155,68 @@ function isBadSweepRequestError(message: string): boolean {
     message === "Unsupported accepted_asset" ||
     message === "Missing required field: destination" ||
     message === "Missing or invalid field: amount" ||
+    message === "No L1 bridge configured for accepted_asset" ||
+    message.startsWith("Invalid field: mode") ||
     message.includes("exceeds operator private balance") ||
     message.includes("must be greater than zero") ||
     message.includes("destination must be")
   );
 }
 
+/**
+ * Advertises the FPC replaced by the last key rotation until it retires, so
+ * wallets holding quotes for it know they are still honoured.
+ */
+function buildPreviousFpcForDiscovery(config: Config, nowSeconds: bigint) {
+  if (!config.previous_fpc_address || config.previous_fpc_retires_at === undefined) {
+    return {};
+  }
+  if (nowSeconds >= BigInt(config.previous_fpc_retires_at)) {
+    return {};
+  }
+  return {
+    previous_fpc: {
+      fpc_address: config.previous_fpc_address,
+      retires_at: config.previous_fpc_retires_at,
+    },
+  };
+}
+
+/** Lists every served FPC so a wallet can find the others from any discovery document. */
+function buildServedFpcsForDiscovery(config: Config, servedFpcs: ServedFpcSummary[]) {
+  if (servedFpcs.length < 2) {
+    return {};
+  }
+  return {
+    fpc_id: config.fpc_id,
+    fpcs: servedFpcs.map((fpc) => ({
+      ...fpc,
+      discovery: `${fpcRoutePrefix(fpc.id)}/.well-known/fpc.json`,
+    })),
+  };
+}
+
 const NO_RATE_LIMIT = { config: { rateLimit: false as const } };
 
 function registerPublicRoutes(context: ServerContext): void {
-  const { app, assetPolicyStore, config, metrics } = context;
+  const {
+    app,
+    assetPolicyStore,
+    config,
+    metrics,
+    nowUnixSeconds,
+    routePrefix,
+    servedFpcs,
+    signerHealthCheck,
+  } = context;
 
-  app.get("/.well-known/fpc.json", NO_RATE_LIMIT, (req) => ({
+  app.get("/.well-known/fpc.json", NO_RATE_LIMIT, async (req) => ({
     discovery_version: DISCOVERY_VERSION,
     attestation_api_version: ATTESTATION_API_VERSION,
     network_id: config.network_id,
     fpc_address: config.fpc_address,
     contract_variant: config.contract_variant,
-    quote_base_url: resolveQuoteBaseUrl(config, req.headers, req.protocol),
+    quote_base_url: `${resolveQuoteBaseUrl(config, req.headers, req.protocol)}${routePrefix}`,
     endpoints: {
       discovery: "/.well-known/fpc.json",
       health: "/health",
@@ -563,15 +1225,40 @@ function registerPublicRoutes(context: ServerContext): void {
       cold_start_quote: "/cold-start-quote",
     },
     supported_assets: buildSupportedAssetsForDiscovery(assetPolicyStore),
+    ...buildPreviousFpcForDiscovery(config, BigInt(await nowUnixSeconds())),
+    ...buildServedFpcsForDiscovery(config, servedFpcs),
   }));
 
-  app.get("/health", NO_RATE_LIMIT, () => ({ status: "ok" }));
+  app.get("/health", NO_RATE_LIMIT, async (_req, reply) => {
+    if (!signerHealthCheck) {
+      return { status: "ok" };
+    }
+    const signer = await signerHealthCheck();
+    return reply
+      .code(signer.ok ? 200 : 503)
+      .send({ status: signer.ok ? "ok" : "degraded", signer });
+  });
 
-  app.get("/metrics", NO_RATE_LIMIT, (_req, reply) =>
-    reply
+  // Quote API keys belong to the instance, so only the top-level /metrics reports their usage.
+  const quoteApiKeys = routePrefix === "" ? context.quoteApiKeys : undefined;
+  app.get("/metrics", NO_RATE_LIMIT, async (req, reply) => {
+    let apiKeyMetrics = "";
+    try {
+      apiKeyMetrics = (await quoteApiKeys?.renderPrometheus()) ?? "";
+    } catch (error) {
+      // Keep serving the other metrics while the shared backend is down.
+      req.log.warn(
+        {
+          event: "quote_api_key_metrics_unavailable",
+          err: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to read quote API key usage",
+      );
+    }
+    return reply
       .header("content-type", "text/plain; version=0.0.4; charset=utf-8")
-      .send(metrics.renderPrometheus()),
-  );
+      .send(`${metrics.renderPrometheus()}${apiKeyMetrics}`);
+  });
 
   app.get("/accepted-assets", NO_RATE_LIMIT, () =>
     buildSupportedAssetsForDiscovery(assetPolicyStore),
@@ -586,8 +1273,11 @@ function registerQuoteRoute(context: ServerContext): void {
     fpcAddress,
     metrics,
     nowUnixSeconds,
+    priceFeeds,
     quoteSigner,
+    reservePricing,
     treasury,
+    userPolicies,
   } = context;
   const validUntil = validUntilFactory(config);
 
@@ -597,7 +1287,8 @@ function registerQuoteRoute(context: ServerContext): void {
     const observe = createQuoteObserver(metrics);
     const nowSeconds = BigInt(await nowUnixSeconds());
 
-    if (!isQuoteAuthorized(config, req.headers)) {
+    const authorization = await authorizeQuoteRequest(context, req, nowSeconds);
+    if (!authorization) {
       req.log.warn(
         {
           event: "quote_auth_rejected",
@@ -608,21 +1299,34 @@ function registerQuoteRoute(context: ServerContext): void {
       observe("unauthorized");
       return reply.code(401).send(unauthorized());
     }
+    if (!(await consumeApiKeyQuota(context, req, reply, authorization, nowSeconds))) {
+      observe("rate_limited");
+      return reply;
+    }
 
-    const parsedRequest = parseQuoteRequest(assetPolicyStore, req.query);
+    const parsedRequest = parseQuoteRequest(assetPolicyStore, userPolicies, req.query);
     if (!parsedRequest.ok) {
-      observe("bad_request");
-      return reply.code(400).send(badRequest(parsedRequest.message));
+      return rejectQuoteRequest(req, reply, observe, parsedRequest);
     }
 
-    const { acceptedAsset, fjFeeAmount, selectedAssetPolicy, userAddress } = parsedRequest.value;
+    const { acceptedAsset, fjFeeAmount, selectedAssetPolicy, userAddress, userTier } =
+      parsedRequest.value;
+    const livePolicy = priceFeeds.applyLiveRate(selectedAssetPolicy);
+    if (!livePolicy.ok) {
+      logPriceUnavailable(req.log, selectedAssetPolicy.address, livePolicy.message);
+      observe("price_unavailable");
+      return reply.code(503).send(serviceUnavailable(livePolicy.message));
+    }
+    const pricedPolicy = applyUserTier(livePolicy.value, userTier);
 
+    let releaseSpending: (() => void) | undefined;
     try {
       const quotePricing = computeQuotePricing(
-        selectedAssetPolicy,
+        pricedPolicy,
         fjFeeAmount,
         nowSeconds,
         validUntil,
+        reservePricing?.surchargeBips(),
       );
       if (!quotePricing.ok) {
         observe("bad_request");
@@ -630,8 +1334,24 @@ function registerQuoteRoute(context: ServerContext): void {
       }
 
       const { aaPaymentAmount, rateDen, rateNum, validUntil: quoteValidUntil } = quotePricing.value;
+      releaseSpending = await reserveSpending(
+        context,
+        req,
+        reply,
+        {
+          user: userAddress.toString(),
+          acceptedAsset: selectedAssetPolicy.address,
+          fjAmount: fjFeeAmount,
+          nowSeconds,
+        },
+        authorization.apiKey,
+      );
+      if (!releaseSpending) {
+        observe("limit_exceeded");
+        return reply;
+      }
       await ensureSenderRegistered(treasury, userAddress, req.log);
-      const signature = await signQuoteForRequest(config, quoteSigner, {
+      const signed = await signQuoteForRequest(config, quoteSigner, {
         fpcAddress,
         acceptedAsset,
         userAddress,
@@ -641,6 +1361,18 @@ function registerQuoteRoute(context: ServerContext): void {
         rateNum,
         rateDen,
       });
+      await recordIssuedQuote(
+        context,
+        buildLedgerEntry(config, pricedPolicy, nowSeconds, {
+          kind: "quote",
+          userAddress,
+          userTier,
+          fjFeeAmount,
+          pricing: quotePricing.value,
+          signed,
+        }),
+        authorization.apiKey,
+      );
 
       req.log.info(
         {
@@ -653,6 +1385,7 @@ function registerQuoteRoute(context: ServerContext): void {
           rate_num: rateNum.toString(),
           rate_den: rateDen.toString(),
           quote_format: config.quote_format,
+          quote_hash: signed.quoteHash.toString(),
         },
         "Quote issued",
       );
@@ -664,11 +1397,13 @@ function registerQuoteRoute(context: ServerContext): void {
         fjFeeAmount,
         aaPaymentAmount,
         quoteValidUntil,
-        signature,
+        signed.signature,
         rateNum,
         rateDen,
+        quotePricing.value.reserveSurchargeBips,
       );
     } catch (error) {
+      releaseSpending?.();
       observe("internal_error");
       req.log.error(
         {
@@ -682,38 +1417,1310 @@ function registerQuoteRoute(context: ServerContext): void {
   });
 }
 
-function registerAdminRoutes(context: ServerContext): void {
-  const { app, assetPolicyStore, config, treasury } = context;
+interface PreparedBatchQuoteEntry {
+  requested: { accepted_asset: string; fj_amount: string };
+  acceptedAsset: AztecAddress;
+  selectedAssetPolicy: SupportedAssetPolicy;
+  pricedPolicy: SupportedAssetPolicy;
+  fjFeeAmount: bigint;
+  pricing: QuotePricing;
+}
 
-  app.get("/admin/asset-policies", NO_RATE_LIMIT, (req, reply) => {
-    const access = requireAdminAccess(config, req.headers);
-    if (!access.ok) {
-      return reply.code(access.statusCode).send(access.body);
-    }
-    return assetPolicyStore.getAll();
-  });
+type BatchQuoteEntryPreparation =
+  | { ok: true; entry: PreparedBatchQuoteEntry }
+  | { ok: false; result: BatchQuoteEntryResult };
+
+/**
+ * Prices one entry of a `POST /quotes` batch and checks it against the
+ * per-quote and per-asset limits. The batch is charged once, by
+ * `reserveBatchSpending`. Failures become the entry's result instead of
+ * failing the whole batch.
+ */
+function prepareBatchQuoteEntry(
+  context: ServerContext,
+  req: FastifyRequest,
+  batch: BatchQuoteContext,
+  rawEntry: unknown,
+): BatchQuoteEntryPreparation {
+  const { assetPolicyStore, metrics, priceFeeds } = context;
+  const { userAddress, userTier, nowSeconds } = batch;
+  const observe = createQuoteObserver(metrics);
+
+  const parsed = BatchQuoteEntrySchema.safeParse(rawEntry);
+  if (!parsed.success) {
+    observe("bad_request");
+    return { ok: false, result: badRequest(parsed.error.issues[0].message) };
+  }
+  const { accepted_asset: acceptedAsset, fj_amount: fjFeeAmount } = parsed.data;
+  const requested = { accepted_asset: acceptedAsset.toString(), fj_amount: fjFeeAmount.toString() };
 
-  app.put<{
-    Params: AdminAssetPolicyParams;
-    Body: AdminAssetPolicyBody;
-  }>("/admin/asset-policies/:assetAddress", NO_RATE_LIMIT, async (req, reply) => {
-    const access = requireAdminAccess(config, req.headers);
-    if (!access.ok) {
-      return reply.code(access.statusCode).send(access.body);
+  const selectedAssetPolicy = assetPolicyStore.get(acceptedAsset.toString());
+  if (!selectedAssetPolicy) {
+    observe("bad_request");
+    return { ok: false, result: { ...requested, ...badRequest("Unsupported accepted_asset") } };
+  }
+  const livePolicy = priceFeeds.applyLiveRate(selectedAssetPolicy);
+  if (!livePolicy.ok) {
+    logPriceUnavailable(req.log, selectedAssetPolicy.address, livePolicy.message);
+    observe("price_unavailable");
+    return { ok: false, result: { ...requested, ...serviceUnavailable(livePolicy.message) } };
+  }
+  const pricedPolicy = applyUserTier(livePolicy.value, userTier);
+  const quotePricing = computeQuotePricing(
+    pricedPolicy,
+    fjFeeAmount,
+    nowSeconds,
+    batch.validUntil,
+    context.reservePricing?.surchargeBips(),
+  );
+  if (!quotePricing.ok) {
+    observe("bad_request");
+    return { ok: false, result: { ...requested, ...badRequest(quotePricing.message) } };
+  }
+
+  const spendingRequest: SpendingRequest = {
+    user: userAddress.toString(),
+    acceptedAsset: selectedAssetPolicy.address,
+    fjAmount: fjFeeAmount,
+    nowSeconds,
+  };
+  const violation = context.spendingLimiter.checkQuote(spendingRequest);
+  if (violation) {
+    logSpendingLimitExceeded(req.log, spendingRequest, violation);
+    observe("limit_exceeded");
+    return { ok: false, result: { ...requested, ...spendingLimitExceeded(violation) } };
+  }
+
+  return {
+    ok: true,
+    entry: {
+      requested,
+      acceptedAsset,
+      selectedAssetPolicy,
+      pricedPolicy,
+      fjFeeAmount,
+      pricing: quotePricing.value,
+    },
+  };
+}
+
+/**
+ * Charges a batch once: its entries are alternatives for one transaction, so
+ * the largest `fj_amount` is what the user can actually spend. Each asset's
+ * daily cap is charged with that asset's largest entry; the user's windows and
+ * the API key's budget with the largest entry overall.
+ */
+async function reserveBatchSpending(
+  context: ServerContext,
+  req: FastifyRequest,
+  batch: BatchQuoteContext,
+  entries: PreparedBatchQuoteEntry[],
+): Promise<SpendingReservation> {
+  const spendingRequest = (entry: PreparedBatchQuoteEntry): SpendingRequest => ({
+    user: batch.userAddress.toString(),
+    acceptedAsset: entry.selectedAssetPolicy.address,
+    fjAmount: entry.fjFeeAmount,
+    nowSeconds: batch.nowSeconds,
+  });
+  const largestByAsset = new Map<string, PreparedBatchQuoteEntry>();
+  for (const entry of entries) {
+    const assetKey = entry.selectedAssetPolicy.address.toLowerCase();
+    const largest = largestByAsset.get(assetKey);
+    if (!largest || entry.fjFeeAmount > largest.fjFeeAmount) {
+      largestByAsset.set(assetKey, entry);
+    }
+  }
+  const assetReleases: Array<() => void> = [];
+  const releaseAssets = () => {
+    for (const release of assetReleases) {
+      release();
+    }
+  };
+  for (const entry of largestByAsset.values()) {
+    const request = spendingRequest(entry);
+    const reservation = context.spendingLimiter.reserveAsset(request);
+    if (!reservation.ok) {
+      releaseAssets();
+      logSpendingLimitExceeded(req.log, request, reservation.violation);
+      return reservation;
     }
+    assetReleases.push(reservation.release);
+  }
 
-    try {
-      const policy = parseAdminAssetPolicy(req.params.assetAddress, req.body);
-      const updated = await assetPolicyStore.upsert(policy);
+  const request = spendingRequest(
+    entries.reduce((left, right) => (right.fjFeeAmount > left.fjFeeAmount ? right : left)),
+  );
+  let reservation: SpendingReservation;
+  try {
+    reservation = await withApiKeyBudget(
+      context,
+      context.spendingLimiter.reserveUser(request),
+      batch.apiKey,
+      request,
+    );
+  } catch (error) {
+    releaseAssets();
+    throw error;
+  }
+  if (!reservation.ok) {
+    releaseAssets();
+    logSpendingLimitExceeded(req.log, request, reservation.violation);
+    return reservation;
+  }
+  const releaseUser = reservation.release;
+  return {
+    ok: true,
+    release: () => {
+      releaseUser();
+      releaseAssets();
+    },
+  };
+}
+
+/** Signs and records one reserved batch entry. */
+async function issueBatchQuoteEntry(
+  context: ServerContext,
+  req: FastifyRequest,
+  batch: BatchQuoteContext,
+  entry: PreparedBatchQuoteEntry,
+): Promise<{ issued: boolean; result: BatchQuoteEntryResult }> {
+  const { config, fpcAddress, metrics, quoteSigner } = context;
+  const { userAddress, userTier, nowSeconds } = batch;
+  const { acceptedAsset, selectedAssetPolicy, pricedPolicy, fjFeeAmount, pricing } = entry;
+  const observe = createQuoteObserver(metrics);
+
+  const { aaPaymentAmount, rateDen, rateNum, validUntil } = pricing;
+  try {
+    const signed = await signQuoteForRequest(config, quoteSigner, {
+      fpcAddress,
+      acceptedAsset,
+      userAddress,
+      fjFeeAmount,
+      aaPaymentAmount,
+      validUntil,
+      rateNum,
+      rateDen,
+    });
+    await recordIssuedQuote(
+      context,
+      buildLedgerEntry(config, pricedPolicy, nowSeconds, {
+        kind: "quote",
+        batchId: batch.batchId,
+        userAddress,
+        userTier,
+        fjFeeAmount,
+        pricing,
+        signed,
+      }),
+      batch.apiKey,
+    );
+    req.log.info(
+      {
+        event: "quote_issued",
+        batch: true,
+        user: userAddress.toString(),
+        accepted_asset: selectedAssetPolicy.address,
+        valid_until: validUntil.toString(),
+        fj_amount: fjFeeAmount.toString(),
+        aa_payment_amount: aaPaymentAmount.toString(),
+        quote_format: config.quote_format,
+        quote_hash: signed.quoteHash.toString(),
+      },
+      "Quote issued",
+    );
+    observe("success");
+    return {
+      issued: true,
+      result: buildQuoteResponse(
+        config,
+        selectedAssetPolicy,
+        fjFeeAmount,
+        aaPaymentAmount,
+        validUntil,
+        signed.signature,
+        rateNum,
+        rateDen,
+        pricing.reserveSurchargeBips,
+      ),
+    };
+  } catch (error) {
+    observe("internal_error");
+    req.log.error(
+      { err: error, user: userAddress.toString(), accepted_asset: selectedAssetPolicy.address },
+      "Failed to issue batch quote entry",
+    );
+    return { issued: false, result: { ...entry.requested, ...internalErrorBody() } };
+  }
+}
+
+/**
+ * Prepares every entry, charges the batch once, then signs the entries
+ * concurrently. The charge is kept if any entry is issued. Results keep the
+ * request's entry order.
+ */
+async function issueBatchQuotes(
+  context: ServerContext,
+  req: FastifyRequest,
+  batch: BatchQuoteContext,
+  rawEntries: unknown[],
+): Promise<BatchQuoteEntryResult[]> {
+  // Entries are checked and the per-asset caps charged synchronously, before
+  // the first await, so concurrent batches cannot race each other past a cap.
+  const prepared = rawEntries.map((rawEntry) =>
+    prepareBatchQuoteEntry(context, req, batch, rawEntry),
+  );
+  const reserved = prepared.flatMap((preparation) => (preparation.ok ? [preparation.entry] : []));
+  if (reserved.length === 0) {
+    return prepared.flatMap((preparation) => (preparation.ok ? [] : [preparation.result]));
+  }
+
+  const charge = await reserveBatchSpending(context, req, batch, reserved);
+  if (!charge.ok) {
+    return prepared.map((preparation) => {
+      if (!preparation.ok) {
+        return preparation.result;
+      }
+      createQuoteObserver(context.metrics)("limit_exceeded");
+      return { ...preparation.entry.requested, ...spendingLimitExceeded(charge.violation) };
+    });
+  }
+
+  const issued = await Promise.all(
+    prepared.map((preparation) =>
+      preparation.ok
+        ? issueBatchQuoteEntry(context, req, batch, preparation.entry)
+        : { issued: false, result: preparation.result },
+    ),
+  );
+  if (!issued.some((entry) => entry.issued)) {
+    charge.release();
+  }
+  return issued.map((entry) => entry.result);
+}
+
+function registerBatchQuoteRoute(context: ServerContext): void {
+  const { app, config, metrics, nowUnixSeconds, treasury, userPolicies } = context;
+  const validUntil = validUntilFactory(config);
+
+  app.post<{
+    Body: BatchQuoteRequestBody;
+  }>("/quotes", async (req, reply) => {
+    const observe = createQuoteObserver(metrics);
+    const nowSeconds = BigInt(await nowUnixSeconds());
+
+    const authorization = await authorizeQuoteRequest(context, req, nowSeconds);
+    if (!authorization) {
+      req.log.warn(
+        {
+          event: "quote_auth_rejected",
+          mode: config.quote_auth.mode,
+        },
+        "Rejected unauthorized quote request",
+      );
+      observe("unauthorized");
+      return reply.code(401).send(unauthorized());
+    }
+    if (!(await consumeApiKeyQuota(context, req, reply, authorization, nowSeconds))) {
+      observe("rate_limited");
+      return reply;
+    }
+
+    const result = BatchQuoteRequestBodySchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      observe("bad_request");
+      return reply.code(400).send(badRequest(result.error.issues[0].message));
+    }
+    const { user: userAddress, quotes } = result.data;
+    if (quotes.length > config.quote_batch_max_entries) {
+      observe("bad_request");
+      return reply
+        .code(400)
+        .send(badRequest(`quotes must contain at most ${config.quote_batch_max_entries} entries`));
+    }
+
+    const classification = classifyQuoteUser(userPolicies, userAddress);
+    if (!classification.ok) {
+      return rejectQuoteRequest(req, reply, observe, classification);
+    }
+
+    await ensureSenderRegistered(treasury, userAddress, req.log);
+    const batch: BatchQuoteContext = {
+      batchId: randomUUID(),
+      apiKey: authorization.apiKey,
+      userAddress,
+      userTier: classification.tier,
+      nowSeconds,
+      validUntil,
+    };
+    const results = await issueBatchQuotes(context, req, batch, quotes);
+    return { user: userAddress.toString(), quotes: results };
+  });
+}
+
+function priceRateLimit(config: Config) {
+  return {
+    config: {
+      rateLimit: {
+        max: config.price_rate_limit_max_requests,
+        timeWindow: config.price_rate_limit_window_seconds * 1000,
+        cache: config.quote_rate_limit.maxTrackedKeys,
+        // An empty list overrides the global allow-all used when /quote limiting is off.
+        allowList: config.price_rate_limit_enabled ? [] : () => true,
+        onExceeded: (req: FastifyRequest) => {
+          req.log.warn({ event: "price_rate_limited" }, "Rate limited price preview request");
+        },
+      },
+    },
+  };
+}
+
+type PreviewAmountResult =
+  | { ok: true; fjAmount: bigint; gas?: Record<string, string> }
+  | { ok: false; statusCode: 400 | 503; message: string };
+
+/** Resolves the previewed `fj_amount`, either given directly or from gas limits at current fees. */
+async function resolvePreviewFjAmount(
+  currentGasFees: ServerContext["currentGasFees"],
+  requestLog: ServerApp["log"],
+  query: { fj_amount?: bigint; da_gas_limit?: bigint; l2_gas_limit?: bigint },
+): Promise<PreviewAmountResult> {
+  if (query.fj_amount !== undefined) {
+    return { ok: true, fjAmount: query.fj_amount };
+  }
+  if (!currentGasFees) {
+    return {
+      ok: false,
+      statusCode: 503,
+      message: "Gas fee source unavailable; pass fj_amount instead",
+    };
+  }
+
+  const daGasLimit = query.da_gas_limit ?? 0n;
+  const l2GasLimit = query.l2_gas_limit ?? 0n;
+  let fees: CurrentGasFees;
+  try {
+    fees = await currentGasFees();
+  } catch (error) {
+    requestLog.warn({ err: error }, "Failed to read current gas fees for price preview");
+    return { ok: false, statusCode: 503, message: "Current gas fees unavailable" };
+  }
+  const fjAmount = daGasLimit * fees.feePerDaGas + l2GasLimit * fees.feePerL2Gas;
+  if (fjAmount <= 0n) {
+    return { ok: false, statusCode: 400, message: "Gas limits must price to a positive fj_amount" };
+  }
+  return {
+    ok: true,
+    fjAmount,
+    gas: {
+      da_gas_limit: daGasLimit.toString(),
+      l2_gas_limit: l2GasLimit.toString(),
+      fee_per_da_gas: fees.feePerDaGas.toString(),
+      fee_per_l2_gas: fees.feePerL2Gas.toString(),
+    },
+  };
+}
+
+function buildPricePreviewResponse(
+  pricedPolicy: SupportedAssetPolicy,
+  amount: Extract<PreviewAmountResult, { ok: true }>,
+  pricing: QuotePricing,
+  userTier: UserTier | undefined,
+) {
+  return {
+    accepted_asset: pricedPolicy.address,
+    fj_amount: amount.fjAmount.toString(),
+    market_rate_num: pricedPolicy.market_rate_num,
+    market_rate_den: pricedPolicy.market_rate_den,
+    fee_bips: pricing.feeBips,
+    rate_num: pricing.rateNum.toString(),
+    rate_den: pricing.rateDen.toString(),
+    aa_payment_amount: pricing.aaPaymentAmount.toString(),
+    ...(pricing.reserveSurchargeBips === undefined
+      ? {}
+      : { reserve_surcharge_bips: pricing.reserveSurchargeBips }),
+    ...(userTier ? { user_tier: userTier.name } : {}),
+    ...(amount.gas ? { gas: amount.gas } : {}),
+  };
+}
+
+function registerPricePreviewRoute(context: ServerContext): void {
+  const {
+    app,
+    assetPolicyStore,
+    config,
+    currentGasFees,
+    nowUnixSeconds,
+    priceFeeds,
+    reservePricing,
+    userPolicies,
+  } = context;
+  const validUntil = validUntilFactory(config);
+
+  app.get<{
+    Querystring: PricePreviewQuery;
+  }>("/price", priceRateLimit(config), async (req, reply) => {
+    const nowSeconds = BigInt(await nowUnixSeconds());
+    if (!(await authorizeQuoteRequest(context, req, nowSeconds))) {
+      return reply.code(401).send(unauthorized());
+    }
+
+    const result = PricePreviewQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return reply.code(400).send(badRequest(result.error.issues[0].message));
+    }
+    const { accepted_asset: acceptedAsset, user } = result.data;
+    const selectedAssetPolicy = assetPolicyStore.get(acceptedAsset.toString());
+    if (!selectedAssetPolicy) {
+      return reply.code(400).send(badRequest("Unsupported accepted_asset"));
+    }
+    const classification = user ? classifyQuoteUser(userPolicies, user) : { ok: true as const };
+    if (!classification.ok) {
+      return reply.code(403).send(userDenied());
+    }
+
+    const livePolicy = priceFeeds.applyLiveRate(selectedAssetPolicy);
+    if (!livePolicy.ok) {
+      return reply.code(503).send(serviceUnavailable(livePolicy.message));
+    }
+    const amount = await resolvePreviewFjAmount(currentGasFees, req.log, result.data);
+    if (!amount.ok) {
+      const body =
+        amount.statusCode === 503 ? serviceUnavailable(amount.message) : badRequest(amount.message);
+      return reply.code(amount.statusCode).send(body);
+    }
+
+    const pricedPolicy = applyUserTier(livePolicy.value, classification.tier);
+    const pricing = computeQuotePricing(
+      pricedPolicy,
+      amount.fjAmount,
+      nowSeconds,
+      validUntil,
+      reservePricing?.surchargeBips(),
+    );
+    if (!pricing.ok) {
+      return reply.code(400).send(badRequest(pricing.message));
+    }
+
+    return buildPricePreviewResponse(pricedPolicy, amount, pricing.value, classification.tier);
+  });
+}
+
+/**
+ * Adds a manual sweep to the sweep history. The sweep itself already happened,
+ * so a failure to record it is logged rather than failing the request.
+ */
+async function recordManualSweep(
+  context: ServerContext,
+  record: TreasurySweepRecord,
+): Promise<void> {
+  context.metrics.observeTreasurySweep(record.accepted_asset, record.status);
+  if (record.balance_after !== undefined) {
+    context.metrics.setOperatorBalance(record.accepted_asset, record.balance_after);
+  }
+  try {
+    await context.sweepHistory.record(record);
+  } catch (error) {
+    context.app.log.warn(
+      { err: error, event: "treasury_sweep_record_failed" },
+      "Failed to record treasury sweep",
+    );
+  }
+}
+
+function registerAdminRoutes(context: ServerContext): void {
+  const {
+    adminKeys,
+    app,
+    assetPolicyStore,
+    config,
+    l1Withdrawals,
+    nowUnixSeconds,
+    priceFeeds,
+    treasury,
+  } = context;
+
+  app.get("/admin/asset-policies", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    return assetPolicyStore.getAll().map((policy) => describeAssetPolicy(policy, priceFeeds));
+  });
+
+  app.put<{
+    Params: AdminAssetPolicyParams;
+    Body: AdminAssetPolicyBody;
+  }>("/admin/asset-policies/:assetAddress", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    try {
+      const policy = parseAdminAssetPolicy(req.params.assetAddress, req.body);
+      const updated = await assetPolicyStore.upsert(policy, { actor: access.keyId });
+      await priceFeeds.refresh(updated.address);
+      req.log.info(
+        {
+          event: "asset_policy_upserted",
+          accepted_asset: updated.address,
+          fee_bips: updated.fee_bips,
+          market_rate_num: updated.market_rate_num,
+          market_rate_den: updated.market_rate_den,
+        },
+        "Updated supported asset policy",
+      );
+      return updated;
+    } catch (error) {
+      return reply
+        .code(400)
+        .send(badRequest(error instanceof Error ? error.message : String(error)));
+    }
+  });
+
+  app.delete<{
+    Params: AdminAssetPolicyParams;
+  }>("/admin/asset-policies/:assetAddress", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    try {
+      const removed = await assetPolicyStore.remove(req.params.assetAddress, {
+        actor: access.keyId,
+      });
+      await priceFeeds.refresh(removed.address);
+      req.log.info(
+        {
+          event: "asset_policy_removed",
+          accepted_asset: removed.address,
+        },
+        "Removed supported asset policy",
+      );
+      return removed;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const statusCode =
+        message === "Cannot remove the last supported asset"
+          ? 409
+          : message.startsWith("Supported asset not found")
+            ? 404
+            : 400;
+      return reply
+        .code(statusCode)
+        .send(statusCode === 409 ? conflict(message) : badRequest(message));
+    }
+  });
+
+  app.get("/admin/operator-balances", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "treasury:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    if (!treasury) {
+      return reply.code(503).send(serviceUnavailable("Operator treasury wallet is not configured"));
+    }
+
+    try {
+      const policies = assetPolicyStore.getAll();
+      const balances = await treasury.getPrivateBalances(policies.map((asset) => asset.address));
+      return balances.map((balance) => ({
+        accepted_asset: balance.address,
+        balance: balance.balance,
+        name: policies.find((asset) => asset.address === balance.address)?.name ?? balance.address,
+      }));
+    } catch (error) {
+      req.log.error({ err: error }, "Failed to read operator balances");
+      return reply.code(500).send(internalErrorBody());
+    }
+  });
+
+  app.post<{
+    Body: AdminSweepRequestBody;
+  }>("/admin/sweeps", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "treasury:sweep");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    if (!treasury) {
+      return reply.code(503).send(serviceUnavailable("Operator treasury wallet is not configured"));
+    }
+
+    const startedAt = BigInt(await nowUnixSeconds());
+    let sweepRequest: ParsedAdminSweepRequest | undefined;
+    try {
+      sweepRequest = parseAdminSweepRequest(config, assetPolicyStore, req.body);
+      if (sweepRequest.mode === "l1" && !l1Withdrawals) {
+        return reply.code(503).send(serviceUnavailable("L1 withdrawals are not configured"));
+      }
+      const result = await runAdminSweep(treasury, l1Withdrawals, sweepRequest, access.keyId);
+      await recordManualSweep(
+        context,
+        sweepSucceeded(result, {
+          trigger: "manual",
+          admin_key_id: access.keyId,
+          started_at: Number(startedAt),
+          finished_at: Number(await nowUnixSeconds()),
+        }),
+      );
+      req.log.info(
+        {
+          event: "operator_treasury_sweep",
+          mode: sweepRequest.mode,
+          accepted_asset: result.acceptedAsset,
+          destination: result.destination,
+          swept_amount: result.sweptAmount,
+          tx_hash: result.txHash,
+        },
+        "Swept operator treasury balance",
+      );
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (isBadSweepRequestError(message)) {
+        return reply.code(400).send(badRequest(message));
+      }
+      req.log.error({ err: error }, "Failed to sweep operator treasury balance");
+      if (sweepRequest) {
+        await recordManualSweep(
+          context,
+          manualSweepFailed(sweepRequest, {
+            admin_key_id: access.keyId,
+            started_at: Number(startedAt),
+            finished_at: Number(await nowUnixSeconds()),
+            error: message,
+          }),
+        );
+      }
+      return reply.code(500).send(internalErrorBody());
+    }
+  });
+}
+
+function manualSweepFailed(
+  request: ParsedAdminSweepRequest,
+  details: Pick<TreasurySweepRecord, "admin_key_id" | "started_at" | "finished_at" | "error">,
+): TreasurySweepRecord {
+  return {
+    id: randomUUID(),
+    trigger: "manual",
+    status: "failed",
+    accepted_asset: request.acceptedAsset,
+    mode: request.mode,
+    destination: request.destination,
+    ...(request.amount === undefined ? {} : { amount: request.amount.toString() }),
+    ...details,
+  };
+}
+
+function runAdminSweep(
+  treasury: OperatorTreasuryPort,
+  l1Withdrawals: L1WithdrawalTracker | undefined,
+  request: ParsedAdminSweepRequest,
+  adminKeyId: string,
+): Promise<SweepResult | L1SweepResult> {
+  if (request.mode !== "l1") {
+    return treasury.sweep(request);
+  }
+  if (!l1Withdrawals) {
+    return Promise.reject(new Error("L1 withdrawals are not configured"));
+  }
+  return l1Withdrawals.withdraw({
+    acceptedAsset: request.acceptedAsset,
+    amount: request.amount,
+    recipient: request.destination,
+    trigger: "manual",
+    adminKeyId,
+  });
+}
+
+function registerTreasurySweepAdminRoutes(context: ServerContext): void {
+  const { adminKeys, app, l1Withdrawals, sweepHistory, sweepScheduler } = context;
+
+  app.get<{
+    Querystring: AdminL1WithdrawalQuery;
+  }>("/admin/l1-withdrawals", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "treasury:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    if (!l1Withdrawals) {
+      return reply.code(503).send(serviceUnavailable("L1 withdrawals are not configured"));
+    }
+
+    const result = AdminL1WithdrawalQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return reply.code(400).send(badRequest(result.error.issues[0].message));
+    }
+    return l1Withdrawals.query({
+      acceptedAsset: result.data.accepted_asset,
+      status: result.data.status,
+      limit: result.data.limit,
+    });
+  });
+
+  app.get<{
+    Querystring: AdminSweepHistoryQuery;
+  }>("/admin/sweeps", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "treasury:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    const result = AdminSweepHistoryQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return reply.code(400).send(badRequest(result.error.issues[0].message));
+    }
+    return sweepHistory.query({
+      acceptedAsset: result.data.accepted_asset,
+      limit: result.data.limit,
+    });
+  });
+
+  app.get("/admin/sweep-schedules", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "treasury:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    if (!sweepScheduler) {
+      return reply.code(503).send(serviceUnavailable("Operator treasury wallet is not configured"));
+    }
+    return sweepScheduler.status();
+  });
+}
+
+function assetPolicyChangeErrorReply(reply: FastifyReply, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message === "Cannot remove the last supported asset") {
+    return reply.code(409).send(conflict(message));
+  }
+  const notFound = ["Supported asset not found", "Policy version not found", "Scheduled change"];
+  const statusCode = notFound.some((prefix) => message.startsWith(prefix)) ? 404 : 400;
+  return reply.code(statusCode).send(badRequest(message));
+}
+
+function registerAssetPolicyHistoryRoutes(context: ServerContext): void {
+  const { adminKeys, app, assetPolicyStore, nowUnixSeconds, priceFeeds } = context;
+
+  app.get<{
+    Params: AdminAssetPolicyParams;
+  }>("/admin/asset-policies/:assetAddress/history", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    const addressResult = AdminAssetAddressSchema.safeParse(req.params.assetAddress);
+    if (!addressResult.success) {
+      return reply.code(400).send(badRequest(addressResult.error.issues[0].message));
+    }
+
+    const versions = await assetPolicyStore.history(addressResult.data.toString());
+    if (versions.length === 0) {
+      return reply.code(404).send(badRequest("No policy history for asset"));
+    }
+    return versions;
+  });
+
+  app.post<{
+    Params: AdminAssetPolicyParams;
+    Body: AdminAssetPolicyRollbackBody;
+  }>("/admin/asset-policies/:assetAddress/rollback", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    const addressResult = AdminAssetAddressSchema.safeParse(req.params.assetAddress);
+    if (!addressResult.success) {
+      return reply.code(400).send(badRequest(addressResult.error.issues[0].message));
+    }
+    const bodyResult = AdminAssetPolicyRollbackBodySchema.safeParse(req.body ?? {});
+    if (!bodyResult.success) {
+      return reply.code(400).send(badRequest(bodyResult.error.issues[0].message));
+    }
+
+    try {
+      const change: AssetPolicyChangeContext = { actor: access.keyId };
+      const restored = await assetPolicyStore.rollback(
+        addressResult.data.toString(),
+        bodyResult.data.version,
+        change,
+      );
+      await priceFeeds.refresh(restored.address);
+      req.log.info(
+        {
+          event: "asset_policy_rolled_back",
+          accepted_asset: restored.address,
+          version: restored.version,
+          rollback_to: restored.rollback_to,
+        },
+        "Rolled back supported asset policy",
+      );
+      return restored;
+    } catch (error) {
+      return assetPolicyChangeErrorReply(reply, error);
+    }
+  });
+
+  app.get<{
+    Params: AdminAssetPolicyParams;
+  }>("/admin/asset-policies/:assetAddress/scheduled-changes", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    const addressResult = AdminAssetAddressSchema.safeParse(req.params.assetAddress);
+    if (!addressResult.success) {
+      return reply.code(400).send(badRequest(addressResult.error.issues[0].message));
+    }
+    const address = addressResult.data.toString();
+    return assetPolicyStore.getScheduled().filter((change) => change.address === address);
+  });
+
+  app.post<{
+    Params: AdminAssetPolicyParams;
+    Body: AdminAssetPolicyScheduleBody;
+  }>("/admin/asset-policies/:assetAddress/scheduled-changes", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    const scheduleResult = AdminAssetPolicyScheduleBodySchema.safeParse(req.body ?? {});
+    if (!scheduleResult.success) {
+      return reply.code(400).send(badRequest(scheduleResult.error.issues[0].message));
+    }
+    const effectiveAt = scheduleResult.data.effective_at;
+    if (BigInt(effectiveAt) <= BigInt(await nowUnixSeconds())) {
+      return reply.code(400).send(badRequest("effective_at must be in the future"));
+    }
+
+    try {
+      const policy = parseAdminAssetPolicy(req.params.assetAddress, req.body);
+      const scheduled = await assetPolicyStore.schedule(policy, effectiveAt, {
+        actor: access.keyId,
+      });
+      req.log.info(
+        {
+          event: "asset_policy_change_scheduled",
+          accepted_asset: scheduled.address,
+          scheduled_change_id: scheduled.id,
+          effective_at: scheduled.effective_at,
+          fee_bips: scheduled.policy.fee_bips,
+        },
+        "Scheduled supported asset policy change",
+      );
+      return reply.code(201).send(scheduled);
+    } catch (error) {
+      return reply
+        .code(400)
+        .send(badRequest(error instanceof Error ? error.message : String(error)));
+    }
+  });
+
+  app.delete<{
+    Params: AdminScheduledChangeParams;
+  }>(
+    "/admin/asset-policies/:assetAddress/scheduled-changes/:changeId",
+    NO_RATE_LIMIT,
+    async (req, reply) => {
+      const access = requireAdminAccess(adminKeys, req, "policy:write");
+      if (!access.ok) {
+        return reply.code(access.statusCode).send(access.body);
+      }
+
+      const addressResult = AdminAssetAddressSchema.safeParse(req.params.assetAddress);
+      if (!addressResult.success) {
+        return reply.code(400).send(badRequest(addressResult.error.issues[0].message));
+      }
+      const pending = assetPolicyStore
+        .getScheduled()
+        .find(
+          (change) =>
+            change.id === req.params.changeId && change.address === addressResult.data.toString(),
+        );
+      if (!pending) {
+        return reply
+          .code(404)
+          .send(badRequest(`Scheduled change not found: ${req.params.changeId}`));
+      }
+
+      try {
+        const cancelled = await assetPolicyStore.cancelScheduled(pending.id);
+        req.log.info(
+          {
+            event: "asset_policy_change_cancelled",
+            accepted_asset: cancelled.address,
+            scheduled_change_id: cancelled.id,
+          },
+          "Cancelled scheduled asset policy change",
+        );
+        return cancelled;
+      } catch (error) {
+        return assetPolicyChangeErrorReply(reply, error);
+      }
+    },
+  );
+}
+
+function registerQuoteLedgerAdminRoutes(context: ServerContext): void {
+  const { adminKeys, app, quoteLedger } = context;
+
+  app.get<{
+    Querystring: AdminQuoteLedgerQuery;
+  }>("/admin/quotes", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "treasury:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    const result = AdminQuoteLedgerQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return reply.code(400).send(badRequest(result.error.issues[0].message));
+    }
+
+    const { user, accepted_asset, from, to, status, limit } = result.data;
+    return quoteLedger.query({
+      user,
+      acceptedAsset: accepted_asset,
+      status,
+      fromSeconds: from,
+      toSeconds: to,
+      limit,
+    });
+  });
+}
+
+/** Current operator balances for the report; omitted (not fatal) when they cannot be read. */
+async function readReportBalances(
+  context: ServerContext,
+  log: FastifyRequest["log"],
+  acceptedAsset: string | undefined,
+): Promise<Array<{ address: string; balance: string }> | undefined> {
+  if (!context.treasury) {
+    return undefined;
+  }
+  const assets = acceptedAsset
+    ? [acceptedAsset]
+    : context.assetPolicyStore.getAll().map((policy) => policy.address);
+  try {
+    return await context.treasury.getPrivateBalances(assets);
+  } catch (error) {
+    log.warn({ err: error }, "Failed to read operator balances for the revenue report");
+    return undefined;
+  }
+}
+
+function registerRevenueReportRoute(context: ServerContext): void {
+  const { adminKeys, app, assetPolicyStore, nowUnixSeconds, quoteLedger, topupHistory } = context;
+
+  app.get<{
+    Querystring: AdminRevenueReportQuery;
+  }>("/admin/revenue-report", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "treasury:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    const result = AdminRevenueReportQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return reply.code(400).send(badRequest(result.error.issues[0].message));
+    }
+    const { accepted_asset, period, format } = result.data;
+    const now = Number(await nowUnixSeconds());
+    const to = result.data.to === undefined ? now : Number(result.data.to);
+    const from =
+      result.data.from === undefined
+        ? Math.max(0, to - REVENUE_REPORT_DEFAULT_RANGE_SECONDS)
+        : Number(result.data.from);
+    if (from > to) {
+      return reply.code(400).send(badRequest("Invalid time range: from must be <= to"));
+    }
+    const starts = periodStarts(period, from, to);
+    if (!starts) {
+      return reply
+        .code(400)
+        .send(
+          badRequest(
+            `Invalid time range: spans more than ${REVENUE_REPORT_MAX_PERIODS} ${period} periods`,
+          ),
+        );
+    }
+
+    let bridges: TopupBridge[] | undefined;
+    try {
+      bridges = await topupHistory?.listBridges(from, to);
+    } catch (error) {
+      req.log.error({ err: error }, "Failed to read top-up bridge history");
+      return reply.code(503).send(serviceUnavailable("Top-up bridge history is unavailable"));
+    }
+
+    const report = buildRevenueReport({
+      from,
+      to,
+      period,
+      periodStarts: starts,
+      generatedAt: now,
+      quotes: quoteLedger.scan({
+        acceptedAsset: accepted_asset,
+        fromSeconds: BigInt(from),
+        toSeconds: BigInt(to),
+      }),
+      assetName: (address) => assetPolicyStore.get(address)?.name,
+      bridges,
+      balances: await readReportBalances(context, req.log, accepted_asset),
+    });
+    if (format === "csv") {
+      return reply
+        .header("content-type", "text/csv; charset=utf-8")
+        .header("content-disposition", `attachment; filename="revenue-${from}-${to}.csv"`)
+        .send(revenueReportCsv(report));
+    }
+    return report;
+  });
+}
+
+/** Formats a zod issue as `path: message` so nested body errors stay locatable. */
+function describeIssue(issue: { path: (string | number)[]; message: string }): string {
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+function registerSpendingLimitAdminRoutes(context: ServerContext): void {
+  const { adminKeys, app, nowUnixSeconds, spendingLimiter, spendingLimitStore } = context;
+
+  app.get("/admin/spending-limits", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    return {
+      limits: spendingLimitStore.get(),
+      asset_usage: spendingLimiter.assetUsage(BigInt(await nowUnixSeconds())),
+    };
+  });
+
+  app.put<{
+    Body: unknown;
+  }>("/admin/spending-limits", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    const result = AdminSpendingLimitsBodySchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return reply.code(400).send(badRequest(describeIssue(result.error.issues[0])));
+    }
+
+    try {
+      const updated = await spendingLimitStore.replace(result.data);
+      req.log.info(
+        {
+          event: "spending_limits_updated",
+          max_fj_per_quote: updated.max_fj_per_quote,
+          user_windows: updated.user_windows.length,
+          asset_daily: updated.asset_daily.length,
+        },
+        "Updated spending limits",
+      );
+      return updated;
+    } catch (error) {
+      return reply
+        .code(400)
+        .send(badRequest(error instanceof Error ? error.message : String(error)));
+    }
+  });
+}
+
+function quoteApiKeysUnavailable() {
+  return serviceUnavailable("Quote API keys require an api_key quote_auth_mode");
+}
+
+function quoteApiKeyErrorReply(reply: FastifyReply, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.startsWith("Quote API key not found")) {
+    return reply.code(404).send(badRequest(message));
+  }
+  if (message.startsWith("Quote API key already revoked")) {
+    return reply.code(409).send(conflict(message));
+  }
+  return reply.code(400).send(badRequest(message));
+}
+
+/**
+ * Quote API keys belong to the instance rather than an FPC, so these routes
+ * are registered once, without an `/fpcs/<id>` prefix.
+ */
+function registerQuoteApiKeyAdminRoutes(context: ServerContext): void {
+  const { adminKeys, app, nowUnixSeconds, quoteApiKeys } = context;
+
+  app.get("/admin/quote-api-keys", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "quote_keys:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    if (!quoteApiKeys) {
+      return reply.code(503).send(quoteApiKeysUnavailable());
+    }
+    return quoteApiKeys.list(BigInt(await nowUnixSeconds()));
+  });
+
+  app.post<{
+    Body: unknown;
+  }>("/admin/quote-api-keys", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "quote_keys:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    if (!quoteApiKeys) {
+      return reply.code(503).send(quoteApiKeysUnavailable());
+    }
+    const result = AdminQuoteApiKeyBodySchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return reply.code(400).send(badRequest(describeIssue(result.error.issues[0])));
+    }
+
+    const { key, record } = await quoteApiKeys.create(
+      result.data,
+      access.keyId,
+      BigInt(await nowUnixSeconds()),
+    );
+    req.log.info(
+      { event: "quote_api_key_created", quote_api_key_id: record.id, label: record.label },
+      "Created quote API key",
+    );
+    return reply.code(201).send({ ...record, key });
+  });
+
+  app.put<{
+    Params: AdminQuoteApiKeyParams;
+    Body: unknown;
+  }>("/admin/quote-api-keys/:keyId", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "quote_keys:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    if (!quoteApiKeys) {
+      return reply.code(503).send(quoteApiKeysUnavailable());
+    }
+    const result = AdminQuoteApiKeyBodySchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return reply.code(400).send(badRequest(describeIssue(result.error.issues[0])));
+    }
+
+    try {
+      const updated = await quoteApiKeys.update(
+        req.params.keyId,
+        result.data,
+        BigInt(await nowUnixSeconds()),
+      );
+      req.log.info(
+        { event: "quote_api_key_updated", quote_api_key_id: updated.id, label: updated.label },
+        "Updated quote API key",
+      );
+      return updated;
+    } catch (error) {
+      return quoteApiKeyErrorReply(reply, error);
+    }
+  });
+
+  app.delete<{
+    Params: AdminQuoteApiKeyParams;
+  }>("/admin/quote-api-keys/:keyId", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "quote_keys:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    if (!quoteApiKeys) {
+      return reply.code(503).send(quoteApiKeysUnavailable());
+    }
+
+    try {
+      const revoked = await quoteApiKeys.revoke(
+        req.params.keyId,
+        access.keyId,
+        BigInt(await nowUnixSeconds()),
+      );
+      req.log.info(
+        { event: "quote_api_key_revoked", quote_api_key_id: revoked.id, label: revoked.label },
+        "Revoked quote API key",
+      );
+      return revoked;
+    } catch (error) {
+      return quoteApiKeyErrorReply(reply, error);
+    }
+  });
+}
+
+function registerUserPolicyAdminRoutes(context: ServerContext): void {
+  const { adminKeys, app, userPolicies } = context;
+
+  app.get("/admin/user-access", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    return { access_mode: userPolicies.getAccessMode() };
+  });
+
+  app.put<{
+    Body: unknown;
+  }>("/admin/user-access", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    const result = AdminUserAccessBodySchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return reply.code(400).send(badRequest(result.error.issues[0].message));
+    }
+
+    const accessMode = await userPolicies.setAccessMode(result.data.access_mode);
+    req.log.info(
+      { event: "user_access_mode_updated", access_mode: accessMode },
+      "Updated user access mode",
+    );
+    return { access_mode: accessMode };
+  });
+
+  app.get("/admin/user-tiers", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    return userPolicies.listTiers();
+  });
+
+  app.put<{
+    Params: AdminUserTierParams;
+    Body: unknown;
+  }>("/admin/user-tiers/:name", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    const nameResult = AdminUserTierNameSchema.safeParse(req.params.name);
+    if (!nameResult.success) {
+      return reply.code(400).send(badRequest(nameResult.error.issues[0].message));
+    }
+    const result = AdminUserTierBodySchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return reply.code(400).send(badRequest(describeIssue(result.error.issues[0])));
+    }
+
+    try {
+      const updated = await userPolicies.upsertTier({ name: nameResult.data, ...result.data });
       req.log.info(
         {
-          event: "asset_policy_upserted",
-          accepted_asset: updated.address,
+          event: "user_tier_upserted",
+          tier: updated.name,
           fee_bips: updated.fee_bips,
-          market_rate_num: updated.market_rate_num,
-          market_rate_den: updated.market_rate_den,
+          rate_multiplier_bips: updated.rate_multiplier_bips,
+          asset_overrides: updated.assets.length,
         },
-        "Updated supported asset policy",
+        "Updated user tier",
       );
       return updated;
     } catch (error) {
@@ -724,93 +2731,465 @@ function registerAdminRoutes(context: ServerContext): void {
   });
 
   app.delete<{
-    Params: AdminAssetPolicyParams;
-  }>("/admin/asset-policies/:assetAddress", NO_RATE_LIMIT, async (req, reply) => {
-    const access = requireAdminAccess(config, req.headers);
+    Params: AdminUserTierParams;
+  }>("/admin/user-tiers/:name", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
     if (!access.ok) {
       return reply.code(access.statusCode).send(access.body);
     }
 
     try {
-      const removed = await assetPolicyStore.remove(req.params.assetAddress);
-      req.log.info(
-        {
-          event: "asset_policy_removed",
-          accepted_asset: removed.address,
-        },
-        "Removed supported asset policy",
-      );
+      const removed = await userPolicies.removeTier(req.params.name);
+      req.log.info({ event: "user_tier_removed", tier: removed.name }, "Removed user tier");
       return removed;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      const statusCode =
-        message === "Cannot remove the last supported asset"
-          ? 409
-          : message.startsWith("Supported asset not found")
-            ? 404
-            : 400;
-      return reply
-        .code(statusCode)
-        .send(statusCode === 409 ? conflict(message) : badRequest(message));
+      if (message.startsWith("User tier not found")) {
+        return reply.code(404).send(badRequest(message));
+      }
+      return reply.code(409).send(conflict(message));
     }
   });
 
-  app.get("/admin/operator-balances", NO_RATE_LIMIT, async (req, reply) => {
-    const access = requireAdminAccess(config, req.headers);
+  app.get<{
+    Querystring: AdminUserListQuery;
+  }>("/admin/users", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
     if (!access.ok) {
       return reply.code(access.statusCode).send(access.body);
     }
-    if (!treasury) {
-      return reply.code(503).send(serviceUnavailable("Operator treasury wallet is not configured"));
+
+    const result = AdminUserListQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return reply.code(400).send(badRequest(result.error.issues[0].message));
     }
+    return userPolicies.listUsers(result.data);
+  });
 
-    try {
-      const policies = assetPolicyStore.getAll();
-      const balances = await treasury.getPrivateBalances(policies.map((asset) => asset.address));
-      return balances.map((balance) => ({
-        accepted_asset: balance.address,
-        balance: balance.balance,
-        name: policies.find((asset) => asset.address === balance.address)?.name ?? balance.address,
-      }));
-    } catch (error) {
-      req.log.error({ err: error }, "Failed to read operator balances");
-      return reply.code(500).send(internalErrorBody());
+  app.get<{
+    Params: AdminUserParams;
+  }>("/admin/users/:address", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
     }
+
+    const addressResult = AdminUserAddressSchema.safeParse(req.params.address);
+    if (!addressResult.success) {
+      return reply.code(400).send(badRequest(addressResult.error.issues[0].message));
+    }
+    const entry = userPolicies.getUser(addressResult.data.toString());
+    if (!entry) {
+      return reply.code(404).send(badRequest("User entry not found"));
+    }
+    return entry;
   });
 
-  app.post<{
-    Body: AdminSweepRequestBody;
-  }>("/admin/sweeps", NO_RATE_LIMIT, async (req, reply) => {
-    const access = requireAdminAccess(config, req.headers);
+  app.put<{
+    Params: AdminUserParams;
+    Body: unknown;
+  }>("/admin/users/:address", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
     if (!access.ok) {
       return reply.code(access.statusCode).send(access.body);
     }
-    if (!treasury) {
-      return reply.code(503).send(serviceUnavailable("Operator treasury wallet is not configured"));
+
+    const addressResult = AdminUserAddressSchema.safeParse(req.params.address);
+    if (!addressResult.success) {
+      return reply.code(400).send(badRequest(addressResult.error.issues[0].message));
+    }
+    const result = AdminUserEntryBodySchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return reply.code(400).send(badRequest(describeIssue(result.error.issues[0])));
     }
 
     try {
-      const sweepRequest = parseAdminSweepRequest(config, assetPolicyStore, req.body);
-      const result = await treasury.sweep(sweepRequest);
+      const updated = await userPolicies.upsertUser({
+        address: addressResult.data.toString(),
+        ...result.data,
+      });
       req.log.info(
         {
-          event: "operator_treasury_sweep",
-          accepted_asset: result.acceptedAsset,
-          destination: result.destination,
-          swept_amount: result.sweptAmount,
-          tx_hash: result.txHash,
+          event: "user_entry_upserted",
+          user: updated.address,
+          list: updated.list,
+          tier: updated.tier,
         },
-        "Swept operator treasury balance",
+        "Updated user entry",
       );
-      return result;
+      return updated;
+    } catch (error) {
+      return reply
+        .code(400)
+        .send(badRequest(error instanceof Error ? error.message : String(error)));
+    }
+  });
+
+  app.delete<{
+    Params: AdminUserParams;
+  }>("/admin/users/:address", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    const addressResult = AdminUserAddressSchema.safeParse(req.params.address);
+    if (!addressResult.success) {
+      return reply.code(400).send(badRequest(addressResult.error.issues[0].message));
+    }
+
+    try {
+      const removed = await userPolicies.removeUser(addressResult.data.toString());
+      req.log.info({ event: "user_entry_removed", user: removed.address }, "Removed user entry");
+      return removed;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      if (isBadSweepRequestError(message)) {
-        return reply.code(400).send(badRequest(message));
-      }
-      req.log.error({ err: error }, "Failed to sweep operator treasury balance");
-      return reply.code(500).send(internalErrorBody());
+      const statusCode = message.startsWith("User entry not found") ? 404 : 400;
+      return reply.code(statusCode).send(badRequest(message));
+    }
+  });
+}
+
+function registerPriceFeedAdminRoutes(context: ServerContext): void {
+  const { adminKeys, app, priceFeeds, reservePricing } = context;
+
+  app.get("/admin/price-feeds", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    return priceFeeds.snapshot();
+  });
+
+  app.get("/admin/reserve-pricing", NO_RATE_LIMIT, (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:read");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+    if (!reservePricing) {
+      return reply.code(404).send(badRequest("Reserve pricing is not configured"));
+    }
+    return reservePricing.snapshot();
+  });
+
+  app.post<{
+    Params: AdminAssetPolicyParams;
+  }>("/admin/price-feeds/:assetAddress/reset", NO_RATE_LIMIT, async (req, reply) => {
+    const access = requireAdminAccess(adminKeys, req, "policy:write");
+    if (!access.ok) {
+      return reply.code(access.statusCode).send(access.body);
+    }
+
+    const addressResult = AdminAssetAddressSchema.safeParse(req.params.assetAddress);
+    if (!addressResult.success) {
+      return reply.code(400).send(badRequest(addressResult.error.issues[0].message));
+    }
+
+    const snapshot = await priceFeeds.reset(addressResult.data.toString());
+    if (!snapshot) {
+      return reply.code(404).send(badRequest("Price feed not configured for asset"));
     }
+    req.log.info(
+      {
+        event: "price_feed_reset",
+        accepted_asset: snapshot.accepted_asset,
+        status: snapshot.status,
+      },
+      "Reset price feed circuit breaker",
+    );
+    return snapshot;
+  });
+}
+
+const FPC_ROUTE_PREFIX = "/fpcs/";
+
+function fpcRoutePrefix(fpcId: string): string {
+  return `${FPC_ROUTE_PREFIX}${fpcId}`;
+}
+
+function stripFpcRoutePrefix(url: string): string {
+  if (!url.startsWith(FPC_ROUTE_PREFIX)) {
+    return url;
+  }
+  const pathStart = url.indexOf("/", FPC_ROUTE_PREFIX.length);
+  return pathStart === -1 ? "/" : url.slice(pathStart);
+}
+
+/**
+ * `?fpc=<id>` is an alias for the `/fpcs/<id>` prefix. Unknown ids are still
+ * rewritten so they 404 instead of silently reaching the top-level FPC.
+ */
+function routeByFpcQuery(url: string): string {
+  const queryStart = url.indexOf("?");
+  if (queryStart === -1 || url.startsWith(FPC_ROUTE_PREFIX)) {
+    return url;
+  }
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  const fpcId = params.get("fpc");
+  if (!fpcId) {
+    return url;
+  }
+  params.delete("fpc");
+  const query = params.toString();
+  const path = url.slice(0, queryStart);
+  return `${fpcRoutePrefix(encodeURIComponent(fpcId))}${path}${query ? `?${query}` : ""}`;
+}
+
+async function createFpcContext(
+  app: ServerApp,
+  config: Config,
+  quoteSigner: QuoteSchnorrSigner,
+  deps: FpcDependencies,
+  shared: {
+    adminKeys: AdminKeyring;
+    metrics: AttestationMetrics;
+    quoteApiKeys?: QuoteApiKeyRegistry;
+    quoteAuthenticator?: QuoteRequestAuthenticator;
+    servedFpcs: ServedFpcSummary[];
+  },
+): Promise<ServerContext> {
+  const { adminKeys, metrics, quoteApiKeys, quoteAuthenticator } = shared;
+  const assetPolicyStore =
+    deps.assetPolicyStore ??
+    (await openAssetPolicyStore(config, deps.sharedState, { logger: app.log }));
+  const priceFeeds =
+    deps.priceFeeds ??
+    new PriceFeedMonitor(config, () => assetPolicyStore.getAll(), { logger: app.log });
+  await priceFeeds.start();
+  const reservePricing = createReservePricing(app, config, deps, metrics);
+  await reservePricing?.start();
+  const nowUnixSeconds = deps.nowUnixSeconds ?? (() => BigInt(Math.floor(Date.now() / 1000)));
+  const policyScheduler = new AssetPolicyScheduler(
+    assetPolicyStore,
+    config.asset_policy_schedule_poll_seconds,
+    {
+      nowUnixSeconds,
+      onApplied: (version) => priceFeeds.refresh(version.address),
+      logger: app.log,
+    },
+  );
+  policyScheduler.start();
+  const quoteLedger = deps.quoteLedger ?? new LmdbQuoteLedger(config);
+  const settlementWatcher =
+    deps.settlementSource && config.settlement_watcher_enabled
+      ? new SettlementWatcher(config, quoteLedger, deps.settlementSource, {
+          metrics,
+          logger: app.log,
+        })
+      : undefined;
+  settlementWatcher?.start();
+  const spendingLimitStore = deps.spendingLimitStore ?? new LmdbSpendingLimitStore(config);
+  const spendingLimiter = new SpendingLimiter(() => spendingLimitStore.get());
+  const startedAtSeconds = BigInt(await nowUnixSeconds());
+  spendingLimiter.restore(
+    quoteLedger.scan({ fromSeconds: spendingLimiter.historyStartSeconds(startedAtSeconds) }),
+    startedAtSeconds,
+  );
+  const userPolicies = deps.userPolicies ?? new LmdbUserPolicyStore(config);
+  const sweepHistory = deps.treasurySweepHistory ?? new LmdbTreasurySweepHistory(config);
+  const l1Withdrawals = createL1WithdrawalTracker(app, config, deps);
+  l1Withdrawals?.tracker.start();
+  const sweepScheduler = deps.treasury
+    ? new TreasurySweepScheduler(config, deps.treasury, sweepHistory, {
+        balanceAssets: () => assetPolicyStore.getAll().map((policy) => policy.address),
+        metrics,
+        l1Withdrawals: l1Withdrawals?.tracker,
+        logger: app.log,
+      })
+    : undefined;
+  if (!sweepScheduler && config.treasury_sweeps.length > 0) {
+    app.log.warn(
+      { event: "treasury_sweeps_disabled", fpc_id: config.fpc_id },
+      "Treasury sweep schedules ignored: the operator treasury wallet is not configured",
+    );
+  }
+  sweepScheduler?.start();
+
+  app.addHook("onClose", async () => {
+    await sweepScheduler?.stop();
+    await l1Withdrawals?.tracker.stop();
+    await policyScheduler.stop();
+    await priceFeeds.stop();
+    await reservePricing?.stop();
+    await settlementWatcher?.stop();
+    await assetPolicyStore.close();
+    await quoteLedger.close();
+    await spendingLimitStore.close();
+    await userPolicies.close();
+    await sweepHistory.close();
+    await l1Withdrawals?.store.close();
+  });
+
+  return {
+    adminKeys,
+    app,
+    assetPolicyStore,
+    config,
+    currentGasFees: deps.currentGasFees,
+    fpcAddress: AztecAddress.fromString(config.fpc_address),
+    l1Withdrawals: l1Withdrawals?.tracker,
+    metrics,
+    nowUnixSeconds,
+    priceFeeds,
+    quoteApiKeys,
+    quoteAuthenticator,
+    quoteLedger,
+    quoteSigner,
+    reservePricing,
+    routePrefix: "",
+    servedFpcs: shared.servedFpcs,
+    signerHealthCheck: deps.signerHealthCheck,
+    spendingLimiter,
+    spendingLimitStore,
+    sweepHistory,
+    sweepScheduler,
+    topupHistory:
+      deps.topupHistory ??
+      (config.topup_data_dir
+        ? new LmdbTopupHistory({
+            fpc_address: config.fpc_address,
+            topup_data_dir: config.topup_data_dir,
+          })
+        : undefined),
+    treasury: deps.treasury,
+    userPolicies,
+  };
+}
+
+function createReservePricing(
+  app: ServerApp,
+  config: Config,
+  deps: FpcDependencies,
+  metrics: AttestationMetrics,
+): FeeJuiceReserveMonitor | undefined {
+  if (!config.reserve_pricing) {
+    return undefined;
+  }
+  if (!deps.feeJuiceBalance) {
+    app.log.warn(
+      { event: "reserve_pricing_disabled", fpc_id: config.fpc_id },
+      "reserve_pricing ignored: the FPC Fee Juice balance cannot be read",
+    );
+    return undefined;
+  }
+  return new FeeJuiceReserveMonitor(
+    { fpc_address: config.fpc_address, reserve_pricing: config.reserve_pricing },
+    deps.feeJuiceBalance,
+    { logger: app.log, metrics },
+  );
+}
+
+/** L1 withdrawals need the operator treasury for the exit and the L1 chain for the claim. */
+function createL1WithdrawalTracker(
+  app: ServerApp,
+  config: Config,
+  deps: FpcDependencies,
+): { tracker: L1WithdrawalTracker; store: L1WithdrawalStore } | undefined {
+  if (config.treasury_l1_bridges.length === 0) {
+    return undefined;
+  }
+  if (!deps.treasury || !deps.l1WithdrawalChain) {
+    app.log.warn(
+      { event: "l1_withdrawals_disabled", fpc_id: config.fpc_id },
+      "treasury_l1_bridges ignored: L1 withdrawals need the operator treasury wallet and an L1 client",
+    );
+    return undefined;
+  }
+  const store = deps.l1WithdrawalStore ?? new LmdbL1WithdrawalStore(config);
+  const tracker = new L1WithdrawalTracker(config, deps.treasury, deps.l1WithdrawalChain, store, {
+    logger: app.log,
+  });
+  return { tracker, store };
+}
+
+function registerFpcRoutes(context: ServerContext): void {
+  registerPublicRoutes(context);
+  registerQuoteRoute(context);
+  registerBatchQuoteRoute(context);
+  registerPricePreviewRoute(context);
+  registerColdStartQuoteRoute(context);
+  registerAdminRoutes(context);
+  registerAssetPolicyHistoryRoutes(context);
+  registerPriceFeedAdminRoutes(context);
+  registerQuoteLedgerAdminRoutes(context);
+  registerRevenueReportRoute(context);
+  registerSpendingLimitAdminRoutes(context);
+  registerTreasurySweepAdminRoutes(context);
+  registerUserPolicyAdminRoutes(context);
+}
+
+/** Registers an FPC's routes again under its `/fpcs/<id>` prefix. */
+async function registerPrefixedFpcRoutes(context: ServerContext): Promise<void> {
+  const routePrefix = fpcRoutePrefix(context.config.fpc_id);
+  await context.app.register(
+    (scope, _opts, done) => {
+      registerFpcRoutes({ ...context, app: scope, routePrefix });
+      done();
+    },
+    { prefix: routePrefix },
+  );
+}
+
+/**
+ * Serves HTTPS when a certificate is configured. With a client CA, clients
+ * are asked for a certificate but unverified ones still connect, so they get
+ * the JSON 401 from quote auth instead of a failed handshake.
+ */
+function httpsServerOptions(config: Config) {
+  if (!config.tls_cert_file || !config.tls_key_file) {
+    return {};
+  }
+  return {
+    https: {
+      cert: readFileSync(config.tls_cert_file),
+      key: readFileSync(config.tls_key_file),
+      ...(config.tls_client_ca_file
+        ? {
+            ca: readFileSync(config.tls_client_ca_file),
+            requestCert: true,
+            rejectUnauthorized: false,
+          }
+        : {}),
+    },
+  };
+}
+
+function createQuoteAuthenticator(
+  config: Config,
+  sharedState: SharedStateBackend | undefined,
+): QuoteRequestAuthenticator | undefined {
+  const { clientsFile } = config.quote_auth;
+  if (!clientsFile) {
+    return undefined;
+  }
+  // Nonces live in the shared backend so a request replayed against another
+  // replica is still caught.
+  return new QuoteRequestAuthenticator(
+    config.quote_auth,
+    loadQuoteClients(clientsFile),
+    sharedState ?? new InMemorySharedState(),
+    { keyPrefix: config.shared_state_key_prefix },
+  );
+}
+
+/**
+ * Admin-issued quote API keys only apply in the api_key auth modes. Like the
+ * asset policies, they live in the shared backend when replicas share one,
+ * and so do their usage counters.
+ */
+async function createQuoteApiKeyRegistry(
+  config: Config,
+  deps: BuildServerDependencies,
+  logger: ServerApp["log"],
+): Promise<QuoteApiKeyRegistry | undefined> {
+  if (!modeNeedsApiKey(config.quote_auth.mode)) {
+    return undefined;
+  }
+  const store =
+    deps.quoteApiKeyStore ?? (await openQuoteApiKeyStore(config, deps.sharedState, { logger }));
+  return new QuoteApiKeyRegistry(store, deps.sharedState ?? new InMemorySharedState(), {
+    keyPrefix: config.shared_state_key_prefix,
+    logger,
   });
 }
 
@@ -819,19 +3198,34 @@ export async function buildServer(
   quoteSigner: QuoteSchnorrSigner,
   deps: BuildServerDependencies = {},
 ) {
-  const app = Fastify({ logger: true });
+  const app = Fastify({
+    logger: true,
+    rewriteUrl: (req) => routeByFpcQuery(req.url ?? "/"),
+    ...httpsServerOptions(config),
+  });
   const metrics = new AttestationMetrics();
-
+  // Quote clients are registered once for the instance, like admin keys.
+  const quoteAuthenticator = createQuoteAuthenticator(config, deps.sharedState);
+  const quoteApiKeys = await createQuoteApiKeyRegistry(config, deps, app.log);
+  app.addHook("onClose", async () => {
+    await quoteApiKeys?.close();
+  });
   await app.register(rateLimit, {
     global: true,
     max: config.quote_rate_limit.maxRequests,
     timeWindow: config.quote_rate_limit.windowSeconds * 1000,
     keyGenerator: (req: FastifyRequest) =>
-      resolveQuoteRateLimitIdentity(config, req.headers, req.ip).cacheKey,
+      resolveQuoteRateLimitIdentity(
+        config,
+        req.headers,
+        req.ip,
+        quoteAuthenticator?.identify(req),
+        quoteApiKeys?.lookup(firstHeaderValue(req.headers[config.quote_auth.apiKeyHeader])),
+      ).cacheKey,
     errorResponseBuilder: () => ({ statusCode: 429, ...rateLimited() }),
     onExceeded: (req: FastifyRequest, key: string) => {
-      const identityKind = key.startsWith("api_key:") ? "api_key" : "ip";
-      const isColdStart = req.url.startsWith("/cold-start-quote");
+      const identityKind = key.slice(0, key.indexOf(":"));
+      const isColdStart = stripFpcRoutePrefix(req.url).startsWith("/cold-start-quote");
       req.log.warn(
         {
           event: isColdStart ? "cold_start_quote_rate_limited" : "quote_rate_limited",
@@ -844,6 +3238,18 @@ export async function buildServer(
     ...(config.quote_rate_limit.enabled
       ? { cache: config.quote_rate_limit.maxTrackedKeys }
       : { allowList: () => true }),
+    // Replicas count against shared windows; if the backend is unreachable,
+    // requests are let through rather than failed.
+    ...(deps.sharedState
+      ? {
+          store: createSharedRateLimitStore(
+            deps.sharedState,
+            `${config.shared_state_key_prefix}rate-limit:`,
+            app.log,
+          ),
+          skipOnError: true,
+        }
+      : {}),
   });
 
   app.setErrorHandler((error, _request, reply) => {
@@ -853,28 +3259,55 @@ export async function buildServer(
     reply.send(error);
   });
 
-  const assetPolicyStore = deps.assetPolicyStore ?? new LmdbAssetPolicyStore(config);
-
-  app.addHook("onClose", async () => {
-    await assetPolicyStore.close();
+  const {
+    additionalFpcs = [],
+    adminKeys: injectedAdminKeys,
+    quoteApiKeyStore: _quoteApiKeyStore,
+    ...primaryDeps
+  } = deps;
+  // One keyring for the instance: admin keys are not scoped to an FPC.
+  const adminKeys = injectedAdminKeys ?? new AdminKeyring(config.admin_auth, { logger: app.log });
+  adminKeys.start();
+  app.addHook("onClose", (_instance, done) => {
+    adminKeys.stop();
+    done();
   });
+  const servedFpcs = [config, ...additionalFpcs.map((fpc) => fpc.config)].map(
+    (fpcConfig): ServedFpcSummary => ({
+      id: fpcConfig.fpc_id,
+      fpc_address: fpcConfig.fpc_address,
+      network_id: fpcConfig.network_id,
+      contract_variant: fpcConfig.contract_variant,
+    }),
+  );
 
-  const context: ServerContext = {
-    app,
-    assetPolicyStore,
-    config,
-    fpcAddress: AztecAddress.fromString(config.fpc_address),
+  const primary = await createFpcContext(app, config, quoteSigner, primaryDeps, {
+    adminKeys,
     metrics,
-    nowUnixSeconds: deps.nowUnixSeconds ?? (() => BigInt(Math.floor(Date.now() / 1000))),
-    quoteSigner,
-    treasury: deps.treasury,
-  };
-
-  registerPublicRoutes(context);
-  registerQuoteRoute(context);
-  registerColdStartQuoteRoute(context);
-  registerAdminRoutes(context);
-
+    quoteApiKeys,
+    quoteAuthenticator,
+    servedFpcs,
+  });
+  registerFpcRoutes(primary);
+  registerQuoteApiKeyAdminRoutes(primary);
+  await registerPrefixedFpcRoutes(primary);
+  const { currentGasFees, nowUnixSeconds, settlementSource, sharedState } = primaryDeps;
+  for (const fpc of additionalFpcs) {
+    const context = await createFpcContext(
+      app,
+      fpc.config,
+      fpc.quoteSigner,
+      { currentGasFees, nowUnixSeconds, settlementSource, sharedState, ...fpc.deps },
+      {
+        adminKeys,
+        metrics: new AttestationMetrics(),
+        quoteApiKeys,
+        quoteAuthenticator,
+        servedFpcs,
+      },
+    );
+    await registerPrefixedFpcRoutes(context);
+  }
   return app;
 }
 
@@ -886,8 +3319,11 @@ function registerColdStartQuoteRoute(context: ServerContext): void {
     fpcAddress,
     metrics,
     nowUnixSeconds,
+    priceFeeds,
     quoteSigner,
+    reservePricing,
     treasury,
+    userPolicies,
   } = context;
   const validUntil = validUntilFactory(config);
 
@@ -897,7 +3333,8 @@ function registerColdStartQuoteRoute(context: ServerContext): void {
     const observe = createQuoteObserver(metrics);
     const nowSeconds = BigInt(await nowUnixSeconds());
 
-    if (!isQuoteAuthorized(config, req.headers)) {
+    const authorization = await authorizeQuoteRequest(context, req, nowSeconds);
+    if (!authorization) {
       req.log.warn(
         {
           event: "cold_start_quote_auth_rejected",
@@ -908,11 +3345,14 @@ function registerColdStartQuoteRoute(context: ServerContext): void {
       observe("unauthorized");
       return reply.code(401).send(unauthorized());
     }
+    if (!(await consumeApiKeyQuota(context, req, reply, authorization, nowSeconds))) {
+      observe("rate_limited");
+      return reply;
+    }
 
-    const parsedRequest = parseColdStartQuoteRequest(assetPolicyStore, req.query);
+    const parsedRequest = parseColdStartQuoteRequest(assetPolicyStore, userPolicies, req.query);
     if (!parsedRequest.ok) {
-      observe("bad_request");
-      return reply.code(400).send(badRequest(parsedRequest.message));
+      return rejectQuoteRequest(req, reply, observe, parsedRequest);
     }
 
     const {
@@ -922,14 +3362,24 @@ function registerColdStartQuoteRoute(context: ServerContext): void {
       fjFeeAmount,
       claimAmount,
       claimSecretHash,
+      userTier,
     } = parsedRequest.value;
+    const livePolicy = priceFeeds.applyLiveRate(selectedAssetPolicy);
+    if (!livePolicy.ok) {
+      logPriceUnavailable(req.log, selectedAssetPolicy.address, livePolicy.message);
+      observe("price_unavailable");
+      return reply.code(503).send(serviceUnavailable(livePolicy.message));
+    }
+    const pricedPolicy = applyUserTier(livePolicy.value, userTier);
 
+    let releaseSpending: (() => void) | undefined;
     try {
       const quotePricing = computeQuotePricing(
-        selectedAssetPolicy,
+        pricedPolicy,
         fjFeeAmount,
         nowSeconds,
         validUntil,
+        reservePricing?.surchargeBips(),
       );
       if (!quotePricing.ok) {
         observe("bad_request");
@@ -943,6 +3393,22 @@ function registerColdStartQuoteRoute(context: ServerContext): void {
         return reply.code(400).send(badRequest("claim_amount must be >= aa_payment_amount"));
       }
 
+      releaseSpending = await reserveSpending(
+        context,
+        req,
+        reply,
+        {
+          user: userAddress.toString(),
+          acceptedAsset: selectedAssetPolicy.address,
+          fjAmount: fjFeeAmount,
+          nowSeconds,
+        },
+        authorization.apiKey,
+      );
+      if (!releaseSpending) {
+        observe("limit_exceeded");
+        return reply;
+      }
       await ensureSenderRegistered(treasury, fpcAddress, req.log);
 
       const coldStartParams: ColdStartQuoteParams = {
@@ -955,7 +3421,24 @@ function registerColdStartQuoteRoute(context: ServerContext): void {
         claimAmount,
         claimSecretHash,
       };
-      const signature = await signColdStartQuote(quoteSigner, coldStartParams);
+      const quoteHash = await computeColdStartQuoteHash(coldStartParams);
+      const signature = await quoteSigner.signQuoteHash(quoteHash);
+      await recordIssuedQuote(
+        context,
+        {
+          ...buildLedgerEntry(config, pricedPolicy, nowSeconds, {
+            kind: "cold_start_quote",
+            userAddress,
+            userTier,
+            fjFeeAmount,
+            pricing: quotePricing.value,
+            signed: { quoteHash, signature },
+          }),
+          claim_amount: claimAmount.toString(),
+          claim_secret_hash: claimSecretHash.toString(),
+        },
+        authorization.apiKey,
+      );
 
       req.log.info(
         {
@@ -967,6 +3450,7 @@ function registerColdStartQuoteRoute(context: ServerContext): void {
           aa_payment_amount: aaPaymentAmount.toString(),
           claim_amount: claimAmount.toString(),
           claim_secret_hash: claimSecretHash.toString(),
+          quote_hash: quoteHash.toString(),
         },
         "Cold-start quote issued",
       );
@@ -980,8 +3464,12 @@ function registerColdStartQuoteRoute(context: ServerContext): void {
         claim_amount: claimAmount.toString(),
         claim_secret_hash: claimSecretHash.toString(),
         signature,
+        ...(quotePricing.value.reserveSurchargeBips === undefined
+          ? {}
+          : { reserve_surcharge_bips: quotePricing.value.reserveSurchargeBips }),
       };
     } catch (error) {
+      releaseSpending?.();
       observe("internal_error");
       req.log.error(
         {
@@ -0,0 +1,37 @@
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import { BlockNumber } from "@aztec/foundation/branded-types";
+import { siloNullifier } from "@aztec/stdlib/hash";
+import type { SettlementChainSource } from "./settlement-watcher.js";
+
+/** Reads block nullifiers for the settlement watcher from an Aztec node. */
+export function createAztecNodeSettlementSource(node: AztecNode): SettlementChainSource {
+  return {
+    async getLatestBlockNumber() {
+      return Number(await node.getBlockNumber());
+    },
+    async getBlock(blockNumber) {
+      const block = await node.getBlock(BlockNumber(blockNumber));
+      if (!block) {
+        return undefined;
+      }
+      return {
+        number: blockNumber,
+        timestamp: block.timestamp,
+        nullifiers: block.body.txEffects.flatMap((effect) =>
+          effect.nullifiers.map((nullifier) => ({
+            nullifier: nullifier.toString(),
+            txHash: effect.txHash.toString(),
+            transactionFee: effect.transactionFee.toBigInt().toString(),
+          })),
+        ),
+      };
+    },
+    async siloQuoteHash(quoteHash, fpcAddress) {
+      return (
+        await siloNullifier(AztecAddress.fromString(fpcAddress), Fr.fromHexString(quoteHash))
+      ).toString();
+    },
+  };
+}
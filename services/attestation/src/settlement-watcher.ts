@@ -0,0 +1,233 @@
+import type { Config } from "./config.js";
+import type { AttestationMetrics } from "./metrics.js";
+import type { QuoteLedger, QuoteLedgerEntry } from "./quote-ledger.js";
+
+/** A nullifier emitted by a mined tx, as seen in the block's tx effects. */
+export interface SettlementNullifier {
+  nullifier: string;
+  txHash: string;
+  /** Fee Juice the tx paid, as a decimal string. */
+  transactionFee?: string;
+}
+
+export interface SettlementBlock {
+  number: number;
+  timestamp: bigint;
+  nullifiers: SettlementNullifier[];
+}
+
+/**
+ * Chain access needed by the watcher. The FPC pushes the quote hash as a
+ * nullifier, which the protocol silos with the FPC address before it lands
+ * in the block, so the source also owns that siloing step.
+ */
+export interface SettlementChainSource {
+  getLatestBlockNumber(): Promise<number>;
+  getBlock(blockNumber: number): Promise<SettlementBlock | undefined>;
+  siloQuoteHash(quoteHash: string, fpcAddress: string): Promise<string>;
+}
+
+export type SettlementWatcherConfig = Pick<
+  Config,
+  | "fpc_address"
+  | "previous_fpc_address"
+  | "settlement_poll_interval_seconds"
+  | "settlement_max_blocks_per_poll"
+  | "settlement_expiry_grace_seconds"
+>;
+
+interface SettlementLogger {
+  info(obj: object, msg: string): void;
+  warn(obj: object, msg: string): void;
+}
+
+export interface SettlementWatcherDependencies {
+  metrics?: AttestationMetrics;
+  logger?: SettlementLogger;
+}
+
+export interface SettlementPollResult {
+  fromBlock: number;
+  toBlock: number;
+  settled: number;
+  expired: number;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Follows new L2 blocks and resolves each `unused` ledger quote to `settled`
+ * (its siloed hash appeared as a nullifier) or `expired` (valid_until plus the
+ * grace period passed in chain time). The processed block cursor is stored in
+ * the ledger so restarts resume where they left off; on first start the
+ * watcher begins at the current chain tip.
+ */
+export class SettlementWatcher {
+  /** quote hash -> siloed nullifier, for quotes still being tracked. */
+  private readonly siloedHashes = new Map<string, string>();
+  private intervalHandle?: NodeJS.Timeout;
+  private inFlightPoll?: Promise<SettlementPollResult | undefined>;
+  private latestChainTimestamp?: bigint;
+
+  constructor(
+    private readonly config: SettlementWatcherConfig,
+    private readonly ledger: QuoteLedger,
+    private readonly source: SettlementChainSource,
+    private readonly deps: SettlementWatcherDependencies = {},
+  ) {}
+
+  start(): void {
+    if (this.intervalHandle) {
+      return;
+    }
+    void this.pollOnce();
+    this.intervalHandle = setInterval(() => {
+      void this.pollOnce();
+    }, this.config.settlement_poll_interval_seconds * 1000);
+    this.intervalHandle.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = undefined;
+    }
+    await this.inFlightPoll;
+  }
+
+  /** Runs one poll, logging instead of throwing so the interval keeps going. */
+  pollOnce(): Promise<SettlementPollResult | undefined> {
+    if (!this.inFlightPoll) {
+      this.inFlightPoll = this.poll()
+        .catch((error: unknown) => {
+          this.deps.logger?.warn(
+            { event: "settlement_poll_failed", err: errorMessage(error) },
+            "Failed to poll blocks for quote settlement",
+          );
+          return undefined;
+        })
+        .finally(() => {
+          this.inFlightPoll = undefined;
+        });
+    }
+    return this.inFlightPoll;
+  }
+
+  async poll(): Promise<SettlementPollResult> {
+    const latest = await this.source.getLatestBlockNumber();
+    let cursor = this.ledger.getSettlementCursor();
+    if (cursor === undefined) {
+      cursor = latest;
+      await this.ledger.setSettlementCursor(cursor);
+    }
+
+    const result: SettlementPollResult = {
+      fromBlock: cursor + 1,
+      toBlock: cursor,
+      settled: 0,
+      expired: 0,
+    };
+    // Read pending quotes once, after the chain tip: every block up to `latest`
+    // already existed, so any quote nullified in one was recorded before now.
+    // Settled quotes leave the map, so it also serves the expiry pass.
+    const pending = await this.trackPending();
+    const target = Math.min(latest, cursor + this.config.settlement_max_blocks_per_poll);
+    for (let blockNumber = cursor + 1; blockNumber <= target; blockNumber++) {
+      const block = await this.source.getBlock(blockNumber);
+      if (!block) {
+        break;
+      }
+      result.settled += await this.settleBlock(block, pending);
+      await this.ledger.setSettlementCursor(block.number);
+      this.latestChainTimestamp = block.timestamp;
+      result.toBlock = block.number;
+    }
+    if (this.latestChainTimestamp === undefined && result.toBlock > 0) {
+      // Nothing processed since start (restart on an idle or stalled chain):
+      // take chain time from the last processed block so expiry still runs.
+      this.latestChainTimestamp = (await this.source.getBlock(result.toBlock))?.timestamp;
+    }
+    this.deps.metrics?.setSettlementBlock(result.toBlock);
+
+    result.expired = await this.expireLapsed(pending);
+    return result;
+  }
+
+  /** Maps siloed nullifier -> entry for every quote still `unused`. */
+  private async trackPending(): Promise<Map<string, QuoteLedgerEntry>> {
+    const pending = new Map<string, QuoteLedgerEntry>();
+    for (const entry of this.ledger.listUnsettled()) {
+      let siloed = this.siloedHashes.get(entry.quote_hash);
+      if (!siloed) {
+        siloed = await this.source.siloQuoteHash(entry.quote_hash, this.issuingFpc(entry));
+        this.siloedHashes.set(entry.quote_hash, siloed);
+      }
+      pending.set(siloed, entry);
+    }
+    return pending;
+  }
+
+  /**
+   * Entries recorded before rotation support carry no FPC address; if a
+   * rotation has happened since, they were necessarily signed for the
+   * previous FPC.
+   */
+  private issuingFpc(entry: QuoteLedgerEntry): string {
+    return entry.fpc_address ?? this.config.previous_fpc_address ?? this.config.fpc_address;
+  }
+
+  private async settleBlock(
+    block: SettlementBlock,
+    pending: Map<string, QuoteLedgerEntry>,
+  ): Promise<number> {
+    let settled = 0;
+    for (const { nullifier, txHash, transactionFee } of block.nullifiers) {
+      const entry = pending.get(nullifier);
+      if (!entry) {
+        continue;
+      }
+      await this.ledger.updateSettlement(entry.quote_hash, {
+        status: "settled",
+        block_number: block.number,
+        tx_hash: txHash,
+        settled_at: block.timestamp.toString(),
+        ...(transactionFee === undefined ? {} : { fee_paid: transactionFee }),
+      });
+      pending.delete(nullifier);
+      this.siloedHashes.delete(entry.quote_hash);
+      this.deps.metrics?.observeQuoteSettlement(entry.accepted_asset, "settled");
+      this.deps.logger?.info(
+        {
+          event: "quote_settled",
+          quote_hash: entry.quote_hash,
+          accepted_asset: entry.accepted_asset,
+          block_number: block.number,
+          tx_hash: txHash,
+        },
+        "Quote settled on-chain",
+      );
+      settled += 1;
+    }
+    return settled;
+  }
+
+  private async expireLapsed(pending: Map<string, QuoteLedgerEntry>): Promise<number> {
+    if (this.latestChainTimestamp === undefined) {
+      return 0;
+    }
+    const cutoff = this.latestChainTimestamp - BigInt(this.config.settlement_expiry_grace_seconds);
+    let expired = 0;
+    for (const entry of pending.values()) {
+      if (BigInt(entry.valid_until) >= cutoff) {
+        continue;
+      }
+      await this.ledger.updateSettlement(entry.quote_hash, { status: "expired" });
+      this.siloedHashes.delete(entry.quote_hash);
+      this.deps.metrics?.observeQuoteSettlement(entry.accepted_asset, "expired");
+      expired += 1;
+    }
+    return expired;
+  }
+}
@@ -0,0 +1,526 @@
+import { EventEmitter } from "node:events";
+import type { FastifyRateLimitStoreCtor } from "fastify-rate-limit";
+import { Redis } from "ioredis";
+import type { Config } from "./config.js";
+
+/** Count of a fixed rate-limit window after an increment. */
+export interface WindowCount {
+  count: number;
+  /** Milliseconds until the window resets. */
+  ttlMs: number;
+}
+
+/**
+ * State shared by every replica of the service: rate-limit counters, asset
+ * policies, and change notifications for the latter. Shaped after the Redis
+ * commands that back it, so any Redis-compatible server (Redis, Valkey,
+ * KeyDB, Dragonfly) works unmodified.
+ */
+export interface SharedStateBackend {
+  /**
+   * Increments the counter at `key`, starting a `windowMs` window when none
+   * is running. Atomic across replicas.
+   */
+  incrementWindow(key: string, windowMs: number): Promise<WindowCount>;
+  /**
+   * Adds `amount`, which may be negative, to the counter at `key` and resolves
+   * with its new value. Exact for Fee Juice amounts, which overflow a plain
+   * Redis integer. With `ttlMs` the counter expires that long after its first
+   * write.
+   */
+  addToCounter(key: string, amount: bigint, ttlMs?: number): Promise<bigint>;
+  /** Current values of the counters at `keys`, in order; 0 for missing ones. */
+  readCounters(keys: string[]): Promise<bigint[]>;
+  hashGetAll(key: string): Promise<Record<string, string>>;
+  hashSet(key: string, field: string, value: string): Promise<void>;
+  /** Returns whether the field existed. */
+  hashDelete(key: string, field: string): Promise<boolean>;
+  /** Appends to the list at `key`; resolves with its new length. */
+  listPush(key: string, value: string): Promise<number>;
+  listRange(key: string): Promise<string[]>;
+  publish(channel: string, message: string): Promise<void>;
+  /** Resolves once subscribed; the returned function unsubscribes. */
+  subscribe(channel: string, onMessage: (message: string) => void): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+interface SharedStateLogger {
+  info(obj: object, msg: string): void;
+  warn(obj: object, msg: string): void;
+}
+
+const IN_MEMORY_WINDOW_PRUNE_INTERVAL_MS = 60_000;
+
+export class SharedStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SharedStateError";
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Process-local backend. Several services built on one instance behave like
+ * replicas sharing a Redis server, which is what tests use it for. It also
+ * backs single-instance state such as HMAC nonces, so expired windows are
+ * pruned rather than kept until their key is reused.
+ */
+export class InMemorySharedState implements SharedStateBackend {
+  private readonly windows = new Map<string, { count: number; resetAtMs: number }>();
+  private readonly counters = new Map<string, { value: bigint; expiresAtMs?: number }>();
+  private nextWindowPruneAtMs = 0;
+  private readonly hashes = new Map<string, Map<string, string>>();
+  private readonly lists = new Map<string, string[]>();
+  private readonly channels = new EventEmitter();
+
+  constructor(private readonly nowMs: () => number = Date.now) {
+    this.channels.setMaxListeners(0);
+  }
+
+  incrementWindow(key: string, windowMs: number): Promise<WindowCount> {
+    const now = this.nowMs();
+    this.pruneWindows(now);
+    let window = this.windows.get(key);
+    if (!window || window.resetAtMs <= now) {
+      window = { count: 0, resetAtMs: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count += 1;
+    return Promise.resolve({ count: window.count, ttlMs: window.resetAtMs - now });
+  }
+
+  addToCounter(key: string, amount: bigint, ttlMs?: number): Promise<bigint> {
+    const now = this.nowMs();
+    this.pruneWindows(now);
+    let counter = this.liveCounter(key, now);
+    if (!counter) {
+      counter = { value: 0n, expiresAtMs: ttlMs === undefined ? undefined : now + ttlMs };
+      this.counters.set(key, counter);
+    }
+    counter.value += amount;
+    return Promise.resolve(counter.value);
+  }
+
+  readCounters(keys: string[]): Promise<bigint[]> {
+    const now = this.nowMs();
+    return Promise.resolve(keys.map((key) => this.liveCounter(key, now)?.value ?? 0n));
+  }
+
+  private liveCounter(
+    key: string,
+    now: number,
+  ): { value: bigint; expiresAtMs?: number } | undefined {
+    const counter = this.counters.get(key);
+    return counter?.expiresAtMs !== undefined && counter.expiresAtMs <= now ? undefined : counter;
+  }
+
+  private pruneWindows(now: number): void {
+    if (now < this.nextWindowPruneAtMs) {
+      return;
+    }
+    this.nextWindowPruneAtMs = now + IN_MEMORY_WINDOW_PRUNE_INTERVAL_MS;
+    for (const [key, window] of this.windows) {
+      if (window.resetAtMs <= now) {
+        this.windows.delete(key);
+      }
+    }
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAtMs !== undefined && counter.expiresAtMs <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+
+  hashGetAll(key: string): Promise<Record<string, string>> {
+    return Promise.resolve(Object.fromEntries(this.hashes.get(key) ?? []));
+  }
+
+  hashSet(key: string, field: string, value: string): Promise<void> {
+    let hash = this.hashes.get(key);
+    if (!hash) {
+      hash = new Map();
+      this.hashes.set(key, hash);
+    }
+    hash.set(field, value);
+    return Promise.resolve();
+  }
+
+  hashDelete(key: string, field: string): Promise<boolean> {
+    return Promise.resolve(this.hashes.get(key)?.delete(field) ?? false);
+  }
+
+  listPush(key: string, value: string): Promise<number> {
+    let list = this.lists.get(key);
+    if (!list) {
+      list = [];
+      this.lists.set(key, list);
+    }
+    list.push(value);
+    return Promise.resolve(list.length);
+  }
+
+  listRange(key: string): Promise<string[]> {
+    return Promise.resolve([...(this.lists.get(key) ?? [])]);
+  }
+
+  publish(channel: string, message: string): Promise<void> {
+    // Delivered on a later tick, like a message coming back from the server.
+    setImmediate(() => this.channels.emit(channel, message));
+    return Promise.resolve();
+  }
+
+  subscribe(channel: string, onMessage: (message: string) => void): Promise<() => Promise<void>> {
+    this.channels.on(channel, onMessage);
+    return Promise.resolve(() => {
+      this.channels.off(channel, onMessage);
+      return Promise.resolve();
+    });
+  }
+
+  close(): Promise<void> {
+    this.channels.removeAllListeners();
+    return Promise.resolve();
+  }
+}
+
+// ─── Redis ───────────────────────────────────────────────────────────────────
+
+interface RedisTarget {
+  host: string;
+  port: number;
+  tls: boolean;
+  username?: string;
+  password?: string;
+  database?: number;
+}
+
+export function parseRedisUrl(url: string): RedisTarget {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "redis:" && parsed.protocol !== "rediss:") {
+    throw new SharedStateError(`Unsupported shared state URL protocol: ${parsed.protocol}`);
+  }
+  const database = parsed.pathname.replace(/^\//, "");
+  if (database && !/^\d+$/.test(database)) {
+    throw new SharedStateError(`Invalid Redis database index: ${database}`);
+  }
+  return {
+    host: parsed.hostname,
+    port: parsed.port ? Number(parsed.port) : 6379,
+    tls: parsed.protocol === "rediss:",
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    database: database ? Number(database) : undefined,
+  };
+}
+
+/**
+ * Counters are kept as two Redis integers, `key` for the part above
+ * {@link COUNTER_LOW_BITS} bits and `key:low` for the rest, each moved by
+ * INCRBY. Their sum is exact while every Fee Juice total stays below 2^95.
+ */
+const COUNTER_LOW_BITS = 32n;
+const COUNTER_LOW_MASK = (1n << COUNTER_LOW_BITS) - 1n;
+
+function splitCounterAmount(amount: bigint): [high: string, low: string] {
+  const magnitude = amount < 0n ? -amount : amount;
+  const sign = amount < 0n ? -1n : 1n;
+  return [
+    String(sign * (magnitude >> COUNTER_LOW_BITS)),
+    String(sign * (magnitude & COUNTER_LOW_MASK)),
+  ];
+}
+
+function joinCounter(high: unknown, low: unknown): bigint {
+  return (BigInt(String(high ?? 0)) << COUNTER_LOW_BITS) + BigInt(String(low ?? 0));
+}
+
+function expectInteger(reply: unknown, command: string): number {
+  if (typeof reply !== "number" || !Number.isSafeInteger(reply)) {
+    throw new SharedStateError(`Unexpected ${command} reply: ${JSON.stringify(reply)}`);
+  }
+  return reply;
+}
+
+export interface RedisSharedStateOptions {
+  url: string;
+  commandTimeoutMs: number;
+  /** Delay between reconnect attempts after a connection drops. */
+  reconnectDelayMs?: number;
+  logger?: SharedStateLogger;
+}
+
+/**
+ * Backend on a Redis-compatible server through ioredis. Commands share one
+ * connection; pub/sub uses a second one, which ioredis re-subscribes after a
+ * drop. Both connect on first use and reconnect by themselves; commands sent
+ * while disconnected fail with the next failed connection attempt.
+ */
+export class RedisSharedState implements SharedStateBackend {
+  private readonly target: RedisTarget;
+  private readonly commands: Redis;
+  private subscriber?: Redis;
+  private readonly handlers = new Map<string, Set<(message: string) => void>>();
+
+  constructor(private readonly options: RedisSharedStateOptions) {
+    this.target = parseRedisUrl(options.url);
+    this.commands = this.connect("commands");
+  }
+
+  /** `host:port/db` without credentials, for logs. */
+  describe(): string {
+    const { host, port, database } = this.target;
+    return `${host}:${port}${database === undefined ? "" : `/${database}`}`;
+  }
+
+  async incrementWindow(key: string, windowMs: number): Promise<WindowCount> {
+    const results = await this.commands
+      .multi()
+      .set(key, "0", "PX", windowMs, "NX")
+      .incr(key)
+      .pttl(key)
+      .exec();
+    if (!results) {
+      throw new SharedStateError("Shared state transaction was aborted");
+    }
+    const failed = results.find(([error]) => error);
+    if (failed?.[0]) {
+      throw failed[0];
+    }
+    const count = expectInteger(results[1]?.[1], "INCR");
+    const ttlMs = expectInteger(results[2]?.[1], "PTTL");
+    return { count, ttlMs: ttlMs >= 0 ? ttlMs : windowMs };
+  }
+
+  async addToCounter(key: string, amount: bigint, ttlMs?: number): Promise<bigint> {
+    const [high, low] = splitCounterAmount(amount);
+    const lowKey = `${key}:low`;
+    const transaction = this.commands.multi();
+    if (ttlMs !== undefined) {
+      transaction.set(key, "0", "PX", ttlMs, "NX").set(lowKey, "0", "PX", ttlMs, "NX");
+    }
+    // GET rather than the INCRBY replies: integer replies arrive as JS numbers.
+    const results = await transaction
+      .incrby(key, high)
+      .incrby(lowKey, low)
+      .get(key)
+      .get(lowKey)
+      .exec();
+    if (!results) {
+      throw new SharedStateError("Shared state transaction was aborted");
+    }
+    const failed = results.find(([error]) => error);
+    if (failed?.[0]) {
+      throw failed[0];
+    }
+    return joinCounter(results.at(-2)?.[1], results.at(-1)?.[1]);
+  }
+
+  async readCounters(keys: string[]): Promise<bigint[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    const values = await this.commands.mget(keys.flatMap((key) => [key, `${key}:low`]));
+    return keys.map((_, i) => joinCounter(values[2 * i], values[2 * i + 1]));
+  }
+
+  hashGetAll(key: string): Promise<Record<string, string>> {
+    return this.commands.hgetall(key);
+  }
+
+  async hashSet(key: string, field: string, value: string): Promise<void> {
+    await this.commands.hset(key, field, value);
+  }
+
+  async hashDelete(key: string, field: string): Promise<boolean> {
+    return (await this.commands.hdel(key, field)) > 0;
+  }
+
+  listPush(key: string, value: string): Promise<number> {
+    return this.commands.rpush(key, value);
+  }
+
+  listRange(key: string): Promise<string[]> {
+    return this.commands.lrange(key, 0, -1);
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.commands.publish(channel, message);
+  }
+
+  async subscribe(
+    channel: string,
+    onMessage: (message: string) => void,
+  ): Promise<() => Promise<void>> {
+    const subscriber = this.getSubscriber();
+    let channelHandlers = this.handlers.get(channel);
+    if (!channelHandlers) {
+      channelHandlers = new Set();
+      this.handlers.set(channel, channelHandlers);
+      try {
+        await subscriber.subscribe(channel);
+      } catch (error) {
+        this.handlers.delete(channel);
+        throw error;
+      }
+    }
+    channelHandlers.add(onMessage);
+
+    return async () => {
+      const current = this.handlers.get(channel);
+      if (!current?.delete(onMessage) || current.size > 0) {
+        return;
+      }
+      this.handlers.delete(channel);
+      if (subscriber.status === "ready") {
+        await subscriber.unsubscribe(channel);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([disconnect(this.commands), this.subscriber && disconnect(this.subscriber)]);
+  }
+
+  private connect(role: "commands" | "subscriber"): Redis {
+    const { host, port, username, password, database } = this.target;
+    const reconnectDelayMs = this.options.reconnectDelayMs ?? 1000;
+    const client = new Redis({
+      host,
+      port,
+      username,
+      password,
+      db: database,
+      tls: this.target.tls ? { servername: host } : undefined,
+      lazyConnect: true,
+      connectTimeout: this.options.commandTimeoutMs,
+      commandTimeout: this.options.commandTimeoutMs,
+      // Fail commands when a connection attempt fails instead of queueing them
+      // across retries; a rate-limited request should not hang on Redis.
+      maxRetriesPerRequest: 0,
+      retryStrategy: () => reconnectDelayMs,
+    });
+    let dropped = false;
+    client.on("error", (error: Error) => {
+      this.options.logger?.warn(
+        { event: "shared_state_connection_error", role, err: error.message },
+        "Shared state connection error",
+      );
+    });
+    client.on("reconnecting", () => {
+      dropped = true;
+    });
+    client.on("ready", () => {
+      if (dropped && role === "subscriber") {
+        this.options.logger?.info(
+          { event: "shared_state_subscriber_reconnected", channels: this.handlers.size },
+          "Shared state subscriber re-subscribed",
+        );
+      }
+      dropped = false;
+    });
+    return client;
+  }
+
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = this.connect("subscriber");
+      this.subscriber.on("message", (channel: string, message: string) => {
+        for (const handler of this.handlers.get(channel) ?? []) {
+          handler(message);
+        }
+      });
+    }
+    return this.subscriber;
+  }
+}
+
+/** Sends QUIT when connected, so queued replies still arrive; otherwise just stops reconnecting. */
+async function disconnect(client: Redis): Promise<void> {
+  if (client.status === "ready") {
+    await client.quit();
+    return;
+  }
+  client.disconnect();
+}
+
+// ─── Wiring ──────────────────────────────────────────────────────────────────
+
+export type SharedStateConfig = Pick<
+  Config,
+  "shared_state_backend" | "shared_state_url" | "shared_state_command_timeout_ms"
+>;
+
+/** Builds the configured backend, or undefined for `local` (in-process and LMDB state). */
+export function createSharedStateBackend(
+  config: SharedStateConfig,
+  deps: { logger?: SharedStateLogger } = {},
+): RedisSharedState | undefined {
+  if (config.shared_state_backend === "local") {
+    return undefined;
+  }
+  if (!config.shared_state_url) {
+    throw new SharedStateError("shared_state_backend=redis requires shared_state_url");
+  }
+  return new RedisSharedState({
+    url: config.shared_state_url,
+    commandTimeoutMs: config.shared_state_command_timeout_ms,
+    logger: deps.logger,
+  });
+}
+
+/**
+ * What the plugin actually hands to store constructors and `child()`: its
+ * merged limit params, not the route options its typings declare.
+ */
+interface RateLimitStoreParams {
+  timeWindow?: number | string;
+  routeInfo?: { method?: string | string[]; url?: string };
+}
+
+type RateLimitIncrCallback = (
+  error: Error | null,
+  result?: { current: number; ttl: number },
+) => void;
+
+/**
+ * Adapts a backend to fastify-rate-limit's `store` option, so every replica
+ * counts against the same fixed windows. Keys follow the plugin's own Redis
+ * store: per-route limits get `<method><url>-` appended to the prefix.
+ */
+export function createSharedRateLimitStore(
+  backend: SharedStateBackend,
+  keyPrefix: string,
+  logger?: SharedStateLogger,
+): FastifyRateLimitStoreCtor {
+  return class SharedRateLimitStore {
+    private readonly timeWindowMs: number;
+
+    constructor(
+      params: object,
+      private readonly prefix = keyPrefix,
+    ) {
+      this.timeWindowMs = Number((params as RateLimitStoreParams).timeWindow);
+    }
+
+    incr(key: string, callback: RateLimitIncrCallback): void {
+      backend.incrementWindow(`${this.prefix}${key}`, this.timeWindowMs).then(
+        ({ count, ttlMs }) => callback(null, { current: count, ttl: ttlMs }),
+        (error: unknown) => {
+          logger?.warn(
+            { event: "shared_rate_limit_unavailable", err: errorMessage(error) },
+            "Shared rate-limit store unavailable",
+          );
+          callback(error instanceof Error ? error : new Error(String(error)));
+        },
+      );
+    }
+
+    child(params: object): SharedRateLimitStore {
+      const { method = "", url = "" } = (params as RateLimitStoreParams).routeInfo ?? {};
+      return new SharedRateLimitStore(params, `${this.prefix}${String(method)}${url}-`);
+    }
+  };
+}
@@ -17,7 +17,9 @@
 
 import type { AztecAddress } from "@aztec/aztec.js/addresses";
 import { Fr } from "@aztec/aztec.js/fields";
+import { Schnorr } from "@aztec/foundation/crypto/schnorr";
 import { computeInnerAuthWitHash } from "@aztec/stdlib/auth-witness";
+import { deriveSigningKey } from "@aztec/stdlib/keys";
 
 // Must match QUOTE_DOMAIN_SEPARATOR in main.nr ("FPC" = 0x465043)
 const QUOTE_DOMAIN_SEPARATOR = Fr.fromHexString("0x465043");
@@ -51,6 +53,37 @@ export interface QuoteSchnorrSigner {
   signQuoteHash(quoteHash: Fr): Promise<string>;
 }
 
+/** Operator Schnorr public key coordinates, as stored in the FPC immutables. */
+export interface QuoteSignerPublicKey {
+  x: Fr;
+  y: Fr;
+}
+
+export interface LocalQuoteSigner extends QuoteSchnorrSigner {
+  publicKey: QuoteSignerPublicKey;
+}
+
+/**
+ * In-process signer that derives the Schnorr signing key from the operator
+ * account secret. Used by `quote_signer: local` and by the reference signing
+ * daemon.
+ */
+export async function createLocalQuoteSigner(secretKey: Fr): Promise<LocalQuoteSigner> {
+  const signingKey = deriveSigningKey(secretKey);
+  const schnorr = new Schnorr();
+  const publicKey = await schnorr.computePublicKey(signingKey);
+  return {
+    publicKey: {
+      x: Fr.fromString(publicKey.x.toString()),
+      y: Fr.fromString(publicKey.y.toString()),
+    },
+    async signQuoteHash(quoteHash: Fr): Promise<string> {
+      const sig = await schnorr.constructSignature(quoteHash.toBuffer(), signingKey);
+      return `0x${Buffer.from(sig.toBuffer()).toString("hex")}`;
+    },
+  };
+}
+
 /**
  * Compute the quote hash, matching the contract's hash computation.
  *
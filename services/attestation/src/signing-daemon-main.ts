@@ -0,0 +1,53 @@
+import pino from "pino";
+
+const pinoLogger = pino();
+
+/**
+ * Reference signing daemon — entry point
+ *
+ * Serves quote-hash signatures for an attestation service running with
+ * `quote_signer: remote`. Intended for local development and tests.
+ *
+ * Environment:
+ *   SIGNING_DAEMON_SECRET_KEY   operator account secret key (required)
+ *   SIGNING_DAEMON_KEY_ID       key identifier (default "operator")
+ *   SIGNING_DAEMON_AUTH_TOKEN   bearer token required on /sign and /public-key
+ *   SIGNING_DAEMON_HOST         bind host (default 127.0.0.1)
+ *   SIGNING_DAEMON_PORT         bind port (default 3100)
+ *
+ * Usage:
+ *   SIGNING_DAEMON_SECRET_KEY=0x... tsx src/signing-daemon-main.ts
+ */
+
+import { Fr } from "@aztec/aztec.js/fields";
+import { createLocalQuoteSigner } from "./signer.js";
+import { buildSigningDaemon } from "./signing-daemon.js";
+
+const PRIVATE_KEY_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+async function main() {
+  const secretKey = process.env.SIGNING_DAEMON_SECRET_KEY?.trim();
+  if (!secretKey || !PRIVATE_KEY_PATTERN.test(secretKey)) {
+    throw new Error("SIGNING_DAEMON_SECRET_KEY must be a 32-byte 0x-prefixed hex private key");
+  }
+  const keyId = process.env.SIGNING_DAEMON_KEY_ID?.trim() || "operator";
+  const authToken = process.env.SIGNING_DAEMON_AUTH_TOKEN?.trim() || undefined;
+  const host = process.env.SIGNING_DAEMON_HOST?.trim() || "127.0.0.1";
+  const port = Number(process.env.SIGNING_DAEMON_PORT ?? 3100);
+
+  const signer = await createLocalQuoteSigner(Fr.fromHexString(secretKey));
+  const app = buildSigningDaemon({ signer, keyId, authToken });
+  if (!authToken) {
+    pinoLogger.warn("SIGNING_DAEMON_AUTH_TOKEN is not set; /sign is unauthenticated");
+  }
+
+  await app.listen({ port, host });
+  pinoLogger.info(`Signing daemon listening on ${host}:${port} (key_id=${keyId})`);
+  pinoLogger.info(`Operator pubkey x: ${signer.publicKey.x.toString()}`);
+  pinoLogger.info(`Operator pubkey y: ${signer.publicKey.y.toString()}`);
+}
+
+main().catch((err) => {
+  pinoLogger.error({ err }, "Fatal error:");
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { Fr } from "@aztec/aztec.js/fields";
+import Fastify, { type FastifyInstance } from "fastify";
+import { z } from "zod";
+import type { LocalQuoteSigner } from "./signer.js";
+
+/**
+ * Reference signing daemon for `quote_signer: remote`.
+ *
+ * Holds one operator key and serves the protocol documented on
+ * {@link RemoteQuoteSigner}. It is meant for local development and tests, and
+ * as a template for fronting a real KMS/HSM: production deployments should
+ * replace the in-memory {@link LocalQuoteSigner} with a hardware-backed one.
+ */
+export interface SigningDaemonOptions {
+  signer: LocalQuoteSigner;
+  keyId: string;
+  /** When set, every route except `/health` requires `Authorization: Bearer <token>`. */
+  authToken?: string;
+  logger?: boolean;
+}
+
+const SignRequestBodySchema = z.object({
+  key_id: z.string().trim().min(1).optional(),
+  message_hash: z
+    .string()
+    .trim()
+    .regex(/^0x[0-9a-fA-F]{64}$/, "message_hash must be a 32-byte 0x-prefixed hex field"),
+});
+
+const PublicKeyQuerySchema = z.object({
+  key_id: z.string().trim().min(1).optional(),
+});
+
+function errorBody(code: string, message: string) {
+  return { error: { code, message } };
+}
+
+function bearerMatches(header: string | undefined, expected: string): boolean {
+  if (!header?.startsWith("Bearer ")) {
+    return false;
+  }
+  const expectedDigest = createHash("sha256").update(expected, "utf8").digest();
+  const candidateDigest = createHash("sha256").update(header.slice(7), "utf8").digest();
+  return timingSafeEqual(expectedDigest, candidateDigest);
+}
+
+export function buildSigningDaemon(options: SigningDaemonOptions): FastifyInstance {
+  const app = Fastify({ logger: options.logger ?? true });
+  const { authToken, keyId, signer } = options;
+
+  app.addHook("onRequest", (req, reply, done) => {
+    if (
+      authToken &&
+      req.url !== "/health" &&
+      !bearerMatches(req.headers.authorization, authToken)
+    ) {
+      reply.code(401).send(errorBody("UNAUTHORIZED", "Unauthorized"));
+      return;
+    }
+    done();
+  });
+
+  app.get("/health", () => ({ status: "ok" }));
+
+  app.get("/public-key", (req, reply) => {
+    const query = PublicKeyQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return reply.code(400).send(errorBody("BAD_REQUEST", "Invalid key_id"));
+    }
+    if (query.data.key_id && query.data.key_id !== keyId) {
+      return reply
+        .code(404)
+        .send(errorBody("KEY_NOT_FOUND", `Unknown key_id: ${query.data.key_id}`));
+    }
+    return { key_id: keyId, x: signer.publicKey.x.toString(), y: signer.publicKey.y.toString() };
+  });
+
+  app.post("/sign", async (req, reply) => {
+    const body = SignRequestBodySchema.safeParse(req.body);
+    if (!body.success) {
+      return reply
+        .code(400)
+        .send(errorBody("BAD_REQUEST", body.error.issues[0]?.message ?? "Invalid request"));
+    }
+    if (body.data.key_id && body.data.key_id !== keyId) {
+      return reply
+        .code(404)
+        .send(errorBody("KEY_NOT_FOUND", `Unknown key_id: ${body.data.key_id}`));
+    }
+    const signature = await signer.signQuoteHash(Fr.fromHexString(body.data.message_hash));
+    req.log.info(
+      { event: "quote_hash_signed", key_id: keyId, message_hash: body.data.message_hash },
+      "Signed quote hash",
+    );
+    return { signature };
+  });
+
+  return app;
+}
@@ -0,0 +1,62 @@
+import { open, type RootDatabase } from "lmdb";
+import type { Config } from "./config.js";
+import { normalizeAztecAddress } from "./config.js";
+import { type SpendingLimits, SpendingLimitsSchema } from "./spending-limits.js";
+
+const LIMITS_KEY = "limits";
+
+function normalizeSpendingLimits(limits: SpendingLimits): SpendingLimits {
+  const parsed = SpendingLimitsSchema.parse(limits);
+  return {
+    ...parsed,
+    user_windows: [...parsed.user_windows].sort(
+      (left, right) => left.window_seconds - right.window_seconds,
+    ),
+    asset_daily: parsed.asset_daily.map((entry) => ({
+      accepted_asset: normalizeAztecAddress(entry.accepted_asset),
+      max_fj_amount: entry.max_fj_amount,
+    })),
+  };
+}
+
+export interface SpendingLimitStore {
+  get(): SpendingLimits;
+  replace(limits: SpendingLimits): Promise<SpendingLimits>;
+  close(): Promise<void>;
+}
+
+/**
+ * LMDB-backed spending limits. Seeded from `spending_limits` on first boot;
+ * after the first admin update the stored copy is authoritative.
+ */
+export class LmdbSpendingLimitStore implements SpendingLimitStore {
+  private readonly db: RootDatabase<SpendingLimits, string>;
+  private cached: SpendingLimits;
+
+  constructor(config: Pick<Config, "spending_limits" | "spending_limits_state_path">) {
+    this.db = open<SpendingLimits, string>({ path: config.spending_limits_state_path });
+
+    const stored = this.db.get(LIMITS_KEY);
+    if (stored) {
+      this.cached = stored;
+    } else {
+      this.cached = normalizeSpendingLimits(config.spending_limits);
+      this.db.putSync(LIMITS_KEY, this.cached);
+    }
+  }
+
+  get(): SpendingLimits {
+    return structuredClone(this.cached);
+  }
+
+  async replace(limits: SpendingLimits): Promise<SpendingLimits> {
+    const normalized = normalizeSpendingLimits(limits);
+    await this.db.put(LIMITS_KEY, normalized);
+    this.cached = normalized;
+    return structuredClone(normalized);
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+}
@@ -0,0 +1,408 @@
+import { z } from "zod";
+import type { QuoteLedgerEntry } from "./quote-ledger.js";
+
+const U128_MAX = (1n << 128n) - 1n;
+const SECONDS_PER_DAY = 86_400n;
+const MAX_USER_WINDOW_SECONDS = 30 * 86_400;
+const ASSET_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+/** Full sweeps of idle users run once per this many reservations. */
+const PRUNE_EVERY_RESERVATIONS = 1000;
+
+export const FjLimitSchema = z
+  .string()
+  .trim()
+  .regex(/^[1-9][0-9]*$/, "must be a positive integer decimal string")
+  .refine((value) => BigInt(value) <= U128_MAX, "must fit in u128");
+
+const UserWindowLimitSchema = z.object({
+  window_seconds: z.number().int().positive().max(MAX_USER_WINDOW_SECONDS),
+  max_fj_amount: FjLimitSchema,
+});
+
+const AssetDailyLimitSchema = z.object({
+  accepted_asset: z.string().trim().regex(ASSET_ADDRESS_PATTERN, "must be a valid Aztec address"),
+  max_fj_amount: FjLimitSchema,
+});
+
+/** Fee Juice sponsorship caps. Every limit is optional; an empty object disables them all. */
+export const SpendingLimitsSchema = z.object({
+  max_fj_per_quote: FjLimitSchema.optional(),
+  user_windows: z
+    .array(UserWindowLimitSchema)
+    .default([])
+    .refine(
+      (windows) => new Set(windows.map((entry) => entry.window_seconds)).size === windows.length,
+      "user_windows must not repeat window_seconds",
+    ),
+  asset_daily: z
+    .array(AssetDailyLimitSchema)
+    .default([])
+    .refine(
+      (entries) =>
+        new Set(entries.map((entry) => entry.accepted_asset.toLowerCase())).size === entries.length,
+      "asset_daily must not repeat accepted_asset",
+    ),
+});
+
+export type SpendingLimits = z.infer<typeof SpendingLimitsSchema>;
+
+export type SpendingLimitCode =
+  | "QUOTE_AMOUNT_LIMIT_EXCEEDED"
+  | "USER_SPENDING_LIMIT_EXCEEDED"
+  | "ASSET_DAILY_LIMIT_EXCEEDED"
+  | "API_KEY_BUDGET_EXCEEDED";
+
+export interface SpendingLimitViolation {
+  code: SpendingLimitCode;
+  message: string;
+  limit_fj_amount: string;
+  requested_fj_amount: string;
+  used_fj_amount?: string;
+  window_seconds?: number;
+  /** Earliest time the same request could pass, when that is knowable. */
+  retry_after_seconds?: number;
+}
+
+export interface SpendingRequest {
+  user: string;
+  acceptedAsset: string;
+  fjAmount: bigint;
+  nowSeconds: bigint;
+}
+
+export type SpendingReservation =
+  | { ok: true; release: () => void }
+  | { ok: false; violation: SpendingLimitViolation };
+
+/** The fields of a signed quote that count against the limits. */
+export type IssuedSpend = Pick<
+  QuoteLedgerEntry,
+  "user" | "accepted_asset" | "fj_amount" | "issued_at" | "batch_id"
+>;
+
+interface UserSpend {
+  atSeconds: bigint;
+  fjAmount: bigint;
+}
+
+interface AssetDay {
+  day: bigint;
+  fjAmount: bigint;
+}
+
+function compareBigInt(left: bigint, right: bigint): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function sumSince(history: UserSpend[], sinceSeconds: bigint): bigint {
+  let total = 0n;
+  for (const spend of history) {
+    if (spend.atSeconds > sinceSeconds) {
+      total += spend.fjAmount;
+    }
+  }
+  return total;
+}
+
+/** Seconds until enough of the window's oldest spends roll off to cover `excess`. */
+function userRetryAfterSeconds(
+  history: UserSpend[],
+  windowStart: bigint,
+  windowSeconds: bigint,
+  excess: bigint,
+  nowSeconds: bigint,
+): number | undefined {
+  let freed = 0n;
+  for (const spend of history) {
+    if (spend.atSeconds <= windowStart) {
+      continue;
+    }
+    freed += spend.fjAmount;
+    if (freed >= excess) {
+      return Number(spend.atSeconds + windowSeconds - nowSeconds);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Tracks sponsored Fee Juice and enforces {@link SpendingLimits} at quote
+ * time. Usage is counted when a quote is signed (not when it settles), since
+ * every signed quote is spendable exposure. Counters live in process memory
+ * and are rebuilt from the quote ledger on startup with `restore`, so a
+ * restart does not reset them.
+ */
+export class SpendingLimiter {
+  private readonly userHistory = new Map<string, UserSpend[]>();
+  private readonly assetDays = new Map<string, AssetDay>();
+  private reservationsSincePrune = 0;
+
+  constructor(private readonly getLimits: () => SpendingLimits) {}
+
+  /**
+   * Checks every limit and, if all pass, counts the request immediately so
+   * concurrent quotes cannot both slip under a cap. Call `release` when the
+   * quote is not issued after all.
+   */
+  reserve(request: SpendingRequest): SpendingReservation {
+    const limits = this.getLimits();
+    const violation =
+      this.checkQuoteAmount(limits, request) ??
+      this.checkUserWindows(limits, request) ??
+      this.checkAssetDaily(limits, request);
+    if (violation) {
+      return { ok: false, violation };
+    }
+
+    const releaseUser = this.countUserSpend(request);
+    const releaseAsset = this.countAssetSpend(request);
+    this.maybePrune(limits, request.nowSeconds);
+    return {
+      ok: true,
+      release: () => {
+        releaseUser();
+        releaseAsset();
+      },
+    };
+  }
+
+  /**
+   * The per-quote and per-asset checks of `reserve`, without counting: batch
+   * entries are alternatives for one transaction, so each is checked here and
+   * only the largest is charged, through `reserveAsset` and `reserveUser`.
+   */
+  checkQuote(request: SpendingRequest): SpendingLimitViolation | undefined {
+    const limits = this.getLimits();
+    return this.checkQuoteAmount(limits, request) ?? this.checkAssetDaily(limits, request);
+  }
+
+  /** The per-asset daily half of `reserve`. */
+  reserveAsset(request: SpendingRequest): SpendingReservation {
+    const violation = this.checkAssetDaily(this.getLimits(), request);
+    if (violation) {
+      return { ok: false, violation };
+    }
+    return { ok: true, release: this.countAssetSpend(request) };
+  }
+
+  /** The per-user-window half of `reserve`. */
+  reserveUser(request: Omit<SpendingRequest, "acceptedAsset">): SpendingReservation {
+    const limits = this.getLimits();
+    const violation = this.checkUserWindows(limits, request);
+    if (violation) {
+      return { ok: false, violation };
+    }
+    const release = this.countUserSpend(request);
+    this.maybePrune(limits, request.nowSeconds);
+    return { ok: true, release };
+  }
+
+  /**
+   * Earliest `issued_at` that still counts at `nowSeconds`: the start of the
+   * longest user window or of the current UTC day, whichever is earlier.
+   */
+  historyStartSeconds(nowSeconds: bigint): bigint {
+    const windowStart = nowSeconds - BigInt(this.longestUserWindow(this.getLimits()));
+    const dayStart = (nowSeconds / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+    return windowStart < dayStart ? windowStart : dayStart;
+  }
+
+  /**
+   * Counts quotes signed before this limiter existed, e.g. the ledger entries
+   * since `historyStartSeconds`. Quotes in any order are accepted. Quotes of
+   * one batch are counted as the batch was charged: its largest `fj_amount`
+   * against the user's windows and against each asset's daily cap.
+   */
+  restore(spends: Iterable<IssuedSpend>, nowSeconds: bigint): void {
+    const windowStart = nowSeconds - BigInt(this.longestUserWindow(this.getLimits()));
+    const day = nowSeconds / SECONDS_PER_DAY;
+    const ordered = [...spends].sort((left, right) =>
+      compareBigInt(BigInt(left.issued_at), BigInt(right.issued_at)),
+    );
+    const batchUserSpends = new Map<string, UserSpend>();
+    const batchAssetSpends = new Map<string, bigint>();
+    for (const spend of ordered) {
+      const atSeconds = BigInt(spend.issued_at);
+      if (atSeconds > windowStart) {
+        this.restoreUserSpend(spend, batchUserSpends);
+      }
+      if (atSeconds / SECONDS_PER_DAY === day) {
+        this.restoreAssetSpend(spend, day, batchAssetSpends);
+      }
+    }
+  }
+
+  /** Fee Juice counted against each asset's daily cap for the current UTC day. */
+  assetUsage(nowSeconds: bigint): Array<{ accepted_asset: string; fj_amount: string }> {
+    const day = nowSeconds / SECONDS_PER_DAY;
+    return [...this.assetDays.entries()]
+      .filter(([, usage]) => usage.day === day)
+      .map(([asset, usage]) => ({ accepted_asset: asset, fj_amount: usage.fjAmount.toString() }));
+  }
+
+  /** Adds a restored spend to the user's history; `batchSpends` maps batch id -> its counted spend. */
+  private restoreUserSpend(spend: IssuedSpend, batchSpends: Map<string, UserSpend>): void {
+    const fjAmount = BigInt(spend.fj_amount);
+    const batchSpend = spend.batch_id ? batchSpends.get(spend.batch_id) : undefined;
+    if (batchSpend) {
+      batchSpend.fjAmount = fjAmount > batchSpend.fjAmount ? fjAmount : batchSpend.fjAmount;
+      return;
+    }
+    const userSpend: UserSpend = { atSeconds: BigInt(spend.issued_at), fjAmount };
+    const history = this.userHistory.get(spend.user) ?? [];
+    history.push(userSpend);
+    this.userHistory.set(spend.user, history);
+    if (spend.batch_id) {
+      batchSpends.set(spend.batch_id, userSpend);
+    }
+  }
+
+  /** Adds a restored spend to its asset's day; `batchSpends` maps `batch id/asset` -> Fee Juice counted. */
+  private restoreAssetSpend(
+    spend: IssuedSpend,
+    day: bigint,
+    batchSpends: Map<string, bigint>,
+  ): void {
+    const fjAmount = BigInt(spend.fj_amount);
+    const assetKey = spend.accepted_asset.toLowerCase();
+    const batchKey = spend.batch_id ? `${spend.batch_id}/${assetKey}` : undefined;
+    const counted = batchKey ? (batchSpends.get(batchKey) ?? 0n) : 0n;
+    if (fjAmount <= counted) {
+      return;
+    }
+    const assetDay = this.currentAssetDay(assetKey, day);
+    assetDay.fjAmount += fjAmount - counted;
+    this.assetDays.set(assetKey, assetDay);
+    if (batchKey) {
+      batchSpends.set(batchKey, fjAmount);
+    }
+  }
+
+  private countUserSpend(request: Omit<SpendingRequest, "acceptedAsset">): () => void {
+    const spend: UserSpend = { atSeconds: request.nowSeconds, fjAmount: request.fjAmount };
+    const history = this.userHistory.get(request.user) ?? [];
+    history.push(spend);
+    this.userHistory.set(request.user, history);
+    return () => {
+      const index = history.indexOf(spend);
+      if (index >= 0) {
+        history.splice(index, 1);
+      }
+    };
+  }
+
+  private countAssetSpend(request: SpendingRequest): () => void {
+    const day = request.nowSeconds / SECONDS_PER_DAY;
+    const assetKey = request.acceptedAsset.toLowerCase();
+    const assetDay = this.currentAssetDay(assetKey, day);
+    assetDay.fjAmount += request.fjAmount;
+    this.assetDays.set(assetKey, assetDay);
+    return () => {
+      if (assetDay.day === day) {
+        assetDay.fjAmount -= request.fjAmount;
+      }
+    };
+  }
+
+  private currentAssetDay(assetKey: string, day: bigint): AssetDay {
+    const existing = this.assetDays.get(assetKey);
+    return existing && existing.day === day ? existing : { day, fjAmount: 0n };
+  }
+
+  private checkQuoteAmount(
+    limits: SpendingLimits,
+    request: SpendingRequest,
+  ): SpendingLimitViolation | undefined {
+    if (!limits.max_fj_per_quote || request.fjAmount <= BigInt(limits.max_fj_per_quote)) {
+      return undefined;
+    }
+    return {
+      code: "QUOTE_AMOUNT_LIMIT_EXCEEDED",
+      message: `fj_amount exceeds the per-quote limit of ${limits.max_fj_per_quote}`,
+      limit_fj_amount: limits.max_fj_per_quote,
+      requested_fj_amount: request.fjAmount.toString(),
+    };
+  }
+
+  private checkUserWindows(
+    limits: SpendingLimits,
+    request: Omit<SpendingRequest, "acceptedAsset">,
+  ): SpendingLimitViolation | undefined {
+    const history = this.userHistory.get(request.user) ?? [];
+    for (const { window_seconds, max_fj_amount } of limits.user_windows) {
+      const windowSeconds = BigInt(window_seconds);
+      const windowStart = request.nowSeconds - windowSeconds;
+      const used = sumSince(history, windowStart);
+      const limit = BigInt(max_fj_amount);
+      if (used + request.fjAmount <= limit) {
+        continue;
+      }
+      return {
+        code: "USER_SPENDING_LIMIT_EXCEEDED",
+        message: `User Fee Juice limit of ${max_fj_amount} per ${window_seconds}s would be exceeded`,
+        limit_fj_amount: max_fj_amount,
+        requested_fj_amount: request.fjAmount.toString(),
+        used_fj_amount: used.toString(),
+        window_seconds,
+        retry_after_seconds: userRetryAfterSeconds(
+          history,
+          windowStart,
+          windowSeconds,
+          used + request.fjAmount - limit,
+          request.nowSeconds,
+        ),
+      };
+    }
+    return undefined;
+  }
+
+  private checkAssetDaily(
+    limits: SpendingLimits,
+    request: SpendingRequest,
+  ): SpendingLimitViolation | undefined {
+    const assetKey = request.acceptedAsset.toLowerCase();
+    const limit = limits.asset_daily.find(
+      (entry) => entry.accepted_asset.toLowerCase() === assetKey,
+    );
+    if (!limit) {
+      return undefined;
+    }
+    const day = request.nowSeconds / SECONDS_PER_DAY;
+    const used = this.currentAssetDay(assetKey, day).fjAmount;
+    if (used + request.fjAmount <= BigInt(limit.max_fj_amount)) {
+      return undefined;
+    }
+    return {
+      code: "ASSET_DAILY_LIMIT_EXCEEDED",
+      message: `Daily Fee Juice limit of ${limit.max_fj_amount} for accepted_asset would be exceeded`,
+      limit_fj_amount: limit.max_fj_amount,
+      requested_fj_amount: request.fjAmount.toString(),
+      used_fj_amount: used.toString(),
+      window_seconds: Number(SECONDS_PER_DAY),
+      retry_after_seconds: Number((day + 1n) * SECONDS_PER_DAY - request.nowSeconds),
+    };
+  }
+
+  private longestUserWindow(limits: SpendingLimits): number {
+    return Math.max(0, ...limits.user_windows.map((entry) => entry.window_seconds));
+  }
+
+  /** Drops spends older than the longest configured window. */
+  private maybePrune(limits: SpendingLimits, nowSeconds: bigint): void {
+    this.reservationsSincePrune += 1;
+    if (this.reservationsSincePrune < PRUNE_EVERY_RESERVATIONS) {
+      return;
+    }
+    this.reservationsSincePrune = 0;
+
+    const cutoff = nowSeconds - BigInt(this.longestUserWindow(limits));
+    for (const [user, history] of this.userHistory) {
+      // Filter in place: outstanding release handles hold this array.
+      const kept = history.filter((spend) => spend.atSeconds > cutoff);
+      history.splice(0, history.length, ...kept);
+      if (kept.length === 0) {
+        this.userHistory.delete(user);
+      }
+    }
+  }
+}
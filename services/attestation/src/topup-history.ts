@@ -0,0 +1,77 @@
+import { type Database, open } from "lmdb";
+import { z } from "zod";
+import type { Config } from "./config.js";
+
+/** Named database the top-up service appends every submitted bridge to. */
+const BRIDGE_HISTORY_DB = "bridge_history";
+
+/** A bridge as the top-up service persists it: Fee Juice amount in wei, time in unix ms. */
+const TopupBridgeSchema = z.object({
+  amount: z.string().regex(/^(0|[1-9][0-9]*)$/, "must be an unsigned integer string"),
+  messageHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "must be a 32-byte hex string"),
+  submittedAtMs: z.number().int().nonnegative(),
+  /** Target FPC; absent on bridges recorded before the top-up service funded several FPCs. */
+  target: z.string().optional(),
+  fpcAddress: z.string().optional(),
+});
+
+export type TopupBridge = z.infer<typeof TopupBridgeSchema>;
+
+export interface TopupHistory {
+  storageLabel: string;
+  /** Bridges submitted between the bounds (unix seconds, inclusive), oldest first. */
+  listBridges(fromSeconds: number, toSeconds: number): Promise<TopupBridge[]>;
+}
+
+/**
+ * Reads the bridge history the top-up service keeps in its LMDB `data_dir`.
+ * The top-up service owns that environment, so it is opened read-only for
+ * each read and never written. A top-up that has not bridged yet has no
+ * history database, which reads as no bridges. A daemon funding several FPCs
+ * records the target of each bridge; only bridges to this FPC are listed.
+ */
+export class LmdbTopupHistory implements TopupHistory {
+  readonly storageLabel: string;
+
+  constructor(
+    private readonly config: Pick<Config, "fpc_address"> & Required<Pick<Config, "topup_data_dir">>,
+  ) {
+    this.storageLabel = `lmdb://${config.topup_data_dir}`;
+  }
+
+  async listBridges(fromSeconds: number, toSeconds: number): Promise<TopupBridge[]> {
+    const root = open({ path: this.config.topup_data_dir, readOnly: true });
+    try {
+      // Read-only environments return undefined for databases that were never created.
+      const history = root.openDB<unknown, [number, string]>({ name: BRIDGE_HISTORY_DB }) as
+        | Database<unknown, [number, string]>
+        | undefined;
+      if (!history) {
+        return [];
+      }
+      const bridges: TopupBridge[] = [];
+      for (const { key, value } of history.getRange({
+        start: [fromSeconds * 1000],
+        end: [(toSeconds + 1) * 1000],
+      })) {
+        const result = TopupBridgeSchema.safeParse(value);
+        if (!result.success) {
+          const issue = result.error.issues[0];
+          throw new Error(
+            `Top-up bridge history is malformed (${this.storageLabel}, ${key[1]}): ${issue.path.join(".") || "record"} ${issue.message}`,
+          );
+        }
+        const { fpcAddress } = result.data;
+        if (
+          fpcAddress === undefined ||
+          fpcAddress.toLowerCase() === this.config.fpc_address.toLowerCase()
+        ) {
+          bridges.push(result.data);
+        }
+      }
+      return bridges;
+    } finally {
+      await root.close();
+    }
+  }
+}
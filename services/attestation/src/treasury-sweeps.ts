@@ -0,0 +1,494 @@
+import { randomUUID } from "node:crypto";
+import { type Database, open, type RootDatabase } from "lmdb";
+import { z } from "zod";
+import type { Config } from "./config.js";
+import { CronSchedule, cronExpressionError } from "./cron.js";
+import type { L1SweepResult, L1WithdrawalTracker } from "./l1-withdrawals.js";
+import type { AttestationMetrics } from "./metrics.js";
+import type { OperatorTreasuryPort, SweepResult } from "./operator-treasury.js";
+
+const U128_MAX = (1n << 128n) - 1n;
+const ASSET_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const L1_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+/** How often the scheduler checks for due sweeps; schedules have minute resolution. */
+const SWEEP_TICK_MS = 15_000;
+
+export const TREASURY_SWEEP_HISTORY_DEFAULT_LIMIT = 100;
+export const TREASURY_SWEEP_HISTORY_MAX_LIMIT = 1000;
+
+const TokenAmountSchema = z
+  .string()
+  .trim()
+  .regex(/^(0|[1-9][0-9]*)$/, "must be a non-negative integer decimal string")
+  .refine((value) => BigInt(value) <= U128_MAX, "must fit in u128");
+
+const AssetAddressSchema = z
+  .string()
+  .trim()
+  .regex(ASSET_ADDRESS_PATTERN, "must be a valid Aztec address")
+  .transform((value) => value.toLowerCase());
+
+/** `l2` transfers privately to an Aztec address; `l1` exits through the asset's token bridge to Ethereum. */
+export const TREASURY_SWEEP_MODES = ["l2", "l1"] as const;
+
+export const TreasurySweepModeSchema = z.enum(TREASURY_SWEEP_MODES);
+
+export type TreasurySweepMode = z.infer<typeof TreasurySweepModeSchema>;
+
+/** One asset's automatic sweep: when to look, what to keep, and where the rest goes. */
+export const TreasurySweepScheduleSchema = z
+  .object({
+    accepted_asset: AssetAddressSchema,
+    mode: TreasurySweepModeSchema.default("l2"),
+    /** Five-field cron expression in UTC, e.g. `0 * * * *` for hourly. */
+    schedule: z.string().superRefine((value, ctx) => {
+      const message = cronExpressionError(value);
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }
+    }),
+    /** Balance left in the operator account after a sweep. */
+    min_balance: TokenAmountSchema.default("0"),
+    /** Smallest amount worth a sweep transaction; smaller surpluses wait for a later run. */
+    threshold: TokenAmountSchema.default("1"),
+    /** Defaults to `treasury_destination_address`, or `treasury_l1_destination_address` in `l1` mode. */
+    destination: z.string().trim().toLowerCase().optional(),
+  })
+  .superRefine((schedule, ctx) => {
+    if (schedule.destination === undefined) {
+      return;
+    }
+    const [pattern, message] =
+      schedule.mode === "l1"
+        ? [L1_ADDRESS_PATTERN, "must be a valid Ethereum address"]
+        : [ASSET_ADDRESS_PATTERN, "must be a valid Aztec address"];
+    if (!pattern.test(schedule.destination)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["destination"], message });
+    }
+  });
+
+export const TreasurySweepSchedulesSchema = z
+  .array(TreasurySweepScheduleSchema)
+  .default([])
+  .refine(
+    (schedules) =>
+      new Set(schedules.map((schedule) => schedule.accepted_asset)).size === schedules.length,
+    "treasury_sweeps must not repeat accepted_asset",
+  );
+
+export type TreasurySweepSchedule = z.infer<typeof TreasurySweepScheduleSchema>;
+
+/** Durable record of one sweep attempt. Amounts are decimal strings, times unix seconds. */
+export interface TreasurySweepRecord {
+  id: string;
+  trigger: "scheduled" | "manual";
+  status: "succeeded" | "failed";
+  accepted_asset: string;
+  /** Absent on records written before L1 sweeps existed, which are all `l2`. */
+  mode?: TreasurySweepMode;
+  /** An Aztec address, or an Ethereum address for `l1` sweeps. */
+  destination: string;
+  amount?: string;
+  /** 1-based attempt number for scheduled sweeps; retries share the run's schedule slot. */
+  attempt?: number;
+  started_at: number;
+  finished_at: number;
+  tx_hash?: string;
+  balance_before?: string;
+  balance_after?: string;
+  error?: string;
+  /** Admin key that requested a manual sweep. */
+  admin_key_id?: string;
+  /** L1 withdrawal tracking the claim of an `l1` sweep. */
+  withdrawal_id?: string;
+}
+
+export interface TreasurySweepHistoryQuery {
+  acceptedAsset?: string;
+  limit?: number;
+}
+
+export interface TreasurySweepHistory {
+  record(entry: TreasurySweepRecord): Promise<void>;
+  /** Returns matching records, newest first. */
+  query(query: TreasurySweepHistoryQuery): TreasurySweepRecord[];
+  close(): Promise<void>;
+}
+
+type TimeIndexKey = [number, string];
+
+/** LMDB-backed sweep history, keyed by id with an `[started_at, id]` index for newest-first scans. */
+export class LmdbTreasurySweepHistory implements TreasurySweepHistory {
+  private readonly root: RootDatabase;
+  private readonly entries: Database<TreasurySweepRecord, string>;
+  private readonly byTime: Database<string, TimeIndexKey>;
+
+  constructor(config: Pick<Config, "treasury_sweep_state_path">) {
+    this.root = open({ path: config.treasury_sweep_state_path });
+    this.entries = this.root.openDB<TreasurySweepRecord, string>({ name: "entries" });
+    this.byTime = this.root.openDB<string, TimeIndexKey>({ name: "by_time" });
+  }
+
+  async record(entry: TreasurySweepRecord): Promise<void> {
+    await this.root.transaction(() => {
+      this.entries.put(entry.id, entry);
+      this.byTime.put([entry.started_at, entry.id], entry.id);
+    });
+  }
+
+  query(query: TreasurySweepHistoryQuery): TreasurySweepRecord[] {
+    const limit = Math.min(
+      query.limit ?? TREASURY_SWEEP_HISTORY_DEFAULT_LIMIT,
+      TREASURY_SWEEP_HISTORY_MAX_LIMIT,
+    );
+    const results: TreasurySweepRecord[] = [];
+    for (const { value: id } of this.byTime.getRange({ reverse: true })) {
+      const entry = this.entries.get(id);
+      if (!entry || (query.acceptedAsset && entry.accepted_asset !== query.acceptedAsset)) {
+        continue;
+      }
+      results.push({ ...entry });
+      if (results.length >= limit) {
+        break;
+      }
+    }
+    return results;
+  }
+
+  async close(): Promise<void> {
+    await this.root.close();
+  }
+}
+
+/** A history record for a sweep that went through (for `l1` sweeps: whose L2 exit did). */
+export function sweepSucceeded(
+  result: SweepResult | L1SweepResult,
+  details: Pick<TreasurySweepRecord, "trigger" | "started_at" | "finished_at"> &
+    Partial<Pick<TreasurySweepRecord, "attempt" | "admin_key_id">>,
+): TreasurySweepRecord {
+  const withdrawalId = "withdrawalId" in result ? result.withdrawalId : undefined;
+  return {
+    id: randomUUID(),
+    status: "succeeded",
+    accepted_asset: result.acceptedAsset,
+    mode: withdrawalId ? "l1" : "l2",
+    ...(withdrawalId ? { withdrawal_id: withdrawalId } : {}),
+    destination: result.destination,
+    amount: result.sweptAmount,
+    tx_hash: result.txHash,
+    balance_before: result.balanceBefore,
+    balance_after: result.balanceAfter,
+    ...details,
+  };
+}
+
+export type TreasurySweepSchedulerConfig = Pick<
+  Config,
+  | "treasury_sweeps"
+  | "treasury_destination_address"
+  | "treasury_l1_destination_address"
+  | "treasury_sweep_max_attempts"
+  | "treasury_sweep_retry_delay_seconds"
+  | "treasury_balance_poll_interval_seconds"
+>;
+
+interface TreasurySweepLogger {
+  info(obj: object, msg: string): void;
+  warn(obj: object, msg: string): void;
+}
+
+export interface TreasurySweepSchedulerDependencies {
+  /** Assets whose operator balance is exported as a gauge. */
+  balanceAssets: () => string[];
+  metrics?: AttestationMetrics;
+  /** Carries out `l1` mode schedules; those runs fail without it. */
+  l1Withdrawals?: L1WithdrawalTracker;
+  logger?: TreasurySweepLogger;
+  nowMs?: () => number;
+}
+
+interface ScheduleState {
+  schedule: TreasurySweepSchedule;
+  cron: CronSchedule;
+  destination: string;
+  nextRunAtMs: number;
+  /** Attempt number of the next run; above 1 while retrying a failed sweep. */
+  attempt: number;
+  lastRecord?: TreasurySweepRecord;
+}
+
+export interface TreasurySweepScheduleStatus extends TreasurySweepSchedule {
+  destination: string;
+  next_run_at: number;
+  next_attempt: number;
+  last_sweep?: TreasurySweepRecord;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Resolves a schedule's destination for its mode, failing on a schedule that has none. */
+export function resolveSweepDestination(
+  schedule: TreasurySweepSchedule,
+  defaults: Pick<Config, "treasury_destination_address" | "treasury_l1_destination_address">,
+): string {
+  const [defaultDestination, defaultKey] =
+    schedule.mode === "l1"
+      ? [defaults.treasury_l1_destination_address, "treasury_l1_destination_address"]
+      : [defaults.treasury_destination_address, "treasury_destination_address"];
+  const destination = schedule.destination ?? defaultDestination;
+  if (!destination) {
+    throw new Error(
+      `Missing treasury sweep destination for ${schedule.accepted_asset}: set destination or ${defaultKey}`,
+    );
+  }
+  return destination;
+}
+
+/**
+ * Sweeps each scheduled asset's operator balance above `min_balance` to its
+ * destination whenever its cron schedule comes due, skipping runs where the
+ * surplus is below `threshold`. A failed sweep is retried after
+ * `treasury_sweep_retry_delay_seconds`, up to `treasury_sweep_max_attempts`
+ * attempts, before waiting for the next scheduled run. Every attempt is
+ * recorded in the sweep history. Independently, operator balances of all
+ * supported assets are polled for the balance gauges.
+ */
+export class TreasurySweepScheduler {
+  private readonly states: ScheduleState[];
+  private tickHandle?: NodeJS.Timeout;
+  private balanceHandle?: NodeJS.Timeout;
+  private inFlightTick?: Promise<void>;
+  private inFlightBalances?: Promise<void>;
+
+  constructor(
+    private readonly config: TreasurySweepSchedulerConfig,
+    private readonly treasury: OperatorTreasuryPort,
+    private readonly history: TreasurySweepHistory,
+    private readonly deps: TreasurySweepSchedulerDependencies,
+  ) {
+    const now = this.now();
+    this.states = config.treasury_sweeps.map((schedule) => {
+      const cron = new CronSchedule(schedule.schedule);
+      return {
+        schedule,
+        cron,
+        destination: resolveSweepDestination(schedule, config),
+        nextRunAtMs: cron.next(now),
+        attempt: 1,
+      };
+    });
+  }
+
+  start(): void {
+    if (this.tickHandle) {
+      return;
+    }
+    this.tickHandle = setInterval(() => {
+      void this.tick();
+    }, SWEEP_TICK_MS);
+    this.tickHandle.unref();
+    if (this.config.treasury_balance_poll_interval_seconds > 0) {
+      void this.refreshBalances();
+      this.balanceHandle = setInterval(() => {
+        void this.refreshBalances();
+      }, this.config.treasury_balance_poll_interval_seconds * 1000);
+      this.balanceHandle.unref();
+    }
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.tickHandle);
+    clearInterval(this.balanceHandle);
+    this.tickHandle = undefined;
+    this.balanceHandle = undefined;
+    await this.inFlightTick;
+    await this.inFlightBalances;
+  }
+
+  status(): TreasurySweepScheduleStatus[] {
+    return this.states.map((state) => ({
+      ...state.schedule,
+      destination: state.destination,
+      next_run_at: Math.floor(state.nextRunAtMs / 1000),
+      next_attempt: state.attempt,
+      ...(state.lastRecord ? { last_sweep: state.lastRecord } : {}),
+    }));
+  }
+
+  /** Runs every schedule that is due; overlapping calls share one run. */
+  tick(): Promise<void> {
+    this.inFlightTick ??= this.runDue().finally(() => {
+      this.inFlightTick = undefined;
+    });
+    return this.inFlightTick;
+  }
+
+  /** Reads operator balances into the gauges, logging instead of throwing. */
+  refreshBalances(): Promise<void> {
+    this.inFlightBalances ??= this.treasury
+      .getPrivateBalances(this.deps.balanceAssets())
+      .then((balances) => {
+        for (const { address, balance } of balances) {
+          this.deps.metrics?.setOperatorBalance(address, balance);
+        }
+      })
+      .catch((error: unknown) => {
+        this.deps.logger?.warn(
+          { event: "operator_balance_poll_failed", err: errorMessage(error) },
+          "Failed to read operator balances",
+        );
+      })
+      .finally(() => {
+        this.inFlightBalances = undefined;
+      });
+    return this.inFlightBalances;
+  }
+
+  private async runDue(): Promise<void> {
+    for (const state of this.states) {
+      if (this.now() >= state.nextRunAtMs) {
+        await this.run(state);
+      }
+    }
+  }
+
+  private async run(state: ScheduleState): Promise<void> {
+    const { accepted_asset: acceptedAsset } = state.schedule;
+    const startedAt = this.now();
+    let amount: bigint | undefined;
+    try {
+      amount = await this.sweepableAmount(state);
+      if (amount === undefined) {
+        this.scheduleNext(state, startedAt);
+        return;
+      }
+      const result = await this.sweep(state, amount);
+      this.deps.metrics?.setOperatorBalance(result.acceptedAsset, result.balanceAfter);
+      await this.finish(
+        state,
+        sweepSucceeded(result, {
+          trigger: "scheduled",
+          attempt: state.attempt,
+          started_at: Math.floor(startedAt / 1000),
+          finished_at: Math.floor(this.now() / 1000),
+        }),
+      );
+      this.deps.logger?.info(
+        {
+          event: "treasury_sweep_completed",
+          accepted_asset: acceptedAsset,
+          destination: result.destination,
+          swept_amount: result.sweptAmount,
+          tx_hash: result.txHash,
+        },
+        "Scheduled treasury sweep completed",
+      );
+      this.scheduleNext(state, startedAt);
+    } catch (error) {
+      await this.fail(state, startedAt, amount, error);
+    }
+  }
+
+  private sweep(state: ScheduleState, amount: bigint): Promise<SweepResult | L1SweepResult> {
+    const { accepted_asset: acceptedAsset, mode } = state.schedule;
+    if (mode === "l2") {
+      return this.treasury.sweep({ acceptedAsset, amount, destination: state.destination });
+    }
+    if (!this.deps.l1Withdrawals) {
+      return Promise.reject(new Error("L1 withdrawals are not configured"));
+    }
+    return this.deps.l1Withdrawals.withdraw({
+      acceptedAsset,
+      amount,
+      recipient: state.destination,
+      trigger: "scheduled",
+    });
+  }
+
+  /** The surplus above `min_balance`, or undefined when it is below `threshold`. */
+  private async sweepableAmount(state: ScheduleState): Promise<bigint | undefined> {
+    const { accepted_asset: acceptedAsset, min_balance, threshold } = state.schedule;
+    const [current] = await this.treasury.getPrivateBalances([acceptedAsset]);
+    const balance = BigInt(current?.balance ?? "0");
+    this.deps.metrics?.setOperatorBalance(acceptedAsset, balance.toString());
+    const surplus = balance - BigInt(min_balance);
+    const minimum = BigInt(threshold) > 0n ? BigInt(threshold) : 1n;
+    if (surplus < minimum) {
+      this.deps.logger?.info(
+        {
+          event: "treasury_sweep_skipped",
+          accepted_asset: acceptedAsset,
+          balance: balance.toString(),
+          min_balance,
+          threshold,
+        },
+        "Skipped scheduled treasury sweep below threshold",
+      );
+      return undefined;
+    }
+    return surplus;
+  }
+
+  private async fail(
+    state: ScheduleState,
+    startedAt: number,
+    amount: bigint | undefined,
+    error: unknown,
+  ): Promise<void> {
+    const { accepted_asset: acceptedAsset } = state.schedule;
+    const retrying = state.attempt < this.config.treasury_sweep_max_attempts;
+    this.deps.logger?.warn(
+      {
+        event: "treasury_sweep_failed",
+        accepted_asset: acceptedAsset,
+        attempt: state.attempt,
+        retrying,
+        err: errorMessage(error),
+      },
+      "Scheduled treasury sweep failed",
+    );
+    try {
+      await this.finish(state, {
+        id: randomUUID(),
+        trigger: "scheduled",
+        status: "failed",
+        accepted_asset: acceptedAsset,
+        mode: state.schedule.mode,
+        destination: state.destination,
+        ...(amount === undefined ? {} : { amount: amount.toString() }),
+        attempt: state.attempt,
+        started_at: Math.floor(startedAt / 1000),
+        finished_at: Math.floor(this.now() / 1000),
+        error: errorMessage(error),
+      });
+    } catch (recordError) {
+      this.deps.logger?.warn(
+        { event: "treasury_sweep_record_failed", err: errorMessage(recordError) },
+        "Failed to record treasury sweep",
+      );
+    }
+    if (retrying) {
+      state.attempt += 1;
+      state.nextRunAtMs = startedAt + this.config.treasury_sweep_retry_delay_seconds * 1000;
+      return;
+    }
+    this.scheduleNext(state, startedAt);
+  }
+
+  private async finish(state: ScheduleState, record: TreasurySweepRecord): Promise<void> {
+    state.lastRecord = record;
+    this.deps.metrics?.observeTreasurySweep(record.accepted_asset, record.status);
+    await this.history.record(record);
+  }
+
+  private scheduleNext(state: ScheduleState, afterMs: number): void {
+    state.attempt = 1;
+    state.nextRunAtMs = state.cron.next(Math.max(afterMs, this.now()));
+  }
+
+  private now(): number {
+    return (this.deps.nowMs ?? Date.now)();
+  }
+}
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import type { SupportedAssetPolicy } from "./config.js";
+import { reduceRate } from "./price-aggregation.js";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const TIER_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+/** Rate multipliers are expressed in basis points: 10000 keeps the rate unchanged. */
+const RATE_MULTIPLIER_SCALE = 10_000n;
+const MAX_RATE_MULTIPLIER_BIPS = 100_000;
+
+export const USER_ACCESS_MODES = ["open", "allowlist"] as const;
+export type UserAccessMode = (typeof USER_ACCESS_MODES)[number];
+
+export const USER_LISTS = ["allow", "deny"] as const;
+export type UserList = (typeof USER_LISTS)[number];
+
+const AddressSchema = z.string().trim().regex(ADDRESS_PATTERN, "must be a valid Aztec address");
+
+export const UserTierNameSchema = z
+  .string()
+  .trim()
+  .regex(TIER_NAME_PATTERN, "tier name must be 1-64 lowercase letters, digits, '-' or '_'");
+
+const FeeBipsSchema = z.number().int().min(0).max(10000);
+const RateMultiplierBipsSchema = z.number().int().positive().max(MAX_RATE_MULTIPLIER_BIPS);
+
+const TierAssetAdjustmentSchema = z
+  .object({
+    accepted_asset: AddressSchema,
+    fee_bips: FeeBipsSchema.optional(),
+    rate_multiplier_bips: RateMultiplierBipsSchema.optional(),
+  })
+  .refine(
+    (entry) => (entry.fee_bips === undefined) !== (entry.rate_multiplier_bips === undefined),
+    "set exactly one of fee_bips or rate_multiplier_bips",
+  );
+
+/** Body of a tier: an optional default adjustment plus per-asset overrides. */
+export const UserTierBodySchema = z
+  .object({
+    fee_bips: FeeBipsSchema.optional(),
+    rate_multiplier_bips: RateMultiplierBipsSchema.optional(),
+    assets: z
+      .array(TierAssetAdjustmentSchema)
+      .default([])
+      .refine(
+        (entries) =>
+          new Set(entries.map((entry) => entry.accepted_asset.toLowerCase())).size ===
+          entries.length,
+        "assets must not repeat accepted_asset",
+      ),
+  })
+  .refine(
+    (tier) => tier.fee_bips === undefined || tier.rate_multiplier_bips === undefined,
+    "set at most one of fee_bips or rate_multiplier_bips",
+  );
+
+export const UserTierSchema = z.intersection(
+  z.object({ name: UserTierNameSchema }),
+  UserTierBodySchema,
+);
+
+export const UserEntryBodySchema = z
+  .object({
+    list: z.enum(USER_LISTS).optional(),
+    tier: UserTierNameSchema.optional(),
+    note: z.string().trim().max(256).optional(),
+  })
+  .refine(
+    (entry) => entry.list !== undefined || entry.tier !== undefined,
+    "set list, tier, or both",
+  );
+
+export const UserEntrySchema = z.intersection(
+  z.object({ address: AddressSchema }),
+  UserEntryBodySchema,
+);
+
+export const UserPoliciesSchema = z.object({
+  access_mode: z.enum(USER_ACCESS_MODES).default("open"),
+  tiers: z.array(UserTierSchema).default([]),
+  users: z.array(UserEntrySchema).default([]),
+});
+
+export type UserTier = z.infer<typeof UserTierSchema>;
+export type UserEntry = z.infer<typeof UserEntrySchema>;
+export type UserPolicies = z.infer<typeof UserPoliciesSchema>;
+
+export type UserClassification =
+  | { allowed: true; tier?: UserTier }
+  | { allowed: false; reason: "denylisted" | "not_allowlisted" };
+
+/**
+ * Decides whether a user may receive quotes. The denylist always wins; in
+ * `allowlist` mode only allowlisted users pass. Tiers apply to any allowed
+ * user regardless of list membership.
+ */
+export function classifyUser(
+  mode: UserAccessMode,
+  entry: UserEntry | undefined,
+  tier: UserTier | undefined,
+): UserClassification {
+  if (entry?.list === "deny") {
+    return { allowed: false, reason: "denylisted" };
+  }
+  if (mode === "allowlist" && entry?.list !== "allow") {
+    return { allowed: false, reason: "not_allowlisted" };
+  }
+  return tier ? { allowed: true, tier } : { allowed: true };
+}
+
+/**
+ * Applies a tier's adjustment for the policy's asset: a `fee_bips` override
+ * replaces the operator margin, a `rate_multiplier_bips` scales the market
+ * rate. Call this after live price feeds so the multiplier scales the live rate.
+ */
+export function applyUserTier(
+  policy: SupportedAssetPolicy,
+  tier: UserTier | undefined,
+): SupportedAssetPolicy {
+  if (!tier) {
+    return policy;
+  }
+  const override = tier.assets.find((entry) => entry.accepted_asset === policy.address);
+  const adjustment = override ?? tier;
+  if (adjustment.fee_bips !== undefined) {
+    return { ...policy, fee_bips: adjustment.fee_bips };
+  }
+  if (adjustment.rate_multiplier_bips === undefined) {
+    return policy;
+  }
+  const rate = reduceRate(
+    BigInt(policy.market_rate_num) * BigInt(adjustment.rate_multiplier_bips),
+    BigInt(policy.market_rate_den) * RATE_MULTIPLIER_SCALE,
+  );
+  return { ...policy, market_rate_num: rate.rate_num, market_rate_den: rate.rate_den };
+}
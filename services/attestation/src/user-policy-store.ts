@@ -0,0 +1,174 @@
+import { type Database, open, type RootDatabase } from "lmdb";
+import type { Config } from "./config.js";
+import { normalizeAztecAddress } from "./config.js";
+import {
+  classifyUser,
+  type UserAccessMode,
+  type UserClassification,
+  type UserEntry,
+  type UserList,
+  type UserPolicies,
+  type UserTier,
+  UserTierSchema,
+} from "./user-policies.js";
+
+const ACCESS_MODE_KEY = "access_mode";
+
+function normalizeTier(tier: UserTier): UserTier {
+  const parsed = UserTierSchema.parse(tier);
+  return {
+    ...parsed,
+    assets: parsed.assets.map((entry) => ({
+      ...entry,
+      accepted_asset: normalizeAztecAddress(entry.accepted_asset),
+    })),
+  };
+}
+
+function normalizeUserEntry(entry: UserEntry): UserEntry {
+  return { ...entry, address: normalizeAztecAddress(entry.address) };
+}
+
+export interface UserPolicyStore {
+  classify(user: string): UserClassification;
+  getAccessMode(): UserAccessMode;
+  setAccessMode(mode: UserAccessMode): Promise<UserAccessMode>;
+  listTiers(): UserTier[];
+  upsertTier(tier: UserTier): Promise<UserTier>;
+  removeTier(name: string): Promise<UserTier>;
+  listUsers(filter?: { list?: UserList; tier?: string }): UserEntry[];
+  getUser(address: string): UserEntry | undefined;
+  upsertUser(entry: UserEntry): Promise<UserEntry>;
+  removeUser(address: string): Promise<UserEntry>;
+  close(): Promise<void>;
+}
+
+/**
+ * LMDB-backed user classification: access mode, tiers and per-address
+ * entries. Seeded from `user_policies` on first boot, after which admin
+ * changes are authoritative.
+ */
+export class LmdbUserPolicyStore implements UserPolicyStore {
+  private readonly root: RootDatabase;
+  private readonly meta: Database<UserAccessMode, string>;
+  private readonly tiers: Database<UserTier, string>;
+  private readonly users: Database<UserEntry, string>;
+
+  constructor(config: Pick<Config, "user_policies" | "user_policy_state_path">) {
+    this.root = open({ path: config.user_policy_state_path });
+    this.meta = this.root.openDB<UserAccessMode, string>({ name: "meta" });
+    this.tiers = this.root.openDB<UserTier, string>({ name: "tiers" });
+    this.users = this.root.openDB<UserEntry, string>({ name: "users" });
+
+    if (this.meta.get(ACCESS_MODE_KEY) === undefined) {
+      this.seed(config.user_policies);
+    }
+  }
+
+  private seed(policies: UserPolicies): void {
+    const tiers = policies.tiers.map(normalizeTier);
+    const tierNames = new Set(tiers.map((tier) => tier.name));
+    if (tierNames.size !== tiers.length) {
+      throw new Error("Duplicate user tier name in config");
+    }
+    const users = policies.users.map(normalizeUserEntry);
+    if (new Set(users.map((entry) => entry.address)).size !== users.length) {
+      throw new Error("Duplicate user address in config");
+    }
+    for (const entry of users) {
+      if (entry.tier && !tierNames.has(entry.tier)) {
+        throw new Error(`Unknown user tier in config: ${entry.tier}`);
+      }
+    }
+
+    this.root.transactionSync(() => {
+      for (const tier of tiers) {
+        this.tiers.putSync(tier.name, tier);
+      }
+      for (const entry of users) {
+        this.users.putSync(entry.address, entry);
+      }
+      this.meta.putSync(ACCESS_MODE_KEY, policies.access_mode);
+    });
+  }
+
+  classify(user: string): UserClassification {
+    const entry = this.users.get(normalizeAztecAddress(user));
+    const tier = entry?.tier ? this.tiers.get(entry.tier) : undefined;
+    return classifyUser(this.getAccessMode(), entry, tier);
+  }
+
+  getAccessMode(): UserAccessMode {
+    return this.meta.get(ACCESS_MODE_KEY) ?? "open";
+  }
+
+  async setAccessMode(mode: UserAccessMode): Promise<UserAccessMode> {
+    await this.meta.put(ACCESS_MODE_KEY, mode);
+    return mode;
+  }
+
+  listTiers(): UserTier[] {
+    return Array.from(this.tiers.getRange(), ({ value }) => structuredClone(value));
+  }
+
+  async upsertTier(tier: UserTier): Promise<UserTier> {
+    const normalized = normalizeTier(tier);
+    await this.tiers.put(normalized.name, normalized);
+    return structuredClone(normalized);
+  }
+
+  async removeTier(name: string): Promise<UserTier> {
+    const existing = this.tiers.get(name);
+    if (!existing) {
+      throw new Error(`User tier not found: ${name}`);
+    }
+    const assigned = this.listUsers({ tier: name }).length;
+    if (assigned > 0) {
+      throw new Error(`User tier ${name} is assigned to ${assigned} user(s)`);
+    }
+    await this.tiers.remove(name);
+    return existing;
+  }
+
+  listUsers(filter: { list?: UserList; tier?: string } = {}): UserEntry[] {
+    const entries: UserEntry[] = [];
+    for (const { value } of this.users.getRange()) {
+      if (filter.list && value.list !== filter.list) {
+        continue;
+      }
+      if (filter.tier && value.tier !== filter.tier) {
+        continue;
+      }
+      entries.push({ ...value });
+    }
+    return entries;
+  }
+
+  getUser(address: string): UserEntry | undefined {
+    const entry = this.users.get(normalizeAztecAddress(address));
+    return entry ? { ...entry } : undefined;
+  }
+
+  async upsertUser(entry: UserEntry): Promise<UserEntry> {
+    const normalized = normalizeUserEntry(entry);
+    if (normalized.tier && !this.tiers.get(normalized.tier)) {
+      throw new Error(`Unknown user tier: ${normalized.tier}`);
+    }
+    await this.users.put(normalized.address, normalized);
+    return { ...normalized };
+  }
+
+  async removeUser(address: string): Promise<UserEntry> {
+    const normalizedAddress = normalizeAztecAddress(address);
+    const existing = this.users.get(normalizedAddress);
+    if (!existing) {
+      throw new Error(`User entry not found: ${normalizedAddress}`);
+    }
+    await this.users.remove(normalizedAddress);
+    return existing;
+  }
+
+  async close(): Promise<void> {
+    await this.root.close();
+  }
+}
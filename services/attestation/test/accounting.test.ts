@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { describe, it } from "#test";
+import {
+  buildRevenueReport,
+  periodStart,
+  periodStarts,
+  REVENUE_REPORT_MAX_PERIODS,
+  revenueReportCsv,
+} from "../src/accounting.js";
+import type { QuoteLedgerEntry } from "../src/quote-ledger.js";
+
+const ASSET = "0x0000000000000000000000000000000000000000000000000000000000000002";
+/** Monday 2024-01-01T00:00:00Z. */
+const WEEK_ONE = 1_704_067_200;
+const DAY = 86_400;
+
+function entry(overrides: Partial<QuoteLedgerEntry>): QuoteLedgerEntry {
+  return {
+    quote_hash: `0x${"01".repeat(32)}`,
+    kind: "quote",
+    quote_format: "amount_quote",
+    user: "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72",
+    accepted_asset: ASSET,
+    fj_amount: "1000000",
+    aa_payment_amount: "1020",
+    market_rate_num: 1,
+    market_rate_den: 1000,
+    fee_bips: 200,
+    rate_num: "1020",
+    rate_den: "1000000",
+    issued_at: String(WEEK_ONE + 3600),
+    valid_until: String(WEEK_ONE + 3900),
+    signature: "0xsig",
+    settlement_status: "unused",
+    ...overrides,
+  };
+}
+
+describe("revenue report", () => {
+  it("aligns periods to UTC days, Monday weeks and calendar months", () => {
+    assert.equal(periodStart("day", WEEK_ONE + DAY + 5), WEEK_ONE + DAY);
+    assert.equal(periodStart("week", WEEK_ONE + 6 * DAY + 86_399), WEEK_ONE);
+    assert.equal(periodStart("month", WEEK_ONE + 31 * DAY - 1), WEEK_ONE);
+    assert.deepEqual(periodStarts("month", WEEK_ONE + 10, WEEK_ONE + 31 * DAY), [
+      WEEK_ONE,
+      WEEK_ONE + 31 * DAY,
+    ]);
+    assert.equal(periodStarts("day", 0, (REVENUE_REPORT_MAX_PERIODS - 1) * DAY)?.length, 400);
+    assert.equal(periodStarts("day", 0, REVENUE_REPORT_MAX_PERIODS * DAY), undefined);
+  });
+
+  it("computes margin and gas over-estimation from settled quotes", () => {
+    const report = buildRevenueReport({
+      from: WEEK_ONE,
+      to: WEEK_ONE + 8 * DAY,
+      period: "week",
+      periodStarts: [WEEK_ONE, WEEK_ONE + 7 * DAY],
+      generatedAt: WEEK_ONE + 8 * DAY,
+      quotes: [
+        entry({ settlement_status: "settled", settled_fee: "800000" }),
+        entry({
+          fj_amount: "500000",
+          aa_payment_amount: "510",
+          settlement_status: "settled",
+          issued_at: String(WEEK_ONE + 7 * DAY + 60),
+        }),
+        entry({ settlement_status: "expired" }),
+      ],
+      assetName: () => "humanUSDC",
+      bridges: [{ amount: "9000000", messageHash: `0x${"ab".repeat(32)}`, submittedAtMs: 0 }],
+      balances: [{ address: ASSET, balance: "1530" }],
+    });
+
+    const [first, second] = report.periods;
+    assert.equal(first.assets[0].quotes_issued, 2);
+    assert.equal(first.assets[0].quotes_expired, 1);
+    assert.equal(first.assets[0].fj_spent, "800000");
+    assert.equal(first.assets[0].tokens_earned_fj_value, "1020000");
+    assert.equal(first.assets[0].profit_fj, "220000");
+    assert.equal(first.assets[0].effective_margin_bips, 2750);
+    assert.equal(first.assets[0].gas_overestimate_fj, "200000");
+    assert.deepEqual(first.topups, { bridges: 1, fj_bridged: "9000000" });
+
+    assert.equal(second.assets[0].fee_unknown_quotes, 1, "falls back to the quoted amount");
+    assert.equal(second.assets[0].effective_margin_bips, 200);
+    assert.equal(second.assets[0].gas_overestimate_fj, "0");
+
+    const [total] = report.totals.assets;
+    assert.equal(total.quotes_settled, 2);
+    assert.equal(total.fj_quoted, "1500000");
+    assert.equal(total.fj_spent, "1300000");
+    assert.equal(total.fee_bips, 200);
+    assert.equal(total.profit_fj, "230000");
+    assert.deepEqual(report.operator_balances, [
+      { accepted_asset: ASSET, name: "humanUSDC", balance: "1530" },
+    ]);
+
+    const csv = revenueReportCsv(report).trimEnd().split("\n");
+    assert.equal(csv.length, 1 + 4 + 2);
+    assert.equal(
+      csv[1],
+      `${WEEK_ONE},${WEEK_ONE + 7 * DAY},asset,${ASSET},humanUSDC,2,1,1,1000000,800000,0,1020,1020000,220000,200,2750,200000,,`,
+    );
+    assert.equal(csv[6], ",,total_topups,,,,,,,,,,,,,,,1,9000000");
+  });
+
+  it("omits top-ups and balances that were not supplied", () => {
+    const report = buildRevenueReport({
+      from: WEEK_ONE,
+      to: WEEK_ONE + 1,
+      period: "day",
+      periodStarts: [WEEK_ONE],
+      generatedAt: WEEK_ONE + 1,
+      quotes: [],
+      assetName: () => undefined,
+    });
+    assert.deepEqual(report.periods, [
+      { period_start: WEEK_ONE, period_end: WEEK_ONE + DAY, assets: [] },
+    ]);
+    assert.deepEqual(report.totals, { assets: [] });
+    assert.equal(report.operator_balances, undefined);
+  });
+});
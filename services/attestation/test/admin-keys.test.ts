@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "#test";
+import { ADMIN_ROLES, AdminKeyring, hashAdminApiKey } from "../src/admin-keys.js";
+import type { AdminAuthConfig } from "../src/config.js";
+
+function keysYaml(entries: { id: string; roles: string[]; key: string; previous?: string }[]) {
+  return [
+    "keys:",
+    ...entries.flatMap((entry) => [
+      `  - id: ${entry.id}`,
+      `    roles: [${entry.roles.map((role) => `"${role}"`).join(", ")}]`,
+      `    key_sha256: "${hashAdminApiKey(entry.key)}"`,
+      ...(entry.previous ? [`    previous_key_sha256: "${hashAdminApiKey(entry.previous)}"`] : []),
+    ]),
+  ].join("\n");
+}
+
+function withKeysFile(
+  contents: string,
+  fn: (config: AdminAuthConfig) => Promise<void> | void,
+): Promise<void> {
+  const dir = mkdtempSync(path.join(tmpdir(), "admin-keys-test-"));
+  const keysFile = path.join(dir, "admin-keys.yaml");
+  writeFileSync(keysFile, contents);
+  const config: AdminAuthConfig = {
+    enabled: true,
+    apiKeySha256: hashAdminApiKey("env-secret"),
+    apiKeyHeader: "x-admin-api-key",
+    keysFile,
+    keysReloadSeconds: 10,
+  };
+  return Promise.resolve()
+    .then(() => fn(config))
+    .finally(() => rmSync(dir, { recursive: true, force: true }));
+}
+
+describe("admin keyring", () => {
+  it("authenticates named keys with their roles and the env key with all roles", async () => {
+    await withKeysFile(
+      keysYaml([
+        { id: "ops", roles: ["policy:read", "policy:write"], key: "ops-secret" },
+        { id: "finance", roles: ["treasury:read", "treasury:sweep"], key: "finance-secret" },
+      ]),
+      (config) => {
+        const keyring = new AdminKeyring(config);
+
+        const ops = keyring.authenticate("ops-secret");
+        assert.equal(ops?.id, "ops");
+        assert.ok(ops?.roles.has("policy:write"));
+        assert.ok(!ops?.roles.has("treasury:sweep"));
+        assert.equal(keyring.authenticate("finance-secret")?.id, "finance");
+        assert.equal(keyring.authenticate("env-secret")?.roles.size, ADMIN_ROLES.length);
+        assert.equal(keyring.authenticate("wrong"), undefined);
+        assert.equal(keyring.authenticate(undefined), undefined);
+      },
+    );
+  });
+
+  it("picks up rotated keys on reload and keeps the last good set on a bad file", async () => {
+    await withKeysFile(
+      keysYaml([{ id: "ops", roles: ["policy:read"], key: "ops-v1" }]),
+      async (config) => {
+        const keyring = new AdminKeyring(config);
+        assert.equal(await keyring.reload(), false);
+
+        const keysFile = config.keysFile as string;
+        writeFileSync(
+          keysFile,
+          keysYaml([{ id: "ops", roles: ["policy:read"], key: "ops-v2", previous: "ops-v1" }]),
+        );
+        assert.equal(await keyring.reload(), true);
+        assert.equal(keyring.authenticate("ops-v1")?.id, "ops");
+        assert.equal(keyring.authenticate("ops-v2")?.id, "ops");
+
+        writeFileSync(keysFile, keysYaml([{ id: "ops", roles: ["policy:read"], key: "ops-v2" }]));
+        await keyring.reload();
+        assert.equal(keyring.authenticate("ops-v1"), undefined);
+
+        writeFileSync(keysFile, "keys:\n  - id: ops\n    roles: [root]\n");
+        assert.equal(await keyring.reload(), false);
+        assert.equal(keyring.authenticate("ops-v2")?.id, "ops");
+      },
+    );
+  });
+
+  it("rejects duplicate ids and the reserved env id", async () => {
+    await withKeysFile(
+      keysYaml([
+        { id: "ops", roles: ["policy:read"], key: "a" },
+        { id: "ops", roles: ["policy:read"], key: "b" },
+      ]),
+      (config) => {
+        assert.throws(() => new AdminKeyring(config), /key ids must be unique/);
+      },
+    );
+    await withKeysFile(keysYaml([{ id: "env", roles: ["*"], key: "a" }]), (config) => {
+      assert.throws(() => new AdminKeyring(config), /must not be "env"/);
+    });
+  });
+});
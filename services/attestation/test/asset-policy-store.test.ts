@@ -2,20 +2,25 @@ import assert from "node:assert/strict";
 import { mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import path from "node:path";
+import { open } from "lmdb";
 import { describe, it } from "#test";
-import { LmdbAssetPolicyStore } from "../src/asset-policy-store.js";
+import { LmdbAssetPolicyStore, SharedAssetPolicyStore } from "../src/asset-policy-store.js";
 import type { Config } from "../src/config.js";
+import { InMemorySharedState } from "../src/shared-state.js";
 
 function makeConfig(statePath: string): Config {
   return {
     runtime_profile: "development",
     network_id: "aztec-alpha-local",
     fpc_address: "0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac",
+    fpc_id: "default",
+    additional_fpcs: [],
     contract_variant: "fpc-v1",
     quote_base_url: undefined,
     aztec_node_url: "http://localhost:8080",
     quote_validity_seconds: 300,
     port: 3000,
+    quote_batch_max_entries: 10,
     supported_assets: [
       {
         address: "0x0000000000000000000000000000000000000000000000000000000000000002",
@@ -33,20 +38,47 @@ function makeConfig(statePath: string): Config {
     operator_secret_key_source: "env",
     operator_secret_key_provider: "auto",
     operator_secret_key_dual_source: false,
+    quote_signer: "local",
+    remote_signer_timeout_ms: 2000,
+    remote_signer_max_retries: 2,
+    remote_signer_retry_backoff_ms: 100,
     admin_auth: {
-      enabled: true,
-      apiKey: "admin-secret",
+      enabled: false,
+      apiKeySha256: undefined,
       apiKeyHeader: "x-admin-api-key",
+      keysReloadSeconds: 10,
     },
     asset_policy_state_path: statePath,
+    asset_policy_schedule_poll_seconds: 5,
+    quote_ledger_state_path: path.join(statePath, "..", "quote-ledger"),
+    spending_limits: { user_windows: [], asset_daily: [] },
+    spending_limits_state_path: path.join(statePath, "..", "spending-limits"),
+    user_policies: { access_mode: "open", tiers: [], users: [] },
+    user_policy_state_path: path.join(statePath, "..", "user-policies"),
+    quote_api_key_state_path: path.join(statePath, "..", "quote-api-keys"),
     treasury_destination_address: undefined,
+    treasury_sweeps: [],
+    treasury_sweep_max_attempts: 3,
+    treasury_sweep_retry_delay_seconds: 60,
+    treasury_balance_poll_interval_seconds: 0,
+    treasury_sweep_state_path: path.join(statePath, "..", "treasury-sweeps"),
+    l1_rpc_url: undefined,
+    treasury_l1_bridges: [],
+    treasury_l1_destination_address: undefined,
+    treasury_l1_secret_provider: "auto",
+    treasury_l1_withdrawal_state_path: path.join(statePath, "..", "l1-withdrawals"),
+    treasury_l1_withdrawal_poll_interval_seconds: 60,
     quote_auth: {
       mode: "disabled",
       apiKey: undefined,
       apiKeyHeader: "x-api-key",
       trustedHeaderName: undefined,
       trustedHeaderValue: undefined,
+      hmacMaxSkewSeconds: 300,
     },
+    tls_cert_file: undefined,
+    tls_key_file: undefined,
+    tls_client_ca_file: undefined,
     quote_rate_limit: {
       enabled: true,
       maxRequests: 60,
@@ -54,6 +86,22 @@ function makeConfig(statePath: string): Config {
       maxTrackedKeys: 10000,
     },
     pxe_data_directory: undefined,
+    price_rate_limit_enabled: true,
+    price_rate_limit_max_requests: 300,
+    price_rate_limit_window_seconds: 60,
+    price_feed_refresh_interval_seconds: 30,
+    price_feed_max_staleness_seconds: 300,
+    price_feed_max_deviation_bips: 1000,
+    price_feed_timeout_ms: 5000,
+    settlement_watcher_enabled: true,
+    settlement_poll_interval_seconds: 12,
+    settlement_max_blocks_per_poll: 50,
+    settlement_expiry_grace_seconds: 3600,
+    shared_state_backend: "local",
+    shared_state_url: undefined,
+    shared_state_key_prefix: "fpc-attestation:",
+    shared_state_command_timeout_ms: 1000,
+    shared_state_resync_interval_seconds: 10,
   };
 }
 
@@ -103,4 +151,238 @@ describe("asset policy store", () => {
       rmSync(dir, { recursive: true, force: true });
     }
   });
+
+  it("records every change and rolls back to an earlier version", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "asset-policy-store-test-"));
+    const store = new LmdbAssetPolicyStore(makeConfig(path.join(dir, "assets-db")));
+
+    try {
+      await store.upsert(RAVEN_ETH, { actor: "key-a", at: 100 });
+      await store.upsert({ ...RAVEN_ETH, fee_bips: 75 }, { actor: "key-b", at: 200 });
+      await store.remove(RAVEN_ETH.address, { actor: "key-a", at: 300 });
+
+      const history = await store.history(RAVEN_ETH.address);
+      assert.deepEqual(
+        history.map(({ version, action, actor, changed_at }) => [
+          version,
+          action,
+          actor,
+          changed_at,
+        ]),
+        [
+          [3, "remove", "key-a", 300],
+          [2, "upsert", "key-b", 200],
+          [1, "upsert", "key-a", 100],
+        ],
+      );
+      assert.deepEqual(history[1].diff, { fee_bips: { from: 50, to: 75 } });
+      assert.equal(history[0].policy, undefined);
+
+      const restored = await store.rollback(RAVEN_ETH.address, 1, { actor: "key-b" });
+      assert.equal(restored.version, 4);
+      assert.equal(restored.action, "rollback");
+      assert.equal(restored.rollback_to, 1);
+      assert.equal(store.get(RAVEN_ETH.address)?.fee_bips, 50);
+
+      await assert.rejects(
+        store.rollback(RAVEN_ETH.address, 9, { actor: "key-b" }),
+        /Policy version not found/,
+      );
+      const seeded = await store.history(HUMAN_USDC_ADDRESS);
+      assert.deepEqual(
+        seeded.map(({ action, actor }) => [action, actor]),
+        [["seed", "config"]],
+      );
+    } finally {
+      await store.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("applies scheduled changes once they are due", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "asset-policy-store-test-"));
+    const dbPath = path.join(dir, "assets-db");
+    const store = new LmdbAssetPolicyStore(makeConfig(dbPath));
+
+    try {
+      const humanUsdc = store.get(HUMAN_USDC_ADDRESS);
+      assert.ok(humanUsdc);
+      const later = await store.schedule({ ...humanUsdc, fee_bips: 300 }, 2000, {
+        actor: "key-a",
+      });
+      await store.schedule({ ...humanUsdc, fee_bips: 250 }, 1000, { actor: "key-a" });
+      const cancelled = await store.schedule({ ...humanUsdc, fee_bips: 1 }, 1500, {
+        actor: "key-a",
+      });
+      await store.cancelScheduled(cancelled.id);
+      assert.deepEqual(
+        store.getScheduled().map((change) => change.effective_at),
+        [1000, 2000],
+      );
+
+      assert.deepEqual(await store.applyDueChanges(999), []);
+      const applied = await store.applyDueChanges(1000);
+      assert.equal(applied.length, 1);
+      assert.equal(applied[0].action, "scheduled");
+      assert.equal(applied[0].actor, "key-a");
+      assert.equal(store.get(HUMAN_USDC_ADDRESS)?.fee_bips, 250);
+      await store.close();
+
+      // Pending changes survive a restart.
+      const reloaded = new LmdbAssetPolicyStore(makeConfig(dbPath));
+      try {
+        assert.deepEqual(
+          reloaded.getScheduled().map((change) => change.id),
+          [later.id],
+        );
+        await reloaded.applyDueChanges(5000);
+        assert.equal(reloaded.get(HUMAN_USDC_ADDRESS)?.fee_bips, 300);
+        assert.equal((await reloaded.history(HUMAN_USDC_ADDRESS)).length, 3);
+      } finally {
+        await reloaded.close();
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("migrates policies stored before versioning", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "asset-policy-store-test-"));
+    const dbPath = path.join(dir, "assets-db");
+
+    try {
+      const legacy = open({ path: dbPath });
+      await legacy.put(RAVEN_ETH.address, RAVEN_ETH);
+      await legacy.close();
+
+      const store = new LmdbAssetPolicyStore(makeConfig(dbPath));
+      try {
+        assert.deepEqual(
+          store.getAll().map((asset) => asset.name),
+          ["ravenETH"],
+        );
+        const history = await store.history(RAVEN_ETH.address);
+        assert.deepEqual(
+          history.map(({ version, action, actor }) => [version, action, actor]),
+          [[1, "seed", "system"]],
+        );
+      } finally {
+        await store.close();
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+const HUMAN_USDC_ADDRESS = "0x0000000000000000000000000000000000000000000000000000000000000002";
+
+const RAVEN_ETH = {
+  address: "0x0000000000000000000000000000000000000000000000000000000000000003",
+  name: "ravenETH",
+  market_rate_num: 3,
+  market_rate_den: 1000,
+  fee_bips: 50,
+};
+
+async function waitFor(check: () => boolean): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error("condition not met in time");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("shared asset policy store", () => {
+  it("seeds once and propagates edits to every replica", async () => {
+    const backend = new InMemorySharedState();
+    const config = makeConfig("unused");
+    const first = await SharedAssetPolicyStore.open(config, backend);
+    // A replica booting with a different seed joins the existing set.
+    const second = await SharedAssetPolicyStore.open(
+      { ...config, supported_assets: [RAVEN_ETH] },
+      backend,
+    );
+
+    try {
+      assert.deepEqual(
+        second.getAll().map((asset) => asset.name),
+        ["humanUSDC"],
+      );
+
+      await first.upsert(RAVEN_ETH);
+      await waitFor(() => second.get(RAVEN_ETH.address) !== undefined);
+      assert.equal(second.get(RAVEN_ETH.address)?.fee_bips, 50);
+
+      await second.remove(RAVEN_ETH.address);
+      await waitFor(() => first.get(RAVEN_ETH.address) === undefined);
+      await assert.rejects(
+        first.remove("0x0000000000000000000000000000000000000000000000000000000000000002"),
+        /Cannot remove the last supported asset/,
+      );
+    } finally {
+      await first.close();
+      await second.close();
+    }
+  });
+
+  it("shares version history and applies each scheduled change once", async () => {
+    const backend = new InMemorySharedState();
+    const config = makeConfig("unused");
+    const first = await SharedAssetPolicyStore.open(config, backend);
+    const second = await SharedAssetPolicyStore.open(config, backend);
+
+    try {
+      await first.upsert(RAVEN_ETH, { actor: "key-a" });
+      await second.upsert({ ...RAVEN_ETH, fee_bips: 80 }, { actor: "key-b" });
+      assert.deepEqual(
+        (await first.history(RAVEN_ETH.address)).map(({ version, actor }) => [version, actor]),
+        [
+          [2, "key-b"],
+          [1, "key-a"],
+        ],
+      );
+      await first.rollback(RAVEN_ETH.address, 1, { actor: "key-a" });
+      await waitFor(() => second.get(RAVEN_ETH.address)?.fee_bips === 50);
+
+      await first.schedule({ ...RAVEN_ETH, fee_bips: 10 }, 1000, { actor: "key-a" });
+      await waitFor(() => second.getScheduled().length === 1);
+      const [fromFirst, fromSecond] = await Promise.all([
+        first.applyDueChanges(1000),
+        second.applyDueChanges(1000),
+      ]);
+      assert.equal(fromFirst.length + fromSecond.length, 1);
+      await waitFor(() => second.get(RAVEN_ETH.address)?.fee_bips === 10);
+      assert.equal((await second.history(RAVEN_ETH.address)).length, 4);
+    } finally {
+      await first.close();
+      await second.close();
+    }
+  });
+
+  it("keeps per-FPC policy sets apart", async () => {
+    const backend = new InMemorySharedState();
+    const config = makeConfig("unused");
+    const primary = await SharedAssetPolicyStore.open(config, backend);
+    const partner = await SharedAssetPolicyStore.open(
+      { ...config, fpc_id: "partner-a", supported_assets: [RAVEN_ETH] },
+      backend,
+    );
+
+    try {
+      assert.deepEqual(
+        primary.getAll().map((asset) => asset.name),
+        ["humanUSDC"],
+      );
+      assert.deepEqual(
+        partner.getAll().map((asset) => asset.name),
+        ["ravenETH"],
+      );
+    } finally {
+      await primary.close();
+      await partner.close();
+    }
+  });
 });
@@ -3,6 +3,7 @@ import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import { describe, it } from "#test";
+import { hashAdminApiKey } from "../src/admin-keys.js";
 import { loadConfig } from "../src/config.js";
 
 const VALID_SECRET = "0x0000000000000000000000000000000000000000000000000000000000000001";
@@ -43,17 +44,32 @@ function withAttestationEnv(overrides: Record<string, string | undefined>, fn: (
       OPERATOR_ACCOUNT_SALT: undefined,
       ADMIN_API_KEY: undefined,
       ADMIN_API_KEY_HEADER: undefined,
+      ADMIN_API_KEYS_FILE: undefined,
       ATTESTATION_ASSET_POLICY_STATE_PATH: undefined,
+      ATTESTATION_QUOTE_API_KEY_STATE_PATH: undefined,
+      ATTESTATION_TREASURY_SWEEP_STATE_PATH: undefined,
+      ATTESTATION_L1_WITHDRAWAL_STATE_PATH: undefined,
+      TOPUP_DATA_DIR: undefined,
       TREASURY_DESTINATION_ADDRESS: undefined,
+      L1_RPC_URL: undefined,
+      TREASURY_L1_DESTINATION_ADDRESS: undefined,
+      TREASURY_L1_PRIVATE_KEY: undefined,
+      TREASURY_L1_SECRET_PROVIDER: undefined,
+      TREASURY_L1_SECRET_REF: undefined,
       QUOTE_AUTH_MODE: undefined,
       QUOTE_AUTH_API_KEY: undefined,
       QUOTE_AUTH_API_KEY_HEADER: undefined,
       QUOTE_AUTH_TRUSTED_HEADER_NAME: undefined,
       QUOTE_AUTH_TRUSTED_HEADER_VALUE: undefined,
+      QUOTE_AUTH_CLIENTS_FILE: undefined,
       QUOTE_RATE_LIMIT_ENABLED: undefined,
       QUOTE_RATE_LIMIT_MAX_REQUESTS: undefined,
       QUOTE_RATE_LIMIT_WINDOW_SECONDS: undefined,
       QUOTE_RATE_LIMIT_MAX_TRACKED_KEYS: undefined,
+      QUOTE_SIGNER: undefined,
+      REMOTE_SIGNER_URL: undefined,
+      REMOTE_SIGNER_AUTH_TOKEN: undefined,
+      SHARED_STATE_URL: undefined,
       ...overrides,
     },
     fn,
@@ -359,7 +375,7 @@ describe("attestation config secret providers", () => {
       const config = loadConfig(configPath);
       assert.equal(config.operator_account_salt, operatorSalt);
       assert.equal(config.admin_auth.enabled, true);
-      assert.equal(config.admin_auth.apiKey, "admin-secret");
+      assert.equal(config.admin_auth.apiKeySha256, hashAdminApiKey("admin-secret"));
       assert.equal(config.admin_auth.apiKeyHeader, "x-attestation-admin");
       assert.equal(config.asset_policy_state_path, "./tmp/attestation-assets.json");
       assert.equal(config.treasury_destination_address, treasuryDestination);
@@ -368,6 +384,31 @@ describe("attestation config secret providers", () => {
     cleanupConfig(configPath);
   });
 
+  it("enables admin auth from an admin API keys file alone", () => {
+    const configPath = writeConfig(
+      baseConfigYaml(
+        [
+          "runtime_profile: development",
+          "operator_secret_provider: auto",
+          'admin_api_keys_file: "./admin-keys.yaml"',
+        ].join("\n"),
+      ),
+    );
+
+    withAttestationEnv({}, () => {
+      const config = loadConfig(configPath);
+      assert.equal(config.admin_auth.enabled, true);
+      assert.equal(config.admin_auth.apiKeySha256, undefined);
+      assert.equal(config.admin_auth.keysFile, "./admin-keys.yaml");
+      assert.equal(config.admin_auth.keysReloadSeconds, 10);
+    });
+    withAttestationEnv({ ADMIN_API_KEYS_FILE: "/run/secrets/admin-keys.yaml" }, () => {
+      assert.equal(loadConfig(configPath).admin_auth.keysFile, "/run/secrets/admin-keys.yaml");
+    });
+
+    cleanupConfig(configPath);
+  });
+
   it("validates AZTEC_NODE_URL env override as URL", () => {
     const configPath = writeConfig(
       baseConfigYaml(["runtime_profile: development", "operator_secret_provider: auto"].join("\n")),
@@ -408,7 +449,7 @@ describe("attestation config secret providers", () => {
     cleanupConfig(configPath);
   });
 
-  it("fails fast when api_key auth mode is missing a key", () => {
+  it("allows api_key auth mode without a shared key so admin-issued keys can be used", () => {
     const configPath = writeConfig(
       baseConfigYaml(
         [
@@ -419,8 +460,11 @@ describe("attestation config secret providers", () => {
       ),
     );
 
-    withAttestationEnv({}, () => {
-      assert.throws(() => loadConfig(configPath), /Missing quote auth API key/);
+    withAttestationEnv({ ATTESTATION_QUOTE_API_KEY_STATE_PATH: "/var/lib/fpc/quote-keys" }, () => {
+      const config = loadConfig(configPath);
+      assert.equal(config.quote_auth.mode, "api_key");
+      assert.equal(config.quote_auth.apiKey, undefined);
+      assert.equal(config.quote_api_key_state_path, "/var/lib/fpc/quote-keys");
     });
 
     cleanupConfig(configPath);
@@ -445,6 +489,44 @@ describe("attestation config secret providers", () => {
     cleanupConfig(configPath);
   });
 
+  it("requires a clients file for hmac mode and TLS files for mtls mode", () => {
+    const hmacPath = writeConfig(
+      baseConfigYaml(
+        [
+          "runtime_profile: development",
+          "operator_secret_provider: auto",
+          "quote_auth_mode: hmac",
+        ].join("\n"),
+      ),
+    );
+    const mtlsPath = writeConfig(
+      baseConfigYaml(
+        [
+          "runtime_profile: development",
+          "operator_secret_provider: auto",
+          "quote_auth_mode: mtls",
+          'quote_auth_clients_file: "./quote-clients.yaml"',
+          'tls_cert_file: "./server.crt"',
+          'tls_key_file: "./server.key"',
+        ].join("\n"),
+      ),
+    );
+
+    withAttestationEnv({}, () => {
+      assert.throws(() => loadConfig(hmacPath), /Missing quote auth clients/);
+      assert.throws(() => loadConfig(mtlsPath), /tls_client_ca_file/);
+    });
+    withAttestationEnv({ QUOTE_AUTH_CLIENTS_FILE: "/run/secrets/quote-clients.yaml" }, () => {
+      const config = loadConfig(hmacPath);
+      assert.equal(config.quote_auth.mode, "hmac");
+      assert.equal(config.quote_auth.clientsFile, "/run/secrets/quote-clients.yaml");
+      assert.equal(config.quote_auth.hmacMaxSkewSeconds, 300);
+    });
+
+    cleanupConfig(hmacPath);
+    cleanupConfig(mtlsPath);
+  });
+
   it("accepts api_key auth mode and normalizes the api key header name", () => {
     const configPath = writeConfig(
       baseConfigYaml(
@@ -606,4 +688,326 @@ describe("attestation config secret providers", () => {
 
     cleanupConfig(configPath);
   });
+
+  it("skips operator secret resolution with a remote signer", () => {
+    const configPath = writeConfig(
+      baseConfigYaml(
+        [
+          "runtime_profile: production",
+          "quote_auth_mode: api_key",
+          "quote_signer: remote",
+          'remote_signer_url: "https://signer.internal:3100"',
+          'operator_address: "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72"',
+        ].join("\n"),
+      ),
+    );
+
+    withAttestationEnv(
+      {
+        OPERATOR_SECRET_KEY: undefined,
+        QUOTE_AUTH_API_KEY: QUOTE_API_KEY,
+        REMOTE_SIGNER_AUTH_TOKEN: " daemon-token ",
+      },
+      () => {
+        const config = loadConfig(configPath);
+        assert.equal(config.quote_signer, "remote");
+        assert.equal(config.remote_signer_url, "https://signer.internal:3100");
+        assert.equal(config.remote_signer_auth_token, "daemon-token");
+        assert.equal(config.remote_signer_timeout_ms, 2000);
+        assert.equal(config.remote_signer_max_retries, 2);
+        assert.equal(config.operator_secret_key, undefined);
+        assert.equal(config.operator_secret_key_source, undefined);
+      },
+    );
+
+    cleanupConfig(configPath);
+  });
+
+  it("applies remote signer env overrides", () => {
+    const configPath = writeConfig(
+      baseConfigYaml(
+        [
+          "runtime_profile: development",
+          'operator_address: "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72"',
+        ].join("\n"),
+      ),
+    );
+
+    withAttestationEnv(
+      { QUOTE_SIGNER: "remote", REMOTE_SIGNER_URL: "http://127.0.0.1:3100" },
+      () => {
+        const config = loadConfig(configPath);
+        assert.equal(config.quote_signer, "remote");
+        assert.equal(config.remote_signer_url, "http://127.0.0.1:3100");
+        assert.equal(config.operator_secret_key, undefined);
+      },
+    );
+
+    cleanupConfig(configPath);
+  });
+
+  it("fails fast when a remote signer is missing its url or operator_address", () => {
+    const missingUrl = writeConfig(
+      baseConfigYaml(
+        [
+          "quote_signer: remote",
+          'operator_address: "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72"',
+        ].join("\n"),
+      ),
+    );
+    const missingAddress = writeConfig(
+      baseConfigYaml(
+        ["quote_signer: remote", 'remote_signer_url: "http://127.0.0.1:3100"'].join("\n"),
+      ),
+    );
+
+    withAttestationEnv({}, () => {
+      assert.throws(() => loadConfig(missingUrl), /requires remote_signer_url/);
+      assert.throws(() => loadConfig(missingAddress), /requires operator_address/);
+    });
+
+    cleanupConfig(missingUrl);
+    cleanupConfig(missingAddress);
+  });
+
+  it("requires previous_fpc_address and previous_fpc_retires_at together", () => {
+    const previous = '"0x0000000000000000000000000000000000000000000000000000000000000f9c"';
+    const valid = writeConfig(
+      baseConfigYaml(
+        [`previous_fpc_address: ${previous}`, "previous_fpc_retires_at: 1700003600"].join("\n"),
+      ),
+    );
+    const missingRetiresAt = writeConfig(baseConfigYaml(`previous_fpc_address: ${previous}`));
+    const missingAddress = writeConfig(baseConfigYaml("previous_fpc_retires_at: 1700003600"));
+    const sameAsCurrent = writeConfig(
+      baseConfigYaml(
+        [
+          'previous_fpc_address: "0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac"',
+          "previous_fpc_retires_at: 1700003600",
+        ].join("\n"),
+      ),
+    );
+
+    withAttestationEnv({}, () => {
+      const config = loadConfig(valid);
+      assert.equal(config.previous_fpc_address, JSON.parse(previous));
+      assert.equal(config.previous_fpc_retires_at, 1700003600);
+      assert.throws(() => loadConfig(missingRetiresAt), /requires previous_fpc_retires_at/);
+      assert.throws(() => loadConfig(missingAddress), /requires previous_fpc_address/);
+      assert.throws(() => loadConfig(sameAsCurrent), /must differ from fpc_address/);
+    });
+
+    for (const configPath of [valid, missingRetiresAt, missingAddress, sameAsCurrent]) {
+      cleanupConfig(configPath);
+    }
+  });
+
+  it("requires a redis URL for the redis shared state backend", () => {
+    const local = writeConfig(baseConfigYaml('shared_state_url: "redis://ignored:6379"'));
+    const redis = writeConfig(
+      baseConfigYaml(
+        ['shared_state_backend: "redis"', 'shared_state_url: "redis://cache:6379"'].join("\n"),
+      ),
+    );
+    const missingUrl = writeConfig(baseConfigYaml('shared_state_backend: "redis"'));
+    const httpUrl = writeConfig(
+      baseConfigYaml(
+        ['shared_state_backend: "redis"', 'shared_state_url: "http://cache:6379"'].join("\n"),
+      ),
+    );
+
+    withAttestationEnv({}, () => {
+      assert.equal(loadConfig(local).shared_state_url, undefined);
+      assert.equal(loadConfig(redis).shared_state_url, "redis://cache:6379");
+      assert.throws(() => loadConfig(missingUrl), /requires shared_state_url/);
+      assert.throws(() => loadConfig(httpUrl), /must use redis or rediss/);
+    });
+    withAttestationEnv({ SHARED_STATE_URL: "rediss://:secret@cache:6380/1" }, () => {
+      assert.equal(loadConfig(missingUrl).shared_state_url, "rediss://:secret@cache:6380/1");
+    });
+
+    for (const configPath of [local, redis, missingUrl, httpUrl]) {
+      cleanupConfig(configPath);
+    }
+  });
+
+  it("validates treasury sweep schedules and their destinations", () => {
+    const sweep = (schedule: string) =>
+      [
+        "treasury_sweeps:",
+        '  - accepted_asset: "0x0000000000000000000000000000000000000000000000000000000000000002"',
+        `    schedule: "${schedule}"`,
+        '    min_balance: "1000"',
+      ].join("\n");
+    const withDestination = writeConfig(
+      baseConfigYaml(
+        [
+          sweep("@daily"),
+          'treasury_destination_address: "0x1111111111111111111111111111111111111111111111111111111111111111"',
+        ].join("\n"),
+      ),
+    );
+    const missingDestination = writeConfig(baseConfigYaml(sweep("0 * * * *")));
+    const badCron = writeConfig(baseConfigYaml(sweep("0 25 * * *")));
+
+    withAttestationEnv({}, () => {
+      const config = loadConfig(withDestination);
+      assert.equal(config.treasury_sweeps[0].threshold, "1");
+      assert.equal(config.treasury_sweep_max_attempts, 3);
+      assert.throws(
+        () => loadConfig(missingDestination),
+        /Missing treasury sweep destination for 0x0{63}2/,
+      );
+      assert.throws(() => loadConfig(badCron), /hour must be between 0 and 23/);
+    });
+    withAttestationEnv({ ATTESTATION_TREASURY_SWEEP_STATE_PATH: "/var/lib/sweeps" }, () => {
+      assert.equal(loadConfig(withDestination).treasury_sweep_state_path, "/var/lib/sweeps");
+    });
+
+    for (const configPath of [withDestination, missingDestination, badCron]) {
+      cleanupConfig(configPath);
+    }
+  });
+
+  it("parses the reserve pricing curve and rejects unordered points", () => {
+    const curve = (balances: string[]) =>
+      [
+        "reserve_pricing:",
+        "  curve:",
+        ...balances.flatMap((balance, index) => [
+          `    - balance: "${balance}"`,
+          `      surcharge_bips: ${200 - index * 100}`,
+        ]),
+      ].join("\n");
+    const ordered = writeConfig(baseConfigYaml(curve(["1000", "5000"])));
+    const unordered = writeConfig(baseConfigYaml(curve(["5000", "1000"])));
+
+    withAttestationEnv({}, () => {
+      const config = loadConfig(ordered);
+      assert.deepEqual(config.reserve_pricing, {
+        curve: [
+          { balance: "1000", surcharge_bips: 200 },
+          { balance: "5000", surcharge_bips: 100 },
+        ],
+        refresh_interval_seconds: 30,
+        max_staleness_seconds: 120,
+      });
+      assert.throws(() => loadConfig(unordered), /curve balances must be strictly increasing/);
+    });
+
+    for (const configPath of [ordered, unordered]) {
+      cleanupConfig(configPath);
+    }
+  });
+
+  it("requires an L1 RPC and key for L1 bridges and a bridge for l1 sweeps", () => {
+    const asset = '"0x0000000000000000000000000000000000000000000000000000000000000002"';
+    const rpc = 'l1_rpc_url: "http://localhost:8545"';
+    const bridges = [
+      "treasury_l1_bridges:",
+      `  - accepted_asset: ${asset}`,
+      '    bridge: "0x0000000000000000000000000000000000000000000000000000000000000b01"',
+      '    portal: "0x00000000000000000000000000000000000000AA"',
+    ].join("\n");
+    const l1Sweep = (destination: string) =>
+      [
+        "treasury_sweeps:",
+        `  - accepted_asset: ${asset}`,
+        "    mode: l1",
+        '    schedule: "@daily"',
+        `    destination: "${destination}"`,
+      ].join("\n");
+    const l1Destination = `0x${"22".repeat(20)}`;
+    const configured = writeConfig(
+      baseConfigYaml([bridges, rpc, l1Sweep(l1Destination)].join("\n")),
+    );
+    const missingRpc = writeConfig(baseConfigYaml(bridges));
+    const missingBridge = writeConfig(baseConfigYaml(l1Sweep(l1Destination)));
+    const aztecDestination = writeConfig(
+      baseConfigYaml([bridges, rpc, l1Sweep(`0x${"22".repeat(32)}`)].join("\n")),
+    );
+
+    withAttestationEnv({ TREASURY_L1_PRIVATE_KEY: VALID_SECRET }, () => {
+      const config = loadConfig(configured);
+      assert.equal(config.treasury_l1_bridges[0].portal, `0x${"0".repeat(38)}aa`);
+      assert.equal(config.treasury_l1_private_key, VALID_SECRET);
+      assert.equal(config.treasury_sweeps[0].mode, "l1");
+      assert.throws(() => loadConfig(missingRpc), /treasury_l1_bridges requires l1_rpc_url/);
+      assert.throws(
+        () => loadConfig(missingBridge),
+        /uses mode l1 but treasury_l1_bridges has no bridge for it/,
+      );
+      assert.throws(() => loadConfig(aztecDestination), /must be a valid Ethereum address/);
+    });
+    withAttestationEnv({}, () => {
+      assert.throws(() => loadConfig(configured), /TREASURY_L1_PRIVATE_KEY/);
+    });
+
+    for (const configPath of [configured, missingRpc, missingBridge, aztecDestination]) {
+      cleanupConfig(configPath);
+    }
+  });
+
+  it("resolves additional FPCs with their own key, assets and state", () => {
+    const partnerSecret = "0x0000000000000000000000000000000000000000000000000000000000000002";
+    const partnerFpc = '"0x0000000000000000000000000000000000000000000000000000000000000fa1"';
+    const additional = (fpcAddress: string, id = "partner-a") =>
+      [
+        "additional_fpcs:",
+        `  - id: ${id}`,
+        `    fpc_address: ${fpcAddress}`,
+        '    network_id: "partner-net"',
+        "    supported_assets:",
+        '      - address: "0x0000000000000000000000000000000000000000000000000000000000000003"',
+        '        name: "ravenETH"',
+        "        market_rate_num: 3",
+        "        market_rate_den: 1000",
+        "        fee_bips: 50",
+      ].join("\n");
+    const valid = writeConfig(baseConfigYaml(additional(partnerFpc)));
+    const duplicateAddress = writeConfig(
+      baseConfigYaml(
+        additional('"0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac"'),
+      ),
+    );
+    const duplicateId = writeConfig(baseConfigYaml(additional(partnerFpc, "default")));
+
+    withAttestationEnv({ OPERATOR_SECRET_KEY_PARTNER_A: partnerSecret }, () => {
+      const config = loadConfig(valid);
+      assert.equal(config.fpc_id, "default");
+      assert.equal(config.operator_secret_key, VALID_SECRET);
+      assert.equal(config.additional_fpcs.length, 1);
+
+      const partner = config.additional_fpcs[0];
+      assert.equal(partner?.fpc_id, "partner-a");
+      assert.equal(partner?.fpc_address, JSON.parse(partnerFpc));
+      assert.equal(partner?.network_id, "partner-net");
+      assert.equal(partner?.contract_variant, config.contract_variant);
+      assert.equal(partner?.operator_secret_key, partnerSecret);
+      assert.deepEqual(
+        partner?.supported_assets.map((asset) => asset.name),
+        ["ravenETH"],
+      );
+      assert.equal(
+        partner?.asset_policy_state_path,
+        path.join(".attestation-fpcs", "partner-a", "asset-policies"),
+      );
+      assert.equal(
+        partner?.quote_ledger_state_path,
+        path.join(".attestation-fpcs", "partner-a", "quote-ledger"),
+      );
+      assert.deepEqual(partner?.additional_fpcs, []);
+
+      assert.throws(() => loadConfig(duplicateAddress), /Duplicate FPC address/);
+      assert.throws(() => loadConfig(duplicateId), /Duplicate FPC id in config: default/);
+    });
+
+    withAttestationEnv({ OPERATOR_SECRET_KEY_PARTNER_A: undefined }, () => {
+      assert.throws(() => loadConfig(valid), /OPERATOR_SECRET_KEY_PARTNER_A/);
+    });
+
+    for (const configPath of [valid, duplicateAddress, duplicateId]) {
+      cleanupConfig(configPath);
+    }
+  });
 });
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { describe, it } from "#test";
+import { CronSchedule, cronExpressionError } from "../src/cron.js";
+
+function at(iso: string): number {
+  return Date.parse(iso);
+}
+
+function nextIso(expression: string, afterIso: string): string {
+  return new Date(new CronSchedule(expression).next(at(afterIso))).toISOString();
+}
+
+describe("cron schedule", () => {
+  it("finds the next matching minute in UTC", () => {
+    assert.equal(nextIso("0 * * * *", "2026-03-01T10:00:00Z"), "2026-03-01T11:00:00.000Z");
+    assert.equal(nextIso("*/15 * * * *", "2026-03-01T10:07:30Z"), "2026-03-01T10:15:00.000Z");
+    assert.equal(nextIso("30 2 * * 1-5", "2026-03-06T03:00:00Z"), "2026-03-09T02:30:00.000Z");
+    assert.equal(nextIso("@monthly", "2026-12-15T00:00:00Z"), "2027-01-01T00:00:00.000Z");
+    assert.equal(nextIso("0 0 29 2 *", "2026-03-01T00:00:00Z"), "2028-02-29T00:00:00.000Z");
+    // Both day fields restricted: either one matches, as in classic cron.
+    assert.equal(nextIso("0 0 1 * 0", "2026-03-02T00:00:00Z"), "2026-03-08T00:00:00.000Z");
+  });
+
+  it("rejects malformed and never-matching expressions", () => {
+    assert.match(cronExpressionError("0 * * *") ?? "", /must have 5 fields/);
+    assert.match(cronExpressionError("60 * * * *") ?? "", /minute must be between 0 and 59/);
+    assert.match(cronExpressionError("*/0 * * * *") ?? "", /minute must be between 1 and 59/);
+    assert.match(cronExpressionError("0 0 31 2 *") ?? "", /never matches/);
+    assert.equal(cronExpressionError("0 6 * * 7"), undefined);
+  });
+});
@@ -0,0 +1,298 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { open } from "lmdb";
+import { describe, it } from "#test";
+import {
+  type L1ClaimStatus,
+  type L1WithdrawalChain,
+  L1WithdrawalTracker,
+  type L1WithdrawalTrackerConfig,
+  type L2ToL1MessageWitness,
+  LmdbL1WithdrawalStore,
+} from "../src/l1-withdrawals.js";
+import type { OperatorTreasuryPort } from "../src/operator-treasury.js";
+
+const ASSET = "0x0000000000000000000000000000000000000000000000000000000000000002";
+const BRIDGE = "0x0000000000000000000000000000000000000000000000000000000000000b01";
+const PORTAL = "0x00000000000000000000000000000000000000aa";
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+const L1_TX_HASH = `0x${"11".repeat(32)}`;
+const WITNESS: L2ToL1MessageWitness = {
+  epoch: 4n,
+  leafIndex: 1n,
+  siblingPath: [`0x${"33".repeat(32)}`, `0x${"44".repeat(32)}`],
+};
+
+function trackerConfig(): L1WithdrawalTrackerConfig {
+  return {
+    treasury_l1_bridges: [{ accepted_asset: ASSET, bridge: BRIDGE, portal: PORTAL }],
+    treasury_l1_withdrawal_poll_interval_seconds: 60,
+  };
+}
+
+function fakeTreasury(): OperatorTreasuryPort {
+  return {
+    registerSender: async () => undefined,
+    getPrivateBalances: async (assets) => assets.map((address) => ({ address, balance: "0" })),
+    sweep: () => Promise.reject(new Error("L2 sweeps are not expected")),
+    exitToL1: ({ acceptedAsset, amount, bridge, recipient }) =>
+      Promise.resolve({
+        acceptedAsset,
+        bridge,
+        destination: recipient,
+        sweptAmount: (amount ?? 500n).toString(),
+        balanceBefore: "500",
+        balanceAfter: (500n - (amount ?? 500n)).toString(),
+        txHash: `0x${"aa".repeat(32)}`,
+        l2BlockNumber: 12,
+        messageHash: `0x${"bb".repeat(32)}`,
+      }),
+    stop: async () => undefined,
+  };
+}
+
+/**
+ * Scripted L1: the proof, the outbox, the operator's nonces and each claim's
+ * receipt are set by the test. A submitted claim takes the next pending nonce.
+ */
+function fakeChain() {
+  const state = {
+    proven: false,
+    consumed: false,
+    receipt: "pending" as L1ClaimStatus,
+    claims: 0,
+    claimNonces: [] as number[],
+    nonces: { mined: 0, pending: 0 },
+  };
+  const chain: L1WithdrawalChain = {
+    getMessageWitness: () => Promise.resolve(state.proven ? WITNESS : undefined),
+    getOperatorNonces: () => Promise.resolve({ ...state.nonces }),
+    submitClaim: (_withdrawal, nonce) => {
+      state.claims += 1;
+      state.claimNonces.push(nonce);
+      state.nonces.pending = Math.max(state.nonces.pending, nonce + 1);
+      return Promise.resolve(L1_TX_HASH);
+    },
+    getClaimStatus: () => Promise.resolve(state.receipt),
+    isClaimed: () => Promise.resolve(state.consumed),
+  };
+  return { chain, state };
+}
+
+async function withStore(fn: (statePath: string, store: LmdbL1WithdrawalStore) => Promise<void>) {
+  const dir = mkdtempSync(path.join(tmpdir(), "l1-withdrawals-test-"));
+  const store = new LmdbL1WithdrawalStore({ treasury_l1_withdrawal_state_path: dir });
+  try {
+    await fn(dir, store);
+  } finally {
+    await store.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe("L1 withdrawal tracker", () => {
+  it("exits through the bridge and follows the withdrawal until it is claimed", async () => {
+    await withStore(async (_statePath, store) => {
+      const { chain, state } = fakeChain();
+      const tracker = new L1WithdrawalTracker(trackerConfig(), fakeTreasury(), chain, store);
+
+      const result = await tracker.withdraw({
+        acceptedAsset: ASSET,
+        amount: 300n,
+        recipient: RECIPIENT,
+        trigger: "manual",
+        adminKeyId: "ops",
+      });
+      assert.equal(result.bridge, BRIDGE);
+      const withdrawal = () => store.get(result.withdrawalId);
+      assert.equal(withdrawal()?.status, "awaiting_proof");
+      assert.equal(withdrawal()?.amount, "300");
+      assert.equal(withdrawal()?.admin_key_id, "ops");
+
+      await tracker.poll();
+      assert.equal(withdrawal()?.status, "awaiting_proof", "waits for the epoch proof");
+
+      state.proven = true;
+      await tracker.poll();
+      assert.equal(withdrawal()?.status, "claim_submitted");
+      assert.equal(withdrawal()?.epoch, "4");
+      assert.deepEqual(withdrawal()?.sibling_path, WITNESS.siblingPath);
+      assert.equal(withdrawal()?.l1_tx_hash, L1_TX_HASH);
+
+      await tracker.poll();
+      assert.equal(state.claims, 1, "never resends while the claim is pending");
+
+      state.receipt = "succeeded";
+      await tracker.poll();
+      assert.equal(withdrawal()?.status, "claimed");
+      assert.deepEqual(store.listOpen(), []);
+      assert.deepEqual(
+        tracker.query({ status: "claimed" }).map((record) => record.id),
+        [result.withdrawalId],
+      );
+    });
+  });
+
+  it("resubmits reverted claims and recognises claims consumed elsewhere", async () => {
+    await withStore(async (_statePath, store) => {
+      const { chain, state } = fakeChain();
+      state.proven = true;
+      const tracker = new L1WithdrawalTracker(trackerConfig(), fakeTreasury(), chain, store);
+      const { withdrawalId } = await tracker.withdraw({
+        acceptedAsset: ASSET,
+        recipient: RECIPIENT,
+        trigger: "scheduled",
+      });
+
+      await tracker.poll();
+      state.receipt = "reverted";
+      await tracker.poll();
+      assert.equal(state.claims, 2);
+      assert.equal(store.get(withdrawalId)?.claim_attempts, 2);
+      assert.match(store.get(withdrawalId)?.last_error ?? "", /reverted/);
+
+      state.receipt = "reverted";
+      state.consumed = true;
+      await tracker.poll();
+      assert.equal(state.claims, 2, "a consumed message is not claimed again");
+      assert.equal(store.get(withdrawalId)?.status, "claimed");
+      assert.equal(store.get(withdrawalId)?.last_error, undefined);
+    });
+  });
+
+  it("settles a claim broadcast before its hash was recorded by its nonce", async () => {
+    await withStore(async (_statePath, store) => {
+      const { chain, state } = fakeChain();
+      state.proven = true;
+      state.nonces = { mined: 3, pending: 3 };
+      let crashAfterBroadcast = true;
+      const crashing: L1WithdrawalChain = {
+        ...chain,
+        submitClaim: async (withdrawal, nonce) => {
+          const hash = await chain.submitClaim(withdrawal, nonce);
+          if (crashAfterBroadcast) {
+            throw new Error("connection reset");
+          }
+          return hash;
+        },
+      };
+      const tracker = new L1WithdrawalTracker(trackerConfig(), fakeTreasury(), crashing, store);
+      const { withdrawalId } = await tracker.withdraw({
+        acceptedAsset: ASSET,
+        recipient: RECIPIENT,
+        trigger: "scheduled",
+      });
+
+      await tracker.poll();
+      assert.equal(store.get(withdrawalId)?.status, "claim_submitting");
+      assert.equal(store.get(withdrawalId)?.claim_nonce, 3);
+
+      crashAfterBroadcast = false;
+      await tracker.poll();
+      assert.deepEqual(state.claimNonces, [3], "never resends while the nonce is pending");
+
+      state.nonces = { mined: 4, pending: 4 };
+      state.consumed = true;
+      await tracker.poll();
+      assert.equal(store.get(withdrawalId)?.status, "claimed");
+      assert.equal(state.claims, 1);
+    });
+  });
+
+  it("resends a claim that never left at the nonce set aside for it", async () => {
+    await withStore(async (_statePath, store) => {
+      const { chain, state } = fakeChain();
+      state.proven = true;
+      let dropped = true;
+      const dropping: L1WithdrawalChain = {
+        ...chain,
+        submitClaim: (withdrawal, nonce) =>
+          dropped
+            ? Promise.reject(new Error("request timed out"))
+            : chain.submitClaim(withdrawal, nonce),
+      };
+      const tracker = new L1WithdrawalTracker(trackerConfig(), fakeTreasury(), dropping, store);
+      const { withdrawalId } = await tracker.withdraw({
+        acceptedAsset: ASSET,
+        recipient: RECIPIENT,
+        trigger: "scheduled",
+      });
+
+      await tracker.poll();
+      assert.equal(store.get(withdrawalId)?.status, "claim_submitting");
+
+      dropped = false;
+      await tracker.poll();
+      assert.deepEqual(state.claimNonces, [0]);
+      assert.equal(store.get(withdrawalId)?.status, "claim_submitted");
+      assert.equal(store.get(withdrawalId)?.claim_attempts, 1);
+
+      // The nonce went to another transaction and the message is still unclaimed.
+      state.nonces = { mined: 1, pending: 1 };
+      state.receipt = "reverted";
+      await tracker.poll();
+      assert.deepEqual(state.claimNonces, [0, 1]);
+    });
+  });
+
+  it("keeps failed steps open and rejects assets without a bridge", async () => {
+    await withStore(async (statePath, store) => {
+      const { chain, state } = fakeChain();
+      state.proven = true;
+      const failing: L1WithdrawalChain = {
+        ...chain,
+        submitClaim: () => Promise.reject(new Error("insufficient funds for gas")),
+      };
+      const tracker = new L1WithdrawalTracker(trackerConfig(), fakeTreasury(), failing, store);
+      await assert.rejects(
+        tracker.withdraw({
+          acceptedAsset: `0x${"0".repeat(63)}9`,
+          recipient: RECIPIENT,
+          trigger: "manual",
+        }),
+        /No L1 bridge configured for accepted_asset/,
+      );
+      const { withdrawalId } = await tracker.withdraw({
+        acceptedAsset: ASSET,
+        recipient: RECIPIENT,
+        trigger: "manual",
+      });
+
+      await tracker.poll();
+      const failed = store.get(withdrawalId);
+      assert.equal(failed?.status, "claim_submitting");
+      assert.equal(failed?.claim_nonce, 0);
+      assert.equal(failed?.last_error, "insufficient funds for gas");
+
+      const reopened = new LmdbL1WithdrawalStore({ treasury_l1_withdrawal_state_path: statePath });
+      try {
+        assert.deepEqual(
+          reopened.listOpen().map((record) => record.id),
+          [withdrawalId],
+        );
+      } finally {
+        await reopened.close();
+      }
+    });
+  });
+
+  it("rejects malformed persisted withdrawals", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "l1-withdrawals-test-"));
+    const root = open({ path: dir });
+    await root.openDB({ name: "entries" }).put("broken", { id: "broken", status: "lost" });
+    await root.close();
+
+    const store = new LmdbL1WithdrawalStore({ treasury_l1_withdrawal_state_path: dir });
+    try {
+      assert.throws(
+        () => store.get("broken"),
+        /L1 withdrawal state is malformed \(lmdb:\/\/.*, broken\): status/,
+      );
+    } finally {
+      await store.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
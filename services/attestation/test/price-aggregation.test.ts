@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { describe, it } from "#test";
+import {
+  aggregatePriceSources,
+  PriceAggregationError,
+  TwapWindow,
+} from "../src/price-aggregation.js";
+import { createPriceFeedAdapter } from "../src/price-feeds.js";
+
+const SAMPLES = [
+  { name: "alpha", weight: 1, rate: { rate_num: 100, rate_den: 1000 } },
+  { name: "beta", weight: 3, rate: { rate_num: 102, rate_den: 1000 } },
+  { name: "gamma", weight: 1, rate: { rate_num: 101, rate_den: 1000 } },
+  { name: "glitch", weight: 1, rate: { rate_num: 500, rate_den: 1000 } },
+  { name: "offline", weight: 1, error: "connect ECONNREFUSED" },
+];
+
+describe("price aggregation", () => {
+  it("rejects outliers from consensus and takes the median of the rest", () => {
+    const { rate, aggregation } = aggregatePriceSources(SAMPLES, {
+      method: "median",
+      maxOutlierBips: 200,
+      minSources: 2,
+    });
+
+    assert.deepEqual(rate, { rate_num: 101, rate_den: 1000 });
+    assert.equal(aggregation.method, "median");
+    assert.deepEqual(
+      aggregation.sources.map(({ name, status }) => [name, status]),
+      [
+        ["offline", "error"],
+        ["alpha", "used"],
+        ["beta", "used"],
+        ["gamma", "used"],
+        ["glitch", "outlier"],
+      ],
+    );
+    assert.equal(aggregation.consensus_rate_num, 203);
+    assert.equal(aggregation.consensus_rate_den, 2000);
+  });
+
+  it("combines surviving sources by weight", () => {
+    const { rate } = aggregatePriceSources(SAMPLES, {
+      method: "weighted_mean",
+      maxOutlierBips: 200,
+      minSources: 1,
+    });
+    // (100 * 1 + 102 * 3 + 101 * 1) / 5 = 101.4
+    assert.deepEqual(rate, { rate_num: 507, rate_den: 5000 });
+  });
+
+  it("fails with an audit record when too few sources agree", () => {
+    assert.throws(
+      () => aggregatePriceSources(SAMPLES, { method: "median", maxOutlierBips: 1, minSources: 3 }),
+      (error: unknown) => {
+        assert.ok(error instanceof PriceAggregationError);
+        assert.match(error.message, /min_sources=3/);
+        assert.equal(error.aggregation.sources.length, 5);
+        return true;
+      },
+    );
+  });
+
+  it("averages samples by the time each one was in effect", () => {
+    const twap = new TwapWindow(60_000);
+    assert.deepEqual(twap.record({ rate_num: 1, rate_den: 1 }, 0), { rate_num: 1, rate_den: 1 });
+    twap.record({ rate_num: 3, rate_den: 1 }, 30_000);
+    // Window [30s, 90s]: rate 3 from 30s to 90s, the first sample has aged out.
+    assert.deepEqual(twap.record({ rate_num: 3, rate_den: 1 }, 90_000), {
+      rate_num: 3,
+      rate_den: 1,
+    });
+  });
+
+  it("aggregates configured sources through the feed adapter", async () => {
+    const adapter = createPriceFeedAdapter(
+      {
+        type: "aggregate",
+        method: "median",
+        max_outlier_bips: 100,
+        min_sources: 2,
+        twap_window_seconds: 300,
+        sources: [
+          { type: "fixed", name: "a", weight: 1, rate_num: 2, rate_den: 1000 },
+          { type: "fixed", name: "b", weight: 1, rate_num: 2, rate_den: 1000 },
+          { type: "fixed", name: "c", weight: 1, rate_num: 9, rate_den: 1000 },
+        ],
+      },
+      { timeoutMs: 1000, nowMs: Date.now },
+    );
+
+    const sample = await adapter.fetchRate();
+    assert.equal(sample.rate_num, 1);
+    assert.equal(sample.rate_den, 500);
+    assert.equal(sample.aggregation?.sources.find((s) => s.name === "c")?.status, "outlier");
+  });
+});
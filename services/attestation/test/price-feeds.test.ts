@@ -0,0 +1,189 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "#test";
+import type { SupportedAssetPolicy } from "../src/config.js";
+import {
+  createPriceFeedAdapter,
+  PriceFeedMonitor,
+  type PriceFeedMonitorConfig,
+  type PriceFeedRate,
+  parseDecimalRate,
+} from "../src/price-feeds.js";
+
+const ASSET = "0x0000000000000000000000000000000000000000000000000000000000000002";
+
+const ADAPTER_OPTIONS = { timeoutMs: 1000, nowMs: Date.now };
+
+const MONITOR_CONFIG: PriceFeedMonitorConfig = {
+  price_feed_refresh_interval_seconds: 30,
+  price_feed_max_staleness_seconds: 60,
+  price_feed_max_deviation_bips: 500,
+  price_feed_timeout_ms: 1000,
+};
+
+function feedPolicy(): SupportedAssetPolicy {
+  return {
+    address: ASSET,
+    name: "humanUSDC",
+    market_rate_num: 1,
+    market_rate_den: 1000,
+    fee_bips: 200,
+    price_feed: { type: "http", url: "http://127.0.0.1:1/price", json_path: "price" },
+  };
+}
+
+interface StubPriceServer {
+  server: Server;
+  url: string;
+  setResponse(status: number, body: unknown): void;
+}
+
+async function startStubPriceServer(): Promise<StubPriceServer> {
+  let status = 200;
+  let body: unknown = {};
+  const server = createServer((_req, res) => {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    server,
+    url: `http://127.0.0.1:${port}/price`,
+    setResponse: (nextStatus, nextBody) => {
+      status = nextStatus;
+      body = nextBody;
+    },
+  };
+}
+
+function queuedAdapter(samples: Array<PriceFeedRate | Error>) {
+  return () => ({
+    fetchRate: () => {
+      const next = samples.shift();
+      if (!next) {
+        return Promise.reject(new Error("no samples left"));
+      }
+      return next instanceof Error ? Promise.reject(next) : Promise.resolve(next);
+    },
+  });
+}
+
+describe("price feeds", () => {
+  let stub: StubPriceServer | undefined;
+
+  afterEach(async () => {
+    if (stub) {
+      await new Promise((resolve) => stub?.server.close(resolve));
+      stub = undefined;
+    }
+  });
+
+  it("converts decimal prices into reduced integer rates", () => {
+    assert.deepEqual(parseDecimalRate("0.001"), { rate_num: 1, rate_den: 1000 });
+    assert.deepEqual(parseDecimalRate(2.5), { rate_num: 5, rate_den: 2 });
+    assert.deepEqual(parseDecimalRate(1.5e-7), { rate_num: 3, rate_den: 20_000_000 });
+    assert.throws(() => parseDecimalRate("-1"), /positive decimal/);
+    assert.throws(() => parseDecimalRate("0"), /positive decimal/);
+  });
+
+  it("reads a rate from an HTTP JSON endpoint", async () => {
+    stub = await startStubPriceServer();
+    stub.setResponse(200, { data: { price: "0.0031" } });
+
+    const adapter = createPriceFeedAdapter(
+      { type: "http", url: stub.url, json_path: "data.price" },
+      ADAPTER_OPTIONS,
+    );
+    assert.deepEqual(await adapter.fetchRate(), { rate_num: 31, rate_den: 10000 });
+
+    stub.setResponse(502, { error: "upstream" });
+    await assert.rejects(adapter.fetchRate(), /status 502/);
+  });
+
+  it("reads a rate from a JSON file", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "price-feed-test-"));
+    const filePath = path.join(dir, "price.json");
+    try {
+      writeFileSync(filePath, JSON.stringify({ prices: [{ value: 0.25 }] }), "utf8");
+      const adapter = createPriceFeedAdapter(
+        { type: "file", path: filePath, json_path: "prices.0.value" },
+        ADAPTER_OPTIONS,
+      );
+      assert.deepEqual(await adapter.fetchRate(), { rate_num: 1, rate_den: 4 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("applies the live HTTP rate to the asset policy", async () => {
+    stub = await startStubPriceServer();
+    stub.setResponse(200, { price: "0.002" });
+    const policy = {
+      ...feedPolicy(),
+      price_feed: { type: "http" as const, url: stub.url, json_path: "price" },
+    };
+    const monitor = new PriceFeedMonitor(MONITOR_CONFIG, () => [policy]);
+
+    await monitor.refreshAll();
+    const live = monitor.applyLiveRate(policy);
+    assert.ok(live.ok);
+    assert.equal(live.value.market_rate_num, 1);
+    assert.equal(live.value.market_rate_den, 500);
+    assert.equal(live.value.fee_bips, 200);
+  });
+
+  it("trips the circuit breaker on a large jump and clears it on admin reset", async () => {
+    const policy = feedPolicy();
+    const monitor = new PriceFeedMonitor(MONITOR_CONFIG, () => [policy], {
+      createAdapter: queuedAdapter([
+        { rate_num: 1, rate_den: 1000 },
+        { rate_num: 2, rate_den: 1000 },
+        { rate_num: 2, rate_den: 1000 },
+      ]),
+    });
+
+    await monitor.refreshAll();
+    assert.ok(monitor.applyLiveRate(policy).ok);
+
+    await monitor.refreshAll();
+    const blocked = monitor.applyLiveRate(policy);
+    assert.deepEqual(blocked, { ok: false, message: "Price feed tripped for accepted_asset" });
+    assert.equal(monitor.snapshot()[0]?.deviation_bips, 10000);
+
+    const snapshot = await monitor.reset(ASSET);
+    assert.equal(snapshot?.status, "ok");
+    assert.equal(snapshot?.rate_num, 2);
+    assert.equal(snapshot?.rate_den, 1000);
+  });
+
+  it("refuses quotes once the last accepted sample is stale", async () => {
+    let nowMs = 1_000_000;
+    const policy = feedPolicy();
+    const monitor = new PriceFeedMonitor(MONITOR_CONFIG, () => [policy], {
+      nowMs: () => nowMs,
+      createAdapter: queuedAdapter([{ rate_num: 1, rate_den: 1000 }, new Error("feed down")]),
+    });
+
+    await monitor.refreshAll();
+    await monitor.refreshAll();
+    assert.ok(monitor.applyLiveRate(policy).ok);
+    assert.equal(monitor.snapshot()[0]?.last_error, "feed down");
+
+    nowMs += 61_000;
+    assert.deepEqual(monitor.applyLiveRate(policy), {
+      ok: false,
+      message: "Price feed stale for accepted_asset",
+    });
+  });
+
+  it("leaves policies without a price feed untouched", () => {
+    const { price_feed: _feed, ...staticPolicy } = feedPolicy();
+    const monitor = new PriceFeedMonitor(MONITOR_CONFIG, () => [staticPolicy]);
+    assert.deepEqual(monitor.applyLiveRate(staticPolicy), { ok: true, value: staticPolicy });
+  });
+});
@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "#test";
+import {
+  LmdbQuoteApiKeyStore,
+  QuoteApiKeyRegistry,
+  SharedQuoteApiKeyStore,
+} from "../src/quote-api-keys.js";
+import { InMemorySharedState } from "../src/shared-state.js";
+
+const NOW = 1_800_000_000n;
+const SHARED_CONFIG = {
+  shared_state_key_prefix: "test:",
+  shared_state_resync_interval_seconds: 60,
+};
+
+async function waitFor(check: () => boolean): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error("condition not met in time");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+async function withLmdbRegistry(fn: (registry: QuoteApiKeyRegistry) => Promise<void>) {
+  const dir = mkdtempSync(path.join(tmpdir(), "quote-api-keys-test-"));
+  const registry = new QuoteApiKeyRegistry(
+    new LmdbQuoteApiKeyStore({ quote_api_key_state_path: dir }),
+    new InMemorySharedState(() => Number(NOW) * 1000),
+    { keyPrefix: "test:" },
+  );
+  try {
+    await fn(registry);
+  } finally {
+    await registry.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function sharedRegistry(backend: InMemorySharedState): Promise<QuoteApiKeyRegistry> {
+  return new QuoteApiKeyRegistry(
+    await SharedQuoteApiKeyStore.open(SHARED_CONFIG, backend),
+    backend,
+    {
+      keyPrefix: SHARED_CONFIG.shared_state_key_prefix,
+    },
+  );
+}
+
+describe("quote api key registry", () => {
+  it("authenticates active keys and stops accepting them once revoked or expired", async () => {
+    await withLmdbRegistry(async (registry) => {
+      const { key, record } = await registry.create(
+        { label: "Wallet Inc", expires_at: Number(NOW) + 60 },
+        "ops",
+        NOW,
+      );
+      assert.match(key, /^fpcq_/);
+      assert.equal(record.status, "active");
+      assert.equal("key_sha256" in record, false);
+
+      assert.equal(registry.authenticate(key, NOW)?.id, record.id);
+      assert.equal(registry.authenticate(`${key}x`, NOW), undefined);
+      assert.equal(registry.authenticate(key, NOW + 60n), undefined);
+      assert.equal(registry.lookup(key)?.id, record.id);
+      const looked = registry.lookup(key);
+      assert.ok(looked);
+      looked.label = "Mutated";
+      assert.equal(registry.lookup(key)?.label, "Wallet Inc");
+
+      await registry.update(record.id, { label: "Wallet Inc" }, NOW + 60n);
+      assert.equal(registry.authenticate(key, NOW + 60n)?.id, record.id);
+
+      const revoked = await registry.revoke(record.id, "ops", NOW);
+      assert.equal(revoked.status, "revoked");
+      assert.equal(revoked.revoked_by, "ops");
+      assert.equal(registry.authenticate(key, NOW), undefined);
+      await assert.rejects(registry.revoke(record.id, "ops", NOW), /already revoked/);
+      await assert.rejects(registry.update("missing", { label: "x" }, NOW), /not found/);
+    });
+  });
+
+  it("enforces request quotas and Fee Juice budgets per fixed window", async () => {
+    await withLmdbRegistry(async (registry) => {
+      const { key } = await registry.create(
+        {
+          label: "Relayer",
+          request_quota: { max_requests: 2, window_seconds: 60 },
+          fj_budget: { max_fj_amount: "1500", window_seconds: 3600 },
+        },
+        "ops",
+        NOW,
+      );
+      const record = registry.authenticate(key, NOW);
+      assert.ok(record);
+
+      assert.equal(await registry.consumeRequest(record, NOW), undefined);
+      assert.equal(await registry.consumeRequest(record, NOW), undefined);
+      const overQuota = await registry.consumeRequest(record, NOW);
+      assert.equal(overQuota?.code, "API_KEY_QUOTA_EXCEEDED");
+      assert.equal(overQuota?.retry_after_seconds, 60);
+      assert.equal(await registry.consumeRequest(record, NOW + 60n), undefined);
+
+      const first = await registry.reserveBudget(record, 1000n, NOW);
+      assert.ok(first.ok);
+      const overBudget = await registry.reserveBudget(record, 1000n, NOW);
+      assert.equal(!overBudget.ok && overBudget.violation.used_fj_amount, "1000");
+      // Released unsigned: the lifetime totals only count signed quotes.
+      first.release();
+      assert.ok((await registry.reserveBudget(record, 1000n, NOW)).ok);
+      await registry.countIssuedQuote(record, 1000n);
+
+      const [view] = await registry.list(NOW + 60n);
+      assert.deepEqual(view.usage, {
+        requests_total: 3,
+        quota_rejections_total: 1,
+        quotes_total: 1,
+        fj_amount_total: "1000",
+        budget_rejections_total: 1,
+        window_requests: 1,
+        window_fj_amount: "1000",
+      });
+      assert.match(
+        await registry.renderPrometheus(),
+        new RegExp(`attestation_quote_api_key_fj_amount_total\\{key_id="${view.id}"\\} 1000`),
+      );
+    });
+  });
+
+  it("counts quotas and budgets across replicas sharing a backend", async () => {
+    const backend = new InMemorySharedState(() => Number(NOW) * 1000);
+    const first = await sharedRegistry(backend);
+    const second = await sharedRegistry(backend);
+    try {
+      const { key } = await first.create(
+        {
+          label: "Relayer",
+          request_quota: { max_requests: 1, window_seconds: 60 },
+          fj_budget: { max_fj_amount: "20000000000000000000", window_seconds: 3600 },
+        },
+        "ops",
+        NOW,
+      );
+      await waitFor(() => second.authenticate(key, NOW) !== undefined);
+      const record = second.authenticate(key, NOW);
+      assert.ok(record);
+
+      assert.equal(await first.consumeRequest(record, NOW), undefined);
+      assert.equal((await second.consumeRequest(record, NOW))?.code, "API_KEY_QUOTA_EXCEEDED");
+
+      // Above the 64-bit range a plain Redis counter could hold.
+      assert.ok((await first.reserveBudget(record, 12_000_000_000_000_000_000n, NOW)).ok);
+      const overBudget = await second.reserveBudget(record, 12_000_000_000_000_000_000n, NOW);
+      assert.equal(!overBudget.ok && overBudget.violation.used_fj_amount, "12000000000000000000");
+
+      const [view] = await second.list(NOW);
+      assert.equal(view.usage.requests_total, 1);
+      assert.equal(view.usage.quota_rejections_total, 1);
+      assert.equal(view.usage.window_fj_amount, "12000000000000000000");
+      assert.match(
+        await second.renderPrometheus(),
+        /attestation_quote_api_key_budget_rejections_total\{key_id="[^"]+"\} 1/,
+      );
+    } finally {
+      await first.close();
+      await second.close();
+      await backend.close();
+    }
+  });
+
+  it("propagates revocations between replicas sharing a backend", async () => {
+    const backend = new InMemorySharedState(() => Number(NOW) * 1000);
+    const first = await sharedRegistry(backend);
+    const second = await sharedRegistry(backend);
+    try {
+      const { key, record } = await first.create({ label: "Wallet" }, "ops", NOW);
+      await waitFor(() => second.authenticate(key, NOW)?.id === record.id);
+      const looked = second.lookup(key);
+      assert.ok(looked);
+      looked.revoked_at = Number(NOW);
+      assert.equal(second.authenticate(key, NOW)?.id, record.id);
+
+      await second.revoke(record.id, "ops", NOW);
+      await waitFor(() => first.authenticate(key, NOW) === undefined);
+    } finally {
+      await first.close();
+      await second.close();
+      await backend.close();
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "#test";
+import {
+  canonicalQuoteRequest,
+  loadQuoteClients,
+  type QuoteAuthRequest,
+  type QuoteClient,
+  QuoteRequestAuthenticator,
+  signQuoteRequest,
+} from "../src/quote-clients.js";
+import { InMemorySharedState } from "../src/shared-state.js";
+
+const NOW_MS = 1_800_000_000_000;
+const SECRET = "partner-secret-0123456789abcdefghij";
+const FINGERPRINT = "ab".repeat(32);
+const CLIENTS: QuoteClient[] = [
+  { id: "partner", hmac_secret: SECRET },
+  { id: "gateway", cert_sha256: FINGERPRINT },
+];
+
+function signedRequest(url: string, nonce: string, timestamp = NOW_MS / 1000): QuoteAuthRequest {
+  const ts = String(timestamp);
+  return {
+    method: "GET",
+    originalUrl: url,
+    headers: {
+      "x-fpc-client-id": "partner",
+      "x-fpc-timestamp": ts,
+      "x-fpc-nonce": nonce,
+      "x-fpc-signature": signQuoteRequest(SECRET, canonicalQuoteRequest("GET", url, ts, nonce)),
+    },
+    raw: { socket: {} },
+  };
+}
+
+function certificateRequest(fingerprint: string, authorized = true): QuoteAuthRequest {
+  return {
+    method: "GET",
+    originalUrl: "/quote",
+    headers: {},
+    raw: {
+      socket: {
+        authorized,
+        getPeerCertificate: () => ({ fingerprint256: fingerprint }),
+      },
+    },
+  };
+}
+
+function authenticator(mode: "hmac" | "mtls", nonces = new InMemorySharedState(() => NOW_MS)) {
+  return new QuoteRequestAuthenticator({ mode, hmacMaxSkewSeconds: 300 }, CLIENTS, nonces, {
+    keyPrefix: "test:",
+    nowMs: () => NOW_MS,
+  });
+}
+
+describe("quote request authenticator", () => {
+  it("canonicalizes query parameter order", () => {
+    assert.equal(
+      canonicalQuoteRequest(
+        "get",
+        "/fpcs/a/quote?user=0x1&fj_amount=5&accepted_asset=0x2",
+        "1",
+        "n",
+      ),
+      "GET\n/fpcs/a/quote\naccepted_asset=0x2&fj_amount=5&user=0x1\n1\nn",
+    );
+  });
+
+  it("accepts each nonce once across replicas sharing a backend", async () => {
+    const nonces = new InMemorySharedState(() => NOW_MS);
+    const first = authenticator("hmac", nonces);
+    const second = authenticator("hmac", nonces);
+    const request = signedRequest("/quote?fj_amount=1", "nonce-0000000000000001");
+
+    assert.equal(first.identify(request)?.id, "partner");
+    const accepted = await first.authenticate(request);
+    assert.equal(accepted.ok && accepted.client.id, "partner");
+    assert.deepEqual(await second.authenticate(request), {
+      ok: false,
+      reason: "replayed_nonce",
+      clientId: "partner",
+    });
+
+    const stale = await first.authenticate(
+      signedRequest("/quote", "nonce-0000000000000002", NOW_MS / 1000 - 301),
+    );
+    assert.equal(!stale.ok && stale.reason, "stale_timestamp");
+  });
+
+  it("matches verified client certificates by fingerprint", async () => {
+    const mtls = authenticator("mtls");
+    const colonSeparated = FINGERPRINT.toUpperCase().match(/../g)?.join(":") as string;
+
+    const accepted = await mtls.authenticate(certificateRequest(colonSeparated));
+    assert.equal(accepted.ok && accepted.client.id, "gateway");
+    const unverified = await mtls.authenticate(certificateRequest(FINGERPRINT, false));
+    assert.equal(!unverified.ok && unverified.reason, "missing_client_certificate");
+    const unknown = await mtls.authenticate(certificateRequest("cd".repeat(32)));
+    assert.equal(!unknown.ok && unknown.reason, "unknown_client_certificate");
+    // Signatures are not accepted in mtls mode.
+    assert.equal(mtls.identify(signedRequest("/quote", "nonce-0000000000000003")), undefined);
+  });
+
+  it("rejects clients files without credentials or with short secrets", () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "quote-clients-test-"));
+    const file = path.join(dir, "clients.yaml");
+    try {
+      writeFileSync(file, "clients:\n  - id: partner\n");
+      assert.throws(() => loadQuoteClients(file), /set hmac_secret or cert_sha256/);
+      writeFileSync(file, 'clients:\n  - id: partner\n    hmac_secret: "short"\n');
+      assert.throws(() => loadQuoteClients(file), /at least 32 chars/);
+      writeFileSync(file, `clients:\n  - id: gateway\n    cert_sha256: "${FINGERPRINT}"\n`);
+      assert.deepEqual(loadQuoteClients(file), [{ id: "gateway", cert_sha256: FINGERPRINT }]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "#test";
+import { LmdbQuoteLedger, type QuoteLedgerEntry } from "../src/quote-ledger.js";
+
+const USER_A = "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72";
+const USER_B = "0x1111111111111111111111111111111111111111111111111111111111111111";
+const ASSET_USDC = "0x0000000000000000000000000000000000000000000000000000000000000002";
+const ASSET_ETH = "0x0000000000000000000000000000000000000000000000000000000000000003";
+
+function entry(overrides: Partial<QuoteLedgerEntry>): QuoteLedgerEntry {
+  return {
+    quote_hash: "0x01",
+    kind: "quote",
+    quote_format: "amount_quote",
+    user: USER_A,
+    accepted_asset: ASSET_USDC,
+    fj_amount: "1000000",
+    aa_payment_amount: "1020",
+    market_rate_num: 1,
+    market_rate_den: 1000,
+    fee_bips: 200,
+    rate_num: "10200",
+    rate_den: "10000000",
+    issued_at: "1700000000",
+    valid_until: "1700000300",
+    signature: "0xsig",
+    settlement_status: "unused",
+    ...overrides,
+  };
+}
+
+describe("quote ledger", () => {
+  it("persists quotes and filters by user, asset and time range", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "quote-ledger-test-"));
+    const config = { quote_ledger_state_path: path.join(dir, "ledger") };
+
+    try {
+      const ledger = new LmdbQuoteLedger(config);
+      await ledger.record(entry({ quote_hash: "0x01", issued_at: "100" }));
+      await ledger.record(entry({ quote_hash: "0x02", issued_at: "200", user: USER_B }));
+      await ledger.record(
+        entry({ quote_hash: "0x03", issued_at: "300", accepted_asset: ASSET_ETH }),
+      );
+      await ledger.record(entry({ quote_hash: "0x04", issued_at: "300" }));
+      await ledger.close();
+
+      const reopened = new LmdbQuoteLedger(config);
+      assert.equal(reopened.get("0x02")?.user, USER_B);
+      assert.deepEqual(
+        reopened.query({}).map((e) => e.quote_hash),
+        ["0x04", "0x03", "0x02", "0x01"],
+      );
+      assert.deepEqual(
+        reopened.query({ user: USER_A }).map((e) => e.quote_hash),
+        ["0x04", "0x03", "0x01"],
+      );
+      assert.deepEqual(
+        reopened.query({ acceptedAsset: ASSET_ETH }).map((e) => e.quote_hash),
+        ["0x03"],
+      );
+      assert.deepEqual(
+        reopened.query({ fromSeconds: 200n, toSeconds: 300n }).map((e) => e.quote_hash),
+        ["0x04", "0x03", "0x02"],
+      );
+      assert.deepEqual(
+        reopened.query({ fromSeconds: 100n, toSeconds: 200n, limit: 1 }).map((e) => e.quote_hash),
+        ["0x02"],
+      );
+      await reopened.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("tracks settlement state and the watcher cursor", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "quote-ledger-test-"));
+    const ledger = new LmdbQuoteLedger({ quote_ledger_state_path: path.join(dir, "ledger") });
+
+    try {
+      await ledger.record(entry({ quote_hash: "0x01", issued_at: "100" }));
+      await ledger.record(entry({ quote_hash: "0x02", issued_at: "200" }));
+      await ledger.record(entry({ quote_hash: "0x03", issued_at: "300" }));
+      assert.equal(ledger.getSettlementCursor(), undefined);
+
+      await ledger.updateSettlement("0x01", {
+        status: "settled",
+        block_number: 42,
+        tx_hash: "0xtx",
+        settled_at: "150",
+      });
+      await ledger.updateSettlement("0x02", { status: "expired" });
+      await ledger.setSettlementCursor(42);
+
+      assert.deepEqual(
+        ledger.listUnsettled().map((e) => e.quote_hash),
+        ["0x03"],
+      );
+      assert.deepEqual(ledger.get("0x01"), {
+        ...entry({ quote_hash: "0x01", issued_at: "100" }),
+        settlement_status: "settled",
+        settled_block: 42,
+        settled_tx_hash: "0xtx",
+        settled_at: "150",
+      });
+      assert.deepEqual(
+        ledger.query({ status: "expired" }).map((e) => e.quote_hash),
+        ["0x02"],
+      );
+      assert.equal(ledger.getSettlementCursor(), 42);
+    } finally {
+      await ledger.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,217 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { Fr } from "@aztec/aztec.js/fields";
+import { afterEach, describe, it } from "#test";
+import { RemoteQuoteSigner, RemoteSignerError } from "../src/remote-signer.js";
+import { createLocalQuoteSigner } from "../src/signer.js";
+import { buildSigningDaemon } from "../src/signing-daemon.js";
+
+const SIGNER_URL = "http://signer.internal:3100";
+const QUOTE_HASH = Fr.fromHexString(
+  "0x00000000000000000000000000000000000000000000000000000000cafebabe",
+);
+const SIGNATURE = `0x${"ab".repeat(64)}`;
+const OPERATOR_SECRET = Fr.fromHexString(
+  "0x0000000000000000000000000000000000000000000000000000000000000001",
+);
+
+interface RecordedCall {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/** Replays `responses` in order and records every request it receives. */
+function scriptedFetch(responses: Array<Response | Error>) {
+  const calls: RecordedCall[] = [];
+  const fetchImpl = (input: string | URL | Request, init?: RequestInit) => {
+    calls.push({
+      url: String(input),
+      method: init?.method ?? "GET",
+      headers: (init?.headers ?? {}) as Record<string, string>,
+      body: init?.body ? JSON.parse(String(init.body)) : undefined,
+    });
+    const next = responses.shift();
+    if (!next) {
+      return Promise.reject(new Error("unexpected request"));
+    }
+    return next instanceof Error ? Promise.reject(next) : Promise.resolve(next);
+  };
+  return { calls, fetch: fetchImpl as typeof fetch };
+}
+
+/** Never answers; rejects only when the request's abort signal fires. */
+const hangingFetch = ((_input: string | URL | Request, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+  })) as typeof fetch;
+
+function makeSigner(
+  fetchImpl: typeof fetch,
+  overrides: { authToken?: string; keyId?: string } = {},
+) {
+  return new RemoteQuoteSigner({
+    url: `${SIGNER_URL}/`,
+    timeoutMs: 50,
+    maxRetries: 2,
+    retryBackoffMs: 1,
+    fetch: fetchImpl,
+    ...overrides,
+  });
+}
+
+describe("remote quote signer", () => {
+  it("posts the quote hash with key id and bearer token", async () => {
+    const { calls, fetch } = scriptedFetch([jsonResponse(200, { signature: SIGNATURE })]);
+    const signer = makeSigner(fetch, { authToken: "daemon-token", keyId: "fpc-operator" });
+
+    assert.equal(await signer.signQuoteHash(QUOTE_HASH), SIGNATURE);
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0]?.url, `${SIGNER_URL}/sign`);
+    assert.equal(calls[0]?.method, "POST");
+    assert.equal(calls[0]?.headers.authorization, "Bearer daemon-token");
+    assert.deepEqual(calls[0]?.body, {
+      key_id: "fpc-operator",
+      message_hash: QUOTE_HASH.toString(),
+    });
+  });
+
+  it("retries 5xx responses and network errors with backoff", async () => {
+    const { calls, fetch } = scriptedFetch([
+      jsonResponse(503, { error: { code: "UNAVAILABLE", message: "HSM busy" } }),
+      new TypeError("fetch failed"),
+      jsonResponse(200, { signature: SIGNATURE }),
+    ]);
+
+    assert.equal(await makeSigner(fetch).signQuoteHash(QUOTE_HASH), SIGNATURE);
+    assert.equal(calls.length, 3);
+  });
+
+  it("gives up after max retries", async () => {
+    const { calls, fetch } = scriptedFetch([
+      jsonResponse(500, {}),
+      jsonResponse(502, {}),
+      jsonResponse(503, { error: { code: "UNAVAILABLE", message: "HSM busy" } }),
+    ]);
+
+    await assert.rejects(makeSigner(fetch).signQuoteHash(QUOTE_HASH), (error: unknown) => {
+      assert.ok(error instanceof RemoteSignerError);
+      assert.equal(error.status, 503);
+      assert.match(error.message, /HTTP 503: HSM busy/);
+      return true;
+    });
+    assert.equal(calls.length, 3);
+  });
+
+  it("does not retry client errors", async () => {
+    const { calls, fetch } = scriptedFetch([
+      jsonResponse(401, { error: { code: "UNAUTHORIZED", message: "Unauthorized" } }),
+    ]);
+
+    await assert.rejects(makeSigner(fetch).signQuoteHash(QUOTE_HASH), /HTTP 401/);
+    assert.equal(calls.length, 1);
+  });
+
+  it("times out each attempt", async () => {
+    const signer = new RemoteQuoteSigner({
+      url: SIGNER_URL,
+      timeoutMs: 20,
+      maxRetries: 1,
+      retryBackoffMs: 1,
+      fetch: hangingFetch,
+    });
+
+    await assert.rejects(signer.signQuoteHash(QUOTE_HASH), /timed out after 20ms/);
+  });
+
+  it("rejects malformed signatures without retrying", async () => {
+    const { calls, fetch } = scriptedFetch([jsonResponse(200, { signature: "0xabc123" })]);
+
+    await assert.rejects(makeSigner(fetch).signQuoteHash(QUOTE_HASH), /malformed signature/);
+    assert.equal(calls.length, 1);
+  });
+
+  it("reads the public key for the configured key id", async () => {
+    const x = `0x${"01".repeat(32)}`;
+    const y = `0x${"02".repeat(32)}`;
+    const { calls, fetch } = scriptedFetch([jsonResponse(200, { key_id: "fpc-operator", x, y })]);
+
+    assert.deepEqual(await makeSigner(fetch, { keyId: "fpc-operator" }).getPublicKey(), { x, y });
+    assert.equal(calls[0]?.url, `${SIGNER_URL}/public-key?key_id=fpc-operator`);
+  });
+
+  it("reports health without throwing", async () => {
+    const healthy = scriptedFetch([jsonResponse(200, { status: "ok" })]);
+    const down = scriptedFetch([new TypeError("connect ECONNREFUSED")]);
+
+    const ok = await makeSigner(healthy.fetch).healthCheck();
+    assert.equal(ok.ok, true);
+    assert.equal(healthy.calls[0]?.url, `${SIGNER_URL}/health`);
+
+    const failed = await makeSigner(down.fetch).healthCheck();
+    assert.equal(failed.ok, false);
+    assert.match(failed.error ?? "", /ECONNREFUSED/);
+    // Health checks are a single probe, not retried.
+    assert.equal(down.calls.length, 1);
+  });
+});
+
+describe("reference signing daemon", () => {
+  let close: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await close?.();
+    close = undefined;
+  });
+
+  async function startDaemon(authToken?: string): Promise<string> {
+    const local = await createLocalQuoteSigner(OPERATOR_SECRET);
+    const app = buildSigningDaemon({ signer: local, keyId: "operator", authToken, logger: false });
+    await app.listen({ port: 0, host: "127.0.0.1" });
+    close = () => app.close();
+    return `http://127.0.0.1:${(app.server.address() as AddressInfo).port}`;
+  }
+
+  it("produces the same signature and public key as the local signer", async () => {
+    const url = await startDaemon("daemon-token");
+    const local = await createLocalQuoteSigner(OPERATOR_SECRET);
+    const remote = new RemoteQuoteSigner({
+      url,
+      keyId: "operator",
+      authToken: "daemon-token",
+      timeoutMs: 2000,
+      maxRetries: 0,
+      retryBackoffMs: 0,
+    });
+
+    assert.equal((await remote.healthCheck()).ok, true);
+    assert.deepEqual(await remote.getPublicKey(), {
+      x: local.publicKey.x.toString(),
+      y: local.publicKey.y.toString(),
+    });
+    assert.equal(await remote.signQuoteHash(QUOTE_HASH), await local.signQuoteHash(QUOTE_HASH));
+  });
+
+  it("rejects requests without the bearer token or for another key", async () => {
+    const url = await startDaemon("daemon-token");
+    const options = { url, timeoutMs: 2000, maxRetries: 0, retryBackoffMs: 0 };
+
+    await assert.rejects(new RemoteQuoteSigner(options).signQuoteHash(QUOTE_HASH), /HTTP 401/);
+    await assert.rejects(
+      new RemoteQuoteSigner({
+        ...options,
+        authToken: "daemon-token",
+        keyId: "other",
+      }).getPublicKey(),
+      /HTTP 404: Unknown key_id: other/,
+    );
+  });
+});
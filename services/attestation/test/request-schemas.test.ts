@@ -4,6 +4,7 @@ import {
   AdminAssetPolicyBodySchema,
   AdminSweepRequestBodySchema,
   ColdStartQuoteRequestQuerySchema,
+  PricePreviewQuerySchema,
   QuoteRequestQuerySchema,
 } from "../src/request-schemas.js";
 
@@ -85,6 +86,42 @@ describe("QuoteRequestQuerySchema", () => {
   });
 });
 
+describe("PricePreviewQuerySchema", () => {
+  it("accepts either fj_amount or both gas limits", () => {
+    const byAmount = PricePreviewQuerySchema.safeParse({
+      accepted_asset: VALID_ADDRESS,
+      fj_amount: "1000000",
+    });
+    expect(byAmount.success).toBe(true);
+
+    const byGas = PricePreviewQuerySchema.safeParse({
+      accepted_asset: VALID_ADDRESS,
+      da_gas_limit: "0",
+      l2_gas_limit: "300000",
+    });
+    expect(byGas.success).toBe(true);
+    if (byGas.success) {
+      expect(byGas.data.l2_gas_limit).toBe(300000n);
+    }
+  });
+
+  it("rejects mixed or incomplete amount inputs", () => {
+    for (const query of [
+      { accepted_asset: VALID_ADDRESS },
+      { accepted_asset: VALID_ADDRESS, l2_gas_limit: "300000" },
+      { accepted_asset: VALID_ADDRESS, fj_amount: "1", da_gas_limit: "1", l2_gas_limit: "1" },
+    ]) {
+      const result = PricePreviewQuerySchema.safeParse(query);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe(
+          "Provide either fj_amount or both da_gas_limit and l2_gas_limit",
+        );
+      }
+    }
+  });
+});
+
 describe("ColdStartQuoteRequestQuerySchema", () => {
   it("parses valid input", () => {
     const result = ColdStartQuoteRequestQuerySchema.safeParse({
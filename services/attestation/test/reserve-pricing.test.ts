@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "#test";
+import {
+  FeeJuiceReserveMonitor,
+  type ReservePricingPoint,
+  reserveSurchargeBips,
+} from "../src/reserve-pricing.js";
+
+const FPC = "0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac";
+const CURVE: ReservePricingPoint[] = [
+  { balance: "1000", surcharge_bips: 300 },
+  { balance: "5000", surcharge_bips: 0 },
+  { balance: "9000", surcharge_bips: -50 },
+];
+
+describe("reserve pricing", () => {
+  it("interpolates the curve and holds its ends", () => {
+    assert.equal(reserveSurchargeBips(CURVE, 0n), 300);
+    assert.equal(reserveSurchargeBips(CURVE, 1000n), 300);
+    assert.equal(reserveSurchargeBips(CURVE, 3000n), 150);
+    assert.equal(reserveSurchargeBips(CURVE, 4999n), 1, "rounds toward the higher surcharge");
+    assert.equal(reserveSurchargeBips(CURVE, 7000n), -25);
+    assert.equal(reserveSurchargeBips(CURVE, 1_000_000n), -50);
+  });
+
+  it("prices an unread or stale reserve as empty", async () => {
+    let nowMs = 0;
+    let balance: bigint | Error = new Error("node unavailable");
+    const monitor = new FeeJuiceReserveMonitor(
+      {
+        fpc_address: FPC,
+        reserve_pricing: { curve: CURVE, refresh_interval_seconds: 30, max_staleness_seconds: 60 },
+      },
+      () => (balance instanceof Error ? Promise.reject(balance) : Promise.resolve(balance)),
+      { nowMs: () => nowMs },
+    );
+
+    assert.equal(monitor.snapshot().status, "pending");
+    await monitor.refresh();
+    assert.equal(monitor.snapshot().status, "error");
+    assert.equal(monitor.snapshot().last_error, "node unavailable");
+    assert.equal(monitor.surchargeBips(), 300);
+
+    balance = 9000n;
+    await monitor.refresh();
+    assert.deepEqual(monitor.snapshot(), {
+      status: "ok",
+      balance: "9000",
+      updated_at: new Date(0).toISOString(),
+      last_error: undefined,
+      surcharge_bips: -50,
+    });
+
+    nowMs = 61_000;
+    assert.equal(monitor.snapshot().status, "stale");
+    assert.equal(monitor.surchargeBips(), 300);
+  });
+});
@@ -1,10 +1,16 @@
 import assert from "node:assert/strict";
-import { rmSync } from "node:fs";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { afterEach, describe, it } from "#test";
+import { hashAdminApiKey } from "../src/admin-keys.js";
 import type { Config } from "../src/config.js";
+import type { L1WithdrawalChain } from "../src/l1-withdrawals.js";
 import type { OperatorTreasuryPort } from "../src/operator-treasury.js";
+import { canonicalQuoteRequest, signQuoteRequest } from "../src/quote-clients.js";
 import { buildServer } from "../src/server.js";
+import { InMemorySharedState } from "../src/shared-state.js";
 import type { QuoteSchnorrSigner } from "../src/signer.js";
 import { computeQuoteHash } from "../src/signer.js";
 
@@ -13,6 +19,9 @@ const DEFAULT_ACCEPTED_ASSET = "0x0000000000000000000000000000000000000000000000
 const SECONDARY_ACCEPTED_ASSET =
   "0x0000000000000000000000000000000000000000000000000000000000000003";
 const VALID_FJ_AMOUNT = "1000000";
+const ADMIN_SECRET_SHA256 = hashAdminApiKey("admin-secret");
+const WALLET_CLIENT_SECRET = "wallet-client-secret-0123456789abcdef";
+const RELAYER_CLIENT_SECRET = "relayer-client-secret-0123456789abcdef";
 const U128_MAX = "340282366920938463463374607431768211455";
 const U128_MAX_PLUS_ONE = "340282366920938463463374607431768211456";
 
@@ -28,11 +37,14 @@ const TEST_CONFIG: Config = {
   runtime_profile: "development",
   network_id: "aztec-alpha-local",
   fpc_address: "0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac",
+  fpc_id: "default",
+  additional_fpcs: [],
   contract_variant: "fpc-v1",
   quote_base_url: undefined,
   aztec_node_url: "http://localhost:8080",
   quote_validity_seconds: 300,
   port: 3000,
+  quote_batch_max_entries: 10,
   supported_assets: [
     {
       address: DEFAULT_ACCEPTED_ASSET,
@@ -48,20 +60,47 @@ const TEST_CONFIG: Config = {
   operator_secret_key_source: "env",
   operator_secret_key_provider: "auto",
   operator_secret_key_dual_source: false,
+  quote_signer: "local",
+  remote_signer_timeout_ms: 2000,
+  remote_signer_max_retries: 2,
+  remote_signer_retry_backoff_ms: 100,
   admin_auth: {
     enabled: false,
-    apiKey: undefined,
+    apiKeySha256: undefined,
     apiKeyHeader: "x-admin-api-key",
+    keysReloadSeconds: 10,
   },
   asset_policy_state_path: ".attestation-asset-policies",
+  asset_policy_schedule_poll_seconds: 5,
+  quote_ledger_state_path: ".attestation-quote-ledger",
+  spending_limits: { user_windows: [], asset_daily: [] },
+  spending_limits_state_path: ".attestation-spending-limits",
+  user_policies: { access_mode: "open", tiers: [], users: [] },
+  user_policy_state_path: ".attestation-user-policies",
+  quote_api_key_state_path: ".attestation-quote-api-keys",
   treasury_destination_address: undefined,
+  treasury_sweeps: [],
+  treasury_sweep_max_attempts: 3,
+  treasury_sweep_retry_delay_seconds: 60,
+  treasury_balance_poll_interval_seconds: 0,
+  treasury_sweep_state_path: ".attestation-treasury-sweeps",
+  l1_rpc_url: undefined,
+  treasury_l1_bridges: [],
+  treasury_l1_destination_address: undefined,
+  treasury_l1_secret_provider: "auto",
+  treasury_l1_withdrawal_state_path: ".attestation-l1-withdrawals",
+  treasury_l1_withdrawal_poll_interval_seconds: 60,
   quote_auth: {
     mode: "disabled",
     apiKey: undefined,
     apiKeyHeader: "x-api-key",
     trustedHeaderName: undefined,
     trustedHeaderValue: undefined,
+    hmacMaxSkewSeconds: 300,
   },
+  tls_cert_file: undefined,
+  tls_key_file: undefined,
+  tls_client_ca_file: undefined,
   quote_rate_limit: {
     enabled: true,
     maxRequests: 60,
@@ -69,6 +108,22 @@ const TEST_CONFIG: Config = {
     maxTrackedKeys: 10000,
   },
   pxe_data_directory: undefined,
+  price_rate_limit_enabled: true,
+  price_rate_limit_max_requests: 300,
+  price_rate_limit_window_seconds: 60,
+  price_feed_refresh_interval_seconds: 30,
+  price_feed_max_staleness_seconds: 300,
+  price_feed_max_deviation_bips: 1000,
+  price_feed_timeout_ms: 5000,
+  settlement_watcher_enabled: true,
+  settlement_poll_interval_seconds: 12,
+  settlement_max_blocks_per_poll: 50,
+  settlement_expiry_grace_seconds: 3600,
+  shared_state_backend: "local",
+  shared_state_url: undefined,
+  shared_state_key_prefix: "fpc-attestation:",
+  shared_state_command_timeout_ms: 1000,
+  shared_state_resync_interval_seconds: 10,
 };
 
 function mockSigner(returnValue = "0xabc123"): QuoteSchnorrSigner {
@@ -114,6 +169,46 @@ function withQuoteRateLimit(
   };
 }
 
+function withQuoteClientsFile(fn: (config: Config) => Promise<void>): Promise<void> {
+  const dir = mkdtempSync(path.join(tmpdir(), "quote-clients-test-"));
+  const clientsFile = path.join(dir, "quote-clients.yaml");
+  writeFileSync(
+    clientsFile,
+    [
+      "clients:",
+      "  - id: wallet",
+      `    hmac_secret: "${WALLET_CLIENT_SECRET}"`,
+      "  - id: relayer",
+      `    hmac_secret: "${RELAYER_CLIENT_SECRET}"`,
+    ].join("\n"),
+  );
+  return fn(withQuoteAuth({ mode: "hmac", clientsFile })).finally(() =>
+    rmSync(dir, { recursive: true, force: true }),
+  );
+}
+
+let signedRequestCount = 0;
+
+function signedQuoteHeaders(
+  clientId: string,
+  secret: string,
+  url: string,
+  overrides: { timestamp?: string; nonce?: string } = {},
+): Record<string, string> {
+  signedRequestCount += 1;
+  const timestamp = overrides.timestamp ?? String(Math.floor(Date.now() / 1000));
+  const nonce = overrides.nonce ?? `test-nonce-${signedRequestCount.toString().padStart(8, "0")}`;
+  return {
+    "x-fpc-client-id": clientId,
+    "x-fpc-timestamp": timestamp,
+    "x-fpc-nonce": nonce,
+    "x-fpc-signature": signQuoteRequest(
+      secret,
+      canonicalQuoteRequest("GET", url, timestamp, nonce),
+    ),
+  };
+}
+
 function mockTreasury(overrides: Partial<OperatorTreasuryPort> = {}): OperatorTreasuryPort {
   return {
     registerSender: async () => undefined,
@@ -127,6 +222,17 @@ function mockTreasury(overrides: Partial<OperatorTreasuryPort> = {}): OperatorTr
       balanceAfter: "0",
       txHash: "0xtesthash",
     }),
+    exitToL1: async ({ acceptedAsset, bridge, recipient, amount }) => ({
+      acceptedAsset,
+      bridge,
+      destination: recipient,
+      sweptAmount: (amount ?? 10n).toString(),
+      balanceBefore: "10",
+      balanceAfter: (10n - (amount ?? 10n)).toString(),
+      txHash: `0x${"cd".repeat(32)}`,
+      l2BlockNumber: 7,
+      messageHash: `0x${"ab".repeat(32)}`,
+    }),
     stop: async () => undefined,
     ...overrides,
   };
@@ -135,6 +241,13 @@ function mockTreasury(overrides: Partial<OperatorTreasuryPort> = {}): OperatorTr
 describe("server", () => {
   afterEach(() => {
     rmSync(TEST_CONFIG.asset_policy_state_path, { recursive: true, force: true });
+    rmSync(TEST_CONFIG.quote_ledger_state_path, { recursive: true, force: true });
+    rmSync(TEST_CONFIG.spending_limits_state_path, { recursive: true, force: true });
+    rmSync(TEST_CONFIG.user_policy_state_path, { recursive: true, force: true });
+    rmSync(TEST_CONFIG.quote_api_key_state_path, { recursive: true, force: true });
+    rmSync(TEST_CONFIG.treasury_sweep_state_path, { recursive: true, force: true });
+    rmSync(TEST_CONFIG.treasury_l1_withdrawal_state_path, { recursive: true, force: true });
+    rmSync(".attestation-fpcs", { recursive: true, force: true });
   });
 
   it("returns health status", async () => {
@@ -149,6 +262,32 @@ describe("server", () => {
     }
   });
 
+  it("reports remote signer health and 503 while it is unreachable", async () => {
+    let signerUp = true;
+    const app = await buildServer(TEST_CONFIG, mockSigner(), {
+      signerHealthCheck: () =>
+        Promise.resolve(
+          signerUp
+            ? { ok: true, latency_ms: 3 }
+            : { ok: false, latency_ms: 50, error: "Remote signer /health timed out after 50ms" },
+        ),
+    });
+
+    try {
+      const healthy = await app.inject({ method: "GET", url: "/health" });
+      assert.equal(healthy.statusCode, 200);
+      assert.deepEqual(healthy.json(), { status: "ok", signer: { ok: true, latency_ms: 3 } });
+
+      signerUp = false;
+      const degraded = await app.inject({ method: "GET", url: "/health" });
+      assert.equal(degraded.statusCode, 503);
+      assert.equal(degraded.json().status, "degraded");
+      assert.match(degraded.json().signer.error, /timed out/);
+    } finally {
+      await app.close();
+    }
+  });
+
   it("returns wallet discovery metadata", async () => {
     const app = await buildServer(TEST_CONFIG, mockSigner());
 
@@ -237,6 +376,98 @@ describe("server", () => {
     }
   });
 
+  it("advertises the previous FPC until its retirement time", async () => {
+    const previousFpc = "0x0000000000000000000000000000000000000000000000000000000000000f9c";
+    let now = 1_700_000_000n;
+    const app = await buildServer(
+      { ...TEST_CONFIG, previous_fpc_address: previousFpc, previous_fpc_retires_at: 1_700_003_600 },
+      mockSigner(),
+      { nowUnixSeconds: () => now },
+    );
+
+    try {
+      const during = await app.inject({ method: "GET", url: "/.well-known/fpc.json" });
+      assert.equal(during.json().fpc_address, TEST_CONFIG.fpc_address);
+      assert.deepEqual(during.json().previous_fpc, {
+        fpc_address: previousFpc,
+        retires_at: 1_700_003_600,
+      });
+
+      now = 1_700_003_600n;
+      const after = await app.inject({ method: "GET", url: "/.well-known/fpc.json" });
+      assert.equal(after.json().previous_fpc, undefined);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("serves additional FPCs under /fpcs/<id> and ?fpc=<id>", async () => {
+    const partnerFpc = "0x0000000000000000000000000000000000000000000000000000000000000fa1";
+    const partnerConfig: Config = {
+      ...TEST_CONFIG,
+      fpc_id: "partner-a",
+      fpc_address: partnerFpc,
+      supported_assets: [{ ...TEST_CONFIG.supported_assets[0], address: SECONDARY_ACCEPTED_ASSET }],
+      asset_policy_state_path: ".attestation-fpcs/partner-a/asset-policies",
+      quote_ledger_state_path: ".attestation-fpcs/partner-a/quote-ledger",
+      spending_limits_state_path: ".attestation-fpcs/partner-a/spending-limits",
+      user_policy_state_path: ".attestation-fpcs/partner-a/user-policies",
+      treasury_sweep_state_path: ".attestation-fpcs/partner-a/treasury-sweeps",
+      treasury_l1_withdrawal_state_path: ".attestation-fpcs/partner-a/l1-withdrawals",
+    };
+    const app = await buildServer(TEST_CONFIG, mockSigner("0xprimary"), {
+      additionalFpcs: [{ config: partnerConfig, quoteSigner: mockSigner("0xpartner") }],
+    });
+
+    try {
+      const root = await app.inject({
+        method: "GET",
+        url: "/.well-known/fpc.json",
+        headers: { host: "attestation.local:3000" },
+      });
+      assert.equal(root.json().fpc_address, TEST_CONFIG.fpc_address);
+      assert.equal(root.json().fpc_id, "default");
+      assert.deepEqual(
+        root.json().fpcs.map((fpc: { id: string; discovery: string }) => [fpc.id, fpc.discovery]),
+        [
+          ["default", "/fpcs/default/.well-known/fpc.json"],
+          ["partner-a", "/fpcs/partner-a/.well-known/fpc.json"],
+        ],
+      );
+
+      const partner = await app.inject({
+        method: "GET",
+        url: "/fpcs/partner-a/.well-known/fpc.json",
+        headers: { host: "attestation.local:3000" },
+      });
+      assert.equal(partner.json().fpc_address, partnerFpc);
+      assert.equal(partner.json().fpc_id, "partner-a");
+      assert.equal(partner.json().quote_base_url, "http://attestation.local:3000/fpcs/partner-a");
+      assert.deepEqual(
+        partner.json().supported_assets.map((asset: { address: string }) => asset.address),
+        [SECONDARY_ACCEPTED_ASSET],
+      );
+
+      const byQuery = await app.inject({
+        method: "GET",
+        url: `${quoteUrl(VALID_USER, VALID_FJ_AMOUNT, SECONDARY_ACCEPTED_ASSET)}&fpc=partner-a`,
+      });
+      assert.equal(byQuery.statusCode, 200);
+      assert.equal(byQuery.json().signature, "0xpartner");
+
+      const wrongAsset = await app.inject({ method: "GET", url: `/fpcs/partner-a${quoteUrl()}` });
+      assert.equal(wrongAsset.statusCode, 400);
+
+      const primary = await app.inject({ method: "GET", url: `/fpcs/default${quoteUrl()}` });
+      assert.equal(primary.json().signature, "0xprimary");
+
+      const unknown = await app.inject({ method: "GET", url: `${quoteUrl()}&fpc=missing` });
+      assert.equal(unknown.statusCode, 404);
+    } finally {
+      await app.close();
+    }
+  });
+
   it("returns accepted-assets list", async () => {
     const app = await buildServer(
       {
@@ -305,6 +536,12 @@ describe("server", () => {
       assert.match(body, /attestation_quote_errors_total\{error_type="bad_request"\} 1/);
       assert.match(body, /attestation_quote_latency_seconds_count\{outcome="success"\} 1/);
       assert.match(body, /attestation_quote_latency_seconds_count\{outcome="bad_request"\} 1/);
+      assert.match(
+        body,
+        new RegExp(
+          `attestation_quotes_issued_total\\{accepted_asset="${DEFAULT_ACCEPTED_ASSET}"\\} 1`,
+        ),
+      );
     } finally {
       await app.close();
     }
@@ -487,40 +724,735 @@ describe("server", () => {
         ],
       },
       {
-        signQuoteHash: (quoteHash) => {
-          calledQuoteHashHex = quoteHash.toString();
-          return Promise.resolve("0xselectedasset");
+        signQuoteHash: (quoteHash) => {
+          calledQuoteHashHex = quoteHash.toString();
+          return Promise.resolve("0xselectedasset");
+        },
+      },
+    );
+
+    try {
+      const response = await app.inject({
+        method: "GET",
+        url: quoteUrl(VALID_USER, VALID_FJ_AMOUNT, SECONDARY_ACCEPTED_ASSET),
+      });
+      assert.equal(response.statusCode, 200);
+      const body = response.json() as {
+        accepted_asset: string;
+        fj_amount: string;
+        aa_payment_amount: string;
+        valid_until: string;
+        signature: string;
+      };
+      assert.equal(body.accepted_asset, SECONDARY_ACCEPTED_ASSET);
+      assert.equal(body.fj_amount, VALID_FJ_AMOUNT);
+      assert.equal(body.aa_payment_amount, "3000");
+      assert.equal(body.signature, "0xselectedasset");
+
+      const expectedHash = await computeQuoteHash({
+        fpcAddress: AztecAddress.fromString(TEST_CONFIG.fpc_address),
+        acceptedAsset: AztecAddress.fromString(SECONDARY_ACCEPTED_ASSET),
+        fjFeeAmount: BigInt(VALID_FJ_AMOUNT),
+        aaPaymentAmount: 3000n,
+        validUntil: BigInt(body.valid_until),
+        userAddress: AztecAddress.fromString(VALID_USER),
+      });
+      assert.equal(calledQuoteHashHex, expectedHash.toString());
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("issues a batch of quotes with per-entry errors", async () => {
+    const unsupportedAsset = "0x0000000000000000000000000000000000000000000000000000000000000009";
+    const app = await buildServer(
+      {
+        ...TEST_CONFIG,
+        quote_batch_max_entries: 3,
+        supported_assets: [
+          TEST_CONFIG.supported_assets[0],
+          {
+            address: SECONDARY_ACCEPTED_ASSET,
+            name: "ravenETH",
+            market_rate_num: 3,
+            market_rate_den: 1000,
+            fee_bips: 0,
+          },
+        ],
+      },
+      mockSigner("0xbatch"),
+    );
+
+    try {
+      const response = await app.inject({
+        method: "POST",
+        url: "/quotes",
+        payload: {
+          user: VALID_USER,
+          quotes: [
+            { accepted_asset: DEFAULT_ACCEPTED_ASSET, fj_amount: VALID_FJ_AMOUNT },
+            { accepted_asset: SECONDARY_ACCEPTED_ASSET, fj_amount: VALID_FJ_AMOUNT },
+            { accepted_asset: unsupportedAsset, fj_amount: VALID_FJ_AMOUNT },
+          ],
+        },
+      });
+      assert.equal(response.statusCode, 200);
+      const body = response.json();
+      assert.equal(body.user, VALID_USER);
+      assert.equal(body.quotes.length, 3);
+      assert.equal(body.quotes[0].aa_payment_amount, "1020");
+      assert.equal(body.quotes[0].signature, "0xbatch");
+      assert.equal(body.quotes[1].aa_payment_amount, "3000");
+      assert.deepEqual(body.quotes[2], {
+        accepted_asset: unsupportedAsset,
+        fj_amount: VALID_FJ_AMOUNT,
+        error: { code: "BAD_REQUEST", message: "Unsupported accepted_asset" },
+      });
+
+      const tooMany = await app.inject({
+        method: "POST",
+        url: "/quotes",
+        payload: {
+          user: VALID_USER,
+          quotes: Array.from({ length: 4 }, () => ({
+            accepted_asset: DEFAULT_ACCEPTED_ASSET,
+            fj_amount: VALID_FJ_AMOUNT,
+          })),
+        },
+      });
+      assert.equal(tooMany.statusCode, 400);
+
+      const metrics = await app.inject({ method: "GET", url: "/metrics" });
+      assert.match(metrics.body, /attestation_quote_requests_total\{outcome="success"\} 2/);
+      assert.match(metrics.body, /attestation_quote_requests_total\{outcome="bad_request"\} 2/);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("charges a batch against the user's windows once, for its largest entry", async () => {
+    const app = await buildServer(
+      {
+        ...withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+        supported_assets: [
+          TEST_CONFIG.supported_assets[0],
+          {
+            address: SECONDARY_ACCEPTED_ASSET,
+            name: "ravenETH",
+            market_rate_num: 3,
+            market_rate_den: 1000,
+            fee_bips: 0,
+          },
+        ],
+      },
+      mockSigner("0xbatch"),
+      { nowUnixSeconds: () => 1_700_000_000n },
+    );
+    const batch = () =>
+      app.inject({
+        method: "POST",
+        url: "/quotes",
+        payload: {
+          user: VALID_USER,
+          quotes: [
+            { accepted_asset: DEFAULT_ACCEPTED_ASSET, fj_amount: VALID_FJ_AMOUNT },
+            { accepted_asset: SECONDARY_ACCEPTED_ASSET, fj_amount: "2000000" },
+          ],
+        },
+      });
+
+    try {
+      const update = await app.inject({
+        method: "PUT",
+        url: "/admin/spending-limits",
+        headers: { "x-admin-api-key": "admin-secret" },
+        payload: { user_windows: [{ window_seconds: 3600, max_fj_amount: "3000000" }] },
+      });
+      assert.equal(update.statusCode, 200);
+
+      const first = (await batch()).json();
+      assert.deepEqual(
+        first.quotes.map((quote: { signature?: string }) => quote.signature),
+        ["0xbatch", "0xbatch"],
+      );
+
+      const second = (await batch()).json();
+      assert.deepEqual(
+        second.quotes.map((quote: { error?: { code: string } }) => quote.error?.code),
+        ["USER_SPENDING_LIMIT_EXCEEDED", "USER_SPENDING_LIMIT_EXCEEDED"],
+      );
+      assert.equal(second.quotes[0].error.details.used_fj_amount, "2000000");
+
+      assert.equal((await app.inject({ method: "GET", url: quoteUrl() })).statusCode, 200);
+
+      const metrics = await app.inject({ method: "GET", url: "/metrics" });
+      assert.match(metrics.body, /attestation_quote_requests_total\{outcome="limit_exceeded"\} 2/);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("charges each asset's daily cap once per batch and restores batches after a restart", async () => {
+    const adminHeaders = { "x-admin-api-key": "admin-secret" };
+    const config = {
+      ...withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+      supported_assets: [
+        TEST_CONFIG.supported_assets[0],
+        {
+          address: SECONDARY_ACCEPTED_ASSET,
+          name: "ravenETH",
+          market_rate_num: 3,
+          market_rate_den: 1000,
+          fee_bips: 0,
+        },
+      ],
+    };
+    const start = () =>
+      buildServer(config, mockSigner("0xbatch"), { nowUnixSeconds: () => 1_700_000_000n });
+    const assetUsage = async (app: Awaited<ReturnType<typeof start>>) =>
+      (
+        await app.inject({ method: "GET", url: "/admin/spending-limits", headers: adminHeaders })
+      ).json().asset_usage;
+    const expectedUsage = [
+      { accepted_asset: DEFAULT_ACCEPTED_ASSET, fj_amount: "2000000" },
+      { accepted_asset: SECONDARY_ACCEPTED_ASSET, fj_amount: "1500000" },
+    ];
+
+    const app = await start();
+    try {
+      const update = await app.inject({
+        method: "PUT",
+        url: "/admin/spending-limits",
+        headers: adminHeaders,
+        payload: {
+          user_windows: [{ window_seconds: 3600, max_fj_amount: "3000000" }],
+          asset_daily: [{ accepted_asset: DEFAULT_ACCEPTED_ASSET, max_fj_amount: "2500000" }],
+        },
+      });
+      assert.equal(update.statusCode, 200);
+
+      const batch = await app.inject({
+        method: "POST",
+        url: "/quotes",
+        payload: {
+          user: VALID_USER,
+          quotes: [
+            { accepted_asset: DEFAULT_ACCEPTED_ASSET, fj_amount: VALID_FJ_AMOUNT },
+            { accepted_asset: DEFAULT_ACCEPTED_ASSET, fj_amount: "2000000" },
+            { accepted_asset: SECONDARY_ACCEPTED_ASSET, fj_amount: "1500000" },
+          ],
+        },
+      });
+      assert.deepEqual(
+        batch.json().quotes.map((quote: { signature?: string }) => quote.signature),
+        ["0xbatch", "0xbatch", "0xbatch"],
+      );
+      assert.deepEqual(await assetUsage(app), expectedUsage);
+    } finally {
+      await app.close();
+    }
+
+    const restarted = await start();
+    try {
+      assert.deepEqual(await assetUsage(restarted), expectedUsage);
+      const overWindow = await restarted.inject({
+        method: "GET",
+        url: quoteUrl(VALID_USER, "1000001"),
+      });
+      assert.equal(overWindow.statusCode, 429);
+      assert.equal(overWindow.json().error.code, "USER_SPENDING_LIMIT_EXCEEDED");
+      assert.equal(overWindow.json().error.details.used_fj_amount, "2000000");
+    } finally {
+      await restarted.close();
+    }
+  });
+
+  it("previews prices without signing, in its own rate-limit bucket", async () => {
+    const app = await buildServer(
+      {
+        ...withQuoteRateLimit({ maxRequests: 1 }),
+        price_rate_limit_max_requests: 2,
+      },
+      failingSigner(),
+      { currentGasFees: async () => ({ feePerDaGas: 2n, feePerL2Gas: 3n }) },
+    );
+
+    try {
+      const byAmount = await app.inject({
+        method: "GET",
+        url: `/price?accepted_asset=${DEFAULT_ACCEPTED_ASSET}&fj_amount=${VALID_FJ_AMOUNT}`,
+      });
+      assert.equal(byAmount.statusCode, 200);
+      assert.deepEqual(byAmount.json(), {
+        accepted_asset: DEFAULT_ACCEPTED_ASSET,
+        fj_amount: VALID_FJ_AMOUNT,
+        market_rate_num: 1,
+        market_rate_den: 1000,
+        fee_bips: 200,
+        rate_num: "10200",
+        rate_den: "10000000",
+        aa_payment_amount: "1020",
+      });
+
+      const byGas = await app.inject({
+        method: "GET",
+        url: `/price?accepted_asset=${DEFAULT_ACCEPTED_ASSET}&da_gas_limit=100000&l2_gas_limit=300000`,
+      });
+      assert.equal(byGas.statusCode, 200);
+      assert.equal(byGas.json().fj_amount, "1100000");
+      assert.equal(byGas.json().aa_payment_amount, "1122");
+      assert.equal(byGas.json().gas.fee_per_l2_gas, "3");
+
+      const priceLimited = await app.inject({
+        method: "GET",
+        url: `/price?accepted_asset=${DEFAULT_ACCEPTED_ASSET}&fj_amount=${VALID_FJ_AMOUNT}`,
+      });
+      assert.equal(priceLimited.statusCode, 429);
+
+      // The /quote bucket is untouched by previews; the signer only fails once /quote runs.
+      const quote = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(quote.statusCode, 500);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("prices quotes from the asset's live price feed", async () => {
+    const app = await buildServer(
+      {
+        ...TEST_CONFIG,
+        supported_assets: [
+          {
+            ...TEST_CONFIG.supported_assets[0],
+            price_feed: { type: "fixed", rate_num: 3, rate_den: 1000 },
+          },
+        ],
+      },
+      mockSigner(),
+    );
+
+    try {
+      const response = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(response.statusCode, 200);
+      assert.equal((response.json() as { aa_payment_amount: string }).aa_payment_amount, "3060");
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("returns 503 when the asset's price feed has no usable rate", async () => {
+    const app = await buildServer(
+      {
+        ...TEST_CONFIG,
+        supported_assets: [
+          {
+            ...TEST_CONFIG.supported_assets[0],
+            price_feed: { type: "file", path: "/nonexistent/price.json", json_path: "price" },
+          },
+        ],
+      },
+      mockSigner(),
+    );
+
+    try {
+      const response = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(response.statusCode, 503);
+      assert.deepEqual(response.json(), {
+        error: {
+          code: "SERVICE_UNAVAILABLE",
+          message: "Price feed error for accepted_asset",
+        },
+      });
+
+      const metrics = await app.inject({ method: "GET", url: "/metrics" });
+      assert.match(
+        metrics.body,
+        /attestation_quote_requests_total\{outcome="price_unavailable"\} 1/,
+      );
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("reports aggregated feed sources and outliers on admin asset policies", async () => {
+    const app = await buildServer(
+      {
+        ...withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+        supported_assets: [
+          {
+            ...TEST_CONFIG.supported_assets[0],
+            price_feed: {
+              type: "aggregate",
+              method: "median",
+              max_outlier_bips: 100,
+              min_sources: 1,
+              twap_window_seconds: 300,
+              sources: [
+                { type: "fixed", name: "a", weight: 1, rate_num: 1, rate_den: 1000 },
+                { type: "fixed", name: "b", weight: 1, rate_num: 1, rate_den: 1000 },
+                { type: "fixed", name: "c", weight: 1, rate_num: 5, rate_den: 1000 },
+              ],
+            },
+          },
+        ],
+      },
+      mockSigner(),
+    );
+
+    try {
+      const response = await app.inject({
+        method: "GET",
+        url: "/admin/asset-policies",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(response.statusCode, 200);
+      const [policy] = response.json() as Array<{
+        live_price: {
+          status: string;
+          aggregation: { sources: Array<{ name: string; status: string }> };
+        };
+      }>;
+      assert.equal(policy.live_price.status, "ok");
+      assert.deepEqual(
+        policy.live_price.aggregation.sources.map(({ name, status }) => [name, status]),
+        [
+          ["a", "used"],
+          ["b", "used"],
+          ["c", "outlier"],
+        ],
+      );
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("enforces admin-configured spending limits with structured rejections", async () => {
+    const app = await buildServer(
+      withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+      mockSigner(),
+      { nowUnixSeconds: () => 1_700_000_000n },
+    );
+
+    try {
+      const update = await app.inject({
+        method: "PUT",
+        url: "/admin/spending-limits",
+        headers: { "x-admin-api-key": "admin-secret" },
+        payload: {
+          max_fj_per_quote: "1500000",
+          user_windows: [{ window_seconds: 3600, max_fj_amount: "2000000" }],
+        },
+      });
+      assert.equal(update.statusCode, 200);
+
+      const tooLarge = await app.inject({ method: "GET", url: quoteUrl(VALID_USER, "1500001") });
+      assert.equal(tooLarge.statusCode, 400);
+      assert.equal(tooLarge.json().error.code, "QUOTE_AMOUNT_LIMIT_EXCEEDED");
+      assert.equal(tooLarge.json().error.details.limit_fj_amount, "1500000");
+
+      assert.equal((await app.inject({ method: "GET", url: quoteUrl() })).statusCode, 200);
+      assert.equal((await app.inject({ method: "GET", url: quoteUrl() })).statusCode, 200);
+
+      const overWindow = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(overWindow.statusCode, 429);
+      assert.equal(overWindow.headers["retry-after"], "3600");
+      assert.deepEqual(overWindow.json(), {
+        error: {
+          code: "USER_SPENDING_LIMIT_EXCEEDED",
+          message: "User Fee Juice limit of 2000000 per 3600s would be exceeded",
+          details: {
+            limit_fj_amount: "2000000",
+            requested_fj_amount: VALID_FJ_AMOUNT,
+            used_fj_amount: "2000000",
+            window_seconds: 3600,
+            retry_after_seconds: 3600,
+          },
+        },
+      });
+
+      const invalid = await app.inject({
+        method: "PUT",
+        url: "/admin/spending-limits",
+        headers: { "x-admin-api-key": "admin-secret" },
+        payload: { user_windows: [{ window_seconds: 60, max_fj_amount: "-1" }] },
+      });
+      assert.equal(invalid.statusCode, 400);
+      assert.match(invalid.json().error.message, /^user_windows\.0\.max_fj_amount: /);
+
+      const current = await app.inject({
+        method: "GET",
+        url: "/admin/spending-limits",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(current.json().limits.max_fj_per_quote, "1500000");
+
+      const metrics = await app.inject({ method: "GET", url: "/metrics" });
+      assert.match(metrics.body, /attestation_quote_requests_total\{outcome="limit_exceeded"\} 2/);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("rejects denied users and prices quotes with the user's tier", async () => {
+    const adminHeaders = { "x-admin-api-key": "admin-secret" };
+    const app = await buildServer(
+      withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+      mockSigner(),
+    );
+
+    try {
+      const baseline = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(baseline.json().aa_payment_amount, "1020");
+
+      const tier = await app.inject({
+        method: "PUT",
+        url: "/admin/user-tiers/partner",
+        headers: adminHeaders,
+        payload: { fee_bips: 0 },
+      });
+      assert.equal(tier.statusCode, 200);
+      const assign = await app.inject({
+        method: "PUT",
+        url: `/admin/users/${VALID_USER}`,
+        headers: adminHeaders,
+        payload: { tier: "partner" },
+      });
+      assert.equal(assign.statusCode, 200);
+
+      const tiered = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(tiered.statusCode, 200);
+      assert.equal(tiered.json().aa_payment_amount, "1000");
+
+      const inUse = await app.inject({
+        method: "DELETE",
+        url: "/admin/user-tiers/partner",
+        headers: adminHeaders,
+      });
+      assert.equal(inUse.statusCode, 409);
+
+      const unknownTier = await app.inject({
+        method: "PUT",
+        url: `/admin/users/${VALID_USER}`,
+        headers: adminHeaders,
+        payload: { tier: "gold" },
+      });
+      assert.equal(unknownTier.statusCode, 400);
+
+      await app.inject({
+        method: "PUT",
+        url: `/admin/users/${VALID_USER}`,
+        headers: adminHeaders,
+        payload: { list: "deny" },
+      });
+      const denied = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(denied.statusCode, 403);
+      assert.equal(denied.json().error.code, "USER_DENIED");
+
+      await app.inject({
+        method: "DELETE",
+        url: `/admin/users/${VALID_USER}`,
+        headers: adminHeaders,
+      });
+      await app.inject({
+        method: "PUT",
+        url: "/admin/user-access",
+        headers: adminHeaders,
+        payload: { access_mode: "allowlist" },
+      });
+      const notAllowlisted = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(notAllowlisted.statusCode, 403);
+
+      const metrics = await app.inject({ method: "GET", url: "/metrics" });
+      assert.match(metrics.body, /attestation_quote_requests_total\{outcome="user_denied"\} 2/);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("records issued quotes in the ledger and serves them to admins", async () => {
+    const app = await buildServer(
+      withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+      mockSigner("0xledgersig"),
+      { nowUnixSeconds: () => 1_700_000_000n },
+    );
+
+    try {
+      const quote = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(quote.statusCode, 200);
+
+      const ledger = await app.inject({
+        method: "GET",
+        url: `/admin/quotes?user=${VALID_USER}&from=1699999999&to=1700000000`,
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(ledger.statusCode, 200);
+      const entries = ledger.json() as Array<Record<string, unknown>>;
+      assert.equal(entries.length, 1);
+
+      const expectedHash = await computeQuoteHash({
+        fpcAddress: AztecAddress.fromString(TEST_CONFIG.fpc_address),
+        acceptedAsset: AztecAddress.fromString(DEFAULT_ACCEPTED_ASSET),
+        fjFeeAmount: BigInt(VALID_FJ_AMOUNT),
+        aaPaymentAmount: 1020n,
+        validUntil: 1_700_000_300n,
+        userAddress: AztecAddress.fromString(VALID_USER),
+      });
+      assert.equal(entries[0].quote_hash, expectedHash.toString());
+      assert.equal(entries[0].kind, "quote");
+      assert.equal(entries[0].aa_payment_amount, "1020");
+      assert.equal(entries[0].issued_at, "1700000000");
+      assert.equal(entries[0].signature, "0xledgersig");
+      assert.equal(entries[0].settlement_status, "unused");
+
+      const settled = await app.inject({
+        method: "GET",
+        url: "/admin/quotes?status=settled",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.deepEqual(settled.json(), []);
+
+      const empty = await app.inject({
+        method: "GET",
+        url: "/admin/quotes?from=1700000001",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.deepEqual(empty.json(), []);
+
+      const invalid = await app.inject({
+        method: "GET",
+        url: "/admin/quotes?from=10&to=5",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(invalid.statusCode, 400);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("applies the reserve pricing surcharge to quotes and reports it", async () => {
+    let reserve = 1_000n;
+    const app = await buildServer(
+      {
+        ...withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+        reserve_pricing: {
+          curve: [
+            { balance: "1000", surcharge_bips: 300 },
+            { balance: "9000", surcharge_bips: -100 },
+          ],
+          refresh_interval_seconds: 30,
+          max_staleness_seconds: 120,
+        },
+      },
+      mockSigner(),
+      {
+        nowUnixSeconds: () => 1_700_000_000n,
+        feeJuiceBalance: () => Promise.resolve(reserve),
+      },
+    );
+
+    try {
+      const drained = await app.inject({ method: "GET", url: quoteUrl() });
+      assert.equal(drained.statusCode, 200);
+      assert.equal(drained.json().aa_payment_amount, "1050");
+      assert.equal(drained.json().reserve_surcharge_bips, 300);
+
+      const ledger = await app.inject({
+        method: "GET",
+        url: "/admin/quotes",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(ledger.json()[0].fee_bips, 500);
+      assert.equal(ledger.json()[0].reserve_surcharge_bips, 300);
+
+      reserve = 9_000n;
+      const status = await app.inject({
+        method: "GET",
+        url: "/admin/reserve-pricing",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(status.json().status, "ok");
+      assert.equal(status.json().balance, "1000", "the balance is only read on the interval");
+
+      const preview = await app.inject({
+        method: "GET",
+        url: `/price?accepted_asset=${DEFAULT_ACCEPTED_ASSET}&fj_amount=${VALID_FJ_AMOUNT}`,
+      });
+      assert.equal(preview.json().fee_bips, 500);
+      assert.equal(preview.json().reserve_surcharge_bips, 300);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("serves the revenue report as JSON and CSV", async () => {
+    const app = await buildServer(
+      withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+      mockSigner(),
+      {
+        nowUnixSeconds: () => 1_700_000_000n,
+        treasury: mockTreasury({
+          getPrivateBalances: async (assets) =>
+            assets.map((address) => ({ address, balance: "42" })),
+        }),
+        topupHistory: {
+          storageLabel: "memory://topup",
+          listBridges: async () => [
+            {
+              amount: "5000000",
+              messageHash: `0x${"ab".repeat(32)}`,
+              submittedAtMs: 1_699_990_000_000,
+            },
+          ],
         },
       },
     );
 
     try {
-      const response = await app.inject({
+      await app.inject({ method: "GET", url: quoteUrl() });
+
+      const json = await app.inject({
         method: "GET",
-        url: quoteUrl(VALID_USER, VALID_FJ_AMOUNT, SECONDARY_ACCEPTED_ASSET),
+        url: "/admin/revenue-report?from=1699920000&period=day",
+        headers: { "x-admin-api-key": "admin-secret" },
       });
-      assert.equal(response.statusCode, 200);
-      const body = response.json() as {
-        accepted_asset: string;
-        fj_amount: string;
-        aa_payment_amount: string;
-        valid_until: string;
-        signature: string;
-      };
-      assert.equal(body.accepted_asset, SECONDARY_ACCEPTED_ASSET);
-      assert.equal(body.fj_amount, VALID_FJ_AMOUNT);
-      assert.equal(body.aa_payment_amount, "3000");
-      assert.equal(body.signature, "0xselectedasset");
+      assert.equal(json.statusCode, 200);
+      const report = json.json();
+      assert.equal(report.to, 1_700_000_000);
+      assert.deepEqual(
+        report.periods.map((bucket: { period_start: number }) => bucket.period_start),
+        [1_699_920_000],
+      );
+      assert.equal(report.totals.assets[0].name, "humanUSDC");
+      assert.equal(report.totals.assets[0].quotes_issued, 1);
+      assert.equal(report.totals.assets[0].quotes_settled, 0);
+      assert.deepEqual(report.totals.topups, { bridges: 1, fj_bridged: "5000000" });
+      assert.deepEqual(report.operator_balances, [
+        { accepted_asset: DEFAULT_ACCEPTED_ASSET, name: "humanUSDC", balance: "42" },
+      ]);
 
-      const expectedHash = await computeQuoteHash({
-        fpcAddress: AztecAddress.fromString(TEST_CONFIG.fpc_address),
-        acceptedAsset: AztecAddress.fromString(SECONDARY_ACCEPTED_ASSET),
-        fjFeeAmount: BigInt(VALID_FJ_AMOUNT),
-        aaPaymentAmount: 3000n,
-        validUntil: BigInt(body.valid_until),
-        userAddress: AztecAddress.fromString(VALID_USER),
+      const csv = await app.inject({
+        method: "GET",
+        url: "/admin/revenue-report?from=1699920000&period=week&format=csv",
+        headers: { "x-admin-api-key": "admin-secret" },
       });
-      assert.equal(calledQuoteHashHex, expectedHash.toString());
+      assert.equal(csv.statusCode, 200);
+      assert.match(csv.headers["content-type"] as string, /^text\/csv/);
+      assert.match(csv.body, /^period_start,period_end,row_type,accepted_asset,name,/);
+      assert.match(csv.body, /,total_topups,/);
+
+      const tooLong = await app.inject({
+        method: "GET",
+        url: "/admin/revenue-report?from=0&period=day",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(tooLong.statusCode, 400);
+
+      const future = await app.inject({
+        method: "GET",
+        url: "/admin/revenue-report?from=1700000001",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(future.statusCode, 400);
     } finally {
       await app.close();
     }
@@ -1016,10 +1948,228 @@ describe("server", () => {
     }
   });
 
+  it("issues, meters and revokes admin-managed quote API keys", async () => {
+    const adminHeaders = { "x-admin-api-key": "admin-secret" };
+    const app = await buildServer(
+      {
+        ...withQuoteAuth({ mode: "api_key" }),
+        admin_auth: { ...TEST_CONFIG.admin_auth, enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 },
+      },
+      mockSigner(),
+      { nowUnixSeconds: () => 1_700_000_000n },
+    );
+
+    try {
+      const created = await app.inject({
+        method: "POST",
+        url: "/admin/quote-api-keys",
+        headers: adminHeaders,
+        payload: {
+          label: "Wallet Inc",
+          request_quota: { max_requests: 3, window_seconds: 60 },
+          fj_budget: { max_fj_amount: "1500000", window_seconds: 3600 },
+        },
+      });
+      assert.equal(created.statusCode, 201);
+      const { id, key } = created.json();
+      assert.equal(created.json().created_by, "env");
+      const keyHeaders = { "x-api-key": key };
+
+      const quote = await app.inject({ method: "GET", url: quoteUrl(), headers: keyHeaders });
+      assert.equal(quote.statusCode, 200);
+      const overBudget = await app.inject({ method: "GET", url: quoteUrl(), headers: keyHeaders });
+      assert.equal(overBudget.statusCode, 429);
+      assert.equal(overBudget.json().error.code, "API_KEY_BUDGET_EXCEEDED");
+      const batch = await app.inject({
+        method: "POST",
+        url: "/quotes",
+        headers: keyHeaders,
+        payload: {
+          user: VALID_USER,
+          quotes: [
+            { accepted_asset: DEFAULT_ACCEPTED_ASSET, fj_amount: "400000" },
+            { accepted_asset: DEFAULT_ACCEPTED_ASSET, fj_amount: "300000" },
+          ],
+        },
+      });
+      assert.equal(
+        batch.json().quotes.filter((q: { signature?: string }) => q.signature).length,
+        2,
+      );
+      const overQuota = await app.inject({ method: "GET", url: quoteUrl(), headers: keyHeaders });
+      assert.equal(overQuota.statusCode, 429);
+      assert.equal(overQuota.json().error.code, "API_KEY_QUOTA_EXCEEDED");
+      assert.equal(overQuota.headers["retry-after"], "40");
+
+      const listed = await app.inject({
+        method: "GET",
+        url: "/admin/quote-api-keys",
+        headers: adminHeaders,
+      });
+      assert.equal(listed.json()[0].usage.requests_total, 3);
+      // Every signed quote counts, including both of the batch's alternatives.
+      assert.equal(listed.json()[0].usage.quotes_total, 3);
+      assert.equal(listed.json()[0].usage.fj_amount_total, "1700000");
+      assert.equal(listed.json()[0].key_sha256, undefined);
+      const metrics = await app.inject({ method: "GET", url: "/metrics" });
+      assert.match(
+        metrics.body,
+        new RegExp(`attestation_quote_api_key_quota_rejections_total\\{key_id="${id}"\\} 1`),
+      );
+
+      const revoked = await app.inject({
+        method: "DELETE",
+        url: `/admin/quote-api-keys/${id}`,
+        headers: adminHeaders,
+      });
+      assert.equal(revoked.json().status, "revoked");
+      const afterRevoke = await app.inject({ method: "GET", url: quoteUrl(), headers: keyHeaders });
+      assert.equal(afterRevoke.statusCode, 401);
+      const missing = await app.inject({
+        method: "DELETE",
+        url: "/admin/quote-api-keys/unknown",
+        headers: adminHeaders,
+      });
+      assert.equal(missing.statusCode, 404);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("disables quote API key admin routes outside the api_key auth modes", async () => {
+    const app = await buildServer(
+      withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+      mockSigner(),
+    );
+
+    try {
+      const response = await app.inject({
+        method: "GET",
+        url: "/admin/quote-api-keys",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(response.statusCode, 503);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("authenticates HMAC-signed quote requests and rejects replays", async () => {
+    await withQuoteClientsFile(async (config) => {
+      const app = await buildServer(config, mockSigner());
+      try {
+        const headers = signedQuoteHeaders("wallet", WALLET_CLIENT_SECRET, quoteUrl());
+        const signed = await app.inject({ method: "GET", url: quoteUrl(), headers });
+        const replayed = await app.inject({ method: "GET", url: quoteUrl(), headers });
+        const tampered = await app.inject({
+          method: "GET",
+          url: quoteUrl(VALID_USER, "2000000"),
+          headers: signedQuoteHeaders("wallet", WALLET_CLIENT_SECRET, quoteUrl()),
+        });
+        const stale = await app.inject({
+          method: "GET",
+          url: quoteUrl(),
+          headers: signedQuoteHeaders("wallet", WALLET_CLIENT_SECRET, quoteUrl(), {
+            timestamp: String(Math.floor(Date.now() / 1000) - 3600),
+          }),
+        });
+        const wrongSecret = await app.inject({
+          method: "GET",
+          url: quoteUrl(),
+          headers: signedQuoteHeaders("wallet", RELAYER_CLIENT_SECRET, quoteUrl()),
+        });
+        const unsigned = await app.inject({ method: "GET", url: quoteUrl() });
+
+        assert.equal(signed.statusCode, 200);
+        assert.equal(replayed.statusCode, 401);
+        assert.equal(tampered.statusCode, 401);
+        assert.equal(stale.statusCode, 401);
+        assert.equal(wrongSecret.statusCode, 401);
+        assert.equal(unsigned.statusCode, 401);
+
+        // Query parameter order is not part of the signature.
+        const reordered = `/quote?fj_amount=${VALID_FJ_AMOUNT}&accepted_asset=${DEFAULT_ACCEPTED_ASSET}&user=${VALID_USER}`;
+        const reorderedResponse = await app.inject({
+          method: "GET",
+          url: reordered,
+          headers: signedQuoteHeaders("wallet", WALLET_CLIENT_SECRET, quoteUrl()),
+        });
+        assert.equal(reorderedResponse.statusCode, 200);
+      } finally {
+        await app.close();
+      }
+    });
+  });
+
+  it("rate limits each HMAC client in its own bucket", async () => {
+    await withQuoteClientsFile(async (config) => {
+      const app = await buildServer(
+        withQuoteRateLimit({ enabled: true, maxRequests: 1, windowSeconds: 60 }, config),
+        mockSigner(),
+      );
+      try {
+        const send = (clientId: string, secret: string) =>
+          app.inject({
+            method: "GET",
+            url: quoteUrl(),
+            headers: signedQuoteHeaders(clientId, secret, quoteUrl()),
+          });
+        const walletFirst = await send("wallet", WALLET_CLIENT_SECRET);
+        const relayerFirst = await send("relayer", RELAYER_CLIENT_SECRET);
+        const walletSecond = await send("wallet", WALLET_CLIENT_SECRET);
+
+        assert.equal(walletFirst.statusCode, 200);
+        assert.equal(relayerFirst.statusCode, 200);
+        assert.equal(walletSecond.statusCode, 429);
+      } finally {
+        await app.close();
+      }
+    });
+  });
+
+  it("shares rate limits and asset policy edits between replicas", async () => {
+    const sharedState = new InMemorySharedState();
+    const config = withQuoteRateLimit(
+      { enabled: true, maxRequests: 2, windowSeconds: 60 },
+      withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+    );
+    const first = await buildServer(config, mockSigner(), { sharedState });
+    const second = await buildServer(config, mockSigner(), { sharedState });
+
+    try {
+      assert.equal((await first.inject({ method: "GET", url: quoteUrl() })).statusCode, 200);
+      assert.equal((await second.inject({ method: "GET", url: quoteUrl() })).statusCode, 200);
+      assert.equal((await first.inject({ method: "GET", url: quoteUrl() })).statusCode, 429);
+
+      const upsert = await first.inject({
+        method: "PUT",
+        url: `/admin/asset-policies/${SECONDARY_ACCEPTED_ASSET}`,
+        headers: { "x-admin-api-key": "admin-secret" },
+        payload: { name: "ravenETH", market_rate_num: 3, market_rate_den: 1000, fee_bips: 25 },
+      });
+      assert.equal(upsert.statusCode, 200);
+
+      const deadline = Date.now() + 2000;
+      let assets: Array<{ address: string }> = [];
+      while (Date.now() < deadline) {
+        assets = (await second.inject({ method: "GET", url: "/accepted-assets" })).json();
+        if (assets.some(({ address }) => address === SECONDARY_ACCEPTED_ASSET)) {
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      assert.ok(assets.some(({ address }) => address === SECONDARY_ACCEPTED_ASSET));
+    } finally {
+      await first.close();
+      await second.close();
+      await sharedState.close();
+    }
+  });
+
   it("allows admin to add a supported asset and immediately quote it", async () => {
     const adminConfig = withAdminAuth({
       enabled: true,
-      apiKey: "admin-secret",
+      apiKeySha256: ADMIN_SECRET_SHA256,
     });
     const app = await buildServer(adminConfig, mockSigner());
 
@@ -1054,7 +2204,7 @@ describe("server", () => {
     const adminConfig = {
       ...withAdminAuth({
         enabled: true,
-        apiKey: "admin-secret",
+        apiKeySha256: ADMIN_SECRET_SHA256,
       }),
       supported_assets: [
         ...TEST_CONFIG.supported_assets,
@@ -1089,10 +2239,204 @@ describe("server", () => {
     }
   });
 
+  it("versions admin asset policy edits and applies scheduled changes", async () => {
+    const adminHeaders = { "x-admin-api-key": "admin-secret" };
+    let now = 1_700_000_000n;
+    const app = await buildServer(
+      {
+        ...withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+        asset_policy_schedule_poll_seconds: 1,
+      },
+      mockSigner(),
+      { nowUnixSeconds: () => now },
+    );
+    const policyUrl = `/admin/asset-policies/${DEFAULT_ACCEPTED_ASSET}`;
+    const currentFeeBips = async () => {
+      const policies = await app.inject({
+        method: "GET",
+        url: "/admin/asset-policies",
+        headers: adminHeaders,
+      });
+      return (policies.json() as { fee_bips: number }[])[0].fee_bips;
+    };
+
+    try {
+      const update = await app.inject({
+        method: "PUT",
+        url: policyUrl,
+        headers: adminHeaders,
+        payload: { name: "humanUSDC", market_rate_num: 1, market_rate_den: 1000, fee_bips: 400 },
+      });
+      assert.equal(update.statusCode, 200);
+
+      const history = await app.inject({
+        method: "GET",
+        url: `${policyUrl}/history`,
+        headers: adminHeaders,
+      });
+      assert.equal(history.statusCode, 200);
+      const [latest, seed] = history.json() as {
+        version: number;
+        actor: string;
+        diff: Record<string, unknown>;
+      }[];
+      assert.equal(latest.version, 2);
+      assert.equal(latest.actor, "env");
+      assert.deepEqual(latest.diff, { fee_bips: { from: 200, to: 400 } });
+      assert.equal(seed.actor, "config");
+
+      const rollback = await app.inject({
+        method: "POST",
+        url: `${policyUrl}/rollback`,
+        headers: adminHeaders,
+        payload: { version: 1 },
+      });
+      assert.equal(rollback.statusCode, 200);
+      assert.equal(await currentFeeBips(), 200);
+      const missing = await app.inject({
+        method: "POST",
+        url: `${policyUrl}/rollback`,
+        headers: adminHeaders,
+        payload: { version: 42 },
+      });
+      assert.equal(missing.statusCode, 404);
+
+      const past = await app.inject({
+        method: "POST",
+        url: `${policyUrl}/scheduled-changes`,
+        headers: adminHeaders,
+        payload: {
+          name: "humanUSDC",
+          market_rate_num: 1,
+          market_rate_den: 1000,
+          fee_bips: 150,
+          effective_at: Number(now),
+        },
+      });
+      assert.equal(past.statusCode, 400);
+      const scheduled = await app.inject({
+        method: "POST",
+        url: `${policyUrl}/scheduled-changes`,
+        headers: adminHeaders,
+        payload: {
+          name: "humanUSDC",
+          market_rate_num: 1,
+          market_rate_den: 1000,
+          fee_bips: 150,
+          effective_at: Number(now) + 3600,
+        },
+      });
+      assert.equal(scheduled.statusCode, 201);
+
+      const discovery = await app.inject({ method: "GET", url: "/accepted-assets" });
+      assert.deepEqual(discovery.json(), [
+        {
+          address: DEFAULT_ACCEPTED_ASSET,
+          name: "humanUSDC",
+          scheduled_changes: [{ effective_at: Number(now) + 3600, fee_bips: 150 }],
+        },
+      ]);
+
+      now += 3600n;
+      const deadline = Date.now() + 5000;
+      while ((await currentFeeBips()) !== 150) {
+        assert.ok(Date.now() < deadline, "scheduled change was not applied");
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      const afterApply = await app.inject({ method: "GET", url: "/accepted-assets" });
+      assert.deepEqual(afterApply.json(), [{ address: DEFAULT_ACCEPTED_ASSET, name: "humanUSDC" }]);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("scopes admin keys by role and records the key id", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "server-admin-keys-"));
+    const keysFile = path.join(dir, "admin-keys.yaml");
+    writeFileSync(
+      keysFile,
+      [
+        "keys:",
+        "  - id: ops",
+        '    roles: ["policy:read", "policy:write"]',
+        `    key_sha256: "${hashAdminApiKey("ops-secret")}"`,
+        "  - id: finance",
+        '    roles: ["treasury:read"]',
+        `    key_sha256: "${hashAdminApiKey("finance-secret")}"`,
+      ].join("\n"),
+    );
+    const app = await buildServer(withAdminAuth({ enabled: true, keysFile }), mockSigner(), {
+      treasury: mockTreasury(),
+    });
+    const policyPayload = {
+      name: "humanUSDC",
+      market_rate_num: 1,
+      market_rate_den: 1000,
+      fee_bips: 300,
+    };
+
+    try {
+      const opsUpdate = await app.inject({
+        method: "PUT",
+        url: `/admin/asset-policies/${DEFAULT_ACCEPTED_ASSET}`,
+        headers: { "x-admin-api-key": "ops-secret" },
+        payload: policyPayload,
+      });
+      assert.equal(opsUpdate.statusCode, 200);
+      const opsSweep = await app.inject({
+        method: "POST",
+        url: "/admin/sweeps",
+        headers: { "x-admin-api-key": "ops-secret" },
+        payload: { accepted_asset: DEFAULT_ACCEPTED_ASSET },
+      });
+      assert.equal(opsSweep.statusCode, 403);
+      assert.equal(
+        (opsSweep.json() as { error: { message: string } }).error.message,
+        "Admin key lacks role treasury:sweep",
+      );
+
+      const financeBalances = await app.inject({
+        method: "GET",
+        url: "/admin/operator-balances",
+        headers: { "x-admin-api-key": "finance-secret" },
+      });
+      assert.equal(financeBalances.statusCode, 200);
+      const financeUpdate = await app.inject({
+        method: "PUT",
+        url: `/admin/asset-policies/${DEFAULT_ACCEPTED_ASSET}`,
+        headers: { "x-admin-api-key": "finance-secret" },
+        payload: policyPayload,
+      });
+      assert.equal(financeUpdate.statusCode, 403);
+      const unknown = await app.inject({
+        method: "GET",
+        url: "/admin/asset-policies",
+        headers: { "x-admin-api-key": "admin-secret" },
+      });
+      assert.equal(unknown.statusCode, 401);
+
+      const history = await app.inject({
+        method: "GET",
+        url: `/admin/asset-policies/${DEFAULT_ACCEPTED_ASSET}/history`,
+        headers: { "x-admin-api-key": "finance-secret" },
+      });
+      assert.equal(history.statusCode, 403);
+      const opsHistory = await app.inject({
+        method: "GET",
+        url: `/admin/asset-policies/${DEFAULT_ACCEPTED_ASSET}/history`,
+        headers: { "x-admin-api-key": "ops-secret" },
+      });
+      assert.equal((opsHistory.json() as { actor: string }[])[0].actor, "ops");
+    } finally {
+      await app.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
   it("returns operator balances from treasury admin endpoint", async () => {
     const adminConfig = withAdminAuth({
       enabled: true,
-      apiKey: "admin-secret",
+      apiKeySha256: ADMIN_SECRET_SHA256,
     });
     const app = await buildServer(adminConfig, mockSigner(), {
       treasury: mockTreasury({
@@ -1130,7 +2474,7 @@ describe("server", () => {
     const adminConfig = {
       ...withAdminAuth({
         enabled: true,
-        apiKey: "admin-secret",
+        apiKeySha256: ADMIN_SECRET_SHA256,
       }),
       treasury_destination_address: destination,
     };
@@ -1171,4 +2515,178 @@ describe("server", () => {
       await app.close();
     }
   });
+
+  it("records manual sweeps and reports sweep schedules", async () => {
+    const destination = "0x1111111111111111111111111111111111111111111111111111111111111111";
+    let failNext = true;
+    const app = await buildServer(
+      {
+        ...withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+        treasury_destination_address: destination,
+        treasury_sweeps: [
+          {
+            accepted_asset: DEFAULT_ACCEPTED_ASSET,
+            mode: "l2",
+            schedule: "0 * * * *",
+            min_balance: "5",
+            threshold: "1",
+          },
+        ],
+      },
+      mockSigner(),
+      {
+        treasury: mockTreasury({
+          sweep: ({ acceptedAsset, destination: requestedDestination, amount }) => {
+            if (failNext) {
+              failNext = false;
+              return Promise.reject(new Error("node unavailable"));
+            }
+            return Promise.resolve({
+              acceptedAsset,
+              destination: requestedDestination,
+              sweptAmount: (amount ?? 10n).toString(),
+              balanceBefore: "10",
+              balanceAfter: "0",
+              txHash: "0xsweep",
+            });
+          },
+        }),
+      },
+    );
+    const headers = { "x-admin-api-key": "admin-secret" };
+
+    try {
+      for (const expectedStatus of [500, 200]) {
+        const response = await app.inject({
+          method: "POST",
+          url: "/admin/sweeps",
+          headers,
+          payload: { accepted_asset: DEFAULT_ACCEPTED_ASSET },
+        });
+        assert.equal(response.statusCode, expectedStatus);
+      }
+
+      const history = await app.inject({ method: "GET", url: "/admin/sweeps?limit=5", headers });
+      assert.equal(history.statusCode, 200);
+      const records = history.json() as Array<Record<string, unknown>>;
+      assert.equal(records.length, 2);
+      assert.ok(records.every((record) => record.trigger === "manual"));
+      assert.deepEqual(records.map((record) => record.status).sort(), ["failed", "succeeded"]);
+      const failed = records.find((record) => record.status === "failed");
+      assert.equal(failed?.error, "node unavailable");
+      assert.equal(failed?.destination, destination);
+
+      const schedules = await app.inject({ method: "GET", url: "/admin/sweep-schedules", headers });
+      assert.equal(schedules.statusCode, 200);
+      const [schedule] = schedules.json() as Array<Record<string, unknown>>;
+      assert.equal(schedule.accepted_asset, DEFAULT_ACCEPTED_ASSET);
+      assert.equal(schedule.destination, destination);
+      assert.equal(schedule.next_attempt, 1);
+
+      const metrics = await app.inject({ method: "GET", url: "/metrics" });
+      assert.match(
+        metrics.body,
+        /attestation_treasury_sweeps_total\{accepted_asset="[^"]+",status="failed"\} 1/,
+      );
+      assert.match(
+        metrics.body,
+        /attestation_operator_private_balance\{accepted_asset="[^"]+"\} 0/,
+      );
+    } finally {
+      await app.close();
+    }
+  });
+
+  it("sweeps to L1 through the token bridge and lists the withdrawal", async () => {
+    const l1Destination = "0x2222222222222222222222222222222222222222";
+    const l1Chain: L1WithdrawalChain = {
+      getMessageWitness: () => Promise.resolve(undefined),
+      getOperatorNonces: () => Promise.resolve({ mined: 0, pending: 0 }),
+      submitClaim: () => Promise.reject(new Error("not proven")),
+      getClaimStatus: () => Promise.resolve("pending"),
+      isClaimed: () => Promise.resolve(false),
+    };
+    const adminConfig: Config = {
+      ...withAdminAuth({ enabled: true, apiKeySha256: ADMIN_SECRET_SHA256 }),
+      l1_rpc_url: "http://localhost:8545",
+      treasury_l1_bridges: [
+        {
+          accepted_asset: DEFAULT_ACCEPTED_ASSET,
+          bridge: "0x0000000000000000000000000000000000000000000000000000000000000b01",
+          portal: "0x00000000000000000000000000000000000000aa",
+        },
+      ],
+      treasury_l1_destination_address: l1Destination,
+    };
+    const headers = { "x-admin-api-key": "admin-secret" };
+
+    const unconfigured = await buildServer(adminConfig, mockSigner(), {
+      treasury: mockTreasury(),
+    });
+    try {
+      const response = await unconfigured.inject({
+        method: "POST",
+        url: "/admin/sweeps",
+        headers,
+        payload: { accepted_asset: DEFAULT_ACCEPTED_ASSET, mode: "l1" },
+      });
+      assert.equal(response.statusCode, 503);
+    } finally {
+      await unconfigured.close();
+    }
+
+    const app = await buildServer(adminConfig, mockSigner(), {
+      treasury: mockTreasury(),
+      l1WithdrawalChain: l1Chain,
+    });
+    try {
+      const badDestination = await app.inject({
+        method: "POST",
+        url: "/admin/sweeps",
+        headers,
+        payload: {
+          accepted_asset: DEFAULT_ACCEPTED_ASSET,
+          mode: "l1",
+          destination: "0x1111111111111111111111111111111111111111111111111111111111111111",
+        },
+      });
+      assert.equal(badDestination.statusCode, 400);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/admin/sweeps",
+        headers,
+        payload: { accepted_asset: DEFAULT_ACCEPTED_ASSET, mode: "l1", amount: "4" },
+      });
+      assert.equal(response.statusCode, 200);
+      const result = response.json() as { destination: string; withdrawalId: string };
+      assert.equal(result.destination, l1Destination);
+
+      const withdrawals = await app.inject({
+        method: "GET",
+        url: "/admin/l1-withdrawals?status=awaiting_proof",
+        headers,
+      });
+      assert.equal(withdrawals.statusCode, 200);
+      const [withdrawal] = withdrawals.json() as Array<Record<string, unknown>>;
+      assert.equal(withdrawal.id, result.withdrawalId);
+      assert.equal(withdrawal.amount, "4");
+      assert.equal(withdrawal.recipient, l1Destination);
+
+      const [record] = (
+        await app.inject({ method: "GET", url: "/admin/sweeps", headers })
+      ).json() as Array<Record<string, unknown>>;
+      assert.equal(record.mode, "l1");
+      assert.equal(record.withdrawal_id, result.withdrawalId);
+
+      const badStatus = await app.inject({
+        method: "GET",
+        url: "/admin/l1-withdrawals?status=lost",
+        headers,
+      });
+      assert.equal(badStatus.statusCode, 400);
+    } finally {
+      await app.close();
+    }
+  });
 });
@@ -0,0 +1,229 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "#test";
+import { AttestationMetrics } from "../src/metrics.js";
+import { LmdbQuoteLedger, type QuoteLedgerEntry } from "../src/quote-ledger.js";
+import {
+  type SettlementBlock,
+  type SettlementChainSource,
+  SettlementWatcher,
+  type SettlementWatcherConfig,
+} from "../src/settlement-watcher.js";
+
+const ASSET = "0x0000000000000000000000000000000000000000000000000000000000000002";
+
+const FPC = "0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac";
+const PREVIOUS_FPC = "0x0000000000000000000000000000000000000000000000000000000000000f9c";
+
+const WATCHER_CONFIG: SettlementWatcherConfig = {
+  fpc_address: FPC,
+  settlement_poll_interval_seconds: 12,
+  settlement_max_blocks_per_poll: 2,
+  settlement_expiry_grace_seconds: 60,
+};
+
+function entry(quoteHash: string, validUntil: string, fpcAddress = FPC): QuoteLedgerEntry {
+  return {
+    quote_hash: quoteHash,
+    kind: "quote",
+    fpc_address: fpcAddress,
+    quote_format: "amount_quote",
+    user: "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72",
+    accepted_asset: ASSET,
+    fj_amount: "1000000",
+    aa_payment_amount: "1020",
+    market_rate_num: 1,
+    market_rate_den: 1000,
+    fee_bips: 200,
+    rate_num: "10200",
+    rate_den: "10000000",
+    issued_at: "1000",
+    valid_until: validUntil,
+    signature: "0xsig",
+    settlement_status: "unused",
+  };
+}
+
+/** In-memory chain whose silo function simply tags the quote hash with the FPC. */
+class FakeChain implements SettlementChainSource {
+  readonly blocks: SettlementBlock[] = [];
+
+  addBlock(timestamp: bigint, quoteHashes: string[] = [], fpcAddress = FPC): void {
+    this.blocks.push({
+      number: this.blocks.length + 1,
+      timestamp,
+      nullifiers: [
+        { nullifier: "0xunrelated", txHash: "0xother" },
+        ...quoteHashes.map((quoteHash) => ({
+          nullifier: `siloed:${fpcAddress}:${quoteHash}`,
+          txHash: `0xtx-${quoteHash}`,
+          transactionFee: "640000",
+        })),
+      ],
+    });
+  }
+
+  getLatestBlockNumber(): Promise<number> {
+    return Promise.resolve(this.blocks.length);
+  }
+
+  getBlock(blockNumber: number): Promise<SettlementBlock | undefined> {
+    return Promise.resolve(this.blocks[blockNumber - 1]);
+  }
+
+  siloQuoteHash(quoteHash: string, fpcAddress: string): Promise<string> {
+    return Promise.resolve(`siloed:${fpcAddress}:${quoteHash}`);
+  }
+}
+
+describe("settlement watcher", () => {
+  let dir: string;
+  let ledger: LmdbQuoteLedger;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "settlement-watcher-test-"));
+    ledger = new LmdbQuoteLedger({ quote_ledger_state_path: path.join(dir, "ledger") });
+  });
+
+  afterEach(async () => {
+    await ledger.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("marks quotes settled when their siloed hash is nullified", async () => {
+    const chain = new FakeChain();
+    chain.addBlock(900n);
+    const metrics = new AttestationMetrics();
+    const watcher = new SettlementWatcher(WATCHER_CONFIG, ledger, chain, { metrics });
+
+    // First poll starts at the current tip without scanning history.
+    assert.deepEqual(await watcher.poll(), { fromBlock: 2, toBlock: 1, settled: 0, expired: 0 });
+
+    await ledger.record(entry("0xaa", "1300"));
+    await ledger.record(entry("0xbb", "1300"));
+    metrics.observeQuoteIssued(ASSET);
+    metrics.observeQuoteIssued(ASSET);
+    chain.addBlock(1010n);
+    chain.addBlock(1020n, ["0xaa"]);
+
+    const result = await watcher.poll();
+    assert.deepEqual(result, { fromBlock: 2, toBlock: 3, settled: 1, expired: 0 });
+    assert.equal(ledger.getSettlementCursor(), 3);
+
+    const settled = ledger.get("0xaa");
+    assert.equal(settled?.settlement_status, "settled");
+    assert.equal(settled?.settled_block, 3);
+    assert.equal(settled?.settled_tx_hash, "0xtx-0xaa");
+    assert.equal(settled?.settled_at, "1020");
+    assert.equal(settled?.settled_fee, "640000");
+    assert.equal(ledger.get("0xbb")?.settlement_status, "unused");
+
+    const body = metrics.renderPrometheus();
+    assert.match(
+      body,
+      new RegExp(`attestation_quotes_settled_total\\{accepted_asset="${ASSET}"\\} 1`),
+    );
+    assert.match(
+      body,
+      new RegExp(`attestation_quote_conversion_ratio\\{accepted_asset="${ASSET}"\\} 0.5`),
+    );
+    assert.match(body, /attestation_settlement_last_block 3/);
+  });
+
+  it("expires unused quotes once chain time passes valid_until plus grace", async () => {
+    const chain = new FakeChain();
+    const watcher = new SettlementWatcher(WATCHER_CONFIG, ledger, chain);
+    await ledger.setSettlementCursor(0);
+    await ledger.record(entry("0xaa", "1000"));
+    await ledger.record(entry("0xbb", "2000"));
+
+    chain.addBlock(1060n);
+    assert.equal((await watcher.poll()).expired, 0);
+
+    chain.addBlock(1061n);
+    assert.equal((await watcher.poll()).expired, 1);
+    assert.equal(ledger.get("0xaa")?.settlement_status, "expired");
+    assert.deepEqual(
+      ledger.listUnsettled().map((e) => e.quote_hash),
+      ["0xbb"],
+    );
+  });
+
+  it("expires lapsed quotes after a restart without waiting for a new block", async () => {
+    const chain = new FakeChain();
+    chain.addBlock(1061n);
+    await ledger.setSettlementCursor(1);
+    await ledger.record(entry("0xaa", "1000"));
+
+    const restarted = new SettlementWatcher(WATCHER_CONFIG, ledger, chain);
+    assert.deepEqual(await restarted.poll(), { fromBlock: 2, toBlock: 1, settled: 0, expired: 1 });
+    assert.equal(ledger.get("0xaa")?.settlement_status, "expired");
+  });
+
+  it("catches up in bounded batches and resumes from the stored cursor", async () => {
+    const chain = new FakeChain();
+    await ledger.setSettlementCursor(0);
+    await ledger.record(entry("0xaa", "5000"));
+    chain.addBlock(1001n);
+    chain.addBlock(1002n);
+    chain.addBlock(1003n, ["0xaa"]);
+
+    const first = new SettlementWatcher(WATCHER_CONFIG, ledger, chain);
+    assert.deepEqual(await first.poll(), { fromBlock: 1, toBlock: 2, settled: 0, expired: 0 });
+
+    const restarted = new SettlementWatcher(WATCHER_CONFIG, ledger, chain);
+    assert.deepEqual(await restarted.poll(), { fromBlock: 3, toBlock: 3, settled: 1, expired: 0 });
+    assert.equal(ledger.get("0xaa")?.settled_block, 3);
+  });
+
+  it("reads unsettled quotes once per poll while catching up", async () => {
+    const chain = new FakeChain();
+    await ledger.setSettlementCursor(0);
+    await ledger.record(entry("0xaa", "5000"));
+    await ledger.record(entry("0xbb", "5000"));
+    chain.addBlock(1001n, ["0xaa"]);
+    chain.addBlock(1002n, ["0xbb"]);
+
+    let reads = 0;
+    const listUnsettled = ledger.listUnsettled.bind(ledger);
+    ledger.listUnsettled = () => {
+      reads += 1;
+      return listUnsettled();
+    };
+
+    const watcher = new SettlementWatcher(WATCHER_CONFIG, ledger, chain);
+    assert.deepEqual(await watcher.poll(), { fromBlock: 1, toBlock: 2, settled: 2, expired: 0 });
+    assert.equal(reads, 1);
+  });
+
+  it("tracks quotes for the previous FPC during a key rotation overlap", async () => {
+    const chain = new FakeChain();
+    const watcher = new SettlementWatcher(
+      { ...WATCHER_CONFIG, previous_fpc_address: PREVIOUS_FPC },
+      ledger,
+      chain,
+    );
+    await ledger.setSettlementCursor(0);
+    await ledger.record(entry("0xaa", "5000", PREVIOUS_FPC));
+    await ledger.record(entry("0xbb", "5000"));
+    // Recorded before entries carried an FPC address: signed for the previous FPC.
+    const { fpc_address: _fpcAddress, ...legacy } = entry("0xcc", "5000");
+    await ledger.record(legacy);
+
+    chain.addBlock(1001n, ["0xaa", "0xcc"], PREVIOUS_FPC);
+    // The same hash nullified by the other FPC must not settle the quote.
+    chain.addBlock(1002n, ["0xbb"], PREVIOUS_FPC);
+    chain.addBlock(1003n, ["0xbb"]);
+
+    const first = await watcher.poll();
+    assert.equal(first.settled, 2);
+    assert.equal(ledger.get("0xaa")?.settled_block, 1);
+    assert.equal(ledger.get("0xcc")?.settled_block, 1);
+    assert.equal(ledger.get("0xbb")?.settlement_status, "unused");
+
+    assert.equal((await watcher.poll()).settled, 1);
+    assert.equal(ledger.get("0xbb")?.settled_block, 3);
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "#test";
+import { SpendingLimiter, type SpendingLimits } from "../src/spending-limits.js";
+
+const USER_A = "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72";
+const USER_B = "0x1111111111111111111111111111111111111111111111111111111111111111";
+const ASSET = "0x0000000000000000000000000000000000000000000000000000000000000002";
+const DAY_START = 1_699_920_000n;
+
+function limiter(limits: Partial<SpendingLimits>): SpendingLimiter {
+  return new SpendingLimiter(() => ({ user_windows: [], asset_daily: [], ...limits }));
+}
+
+function request(user: string, fjAmount: bigint, nowSeconds: bigint) {
+  return { user, acceptedAsset: ASSET, fjAmount, nowSeconds };
+}
+
+describe("spending limiter", () => {
+  it("allows everything when no limits are configured", () => {
+    const unlimited = limiter({});
+    assert.ok(unlimited.reserve(request(USER_A, (1n << 128n) - 1n, DAY_START)).ok);
+  });
+
+  it("rolls the per-user window and reports when the user can retry", () => {
+    const limits = limiter({ user_windows: [{ window_seconds: 100, max_fj_amount: "10" }] });
+    assert.ok(limits.reserve(request(USER_A, 4n, DAY_START)).ok);
+    assert.ok(limits.reserve(request(USER_A, 6n, DAY_START + 50n)).ok);
+    assert.ok(limits.reserve(request(USER_B, 10n, DAY_START + 50n)).ok);
+
+    const blocked = limits.reserve(request(USER_A, 3n, DAY_START + 60n));
+    assert.ok(!blocked.ok);
+    assert.equal(blocked.violation.code, "USER_SPENDING_LIMIT_EXCEEDED");
+    assert.equal(blocked.violation.used_fj_amount, "10");
+    assert.equal(blocked.violation.retry_after_seconds, 40);
+
+    assert.ok(limits.reserve(request(USER_A, 3n, DAY_START + 100n)).ok);
+  });
+
+  it("caps per-asset exposure per UTC day", () => {
+    const limits = limiter({ asset_daily: [{ accepted_asset: ASSET, max_fj_amount: "10" }] });
+    assert.ok(limits.reserve(request(USER_A, 7n, DAY_START + 10n)).ok);
+
+    const blocked = limits.reserve(request(USER_B, 4n, DAY_START + 20n));
+    assert.ok(!blocked.ok);
+    assert.equal(blocked.violation.code, "ASSET_DAILY_LIMIT_EXCEEDED");
+    assert.equal(blocked.violation.retry_after_seconds, 86_380);
+    assert.deepEqual(limits.assetUsage(DAY_START + 20n), [
+      { accepted_asset: ASSET, fj_amount: "7" },
+    ]);
+
+    assert.ok(limits.reserve(request(USER_B, 4n, DAY_START + 86_400n)).ok);
+  });
+
+  it("returns released reservations to the budget", () => {
+    const limits = limiter({
+      max_fj_per_quote: "8",
+      user_windows: [{ window_seconds: 3600, max_fj_amount: "10" }],
+    });
+    const oversized = limits.reserve(request(USER_A, 9n, DAY_START));
+    assert.ok(!oversized.ok);
+    assert.equal(oversized.violation.code, "QUOTE_AMOUNT_LIMIT_EXCEEDED");
+
+    const first = limits.reserve(request(USER_A, 8n, DAY_START));
+    assert.ok(first.ok);
+    assert.ok(!limits.reserve(request(USER_A, 8n, DAY_START)).ok);
+    first.release();
+    assert.ok(limits.reserve(request(USER_A, 8n, DAY_START)).ok);
+  });
+
+  it("still rejects after a restart once rebuilt from the signed quotes", () => {
+    const limits: Partial<SpendingLimits> = {
+      user_windows: [{ window_seconds: 3600, max_fj_amount: "10" }],
+      asset_daily: [{ accepted_asset: ASSET, max_fj_amount: "15" }],
+    };
+    const signed = [
+      { user: USER_A, accepted_asset: ASSET, fj_amount: "4", issued_at: String(DAY_START - 600n) },
+      { user: USER_A, accepted_asset: ASSET, fj_amount: "6", issued_at: String(DAY_START + 100n) },
+      { user: USER_B, accepted_asset: ASSET, fj_amount: "5", issued_at: String(DAY_START + 200n) },
+    ];
+    const now = DAY_START + 300n;
+
+    const restarted = limiter(limits);
+    assert.equal(restarted.historyStartSeconds(now), DAY_START - 3300n);
+    restarted.restore(signed, now);
+
+    const user = restarted.reserve(request(USER_A, 1n, now));
+    assert.ok(!user.ok);
+    assert.equal(user.violation.code, "USER_SPENDING_LIMIT_EXCEEDED");
+    assert.equal(user.violation.used_fj_amount, "10");
+    assert.equal(user.violation.retry_after_seconds, 2700);
+
+    // The spend from the previous UTC day does not count towards today's asset cap.
+    assert.deepEqual(restarted.assetUsage(now), [{ accepted_asset: ASSET, fj_amount: "11" }]);
+    const asset = restarted.reserve(request(USER_B, 5n, now));
+    assert.ok(!asset.ok);
+    assert.equal(asset.violation.code, "ASSET_DAILY_LIMIT_EXCEEDED");
+  });
+
+  it("restores a batch as one charge for its largest entry", () => {
+    const restarted = limiter({ user_windows: [{ window_seconds: 3600, max_fj_amount: "10" }] });
+    const issuedAt = String(DAY_START + 100n);
+    const batch = (fjAmount: string) => ({
+      user: USER_A,
+      accepted_asset: ASSET,
+      fj_amount: fjAmount,
+      issued_at: issuedAt,
+      batch_id: "batch-1",
+    });
+    restarted.restore([batch("3"), batch("6"), batch("4")], DAY_START + 200n);
+
+    assert.deepEqual(restarted.assetUsage(DAY_START + 200n), [
+      { accepted_asset: ASSET, fj_amount: "6" },
+    ]);
+    assert.ok(restarted.reserve(request(USER_A, 4n, DAY_START + 200n)).ok);
+    assert.ok(!restarted.reserve(request(USER_A, 1n, DAY_START + 200n)).ok);
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { open } from "lmdb";
+import { describe, it } from "#test";
+import { LmdbTopupHistory } from "../src/topup-history.js";
+
+const FPC = "0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac";
+
+async function withTopupDir(fn: (dir: string) => Promise<void>) {
+  const dir = mkdtempSync(path.join(tmpdir(), "topup-history-test-"));
+  try {
+    await fn(dir);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe("top-up bridge history", () => {
+  it("lists bridges in range and treats a missing history as empty", async () => {
+    await withTopupDir(async (dir) => {
+      const root = open({ path: dir });
+      await root.put("bridge", { messageHash: "0x01" });
+      const history = new LmdbTopupHistory({ fpc_address: FPC, topup_data_dir: dir });
+      assert.deepEqual(await history.listBridges(0, 10), []);
+
+      const bridges = root.openDB({ name: "bridge_history" });
+      for (const [submittedAtMs, byte] of [
+        [1_000, "01"],
+        [5_500, "02"],
+        [11_000, "03"],
+      ] as const) {
+        await bridges.put([submittedAtMs, `0x${byte.repeat(32)}`], {
+          amount: "100",
+          messageHash: `0x${byte.repeat(32)}`,
+          submittedAtMs,
+        });
+      }
+      await root.close();
+
+      assert.deepEqual(
+        (await history.listBridges(1, 10)).map((bridge) => bridge.submittedAtMs),
+        [1_000, 5_500],
+      );
+    });
+  });
+
+  it("rejects malformed bridge records", async () => {
+    await withTopupDir(async (dir) => {
+      const root = open({ path: dir });
+      await root.openDB({ name: "bridge_history" }).put([2_000, "0xbad"], { amount: "-1" });
+      await root.close();
+
+      await assert.rejects(
+        new LmdbTopupHistory({ fpc_address: FPC, topup_data_dir: dir }).listBridges(0, 10),
+        /Top-up bridge history is malformed \(lmdb:\/\/.*, 0xbad\): amount/,
+      );
+    });
+  });
+
+  it("lists only the bridges recorded for this FPC", async () => {
+    await withTopupDir(async (dir) => {
+      const root = open({ path: dir });
+      const bridges = root.openDB({ name: "bridge_history" });
+      for (const [submittedAtMs, byte, fpcAddress] of [
+        [1_000, "01", undefined],
+        [2_000, "02", FPC.toUpperCase().replace("0X", "0x")],
+        [3_000, "03", `0x${"0b".repeat(32)}`],
+      ] as const) {
+        await bridges.put([submittedAtMs, `0x${byte.repeat(32)}`], {
+          amount: "100",
+          messageHash: `0x${byte.repeat(32)}`,
+          submittedAtMs,
+          ...(fpcAddress && { target: "t", fpcAddress }),
+        });
+      }
+      await root.close();
+
+      const history = new LmdbTopupHistory({ fpc_address: FPC, topup_data_dir: dir });
+      assert.deepEqual(
+        (await history.listBridges(0, 10)).map((bridge) => bridge.submittedAtMs),
+        [1_000, 2_000],
+      );
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "#test";
+import { AttestationMetrics } from "../src/metrics.js";
+import type { OperatorTreasuryPort } from "../src/operator-treasury.js";
+import {
+  LmdbTreasurySweepHistory,
+  TreasurySweepScheduler,
+  type TreasurySweepSchedulerConfig,
+} from "../src/treasury-sweeps.js";
+
+const ASSET = "0x0000000000000000000000000000000000000000000000000000000000000002";
+const DESTINATION = "0x1111111111111111111111111111111111111111111111111111111111111111";
+const START_MS = Date.parse("2026-03-01T10:00:00Z");
+
+function schedulerConfig(
+  overrides: Partial<TreasurySweepSchedulerConfig> = {},
+): TreasurySweepSchedulerConfig {
+  return {
+    treasury_sweeps: [
+      {
+        accepted_asset: ASSET,
+        mode: "l2",
+        schedule: "0 * * * *",
+        min_balance: "100",
+        threshold: "50",
+      },
+    ],
+    treasury_destination_address: DESTINATION,
+    treasury_l1_destination_address: undefined,
+    treasury_sweep_max_attempts: 2,
+    treasury_sweep_retry_delay_seconds: 60,
+    treasury_balance_poll_interval_seconds: 0,
+    ...overrides,
+  };
+}
+
+function fakeTreasury(balance: { value: bigint }, failures: { remaining: number }) {
+  const sweeps: Array<{ amount?: bigint; destination: string }> = [];
+  const treasury: OperatorTreasuryPort = {
+    registerSender: async () => undefined,
+    getPrivateBalances: async (assets) =>
+      assets.map((address) => ({ address, balance: balance.value.toString() })),
+    sweep: ({ acceptedAsset, amount, destination }) => {
+      if (failures.remaining > 0) {
+        failures.remaining -= 1;
+        return Promise.reject(new Error("node unavailable"));
+      }
+      const before = balance.value;
+      balance.value -= amount ?? before;
+      sweeps.push({ amount, destination });
+      return Promise.resolve({
+        acceptedAsset,
+        destination,
+        sweptAmount: (amount ?? before).toString(),
+        balanceBefore: before.toString(),
+        balanceAfter: balance.value.toString(),
+        txHash: `0xsweep${sweeps.length}`,
+      });
+    },
+    exitToL1: () => Promise.reject(new Error("L1 exits are not expected")),
+    stop: async () => undefined,
+  };
+  return { treasury, sweeps };
+}
+
+async function withHistory(fn: (history: LmdbTreasurySweepHistory) => Promise<void>) {
+  const dir = mkdtempSync(path.join(tmpdir(), "treasury-sweeps-test-"));
+  const history = new LmdbTreasurySweepHistory({ treasury_sweep_state_path: dir });
+  try {
+    await fn(history);
+  } finally {
+    await history.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe("treasury sweep scheduler", () => {
+  it("sweeps the surplus above min_balance when due and skips small surpluses", async () => {
+    await withHistory(async (history) => {
+      let now = START_MS;
+      const balance = { value: 1000n };
+      const { treasury, sweeps } = fakeTreasury(balance, { remaining: 0 });
+      const metrics = new AttestationMetrics();
+      const scheduler = new TreasurySweepScheduler(schedulerConfig(), treasury, history, {
+        balanceAssets: () => [ASSET],
+        metrics,
+        nowMs: () => now,
+      });
+
+      await scheduler.tick();
+      assert.equal(sweeps.length, 0, "not due before the first scheduled minute");
+
+      now = Date.parse("2026-03-01T11:00:05Z");
+      await scheduler.tick();
+      assert.deepEqual(sweeps, [{ amount: 900n, destination: DESTINATION }]);
+      assert.equal(scheduler.status()[0].next_run_at, Date.parse("2026-03-01T12:00:00Z") / 1000);
+
+      balance.value += 40n;
+      now = Date.parse("2026-03-01T12:00:05Z");
+      await scheduler.tick();
+      assert.equal(sweeps.length, 1, "a surplus of 40 is below the threshold of 50");
+
+      const [record] = history.query({});
+      assert.equal(record.trigger, "scheduled");
+      assert.equal(record.status, "succeeded");
+      assert.equal(record.amount, "900");
+      assert.equal(record.balance_after, "100");
+      const rendered = metrics.renderPrometheus();
+      assert.match(
+        rendered,
+        new RegExp(`attestation_operator_private_balance\\{accepted_asset="${ASSET}"\\} 140`),
+      );
+      assert.match(rendered, /attestation_treasury_sweeps_total\{.*status="succeeded"\} 1/);
+    });
+  });
+
+  it("retries failed sweeps, then waits for the next scheduled run", async () => {
+    await withHistory(async (history) => {
+      let now = START_MS;
+      const { treasury, sweeps } = fakeTreasury({ value: 1000n }, { remaining: 3 });
+      const scheduler = new TreasurySweepScheduler(schedulerConfig(), treasury, history, {
+        balanceAssets: () => [ASSET],
+        nowMs: () => now,
+      });
+      const tickAt = async (iso: string) => {
+        now = Date.parse(iso);
+        await scheduler.tick();
+      };
+
+      await tickAt("2026-03-01T11:00:05Z");
+      assert.equal(scheduler.status()[0].next_attempt, 2);
+      await tickAt("2026-03-01T11:01:05Z");
+      assert.equal(scheduler.status()[0].next_attempt, 1, "gives up after max attempts");
+      assert.equal(scheduler.status()[0].next_run_at, Date.parse("2026-03-01T12:00:00Z") / 1000);
+
+      await tickAt("2026-03-01T12:00:05Z");
+      await tickAt("2026-03-01T12:01:05Z");
+      assert.equal(sweeps.length, 1);
+
+      const records = history.query({ acceptedAsset: ASSET });
+      assert.deepEqual(
+        records.map((record) => [record.status, record.attempt]),
+        [
+          ["succeeded", 2],
+          ["failed", 1],
+          ["failed", 2],
+          ["failed", 1],
+        ],
+      );
+      assert.equal(records[1].error, "node unavailable");
+    });
+  });
+});
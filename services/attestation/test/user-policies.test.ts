@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "#test";
+import type { SupportedAssetPolicy } from "../src/config.js";
+import { applyUserTier, classifyUser, type UserTier } from "../src/user-policies.js";
+
+const USER = "0x089323ce9a610e9f013b661ce80dde444b554e9f6ed9f5167adb234668f0af72";
+const ASSET = "0x0000000000000000000000000000000000000000000000000000000000000002";
+const OTHER_ASSET = "0x0000000000000000000000000000000000000000000000000000000000000003";
+
+const POLICY: SupportedAssetPolicy = {
+  address: ASSET,
+  name: "humanUSDC",
+  market_rate_num: 1,
+  market_rate_den: 1000,
+  fee_bips: 200,
+};
+
+describe("user policies", () => {
+  it("lets the denylist win and gates allowlist mode on list membership", () => {
+    const tier: UserTier = { name: "partner", fee_bips: 0, assets: [] };
+
+    assert.deepEqual(classifyUser("open", undefined, undefined), { allowed: true });
+    assert.deepEqual(classifyUser("open", { address: USER, tier: "partner" }, tier), {
+      allowed: true,
+      tier,
+    });
+    assert.deepEqual(classifyUser("open", { address: USER, list: "deny" }, undefined), {
+      allowed: false,
+      reason: "denylisted",
+    });
+    assert.deepEqual(classifyUser("allowlist", { address: USER, tier: "partner" }, tier), {
+      allowed: false,
+      reason: "not_allowlisted",
+    });
+    assert.deepEqual(classifyUser("allowlist", { address: USER, list: "allow" }, undefined), {
+      allowed: true,
+    });
+  });
+
+  it("applies per-asset overrides before the tier default", () => {
+    const tier: UserTier = {
+      name: "partner",
+      rate_multiplier_bips: 9000,
+      assets: [{ accepted_asset: OTHER_ASSET, fee_bips: 50 }],
+    };
+
+    assert.equal(applyUserTier(POLICY, undefined), POLICY);
+    assert.deepEqual(applyUserTier(POLICY, tier), {
+      ...POLICY,
+      market_rate_num: 9,
+      market_rate_den: 10000,
+    });
+    assert.deepEqual(applyUserTier({ ...POLICY, address: OTHER_ASSET }, tier), {
+      ...POLICY,
+      address: OTHER_ASSET,
+      fee_bips: 50,
+    });
+  });
+});
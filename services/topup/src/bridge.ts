@@ -7,12 +7,32 @@ const pinoLogger = pino();
  */
 
 import type { AztecAddress } from "@aztec/aztec.js/addresses";
-import { L1FeeJuicePortalManager, type L2AmountClaim } from "@aztec/aztec.js/ethereum";
+import {
+  generateClaimSecret,
+  L1FeeJuicePortalManager,
+  type L2AmountClaim,
+} from "@aztec/aztec.js/ethereum";
 import type { AztecNode } from "@aztec/aztec.js/node";
 import { createExtendedL1Client } from "@aztec/ethereum/client";
 import { createLogger, type Logger } from "@aztec/foundation/log";
-import { type Chain, extractChain, type Hex } from "viem";
+import {
+  type Chain,
+  encodeFunctionData,
+  extractChain,
+  type Hex,
+  isAddressEqual,
+  parseAbi,
+  parseEventLogs,
+  type TransactionReceipt,
+} from "viem";
 import * as viemChains from "viem/chains";
+import {
+  createManagedL1Transactions,
+  type GasPolicy,
+  type L1TransactionJournal,
+  type ManagedL1Client,
+} from "./gas.js";
+import type { BridgeStateStore, PersistedBridgeDeposit } from "./state.js";
 
 export interface BridgeResult {
   amount: bigint;
@@ -21,6 +41,25 @@ export interface BridgeResult {
   messageHash: Hex;
   messageLeafIndex: bigint;
   submittedAtMs: number;
+  /** Mined deposit transaction and its nonce, when the bridge ran under a fee policy. */
+  l1TxHash?: Hex;
+  l1Nonce?: number;
+}
+
+export interface BridgeOptions {
+  /**
+   * Prices, signs and replaces the bridge's L1 transactions, persisting each
+   * in `deposits` before it is broadcast. Without it the portal manager's
+   * default pricing applies.
+   */
+  feeManagement?: {
+    policy: GasPolicy;
+    deposits: Pick<BridgeStateStore, "writeDeposit" | "clearDeposit">;
+    /** Balance the bridge is confirmed against, persisted with its deposit. */
+    baselineBalance: bigint;
+    /** Bridge even when gas is above `max_fee_per_gas`, for a critical target. */
+    allowAboveCap?: boolean;
+  };
 }
 
 type ExtendedWalletClient = Parameters<typeof L1FeeJuicePortalManager.new>[1];
@@ -70,6 +109,7 @@ export interface BridgeDeps {
   createPortalManager: CreatePortalManager;
   createLogger: () => Logger;
   chains: readonly Chain[];
+  generateClaimSecret: typeof generateClaimSecret;
 }
 
 const DEFAULT_BRIDGE_DEPS: BridgeDeps = {
@@ -77,36 +117,136 @@ const DEFAULT_BRIDGE_DEPS: BridgeDeps = {
   createPortalManager,
   createLogger: makeBridgeLogger,
   chains: Object.values(viemChains),
+  generateClaimSecret,
 };
 
-/**
- * Bridge `amount` wei of Fee Juice from L1 to the FPC's L2 address.
- */
-export async function bridgeFeeJuice(
-  node: AztecNode,
+const ERC20_ABI = parseAbi(["function approve(address spender, uint256 amount) returns (bool)"]);
+const FEE_JUICE_PORTAL_ABI = parseAbi([
+  "function depositToAztecPublic(bytes32 to, uint256 amount, bytes32 secretHash) returns (bytes32, uint256)",
+  "event DepositToAztecPublic(bytes32 indexed to, uint256 amount, bytes32 secretHash, bytes32 key, uint256 index)",
+]);
+
+const gasLogger = {
+  log: (message: string) => pinoLogger.info(message),
+  warn: (message: string) => pinoLogger.warn(message),
+};
+
+function createL1Client(
+  deps: BridgeDeps,
   l1RpcUrl: string,
   l1ChainId: number,
   privateKey: string,
+): ExtendedWalletClient {
+  const chain = extractChain({ chains: deps.chains as readonly Chain[], id: l1ChainId });
+  return deps.createExtendedL1Client([l1RpcUrl], privateKey as Hex, chain) as ExtendedWalletClient;
+}
+
+type DepositClaim = Pick<
+  PersistedBridgeDeposit,
+  "claimSecret" | "claimSecretHash" | "submittedAtMs"
+>;
+
+/** Reads the L1-to-L2 message a mined deposit to `portal` sent. */
+function depositResult(
+  claim: DepositClaim,
+  portal: Hex,
+  nonce: number,
+  receipt: TransactionReceipt,
+): BridgeResult {
+  const [event] = parseEventLogs({
+    abi: FEE_JUICE_PORTAL_ABI,
+    eventName: "DepositToAztecPublic",
+    logs: receipt.logs,
+  }).filter((log) => isAddressEqual(log.address, portal));
+  if (!event) {
+    throw new Error(
+      `Bridge deposit ${receipt.transactionHash} emitted no DepositToAztecPublic event`,
+    );
+  }
+  return {
+    amount: event.args.amount,
+    claimSecret: claim.claimSecret,
+    claimSecretHash: claim.claimSecretHash,
+    messageHash: event.args.key,
+    messageLeafIndex: event.args.index,
+    submittedAtMs: claim.submittedAtMs,
+    l1TxHash: receipt.transactionHash,
+    l1Nonce: nonce,
+  };
+}
+
+/**
+ * Approves and deposits through the Fee Juice portal directly, so the claim
+ * secret is generated here and persisted with each transaction before it is
+ * broadcast. A restart can then finish the deposit with
+ * `resumeBridgeDeposit` instead of losing the secret.
+ */
+async function bridgeWithFeeManagement(
+  node: AztecNode,
+  client: ManagedL1Client,
   fpcL2Address: AztecAddress,
   amount: bigint,
-  depsOverride: Partial<BridgeDeps> = {},
+  feeManagement: NonNullable<BridgeOptions["feeManagement"]>,
+  deps: BridgeDeps,
 ): Promise<BridgeResult> {
-  if (fpcL2Address.isZero()) {
-    throw new Error("Invalid fpc_address: zero address is not allowed");
+  const { policy, deposits, baselineBalance, allowAboveCap } = feeManagement;
+  const { l1ContractAddresses } = await node.getNodeInfo();
+  const portal = l1ContractAddresses.feeJuicePortalAddress.toString() as Hex;
+  const [claimSecret, claimSecretHash] = await deps.generateClaimSecret();
+  const claim: DepositClaim = {
+    claimSecret: claimSecret.toString(),
+    claimSecretHash: claimSecretHash.toString(),
+    submittedAtMs: Date.now(),
+  };
+  const journal =
+    (step: PersistedBridgeDeposit["step"]): L1TransactionJournal =>
+    (transaction) =>
+      deposits.writeDeposit({
+        ...claim,
+        baselineBalance: baselineBalance.toString(),
+        amount: amount.toString(),
+        step,
+        transaction,
+      });
+  const managed = createManagedL1Transactions(client, policy, {
+    allowAboveCap,
+    logger: gasLogger,
+  });
+
+  const approval = await managed.send(
+    {
+      to: l1ContractAddresses.feeJuiceAddress.toString() as Hex,
+      data: encodeFunctionData({ abi: ERC20_ABI, functionName: "approve", args: [portal, amount] }),
+    },
+    journal("approve"),
+  );
+  if (approval.receipt.status !== "success") {
+    await deposits.clearDeposit(claim.claimSecretHash);
+    throw new Error(`Fee Juice approval ${approval.receipt.transactionHash} reverted`);
   }
-  if (amount <= 0n) {
-    throw new Error("Invalid top_up_amount: amount must be greater than zero");
+  const deposit = await managed.send(
+    {
+      to: portal,
+      data: encodeFunctionData({
+        abi: FEE_JUICE_PORTAL_ABI,
+        functionName: "depositToAztecPublic",
+        args: [fpcL2Address.toString() as Hex, amount, claim.claimSecretHash as Hex],
+      }),
+    },
+    journal("deposit"),
+  );
+  if (deposit.receipt.status !== "success") {
+    await deposits.clearDeposit(claim.claimSecretHash);
+    throw new Error(`Bridge deposit ${deposit.receipt.transactionHash} reverted`);
   }
+  return depositResult(claim, portal, deposit.nonce, deposit.receipt);
+}
 
-  const deps: BridgeDeps = { ...DEFAULT_BRIDGE_DEPS, ...depsOverride };
-  const chain = extractChain({ chains: deps.chains as readonly Chain[], id: l1ChainId });
-  const logger = deps.createLogger();
-  const extendedClient = deps.createExtendedL1Client(
-    [l1RpcUrl],
-    privateKey as Hex,
-    chain,
-  ) as ExtendedWalletClient;
-  const portalManager = await deps.createPortalManager(node, extendedClient, logger);
+async function bridgeThroughPortalManager(
+  portalManager: FeeJuicePortalManagerLike,
+  fpcL2Address: AztecAddress,
+  amount: bigint,
+): Promise<BridgeResult> {
   let lastError: unknown;
   let claim: L2AmountClaim | undefined;
 
@@ -148,3 +288,84 @@ export async function bridgeFeeJuice(
     submittedAtMs: Date.now(),
   };
 }
+
+/**
+ * Bridge `amount` wei of Fee Juice from L1 to the FPC's L2 address.
+ */
+export async function bridgeFeeJuice(
+  node: AztecNode,
+  l1RpcUrl: string,
+  l1ChainId: number,
+  privateKey: string,
+  fpcL2Address: AztecAddress,
+  amount: bigint,
+  options: BridgeOptions = {},
+  depsOverride: Partial<BridgeDeps> = {},
+): Promise<BridgeResult> {
+  if (fpcL2Address.isZero()) {
+    throw new Error("Invalid fpc_address: zero address is not allowed");
+  }
+  if (amount <= 0n) {
+    throw new Error("Invalid top_up_amount: amount must be greater than zero");
+  }
+
+  const deps: BridgeDeps = { ...DEFAULT_BRIDGE_DEPS, ...depsOverride };
+  const extendedClient = createL1Client(deps, l1RpcUrl, l1ChainId, privateKey);
+  if (options.feeManagement) {
+    return bridgeWithFeeManagement(
+      node,
+      extendedClient,
+      fpcL2Address,
+      amount,
+      options.feeManagement,
+      deps,
+    );
+  }
+  const portalManager = await deps.createPortalManager(node, extendedClient, deps.createLogger());
+  return bridgeThroughPortalManager(portalManager, fpcL2Address, amount);
+}
+
+/**
+ * Picks up a bridge an earlier run left with an L1 transaction in flight and
+ * speeds it up until mined. A mined deposit is written to `stateStore` as an
+ * in-flight bridge, for reconciliation to adopt, and returned. An approval,
+ * a reverted deposit or one whose nonce another transaction took is dropped:
+ * no Fee Juice left the wallet, so a later cycle bridges afresh. Replacements
+ * ignore `max_fee_per_gas`, since every later transaction waits behind the
+ * nonce.
+ */
+export async function resumeBridgeDeposit(
+  l1RpcUrl: string,
+  l1ChainId: number,
+  privateKey: string,
+  deposit: PersistedBridgeDeposit,
+  options: {
+    policy: GasPolicy;
+    stateStore: Pick<BridgeStateStore, "write" | "writeDeposit" | "clearDeposit">;
+  },
+  depsOverride: Partial<BridgeDeps> = {},
+): Promise<BridgeResult | undefined> {
+  const { stateStore } = options;
+  const deps: BridgeDeps = { ...DEFAULT_BRIDGE_DEPS, ...depsOverride };
+  const client = createL1Client(deps, l1RpcUrl, l1ChainId, privateKey);
+  const managed = createManagedL1Transactions(client, options.policy, {
+    allowAboveCap: true,
+    logger: gasLogger,
+  });
+  const { transaction } = deposit;
+
+  const receipt = await managed.resume(transaction, (pending) =>
+    stateStore.writeDeposit({ ...deposit, transaction: pending }),
+  );
+  if (deposit.step === "approve" || receipt?.status !== "success") {
+    const outcome = receipt ? `${deposit.step}_${receipt.status}` : "superseded";
+    pinoLogger.warn(
+      `Dropping bridge that stopped before its deposit was mined claim_secret_hash=${deposit.claimSecretHash} nonce=${transaction.nonce} outcome=${outcome}`,
+    );
+    await stateStore.clearDeposit(deposit.claimSecretHash);
+    return undefined;
+  }
+  const result = depositResult(deposit, transaction.to, transaction.nonce, receipt);
+  await stateStore.write(BigInt(deposit.baselineBalance), result);
+  return result;
+}
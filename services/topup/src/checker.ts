@@ -1,15 +1,27 @@
 import type { BridgeResult } from "./bridge.js";
 import type { BridgeConfirmationResult } from "./confirm.js";
+import { assessThreshold, type TopupAssessment, type TopupForecast } from "./forecast.js";
 
 export interface TopupCheckerConfig {
   threshold: bigint;
   topUpAmount: bigint;
   logClaimSecret?: boolean;
+  /** Bridges allowed in flight at once; defaults to one. */
+  maxInFlight?: number;
+  /** Below this balance a bridge goes ahead even when L1 gas is above the cap. */
+  criticalThreshold?: bigint;
+}
+
+export interface BridgeRequestOptions {
+  /** The target is critically low, so the L1 gas cap does not apply. */
+  critical: boolean;
+  /** Balance the bridge will be confirmed against. */
+  baselineBalance: bigint;
 }
 
 export interface TopupCheckerDependencies {
   getBalance: () => Promise<bigint>;
-  bridge: (amount: bigint) => Promise<BridgeResult>;
+  bridge: (amount: bigint, options: BridgeRequestOptions) => Promise<BridgeResult>;
   confirm: (
     baselineBalance: bigint,
     bridgeResult: BridgeResult,
@@ -21,39 +33,65 @@ export interface TopupCheckerDependencies {
     confirmation: BridgeConfirmationResult,
   ) => Promise<void> | void;
   onBridgeFailed?: (error: unknown) => Promise<void> | void;
+  /** Replaces the plain threshold rule with a burn-rate forecast. */
+  forecast?: Pick<TopupForecast, "assess">;
   logger?: Pick<Console, "log" | "warn" | "error">;
 }
 
 export interface TopupChecker {
   checkAndTopUp: () => Promise<void>;
+  /**
+   * Whether a bridge is due at `balance`, and for how much. Amounts still in
+   * flight count towards the balance so concurrent bridges do not overshoot.
+   */
+  assess: (balance: bigint) => TopupAssessment;
+  /** Whether `balance` is below the critical threshold. */
+  isCritical: (balance: bigint) => boolean;
+  /** Bridges if a bridge is due at `balance` and waits for it to settle. */
+  topUpFrom: (balance: bigint) => Promise<void>;
+  /**
+   * Like `topUpFrom`, but resolves once the bridge is submitted, with a
+   * promise that settles with the bridge. Undefined if none was submitted.
+   */
+  startTopUp: (balance: bigint) => Promise<{ settled: Promise<void> } | undefined>;
+  /**
+   * Tracks a bridge submitted by an earlier run as in flight until `settle`
+   * resolves. Adopted bridges count towards the limit but are never refused.
+   * One whose deposit is not mined yet is keyed by its claim secret hash.
+   */
+  adopt: (messageHash: string, amount: bigint, settle: () => Promise<void>) => Promise<void>;
+  isTracking: (messageHash: string) => boolean;
   isBridgeInFlight: () => boolean;
+  /** Whether another bridge may start without exceeding `maxInFlight`. */
+  hasCapacity: () => boolean;
+  /** Waits for every in-flight bridge to settle. */
+  drain: () => Promise<void>;
   requestStop: () => void;
   isStopping: () => boolean;
 }
 
 function shouldSkipCheck(
   stopping: boolean,
-  bridgeInFlight: boolean,
+  atCapacity: boolean,
   logger: Pick<Console, "log" | "warn" | "error">,
 ): boolean {
   if (stopping) {
     logger.log("Shutdown requested, skipping top-up check");
     return true;
   }
-  if (bridgeInFlight) {
-    logger.log("Bridge already in-flight, skipping check");
+  if (atCapacity) {
+    logger.log("Maximum in-flight bridges reached, skipping check");
     return true;
   }
   return false;
 }
 
 function shouldSubmitBridge(
-  balance: bigint,
-  threshold: bigint,
+  assessment: TopupAssessment,
   stopping: boolean,
   logger: Pick<Console, "log" | "warn" | "error">,
 ): boolean {
-  if (balance >= threshold) {
+  if (!assessment.due) {
     return false;
   }
   if (stopping) {
@@ -84,16 +122,21 @@ function logBridgeConfirmationOutcome(
   );
 }
 
-async function executeBridgeAndConfirmation(params: {
-  config: TopupCheckerConfig;
+async function submitBridge(params: {
   deps: TopupCheckerDependencies;
   logger: Pick<Console, "log" | "warn" | "error">;
   balance: bigint;
+  assessment: TopupAssessment;
+  critical: boolean;
   includeClaimSecretInLogs: boolean;
-}): Promise<void> {
-  const { config, deps, logger, balance, includeClaimSecretInLogs } = params;
-  logger.log(`Balance below threshold — initiating bridge of ${config.topUpAmount} wei`);
-  const result = await deps.bridge(config.topUpAmount);
+}): Promise<BridgeResult> {
+  const { deps, logger, balance, assessment, critical, includeClaimSecretInLogs } = params;
+  logger.log(
+    assessment.reason === "forecast"
+      ? `Forecast balance runs out within the bridge latency — initiating bridge of ${assessment.amount} wei`
+      : `Balance below threshold — initiating bridge of ${assessment.amount} wei`,
+  );
+  const result = await deps.bridge(assessment.amount, { critical, baselineBalance: balance });
   await deps.onBridgeSubmitted?.(balance, result);
   logger.log(
     `Bridge submitted. l1_to_l2_message_hash=${result.messageHash} leaf_index=${result.messageLeafIndex} claim_secret_hash=${result.claimSecretHash}${
@@ -101,7 +144,15 @@ async function executeBridgeAndConfirmation(params: {
     }`,
   );
   logger.log(`Bridged ${result.amount} wei. Waiting for L2 confirmation...`);
+  return result;
+}
 
+async function settleBridge(
+  deps: TopupCheckerDependencies,
+  logger: Pick<Console, "log" | "warn" | "error">,
+  balance: bigint,
+  result: BridgeResult,
+): Promise<void> {
   const confirmation = await deps.confirm(balance, result);
   await deps.onBridgeSettled?.(balance, result, confirmation);
   logBridgeConfirmationOutcome(logger, confirmation);
@@ -121,7 +172,9 @@ async function handleBridgeFailure(
 }
 
 /**
- * Creates the stateful top-up checker used by the service loop.
+ * Creates the stateful top-up checker used by the service loop. Up to
+ * `maxInFlight` bridges may wait for confirmation at once, each keyed by its
+ * L1-to-L2 message hash.
  */
 export function createTopupChecker(
   config: TopupCheckerConfig,
@@ -129,11 +182,26 @@ export function createTopupChecker(
 ): TopupChecker {
   const logger = deps.logger ?? console;
   const includeClaimSecretInLogs = config.logClaimSecret ?? false;
-  let bridgeInFlight = false;
+  const maxInFlight = config.maxInFlight ?? 1;
+  /** Amount per in-flight bridge, keyed by message hash or by a reservation while submitting. */
+  const inFlight = new Map<string, bigint>();
+  const settlements = new Set<Promise<void>>();
+  let nextReservation = 0;
   let stopping = false;
 
+  const hasCapacity = () => inFlight.size < maxInFlight;
+
+  function track(key: string, settlement: Promise<void>): Promise<void> {
+    const tracked = settlement.finally(() => {
+      inFlight.delete(key);
+      settlements.delete(tracked);
+    });
+    settlements.add(tracked);
+    return tracked;
+  }
+
   async function checkAndTopUp() {
-    if (shouldSkipCheck(stopping, bridgeInFlight, logger)) {
+    if (shouldSkipCheck(stopping, !hasCapacity(), logger)) {
       return;
     }
 
@@ -145,32 +213,90 @@ export function createTopupChecker(
       return;
     }
 
-    logger.log(`Top-up target Fee Juice balance: ${balance} wei (threshold: ${config.threshold})`);
+    await topUpFrom(balance);
+  }
 
-    if (!shouldSubmitBridge(balance, config.threshold, stopping, logger)) {
-      return;
+  function assess(balance: bigint): TopupAssessment {
+    let effective = balance;
+    for (const amount of inFlight.values()) {
+      effective += amount;
+    }
+    return deps.forecast
+      ? deps.forecast.assess(effective)
+      : assessThreshold(effective, config.threshold, config.topUpAmount);
+  }
+
+  function isCritical(balance: bigint): boolean {
+    return config.criticalThreshold !== undefined && balance < config.criticalThreshold;
+  }
+
+  async function startTopUp(balance: bigint): Promise<{ settled: Promise<void> } | undefined> {
+    if (!hasCapacity()) {
+      logger.log("Maximum in-flight bridges reached, skipping check");
+      return undefined;
     }
 
-    bridgeInFlight = true;
+    logger.log(`Top-up target Fee Juice balance: ${balance} wei (threshold: ${config.threshold})`);
 
+    const assessment = assess(balance);
+    if (!shouldSubmitBridge(assessment, stopping, logger)) {
+      return undefined;
+    }
+
+    const reservation = `reservation:${nextReservation++}`;
+    inFlight.set(reservation, assessment.amount);
+    let result: BridgeResult;
     try {
-      await executeBridgeAndConfirmation({
-        config,
+      result = await submitBridge({
         deps,
         logger,
         balance,
+        assessment,
+        critical: isCritical(balance),
         includeClaimSecretInLogs,
       });
     } catch (err) {
       await handleBridgeFailure(deps, logger, err);
+      return undefined;
     } finally {
-      bridgeInFlight = false;
+      inFlight.delete(reservation);
     }
+
+    inFlight.set(result.messageHash, result.amount);
+    const settled = track(
+      result.messageHash,
+      settleBridge(deps, logger, balance, result).catch((err: unknown) =>
+        handleBridgeFailure(deps, logger, err),
+      ),
+    );
+    return { settled };
+  }
+
+  async function topUpFrom(balance: bigint) {
+    await (await startTopUp(balance))?.settled;
   }
 
   return {
     checkAndTopUp,
-    isBridgeInFlight: () => bridgeInFlight,
+    assess,
+    isCritical,
+    topUpFrom,
+    startTopUp,
+    adopt: (messageHash, amount, settle) => {
+      inFlight.set(messageHash, amount);
+      return track(
+        messageHash,
+        Promise.resolve()
+          .then(settle)
+          .catch((err: unknown) => logger.error(`Failed to settle bridge ${messageHash}:`, err)),
+      );
+    },
+    isTracking: (messageHash) => inFlight.has(messageHash),
+    isBridgeInFlight: () => inFlight.size > 0,
+    hasCapacity,
+    drain: async () => {
+      await Promise.all(settlements);
+    },
     requestStop: () => {
       stopping = true;
     },
@@ -2,6 +2,8 @@ import { readFileSync } from "node:fs";
 import nodePath from "node:path";
 import { parse } from "yaml";
 import { z } from "zod";
+import { ForecastSchema } from "./forecast.js";
+import { GasPolicySchema } from "./gas.js";
 import {
   type RuntimeProfile,
   resolveSecret,
@@ -25,12 +27,139 @@ const PrivateKeySchema = z
   .string()
   .regex(PRIVATE_KEY_PATTERN, "must be a 32-byte 0x-prefixed hex private key");
 
+const AztecAddressSchema = z
+  .string()
+  .regex(AZTEC_ADDRESS_PATTERN, "must be a 32-byte 0x-prefixed hex address");
+
+/** Target id used for the FPC configured through the top-level single-target fields. */
+export const DEFAULT_TARGET_ID = "default";
+
+const TargetSchema = z.object({
+  /** Stable name used in metrics labels, logs and the persisted bridge state key. */
+  id: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, "must be 1-32 lowercase letters, digits, '_' or '-'"),
+  fpc_address: AztecAddressSchema,
+  /**
+   * FPC replaced by an operator key rotation. Its Fee Juice cannot be
+   * withdrawn, so it is never topped up again; its balance is only
+   * reported while outstanding quotes drain it.
+   */
+  previous_fpc_address: AztecAddressSchema.optional(),
+  /** Bridge when the FPC balance drops below this (bigint string, wei units). */
+  threshold: PositiveBigIntString,
+  /** Amount to bridge per top-up (bigint string, wei units). */
+  top_up_amount: PositiveBigIntString,
+  /** Higher priorities are funded first when the L1 wallet cannot cover every top-up. */
+  priority: z.number().int().default(0),
+  /** Burn-rate forecast for this target; defaults to the top-level `forecast`. */
+  forecast: ForecastSchema.optional(),
+});
+
+export type TopupTarget = z.infer<typeof TargetSchema>;
+
+const UintString = z.string().regex(UINT_DECIMAL_PATTERN, "must be an unsigned integer string");
+
+const L1WalletSchema = z.object({
+  /** Readiness fails while the operator wallet holds less ETH than this (wei). */
+  min_eth_balance: UintString.optional(),
+  /** Readiness fails while the operator wallet holds fewer Fee Juice tokens than this (wei). */
+  min_fee_juice_balance: UintString.optional(),
+  /** Gas one bridge's approve and deposit may use; priced at the current max fee per gas. */
+  bridge_gas_limit: z.number().int().positive().default(300_000),
+});
+
+function checkTarget(
+  target: Omit<TopupTarget, "id" | "priority" | "forecast"> & {
+    forecast?: z.infer<typeof ForecastSchema>;
+  },
+  ctx: z.RefinementCtx,
+  path: (string | number)[],
+): void {
+  if (target.previous_fpc_address?.toLowerCase() === target.fpc_address.toLowerCase()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "previous_fpc_address must differ from fpc_address",
+      path: [...path, "previous_fpc_address"],
+    });
+  }
+
+  if (BigInt(target.top_up_amount) < BigInt(target.threshold)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message:
+        "top_up_amount should be >= threshold to bring balance above threshold in a single bridge",
+      path: [...path, "top_up_amount"],
+    });
+  }
+
+  const maxTopUpAmount = target.forecast?.max_top_up_amount;
+  if (maxTopUpAmount && BigInt(maxTopUpAmount) < BigInt(target.top_up_amount)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "forecast.max_top_up_amount must be >= top_up_amount",
+      path: [...path, "forecast", "max_top_up_amount"],
+    });
+  }
+}
+
+function checkTargetList(
+  targets: TopupTarget[],
+  forecast: TopupTarget["forecast"],
+  ctx: z.RefinementCtx,
+): void {
+  const ids = new Set<string>();
+  const addresses = new Set<string>();
+  targets.forEach((target, index) => {
+    checkTarget({ ...target, forecast: target.forecast ?? forecast }, ctx, ["targets", index]);
+    if (ids.has(target.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `duplicate target id ${target.id}`,
+        path: ["targets", index, "id"],
+      });
+    }
+    ids.add(target.id);
+    const address = target.fpc_address.toLowerCase();
+    if (addresses.has(address)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `fpc_address ${target.fpc_address} is listed by more than one target`,
+        path: ["targets", index, "fpc_address"],
+      });
+    }
+    addresses.add(address);
+  });
+}
+
+const SINGLE_TARGET_FIELDS = [
+  "fpc_address",
+  "previous_fpc_address",
+  "threshold",
+  "top_up_amount",
+] as const;
+
 const ConfigSchema = z
   .object({
     runtime_profile: RuntimeProfileSchema.default("development"),
-    fpc_address: z
-      .string()
-      .regex(AZTEC_ADDRESS_PATTERN, "must be a 32-byte 0x-prefixed hex address"),
+    /**
+     * Single-target shorthand: `fpc_address`, `previous_fpc_address`,
+     * `threshold` and `top_up_amount` configure one target with id
+     * `default`. Use `targets` instead to fund several FPCs.
+     */
+    fpc_address: AztecAddressSchema.optional(),
+    previous_fpc_address: AztecAddressSchema.optional(),
+    /** Bridge when FPC balance drops below this (bigint string, wei units). */
+    threshold: PositiveBigIntString.optional(),
+    /** Amount to bridge per top-up (bigint string, wei units). */
+    top_up_amount: PositiveBigIntString.optional(),
+    /** FPCs funded by this daemon from the one L1 operator wallet. */
+    targets: z.array(TargetSchema).min(1).optional(),
+    /**
+     * Bridge ahead of the threshold when the recent burn rate would empty a
+     * target before a bridge lands. Applies to every target without its own.
+     */
+    forecast: ForecastSchema.optional(),
     aztec_node_url: z.string().url().optional(),
     l1_rpc_url: z.string().url().optional(),
     /** Secret provider strategy for L1 bridge key. */
@@ -39,10 +168,6 @@ const ConfigSchema = z
     l1_operator_secret_ref: z.string().optional(),
     /** Optional when L1_OPERATOR_PRIVATE_KEY is provided via env. */
     l1_operator_private_key: z.string().optional(),
-    /** Bridge when FPC balance drops below this (bigint string, wei units). */
-    threshold: PositiveBigIntString,
-    /** Amount to bridge per top-up (bigint string, wei units). */
-    top_up_amount: PositiveBigIntString,
     /** Directory for LMDB-backed persistent state. */
     data_dir: z.string().min(1).default(".topup-data"),
     ops_port: z.number().int().min(1).max(65535).default(3001),
@@ -50,6 +175,11 @@ const ConfigSchema = z
     confirmation_timeout_ms: z.number().int().positive().default(180_000),
     confirmation_poll_initial_ms: z.number().int().positive().default(1_000),
     confirmation_poll_max_ms: z.number().int().positive().default(15_000),
+    /** Operator wallet floors and the gas a bridge is assumed to need. */
+    l1_wallet: L1WalletSchema.default({}),
+    l1_gas: GasPolicySchema.default({}),
+    /** Bridges per target that may await confirmation at once. */
+    max_in_flight_bridges: z.number().int().min(1).max(16).default(1),
   })
   .superRefine((config, ctx) => {
     if (config.confirmation_poll_initial_ms > config.confirmation_poll_max_ms) {
@@ -69,13 +199,41 @@ const ConfigSchema = z
       });
     }
 
-    if (BigInt(config.top_up_amount) < BigInt(config.threshold)) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message:
-          "top_up_amount should be >= threshold to bring balance above threshold in a single bridge",
-        path: ["top_up_amount"],
-      });
+    if (config.targets) {
+      for (const field of SINGLE_TARGET_FIELDS) {
+        if (config[field] !== undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `${field} cannot be combined with targets; set it on a target instead`,
+            path: [field],
+          });
+        }
+      }
+      checkTargetList(config.targets, config.forecast, ctx);
+      return;
+    }
+
+    for (const field of ["fpc_address", "threshold", "top_up_amount"] as const) {
+      if (config[field] === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${field} is required unless targets is set`,
+          path: [field],
+        });
+      }
+    }
+    if (config.fpc_address && config.threshold && config.top_up_amount) {
+      checkTarget(
+        {
+          fpc_address: config.fpc_address,
+          previous_fpc_address: config.previous_fpc_address,
+          threshold: config.threshold,
+          top_up_amount: config.top_up_amount,
+          forecast: config.forecast,
+        },
+        ctx,
+        [],
+      );
     }
   });
 
@@ -83,9 +241,11 @@ type ParsedConfig = z.infer<typeof ConfigSchema>;
 
 export type Config = Omit<
   ParsedConfig,
-  "l1_operator_private_key" | "aztec_node_url" | "l1_rpc_url"
+  "l1_operator_private_key" | "aztec_node_url" | "l1_rpc_url" | "targets"
 > & {
   runtime_profile: RuntimeProfile;
+  /** Configured targets, or the single `default` target built from the top-level fields. */
+  targets: TopupTarget[];
   aztec_node_url: string;
   l1_rpc_url: string;
   l1_operator_private_key: string;
@@ -126,6 +286,27 @@ function parseIntegerOverride(
   return parsed;
 }
 
+function resolveTargets(config: ParsedConfig): TopupTarget[] {
+  if (config.targets) {
+    return config.targets.map((target) => ({
+      ...target,
+      forecast: target.forecast ?? config.forecast,
+    }));
+  }
+  return [
+    {
+      id: DEFAULT_TARGET_ID,
+      // superRefine guarantees the single-target fields when targets is unset.
+      fpc_address: config.fpc_address as string,
+      previous_fpc_address: config.previous_fpc_address,
+      threshold: config.threshold as string,
+      top_up_amount: config.top_up_amount as string,
+      priority: 0,
+      forecast: config.forecast,
+    },
+  ];
+}
+
 function resolveDataDir(raw: string): string {
   if (raw.includes("..")) {
     throw new Error(`Invalid data_dir: path traversal ("..") is not allowed: ${raw}`);
@@ -164,6 +345,7 @@ export function loadConfig(path: string, options: LoadConfigOptions = {}): Confi
     runtime_profile: runtimeProfile,
     aztec_node_url: aztecNodeUrl,
     l1_rpc_url: l1RpcUrl,
+    targets: resolveTargets(config),
     data_dir: resolveDataDir(process.env.TOPUP_DATA_DIR ?? config.data_dir),
     ops_port: parseIntegerOverride(
       config.ops_port,
@@ -0,0 +1,165 @@
+import { z } from "zod";
+
+const UINT_DECIMAL_PATTERN = /^(0|[1-9][0-9]*)$/;
+
+export const ForecastSchema = z.object({
+  /** Balance samples older than this are dropped from the burn-rate estimate. */
+  window_seconds: z.number().int().positive().default(3_600),
+  /** Samples needed before the forecast can trigger a bridge. */
+  min_samples: z.number().int().min(2).default(3),
+  /** Expected time from bridge submission to the Fee Juice landing on L2. */
+  bridge_latency_seconds: z.number().int().positive().default(600),
+  /** Extra headroom on top of the bridge latency. */
+  margin_seconds: z.number().int().nonnegative().default(300),
+  /** Forecast bridges are sized to cover this long at the current burn rate. */
+  coverage_seconds: z.number().int().positive().default(86_400),
+  /** Upper bound on a forecast-sized bridge (bigint string, wei units). */
+  max_top_up_amount: z
+    .string()
+    .regex(UINT_DECIMAL_PATTERN, "must be an unsigned integer string")
+    .refine((value) => BigInt(value) > 0n, "must be greater than zero")
+    .optional(),
+});
+
+export type ForecastConfig = z.infer<typeof ForecastSchema>;
+
+export interface TopupAssessment {
+  due: boolean;
+  /** Amount to bridge if `due`, in wei. */
+  amount: bigint;
+  reason: "below_threshold" | "forecast" | "none";
+}
+
+export interface ForecastSnapshot {
+  samples: number;
+  /** Average Fee Juice consumed per second over the window, in wei. */
+  burnRateWeiPerSecond?: bigint;
+  /** Projected time until the last sampled balance reaches zero. */
+  secondsToEmpty?: number;
+  /** Bridge size the forecast would choose now. */
+  topUpAmount: bigint;
+}
+
+export interface TopupForecast {
+  record: (balance: bigint) => void;
+  assess: (balance: bigint) => TopupAssessment;
+  snapshot: () => ForecastSnapshot;
+}
+
+interface BalanceSample {
+  atMs: number;
+  balance: bigint;
+}
+
+interface BurnEstimate {
+  consumed: bigint;
+  elapsedMs: number;
+}
+
+/**
+ * Assessment for a target without a forecast: bridge `topUpAmount` once the
+ * balance is below `threshold`.
+ */
+export function assessThreshold(
+  balance: bigint,
+  threshold: bigint,
+  topUpAmount: bigint,
+): TopupAssessment {
+  return balance < threshold
+    ? { due: true, amount: topUpAmount, reason: "below_threshold" }
+    : { due: false, amount: topUpAmount, reason: "none" };
+}
+
+/**
+ * Forecasts when a target FPC runs dry from its recent balance samples.
+ * The burn rate counts only balance decreases, so bridges landing in the
+ * window do not hide consumption. A bridge becomes due once the projected
+ * time to empty drops below the bridge latency plus the margin, and is sized
+ * to cover `coverage_seconds` of consumption, never less than
+ * `topUpAmount` and never more than `max_top_up_amount`. The threshold rule
+ * still applies while there are too few samples to forecast.
+ */
+export function createBurnRateForecast(
+  config: ForecastConfig,
+  target: { threshold: bigint; topUpAmount: bigint },
+  deps: { nowMs?: () => number } = {},
+): TopupForecast {
+  const nowMs = deps.nowMs ?? Date.now;
+  const samples: BalanceSample[] = [];
+
+  function prune(atMs: number) {
+    const cutoff = atMs - config.window_seconds * 1000;
+    while (samples.length > 0 && samples[0].atMs < cutoff) {
+      samples.shift();
+    }
+  }
+
+  function estimate(): BurnEstimate | undefined {
+    if (samples.length < config.min_samples) {
+      return undefined;
+    }
+    const elapsedMs = samples[samples.length - 1].atMs - samples[0].atMs;
+    if (elapsedMs <= 0) {
+      return undefined;
+    }
+    let consumed = 0n;
+    for (let i = 1; i < samples.length; i++) {
+      const drop = samples[i - 1].balance - samples[i].balance;
+      if (drop > 0n) {
+        consumed += drop;
+      }
+    }
+    return { consumed, elapsedMs };
+  }
+
+  function secondsToEmpty(burn: BurnEstimate, balance: bigint): number | undefined {
+    if (burn.consumed === 0n) {
+      return undefined;
+    }
+    return Number((balance * BigInt(burn.elapsedMs)) / burn.consumed) / 1000;
+  }
+
+  function sizeTopUp(burn: BurnEstimate | undefined): bigint {
+    if (!burn) {
+      return target.topUpAmount;
+    }
+    const coverage =
+      (burn.consumed * BigInt(config.coverage_seconds * 1000)) / BigInt(burn.elapsedMs);
+    const amount = coverage > target.topUpAmount ? coverage : target.topUpAmount;
+    const cap = config.max_top_up_amount ? BigInt(config.max_top_up_amount) : undefined;
+    return cap !== undefined && amount > cap ? cap : amount;
+  }
+
+  return {
+    record(balance) {
+      const atMs = nowMs();
+      samples.push({ atMs, balance });
+      prune(atMs);
+    },
+    assess(balance) {
+      const burn = estimate();
+      const amount = sizeTopUp(burn);
+      if (balance < target.threshold) {
+        return { due: true, amount, reason: "below_threshold" };
+      }
+      const remaining = burn ? secondsToEmpty(burn, balance) : undefined;
+      if (
+        remaining !== undefined &&
+        remaining < config.bridge_latency_seconds + config.margin_seconds
+      ) {
+        return { due: true, amount, reason: "forecast" };
+      }
+      return { due: false, amount, reason: "none" };
+    },
+    snapshot() {
+      const burn = estimate();
+      const last = samples[samples.length - 1];
+      return {
+        samples: samples.length,
+        burnRateWeiPerSecond: burn ? (burn.consumed * 1000n) / BigInt(burn.elapsedMs) : undefined,
+        secondsToEmpty: burn && last ? secondsToEmpty(burn, last.balance) : undefined,
+        topUpAmount: sizeTopUp(burn),
+      };
+    },
+  };
+}
@@ -0,0 +1,354 @@
+import {
+  type Account,
+  type Chain,
+  type Hex,
+  keccak256,
+  type PublicActions,
+  type TransactionReceipt,
+  TransactionReceiptNotFoundError,
+  type Transport,
+  type WalletActions,
+} from "viem";
+import { z } from "zod";
+import type { PendingL1Transaction } from "./state.js";
+
+const UINT_DECIMAL_PATTERN = /^(0|[1-9][0-9]*)$/;
+
+const WeiString = z
+  .string()
+  .regex(UINT_DECIMAL_PATTERN, "must be an unsigned integer string")
+  .refine((value) => BigInt(value) > 0n, "must be greater than zero");
+
+export const GasPolicySchema = z.object({
+  /** Bridges wait while the L1 max fee per gas is above this (wei); unset for no cap. */
+  max_fee_per_gas: WeiString.optional(),
+  /** Tip offered to L1 block builders (wei); defaults to the RPC node's estimate. */
+  priority_fee_per_gas: WeiString.optional(),
+  /** A transaction still pending after this long is replaced with a higher fee. */
+  replacement_timeout_ms: z.number().int().positive().default(120_000),
+  /** Fee increase per replacement; nodes reject replacements below 10%. */
+  replacement_bump_percent: z.number().int().min(10).max(100).default(15),
+  /** Replacements per transaction before the bridge gives up on it. */
+  max_replacements: z.number().int().nonnegative().default(3),
+  /** Below this share of its threshold, a target bridges even when gas is above the cap. */
+  critical_balance_percent: z.number().int().min(0).max(100).default(25),
+});
+
+export type GasPolicy = z.infer<typeof GasPolicySchema>;
+
+export interface L1Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export class GasPriceAboveCapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GasPriceAboveCapError";
+  }
+}
+
+type L1Actions = PublicActions<Transport, Chain, Account> & WalletActions<Chain, Account>;
+
+/**
+ * The viem public and wallet actions fee management uses; a wallet client
+ * with a local account, extended with public actions, satisfies it.
+ */
+export type ManagedL1Client = { account: Account } & Pick<
+  L1Actions,
+  | "estimateFeesPerGas"
+  | "getTransactionCount"
+  | "getTransactionReceipt"
+  | "prepareTransactionRequest"
+  | "sendRawTransaction"
+  | "signTransaction"
+>;
+
+/** A contract call sent as an L1 transaction. */
+export interface L1Call {
+  to: Hex;
+  data: Hex;
+}
+
+/** Persists an L1 transaction; called before each version of it is broadcast. */
+export type L1TransactionJournal = (pending: PendingL1Transaction) => Promise<void>;
+
+export interface ManagedL1Transactions {
+  /**
+   * Signs `call` at the next nonce with the policy's fees, journals it and
+   * broadcasts it, then waits for it to be mined, replacing it while stuck.
+   * Resolves with the receipt of the version that was mined and its nonce.
+   */
+  send: (
+    call: L1Call,
+    journal: L1TransactionJournal,
+  ) => Promise<{ receipt: TransactionReceipt; nonce: number }>;
+  /**
+   * Picks up a transaction journalled by an earlier run and waits for it the
+   * same way. Undefined when another transaction took its nonce.
+   */
+  resume: (
+    pending: PendingL1Transaction,
+    journal: L1TransactionJournal,
+  ) => Promise<TransactionReceipt | undefined>;
+}
+
+export interface ManagedL1TransactionOptions {
+  /** Lets the fee exceed `max_fee_per_gas`, for a target whose balance is critical. */
+  allowAboveCap?: boolean;
+  logger?: Pick<Console, "log" | "warn">;
+  pollIntervalMs?: number;
+  nowMs?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_RECEIPT_POLL_MS = 4_000;
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function capOf(policy: GasPolicy): bigint | undefined {
+  return policy.max_fee_per_gas === undefined ? undefined : BigInt(policy.max_fee_per_gas);
+}
+
+/** Whether the market fee is above the policy cap, so non-critical bridges should wait. */
+export function isGasAboveCap(policy: GasPolicy, maxFeePerGas: bigint): boolean {
+  const cap = capOf(policy);
+  return cap !== undefined && maxFeePerGas > cap;
+}
+
+/**
+ * Fees for a new transaction: the market estimate, with the configured tip.
+ * Throws `GasPriceAboveCapError` when the estimate exceeds the cap, unless
+ * `allowAboveCap` is set.
+ */
+export function resolveFees(policy: GasPolicy, market: L1Fees, allowAboveCap: boolean): L1Fees {
+  if (isGasAboveCap(policy, market.maxFeePerGas) && !allowAboveCap) {
+    throw new GasPriceAboveCapError(
+      `L1 max fee per gas ${market.maxFeePerGas} wei is above max_fee_per_gas ${policy.max_fee_per_gas} wei`,
+    );
+  }
+  const tip =
+    policy.priority_fee_per_gas === undefined
+      ? market.maxPriorityFeePerGas
+      : BigInt(policy.priority_fee_per_gas);
+  return {
+    maxFeePerGas: market.maxFeePerGas,
+    maxPriorityFeePerGas: tip > market.maxFeePerGas ? market.maxFeePerGas : tip,
+  };
+}
+
+function bump(value: bigint, percent: number): bigint {
+  return (value * BigInt(100 + percent) + 99n) / 100n;
+}
+
+/**
+ * Fees for a same-nonce replacement, raised by `replacement_bump_percent`.
+ * Undefined when the cap leaves no room for a large enough bump, since nodes
+ * would reject the replacement.
+ */
+export function bumpFees(policy: GasPolicy, fees: L1Fees, allowAboveCap: true): L1Fees;
+export function bumpFees(
+  policy: GasPolicy,
+  fees: L1Fees,
+  allowAboveCap: boolean,
+): L1Fees | undefined;
+export function bumpFees(
+  policy: GasPolicy,
+  fees: L1Fees,
+  allowAboveCap: boolean,
+): L1Fees | undefined {
+  const bumped = {
+    maxFeePerGas: bump(fees.maxFeePerGas, policy.replacement_bump_percent),
+    maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas, policy.replacement_bump_percent),
+  };
+  const cap = capOf(policy);
+  if (!allowAboveCap && cap !== undefined && bumped.maxFeePerGas > cap) {
+    return undefined;
+  }
+  return bumped;
+}
+
+async function findReceipt(
+  client: Pick<ManagedL1Client, "getTransactionReceipt">,
+  hashes: Hex[],
+): Promise<TransactionReceipt | undefined> {
+  for (const hash of hashes) {
+    try {
+      return await client.getTransactionReceipt({ hash });
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+  return undefined;
+}
+
+function feesOf(pending: PendingL1Transaction): L1Fees {
+  return {
+    maxFeePerGas: BigInt(pending.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(pending.maxPriorityFeePerGas),
+  };
+}
+
+interface WaitContext {
+  client: ManagedL1Client;
+  policy: GasPolicy;
+  allowAboveCap: boolean;
+  logger: Pick<Console, "log" | "warn">;
+  pollIntervalMs: number;
+  nowMs: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+/**
+ * Signs the call at `pending.nonce` with `fees`, adds the hash to the record
+ * and journals it, then broadcasts. Journalling first means a crash during
+ * the broadcast still leaves the hash to look for on restart.
+ */
+async function signAndBroadcast(
+  context: WaitContext,
+  pending: L1Call & Pick<PendingL1Transaction, "nonce" | "hashes">,
+  fees: L1Fees,
+  journal: L1TransactionJournal,
+): Promise<PendingL1Transaction> {
+  const { client } = context;
+  const request = await client.prepareTransactionRequest({
+    to: pending.to,
+    data: pending.data,
+    nonce: pending.nonce,
+    ...fees,
+  });
+  const serializedTransaction = await client.signTransaction(request);
+  const record: PendingL1Transaction = {
+    ...pending,
+    hashes: [...pending.hashes, keccak256(serializedTransaction)],
+    maxFeePerGas: fees.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+  };
+  await journal(record);
+  await client.sendRawTransaction({ serializedTransaction });
+  return record;
+}
+
+/**
+ * Sends one replacement. A rejected one (e.g. the original was just mined) is
+ * only logged; its hash stays journalled in case the node took it anyway.
+ */
+async function replace(
+  context: WaitContext,
+  pending: PendingL1Transaction,
+  fees: L1Fees,
+  journal: L1TransactionJournal,
+): Promise<PendingL1Transaction> {
+  let record = pending;
+  try {
+    record = await signAndBroadcast(context, pending, fees, journal);
+  } catch (error) {
+    context.logger.warn(
+      `Failed to replace stuck L1 transaction nonce=${pending.nonce}: ${String(error)}`,
+    );
+    return record;
+  }
+  context.logger.warn(
+    `Replaced stuck L1 transaction nonce=${record.nonce} tx_hash=${record.hashes.at(-1)} max_fee_per_gas=${fees.maxFeePerGas}`,
+  );
+  return record;
+}
+
+/**
+ * Polls every hash sent at `pending.nonce` until one is mined. Each time the
+ * transaction is still pending after `replacement_timeout_ms`, a replacement
+ * with bumped fees is sent, up to `max_replacements` times per wait.
+ */
+async function waitForAnyReceipt(
+  context: WaitContext,
+  pending: PendingL1Transaction,
+  journal: L1TransactionJournal,
+): Promise<TransactionReceipt> {
+  const { policy, logger } = context;
+  let replacements = 0;
+  let deadline = context.nowMs() + policy.replacement_timeout_ms;
+  let record = pending;
+
+  for (;;) {
+    const receipt = await findReceipt(context.client, record.hashes);
+    if (receipt) {
+      return receipt;
+    }
+    if (context.nowMs() >= deadline) {
+      if (replacements >= policy.max_replacements) {
+        throw new Error(
+          `L1 transaction nonce=${record.nonce} still pending after ${replacements} replacements`,
+        );
+      }
+      const fees = bumpFees(policy, feesOf(record), context.allowAboveCap);
+      if (fees) {
+        record = await replace(context, record, fees, journal);
+        replacements += 1;
+      } else {
+        logger.warn(
+          `L1 transaction nonce=${record.nonce} is stuck but max_fee_per_gas leaves no room to replace it; still waiting`,
+        );
+      }
+      deadline = context.nowMs() + policy.replacement_timeout_ms;
+    }
+    await context.sleep(context.pollIntervalMs);
+  }
+}
+
+/**
+ * Takes over fee pricing, signing and receipt waiting for a bridge's L1
+ * transactions. Each one gets an explicit nonce and the policy's fees, and is
+ * journalled before every broadcast so a restart can pick it up again. While
+ * waiting, a stuck transaction is re-signed at the same nonce with bumped
+ * fees; the receipt of whichever version is mined is returned.
+ */
+export function createManagedL1Transactions(
+  client: ManagedL1Client,
+  policy: GasPolicy,
+  options: ManagedL1TransactionOptions = {},
+): ManagedL1Transactions {
+  const context: WaitContext = {
+    client,
+    policy,
+    allowAboveCap: options.allowAboveCap ?? false,
+    logger: options.logger ?? console,
+    pollIntervalMs: options.pollIntervalMs ?? DEFAULT_RECEIPT_POLL_MS,
+    nowMs: options.nowMs ?? Date.now,
+    sleep: options.sleep ?? defaultSleep,
+  };
+  const address = client.account.address;
+
+  return {
+    async send(call, journal) {
+      const market = await client.estimateFeesPerGas();
+      const fees = resolveFees(policy, market, context.allowAboveCap);
+      const nonce = await client.getTransactionCount({ address, blockTag: "pending" });
+      const pending = await signAndBroadcast(
+        context,
+        { ...call, nonce, hashes: [] },
+        fees,
+        journal,
+      );
+      return { receipt: await waitForAnyReceipt(context, pending, journal), nonce };
+    },
+    async resume(pending, journal) {
+      const receipt = await findReceipt(client, pending.hashes);
+      if (receipt) {
+        return receipt;
+      }
+      const minedNonce = await client.getTransactionCount({ address, blockTag: "latest" });
+      if (pending.nonce < minedNonce) {
+        // Mined between the two reads, or superseded by another transaction.
+        return findReceipt(client, pending.hashes);
+      }
+      context.logger.warn(
+        `Resuming L1 transaction left pending by an earlier run nonce=${pending.nonce} tx_hash=${pending.hashes.at(-1)}`,
+      );
+      return waitForAnyReceipt(context, pending, journal);
+    },
+  };
+}
@@ -1,8 +1,12 @@
 /**
  * Top-up Service — entry point
  *
- * Monitors the MultiAssetFPC's Fee Juice balance on L2 and automatically
- * bridges more Fee Juice from L1 when it drops below the configured threshold.
+ * Monitors the Fee Juice balance of one or more MultiAssetFPCs on L2 and
+ * automatically bridges more Fee Juice from L1 when one drops below its
+ * configured threshold. All targets share the L1 operator wallet; when it
+ * cannot cover every top-up, higher-priority targets are funded first.
+ * After an operator key rotation, the previous FPC's balance is reported as
+ * it drains but never topped up.
  *
  * Usage:
  *   cp config.example.yaml config.yaml
@@ -15,22 +19,43 @@ import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { createAztecNodeClient } from "@aztec/aztec.js/node";
 import type { RootDatabase } from "lmdb";
 import pino from "pino";
+import type { Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
 import { createTopupAutoClaimer, type TopupAutoClaimer } from "./autoclaim.js";
-import { bridgeFeeJuice } from "./bridge.js";
-import { createTopupChecker, type TopupChecker, type TopupCheckerDependencies } from "./checker.js";
-import { type Config, loadConfig } from "./config.js";
+import { bridgeFeeJuice, resumeBridgeDeposit } from "./bridge.js";
+import { createTopupChecker, type TopupCheckerDependencies } from "./checker.js";
+import { type Config, loadConfig, type TopupTarget } from "./config.js";
 import { waitForFeeJuiceBridgeConfirmation } from "./confirm.js";
-import { assertL1RpcChainIdMatches } from "./l1.js";
+import { createBurnRateForecast, type TopupForecast } from "./forecast.js";
+import { isGasAboveCap } from "./gas.js";
+import {
+  assertL1RpcChainIdMatches,
+  createL1SubmissionQueue,
+  createL1WalletReader,
+  type L1SubmissionQueue,
+} from "./l1.js";
 import { createGetFeeJuiceBalance, type GetFeeJuiceBalance } from "./monitor.js";
 import { createTopupOpsServer, type TopupOpsServer, TopupOpsState } from "./ops.js";
-import { reconcilePersistedBridgeState } from "./reconcile.js";
+import { createPreviousFpcMonitor, type PreviousFpcMonitor } from "./previous-fpc.js";
+import {
+  listBridgeDeposits,
+  listPersistedBridges,
+  reconcilePersistedBridgeState,
+} from "./reconcile.js";
 import {
   acquireProcessLock,
   type BridgeStateStore,
   createLmdbBridgeStateStore,
+  findOrphanedBridgeTargets,
   openTopupDatabase,
   releaseProcessLock,
 } from "./state.js";
+import {
+  createTopupScheduler,
+  type TopupScheduler,
+  type TopupSchedulerDependencies,
+  type TopupTargetRunner,
+} from "./targets.js";
 
 const pinoLogger = pino();
 
@@ -40,6 +65,7 @@ type TopupNodeInfo = Awaited<ReturnType<TopupNodeClient["getNodeInfo"]>>;
 type TopupAutoClaimerInstance = Awaited<ReturnType<typeof createTopupAutoClaimer>>;
 type ConfirmedBridgeResult = Parameters<TopupCheckerDependencies["confirm"]>[1];
 type TopupBridgeStateStore = BridgeStateStore;
+type TopupLogger = Pick<Console, "log" | "warn" | "error">;
 type TopupLoopState = {
   intervalHandle?: NodeJS.Timeout;
   inFlightCheck?: Promise<void>;
@@ -52,6 +78,12 @@ interface ServiceAddresses {
   topupTargetAddress: AztecAddress;
 }
 
+interface ResolvedTarget extends ServiceAddresses {
+  target: TopupTarget;
+  bridgeStateStore: TopupBridgeStateStore;
+  logger: TopupLogger;
+}
+
 interface NodeChainInfo {
   l1ChainId: number;
   feeJuicePortalAddress: TopupNodeInfo["l1ContractAddresses"]["feeJuicePortalAddress"];
@@ -63,13 +95,11 @@ interface AutoClaimerState {
   autoClaimerFeeJuiceBalance: bigint | null;
 }
 
-interface StartupLogContext extends ServiceAddresses, NodeChainInfo, AutoClaimerState {
+interface StartupLogContext extends NodeChainInfo, AutoClaimerState {
   config: TopupConfig;
-  threshold: bigint;
-  topUpAmount: bigint;
+  targets: ResolvedTarget[];
   logClaimSecret: boolean;
-  bridgeStateStore: TopupBridgeStateStore;
-  getBalance: GetFeeJuiceBalance;
+  l1OperatorAddress: Hex;
 }
 
 function parseConfigPath(argv: string[]): string {
@@ -84,11 +114,19 @@ function parseNonZeroAddress(rawValue: string, label: string): AztecAddress {
   return parsed;
 }
 
-function resolveServiceAddresses(config: TopupConfig): ServiceAddresses {
-  const fpcAddress = parseNonZeroAddress(config.fpc_address, "fpc_address");
+/**
+ * TOPUP_FEE_JUICE_RECIPIENT_ADDRESS redirects a single target's bridges to
+ * another L2 address; with several targets there is no one FPC it could
+ * stand in for, so it is rejected.
+ */
+function resolveServiceAddresses(config: TopupConfig, target: TopupTarget): ServiceAddresses {
+  const fpcAddress = parseNonZeroAddress(target.fpc_address, "fpc_address");
   const topupTargetAddressEnv = process.env.TOPUP_FEE_JUICE_RECIPIENT_ADDRESS?.trim() ?? "";
+  if (topupTargetAddressEnv.length > 0 && config.targets.length > 1) {
+    throw new Error("TOPUP_FEE_JUICE_RECIPIENT_ADDRESS is only supported with a single target");
+  }
   const topupTargetAddressRaw =
-    topupTargetAddressEnv.length > 0 ? topupTargetAddressEnv : config.fpc_address;
+    topupTargetAddressEnv.length > 0 ? topupTargetAddressEnv : target.fpc_address;
   const topupTargetAddress = parseNonZeroAddress(
     topupTargetAddressRaw,
     "TOPUP_FEE_JUICE_RECIPIENT_ADDRESS",
@@ -96,6 +134,48 @@ function resolveServiceAddresses(config: TopupConfig): ServiceAddresses {
   return { fpcAddress, topupTargetAddress };
 }
 
+/** Adapts a pino child tagged with the target id to the console-style checker logger. */
+function createTargetLogger(targetId: string): TopupLogger {
+  const logger = pinoLogger.child({ target: targetId });
+  const write =
+    (level: "info" | "warn" | "error") =>
+    (...args: unknown[]) => {
+      const message = args.filter((arg) => typeof arg === "string").join(" ");
+      const err = args.find((arg) => typeof arg !== "string");
+      if (err === undefined) {
+        logger[level](message);
+      } else {
+        logger[level]({ err }, message);
+      }
+    };
+  return { log: write("info"), warn: write("warn"), error: write("error") };
+}
+
+function resolveTargets(config: TopupConfig, db: RootDatabase): ResolvedTarget[] {
+  const orphaned = findOrphanedBridgeTargets(
+    db,
+    config.targets.map((target) => target.id),
+  );
+  if (orphaned.length > 0) {
+    throw new Error(
+      `Persisted in-flight bridge state exists for unconfigured target(s) ${orphaned.join(", ")}; ` +
+        "configure them again until their bridges confirm",
+    );
+  }
+  return config.targets.map((target) => {
+    const addresses = resolveServiceAddresses(config, target);
+    return {
+      ...addresses,
+      target,
+      bridgeStateStore: createLmdbBridgeStateStore(db, config.data_dir, {
+        id: target.id,
+        fpcAddress: target.fpc_address,
+      }),
+      logger: createTargetLogger(target.id),
+    };
+  });
+}
+
 function logResolvedOperatorKey(config: TopupConfig): void {
   if (config.l1_operator_private_key_dual_source) {
     pinoLogger.warn(
@@ -184,25 +264,51 @@ function logAutoClaimStartup(
   }
 }
 
-function logStartupDetails(context: StartupLogContext): void {
-  pinoLogger.info("Top-up service started");
-  pinoLogger.info(`  FPC address:   ${context.config.fpc_address}`);
-  pinoLogger.info(`  Top-up target: ${context.topupTargetAddress.toString()}`);
-  if (
-    context.topupTargetAddress.toString().toLowerCase() !==
-    context.fpcAddress.toString().toLowerCase()
-  ) {
+function logTargetStartup(resolved: ResolvedTarget): void {
+  const { target, fpcAddress, topupTargetAddress, bridgeStateStore } = resolved;
+  pinoLogger.info(`  Target ${target.id} (priority ${target.priority}):`);
+  pinoLogger.info(`    FPC address:   ${target.fpc_address}`);
+  pinoLogger.info(`    Top-up target: ${topupTargetAddress.toString()}`);
+  if (topupTargetAddress.toString().toLowerCase() !== fpcAddress.toString().toLowerCase()) {
     pinoLogger.warn(
-      `  Top-up target differs from FPC address; monitoring and claims will target ${context.topupTargetAddress.toString()}`,
+      `    Top-up target differs from FPC address; monitoring and claims will target ${topupTargetAddress.toString()}`,
+    );
+  }
+  if (target.previous_fpc_address) {
+    pinoLogger.info(
+      `    Previous FPC:  ${target.previous_fpc_address} (monitored only, never topped up)`,
+    );
+  }
+  pinoLogger.info(`    Threshold:     ${target.threshold} wei`);
+  pinoLogger.info(`    Top-up amount: ${target.top_up_amount} wei`);
+  if (target.forecast) {
+    pinoLogger.info(
+      `    Forecast:      bridge when empty within ${target.forecast.bridge_latency_seconds + target.forecast.margin_seconds}s, size for ${target.forecast.coverage_seconds}s of burn`,
     );
   }
-  pinoLogger.info(`  Threshold:     ${context.threshold} wei`);
-  pinoLogger.info(`  Top-up amount: ${context.topUpAmount} wei`);
-  pinoLogger.info(`  Bridge state store: ${context.bridgeStateStore.storageLabel}`);
+  pinoLogger.info(`    Bridge state store: ${bridgeStateStore.storageLabel}`);
+}
+
+function logStartupDetails(context: StartupLogContext): void {
+  pinoLogger.info("Top-up service started");
+  for (const target of context.targets) {
+    logTargetStartup(target);
+  }
   pinoLogger.info(`  Check interval: ${context.config.check_interval_ms}ms`);
   pinoLogger.info(`  L1 chain id:   ${context.l1ChainId}`);
+  pinoLogger.info(`  L1 operator:   ${context.l1OperatorAddress}`);
   pinoLogger.info(`  L1 portal:     ${context.feeJuicePortalAddress.toString()}`);
   pinoLogger.info(`  L1 fee juice:  ${context.feeJuiceAddress.toString()}`);
+  const { min_eth_balance, min_fee_juice_balance } = context.config.l1_wallet;
+  if (min_eth_balance !== undefined || min_fee_juice_balance !== undefined) {
+    pinoLogger.info(
+      `  L1 floors:     eth=${min_eth_balance ?? "none"} fee_juice=${min_fee_juice_balance ?? "none"}`,
+    );
+  }
+  const { max_fee_per_gas, priority_fee_per_gas, replacement_timeout_ms } = context.config.l1_gas;
+  pinoLogger.info(
+    `  L1 gas:        max_fee=${max_fee_per_gas ?? "market"} priority_fee=${priority_fee_per_gas ?? "market"} replace_after=${replacement_timeout_ms}ms`,
+  );
   pinoLogger.info(`  Confirm timeout: ${context.config.confirmation_timeout_ms}ms`);
   pinoLogger.info(
     `  Confirm poll:  ${context.config.confirmation_poll_initial_ms}ms -> ${context.config.confirmation_poll_max_ms}ms`,
@@ -220,14 +326,20 @@ function createGetBalanceDependency(
   getBalance: GetFeeJuiceBalance,
   topupTargetAddress: AztecAddress,
   opsState: TopupOpsState,
+  targetId: string,
+  forecast: TopupForecast | undefined,
 ): TopupCheckerDependencies["getBalance"] {
   return async () => {
     try {
       const balance = await getBalance(topupTargetAddress);
-      opsState.recordBalanceCheckSuccess();
+      opsState.recordBalanceCheckSuccess(targetId, balance);
+      if (forecast) {
+        forecast.record(balance);
+        opsState.recordForecast(targetId, forecast.snapshot());
+      }
       return balance;
     } catch (error) {
-      opsState.recordBalanceCheckFailure(error);
+      opsState.recordBalanceCheckFailure(targetId, error);
       throw error;
     }
   };
@@ -289,41 +401,43 @@ function createConfirmDependency(
 
 function createOnBridgeSubmittedDependency(
   opsState: TopupOpsState,
-  bridgeStateStore: TopupBridgeStateStore,
+  resolved: ResolvedTarget,
 ): NonNullable<TopupCheckerDependencies["onBridgeSubmitted"]> {
+  const { bridgeStateStore, target } = resolved;
   return async (baselineBalance, bridgeResult) => {
-    opsState.recordBridgeEvent("submitted");
+    opsState.recordBridgeEvent(target.id, "submitted");
     // Fail-closed: if we cannot persist the bridge record, let the error propagate.
     // The L1 tx is already submitted, but failing here triggers onBridgeFailed in the
     // checker, and crashing forces reconciliation on restart — safer than losing the record.
     await bridgeStateStore.write(baselineBalance, bridgeResult);
     pinoLogger.info(
-      `Persisted in-flight bridge metadata message_hash=${bridgeResult.messageHash} leaf_index=${bridgeResult.messageLeafIndex}`,
+      `Persisted in-flight bridge metadata target=${target.id} message_hash=${bridgeResult.messageHash} leaf_index=${bridgeResult.messageLeafIndex}`,
     );
   };
 }
 
 function createOnBridgeSettledDependency(
   opsState: TopupOpsState,
-  bridgeStateStore: TopupBridgeStateStore,
+  resolved: ResolvedTarget,
 ): NonNullable<TopupCheckerDependencies["onBridgeSettled"]> {
+  const { bridgeStateStore, target } = resolved;
   return async (_baselineBalance, bridgeResult, confirmation) => {
-    opsState.recordBridgeEvent(confirmation.status);
+    opsState.recordBridgeEvent(target.id, confirmation.status);
     if (confirmation.status !== "confirmed") {
       pinoLogger.warn(
-        `Retaining persisted bridge metadata message_hash=${bridgeResult.messageHash} outcome=${confirmation.status}`,
+        `Retaining persisted bridge metadata target=${target.id} message_hash=${bridgeResult.messageHash} outcome=${confirmation.status}`,
       );
       return;
     }
     try {
-      await bridgeStateStore.clear();
+      await bridgeStateStore.clear(bridgeResult.messageHash);
       pinoLogger.info(
-        `Cleared persisted bridge metadata message_hash=${bridgeResult.messageHash} outcome=${confirmation.status}`,
+        `Cleared persisted bridge metadata target=${target.id} message_hash=${bridgeResult.messageHash} outcome=${confirmation.status}`,
       );
     } catch (error) {
       pinoLogger.warn(
         { err: error },
-        `Failed to clear persisted bridge metadata message_hash=${bridgeResult.messageHash} after confirmed bridge`,
+        `Failed to clear persisted bridge metadata target=${target.id} message_hash=${bridgeResult.messageHash} after confirmed bridge`,
       );
     }
   };
@@ -333,40 +447,80 @@ function buildCheckerDependencies(args: {
   pxe: TopupNodeClient;
   config: TopupConfig;
   l1ChainId: number;
-  topupTargetAddress: AztecAddress;
+  l1Queue: L1SubmissionQueue;
+  resolved: ResolvedTarget;
   getBalance: GetFeeJuiceBalance;
-  bridgeStateStore: TopupBridgeStateStore;
   shutdownController: AbortController;
   autoClaimer: TopupAutoClaimer | null;
   opsState: TopupOpsState;
+  forecast: TopupForecast | undefined;
 }): TopupCheckerDependencies {
+  const { resolved, opsState } = args;
   return {
-    getBalance: createGetBalanceDependency(args.getBalance, args.topupTargetAddress, args.opsState),
-    bridge: (amount) =>
-      bridgeFeeJuice(
-        args.pxe,
-        args.config.l1_rpc_url,
-        args.l1ChainId,
-        args.config.l1_operator_private_key,
-        args.topupTargetAddress,
-        amount,
+    getBalance: createGetBalanceDependency(
+      args.getBalance,
+      resolved.topupTargetAddress,
+      opsState,
+      resolved.target.id,
+      args.forecast,
+    ),
+    bridge: (amount, { critical, baselineBalance }) =>
+      args.l1Queue.run(() =>
+        bridgeFeeJuice(
+          args.pxe,
+          args.config.l1_rpc_url,
+          args.l1ChainId,
+          args.config.l1_operator_private_key,
+          resolved.topupTargetAddress,
+          amount,
+          {
+            feeManagement: {
+              policy: args.config.l1_gas,
+              deposits: resolved.bridgeStateStore,
+              baselineBalance,
+              allowAboveCap: critical,
+            },
+          },
+        ),
       ),
     confirm: createConfirmDependency(
       args.getBalance,
-      args.topupTargetAddress,
+      resolved.topupTargetAddress,
       args.config,
       args.pxe,
       args.shutdownController,
       args.autoClaimer,
     ),
-    onBridgeSubmitted: createOnBridgeSubmittedDependency(args.opsState, args.bridgeStateStore),
-    onBridgeSettled: createOnBridgeSettledDependency(args.opsState, args.bridgeStateStore),
+    onBridgeSubmitted: createOnBridgeSubmittedDependency(opsState, resolved),
+    onBridgeSettled: createOnBridgeSettledDependency(opsState, resolved),
     onBridgeFailed: () => {
-      args.opsState.recordBridgeEvent("failed");
+      opsState.recordBridgeEvent(resolved.target.id, "failed");
     },
+    forecast: args.forecast,
+    logger: resolved.logger,
   };
 }
 
+function createPreviousFpcMonitorDependency(
+  resolved: ResolvedTarget,
+  getBalance: GetFeeJuiceBalance,
+  opsState: TopupOpsState,
+): PreviousFpcMonitor | null {
+  const { target } = resolved;
+  if (!target.previous_fpc_address) {
+    return null;
+  }
+  const previousFpcAddress = parseNonZeroAddress(
+    target.previous_fpc_address,
+    "previous_fpc_address",
+  );
+  return createPreviousFpcMonitor(target.previous_fpc_address, {
+    getBalance: () => getBalance(previousFpcAddress),
+    recordBalance: (balance) => opsState.recordPreviousFpcBalance(target.id, balance),
+    logger: resolved.logger,
+  });
+}
+
 function createLoopState(): TopupLoopState {
   let shutdownResolve: (() => void) | undefined;
   const shutdownPromise = new Promise<void>((resolve) => {
@@ -381,7 +535,7 @@ function createLoopState(): TopupLoopState {
 function registerShutdownHandlers(args: {
   shutdownController: AbortController;
   opsState: TopupOpsState;
-  checker: TopupChecker;
+  scheduler: TopupScheduler;
   loopState: TopupLoopState;
   opsServer: TopupOpsServer;
   lockPath: string;
@@ -393,7 +547,7 @@ function registerShutdownHandlers(args: {
     }
     pinoLogger.info(`Received ${signal}. Starting graceful shutdown...`);
     args.opsState.markShutdownRequested();
-    args.checker.requestStop();
+    args.scheduler.requestStop();
     args.shutdownController.abort();
     if (args.loopState.intervalHandle) {
       clearInterval(args.loopState.intervalHandle);
@@ -402,6 +556,7 @@ function registerShutdownHandlers(args: {
     void (async () => {
       try {
         await args.loopState.inFlightCheck;
+        await args.scheduler.drain();
         await args.opsServer.close();
       } catch (error) {
         pinoLogger.error({ err: error }, "Failed to stop top-up ops server cleanly:");
@@ -421,20 +576,21 @@ function registerShutdownHandlers(args: {
 const RECONCILIATION_MAX_AGE_MS = 24 * 60 * 60 * 1_000; // 24 hours
 
 function createReconciliationRunner(args: {
-  bridgeStateStore: TopupBridgeStateStore;
+  resolved: ResolvedTarget;
   getBalance: GetFeeJuiceBalance;
   pxe: TopupNodeClient;
-  topupTargetAddress: AztecAddress;
   config: TopupConfig;
   shutdownController: AbortController;
   autoClaimer: TopupAutoClaimerInstance | null;
-}): () => Promise<boolean> {
-  return async () => {
+}): TopupTargetRunner["reconcile"] {
+  const { bridgeStateStore, topupTargetAddress, target } = args.resolved;
+  return async (persisted) => {
     const outcome = await reconcilePersistedBridgeState({
-      stateStore: args.bridgeStateStore,
+      stateStore: bridgeStateStore,
+      persisted,
       getBalance: args.getBalance,
       node: args.pxe,
-      fpcAddress: args.topupTargetAddress,
+      fpcAddress: topupTargetAddress,
       timeoutMs: args.config.confirmation_timeout_ms,
       initialPollMs: args.config.confirmation_poll_initial_ms,
       maxPollMs: args.config.confirmation_poll_max_ms,
@@ -445,7 +601,7 @@ function createReconciliationRunner(args: {
             if (!persisted.claimSecret) return undefined;
             return async () => {
               const txHash = await args.autoClaimer?.claim({
-                recipient: args.topupTargetAddress,
+                recipient: topupTargetAddress,
                 amount: BigInt(persisted.amount),
                 claimSecret: persisted.claimSecret,
                 messageLeafIndex: BigInt(persisted.messageLeafIndex),
@@ -456,7 +612,7 @@ function createReconciliationRunner(args: {
                 ),
               });
               pinoLogger.info(
-                `Reconciliation auto-claim submitted message_hash=${persisted.messageHash} tx_hash=${txHash}`,
+                `Reconciliation auto-claim submitted target=${target.id} message_hash=${persisted.messageHash} tx_hash=${txHash}`,
               );
             };
           }
@@ -465,11 +621,110 @@ function createReconciliationRunner(args: {
 
     if (outcome === "timeout") {
       pinoLogger.warn(
-        "Skipping new bridge submission: persisted bridge reconciliation did not complete yet",
+        `Persisted bridge for target ${target.id} still in flight message_hash=${persisted.messageHash}; retrying next cycle`,
       );
-      return false;
     }
-    return outcome !== "aborted";
+  };
+}
+
+function createDepositResumer(args: {
+  resolved: ResolvedTarget;
+  config: TopupConfig;
+  l1ChainId: number;
+  l1Queue: L1SubmissionQueue;
+}): NonNullable<TopupTargetRunner["deposits"]>["resume"] {
+  const { bridgeStateStore, target } = args.resolved;
+  return async (deposit) => {
+    pinoLogger.warn(
+      `Resuming bridge left unfinished by an earlier run target=${target.id} claim_secret_hash=${deposit.claimSecretHash} step=${deposit.step} nonce=${deposit.transaction.nonce}`,
+    );
+    const result = await args.l1Queue.run(() =>
+      resumeBridgeDeposit(
+        args.config.l1_rpc_url,
+        args.l1ChainId,
+        args.config.l1_operator_private_key,
+        deposit,
+        { policy: args.config.l1_gas, stateStore: bridgeStateStore },
+      ),
+    );
+    if (result) {
+      pinoLogger.info(
+        `Persisted in-flight bridge metadata target=${target.id} message_hash=${result.messageHash} leaf_index=${result.messageLeafIndex}`,
+      );
+    }
+  };
+}
+
+function createTargetRunner(args: {
+  pxe: TopupNodeClient;
+  config: TopupConfig;
+  l1ChainId: number;
+  l1Queue: L1SubmissionQueue;
+  resolved: ResolvedTarget;
+  getBalance: GetFeeJuiceBalance;
+  shutdownController: AbortController;
+  autoClaimer: TopupAutoClaimerInstance | null;
+  opsState: TopupOpsState;
+  logClaimSecret: boolean;
+}): TopupTargetRunner {
+  const { target } = args.resolved;
+  const threshold = BigInt(target.threshold);
+  const topUpAmount = BigInt(target.top_up_amount);
+  const forecast = target.forecast
+    ? createBurnRateForecast(target.forecast, { threshold, topUpAmount })
+    : undefined;
+  const checkerDeps = buildCheckerDependencies({ ...args, forecast });
+  const previousFpcMonitor = createPreviousFpcMonitorDependency(
+    args.resolved,
+    args.getBalance,
+    args.opsState,
+  );
+  return {
+    id: target.id,
+    priority: target.priority,
+    threshold,
+    checker: createTopupChecker(
+      {
+        threshold,
+        topUpAmount,
+        logClaimSecret: args.logClaimSecret,
+        maxInFlight: args.config.max_in_flight_bridges,
+        criticalThreshold: (threshold * BigInt(args.config.l1_gas.critical_balance_percent)) / 100n,
+      },
+      checkerDeps,
+    ),
+    getBalance: checkerDeps.getBalance,
+    listPersisted: () => listPersistedBridges(args.resolved.bridgeStateStore),
+    reconcile: createReconciliationRunner(args),
+    deposits: {
+      list: () => listBridgeDeposits(args.resolved.bridgeStateStore),
+      resume: createDepositResumer(args),
+    },
+    afterCheck: previousFpcMonitor ? () => previousFpcMonitor.check() : undefined,
+  };
+}
+
+function optionalBigInt(value: string | undefined): bigint | undefined {
+  return value === undefined ? undefined : BigInt(value);
+}
+
+function createL1BudgetDependency(
+  config: TopupConfig,
+  feeJuiceAddress: Hex,
+  l1OperatorAddress: Hex,
+  opsState: TopupOpsState,
+): NonNullable<TopupSchedulerDependencies["getL1Budget"]> {
+  const readWallet = createL1WalletReader(config.l1_rpc_url, feeJuiceAddress, l1OperatorAddress);
+  const bridgeGasLimit = BigInt(config.l1_wallet.bridge_gas_limit);
+  return async () => {
+    const wallet = await readWallet();
+    opsState.recordL1Wallet(wallet);
+    return {
+      feeJuice: wallet.feeJuice,
+      eth: wallet.eth,
+      bridgeGasCost: wallet.maxFeePerGas * bridgeGasLimit,
+      gasAboveCap: isGasAboveCap(config.l1_gas, wallet.maxFeePerGas),
+    };
   };
 }
 
@@ -477,7 +732,6 @@ function createCycleRunner(args: {
   shutdownController: AbortController;
   loopState: TopupLoopState;
   runCheck: () => Promise<void>;
-  runReconciliation: () => Promise<boolean>;
 }): () => Promise<void> {
   return async () => {
     if (args.shutdownController.signal.aborted) {
@@ -487,12 +741,8 @@ function createCycleRunner(args: {
       return args.loopState.inFlightCheck;
     }
 
-    args.loopState.inFlightCheck = (async () => {
-      if (!(await args.runReconciliation())) {
-        return;
-      }
-      await args.runCheck();
-    })()
+    args.loopState.inFlightCheck = args
+      .runCheck()
       .catch((error) => {
         pinoLogger.error({ err: error }, "Top-up check failed:");
       })
@@ -530,18 +780,18 @@ async function main(): Promise<void> {
   logResolvedOperatorKey(config);
 
   const pxe = createAztecNodeClient(config.aztec_node_url);
-  const { fpcAddress, topupTargetAddress } = resolveServiceAddresses(config);
+  for (const target of config.targets) {
+    resolveServiceAddresses(config, target);
+  }
   const { l1ChainId, feeJuicePortalAddress, feeJuiceAddress } = await resolveNodeChainInfo(
     pxe,
     config,
   );
 
-  const threshold = BigInt(config.threshold);
-  const topUpAmount = BigInt(config.top_up_amount);
   const logClaimSecret = config.runtime_profile === "development";
   const autoClaimEnabled = process.env.TOPUP_AUTOCLAIM_ENABLED !== "0";
+  const l1OperatorAddress = privateKeyToAccount(config.l1_operator_private_key as Hex).address;
   const db = await openTopupDatabase(config.data_dir);
-  const bridgeStateStore = createLmdbBridgeStateStore(db, config.data_dir);
   const lockPath = nodePath.join(config.data_dir, ".topup.lock");
   await acquireProcessLock(lockPath);
 
@@ -549,60 +799,70 @@ async function main(): Promise<void> {
   // must be wrapped so the lock is released if startup fails. Without this,
   // a crash during initialization (e.g. node connection, balance reader)
   // leaves a stale lock file that blocks the next restart.
-  let getBalance: GetFeeJuiceBalance;
-  let autoClaimer: TopupAutoClaimerInstance | null;
   let shutdownController: AbortController;
   let opsState: TopupOpsState;
   let opsServer: TopupOpsServer;
-  let checker: TopupChecker;
+  let scheduler: TopupScheduler;
   let loopState: TopupLoopState;
   try {
-    getBalance = createGetFeeJuiceBalance(pxe);
-    const autoClaimerState = await resolveAutoClaimerState(
+    const targets = resolveTargets(config, db);
+    const getBalance = createGetFeeJuiceBalance(pxe);
+    const { autoClaimer, autoClaimerFeeJuiceBalance } = await resolveAutoClaimerState(
       autoClaimEnabled,
       pxe,
       getBalance,
       config.runtime_profile,
     );
-    autoClaimer = autoClaimerState.autoClaimer;
-    const autoClaimerFeeJuiceBalance = autoClaimerState.autoClaimerFeeJuiceBalance;
 
     shutdownController = new AbortController();
     opsState = new TopupOpsState({
       checkIntervalMs: config.check_interval_ms,
+      targets: targets.map((resolved) => resolved.target.id),
+      l1WalletFloors: {
+        minEthBalance: optionalBigInt(config.l1_wallet.min_eth_balance),
+        minFeeJuiceBalance: optionalBigInt(config.l1_wallet.min_fee_juice_balance),
+      },
     });
     opsServer = createTopupOpsServer(opsState);
     await opsServer.listen("0.0.0.0", config.ops_port);
 
     logStartupDetails({
       config,
-      fpcAddress,
-      topupTargetAddress,
+      targets,
       l1ChainId,
       feeJuicePortalAddress,
       feeJuiceAddress,
-      threshold,
-      topUpAmount,
       logClaimSecret,
-      bridgeStateStore,
-      getBalance,
+      l1OperatorAddress,
       autoClaimer,
       autoClaimerFeeJuiceBalance,
     });
 
-    checker = createTopupChecker(
-      { threshold, topUpAmount, logClaimSecret },
-      buildCheckerDependencies({
-        pxe,
-        config,
-        l1ChainId,
-        topupTargetAddress,
-        getBalance,
-        bridgeStateStore,
-        shutdownController,
-        autoClaimer,
-        opsState,
-      }),
+    // One queue for every target: they all bridge from the same L1 operator wallet.
+    const l1Queue = createL1SubmissionQueue();
+    const runnerArgs = {
+      pxe,
+      config,
+      l1ChainId,
+      l1Queue,
+      getBalance,
+      shutdownController,
+      autoClaimer,
+      opsState,
+      logClaimSecret,
+    };
+    const currentOpsState = opsState;
+    scheduler = createTopupScheduler(
+      targets.map((resolved) => createTargetRunner({ ...runnerArgs, resolved })),
+      {
+        getL1Budget: createL1BudgetDependency(
+          config,
+          feeJuiceAddress.toString() as Hex,
+          l1OperatorAddress,
+          currentOpsState,
+        ),
+        onDeferred: (need) => currentOpsState.recordTopupDeferred(need.id),
+      },
     );
 
     loopState = createLoopState();
@@ -615,27 +875,17 @@ async function main(): Promise<void> {
   registerShutdownHandlers({
     shutdownController,
     opsState,
-    checker,
+    scheduler,
     loopState,
     opsServer,
     lockPath,
     db,
   });
 
-  const runReconciliation = createReconciliationRunner({
-    bridgeStateStore,
-    getBalance,
-    pxe,
-    topupTargetAddress,
-    config,
-    shutdownController,
-    autoClaimer,
-  });
   const runCycle = createCycleRunner({
     shutdownController,
     loopState,
-    runCheck: () => checker.checkAndTopUp(),
-    runReconciliation,
+    runCheck: () => scheduler.runCycle(),
   });
 
   await runServiceLoop(config.check_interval_ms, shutdownController, loopState, runCycle);
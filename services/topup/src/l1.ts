@@ -1,4 +1,4 @@
-import { createPublicClient, http } from "viem";
+import { createPublicClient, erc20Abi, type Hex, http } from "viem";
 
 export interface L1ChainDeps {
   createPublicClient: typeof createPublicClient;
@@ -29,3 +29,62 @@ export async function assertL1RpcChainIdMatches(
     );
   }
 }
+
+export interface L1WalletBalances {
+  /** ETH available for gas, in wei. */
+  eth: bigint;
+  /** Fee Juice tokens available to bridge, in wei. */
+  feeJuice: bigint;
+  /** Current EIP-1559 max fee per gas, used to price a bridge. */
+  maxFeePerGas: bigint;
+}
+
+/**
+ * Returns a reader for the operator wallet's ETH and Fee Juice token
+ * balances, which bound how many bridges the service can pay for.
+ */
+export function createL1WalletReader(
+  l1RpcUrl: string,
+  feeJuiceAddress: Hex,
+  operatorAddress: Hex,
+  depsOverride: Partial<L1ChainDeps> = {},
+): () => Promise<L1WalletBalances> {
+  const deps: L1ChainDeps = { ...DEFAULT_L1_CHAIN_DEPS, ...depsOverride };
+  const publicClient = deps.createPublicClient({
+    transport: deps.http(l1RpcUrl),
+  });
+  return async () => {
+    const [eth, feeJuice, fees] = await Promise.all([
+      publicClient.getBalance({ address: operatorAddress }),
+      publicClient.readContract({
+        address: feeJuiceAddress,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [operatorAddress],
+      }),
+      publicClient.estimateFeesPerGas(),
+    ]);
+    return { eth, feeJuice, maxFeePerGas: fees.maxFeePerGas };
+  };
+}
+
+export interface L1SubmissionQueue {
+  run<T>(submit: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Serialises submissions from the shared L1 operator wallet. A bridge sends
+ * its approve and deposit transactions and waits for their receipts, so
+ * running one bridge at a time lets each transaction take the next nonce
+ * instead of racing another target's bridge for the same one.
+ */
+export function createL1SubmissionQueue(): L1SubmissionQueue {
+  let tail: Promise<unknown> = Promise.resolve();
+  return {
+    run<T>(submit: () => Promise<T>): Promise<T> {
+      const result = tail.then(submit);
+      tail = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
@@ -1,4 +1,6 @@
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { ForecastSnapshot } from "./forecast.js";
+import type { L1WalletBalances } from "./l1.js";
 
 export type BridgeMetricEvent = "submitted" | "confirmed" | "timeout" | "aborted" | "failed";
 
@@ -13,22 +15,36 @@ const BRIDGE_EVENTS: BridgeMetricEvent[] = [
 interface TopupReadinessReason {
   code: string;
   message: string;
+  /** Target the reason applies to; absent for service-wide reasons. */
+  target?: string;
+}
+
+interface TopupTargetChecks {
+  successful_balance_checks: number;
+  failed_balance_checks: number;
+  last_balance_check_ok: boolean;
+  last_balance_check_age_seconds: number | null;
 }
 
 export interface TopupReadinessSnapshot {
   ready: boolean;
   status: "ready" | "not_ready";
   reasons: TopupReadinessReason[];
-  checks: {
-    successful_balance_checks: number;
-    failed_balance_checks: number;
-    last_balance_check_ok: boolean;
-    last_balance_check_age_seconds: number | null;
+  /** Totals across targets; the age is that of the least recently checked target. */
+  checks: TopupTargetChecks & {
+    targets: Record<string, TopupTargetChecks>;
   };
 }
 
 export interface TopupOpsStateOptions {
   checkIntervalMs: number;
+  /** Target ids; each must pass its balance checks for the service to be ready. */
+  targets: string[];
+  /** The service is not ready while the L1 operator wallet is below these balances. */
+  l1WalletFloors?: {
+    minEthBalance?: bigint;
+    minFeeJuiceBalance?: bigint;
+  };
 }
 
 function formatErrorMessage(error: unknown): string {
@@ -39,40 +55,90 @@ function formatErrorMessage(error: unknown): string {
   return String(error);
 }
 
+class TargetOpsState {
+  readonly bridgeEventTotals = new Map<BridgeMetricEvent, number>(
+    BRIDGE_EVENTS.map((event) => [event, 0]),
+  );
+  successfulBalanceChecks = 0;
+  failedBalanceChecks = 0;
+  lastBalanceCheckAtMs: number | undefined;
+  lastBalanceCheckOk = false;
+  lastBalanceCheckError: string | undefined;
+  balance: bigint | undefined;
+  deferredTopups = 0;
+  previousFpcBalance: bigint | undefined;
+  forecast: ForecastSnapshot | undefined;
+
+  checks(nowMs: number): TopupTargetChecks {
+    return {
+      successful_balance_checks: this.successfulBalanceChecks,
+      failed_balance_checks: this.failedBalanceChecks,
+      last_balance_check_ok: this.lastBalanceCheckOk,
+      last_balance_check_age_seconds:
+        this.lastBalanceCheckAtMs === undefined
+          ? null
+          : Math.max(0, Math.floor((nowMs - this.lastBalanceCheckAtMs) / 1000)),
+    };
+  }
+}
+
+function describeTarget(target: string, multiTarget: boolean): string {
+  return multiTarget ? ` for target ${target}` : "";
+}
+
 export class TopupOpsState {
   private readonly startedAtMs = Date.now();
   private readonly staleBalanceCheckAfterMs: number;
-  private readonly bridgeEventTotals = new Map<BridgeMetricEvent, number>();
-  private successfulBalanceChecks = 0;
-  private failedBalanceChecks = 0;
-  private lastBalanceCheckAtMs: number | undefined;
-  private lastBalanceCheckOk = false;
-  private lastBalanceCheckError: string | undefined;
+  private readonly targets = new Map<string, TargetOpsState>();
+  private readonly l1WalletFloors: NonNullable<TopupOpsStateOptions["l1WalletFloors"]>;
+  private l1Wallet: Pick<L1WalletBalances, "eth" | "feeJuice"> | undefined;
   private shutdownRequested = false;
 
   constructor(options: TopupOpsStateOptions) {
     this.staleBalanceCheckAfterMs = Math.max(options.checkIntervalMs * 3, 30_000);
-    for (const event of BRIDGE_EVENTS) {
-      this.bridgeEventTotals.set(event, 0);
+    this.l1WalletFloors = options.l1WalletFloors ?? {};
+    for (const target of options.targets) {
+      this.targets.set(target, new TargetOpsState());
     }
   }
 
-  recordBalanceCheckSuccess(): void {
-    this.successfulBalanceChecks += 1;
-    this.lastBalanceCheckAtMs = Date.now();
-    this.lastBalanceCheckOk = true;
-    this.lastBalanceCheckError = undefined;
+  recordBalanceCheckSuccess(target: string, balance: bigint): void {
+    const state = this.target(target);
+    state.successfulBalanceChecks += 1;
+    state.lastBalanceCheckAtMs = Date.now();
+    state.lastBalanceCheckOk = true;
+    state.lastBalanceCheckError = undefined;
+    state.balance = balance;
+  }
+
+  recordBalanceCheckFailure(target: string, error: unknown): void {
+    const state = this.target(target);
+    state.failedBalanceChecks += 1;
+    state.lastBalanceCheckAtMs = Date.now();
+    state.lastBalanceCheckOk = false;
+    state.lastBalanceCheckError = formatErrorMessage(error);
+  }
+
+  recordBridgeEvent(target: string, event: BridgeMetricEvent): void {
+    const totals = this.target(target).bridgeEventTotals;
+    totals.set(event, (totals.get(event) ?? 0) + 1);
   }
 
-  recordBalanceCheckFailure(error: unknown): void {
-    this.failedBalanceChecks += 1;
-    this.lastBalanceCheckAtMs = Date.now();
-    this.lastBalanceCheckOk = false;
-    this.lastBalanceCheckError = formatErrorMessage(error);
+  /** A top-up the target needed but the L1 wallet could not cover this cycle. */
+  recordTopupDeferred(target: string): void {
+    this.target(target).deferredTopups += 1;
   }
 
-  recordBridgeEvent(event: BridgeMetricEvent): void {
-    this.bridgeEventTotals.set(event, (this.bridgeEventTotals.get(event) ?? 0) + 1);
+  recordPreviousFpcBalance(target: string, balance: bigint): void {
+    this.target(target).previousFpcBalance = balance;
+  }
+
+  recordForecast(target: string, forecast: ForecastSnapshot): void {
+    this.target(target).forecast = forecast;
+  }
+
+  recordL1Wallet(balances: Pick<L1WalletBalances, "eth" | "feeJuice">): void {
+    this.l1Wallet = { eth: balances.eth, feeJuice: balances.feeJuice };
   }
 
   markShutdownRequested(): void {
@@ -81,10 +147,6 @@ export class TopupOpsState {
 
   snapshotReadiness(nowMs = Date.now()): TopupReadinessSnapshot {
     const reasons: TopupReadinessReason[] = [];
-    const lastBalanceCheckAgeSeconds =
-      this.lastBalanceCheckAtMs === undefined
-        ? null
-        : Math.max(0, Math.floor((nowMs - this.lastBalanceCheckAtMs) / 1000));
 
     if (this.shutdownRequested) {
       reasons.push({
@@ -93,32 +155,16 @@ export class TopupOpsState {
       });
     }
 
-    if (this.successfulBalanceChecks === 0) {
-      reasons.push({
-        code: "no_successful_balance_checks",
-        message: "No successful Fee Juice balance checks yet",
-      });
-    }
-
-    if (!this.lastBalanceCheckOk && this.failedBalanceChecks > 0) {
-      reasons.push({
-        code: "last_balance_check_failed",
-        message: this.lastBalanceCheckError
-          ? `Last Fee Juice balance check failed: ${this.lastBalanceCheckError}`
-          : "Last Fee Juice balance check failed",
-      });
-    }
-
-    if (
-      this.lastBalanceCheckAtMs !== undefined &&
-      nowMs - this.lastBalanceCheckAtMs > this.staleBalanceCheckAfterMs
-    ) {
-      reasons.push({
-        code: "balance_check_stale",
-        message: `Last Fee Juice balance check is stale (> ${this.staleBalanceCheckAfterMs}ms)`,
-      });
+    const multiTarget = this.targets.size > 1;
+    const checksByTarget: Record<string, TopupTargetChecks> = {};
+    for (const [target, state] of this.targets) {
+      checksByTarget[target] = state.checks(nowMs);
+      reasons.push(...this.targetReasons(target, state, nowMs, multiTarget));
     }
+    reasons.push(...this.l1WalletReasons());
 
+    const all = Object.values(checksByTarget);
+    const ages = all.map((checks) => checks.last_balance_check_age_seconds);
     const ready = reasons.length === 0;
 
     return {
@@ -126,10 +172,13 @@ export class TopupOpsState {
       status: ready ? "ready" : "not_ready",
       reasons,
       checks: {
-        successful_balance_checks: this.successfulBalanceChecks,
-        failed_balance_checks: this.failedBalanceChecks,
-        last_balance_check_ok: this.lastBalanceCheckOk,
-        last_balance_check_age_seconds: lastBalanceCheckAgeSeconds,
+        successful_balance_checks: all.reduce((sum, c) => sum + c.successful_balance_checks, 0),
+        failed_balance_checks: all.reduce((sum, c) => sum + c.failed_balance_checks, 0),
+        last_balance_check_ok: all.every((checks) => checks.last_balance_check_ok),
+        last_balance_check_age_seconds: ages.includes(null)
+          ? null
+          : Math.max(...(ages as number[])),
+        targets: checksByTarget,
       },
     };
   }
@@ -137,21 +186,42 @@ export class TopupOpsState {
   renderPrometheus(nowMs = Date.now()): string {
     const readiness = this.snapshotReadiness(nowMs);
     const lines: string[] = [
-      "# HELP topup_bridge_events_total Count of top-up bridge lifecycle events by outcome.",
+      "# HELP topup_bridge_events_total Count of top-up bridge lifecycle events by target and outcome.",
       "# TYPE topup_bridge_events_total counter",
     ];
 
-    for (const event of BRIDGE_EVENTS) {
+    for (const [target, state] of this.targets) {
+      for (const event of BRIDGE_EVENTS) {
+        lines.push(
+          `topup_bridge_events_total{target="${target}",event="${event}"} ${state.bridgeEventTotals.get(event) ?? 0}`,
+        );
+      }
+    }
+
+    lines.push(
+      "# HELP topup_balance_checks_total Count of Fee Juice balance checks by target and outcome.",
+      "# TYPE topup_balance_checks_total counter",
+    );
+    for (const [target, state] of this.targets) {
       lines.push(
-        `topup_bridge_events_total{event="${event}"} ${this.bridgeEventTotals.get(event) ?? 0}`,
+        `topup_balance_checks_total{target="${target}",outcome="success"} ${state.successfulBalanceChecks}`,
+        `topup_balance_checks_total{target="${target}",outcome="error"} ${state.failedBalanceChecks}`,
       );
     }
 
     lines.push(
-      "# HELP topup_balance_checks_total Count of Fee Juice balance checks by outcome.",
-      "# TYPE topup_balance_checks_total counter",
-      `topup_balance_checks_total{outcome="success"} ${this.successfulBalanceChecks}`,
-      `topup_balance_checks_total{outcome="error"} ${this.failedBalanceChecks}`,
+      "# HELP topup_deferred_topups_total Top-ups deferred because the L1 wallet could not cover them.",
+      "# TYPE topup_deferred_topups_total counter",
+    );
+    for (const [target, state] of this.targets) {
+      lines.push(`topup_deferred_topups_total{target="${target}"} ${state.deferredTopups}`);
+    }
+
+    this.renderBalanceGauges(lines);
+    this.renderForecastGauges(lines);
+    this.renderL1WalletGauges(lines);
+
+    lines.push(
       "# HELP topup_readiness_status 1 when service is ready, 0 otherwise.",
       "# TYPE topup_readiness_status gauge",
       `topup_readiness_status ${readiness.ready ? 1 : 0}`,
@@ -162,6 +232,163 @@ export class TopupOpsState {
 
     return `${lines.join("\n")}\n`;
   }
+
+  private renderBalanceGauges(lines: string[]): void {
+    const targets = [...this.targets];
+    const balances = targets.filter(([, state]) => state.balance !== undefined);
+    if (balances.length > 0) {
+      lines.push(
+        "# HELP topup_fee_juice_balance Last observed Fee Juice balance of each target FPC.",
+        "# TYPE topup_fee_juice_balance gauge",
+        ...balances.map(
+          ([target, state]) => `topup_fee_juice_balance{target="${target}"} ${state.balance}`,
+        ),
+      );
+    }
+
+    const previous = targets.filter(([, state]) => state.previousFpcBalance !== undefined);
+    if (previous.length > 0) {
+      lines.push(
+        "# HELP topup_previous_fpc_fee_juice_balance Last observed Fee Juice balance of the FPC replaced by key rotation.",
+        "# TYPE topup_previous_fpc_fee_juice_balance gauge",
+        ...previous.map(
+          ([target, state]) =>
+            `topup_previous_fpc_fee_juice_balance{target="${target}"} ${state.previousFpcBalance}`,
+        ),
+      );
+    }
+  }
+
+  private renderForecastGauges(lines: string[]): void {
+    const forecasts = [...this.targets].flatMap(([target, state]) =>
+      state.forecast ? [[target, state.forecast] as const] : [],
+    );
+    if (forecasts.length === 0) {
+      return;
+    }
+
+    lines.push(
+      "# HELP topup_forecast_samples Balance samples in the burn-rate window.",
+      "# TYPE topup_forecast_samples gauge",
+      ...forecasts.map(
+        ([target, forecast]) => `topup_forecast_samples{target="${target}"} ${forecast.samples}`,
+      ),
+      "# HELP topup_forecast_top_up_amount Bridge size the forecast would choose now, in wei.",
+      "# TYPE topup_forecast_top_up_amount gauge",
+      ...forecasts.map(
+        ([target, forecast]) =>
+          `topup_forecast_top_up_amount{target="${target}"} ${forecast.topUpAmount}`,
+      ),
+    );
+
+    const burning = forecasts.filter(([, forecast]) => forecast.burnRateWeiPerSecond !== undefined);
+    if (burning.length > 0) {
+      lines.push(
+        "# HELP topup_burn_rate_wei_per_second Average Fee Juice consumed per second over the forecast window.",
+        "# TYPE topup_burn_rate_wei_per_second gauge",
+        ...burning.map(
+          ([target, forecast]) =>
+            `topup_burn_rate_wei_per_second{target="${target}"} ${forecast.burnRateWeiPerSecond}`,
+        ),
+      );
+    }
+
+    const emptying = forecasts.filter(([, forecast]) => forecast.secondsToEmpty !== undefined);
+    if (emptying.length > 0) {
+      lines.push(
+        "# HELP topup_seconds_to_empty Projected seconds until the target FPC runs out of Fee Juice.",
+        "# TYPE topup_seconds_to_empty gauge",
+        ...emptying.map(
+          ([target, forecast]) =>
+            `topup_seconds_to_empty{target="${target}"} ${Math.floor(forecast.secondsToEmpty ?? 0)}`,
+        ),
+      );
+    }
+  }
+
+  private renderL1WalletGauges(lines: string[]): void {
+    if (!this.l1Wallet) {
+      return;
+    }
+    lines.push(
+      "# HELP topup_l1_eth_balance Last observed ETH balance of the L1 operator wallet, in wei.",
+      "# TYPE topup_l1_eth_balance gauge",
+      `topup_l1_eth_balance ${this.l1Wallet.eth}`,
+      "# HELP topup_l1_fee_juice_balance Last observed Fee Juice token balance of the L1 operator wallet.",
+      "# TYPE topup_l1_fee_juice_balance gauge",
+      `topup_l1_fee_juice_balance ${this.l1Wallet.feeJuice}`,
+    );
+  }
+
+  private l1WalletReasons(): TopupReadinessReason[] {
+    const reasons: TopupReadinessReason[] = [];
+    const { minEthBalance, minFeeJuiceBalance } = this.l1WalletFloors;
+    if (!this.l1Wallet) {
+      return reasons;
+    }
+    if (minEthBalance !== undefined && this.l1Wallet.eth < minEthBalance) {
+      reasons.push({
+        code: "l1_eth_balance_low",
+        message: `L1 operator wallet ETH balance ${this.l1Wallet.eth} wei is below ${minEthBalance} wei`,
+      });
+    }
+    if (minFeeJuiceBalance !== undefined && this.l1Wallet.feeJuice < minFeeJuiceBalance) {
+      reasons.push({
+        code: "l1_fee_juice_balance_low",
+        message: `L1 operator wallet Fee Juice balance ${this.l1Wallet.feeJuice} wei is below ${minFeeJuiceBalance} wei`,
+      });
+    }
+    return reasons;
+  }
+
+  private targetReasons(
+    target: string,
+    state: TargetOpsState,
+    nowMs: number,
+    multiTarget: boolean,
+  ): TopupReadinessReason[] {
+    const reasons: TopupReadinessReason[] = [];
+    const suffix = describeTarget(target, multiTarget);
+
+    if (state.successfulBalanceChecks === 0) {
+      reasons.push({
+        code: "no_successful_balance_checks",
+        message: `No successful Fee Juice balance checks yet${suffix}`,
+        target,
+      });
+    }
+
+    if (!state.lastBalanceCheckOk && state.failedBalanceChecks > 0) {
+      reasons.push({
+        code: "last_balance_check_failed",
+        message: state.lastBalanceCheckError
+          ? `Last Fee Juice balance check failed${suffix}: ${state.lastBalanceCheckError}`
+          : `Last Fee Juice balance check failed${suffix}`,
+        target,
+      });
+    }
+
+    if (
+      state.lastBalanceCheckAtMs !== undefined &&
+      nowMs - state.lastBalanceCheckAtMs > this.staleBalanceCheckAfterMs
+    ) {
+      reasons.push({
+        code: "balance_check_stale",
+        message: `Last Fee Juice balance check is stale (> ${this.staleBalanceCheckAfterMs}ms)${suffix}`,
+        target,
+      });
+    }
+
+    return reasons;
+  }
+
+  private target(target: string): TargetOpsState {
+    const state = this.targets.get(target);
+    if (!state) {
+      throw new Error(`Unknown top-up target ${target}`);
+    }
+    return state;
+  }
 }
 
 function sendJson(response: ServerResponse, statusCode: number, payload: unknown): void {
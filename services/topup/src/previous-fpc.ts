@@ -0,0 +1,48 @@
+export interface PreviousFpcMonitorDependencies {
+  getBalance: () => Promise<bigint>;
+  recordBalance: (balance: bigint) => void;
+  logger?: Pick<Console, "log" | "warn" | "error">;
+}
+
+export interface PreviousFpcMonitor {
+  check: () => Promise<void>;
+}
+
+/**
+ * Watches the FPC replaced by an operator key rotation. Fee Juice cannot be
+ * moved out of an FPC, so the old contract is never bridged to again: its
+ * balance simply drains as quotes signed before the rotation are used. The
+ * monitor reports that balance and logs once when it is fully drained.
+ */
+export function createPreviousFpcMonitor(
+  previousFpcAddress: string,
+  deps: PreviousFpcMonitorDependencies,
+): PreviousFpcMonitor {
+  const logger = deps.logger ?? console;
+  let drainedLogged = false;
+
+  async function check() {
+    let balance: bigint;
+    try {
+      balance = await deps.getBalance();
+    } catch (err) {
+      logger.warn(`Failed to read previous FPC ${previousFpcAddress} Fee Juice balance:`, err);
+      return;
+    }
+
+    deps.recordBalance(balance);
+    if (balance > 0n) {
+      drainedLogged = false;
+      logger.log(`Previous FPC ${previousFpcAddress} Fee Juice balance: ${balance} wei (draining)`);
+      return;
+    }
+    if (!drainedLogged) {
+      drainedLogged = true;
+      logger.log(
+        `Previous FPC ${previousFpcAddress} is drained; previous_fpc_address can be removed from config`,
+      );
+    }
+  }
+
+  return { check };
+}
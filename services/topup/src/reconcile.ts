@@ -2,12 +2,18 @@ import type { AztecAddress } from "@aztec/aztec.js/addresses";
 import type { AztecNode } from "@aztec/aztec.js/node";
 import { waitForFeeJuiceBridgeConfirmation } from "./confirm.js";
 import type { GetFeeJuiceBalance } from "./monitor.js";
-import type { BridgeStateStore, PersistedBridgeSubmission } from "./state.js";
+import type {
+  BridgeStateStore,
+  PersistedBridgeDeposit,
+  PersistedBridgeSubmission,
+} from "./state.js";
 
-export type ReconciliationOutcome = "none" | "confirmed" | "timeout" | "aborted";
+export type ReconciliationOutcome = "evicted" | "confirmed" | "timeout" | "aborted";
 
 export interface ReconcileBridgeStateOptions {
   stateStore: BridgeStateStore;
+  /** The in-flight bridge to settle, from `listPersistedBridges`. */
+  persisted: PersistedBridgeSubmission;
   getBalance: GetFeeJuiceBalance;
   node: Pick<AztecNode, "getBlock" | "getL1ToL2MessageCheckpoint">;
   fpcAddress: AztecAddress;
@@ -30,6 +36,50 @@ const DEFAULT_RECONCILE_DEPS: ReconcileBridgeDeps = {
   confirmBridge: waitForFeeJuiceBridgeConfirmation,
 };
 
+async function readDiscardingMalformed<T>(
+  stateStore: BridgeStateStore,
+  read: () => Promise<T[]>,
+  logger: Pick<Console, "log" | "warn">,
+): Promise<T[]> {
+  try {
+    return await read();
+  } catch (error) {
+    logger.warn(
+      `Failed to read persisted bridge state: ${String(error)}. Clearing corrupt entries.`,
+    );
+  }
+  try {
+    await stateStore.discardMalformed();
+    return await read();
+  } catch (error) {
+    logger.warn(`Failed to clear corrupt bridge state: ${String(error)}`);
+    return [];
+  }
+}
+
+/**
+ * Reads every in-flight bridge from `stateStore`. Malformed entries are
+ * dropped, so one corrupt record does not keep the others from settling.
+ */
+export function listPersistedBridges(
+  stateStore: BridgeStateStore,
+  logger: Pick<Console, "log" | "warn"> = console,
+): Promise<PersistedBridgeSubmission[]> {
+  return readDiscardingMalformed(stateStore, () => stateStore.list(), logger);
+}
+
+/** Reads every bridge whose deposit is not mined yet, dropping malformed entries likewise. */
+export function listBridgeDeposits(
+  stateStore: BridgeStateStore,
+  logger: Pick<Console, "log" | "warn"> = console,
+): Promise<PersistedBridgeDeposit[]> {
+  return readDiscardingMalformed(stateStore, () => stateStore.listDeposits(), logger);
+}
+
+/**
+ * Waits for one persisted bridge to land, clearing it once confirmed or once
+ * it is older than `maxAgeMs`. A timeout keeps it for the next attempt.
+ */
 export async function reconcilePersistedBridgeState(
   options: ReconcileBridgeStateOptions,
   depsOverride: Partial<ReconcileBridgeDeps> = {},
@@ -39,22 +89,7 @@ export async function reconcilePersistedBridgeState(
     ...DEFAULT_RECONCILE_DEPS,
     ...depsOverride,
   };
-  let persistedBridge: PersistedBridgeSubmission | null;
-  try {
-    persistedBridge = await options.stateStore.read();
-  } catch (error) {
-    logger.warn(`Failed to read persisted bridge state: ${String(error)}. Clearing corrupt entry.`);
-    try {
-      await options.stateStore.clear();
-    } catch {
-      // Already logged the root cause above; clearing is best-effort.
-    }
-    return "none";
-  }
-
-  if (!persistedBridge) {
-    return "none";
-  }
+  const persistedBridge = options.persisted;
 
   if (options.maxAgeMs !== undefined) {
     const ageMs = Date.now() - persistedBridge.submittedAtMs;
@@ -62,8 +97,8 @@ export async function reconcilePersistedBridgeState(
       logger.warn(
         `CRITICAL: Evicting stale persisted bridge message_hash=${persistedBridge.messageHash} age_ms=${ageMs} max_age_ms=${options.maxAgeMs}. Bridge funds may require manual recovery.`,
       );
-      await options.stateStore.clear();
-      return "none";
+      await options.stateStore.clear(persistedBridge.messageHash);
+      return "evicted";
     }
   }
 
@@ -95,7 +130,7 @@ export async function reconcilePersistedBridgeState(
   }
 
   if (result.status === "confirmed") {
-    await options.stateStore.clear();
+    await options.stateStore.clear(persistedBridge.messageHash);
     logger.log(
       `Persisted bridge reconciliation outcome=confirmed message_hash=${persistedBridge.messageHash} delta=${result.observedDelta} attempts=${result.attempts} elapsed_ms=${result.elapsedMs}`,
     );
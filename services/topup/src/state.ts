@@ -43,11 +43,59 @@ export interface PersistedBridgeSubmission {
   messageHash: `0x${string}`;
   messageLeafIndex: string;
   submittedAtMs: number;
+  /** Deposit transaction that was mined, and its nonce; absent on entries from older versions. */
+  l1TxHash?: `0x${string}`;
+  l1Nonce?: number;
+}
+
+/**
+ * An L1 transaction sent by a bridge that has not been mined yet. Every
+ * replacement shares the nonce, so all their hashes are kept, and re-signs
+ * the same call.
+ */
+export interface PendingL1Transaction {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  nonce: number;
+  hashes: `0x${string}`[];
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+}
+
+/**
+ * A bridge whose L1 transactions are not all mined yet, written before each
+ * of them is broadcast. The message hash and leaf index only exist once the
+ * deposit is mined, since the inbox assigns the leaf; until then the entry is
+ * keyed by the claim secret hash.
+ */
+export interface PersistedBridgeDeposit {
+  baselineBalance: string;
+  amount: string;
+  claimSecret: string;
+  claimSecretHash: string;
+  submittedAtMs: number;
+  /** The bridge's transaction in flight: the Fee Juice approval, then the deposit itself. */
+  step: "approve" | "deposit";
+  transaction: PendingL1Transaction;
+}
+
+/**
+ * One submitted top-up, kept after the in-flight entry is cleared so the
+ * attestation service can account for the Fee Juice spent on top-ups.
+ */
+export interface BridgeHistoryEntry {
+  amount: string;
+  messageHash: `0x${string}`;
+  submittedAtMs: number;
+  /** Target id and FPC funded; absent on entries written before multi-target support. */
+  target?: string;
+  fpcAddress?: string;
 }
 
 export interface BridgeStateStore {
   storageLabel: string;
-  read(): Promise<PersistedBridgeSubmission | null>;
+  /** Every in-flight bridge, oldest first. Throws if any entry is malformed. */
+  list(): Promise<PersistedBridgeSubmission[]>;
   write(
     baselineBalance: bigint,
     bridgeResult: Pick<
@@ -58,9 +106,19 @@ export interface BridgeStateStore {
       | "messageHash"
       | "messageLeafIndex"
       | "submittedAtMs"
+      | "l1TxHash"
+      | "l1Nonce"
     >,
   ): Promise<void>;
-  clear(): Promise<void>;
+  /** Drops the in-flight entry for `messageHash`; its history entry stays. */
+  clear(messageHash: string): Promise<void>;
+  /** Every bridge whose L1 transactions are not all mined, oldest first. Throws if any entry is malformed. */
+  listDeposits(): Promise<PersistedBridgeDeposit[]>;
+  /** Records a bridge's transaction in flight; `write` drops the entry once the deposit is mined. */
+  writeDeposit(deposit: PersistedBridgeDeposit): Promise<void>;
+  clearDeposit(claimSecretHash: string): Promise<void>;
+  /** Drops every malformed in-flight or deposit entry and returns how many there were. */
+  discardMalformed(): Promise<number>;
 }
 
 const UINT_DECIMAL_PATTERN = /^(0|[1-9][0-9]*)$/;
@@ -100,6 +158,8 @@ function assertPersistedBridgeSubmission(
     messageHash?: unknown;
     messageLeafIndex?: unknown;
     submittedAtMs?: unknown;
+    l1TxHash?: unknown;
+    l1Nonce?: unknown;
   };
   if (typeof candidate.submittedAtMs !== "number") {
     throw new Error(`Bridge state is malformed (${context}): invalid bridge payload`);
@@ -128,6 +188,15 @@ function assertPersistedBridgeSubmission(
     candidate.messageLeafIndex,
   );
 
+  if (
+    candidate.l1TxHash !== undefined &&
+    (!Number.isInteger(candidate.l1Nonce) || (candidate.l1Nonce as number) < 0)
+  ) {
+    throw new Error(
+      `Bridge state is malformed (${context}): l1Nonce must be a non-negative integer`,
+    );
+  }
+
   return {
     baselineBalance,
     amount,
@@ -136,26 +205,182 @@ function assertPersistedBridgeSubmission(
     messageHash: messageHash as `0x${string}`,
     messageLeafIndex,
     submittedAtMs: candidate.submittedAtMs,
+    ...(candidate.l1TxHash !== undefined && {
+      l1TxHash: assertFieldHexString(context, "l1TxHash", candidate.l1TxHash) as `0x${string}`,
+      l1Nonce: candidate.l1Nonce as number,
+    }),
+  };
+}
+
+const HEX_PATTERN = /^0x([0-9a-fA-F]{2})*$/;
+
+function assertHexString(context: string, field: string, value: unknown): `0x${string}` {
+  if (typeof value !== "string" || !HEX_PATTERN.test(value)) {
+    throw new Error(
+      `Bridge state is malformed (${context}): ${field} must be a 0x-prefixed hex string`,
+    );
+  }
+  return value as `0x${string}`;
+}
+
+function assertPendingL1Transaction(context: string, value: unknown): PendingL1Transaction {
+  if (!value || typeof value !== "object") {
+    throw new Error(`Bridge state is malformed (${context}): transaction must be an object`);
+  }
+  const candidate = value as Partial<Record<keyof PendingL1Transaction, unknown>>;
+  if (!Number.isInteger(candidate.nonce) || (candidate.nonce as number) < 0) {
+    throw new Error(
+      `Bridge state is malformed (${context}): transaction.nonce must be a non-negative integer`,
+    );
+  }
+  if (!Array.isArray(candidate.hashes)) {
+    throw new Error(`Bridge state is malformed (${context}): transaction.hashes must be an array`);
+  }
+  return {
+    to: assertHexString(context, "transaction.to", candidate.to),
+    data: assertHexString(context, "transaction.data", candidate.data),
+    nonce: candidate.nonce as number,
+    hashes: candidate.hashes.map(
+      (hash) => assertFieldHexString(context, "transaction.hashes", hash) as `0x${string}`,
+    ),
+    maxFeePerGas: assertUintString(context, "transaction.maxFeePerGas", candidate.maxFeePerGas),
+    maxPriorityFeePerGas: assertUintString(
+      context,
+      "transaction.maxPriorityFeePerGas",
+      candidate.maxPriorityFeePerGas,
+    ),
+  };
+}
+
+function assertPersistedBridgeDeposit(context: string, value: unknown): PersistedBridgeDeposit {
+  if (!value || typeof value !== "object") {
+    throw new Error(`Bridge state is malformed (${context}): expected object`);
+  }
+  const candidate = value as Partial<Record<keyof PersistedBridgeDeposit, unknown>>;
+  if (!Number.isInteger(candidate.submittedAtMs) || (candidate.submittedAtMs as number) < 0) {
+    throw new Error(
+      `Bridge state is malformed (${context}): submittedAtMs must be a non-negative integer`,
+    );
+  }
+  if (candidate.step !== "approve" && candidate.step !== "deposit") {
+    throw new Error(`Bridge state is malformed (${context}): step must be approve or deposit`);
+  }
+  return {
+    baselineBalance: assertUintString(context, "baselineBalance", candidate.baselineBalance),
+    amount: assertUintString(context, "amount", candidate.amount),
+    claimSecret: assertFieldHexString(context, "claimSecret", candidate.claimSecret),
+    claimSecretHash: assertFieldHexString(context, "claimSecretHash", candidate.claimSecretHash),
+    submittedAtMs: candidate.submittedAtMs as number,
+    step: candidate.step,
+    transaction: assertPendingL1Transaction(context, candidate.transaction),
   };
 }
 
 const BRIDGE_KEY = "bridge";
+const DEFAULT_TARGET_ID = "default";
+const DEPOSIT_SEGMENT = "deposit";
+
+/**
+ * The `default` target keeps the single-target prefix so an in-flight bridge
+ * survives upgrading; other targets get their own `bridge:<id>` prefix. Each
+ * in-flight bridge lives under `<prefix>/<messageHash>`, while the bare
+ * prefix is the single entry written before concurrent bridges. Deposits not
+ * yet mined live under `<prefix>/deposit/<claimSecretHash>`.
+ */
+function bridgeKeyFor(targetId: string): string {
+  return targetId === DEFAULT_TARGET_ID ? BRIDGE_KEY : `${BRIDGE_KEY}:${targetId}`;
+}
+
+function targetIdForKey(key: string): string | undefined {
+  const prefix = key.split("/", 1)[0];
+  if (prefix === BRIDGE_KEY) {
+    return DEFAULT_TARGET_ID;
+  }
+  return prefix.startsWith(`${BRIDGE_KEY}:`) ? prefix.slice(BRIDGE_KEY.length + 1) : undefined;
+}
+
+export interface BridgeStateTarget {
+  id: string;
+  fpcAddress: string;
+}
+/** Named database holding `BridgeHistoryEntry` values keyed by `[submittedAtMs, messageHash]`. */
+export const BRIDGE_HISTORY_DB = "bridge_history";
 
 export async function openTopupDatabase(dataDir: string): Promise<RootDatabase> {
   await mkdir(dataDir, { recursive: true, mode: 0o700 });
   return open({ path: dataDir, mapSize: 10 * 1024 * 1024 });
 }
 
-export function createLmdbBridgeStateStore(db: RootDatabase, dataDir: string): BridgeStateStore {
-  const storageLabel = `lmdb://${dataDir}`;
+/**
+ * Ids of targets with a persisted in-flight bridge that are not in
+ * `targetIds`. Their claim secrets would be orphaned if the service started
+ * without them, so startup refuses until the target is configured again.
+ */
+export function findOrphanedBridgeTargets(db: RootDatabase, targetIds: string[]): string[] {
+  const configured = new Set(targetIds);
+  const orphaned = new Set<string>();
+  // ";" sorts right after "/" and ":", so the range covers every bridge entry.
+  for (const key of db.getKeys({ start: BRIDGE_KEY, end: `${BRIDGE_KEY};` })) {
+    const targetId = typeof key === "string" ? targetIdForKey(key) : undefined;
+    if (targetId !== undefined && !configured.has(targetId)) {
+      orphaned.add(targetId);
+    }
+  }
+  return [...orphaned];
+}
+
+export function createLmdbBridgeStateStore(
+  db: RootDatabase,
+  dataDir: string,
+  target?: BridgeStateTarget,
+): BridgeStateStore {
+  const prefix = bridgeKeyFor(target?.id ?? DEFAULT_TARGET_ID);
+  const storageLabel = target ? `lmdb://${dataDir}#${target.id}` : `lmdb://${dataDir}`;
+  const history = db.openDB<BridgeHistoryEntry, [number, string]>({ name: BRIDGE_HISTORY_DB });
+
+  const depositPrefix = `${prefix}/${DEPOSIT_SEGMENT}/`;
+
+  function* entries(): Generator<{ key: string; value: unknown }> {
+    const legacy = db.get(prefix);
+    if (legacy !== undefined) {
+      yield { key: prefix, value: legacy };
+    }
+    // "0" sorts right after "/", so the range covers exactly this target's entries.
+    for (const { key, value } of db.getRange({ start: `${prefix}/`, end: `${prefix}0` })) {
+      if (!String(key).startsWith(depositPrefix)) {
+        yield { key: String(key), value };
+      }
+    }
+  }
+
+  function* depositEntries(): Generator<{ key: string; value: unknown }> {
+    // "0" sorts right after "/", so the range covers exactly this target's deposits.
+    for (const { key, value } of db.getRange({
+      start: depositPrefix,
+      end: `${prefix}/${DEPOSIT_SEGMENT}0`,
+    })) {
+      yield { key: String(key), value };
+    }
+  }
+
+  function isMalformed(assert: (context: string, value: unknown) => unknown) {
+    return ({ value }: { value: unknown }) => {
+      try {
+        assert(storageLabel, value);
+        return false;
+      } catch {
+        return true;
+      }
+    };
+  }
+
   return {
     storageLabel,
-    read(): Promise<PersistedBridgeSubmission | null> {
-      const raw = db.get(BRIDGE_KEY);
-      if (raw === undefined) {
-        return Promise.resolve(null);
-      }
-      return Promise.resolve(assertPersistedBridgeSubmission(storageLabel, raw));
+    list(): Promise<PersistedBridgeSubmission[]> {
+      const bridges = [...entries()].map(({ value }) =>
+        assertPersistedBridgeSubmission(storageLabel, value),
+      );
+      return Promise.resolve(bridges.sort((a, b) => a.submittedAtMs - b.submittedAtMs));
     },
     async write(
       baselineBalance: bigint,
@@ -167,6 +392,8 @@ export function createLmdbBridgeStateStore(db: RootDatabase, dataDir: string): B
         | "messageHash"
         | "messageLeafIndex"
         | "submittedAtMs"
+        | "l1TxHash"
+        | "l1Nonce"
       >,
     ): Promise<void> {
       const payload: PersistedBridgeSubmission = {
@@ -179,11 +406,54 @@ export function createLmdbBridgeStateStore(db: RootDatabase, dataDir: string): B
         messageHash: bridgeResult.messageHash,
         messageLeafIndex: bridgeResult.messageLeafIndex.toString(),
         submittedAtMs: bridgeResult.submittedAtMs,
+        ...(bridgeResult.l1TxHash !== undefined && {
+          l1TxHash: bridgeResult.l1TxHash,
+          l1Nonce: bridgeResult.l1Nonce,
+        }),
       };
-      await db.put(BRIDGE_KEY, payload);
+      await db.transaction(() => {
+        db.remove(`${depositPrefix}${payload.claimSecretHash}`);
+        db.put(`${prefix}/${payload.messageHash}`, payload);
+        history.put([payload.submittedAtMs, payload.messageHash], {
+          amount: payload.amount,
+          messageHash: payload.messageHash,
+          submittedAtMs: payload.submittedAtMs,
+          ...(target && { target: target.id, fpcAddress: target.fpcAddress }),
+        });
+      });
+    },
+    async clear(messageHash: string): Promise<void> {
+      await db.transaction(() => {
+        db.remove(`${prefix}/${messageHash}`);
+        const legacy = db.get(prefix) as { messageHash?: unknown } | undefined;
+        if (legacy?.messageHash === messageHash) {
+          db.remove(prefix);
+        }
+      });
+    },
+    listDeposits(): Promise<PersistedBridgeDeposit[]> {
+      const deposits = [...depositEntries()].map(({ value }) =>
+        assertPersistedBridgeDeposit(storageLabel, value),
+      );
+      return Promise.resolve(deposits.sort((a, b) => a.submittedAtMs - b.submittedAtMs));
+    },
+    async writeDeposit(deposit: PersistedBridgeDeposit): Promise<void> {
+      await db.put(`${depositPrefix}${deposit.claimSecretHash}`, deposit);
+    },
+    async clearDeposit(claimSecretHash: string): Promise<void> {
+      await db.remove(`${depositPrefix}${claimSecretHash}`);
     },
-    async clear(): Promise<void> {
-      await db.remove(BRIDGE_KEY);
+    async discardMalformed(): Promise<number> {
+      const malformed = [
+        ...[...entries()].filter(isMalformed(assertPersistedBridgeSubmission)),
+        ...[...depositEntries()].filter(isMalformed(assertPersistedBridgeDeposit)),
+      ];
+      await db.transaction(() => {
+        for (const { key } of malformed) {
+          db.remove(key);
+        }
+      });
+      return malformed.length;
     },
   };
 }
@@ -0,0 +1,231 @@
+import type { TopupChecker } from "./checker.js";
+import type { PersistedBridgeDeposit, PersistedBridgeSubmission } from "./state.js";
+
+/** A target's balance as read this cycle, and the checker's assessment of it. */
+export interface TopupNeed {
+  id: string;
+  priority: number;
+  balance: bigint;
+  threshold: bigint;
+  /** Whether a bridge is due, by threshold or by forecast. */
+  due: boolean;
+  topUpAmount: bigint;
+  /** Below the critical threshold, so the L1 gas cap does not hold it back. */
+  critical: boolean;
+}
+
+export interface TopupPlan {
+  /** Targets to bridge to this cycle, most urgent first. */
+  fund: TopupNeed[];
+  /** Targets below threshold that wait for the L1 wallet to be refilled. */
+  deferred: TopupNeed[];
+  /** Targets that wait for L1 gas to drop below the configured cap. */
+  gasDeferred: TopupNeed[];
+}
+
+/** What the L1 operator wallet can spend on bridges this cycle. */
+export interface L1Budget {
+  /** Fee Juice tokens, in wei. */
+  feeJuice: bigint;
+  /** ETH for gas, in wei. */
+  eth: bigint;
+  /** ETH one bridge may cost at the current gas price. */
+  bridgeGasCost: bigint;
+  /** The market fee is above the gas policy's cap; only critical targets bridge. */
+  gasAboveCap?: boolean;
+}
+
+function compareNeeds(a: TopupNeed, b: TopupNeed): number {
+  if (a.priority !== b.priority) {
+    return b.priority - a.priority;
+  }
+  // Emptier first, relative to each threshold: balance / threshold without dividing.
+  const left = a.balance * b.threshold;
+  const right = b.balance * a.threshold;
+  if (left !== right) {
+    return left < right ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Orders targets with a bridge due by priority, then by how far below their
+ * threshold they are, and funds them from `budget` in that order: each
+ * bridge needs its amount in Fee Juice and its gas cost in ETH. Once one
+ * target cannot be covered every later one is deferred as well, so a
+ * smaller, less urgent top-up never spends what the more urgent one is
+ * waiting for. While gas is above the cap, targets that are not critical
+ * wait without holding back the critical ones. An unknown budget funds
+ * everything and lets the bridge itself fail.
+ */
+export function planTopups(needs: TopupNeed[], budget: L1Budget | undefined): TopupPlan {
+  const ordered = needs.filter((need) => need.due).sort(compareNeeds);
+  if (budget === undefined) {
+    return { fund: ordered, deferred: [], gasDeferred: [] };
+  }
+
+  const fund: TopupNeed[] = [];
+  const deferred: TopupNeed[] = [];
+  const gasDeferred: TopupNeed[] = [];
+  let feeJuice = budget.feeJuice;
+  let eth = budget.eth;
+  for (const need of ordered) {
+    if (budget.gasAboveCap && !need.critical) {
+      gasDeferred.push(need);
+    } else if (
+      deferred.length === 0 &&
+      need.topUpAmount <= feeJuice &&
+      budget.bridgeGasCost <= eth
+    ) {
+      fund.push(need);
+      feeJuice -= need.topUpAmount;
+      eth -= budget.bridgeGasCost;
+    } else {
+      deferred.push(need);
+    }
+  }
+  return { fund, deferred, gasDeferred };
+}
+
+export interface TopupTargetRunner {
+  id: string;
+  priority: number;
+  threshold: bigint;
+  checker: TopupChecker;
+  getBalance: () => Promise<bigint>;
+  /** Persisted in-flight bridges, including ones left by an earlier run. */
+  listPersisted: () => Promise<PersistedBridgeSubmission[]>;
+  /** Waits for a persisted bridge the checker is not tracking to settle. */
+  reconcile: (persisted: PersistedBridgeSubmission) => Promise<void>;
+  /**
+   * Bridges an earlier run left before their deposit was mined. `resume`
+   * pushes one through and persists it as an in-flight bridge, which a later
+   * cycle adopts for reconciliation.
+   */
+  deposits?: {
+    list: () => Promise<PersistedBridgeDeposit[]>;
+    resume: (deposit: PersistedBridgeDeposit) => Promise<void>;
+  };
+  /** Runs after the cycle's bridges, e.g. to report a previous FPC's balance. */
+  afterCheck?: () => Promise<void>;
+}
+
+export interface TopupSchedulerDependencies {
+  /** Read every cycle; bridges the wallet cannot pay for are deferred. */
+  getL1Budget?: () => Promise<L1Budget>;
+  onDeferred?: (need: TopupNeed) => void;
+  logger?: Pick<Console, "log" | "warn" | "error">;
+}
+
+export interface TopupScheduler {
+  runCycle: () => Promise<void>;
+  requestStop: () => void;
+  /** Waits for every target's in-flight bridges to settle. */
+  drain: () => Promise<void>;
+}
+
+/**
+ * Runs one top-up cycle across every target: adopts persisted bridges and
+ * unfinished deposits the checkers are not tracking yet, reads each target with room for another
+ * bridge, plans the bridges the L1 wallet can pay for, then submits them
+ * concurrently. A cycle waits for submission only; confirmations and
+ * reconciliations settle in the background, so one slow bridge does not hold
+ * up the next. Callers share one L1 submission queue between the targets'
+ * bridge dependencies so their transactions do not race for nonces.
+ */
+export function createTopupScheduler(
+  targets: TopupTargetRunner[],
+  deps: TopupSchedulerDependencies = {},
+): TopupScheduler {
+  const logger = deps.logger ?? console;
+  const byId = new Map(targets.map((target) => [target.id, target]));
+
+  async function adoptPersisted(target: TopupTargetRunner) {
+    for (const persisted of await target.listPersisted()) {
+      if (!target.checker.isTracking(persisted.messageHash)) {
+        void target.checker.adopt(persisted.messageHash, BigInt(persisted.amount), () =>
+          target.reconcile(persisted),
+        );
+      }
+    }
+    const { deposits } = target;
+    if (!deposits) {
+      return;
+    }
+    for (const deposit of await deposits.list()) {
+      if (!target.checker.isTracking(deposit.claimSecretHash)) {
+        void target.checker.adopt(deposit.claimSecretHash, BigInt(deposit.amount), () =>
+          deposits.resume(deposit),
+        );
+      }
+    }
+  }
+
+  async function readNeed(target: TopupTargetRunner): Promise<TopupNeed | undefined> {
+    if (target.checker.isStopping()) {
+      return undefined;
+    }
+    await adoptPersisted(target);
+    if (!target.checker.hasCapacity()) {
+      return undefined;
+    }
+    try {
+      const balance = await target.getBalance();
+      const { due, amount } = target.checker.assess(balance);
+      const { id, priority, threshold } = target;
+      const critical = target.checker.isCritical(balance);
+      return { id, priority, balance, threshold, due, topUpAmount: amount, critical };
+    } catch (err) {
+      logger.error(`Failed to read Fee Juice balance for target ${target.id}:`, err);
+      return undefined;
+    }
+  }
+
+  async function readL1Budget(): Promise<L1Budget | undefined> {
+    if (!deps.getL1Budget) {
+      return undefined;
+    }
+    try {
+      return await deps.getL1Budget();
+    } catch (err) {
+      logger.warn("Failed to read L1 wallet balances; funding targets in priority order:", err);
+      return undefined;
+    }
+  }
+
+  async function runCycle() {
+    const needs = (await Promise.all(targets.map(readNeed))).filter(
+      (need): need is TopupNeed => need !== undefined,
+    );
+    const budget = await readL1Budget();
+    const plan = planTopups(needs, budget);
+
+    for (const need of plan.deferred) {
+      logger.warn(
+        `Deferring top-up of target ${need.id}: L1 wallet (${budget?.feeJuice} wei Fee Juice, ${budget?.eth} wei ETH) does not cover ${need.topUpAmount} wei plus ${budget?.bridgeGasCost} wei gas after higher-priority targets`,
+      );
+      deps.onDeferred?.(need);
+    }
+    for (const need of plan.gasDeferred) {
+      logger.warn(
+        `Deferring top-up of target ${need.id}: L1 gas is above the configured max fee and the balance ${need.balance} wei is not critical`,
+      );
+      deps.onDeferred?.(need);
+    }
+
+    await Promise.all(plan.fund.map((need) => byId.get(need.id)?.checker.startTopUp(need.balance)));
+    await Promise.all(targets.map((target) => target.afterCheck?.()));
+  }
+
+  return {
+    runCycle,
+    requestStop: () => {
+      for (const target of targets) {
+        target.checker.requestStop();
+      }
+    },
+    drain: async () => {
+      await Promise.all(targets.map((target) => target.checker.drain()));
+    },
+  };
+}
@@ -3,10 +3,29 @@ import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { Fr } from "@aztec/aztec.js/fields";
 import type { AztecNode } from "@aztec/aztec.js/node";
 import { createLogger } from "@aztec/foundation/log";
-import type { Chain } from "viem";
+import {
+  type Chain,
+  encodeAbiParameters,
+  encodeEventTopics,
+  type Hex,
+  hexToString,
+  keccak256,
+  parseAbi,
+  parseAbiParameters,
+  type TransactionReceipt,
+  TransactionReceiptNotFoundError,
+  toHex,
+} from "viem";
 import { describe, it } from "#test";
 import type { BridgeDeps, FeeJuicePortalManagerLike } from "../src/bridge.js";
-import { bridgeFeeJuice, isNonceTooLowError, isRetryableNonceError } from "../src/bridge.js";
+import {
+  bridgeFeeJuice,
+  isNonceTooLowError,
+  isRetryableNonceError,
+  resumeBridgeDeposit,
+} from "../src/bridge.js";
+import { GasPolicySchema } from "../src/gas.js";
+import type { PersistedBridgeDeposit } from "../src/state.js";
 
 const MESSAGE_HASH = `0x${"ab".repeat(32)}` as `0x${string}`;
 const PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
@@ -18,10 +37,90 @@ function makeNode(): AztecNode {
   return {} as AztecNode;
 }
 
+const PORTAL = `0x${"0f".repeat(20)}` as Hex;
+const FEE_JUICE = `0x${"0e".repeat(20)}` as Hex;
+const DEPOSIT_EVENT = parseAbi([
+  "event DepositToAztecPublic(bytes32 indexed to, uint256 amount, bytes32 secretHash, bytes32 key, uint256 index)",
+]);
+
 function stubL1Client(): BridgeDeps["createExtendedL1Client"] {
   return (() => ({})) as unknown as BridgeDeps["createExtendedL1Client"];
 }
 
+function nodeWithPortal(): AztecNode {
+  return {
+    getNodeInfo: () =>
+      Promise.resolve({
+        l1ContractAddresses: {
+          feeJuicePortalAddress: { toString: () => PORTAL },
+          feeJuiceAddress: { toString: () => FEE_JUICE },
+        },
+      }),
+  } as unknown as AztecNode;
+}
+
+/**
+ * L1 wallet that mines every broadcast at once; a deposit to the portal
+ * emits `DepositToAztecPublic` with `MESSAGE_HASH` at leaf 7.
+ */
+function minedL1() {
+  const broadcast: { hash: Hex; to: Hex; nonce: number }[] = [];
+  const mined = new Map<Hex, Hex>();
+  let nextNonce = 4;
+  const receiptFor = (hash: Hex, to: Hex) =>
+    ({
+      transactionHash: hash,
+      status: "success",
+      logs:
+        to === PORTAL
+          ? [
+              {
+                address: PORTAL,
+                topics: encodeEventTopics({
+                  abi: DEPOSIT_EVENT,
+                  eventName: "DepositToAztecPublic",
+                  args: { to: FPC.toString() as Hex },
+                }),
+                data: encodeAbiParameters(
+                  parseAbiParameters("uint256, bytes32, bytes32, uint256"),
+                  [123n, new Fr(2n).toString() as Hex, MESSAGE_HASH, 7n],
+                ),
+              },
+            ]
+          : [],
+    }) as unknown as TransactionReceipt;
+  const client = {
+    account: { address: `0x${"aa".repeat(20)}` },
+    estimateFeesPerGas: () => Promise.resolve({ maxFeePerGas: 100n, maxPriorityFeePerGas: 2n }),
+    getTransactionCount: () => Promise.resolve(nextNonce),
+    getTransactionReceipt: ({ hash }: { hash: Hex }) => {
+      const to = mined.get(hash);
+      return to
+        ? Promise.resolve(receiptFor(hash, to))
+        : Promise.reject(new TransactionReceiptNotFoundError({ hash }));
+    },
+    prepareTransactionRequest: (request: unknown) => Promise.resolve(request),
+    signTransaction: ({ to, nonce }: { to: Hex; nonce: number }) =>
+      Promise.resolve(toHex(JSON.stringify({ to, nonce }))),
+    sendRawTransaction: ({ serializedTransaction }: { serializedTransaction: Hex }) => {
+      const { to, nonce } = JSON.parse(hexToString(serializedTransaction)) as {
+        to: Hex;
+        nonce: number;
+      };
+      const hash = keccak256(serializedTransaction);
+      broadcast.push({ hash, to, nonce });
+      mined.set(hash, to);
+      nextNonce = nonce + 1;
+      return Promise.resolve(hash);
+    },
+  };
+  return {
+    broadcast,
+    mined,
+    createExtendedL1Client: (() => client) as unknown as BridgeDeps["createExtendedL1Client"],
+  };
+}
+
 function makeDeps(overrides: Partial<BridgeDeps> = {}): BridgeDeps {
   return {
     createExtendedL1Client: stubL1Client(),
@@ -36,6 +135,7 @@ function makeDeps(overrides: Partial<BridgeDeps> = {}): BridgeDeps {
         }),
     }),
     createLogger: () => createLogger("topup:test"),
+    generateClaimSecret: () => Promise.resolve([new Fr(1n), new Fr(2n)]),
     chains: [
       {
         id: 31337,
@@ -84,6 +184,7 @@ describe("bridge", () => {
       PRIVATE_KEY,
       FPC,
       123n,
+      {},
       deps,
     );
 
@@ -148,6 +249,7 @@ describe("bridge", () => {
       PRIVATE_KEY,
       FPC,
       321n,
+      {},
       deps,
     );
 
@@ -168,7 +270,8 @@ describe("bridge", () => {
     });
 
     await assert.rejects(
-      () => bridgeFeeJuice(makeNode(), "http://localhost:8545", 31337, PRIVATE_KEY, FPC, 1n, deps),
+      () =>
+        bridgeFeeJuice(makeNode(), "http://localhost:8545", 31337, PRIVATE_KEY, FPC, 1n, {}, deps),
       /nonce-too-low.*Not retrying/,
     );
     assert.equal(attempts, 1);
@@ -186,7 +289,8 @@ describe("bridge", () => {
     });
 
     await assert.rejects(
-      () => bridgeFeeJuice(makeNode(), "http://localhost:8545", 31337, PRIVATE_KEY, FPC, 1n, deps),
+      () =>
+        bridgeFeeJuice(makeNode(), "http://localhost:8545", 31337, PRIVATE_KEY, FPC, 1n, {}, deps),
       /already known/,
     );
     assert.equal(attempts, 3);
@@ -200,4 +304,121 @@ describe("bridge", () => {
     assert.equal(isRetryableNonceError(new Error("nonce too low")), false);
     assert.equal(isRetryableNonceError(new Error("some other error")), false);
   });
+
+  it("persists the claim secret and each L1 transaction before broadcasting it", async () => {
+    const l1 = minedL1();
+    const journalled: { deposit: PersistedBridgeDeposit; broadcast: number }[] = [];
+    const deposits = {
+      writeDeposit: (deposit: PersistedBridgeDeposit) => {
+        journalled.push({ deposit, broadcast: l1.broadcast.length });
+        return Promise.resolve();
+      },
+      clearDeposit: () => Promise.reject(new Error("nothing reverts")),
+    };
+
+    const result = await bridgeFeeJuice(
+      nodeWithPortal(),
+      "http://localhost:8545",
+      31337,
+      PRIVATE_KEY,
+      FPC,
+      123n,
+      {
+        feeManagement: { policy: GasPolicySchema.parse({}), deposits, baselineBalance: 50n },
+      },
+      makeDeps({ createExtendedL1Client: l1.createExtendedL1Client }),
+    );
+
+    assert.deepEqual(
+      journalled.map(({ deposit, broadcast }) => [
+        deposit.step,
+        deposit.transaction.nonce,
+        deposit.transaction.hashes,
+        broadcast,
+      ]),
+      [
+        ["approve", 4, [l1.broadcast[0]?.hash], 0],
+        ["deposit", 5, [l1.broadcast[1]?.hash], 1],
+      ],
+    );
+    assert.deepEqual(
+      l1.broadcast.map((tx) => tx.to),
+      [FEE_JUICE, PORTAL],
+    );
+    const [{ deposit }] = journalled;
+    assert.equal(deposit?.claimSecret, new Fr(1n).toString());
+    assert.equal(deposit?.baselineBalance, "50");
+    assert.equal(result.claimSecret, new Fr(1n).toString());
+    assert.equal(result.messageHash, MESSAGE_HASH);
+    assert.equal(result.messageLeafIndex, 7n);
+    assert.equal(result.l1TxHash, l1.broadcast[1]?.hash);
+    assert.equal(result.l1Nonce, 5);
+  });
+
+  it("persists a deposit mined after a restart as an in-flight bridge", async () => {
+    const l1 = minedL1();
+    const minedHash = `0x${"cd".repeat(32)}` as Hex;
+    l1.mined.set(minedHash, PORTAL);
+    const deposit: PersistedBridgeDeposit = {
+      baselineBalance: "50",
+      amount: "123",
+      claimSecret: new Fr(1n).toString(),
+      claimSecretHash: new Fr(2n).toString(),
+      submittedAtMs: 1,
+      step: "deposit",
+      transaction: {
+        to: PORTAL,
+        data: "0x",
+        nonce: 3,
+        hashes: [`0x${"ab".repeat(32)}`, minedHash],
+        maxFeePerGas: "100",
+        maxPriorityFeePerGas: "2",
+      },
+    };
+    const written: [bigint, string | undefined][] = [];
+    const cleared: string[] = [];
+    const stateStore = {
+      write: (baseline: bigint, result: { messageHash: string; l1TxHash?: string }) => {
+        written.push([baseline, result.l1TxHash]);
+        return Promise.resolve();
+      },
+      writeDeposit: () => Promise.resolve(),
+      clearDeposit: (claimSecretHash: string) => {
+        cleared.push(claimSecretHash);
+        return Promise.resolve();
+      },
+    };
+    const deps = makeDeps({ createExtendedL1Client: l1.createExtendedL1Client });
+    const policy = GasPolicySchema.parse({});
+
+    const result = await resumeBridgeDeposit(
+      "http://localhost:8545",
+      31337,
+      PRIVATE_KEY,
+      deposit,
+      { policy, stateStore },
+      deps,
+    );
+    assert.equal(result?.messageHash, MESSAGE_HASH);
+    assert.deepEqual(written, [[50n, minedHash]]);
+
+    // An approval only lets the portal spend; the next bridge starts afresh.
+    const approval = { ...deposit, step: "approve" as const };
+    assert.equal(
+      await resumeBridgeDeposit(
+        "http://localhost:8545",
+        31337,
+        PRIVATE_KEY,
+        approval,
+        {
+          policy,
+          stateStore,
+        },
+        deps,
+      ),
+      undefined,
+    );
+    assert.deepEqual(cleared, [deposit.claimSecretHash]);
+    assert.equal(l1.broadcast.length, 0);
+  });
 });
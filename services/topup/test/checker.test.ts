@@ -242,4 +242,49 @@ describe("checker", () => {
     assert.equal(bridgeFailures, 1);
     assert.equal(checker.isBridgeInFlight(), false);
   });
+
+  it("bridges the forecast amount above threshold when the forecast says so", async () => {
+    const bridged: bigint[] = [];
+    const checker = createTopupChecker(
+      { threshold: 5n, topUpAmount: 2n },
+      {
+        getBalance: async () => 50n,
+        forecast: {
+          assess: (balance) =>
+            balance < 60n
+              ? { due: true, amount: 30n, reason: "forecast" }
+              : { due: false, amount: 30n, reason: "none" },
+        },
+        bridge: (amount) => {
+          bridged.push(amount);
+          return Promise.resolve({
+            amount,
+            claimSecret: SECRET,
+            claimSecretHash: SECRET_HASH,
+            messageHash: HASH,
+            messageLeafIndex: 1n,
+            submittedAtMs: 1,
+          });
+        },
+        confirm: async () => ({
+          status: "confirmed",
+          baselineBalance: 50n,
+          maxObservedBalance: 80n,
+          lastObservedBalance: 80n,
+          observedDelta: 30n,
+          elapsedMs: 1,
+          attempts: 1,
+          pollErrors: 0,
+          messageCheckAttempted: true,
+          messageReady: true,
+          messageCheckFailed: false,
+        }),
+        logger: { log: () => {}, warn: () => {}, error: () => {} },
+      },
+    );
+
+    await checker.checkAndTopUp();
+    await checker.topUpFrom(70n);
+    assert.deepEqual(bridged, [30n]);
+  });
 });
@@ -283,4 +283,166 @@ describe("topup config secret providers", () => {
 
     cleanupConfig(configPath);
   });
+
+  it("accepts a previous_fpc_address distinct from fpc_address", () => {
+    const secret = [
+      "runtime_profile: development",
+      `l1_operator_private_key: "${VALID_PRIVATE_KEY}"`,
+    ];
+    const valid = writeConfig(
+      baseConfigYaml([...secret, `previous_fpc_address: "0x${"0f".repeat(32)}"`].join("\n")),
+    );
+    const sameAsCurrent = writeConfig(
+      baseConfigYaml(
+        [
+          ...secret,
+          'previous_fpc_address: "0x27E0F62FE6EDF34F850DD7C1CC7CD638F7EC38ED3EB5AE4BD8C0C941C78E67AC"',
+        ].join("\n"),
+      ),
+    );
+
+    withEnv({ L1_OPERATOR_PRIVATE_KEY: undefined, TOPUP_DATA_DIR: undefined }, () => {
+      assert.equal(loadConfig(valid).previous_fpc_address, `0x${"0f".repeat(32)}`);
+      assert.throws(() => loadConfig(sameAsCurrent), /previous_fpc_address must differ/);
+    });
+
+    cleanupConfig(valid);
+    cleanupConfig(sameAsCurrent);
+  });
+
+  it("builds a default target from the single-target fields", () => {
+    const configPath = writeConfig(
+      baseConfigYaml(
+        ["runtime_profile: development", `l1_operator_private_key: "${VALID_PRIVATE_KEY}"`].join(
+          "\n",
+        ),
+      ),
+    );
+
+    withEnv({ L1_OPERATOR_PRIVATE_KEY: undefined, TOPUP_DATA_DIR: undefined }, () => {
+      assert.deepEqual(loadConfig(configPath).targets, [
+        {
+          id: "default",
+          fpc_address: "0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac",
+          previous_fpc_address: undefined,
+          threshold: "1000000000000000000",
+          top_up_amount: "10000000000000000000",
+          priority: 0,
+          forecast: undefined,
+        },
+      ]);
+    });
+
+    cleanupConfig(configPath);
+  });
+
+  it("defaults the L1 wallet settings and validates the floors", () => {
+    const secret = [
+      "runtime_profile: development",
+      `l1_operator_private_key: "${VALID_PRIVATE_KEY}"`,
+    ];
+    const defaults = writeConfig(baseConfigYaml(secret.join("\n")));
+    const floors = writeConfig(
+      baseConfigYaml(
+        [...secret, "l1_wallet:", '  min_eth_balance: "1000"', "  bridge_gas_limit: 250000"].join(
+          "\n",
+        ),
+      ),
+    );
+    const invalid = writeConfig(
+      baseConfigYaml([...secret, "l1_wallet:", '  min_fee_juice_balance: "-1"'].join("\n")),
+    );
+
+    withEnv({ L1_OPERATOR_PRIVATE_KEY: undefined, TOPUP_DATA_DIR: undefined }, () => {
+      assert.deepEqual(loadConfig(defaults).l1_wallet, { bridge_gas_limit: 300_000 });
+      assert.deepEqual(loadConfig(floors).l1_wallet, {
+        min_eth_balance: "1000",
+        bridge_gas_limit: 250_000,
+      });
+      assert.throws(() => loadConfig(invalid), /must be an unsigned integer string/);
+    });
+
+    cleanupConfig(defaults);
+    cleanupConfig(floors);
+    cleanupConfig(invalid);
+  });
+
+  it("defaults the L1 gas policy and rejects replacement bumps nodes would refuse", () => {
+    const secret = [
+      "runtime_profile: development",
+      `l1_operator_private_key: "${VALID_PRIVATE_KEY}"`,
+    ];
+    const defaults = writeConfig(baseConfigYaml(secret.join("\n")));
+    const capped = writeConfig(
+      baseConfigYaml([...secret, "l1_gas:", '  max_fee_per_gas: "50000000000"'].join("\n")),
+    );
+    const invalid = writeConfig(
+      baseConfigYaml([...secret, "l1_gas:", "  replacement_bump_percent: 5"].join("\n")),
+    );
+
+    withEnv({ L1_OPERATOR_PRIVATE_KEY: undefined, TOPUP_DATA_DIR: undefined }, () => {
+      assert.deepEqual(loadConfig(defaults).l1_gas, {
+        replacement_timeout_ms: 120_000,
+        replacement_bump_percent: 15,
+        max_replacements: 3,
+        critical_balance_percent: 25,
+      });
+      assert.equal(loadConfig(capped).l1_gas.max_fee_per_gas, "50000000000");
+      assert.throws(() => loadConfig(invalid), /replacement_bump_percent/);
+    });
+
+    cleanupConfig(defaults);
+    cleanupConfig(capped);
+    cleanupConfig(invalid);
+  });
+
+  it("parses a targets list and rejects mixing it with single-target fields", () => {
+    const common = [
+      'aztec_node_url: "http://127.0.0.1:8080"',
+      'l1_rpc_url: "http://127.0.0.1:8545"',
+      "runtime_profile: development",
+      `l1_operator_private_key: "${VALID_PRIVATE_KEY}"`,
+    ];
+    const target = (id: string, byte: string, extra: string[] = []) => [
+      `  - id: ${id}`,
+      `    fpc_address: "0x${byte.repeat(32)}"`,
+      '    threshold: "100"',
+      '    top_up_amount: "500"',
+      ...extra,
+    ];
+    const valid = writeConfig(
+      [
+        ...common,
+        "targets:",
+        ...target("main", "0a", ["    priority: 10"]),
+        ...target("canary", "0b"),
+      ].join("\n"),
+    );
+    const mixed = writeConfig(
+      [...common, 'threshold: "100"', "targets:", ...target("main", "0a")].join("\n"),
+    );
+    const duplicate = writeConfig(
+      [...common, "targets:", ...target("main", "0a"), ...target("main", "0b")].join("\n"),
+    );
+    const missing = writeConfig(common.join("\n"));
+
+    withEnv({ L1_OPERATOR_PRIVATE_KEY: undefined, TOPUP_DATA_DIR: undefined }, () => {
+      const config = loadConfig(valid);
+      assert.deepEqual(
+        config.targets.map((t) => [t.id, t.priority]),
+        [
+          ["main", 10],
+          ["canary", 0],
+        ],
+      );
+      assert.equal(config.fpc_address, undefined);
+      assert.throws(() => loadConfig(mixed), /threshold cannot be combined with targets/);
+      assert.throws(() => loadConfig(duplicate), /duplicate target id main/);
+      assert.throws(() => loadConfig(missing), /fpc_address is required unless targets is set/);
+    });
+
+    for (const configPath of [valid, mixed, duplicate, missing]) {
+      cleanupConfig(configPath);
+    }
+  });
 });
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "#test";
+import { createBurnRateForecast, type ForecastConfig } from "../src/forecast.js";
+import { TopupOpsState } from "../src/ops.js";
+
+const CONFIG: ForecastConfig = {
+  window_seconds: 600,
+  min_samples: 3,
+  bridge_latency_seconds: 100,
+  margin_seconds: 20,
+  coverage_seconds: 1_000,
+};
+
+function forecastWith(config: ForecastConfig = CONFIG) {
+  let nowMs = 0;
+  const forecast = createBurnRateForecast(
+    config,
+    { threshold: 100n, topUpAmount: 500n },
+    { nowMs: () => nowMs },
+  );
+  const sample = (atSeconds: number, balance: bigint) => {
+    nowMs = atSeconds * 1000;
+    forecast.record(balance);
+  };
+  return { forecast, sample };
+}
+
+describe("burn-rate forecast", () => {
+  it("falls back to the threshold rule until enough samples exist", () => {
+    const { forecast, sample } = forecastWith();
+    sample(0, 2_000n);
+    sample(10, 1_000n);
+
+    assert.deepEqual(forecast.assess(150n), { due: false, amount: 500n, reason: "none" });
+    assert.deepEqual(forecast.assess(99n), { due: true, amount: 500n, reason: "below_threshold" });
+    assert.equal(forecast.snapshot().burnRateWeiPerSecond, undefined);
+  });
+
+  it("bridges once the projected time to empty is within latency plus margin", () => {
+    const { forecast, sample } = forecastWith();
+    sample(0, 3_000n);
+    sample(50, 2_500n);
+    // A bridge landing mid-window does not offset the consumption around it.
+    sample(60, 4_000n);
+    sample(110, 3_500n);
+
+    const snapshot = forecast.snapshot();
+    assert.equal(snapshot.samples, 4);
+    assert.equal(snapshot.burnRateWeiPerSecond, 9n, "1000 wei consumed over 110s");
+    assert.equal(Math.floor(snapshot.secondsToEmpty ?? 0), 385);
+    assert.equal(snapshot.topUpAmount, 9_090n, "sized for 1000s of burn");
+
+    assert.equal(forecast.assess(1_200n).due, false, "~132s left");
+    assert.deepEqual(forecast.assess(1_000n), { due: true, amount: 9_090n, reason: "forecast" });
+  });
+
+  it("caps the forecast bridge size and drops samples outside the window", () => {
+    const { forecast, sample } = forecastWith({ ...CONFIG, max_top_up_amount: "2000" });
+    sample(0, 100_000n);
+    sample(100, 10_000n);
+    sample(700, 9_900n);
+    sample(710, 9_800n);
+    sample(720, 9_700n);
+
+    const snapshot = forecast.snapshot();
+    assert.equal(snapshot.samples, 3, "samples older than 600s left the window");
+    assert.equal(snapshot.topUpAmount, 2_000n);
+  });
+
+  it("exports forecast gauges per target", () => {
+    const { forecast, sample } = forecastWith();
+    sample(0, 1_000n);
+    sample(10, 900n);
+    sample(20, 800n);
+    const state = new TopupOpsState({ checkIntervalMs: 1_000, targets: ["main"] });
+    state.recordForecast("main", forecast.snapshot());
+
+    const metrics = state.renderPrometheus();
+    assert.match(metrics, /topup_burn_rate_wei_per_second\{target="main"\} 10/);
+    assert.match(metrics, /topup_seconds_to_empty\{target="main"\} 80/);
+    assert.match(metrics, /topup_forecast_top_up_amount\{target="main"\} 10000/);
+    assert.match(metrics, /topup_forecast_samples\{target="main"\} 3/);
+  });
+});
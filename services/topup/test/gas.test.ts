@@ -0,0 +1,226 @@
+import assert from "node:assert/strict";
+import {
+  type Hex,
+  hexToString,
+  keccak256,
+  type TransactionReceipt,
+  TransactionReceiptNotFoundError,
+  toHex,
+} from "viem";
+import { describe, it } from "#test";
+import {
+  bumpFees,
+  createManagedL1Transactions,
+  GasPolicySchema,
+  GasPriceAboveCapError,
+  type ManagedL1Client,
+  resolveFees,
+} from "../src/gas.js";
+import type { PendingL1Transaction } from "../src/state.js";
+
+const OPERATOR = `0x${"aa".repeat(20)}` as Hex;
+const PORTAL = `0x${"bb".repeat(20)}` as Hex;
+const CALL = { to: PORTAL, data: "0x1234" as Hex };
+const SILENT = { log: () => {}, warn: () => {} };
+
+interface SignedTransaction {
+  nonce: number;
+  maxFeePerGas: string;
+}
+
+/**
+ * Scripted L1: "signing" encodes the nonce and fee, so a broadcast can be
+ * checked against what was journalled; the test decides what gets mined.
+ */
+function fakeL1(options: { pendingNonce: number; minedNonce?: number }) {
+  const sent: { hash: Hex; nonce: number; maxFeePerGas: bigint }[] = [];
+  const mined = new Set<Hex>();
+  let clock = 0;
+  const client = {
+    account: { address: OPERATOR },
+    estimateFeesPerGas: () => Promise.resolve({ maxFeePerGas: 100n, maxPriorityFeePerGas: 2n }),
+    getTransactionCount: ({ blockTag }: { blockTag: "latest" | "pending" }) =>
+      Promise.resolve(
+        blockTag === "pending"
+          ? options.pendingNonce
+          : (options.minedNonce ?? options.pendingNonce),
+      ),
+    getTransactionReceipt: ({ hash }: { hash: Hex }) =>
+      mined.has(hash)
+        ? Promise.resolve({ transactionHash: hash } as TransactionReceipt)
+        : Promise.reject(new TransactionReceiptNotFoundError({ hash })),
+    prepareTransactionRequest: (request: SignedTransaction) => Promise.resolve(request),
+    signTransaction: ({ nonce, maxFeePerGas }: { nonce: number; maxFeePerGas: bigint }) =>
+      Promise.resolve(toHex(JSON.stringify({ nonce, maxFeePerGas: maxFeePerGas.toString() }))),
+    sendRawTransaction: ({ serializedTransaction }: { serializedTransaction: Hex }) => {
+      const signed = JSON.parse(hexToString(serializedTransaction)) as SignedTransaction;
+      const hash = keccak256(serializedTransaction);
+      sent.push({ hash, nonce: signed.nonce, maxFeePerGas: BigInt(signed.maxFeePerGas) });
+      return Promise.resolve(hash);
+    },
+  } as unknown as ManagedL1Client;
+  return {
+    client,
+    sent,
+    mined,
+    nowMs: () => clock,
+    sleep: (ms: number) => {
+      clock += ms;
+      return Promise.resolve();
+    },
+  };
+}
+
+describe("L1 gas policy", () => {
+  it("refuses fees above the cap unless the target is critical", () => {
+    const policy = GasPolicySchema.parse({ max_fee_per_gas: "100", priority_fee_per_gas: "5" });
+    const market = { maxFeePerGas: 150n, maxPriorityFeePerGas: 1n };
+
+    assert.throws(() => resolveFees(policy, market, false), GasPriceAboveCapError);
+    assert.deepEqual(resolveFees(policy, market, true), {
+      maxFeePerGas: 150n,
+      maxPriorityFeePerGas: 5n,
+    });
+    assert.deepEqual(resolveFees(policy, { maxFeePerGas: 90n, maxPriorityFeePerGas: 1n }, false), {
+      maxFeePerGas: 90n,
+      maxPriorityFeePerGas: 5n,
+    });
+  });
+
+  it("bumps replacement fees within the cap", () => {
+    const policy = GasPolicySchema.parse({ max_fee_per_gas: "100" });
+
+    assert.deepEqual(bumpFees(policy, { maxFeePerGas: 80n, maxPriorityFeePerGas: 2n }, false), {
+      maxFeePerGas: 92n,
+      maxPriorityFeePerGas: 3n,
+    });
+    assert.equal(
+      bumpFees(policy, { maxFeePerGas: 90n, maxPriorityFeePerGas: 2n }, false),
+      undefined,
+    );
+    assert.equal(
+      bumpFees(policy, { maxFeePerGas: 90n, maxPriorityFeePerGas: 2n }, true).maxFeePerGas,
+      104n,
+    );
+  });
+
+  it("journals each version of a stuck transaction before broadcasting it", async () => {
+    const l1 = fakeL1({ pendingNonce: 7 });
+    const journalled: { hashes: number; broadcast: number }[] = [];
+    const policy = GasPolicySchema.parse({ replacement_timeout_ms: 1_000 });
+    const managed = createManagedL1Transactions(l1.client, policy, {
+      logger: SILENT,
+      pollIntervalMs: 400,
+      nowMs: l1.nowMs,
+      sleep: (ms) => {
+        if (l1.sent.length === 2) {
+          l1.mined.add(l1.sent[1]?.hash as Hex);
+        }
+        return l1.sleep(ms);
+      },
+    });
+
+    const { receipt, nonce } = await managed.send(CALL, (pending) => {
+      assert.deepEqual(
+        { to: pending.to, data: pending.data, nonce: pending.nonce },
+        {
+          ...CALL,
+          nonce: 7,
+        },
+      );
+      journalled.push({ hashes: pending.hashes.length, broadcast: l1.sent.length });
+      return Promise.resolve();
+    });
+
+    assert.deepEqual(
+      l1.sent.map((tx) => [tx.nonce, tx.maxFeePerGas]),
+      [
+        [7, 100n],
+        [7, 115n],
+      ],
+    );
+    assert.deepEqual(journalled, [
+      { hashes: 1, broadcast: 0 },
+      { hashes: 2, broadcast: 1 },
+    ]);
+    assert.equal(receipt.transactionHash, l1.sent[1]?.hash);
+    assert.equal(nonce, 7);
+  });
+
+  it("gives up after the maximum number of replacements", async () => {
+    const l1 = fakeL1({ pendingNonce: 0 });
+    const policy = GasPolicySchema.parse({ replacement_timeout_ms: 10, max_replacements: 1 });
+    const managed = createManagedL1Transactions(l1.client, policy, {
+      logger: SILENT,
+      pollIntervalMs: 10,
+      nowMs: l1.nowMs,
+      sleep: l1.sleep,
+    });
+
+    await assert.rejects(
+      managed.send(CALL, () => Promise.resolve()),
+      /after 1 replacements/,
+    );
+    assert.equal(l1.sent.length, 2);
+  });
+
+  it("keeps speeding up a transaction journalled by an earlier run", async () => {
+    const l1 = fakeL1({ pendingNonce: 6, minedNonce: 5 });
+    const stuck: PendingL1Transaction = {
+      ...CALL,
+      nonce: 5,
+      hashes: [`0x${"02".repeat(32)}`],
+      maxFeePerGas: "100",
+      maxPriorityFeePerGas: "2",
+    };
+    const journalled: PendingL1Transaction[] = [];
+    const managed = createManagedL1Transactions(l1.client, GasPolicySchema.parse({}), {
+      allowAboveCap: true,
+      logger: SILENT,
+      nowMs: l1.nowMs,
+      sleep: (ms) => {
+        for (const tx of l1.sent) {
+          l1.mined.add(tx.hash);
+        }
+        return l1.sleep(ms);
+      },
+    });
+
+    const receipt = await managed.resume(stuck, (pending) => {
+      journalled.push(pending);
+      return Promise.resolve();
+    });
+
+    assert.deepEqual(
+      l1.sent.map((tx) => [tx.nonce, tx.maxFeePerGas]),
+      [[5, 115n]],
+    );
+    assert.equal(receipt?.transactionHash, l1.sent[0]?.hash);
+    assert.deepEqual(journalled.at(-1)?.hashes, [...stuck.hashes, l1.sent[0]?.hash]);
+  });
+
+  it("settles a journalled transaction without resending once its nonce is mined", async () => {
+    const l1 = fakeL1({ pendingNonce: 6, minedNonce: 6 });
+    const managed = createManagedL1Transactions(l1.client, GasPolicySchema.parse({}), {
+      logger: SILENT,
+    });
+    const journalled = (hash: Hex): PendingL1Transaction => ({
+      ...CALL,
+      nonce: 5,
+      hashes: [hash],
+      maxFeePerGas: "100",
+      maxPriorityFeePerGas: "2",
+    });
+    const minedHash = `0x${"01".repeat(32)}` as Hex;
+    l1.mined.add(minedHash);
+
+    const noop = () => Promise.resolve();
+    assert.equal((await managed.resume(journalled(minedHash), noop))?.transactionHash, minedHash);
+    assert.equal(
+      await managed.resume(journalled(`0x${"02".repeat(32)}`), noop),
+      undefined,
+      "another transaction took the nonce",
+    );
+    assert.equal(l1.sent.length, 0);
+  });
+});
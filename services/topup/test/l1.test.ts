@@ -1,7 +1,11 @@
 import assert from "node:assert/strict";
 import { describe, it } from "#test";
 import type { L1ChainDeps } from "../src/l1.js";
-import { assertL1RpcChainIdMatches } from "../src/l1.js";
+import {
+  assertL1RpcChainIdMatches,
+  createL1SubmissionQueue,
+  createL1WalletReader,
+} from "../src/l1.js";
 
 function makeDeps(chainId: number): L1ChainDeps {
   return {
@@ -25,4 +29,53 @@ describe("l1", () => {
       /L1 chain mismatch/,
     );
   });
+
+  it("reads the operator wallet's ETH, Fee Juice and gas price", async () => {
+    const operator = `0x${"12".repeat(20)}` as const;
+    const feeJuice = `0x${"34".repeat(20)}` as const;
+    const readWallet = createL1WalletReader("http://localhost:8545", feeJuice, operator, {
+      createPublicClient: (() => ({
+        getBalance: ({ address }: { address: string }) =>
+          Promise.resolve(address === operator ? 7n : 0n),
+        readContract: ({ address, args }: { address: string; args: string[] }) =>
+          Promise.resolve(address === feeJuice && args[0] === operator ? 9n : 0n),
+        estimateFeesPerGas: () => Promise.resolve({ maxFeePerGas: 3n, maxPriorityFeePerGas: 1n }),
+      })) as unknown as L1ChainDeps["createPublicClient"],
+      http: (() => ({})) as unknown as L1ChainDeps["http"],
+    });
+
+    assert.deepEqual(await readWallet(), { eth: 7n, feeJuice: 9n, maxFeePerGas: 3n });
+  });
+
+  it("serialises L1 submissions in arrival order even when one fails", async () => {
+    const queue = createL1SubmissionQueue();
+    const order: string[] = [];
+    let release: (() => void) | undefined;
+    const first = queue.run(
+      () =>
+        new Promise<void>((resolve) => {
+          order.push("first:start");
+          release = () => {
+            order.push("first:end");
+            resolve();
+          };
+        }),
+    );
+    const second = queue.run(() => {
+      order.push("second");
+      return Promise.reject(new Error("nonce conflict"));
+    });
+    const third = queue.run(() => {
+      order.push("third");
+      return Promise.resolve();
+    });
+
+    await Promise.resolve();
+    assert.deepEqual(order, ["first:start"]);
+    release?.();
+    await first;
+    await assert.rejects(second, /nonce conflict/);
+    await third;
+    assert.deepEqual(order, ["first:start", "first:end", "second", "third"]);
+  });
 });
@@ -4,7 +4,7 @@ import { createTopupOpsServer, TopupOpsState } from "../src/ops.js";
 
 describe("topup ops", () => {
   it("reports readiness transitions based on balance check outcomes", () => {
-    const state = new TopupOpsState({ checkIntervalMs: 1_000 });
+    const state = new TopupOpsState({ checkIntervalMs: 1_000, targets: ["default"] });
 
     const initial = state.snapshotReadiness(10_000);
     assert.equal(initial.ready, false);
@@ -14,12 +14,12 @@ describe("topup ops", () => {
       true,
     );
 
-    state.recordBalanceCheckSuccess();
+    state.recordBalanceCheckSuccess("default", 7n);
     const ready = state.snapshotReadiness();
     assert.equal(ready.ready, true);
     assert.equal(ready.checks.last_balance_check_ok, true);
 
-    state.recordBalanceCheckFailure(new Error("rpc unavailable"));
+    state.recordBalanceCheckFailure("default", new Error("rpc unavailable"));
     const failed = state.snapshotReadiness();
     assert.equal(failed.ready, false);
     assert.equal(
@@ -29,7 +29,7 @@ describe("topup ops", () => {
   });
 
   it("serves /health /ready and /metrics from ops server", async () => {
-    const state = new TopupOpsState({ checkIntervalMs: 1_000 });
+    const state = new TopupOpsState({ checkIntervalMs: 1_000, targets: ["default"] });
     const server = createTopupOpsServer(state);
     await server.listen("127.0.0.1", 0);
 
@@ -54,10 +54,10 @@ describe("topup ops", () => {
         true,
       );
 
-      state.recordBalanceCheckSuccess();
-      state.recordBridgeEvent("submitted");
-      state.recordBridgeEvent("confirmed");
-      state.recordBridgeEvent("timeout");
+      state.recordBalanceCheckSuccess("default", 7n);
+      state.recordBridgeEvent("default", "submitted");
+      state.recordBridgeEvent("default", "confirmed");
+      state.recordBridgeEvent("default", "timeout");
 
       const ready = await fetch(`${baseUrl}/ready`);
       assert.equal(ready.status, 200);
@@ -67,11 +67,66 @@ describe("topup ops", () => {
       const metrics = await fetch(`${baseUrl}/metrics`);
       assert.equal(metrics.status, 200);
       const metricsBody = await metrics.text();
-      assert.match(metricsBody, /topup_bridge_events_total\{event="submitted"\} 1/);
-      assert.match(metricsBody, /topup_bridge_events_total\{event="confirmed"\} 1/);
-      assert.match(metricsBody, /topup_bridge_events_total\{event="timeout"\} 1/);
+      assert.match(
+        metricsBody,
+        /topup_bridge_events_total\{target="default",event="submitted"\} 1/,
+      );
+      assert.match(
+        metricsBody,
+        /topup_bridge_events_total\{target="default",event="confirmed"\} 1/,
+      );
+      assert.match(metricsBody, /topup_bridge_events_total\{target="default",event="timeout"\} 1/);
+      assert.match(metricsBody, /topup_fee_juice_balance\{target="default"\} 7/);
     } finally {
       await server.close();
     }
   });
+
+  it("is ready only once every target has a fresh successful check", () => {
+    const state = new TopupOpsState({ checkIntervalMs: 1_000, targets: ["alpha", "beta"] });
+
+    state.recordBalanceCheckSuccess("alpha", 10n);
+    const partial = state.snapshotReadiness();
+    assert.equal(partial.ready, false);
+    assert.deepEqual(
+      partial.reasons.map((reason) => [reason.code, reason.target]),
+      [["no_successful_balance_checks", "beta"]],
+    );
+    assert.equal(partial.checks.targets.alpha.successful_balance_checks, 1);
+
+    state.recordBalanceCheckSuccess("beta", 20n);
+    state.recordTopupDeferred("beta");
+    assert.equal(state.snapshotReadiness().ready, true);
+    const metrics = state.renderPrometheus();
+    assert.match(metrics, /topup_balance_checks_total\{target="beta",outcome="success"\} 1/);
+    assert.match(metrics, /topup_deferred_topups_total\{target="alpha"\} 0/);
+    assert.match(metrics, /topup_deferred_topups_total\{target="beta"\} 1/);
+    assert.throws(() => state.recordBridgeEvent("gamma", "submitted"), /Unknown top-up target/);
+  });
+
+  it("reports the L1 wallet balances and fails readiness below the floors", () => {
+    const state = new TopupOpsState({
+      checkIntervalMs: 1_000,
+      targets: ["default"],
+      l1WalletFloors: { minEthBalance: 100n, minFeeJuiceBalance: 1_000n },
+    });
+    state.recordBalanceCheckSuccess("default", 10n);
+    assert.equal(state.snapshotReadiness().ready, true, "no wallet reading yet");
+
+    state.recordL1Wallet({ eth: 50n, feeJuice: 5_000n });
+    const low = state.snapshotReadiness();
+    assert.deepEqual(
+      low.reasons.map((reason) => reason.code),
+      ["l1_eth_balance_low"],
+    );
+    const metrics = state.renderPrometheus();
+    assert.match(metrics, /topup_l1_eth_balance 50/);
+    assert.match(metrics, /topup_l1_fee_juice_balance 5000/);
+
+    state.recordL1Wallet({ eth: 500n, feeJuice: 500n });
+    assert.deepEqual(
+      state.snapshotReadiness().reasons.map((reason) => reason.code),
+      ["l1_fee_juice_balance_low"],
+    );
+  });
 });
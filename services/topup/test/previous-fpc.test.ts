@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "#test";
+import { TopupOpsState } from "../src/ops.js";
+import { createPreviousFpcMonitor } from "../src/previous-fpc.js";
+
+const PREVIOUS_FPC = `0x${"0f".repeat(32)}`;
+
+function recordingLogger() {
+  const lines: string[] = [];
+  return {
+    lines,
+    logger: {
+      log: (message: string) => lines.push(message),
+      warn: (message: string) => lines.push(`warn: ${message}`),
+      error: (message: string) => lines.push(`error: ${message}`),
+    },
+  };
+}
+
+describe("previous fpc monitor", () => {
+  it("reports the draining balance and logs the drain once", async () => {
+    const balances = [40n, 0n, 0n];
+    const state = new TopupOpsState({ checkIntervalMs: 1_000, targets: ["default"] });
+    const { lines, logger } = recordingLogger();
+    const monitor = createPreviousFpcMonitor(PREVIOUS_FPC, {
+      getBalance: () => Promise.resolve(balances.shift() ?? 0n),
+      recordBalance: (balance) => state.recordPreviousFpcBalance("default", balance),
+      logger,
+    });
+
+    assert.doesNotMatch(state.renderPrometheus(), /topup_previous_fpc_fee_juice_balance/);
+
+    await monitor.check();
+    assert.match(
+      state.renderPrometheus(),
+      /topup_previous_fpc_fee_juice_balance\{target="default"\} 40/,
+    );
+
+    await monitor.check();
+    await monitor.check();
+    assert.match(
+      state.renderPrometheus(),
+      /topup_previous_fpc_fee_juice_balance\{target="default"\} 0/,
+    );
+    assert.equal(lines.filter((line) => line.includes("is drained")).length, 1);
+  });
+
+  it("keeps the last balance when a read fails", async () => {
+    const state = new TopupOpsState({ checkIntervalMs: 1_000, targets: ["default"] });
+    const { lines, logger } = recordingLogger();
+    let fail = false;
+    const monitor = createPreviousFpcMonitor(PREVIOUS_FPC, {
+      getBalance: () => (fail ? Promise.reject(new Error("node down")) : Promise.resolve(7n)),
+      recordBalance: (balance) => state.recordPreviousFpcBalance("default", balance),
+      logger,
+    });
+
+    await monitor.check();
+    fail = true;
+    await monitor.check();
+
+    assert.match(
+      state.renderPrometheus(),
+      /topup_previous_fpc_fee_juice_balance\{target="default"\} 7/,
+    );
+    assert.match(lines.at(-1) ?? "", /^warn: Failed to read previous FPC/);
+  });
+});
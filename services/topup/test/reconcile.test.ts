@@ -2,10 +2,11 @@ import assert from "node:assert/strict";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { describe, it } from "#test";
 import {
+  listPersistedBridges,
   type ReconcileBridgeStateOptions,
   reconcilePersistedBridgeState,
 } from "../src/reconcile.js";
-import type { BridgeStateStore } from "../src/state.js";
+import type { BridgeStateStore, PersistedBridgeSubmission } from "../src/state.js";
 
 function stubNode(): ReconcileBridgeStateOptions["node"] {
   return {} as ReconcileBridgeStateOptions["node"];
@@ -15,40 +16,45 @@ const FPC = AztecAddress.fromString(
   "0x27e0f62fe6edf34f850dd7c1cc7cd638f7ec38ed3eb5ae4bd8c0c941c78e67ac",
 );
 
-function makeStore(
-  value: Awaited<ReturnType<BridgeStateStore["read"]>>,
-): BridgeStateStore & { clearCalls: number } {
+function makeStore(value: PersistedBridgeSubmission): BridgeStateStore & {
+  persisted: PersistedBridgeSubmission;
+  clearCalls: number;
+} {
   return {
     storageLabel: "test-store",
+    persisted: value,
     clearCalls: 0,
-    read: async () => value,
+    list: async () => [value],
     write: () => Promise.reject(new Error("not used")),
-    clear: function clear() {
+    clear: function clear(messageHash) {
+      assert.equal(messageHash, value.messageHash);
       this.clearCalls += 1;
       return Promise.resolve();
     },
+    discardMalformed: () => Promise.resolve(0),
   };
 }
 
 describe("reconcile", () => {
-  it("returns none when there is no persisted bridge", async () => {
-    const store = makeStore(null);
-    const result = await reconcilePersistedBridgeState(
-      {
-        stateStore: store,
-        getBalance: async () => 0n,
-        node: stubNode(),
-        fpcAddress: FPC,
-        timeoutMs: 1,
-        initialPollMs: 1,
-        maxPollMs: 1,
-      },
-      {
-        confirmBridge: () => Promise.reject(new Error("not used")),
+  it("drops malformed entries and lists the rest", async () => {
+    let corrupt = true;
+    let discardCalls = 0;
+    const store: BridgeStateStore = {
+      storageLabel: "test-store",
+      list: () =>
+        corrupt ? Promise.reject(new Error("Bridge state is malformed")) : Promise.resolve([]),
+      write: () => Promise.reject(new Error("not used")),
+      clear: () => Promise.reject(new Error("not used")),
+      discardMalformed: () => {
+        discardCalls += 1;
+        corrupt = false;
+        return Promise.resolve(1);
       },
-    );
-    assert.equal(result, "none");
-    assert.equal(store.clearCalls, 0);
+    };
+
+    const bridges = await listPersistedBridges(store, { log: () => {}, warn: () => {} });
+    assert.deepEqual(bridges, []);
+    assert.equal(discardCalls, 1);
   });
 
   it("clears persisted state after confirmed reconciliation", async () => {
@@ -65,6 +71,7 @@ describe("reconcile", () => {
     const result = await reconcilePersistedBridgeState(
       {
         stateStore: store,
+        persisted: store.persisted,
         getBalance: async () => 10n,
         node: stubNode(),
         fpcAddress: FPC,
@@ -107,6 +114,7 @@ describe("reconcile", () => {
     const result = await reconcilePersistedBridgeState(
       {
         stateStore: store,
+        persisted: store.persisted,
         getBalance: async () => 10n,
         node: stubNode(),
         fpcAddress: FPC,
@@ -149,6 +157,7 @@ describe("reconcile", () => {
     const result = await reconcilePersistedBridgeState(
       {
         stateStore: store,
+        persisted: store.persisted,
         getBalance: async () => 0n,
         node: stubNode(),
         fpcAddress: FPC,
@@ -161,7 +170,7 @@ describe("reconcile", () => {
         confirmBridge: () => Promise.reject(new Error("should not be called")),
       },
     );
-    assert.equal(result, "none");
+    assert.equal(result, "evicted");
     assert.equal(store.clearCalls, 1);
   });
 
@@ -179,6 +188,7 @@ describe("reconcile", () => {
     const result = await reconcilePersistedBridgeState(
       {
         stateStore: store,
+        persisted: store.persisted,
         getBalance: async () => 11n,
         node: stubNode(),
         fpcAddress: FPC,
@@ -221,6 +231,7 @@ describe("reconcile", () => {
     const result = await reconcilePersistedBridgeState(
       {
         stateStore: store,
+        persisted: store.persisted,
         getBalance: async () => 10n,
         node: stubNode(),
         fpcAddress: FPC,
@@ -5,12 +5,15 @@ import path from "node:path";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { describe, it } from "#test";
 import {
+  listPersistedBridges,
   type ReconcileBridgeStateOptions,
   reconcilePersistedBridgeState,
 } from "../src/reconcile.js";
 import {
   acquireProcessLock,
+  BRIDGE_HISTORY_DB,
   createLmdbBridgeStateStore,
+  findOrphanedBridgeTargets,
   openTopupDatabase,
   releaseProcessLock,
 } from "../src/state.js";
@@ -47,33 +50,102 @@ describe("lmdb bridge state store", () => {
       submittedAtMs: 1234,
     });
 
-    const value = await store.read();
-    assert.deepEqual(value, {
+    assert.deepEqual(await store.list(), [
+      {
+        baselineBalance: "10",
+        amount: "3",
+        claimSecret: `0x${"33".repeat(32)}`,
+        claimSecretHash: `0x${"11".repeat(32)}`,
+        messageHash: HASH,
+        messageLeafIndex: "9",
+        submittedAtMs: 1234,
+      },
+    ]);
+
+    await db.close();
+    temp.cleanup();
+  });
+
+  it("keeps the L1 deposit transaction hash and nonce", async () => {
+    const temp = makeTempDir();
+    const db = await openTopupDatabase(path.join(temp.dir, "db"));
+    const store = createLmdbBridgeStateStore(db, path.join(temp.dir, "db"));
+    const l1TxHash = `0x${"cd".repeat(32)}` as `0x${string}`;
+
+    await store.write(10n, {
+      amount: 3n,
+      claimSecret: `0x${"33".repeat(32)}`,
+      claimSecretHash: `0x${"11".repeat(32)}`,
+      messageHash: HASH,
+      messageLeafIndex: 9n,
+      submittedAtMs: 1234,
+      l1TxHash,
+      l1Nonce: 7,
+    });
+
+    const [persisted] = await store.list();
+    assert.equal(persisted?.l1TxHash, l1TxHash);
+    assert.equal(persisted?.l1Nonce, 7);
+
+    await db.close();
+    temp.cleanup();
+  });
+
+  it("keeps an unmined deposit apart until it is written as an in-flight bridge", async () => {
+    const temp = makeTempDir();
+    const db = await openTopupDatabase(path.join(temp.dir, "db"));
+    const store = createLmdbBridgeStateStore(db, path.join(temp.dir, "db"));
+    const deposit = {
       baselineBalance: "10",
       amount: "3",
       claimSecret: `0x${"33".repeat(32)}`,
       claimSecretHash: `0x${"11".repeat(32)}`,
+      submittedAtMs: 1234,
+      step: "deposit" as const,
+      transaction: {
+        to: `0x${"aa".repeat(20)}` as `0x${string}`,
+        data: "0x1234" as `0x${string}`,
+        nonce: 7,
+        hashes: [`0x${"ef".repeat(32)}` as `0x${string}`],
+        maxFeePerGas: "100",
+        maxPriorityFeePerGas: "2",
+      },
+    };
+
+    await store.writeDeposit(deposit);
+    assert.deepEqual(await store.listDeposits(), [deposit]);
+    assert.deepEqual(await store.list(), [], "not in flight before the deposit is mined");
+    assert.deepEqual(findOrphanedBridgeTargets(db, []), ["default"]);
+
+    await store.write(10n, {
+      amount: 3n,
+      claimSecret: deposit.claimSecret,
+      claimSecretHash: deposit.claimSecretHash,
       messageHash: HASH,
-      messageLeafIndex: "9",
+      messageLeafIndex: 9n,
       submittedAtMs: 1234,
+      l1TxHash: deposit.transaction.hashes[0],
+      l1Nonce: 7,
     });
+    assert.deepEqual(await store.listDeposits(), []);
+    assert.equal((await store.list())[0]?.messageHash, HASH);
 
     await db.close();
     temp.cleanup();
   });
 
-  it("returns null when no bridge state exists", async () => {
+  it("lists nothing when no bridge state exists", async () => {
     const temp = makeTempDir();
     const db = await openTopupDatabase(path.join(temp.dir, "db"));
     const store = createLmdbBridgeStateStore(db, path.join(temp.dir, "db"));
 
-    assert.equal(await store.read(), null);
+    assert.deepEqual(await store.list(), []);
 
     await db.close();
     temp.cleanup();
   });
 
-  it("clears persisted bridge metadata", async () => {
+  it("clears persisted bridge metadata but keeps the bridge history", async () => {
     const temp = makeTempDir();
     const db = await openTopupDatabase(path.join(temp.dir, "db"));
     const store = createLmdbBridgeStateStore(db, path.join(temp.dir, "db"));
@@ -86,14 +158,19 @@ describe("lmdb bridge state store", () => {
       messageLeafIndex: 1n,
       submittedAtMs: 1,
     });
-    await store.clear();
-    assert.equal(await store.read(), null);
+    await store.clear(HASH);
+    assert.deepEqual(await store.list(), []);
+    const history = db.openDB({ name: BRIDGE_HISTORY_DB });
+    assert.deepEqual(
+      [...history.getRange({})].map(({ value }) => value),
+      [{ amount: "2", messageHash: HASH, submittedAtMs: 1 }],
+    );
 
     await db.close();
     temp.cleanup();
   });
 
-  it("overwrites existing bridge state on write", async () => {
+  it("keeps one entry per in-flight bridge, oldest first", async () => {
     const temp = makeTempDir();
     const db = await openTopupDatabase(path.join(temp.dir, "db"));
     const store = createLmdbBridgeStateStore(db, path.join(temp.dir, "db"));
@@ -116,10 +193,18 @@ describe("lmdb bridge state store", () => {
       submittedAtMs: 2000,
     });
 
-    const value = await store.read();
-    assert.equal(value?.baselineBalance, "20");
-    assert.equal(value?.amount, "5");
-    assert.equal(value?.submittedAtMs, 2000);
+    assert.deepEqual(
+      (await store.list()).map((bridge) => [bridge.baselineBalance, bridge.submittedAtMs]),
+      [
+        ["10", 1000],
+        ["20", 2000],
+      ],
+    );
+    await store.clear(HASH);
+    assert.deepEqual(
+      (await store.list()).map((bridge) => bridge.amount),
+      ["5"],
+    );
 
     await db.close();
     temp.cleanup();
@@ -143,10 +228,10 @@ describe("lmdb bridge state store", () => {
     const db = await openTopupDatabase(dbPath);
 
     // Write garbage directly via the raw db handle
-    await db.put("bridge", { bad: true });
+    await db.put(`bridge/${HASH}`, { bad: true });
 
     const store = createLmdbBridgeStateStore(db, dbPath);
-    assert.throws(() => store.read(), /Bridge state is malformed/);
+    assert.throws(() => store.list(), /Bridge state is malformed/);
 
     await db.close();
     temp.cleanup();
@@ -163,6 +248,64 @@ describe("lmdb bridge state store", () => {
     await db.close();
     temp.cleanup();
   });
+
+  it("keeps separate bridge state per target and reports orphaned targets", async () => {
+    const temp = makeTempDir();
+    const dbPath = path.join(temp.dir, "db");
+    const db = await openTopupDatabase(dbPath);
+    const legacy = createLmdbBridgeStateStore(db, dbPath);
+    const named = createLmdbBridgeStateStore(db, dbPath, {
+      id: "beta",
+      fpcAddress: FPC.toString(),
+    });
+    const bridge = {
+      amount: 4n,
+      claimSecret: `0x${"33".repeat(32)}`,
+      claimSecretHash: `0x${"22".repeat(32)}`,
+      messageHash: HASH,
+      messageLeafIndex: 2n,
+      submittedAtMs: 5,
+    };
+
+    await legacy.write(1n, bridge);
+    await named.write(1n, { ...bridge, submittedAtMs: 6 });
+    assert.deepEqual(
+      (await legacy.list()).map((entry) => entry.submittedAtMs),
+      [5],
+    );
+    assert.deepEqual(
+      (
+        await createLmdbBridgeStateStore(db, dbPath, { id: "default", fpcAddress: "0x1" }).list()
+      ).map((entry) => entry.submittedAtMs),
+      [5],
+      "the default target reads the single-target entries",
+    );
+    assert.equal(named.storageLabel, `lmdb://${dbPath}#beta`);
+
+    assert.deepEqual(findOrphanedBridgeTargets(db, ["default", "beta"]), []);
+    assert.deepEqual(findOrphanedBridgeTargets(db, ["alpha"]), ["default", "beta"]);
+    await named.clear(HASH);
+    assert.deepEqual(await named.list(), []);
+    assert.deepEqual(findOrphanedBridgeTargets(db, ["default"]), []);
+
+    const history = db.openDB({ name: BRIDGE_HISTORY_DB });
+    assert.deepEqual(
+      [...history.getRange({})].map(({ value }) => value),
+      [
+        { amount: "4", messageHash: HASH, submittedAtMs: 5 },
+        {
+          amount: "4",
+          messageHash: HASH,
+          submittedAtMs: 6,
+          target: "beta",
+          fpcAddress: FPC.toString(),
+        },
+      ],
+    );
+
+    await db.close();
+    temp.cleanup();
+  });
 });
 
 describe("crash recovery", () => {
@@ -198,8 +341,7 @@ describe("crash recovery", () => {
     // Session 2: reopen and verify state survived
     const db2 = await openTopupDatabase(dbPath);
     const store2 = createLmdbBridgeStateStore(db2, dbPath);
-    const recovered = await store2.read();
-    assert.deepEqual(recovered, expectedPersisted);
+    assert.deepEqual(await store2.list(), [expectedPersisted]);
 
     await db2.close();
     temp.cleanup();
@@ -222,6 +364,7 @@ describe("crash recovery", () => {
     const outcome = await reconcilePersistedBridgeState(
       {
         stateStore: store2,
+        persisted: expectedPersisted,
         getBalance: async () => 105n,
         node: stubNode(),
         fpcAddress: FPC,
@@ -250,9 +393,9 @@ describe("crash recovery", () => {
     );
 
     assert.equal(outcome, "confirmed");
-    assert.equal(
-      await store2.read(),
-      null,
+    assert.deepEqual(
+      await store2.list(),
+      [],
       "state should be cleared after confirmed reconciliation",
     );
 
@@ -277,6 +420,7 @@ describe("crash recovery", () => {
     const outcome = await reconcilePersistedBridgeState(
       {
         stateStore: store2,
+        persisted: expectedPersisted,
         getBalance: async () => 100n,
         node: stubNode(),
         fpcAddress: FPC,
@@ -305,43 +449,51 @@ describe("crash recovery", () => {
     );
 
     assert.equal(outcome, "timeout");
-    assert.deepEqual(await store2.read(), expectedPersisted, "state should survive for next retry");
+    assert.deepEqual(
+      await store2.list(),
+      [expectedPersisted],
+      "state should survive for next retry",
+    );
     await db2.close();
 
     // Session 3: state still there for another attempt
     const db3 = await openTopupDatabase(dbPath);
     const store3 = createLmdbBridgeStateStore(db3, dbPath);
-    assert.deepEqual(await store3.read(), expectedPersisted);
+    assert.deepEqual(await store3.list(), [expectedPersisted]);
     await db3.close();
 
     temp.cleanup();
   });
 
-  it("reconcile clears corrupt LMDB state and returns none", async () => {
+  it("drops corrupt LMDB entries and keeps the valid ones", async () => {
     const temp = makeTempDir();
     const dbPath = path.join(temp.dir, "db");
     const db = await openTopupDatabase(dbPath);
-
-    // Write garbage directly so store.read() throws
-    await db.put("bridge", { bad: true });
     const store = createLmdbBridgeStateStore(db, dbPath);
+    await store.write(100n, bridgeInput);
 
-    const outcome = await reconcilePersistedBridgeState(
-      {
-        stateStore: store,
-        getBalance: async () => 0n,
-        node: stubNode(),
-        fpcAddress: FPC,
-        timeoutMs: 1,
-        initialPollMs: 1,
-        maxPollMs: 1,
-        logger: { log: () => {}, warn: () => {} },
-      },
-      { confirmBridge: () => Promise.reject(new Error("should not be called")) },
-    );
+    // Write garbage directly so store.list() throws
+    await db.put(`bridge/0x${"cd".repeat(32)}`, { bad: true });
+
+    const bridges = await listPersistedBridges(store, { log: () => {}, warn: () => {} });
+    assert.deepEqual(bridges, [expectedPersisted]);
+    assert.deepEqual(await store.list(), [expectedPersisted], "corrupt entry should be gone");
+
+    await db.close();
+    temp.cleanup();
+  });
+
+  it("reads and clears a bridge persisted before concurrent bridges", async () => {
+    const temp = makeTempDir();
+    const dbPath = path.join(temp.dir, "db");
+    const db = await openTopupDatabase(dbPath);
+    await db.put("bridge", expectedPersisted);
+    const store = createLmdbBridgeStateStore(db, dbPath);
 
-    assert.equal(outcome, "none");
-    assert.equal(await store.read(), null, "corrupt entry should have been cleared");
+    assert.deepEqual(await store.list(), [expectedPersisted]);
+    assert.deepEqual(findOrphanedBridgeTargets(db, ["beta"]), ["default"]);
+    await store.clear(HASH);
+    assert.deepEqual(await store.list(), []);
 
     await db.close();
     temp.cleanup();
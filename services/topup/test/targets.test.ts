@@ -0,0 +1,331 @@
+import assert from "node:assert/strict";
+import { describe, it } from "#test";
+import { createTopupChecker } from "../src/checker.js";
+import type { PersistedBridgeDeposit, PersistedBridgeSubmission } from "../src/state.js";
+import {
+  createTopupScheduler,
+  planTopups,
+  type TopupNeed,
+  type TopupTargetRunner,
+} from "../src/targets.js";
+
+const SILENT = { log: () => {}, warn: () => {}, error: () => {} };
+
+function need(overrides: Partial<TopupNeed> & Pick<TopupNeed, "id">): TopupNeed {
+  const base = {
+    priority: 0,
+    balance: 0n,
+    threshold: 100n,
+    topUpAmount: 100n,
+    critical: false,
+    ...overrides,
+  };
+  return { due: base.balance < base.threshold, ...base };
+}
+
+function runner(
+  id: string,
+  options: { priority?: number; balance: bigint; bridged: string[] },
+): TopupTargetRunner {
+  const { bridged } = options;
+  const getBalance = () => Promise.resolve(options.balance);
+  return {
+    id,
+    priority: options.priority ?? 0,
+    threshold: 100n,
+    getBalance,
+    listPersisted: () => Promise.resolve([]),
+    reconcile: () => Promise.resolve(),
+    checker: createTopupChecker(
+      { threshold: 100n, topUpAmount: 100n },
+      {
+        getBalance,
+        bridge: (amount) => {
+          bridged.push(id);
+          return Promise.resolve({
+            amount,
+            claimSecret: `0x${"11".repeat(32)}`,
+            claimSecretHash: `0x${"22".repeat(32)}`,
+            messageHash: `0x${"ab".repeat(32)}`,
+            messageLeafIndex: 1n,
+            submittedAtMs: 1,
+          });
+        },
+        confirm: (baselineBalance) =>
+          Promise.resolve({
+            status: "confirmed",
+            baselineBalance,
+            maxObservedBalance: baselineBalance + 100n,
+            lastObservedBalance: baselineBalance + 100n,
+            observedDelta: 100n,
+            elapsedMs: 1,
+            attempts: 1,
+            pollErrors: 0,
+            messageCheckAttempted: true,
+            messageReady: true,
+            messageCheckFailed: false,
+          }),
+        logger: SILENT,
+      },
+    ),
+  };
+}
+
+describe("top-up targets", () => {
+  it("funds by priority, then by depth below threshold, within the L1 balance", () => {
+    const needs = [
+      need({ id: "low", priority: 0, balance: 0n }),
+      need({ id: "half", priority: 5, balance: 50n }),
+      need({ id: "empty", priority: 5, balance: 10n }),
+      need({ id: "healthy", priority: 9, balance: 100n }),
+    ];
+
+    assert.deepEqual(
+      planTopups(needs, undefined).fund.map((n) => n.id),
+      ["empty", "half", "low"],
+    );
+
+    const scarce = planTopups(needs, { feeJuice: 250n, eth: 10n, bridgeGasCost: 1n });
+    assert.deepEqual(
+      scarce.fund.map((n) => n.id),
+      ["empty", "half"],
+    );
+    assert.deepEqual(
+      scarce.deferred.map((n) => n.id),
+      ["low"],
+    );
+  });
+
+  it("does not let a smaller, lower-priority top-up jump the queue", () => {
+    const plan = planTopups(
+      [
+        need({ id: "urgent", priority: 1, topUpAmount: 500n, threshold: 500n }),
+        need({ id: "small", priority: 0, topUpAmount: 100n }),
+      ],
+      { feeJuice: 300n, eth: 10n, bridgeGasCost: 1n },
+    );
+    assert.deepEqual(plan.fund, []);
+    assert.deepEqual(
+      plan.deferred.map((n) => n.id),
+      ["urgent", "small"],
+    );
+  });
+
+  it("defers bridges the L1 wallet cannot pay gas for", () => {
+    const plan = planTopups([need({ id: "a" }), need({ id: "b", balance: 50n })], {
+      feeJuice: 1_000n,
+      eth: 15n,
+      bridgeGasCost: 10n,
+    });
+    assert.deepEqual(
+      plan.fund.map((n) => n.id),
+      ["a"],
+    );
+    assert.deepEqual(
+      plan.deferred.map((n) => n.id),
+      ["b"],
+    );
+  });
+
+  it("holds back non-critical targets while L1 gas is above the cap", () => {
+    const needs = [
+      need({ id: "urgent", priority: 1, balance: 50n }),
+      need({ id: "critical", priority: 0, balance: 10n, critical: true }),
+    ];
+    const budget = { feeJuice: 1_000n, eth: 10n, bridgeGasCost: 1n };
+
+    const capped = planTopups(needs, { ...budget, gasAboveCap: true });
+    assert.deepEqual(
+      capped.fund.map((n) => n.id),
+      ["critical"],
+    );
+    assert.deepEqual(
+      capped.gasDeferred.map((n) => n.id),
+      ["urgent"],
+    );
+    assert.deepEqual(capped.deferred, []);
+
+    assert.deepEqual(
+      planTopups(needs, budget).fund.map((n) => n.id),
+      ["urgent", "critical"],
+    );
+  });
+
+  it("bridges only the targets the L1 wallet can cover and reports the rest", async () => {
+    const bridged: string[] = [];
+    const deferred: string[] = [];
+    const scheduler = createTopupScheduler(
+      [
+        runner("a", { priority: 1, balance: 0n, bridged }),
+        runner("b", { priority: 2, balance: 0n, bridged }),
+        runner("c", { priority: 0, balance: 500n, bridged }),
+      ],
+      {
+        getL1Budget: () => Promise.resolve({ feeJuice: 150n, eth: 10n, bridgeGasCost: 1n }),
+        onDeferred: (n) => deferred.push(n.id),
+        logger: SILENT,
+      },
+    );
+
+    await scheduler.runCycle();
+    assert.deepEqual(bridged, ["b"]);
+    assert.deepEqual(deferred, ["a"]);
+  });
+
+  it("pipelines bridges up to the in-flight limit and adopts persisted ones", async () => {
+    const bridged: bigint[] = [];
+    const confirmations: Array<() => void> = [];
+    let balance = 250n;
+    const persisted = {
+      baselineBalance: "0",
+      amount: "100",
+      claimSecret: `0x${"11".repeat(32)}`,
+      claimSecretHash: `0x${"22".repeat(32)}`,
+      messageHash: `0x${"ef".repeat(32)}` as `0x${string}`,
+      messageLeafIndex: "0",
+      submittedAtMs: 0,
+    };
+    let reconciled: (() => void) | undefined;
+    const checker = createTopupChecker(
+      { threshold: 300n, topUpAmount: 100n, maxInFlight: 3 },
+      {
+        getBalance: () => Promise.resolve(balance),
+        bridge: (amount) => {
+          bridged.push(amount);
+          return Promise.resolve({
+            amount,
+            claimSecret: `0x${"11".repeat(32)}`,
+            claimSecretHash: `0x${"22".repeat(32)}`,
+            messageHash: `0x${bridged.length.toString(16).padStart(64, "0")}`,
+            messageLeafIndex: BigInt(bridged.length),
+            submittedAtMs: 1,
+          });
+        },
+        confirm: (baselineBalance) =>
+          new Promise((resolve) => {
+            confirmations.push(() =>
+              resolve({
+                status: "confirmed",
+                baselineBalance,
+                maxObservedBalance: baselineBalance + 100n,
+                lastObservedBalance: baselineBalance + 100n,
+                observedDelta: 100n,
+                elapsedMs: 1,
+                attempts: 1,
+                pollErrors: 0,
+                messageCheckAttempted: true,
+                messageReady: true,
+                messageCheckFailed: false,
+              }),
+            );
+          }),
+        logger: SILENT,
+      },
+    );
+    const scheduler = createTopupScheduler(
+      [
+        {
+          id: "a",
+          priority: 0,
+          threshold: 300n,
+          checker,
+          getBalance: () => Promise.resolve(balance),
+          listPersisted: () => Promise.resolve([persisted]),
+          reconcile: () =>
+            new Promise<void>((resolve) => {
+              reconciled = resolve;
+            }),
+        },
+      ],
+      { logger: SILENT },
+    );
+
+    // The persisted bridge's 100 wei counts towards the balance, so nothing is due yet.
+    await scheduler.runCycle();
+    assert.equal(checker.isTracking(persisted.messageHash), true);
+    assert.deepEqual(bridged, []);
+
+    // The balance dropped further: bridge again while the first bridge is still confirming.
+    balance = 50n;
+    await scheduler.runCycle();
+    await scheduler.runCycle();
+    assert.deepEqual(bridged, [100n, 100n]);
+    assert.equal(checker.hasCapacity(), false, "the persisted bridge holds the third slot");
+
+    await scheduler.runCycle();
+    assert.equal(bridged.length, 2, "no bridge beyond the in-flight limit");
+
+    reconciled?.();
+    for (const confirm of confirmations) {
+      confirm();
+    }
+    await scheduler.drain();
+    assert.equal(checker.isBridgeInFlight(), false);
+  });
+
+  it("resumes an unfinished deposit, then reconciles the bridge it became", async () => {
+    const bridged: string[] = [];
+    const claimSecretHash = `0x${"22".repeat(32)}`;
+    const deposits: PersistedBridgeDeposit[] = [
+      {
+        baselineBalance: "50",
+        amount: "100",
+        claimSecret: `0x${"11".repeat(32)}`,
+        claimSecretHash,
+        submittedAtMs: 0,
+        step: "deposit",
+        transaction: {
+          to: `0x${"aa".repeat(20)}`,
+          data: "0x",
+          nonce: 3,
+          hashes: [`0x${"ef".repeat(32)}`],
+          maxFeePerGas: "100",
+          maxPriorityFeePerGas: "2",
+        },
+      },
+    ];
+    const persisted: PersistedBridgeSubmission[] = [];
+    const reconciled: string[] = [];
+    let finishResume: (() => void) | undefined;
+    const target: TopupTargetRunner = {
+      ...runner("a", { balance: 50n, bridged }),
+      listPersisted: () => Promise.resolve([...persisted]),
+      reconcile: (bridge) => {
+        reconciled.push(bridge.messageHash);
+        return Promise.resolve();
+      },
+      deposits: {
+        list: () => Promise.resolve([...deposits]),
+        resume: (deposit) =>
+          new Promise<void>((resolve) => {
+            finishResume = () => {
+              deposits.length = 0;
+              persisted.push({
+                baselineBalance: deposit.baselineBalance,
+                amount: deposit.amount,
+                claimSecret: deposit.claimSecret,
+                claimSecretHash: deposit.claimSecretHash,
+                messageHash: `0x${"ab".repeat(32)}`,
+                messageLeafIndex: "4",
+                submittedAtMs: deposit.submittedAtMs,
+              });
+              resolve();
+            };
+          }),
+      },
+    };
+    const scheduler = createTopupScheduler([target], { logger: SILENT });
+
+    // The deposit's 100 wei counts towards the balance while it is pushed through.
+    await scheduler.runCycle();
+    assert.equal(target.checker.isTracking(claimSecretHash), true);
+    assert.deepEqual(bridged, []);
+
+    finishResume?.();
+    await scheduler.drain();
+    await scheduler.runCycle();
+    await scheduler.drain();
+    assert.deepEqual(reconciled, [`0x${"ab".repeat(32)}`]);
+    assert.deepEqual(bridged, []);
+  });
+});